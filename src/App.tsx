@@ -14,6 +14,7 @@ import Drafts from "@/pages/Drafts";
 import Trash from "@/pages/Trash";
 import Spam from "@/pages/Spam";
 import Scheduled from "@/pages/Scheduled";
+import Snoozed from "@/pages/Snoozed";
 import Privacy from "@/pages/Privacy";
 import Terms from "@/pages/Terms";
 // import Blogs from "@/pages/Blogs";
@@ -21,9 +22,20 @@ import Payment from "@/pages/Payment";
 import Waitlist from "@/pages/Waitlist";
 import Exclusive from "@/pages/Exclusive";
 import Label from "@/pages/Label";
+import PrintThread from "@/pages/PrintThread";
+import Attachments from "@/pages/Attachments";
 import { LabelsProvider } from '@/context/LabelsContext';
+import { SnoozeProvider } from '@/context/SnoozeContext';
+import { SignaturesProvider } from '@/context/SignaturesContext';
+import { TemplatesProvider } from '@/context/TemplatesContext';
 import { ComposeProvider } from '@/context/ComposeContext';
+import { ShortcutsProvider } from '@/context/ShortcutsContext';
 import { GlobalComposeModal } from '@/components/GlobalComposeModal';
+import { MailMergeProgress } from '@/components/mailMerge/MailMergeProgress';
+import { GlobalShortcuts } from '@/components/shortcuts/GlobalShortcuts';
+import { CommandPaletteProvider } from '@/context/CommandPaletteContext';
+import { GlobalCommands } from '@/components/commands/GlobalCommands';
+import { FirestoreDebugPanel } from '@/components/FirestoreDebugPanel';
 import NotAllowed from "@/pages/NotAllowed";
 
 const queryClient = new QueryClient();
@@ -32,7 +44,12 @@ const App = () => (
 
     <QueryClientProvider client={queryClient}>
       <LabelsProvider>
+      <SnoozeProvider>
+      <SignaturesProvider>
+      <TemplatesProvider>
       <ComposeProvider>
+      <ShortcutsProvider>
+      <CommandPaletteProvider>
       <TooltipProvider>
         <Toaster />
         <Sonner />
@@ -113,6 +130,20 @@ const App = () => (
               </ProtectedRoute>
             } />
 
+            {/* ✅ PROTECTED ROUTE: Snoozed */}
+            <Route path="/snoozed" element={
+              <ProtectedRoute>
+                <Snoozed />
+              </ProtectedRoute>
+            } />
+
+            {/* ✅ PROTECTED ROUTE: Attachments */}
+            <Route path="/attachments" element={
+              <ProtectedRoute>
+                <Attachments />
+              </ProtectedRoute>
+            } />
+
             {/* ✅ PROTECTED ROUTE: Trash */}
             <Route path="/trash" element={
               <ProtectedRoute>
@@ -152,6 +183,13 @@ const App = () => (
                 <Settings />
               </ProtectedRoute>
             } />
+
+            {/* ✅ PROTECTED ROUTE: Print thread (opened in a new tab from the export menu) */}
+            <Route path="/print/thread/:threadId" element={
+              <ProtectedRoute>
+                <PrintThread />
+              </ProtectedRoute>
+            } />
                 
             {/* Catch-all: 404 page */}
             <Route path="*" element={<NotFound />} />
@@ -159,9 +197,23 @@ const App = () => (
           
           {/* Global Compose Modal - persists across navigation */}
           <GlobalComposeModal />
+          {/* Mail merges keep sending in the background - progress and cancel */}
+          <MailMergeProgress />
+          {/* Keyboard shortcuts: compose, g i / g s, "?" cheat sheet */}
+          <GlobalShortcuts />
+          {/* Cmd+K command palette: compose, sender rules, go to page / label */}
+          <GlobalCommands />
+          
+          {/* Firestore listener debug panel - dev / outpost_debug only */}
+          <FirestoreDebugPanel />
         </BrowserRouter>
       </TooltipProvider>
+      </CommandPaletteProvider>
+      </ShortcutsProvider>
       </ComposeProvider>
+      </TemplatesProvider>
+      </SignaturesProvider>
+      </SnoozeProvider>
       </LabelsProvider>
     </QueryClientProvider>
 );
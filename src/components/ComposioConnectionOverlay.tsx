@@ -1,7 +1,5 @@
 import { useState } from "react";
-import { getIdToken } from "@/services/auth.service";
-
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
+import { getComposioConnectUrl } from "@/services/backend.service";
 
 interface ComposioConnectionOverlayProps {
   userEmail: string;
@@ -22,34 +20,13 @@ const ComposioConnectionOverlay = ({
 
       console.log("🔵 Starting Composio Gmail connection...");
 
-      // Get Firebase ID token
-      const idToken = await getIdToken();
-
-      if (!idToken) {
-        throw new Error("Authentication token not found. Please sign in again.");
-      }
-
       // Call backend to create Composio connection
-      const response = await fetch(`${BACKEND_URL}/auth/composio/connect`, {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${idToken}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || "Failed to create Composio connection");
-      }
-
-      const data = await response.json();
-      const { redirect_url } = data;
+      const redirectUrl = await getComposioConnectUrl();
 
       console.log("🔵 Redirecting to Composio OAuth...");
 
       // Full page redirect to Composio OAuth
-      window.location.href = redirect_url;
+      window.location.href = redirectUrl;
       
     } catch (error: any) {
       console.error("❌ Composio connection failed:", error);
@@ -0,0 +1,89 @@
+// components/FirestoreDebugPanel.tsx
+// Floating debug panel showing live Firestore listeners (see services/subscriptionRegistry.ts)
+// Shown in development, or in production when localStorage 'outpost_debug' is 'true'
+// Toggle with Ctrl+Shift+D
+
+import { useState, useEffect } from 'react';
+import { Radio, X } from 'lucide-react';
+import { subscribeToStats, SubscriptionStats } from '@/services/subscriptionRegistry';
+
+const isDebugEnabled = () =>
+  import.meta.env.DEV || localStorage.getItem('outpost_debug') === 'true';
+
+export function FirestoreDebugPanel() {
+  const [enabled] = useState(isDebugEnabled);
+  const [isVisible, setIsVisible] = useState(true);
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<SubscriptionStats | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeToStats(setStats);
+  }, [enabled]);
+
+  // Ctrl+Shift+D: show/hide the panel
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        setIsVisible(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+
+  if (!enabled || !isVisible || !stats) return null;
+
+  return (
+    <div className="fixed bottom-3 right-3 z-[9999] font-mono text-xs">
+      {isOpen ? (
+        <div className="w-72 max-h-80 overflow-y-auto bg-[#1a1a1a] border border-zinc-700 rounded-lg shadow-xl">
+          <div className="sticky top-0 flex items-center justify-between px-3 py-2 bg-[#2d2d2d] border-b border-zinc-700">
+            <span className="text-zinc-200">
+              {stats.listeners} listeners · {stats.consumers} consumers
+            </span>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-0.5 text-zinc-400 hover:text-white rounded"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {stats.subscriptions.length === 0 ? (
+            <div className="px-3 py-2 text-zinc-500">No active listeners</div>
+          ) : (
+            stats.subscriptions.map(sub => (
+              <div
+                key={sub.id}
+                className="flex items-center justify-between px-3 py-1.5 border-b border-zinc-800 last:border-b-0"
+              >
+                <span className={`truncate ${sub.consumers === 0 ? 'text-zinc-500' : 'text-zinc-300'}`}>
+                  {sub.label}
+                </span>
+                <span className="ml-2 flex-shrink-0 text-zinc-500">
+                  ×{sub.consumers} · {sub.docs} docs · {sub.snapshots} snaps
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 bg-[#2d2d2d] border border-zinc-700 rounded-full text-zinc-300 hover:text-white shadow-lg"
+          title="Firestore listeners"
+        >
+          <Radio className="w-3.5 h-3.5 text-[#8FA8A3]" />
+          {stats.listeners}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default FirestoreDebugPanel;
@@ -0,0 +1,167 @@
+// components/attachments/AttachmentLightbox.tsx
+// Full-screen viewer that pages through a list of attachments (a thread, or the Attachments page)
+// ←/→ page, Esc closes; the strip at the bottom jumps to any attachment
+
+import { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Download, Loader2, Paperclip } from 'lucide-react';
+import type { Attachment } from '@/types/inbox';
+import { downloadAttachment } from '@/utils/attachments';
+import { formatFileSize } from '@/utils/formatters';
+import { useTranslation } from '@/hooks/useTranslation';
+import { AttachmentPreview } from './AttachmentPreview';
+
+export interface AttachmentLightboxItem {
+  attachment: Attachment;
+  caption?: string;   // e.g. "Jane Doe · Mar 4" - shown under the file name
+}
+
+interface AttachmentLightboxProps {
+  items: AttachmentLightboxItem[];
+  index: number | null;            // null = closed
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+export function AttachmentLightbox({ items, index, onIndexChange, onClose }: AttachmentLightboxProps) {
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const isOpen = index !== null && index >= 0 && index < items.length;
+  const current = isOpen ? items[index] : null;
+
+  const goTo = (next: number) => {
+    if (items.length === 0) return;
+    onIndexChange((next + items.length) % items.length);
+  };
+
+  // Keyboard: Esc closes, arrows page (mirrored in RTL)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const rtl = document.documentElement.dir === 'rtl';
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      } else if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+        e.preventDefault();
+        const forward = (e.key === 'ArrowRight') !== rtl;
+        onIndexChange((index + (forward ? 1 : -1) + items.length) % items.length);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, index, items.length, onClose, onIndexChange]);
+
+  // Focus inside the dialog so page shortcuts stay quiet while it's open
+  useEffect(() => {
+    if (isOpen) dialogRef.current?.focus();
+  }, [isOpen]);
+
+  if (!isOpen || !current) return null;
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadAttachment(current.attachment);
+    } catch (error) {
+      console.error('Attachment download error:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      tabIndex={-1}
+      role="dialog"
+      aria-label={current.attachment.filename}
+      className="fixed inset-0 z-[70] flex flex-col bg-black/90 outline-none"
+      data-modal
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-4 lg:px-6 py-3 flex-shrink-0">
+        <div className="min-w-0">
+          <p className="text-sm text-white truncate">{current.attachment.filename}</p>
+          <p className="text-xs text-zinc-400 truncate">
+            {formatFileSize(current.attachment.size)}
+            {current.caption && ` · ${current.caption}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {items.length > 1 && (
+            <span className="px-2 text-xs text-zinc-400">
+              {t('attachments.position', { current: index + 1, total: items.length })}
+            </span>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={downloading || !current.attachment.url}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-zinc-300 hover:text-white disabled:opacity-50"
+            title={t('attachments.download')}
+            aria-label={t('attachments.download')}
+          >
+            {downloading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-zinc-300 hover:text-white"
+            title={t('attachments.close')}
+            aria-label={t('attachments.close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Preview + paging */}
+      <div className="relative flex-1 min-h-0 flex items-center justify-center px-4 lg:px-16 pb-4">
+        {/* Remount per attachment so the previous file never flashes */}
+        <AttachmentPreview key={`${index}-${current.attachment.id}`} attachment={current.attachment} onDownload={handleDownload} />
+
+        {items.length > 1 && (
+          <>
+            <button
+              onClick={() => goTo(index - 1)}
+              className="absolute start-2 lg:start-4 top-1/2 -translate-y-1/2 p-2 bg-black/40 hover:bg-white/10 rounded-full transition-colors text-zinc-300 hover:text-white"
+              title={t('attachments.previous')}
+              aria-label={t('attachments.previous')}
+            >
+              <ChevronLeft className="w-6 h-6 rtl:rotate-180" />
+            </button>
+            <button
+              onClick={() => goTo(index + 1)}
+              className="absolute end-2 lg:end-4 top-1/2 -translate-y-1/2 p-2 bg-black/40 hover:bg-white/10 rounded-full transition-colors text-zinc-300 hover:text-white"
+              title={t('attachments.next')}
+              aria-label={t('attachments.next')}
+            >
+              <ChevronRight className="w-6 h-6 rtl:rotate-180" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Every attachment in the list */}
+      {items.length > 1 && (
+        <div className="flex-shrink-0 flex gap-2 px-4 lg:px-6 pb-4 overflow-x-auto hide-scrollbar">
+          {items.map((item, i) => (
+            <button
+              key={`${i}-${item.attachment.id}`}
+              onClick={() => onIndexChange(i)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs whitespace-nowrap transition-colors ${
+                i === index ? 'bg-white text-black' : 'bg-white/10 text-zinc-300 hover:bg-white/20'
+              }`}
+            >
+              <Paperclip className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="max-w-[160px] truncate">{item.attachment.filename}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
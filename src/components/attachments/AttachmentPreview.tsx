@@ -0,0 +1,136 @@
+// components/attachments/AttachmentPreview.tsx
+// In-app preview of one attachment: image, plain text/CSV, audio/video
+// PDFs open in a new tab (the browser's viewer doesn't run in a sandboxed frame)
+// Anything else (or a failed load) shows the file card with a download button
+
+import { useMemo } from 'react';
+import { Loader2, Download, FileText, ExternalLink } from 'lucide-react';
+import type { Attachment } from '@/types/inbox';
+import { useAttachmentContent } from '@/hooks/useAttachmentContent';
+import { getAttachmentKind, isCsvAttachment, parseCsv } from '@/utils/attachments';
+import { formatFileSize } from '@/utils/formatters';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  onDownload: () => void;
+}
+
+function CsvTable({ text }: { text: string }) {
+  const rows = useMemo(() => parseCsv(text), [text]);
+  const [header, ...body] = rows;
+  if (!header) return null;
+
+  return (
+    <div className="w-full h-full overflow-auto bg-white rounded-lg">
+      <table className="min-w-full text-xs text-gray-800 border-collapse">
+        <thead className="sticky top-0 bg-gray-100">
+          <tr>
+            {header.map((cell, i) => (
+              <th key={i} className="px-3 py-2 text-start font-semibold border-b border-gray-200 whitespace-nowrap">{cell}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {body.map((row, r) => (
+            <tr key={r} className="odd:bg-white even:bg-gray-50">
+              {row.map((cell, c) => (
+                <td key={c} className="px-3 py-1.5 border-b border-gray-100 whitespace-nowrap">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function AttachmentPreview({ attachment, onDownload }: AttachmentPreviewProps) {
+  const { t } = useTranslation();
+  const kind = getAttachmentKind(attachment);
+  const { url, text, truncated, loading, error } = useAttachmentContent(attachment, true);
+  const previewable = kind !== 'other' && !!attachment.url;
+
+  // Also covers the first render, before the content effect has run
+  if (loading || (previewable && !error && !url && text === null)) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-zinc-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        {t('attachments.loading')}
+      </div>
+    );
+  }
+
+  // No preview for this type, or it couldn't be loaded
+  if (!previewable || error) {
+    return (
+      <div className="flex flex-col items-center gap-3 px-8 py-10 bg-[#2d2d2d] rounded-2xl text-center max-w-sm">
+        <FileText className="w-10 h-10 text-zinc-500" />
+        <div>
+          <p className="text-sm text-white break-all">{attachment.filename}</p>
+          <p className="text-xs text-zinc-500 mt-0.5">{formatFileSize(attachment.size)}</p>
+        </div>
+        <p className="text-xs text-zinc-400">{error ? t('attachments.previewFailed') : t('attachments.noPreview')}</p>
+        <button
+          onClick={onDownload}
+          className="flex items-center gap-2 px-3 py-2 bg-[#8FA8A3] hover:bg-[#7a9691] rounded-lg text-sm text-white transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          {t('attachments.download')}
+        </button>
+      </div>
+    );
+  }
+
+  if (kind === 'text' && text !== null) {
+    return (
+      <div className="flex flex-col w-full h-full max-w-5xl">
+        {isCsvAttachment(attachment) ? (
+          <CsvTable text={text} />
+        ) : (
+          <pre className="w-full h-full overflow-auto p-4 bg-white rounded-lg text-xs text-gray-800 whitespace-pre-wrap break-words">{text}</pre>
+        )}
+        {truncated && <p className="mt-2 text-xs text-zinc-400 text-center">{t('attachments.truncated')}</p>}
+      </div>
+    );
+  }
+
+  switch (kind) {
+    case 'image':
+      return <img src={url!} alt={attachment.filename} className="max-w-full max-h-full object-contain rounded-lg" />;
+    case 'pdf':
+      // Opened as its own page - fetchAttachmentBlob types it application/pdf, so it can't run as HTML on our origin
+      return (
+        <div className="flex flex-col items-center gap-3 px-8 py-10 bg-[#2d2d2d] rounded-2xl text-center max-w-sm">
+          <FileText className="w-10 h-10 text-zinc-500" />
+          <div>
+            <p className="text-sm text-white break-all">{attachment.filename}</p>
+            <p className="text-xs text-zinc-500 mt-0.5">{formatFileSize(attachment.size)}</p>
+          </div>
+          <p className="text-xs text-zinc-400">{t('attachments.pdfHint')}</p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => window.open(url!, '_blank', 'noopener')}
+              className="flex items-center gap-2 px-3 py-2 bg-[#8FA8A3] hover:bg-[#7a9691] rounded-lg text-sm text-white transition-colors"
+            >
+              <ExternalLink className="w-4 h-4" />
+              {t('attachments.openPdf')}
+            </button>
+            <button
+              onClick={onDownload}
+              className="flex items-center gap-2 px-3 py-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg text-sm text-white transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              {t('attachments.download')}
+            </button>
+          </div>
+        </div>
+      );
+    case 'audio':
+      return <audio src={url!} controls className="w-full max-w-md" />;
+    case 'video':
+      return <video src={url!} controls className="max-w-full max-h-full rounded-lg" />;
+    default:
+      return null;
+  }
+}
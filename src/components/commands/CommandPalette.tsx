@@ -0,0 +1,134 @@
+// components/commands/CommandPalette.tsx
+// Cmd+K palette - every registered command, fuzzy matched and ranked by recent use
+// Commands come from useCommands() registrations (see context/CommandPaletteContext)
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { useCommandPalette } from '@/context/CommandPaletteContext';
+import { useShortcutBindings } from '@/hooks/useShortcutBindings';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  COMMAND_GROUPS,
+  PaletteCommand,
+  getRecentCommands,
+  rankCommands,
+  recordCommandUse,
+} from '@/utils/commandPalette';
+import { ShortcutKeys } from '@/components/shortcuts/ShortcutKeys';
+
+const MAX_RESULTS = 50;
+
+export function CommandPalette() {
+  const { t } = useTranslation();
+  const { isOpen, closePalette, getCommands } = useCommandPalette();
+  const bindings = useShortcutBindings();
+  const [query, setQuery] = useState('');
+
+  // Snapshot when opened - the palette closes before anything it runs re-renders
+  const commands = useMemo(() => (isOpen ? getCommands() : []), [isOpen, getCommands]);
+
+  useEffect(() => {
+    if (isOpen) setQuery('');
+  }, [isOpen]);
+
+  const results = useMemo(
+    () => (query.trim() ? rankCommands(commands, query).slice(0, MAX_RESULTS) : []),
+    [commands, query]
+  );
+  const recentCommands = useMemo(() => (query.trim() ? [] : getRecentCommands(commands)), [commands, query]);
+
+  const runCommand = (command: PaletteCommand) => {
+    console.log(`🎯 Command: ${command.id}`);
+    recordCommandUse(command.id);
+    closePalette();
+    command.perform();
+  };
+
+  if (!isOpen) return null;
+
+  const renderItem = (command: PaletteCommand, keyPrefix: string = '') => {
+    const Icon = command.icon;
+    const keys = command.shortcut ? bindings[command.shortcut] : [];
+    return (
+      <CommandItem
+        key={`${keyPrefix}${command.id}`}
+        value={`${keyPrefix}${command.id}`}
+        onSelect={() => runCommand(command)}
+        className="gap-3 px-3 py-2 rounded-lg text-zinc-300 cursor-pointer data-[selected=true]:bg-zinc-700 data-[selected=true]:text-white"
+      >
+        {Icon && <Icon className="w-4 h-4 text-zinc-400 flex-shrink-0" />}
+        <span className="flex-1 truncate">{command.label}</span>
+        {keys.length > 0 && <ShortcutKeys binding={keys[0]} />}
+      </CommandItem>
+    );
+  };
+
+  const headingClass = '[&_[cmdk-group-heading]]:text-zinc-500 [&_[cmdk-group-heading]]:uppercase [&_[cmdk-group-heading]]:tracking-wider';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center pt-[15vh]" data-modal>
+      {/* Overlay - click to close */}
+      <div className="absolute inset-0 bg-black/60" onClick={closePalette} />
+
+      {/* Palette */}
+      <div role="dialog" aria-label={t('shortcuts.commandPalette')} className="relative w-full max-w-xl mx-4">
+        <Command
+          shouldFilter={false}
+          loop
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              e.preventDefault();
+              closePalette();
+            }
+          }}
+          className="bg-[#2d2d2d] text-white rounded-2xl shadow-2xl border border-zinc-700 [&_[cmdk-input-wrapper]]:border-zinc-700 [&_[cmdk-input-wrapper]]:px-4"
+        >
+          <CommandInput
+            autoFocus
+            value={query}
+            onValueChange={setQuery}
+            placeholder={t('commands.placeholder')}
+            className="h-12 text-white placeholder:text-zinc-500"
+          />
+          <CommandList className="max-h-[50vh] p-2">
+            <CommandEmpty className="py-6 text-center text-sm text-zinc-500">{t('commands.empty')}</CommandEmpty>
+
+            {query.trim() ? (
+              results.length > 0 && (
+                <CommandGroup className="p-0">
+                  {results.map(command => renderItem(command))}
+                </CommandGroup>
+              )
+            ) : (
+              <>
+                {recentCommands.length > 0 && (
+                  <CommandGroup heading={t('commands.recent')} className={headingClass}>
+                    {recentCommands.map(command => renderItem(command, 'recent:'))}
+                  </CommandGroup>
+                )}
+                {COMMAND_GROUPS.map(group => {
+                  const groupCommands = commands.filter(command => command.group === group);
+                  if (groupCommands.length === 0) return null;
+                  return (
+                    <CommandGroup key={group} heading={t(`commands.group.${group}`)} className={headingClass}>
+                      {groupCommands.map(command => renderItem(command))}
+                    </CommandGroup>
+                  );
+                })}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
@@ -0,0 +1,105 @@
+// components/commands/GlobalCommands.tsx
+// App-wide palette commands: compose, sender rules, pages and labels to go to
+// Mounted once inside the router (App.tsx) - thread commands are registered by the pages
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AlarmClock,
+  AlertOctagon,
+  CheckCircle,
+  Clock,
+  FileText,
+  Filter,
+  Inbox,
+  PenSquare,
+  Send,
+  Settings,
+  Tag,
+  Trash2,
+} from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useCompose } from '@/context/ComposeContext';
+import { useLabels } from '@/context/LabelsContext';
+import { useCommandPalette, useCommands } from '@/context/CommandPaletteContext';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { SenderRulesModal } from '@/components/rules/SenderRulesModal';
+import { PaletteCommand } from '@/utils/commandPalette';
+import type { ShortcutAction } from '@/utils/shortcuts';
+import type { MessageKey } from '@/i18n';
+import { CommandPalette } from './CommandPalette';
+
+const PAGES: { id: string; labelKey: MessageKey; path: string; icon: PaletteCommand['icon']; shortcut?: ShortcutAction }[] = [
+  { id: 'inbox', labelKey: 'nav.inbox', path: '/inbox', icon: Inbox, shortcut: 'goInbox' },
+  { id: 'sent', labelKey: 'nav.sent', path: '/sent', icon: Send, shortcut: 'goSent' },
+  { id: 'drafts', labelKey: 'nav.drafts', path: '/drafts', icon: FileText, shortcut: 'goDrafts' },
+  { id: 'done', labelKey: 'nav.done', path: '/done', icon: CheckCircle },
+  { id: 'scheduled', labelKey: 'nav.scheduled', path: '/scheduled', icon: Clock },
+  { id: 'snoozed', labelKey: 'nav.snoozed', path: '/snoozed', icon: AlarmClock },
+  { id: 'trash', labelKey: 'nav.trash', path: '/trash', icon: Trash2 },
+  { id: 'spam', labelKey: 'nav.spam', path: '/spam', icon: AlertOctagon },
+  { id: 'settings', labelKey: 'commands.settings', path: '/settings', icon: Settings },
+];
+
+export function GlobalCommands() {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { openCompose } = useCompose();
+  const { labels } = useLabels();
+  const { togglePalette } = useCommandPalette();
+  const [isSenderRulesOpen, setIsSenderRulesOpen] = useState(false);
+
+  // Signed-out pages (landing, waitlist) have nothing to run
+  useShortcuts('global', {
+    commandPalette: () => togglePalette(),
+  }, !!currentUser);
+
+  // Rebuilt every render (labels, language) - the palette reads the latest list when it opens
+  const commands: PaletteCommand[] = [
+    {
+      id: 'app.compose',
+      group: 'actions',
+      label: t('shortcuts.compose'),
+      keywords: ['new', 'write', 'email'],
+      icon: PenSquare,
+      shortcut: 'compose',
+      perform: () => openCompose(),
+    },
+    {
+      id: 'app.senderRules',
+      group: 'actions',
+      label: t('commands.openSenderRules'),
+      keywords: ['triage', 'filter', t('nav.senderRules')],
+      icon: Filter,
+      perform: () => setIsSenderRulesOpen(true),
+    },
+    ...PAGES.map((page): PaletteCommand => ({
+      id: `go.${page.id}`,
+      group: 'navigation',
+      label: t('commands.goTo', { page: t(page.labelKey) }),
+      icon: page.icon,
+      shortcut: page.shortcut,
+      perform: () => navigate(page.path),
+    })),
+    ...labels.map((label): PaletteCommand => ({
+      id: `go.label.${label.id}`,
+      group: 'navigation',
+      label: t('commands.goToLabel', { label: label.display_name }),
+      icon: Tag,
+      perform: () => navigate(`/label/${encodeURIComponent(label.display_name)}`),
+    })),
+  ];
+
+  useCommands(commands, !!currentUser);
+
+  return (
+    <>
+      <CommandPalette />
+      <SenderRulesModal isOpen={isSenderRulesOpen} onClose={() => setIsSenderRulesOpen(false)} />
+    </>
+  );
+}
+
+export default GlobalCommands;
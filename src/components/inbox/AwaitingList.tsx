@@ -1,9 +1,13 @@
 // AwaitingList.tsx - List of awaiting items grouped by date
 // v2.1: Added checkbox selection support
+// v2.2: Virtualized rows + infinite scroll (hasMore/loadingMore/onLoadMore)
+// v2.3: Date groups computed in the user's timezone (utils/dateTime)
 
 import { Loader2 } from 'lucide-react';
 import { Thread } from './promiseTypes';
 import { AwaitingListItem } from './AwaitingListItem';
+import { VirtualList } from './VirtualList';
+import { getDateGroupLabel } from '@/utils/dateTime';
 
 interface AwaitingListProps {
   threads: Thread[];
@@ -15,63 +19,10 @@ interface AwaitingListProps {
   checkedThreadIds?: Set<string>;
   onCheckChange?: (thread: Thread, checked: boolean) => void;
   isInitialSyncing?: boolean; // Show spinner instead of empty message during initial sync
-}
-
-// Helper: Parse date from various formats
-function parseDate(dateStr: string): Date {
-  if (!dateStr) return new Date(0);
-  
-  const date = new Date(dateStr);
-  if (!isNaN(date.getTime())) {
-    return date;
-  }
-  
-  return new Date(0);
-}
-
-// Helper: Get date group label
-function getDateGroup(dateStr: string): string {
-  if (!dateStr) return 'Other';
-  
-  const date = parseDate(dateStr);
-  if (isNaN(date.getTime())) return 'Other';
-  
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-  
-  const itemDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-  
-  // Calculate week boundaries
-  const startOfWeek = new Date(today);
-  startOfWeek.setDate(today.getDate() - today.getDay());
-  
-  const startOfLastWeek = new Date(startOfWeek);
-  startOfLastWeek.setDate(startOfLastWeek.getDate() - 7);
-  
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
-
-  if (itemDate >= today) {
-    return 'Today';
-  } else if (itemDate >= yesterday) {
-    return 'Yesterday';
-  } else if (itemDate >= startOfWeek) {
-    const dayName = date.toLocaleDateString('en-US', { weekday: 'short' });
-    const dayNum = date.getDate();
-    return `${dayName} ${dayNum}`;
-  } else if (itemDate >= startOfLastWeek) {
-    return 'Last Week';
-  } else if (itemDate >= startOfMonth) {
-    const dayName = date.toLocaleDateString('en-US', { weekday: 'short' });
-    const dayNum = date.getDate();
-    return `${dayName} ${dayNum}`;
-  } else if (itemDate >= startOfLastMonth && itemDate <= endOfLastMonth) {
-    return 'Last Month';
-  } else {
-    return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-  }
+  // Infinite scroll
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 // Group threads by date
@@ -79,7 +30,7 @@ function groupThreadsByDate(threads: Thread[]): Map<string, Thread[]> {
   const groups = new Map<string, Thread[]>();
   
   threads.forEach(thread => {
-    const group = getDateGroup(thread.last_email_date);
+    const group = getDateGroupLabel(thread.last_email_date);
     if (!groups.has(group)) {
       groups.set(group, []);
     }
@@ -141,7 +92,10 @@ export function AwaitingList({
   onThreadClick,
   checkedThreadIds = new Set(),
   onCheckChange,
-  isInitialSyncing = false
+  isInitialSyncing = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }: AwaitingListProps) {
   // Loading state
   if (loading) {
@@ -182,26 +136,25 @@ export function AwaitingList({
     );
   }
 
-  // Group threads by date
-  const groupedThreads = groupThreadsByDate(threads);
+  // Group threads by date (no date headers - groups only set the order)
+  const orderedThreads = Array.from(groupThreadsByDate(threads).values()).flat();
 
   return (
-    <div>
-      {Array.from(groupedThreads.entries()).map(([group, groupThreads]) => (
-        <div key={group}>
-          {/* Threads - No date headers */}
-          {groupThreads.map((thread) => (
-            <AwaitingListItem
-              key={thread.thread_id}
-              thread={thread}
-              isSelected={selectedThread?.thread_id === thread.thread_id}
-              onClick={() => onThreadClick(thread)}
-              isChecked={checkedThreadIds.has(thread.thread_id)}
-              onCheckChange={onCheckChange ? (checked) => onCheckChange(thread, checked) : undefined}
-            />
-          ))}
-        </div>
-      ))}
-    </div>
+    <VirtualList
+      items={orderedThreads}
+      getKey={(thread) => thread.thread_id}
+      hasMore={hasMore}
+      loadingMore={loadingMore}
+      onEndReached={onLoadMore}
+      renderItem={(thread) => (
+        <AwaitingListItem
+          thread={thread}
+          isSelected={selectedThread?.thread_id === thread.thread_id}
+          onClick={() => onThreadClick(thread)}
+          isChecked={checkedThreadIds.has(thread.thread_id)}
+          onCheckChange={onCheckChange ? (checked) => onCheckChange(thread, checked) : undefined}
+        />
+      )}
+    />
   );
 }
\ No newline at end of file
@@ -1,7 +1,14 @@
 // AwaitingListItem.tsx - Individual awaiting item in list
 // v2.1: Use last_email_sender for display, add unread indicator, add checkbox
+// v2.2: Shared (translated) waiting/deadline helpers from promiseTypes
 
-import { Thread, Commitment, extractNameFromEmail } from './promiseTypes';
+import {
+  Thread,
+  extractNameFromEmail,
+  getPrimaryAwaiting,
+  getWaitingDurationText,
+  isDeadlineOverdue,
+} from './promiseTypes';
 
 interface AwaitingListItemProps {
   thread: Thread;
@@ -12,23 +19,6 @@ interface AwaitingListItemProps {
   onCheckChange?: (checked: boolean) => void;
 }
 
-// Helper: Get primary AWAITING commitment from thread
-function getPrimaryAwaiting(thread: Thread): Commitment | null {
-  if (!thread.commitments || thread.commitments.length === 0) return null;
-  
-  // Find first pending awaiting
-  const pending = thread.commitments.find(
-    c => c.status === 'pending' && c.type === 'AWAITING'
-  );
-  
-  // If no pending awaiting, find any awaiting
-  if (!pending) {
-    return thread.commitments.find(c => c.type === 'AWAITING') || null;
-  }
-  
-  return pending;
-}
-
 // Helper: Get display name with proper fallback
 function getDisplayName(thread: Thread): string {
   // Priority 1: Use last_email_sender if available
@@ -53,66 +43,14 @@ function getDisplayName(thread: Thread): string {
   return 'Someone';
 }
 
-// Helper: Calculate waiting duration text
-function getWaitingText(commitment: Commitment | null, thread: Thread): string {
-  // If there's a deadline, show deadline status
-  if (commitment?.deadline) {
-    const deadlineDate = new Date(commitment.deadline);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    deadlineDate.setHours(0, 0, 0, 0);
-    
-    const diffTime = deadlineDate.getTime() - today.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-    
-    if (diffDays < 0) {
-      const overdue = Math.abs(diffDays);
-      return overdue === 1 ? '1 day overdue' : `${overdue} days overdue`;
-    } else if (diffDays === 0) {
-      return 'Due today';
-    } else if (diffDays === 1) {
-      return '1 day left';
-    } else {
-      return `${diffDays} days left`;
-    }
-  }
-  
-  // No deadline - show how long we've been waiting
-  const createdAt = commitment?.created_at || thread.created_at;
-  if (createdAt) {
-    const startDate = new Date(createdAt);
-    const today = new Date();
-    const diffTime = today.getTime() - startDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-    
-    if (diffDays === 0) {
-      return 'Since today';
-    } else if (diffDays === 1) {
-      return 'Waiting 1 day';
-    } else if (diffDays < 7) {
-      return `Waiting ${diffDays} days`;
-    } else if (diffDays < 14) {
-      return 'Waiting 1 week';
-    } else if (diffDays < 30) {
-      const weeks = Math.floor(diffDays / 7);
-      return `Waiting ${weeks} weeks`;
-    } else {
-      const months = Math.floor(diffDays / 30);
-      return months === 1 ? 'Waiting 1 month' : `Waiting ${months} months`;
-    }
-  }
-  
-  return 'No deadline';
-}
-
 export function AwaitingListItem({ thread, isSelected, onClick, isChecked = false, onCheckChange }: AwaitingListItemProps) {
   const commitment = getPrimaryAwaiting(thread);
   const displayName = getDisplayName(thread);
-  const waitingText = getWaitingText(commitment, thread);
+  const waitingText = getWaitingDurationText(commitment, thread);
   const isUnread = thread.is_read === false;
   
   // Check if overdue
-  const isOverdue = waitingText.includes('overdue');
+  const isOverdue = isDeadlineOverdue(commitment?.deadline || null);
 
   // Handle checkbox click without triggering row click
   const handleCheckboxClick = (e: React.MouseEvent) => {
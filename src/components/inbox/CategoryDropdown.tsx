@@ -1,9 +1,11 @@
 // CategoryDropdown.tsx - EXACT design from original Inbox.tsx
 // v2.1: Added unread count badges
+// v2.2: Translated labels (i18n)
 
 import { useState, useEffect, useRef } from 'react';
 import { ChevronDown } from 'lucide-react';
-import { Category, CategoryCounts, categories } from './types';
+import { Category, CategoryCounts, categories, getCategoryLabel } from './types';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface CategoryDropdownProps {
   activeCategory: Category;
@@ -16,6 +18,7 @@ export function CategoryDropdown({ activeCategory, onCategoryChange, counts }: C
   const [dropdownReady, setDropdownReady] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   
+  const { t } = useTranslation();
   const activeCount = counts?.[activeCategory] || 0;
 
   // Close dropdown when clicking outside
@@ -56,8 +59,8 @@ export function CategoryDropdown({ activeCategory, onCategoryChange, counts }: C
         onClick={() => setDropdownOpen(!dropdownOpen)}
         className="flex items-center gap-1 text-white font-medium px-2 py-1 hover:bg-zinc-700/50 rounded-lg transition-colors"
       >
-        <span className="capitalize text-sm flex items-center gap-1.5">
-          {activeCategory}
+        <span className="text-sm flex items-center gap-1.5">
+          {getCategoryLabel(activeCategory)}
           {activeCount > 0 && (
             <span className="text-xs">{activeCount}</span>
           )}
@@ -68,7 +71,7 @@ export function CategoryDropdown({ activeCategory, onCategoryChange, counts }: C
       {/* Dropdown Menu */}
       {dropdownOpen && (
         <div 
-          className="absolute top-full left-0 mt-2 w-40 bg-[#1a1a1a] border border-zinc-700 rounded-xl shadow-xl z-50 overflow-hidden"
+          className="absolute top-full start-0 mt-2 w-40 bg-[#1a1a1a] border border-zinc-700 rounded-xl shadow-xl z-50 overflow-hidden"
           style={{ pointerEvents: dropdownReady ? 'auto' : 'none' }}
         >
           {categories.map((category) => {
@@ -88,7 +91,7 @@ export function CategoryDropdown({ activeCategory, onCategoryChange, counts }: C
                   }
                 `}
               >
-                <span>{category.label}</span>
+                <span>{t(category.labelKey)}</span>
                 {count > 0 && (
                   <span className="text-xs">{count}</span>
                 )}
@@ -1,7 +1,9 @@
 // CategoryNav.tsx - EXACT design from original Inbox.tsx
 // v2.1: Added unread count badges
+// v2.2: Translated labels (i18n)
 
 import { Category, CategoryCounts, categories } from './types';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface CategoryNavProps {
   activeCategory: Category;
@@ -10,6 +12,8 @@ interface CategoryNavProps {
 }
 
 export function CategoryNav({ activeCategory, onCategoryChange, counts }: CategoryNavProps) {
+  const { t } = useTranslation();
+
   return (
     <div className="flex items-center gap-8">
       {categories.map((category) => {
@@ -28,7 +32,7 @@ export function CategoryNav({ activeCategory, onCategoryChange, counts }: Catego
             `}
           >
             <span className="flex items-center gap-1.5">
-              {category.label}
+              {t(category.labelKey)}
               {count > 0 && (
                 <span className="text-xs">
                   {count}
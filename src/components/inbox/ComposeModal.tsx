@@ -4,17 +4,32 @@
 // Phase 3: Multiple recipients with chip/tag style
 // Phase 4: Backend API integration with undo support
 // Phase 5: S3 Attachment upload support
+// Phase 6: Continuous draft autosave with cross-tab conflicts and crash recovery
+// Phase 7: Mail merge - CSV recipients, per-recipient preview, throttled individual sends
+// Phase 8: Send checks (missing attachment, outside recipients, new recipients...) with "send anyway"
 // Draggable centered overlay design matching app theme
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { X, Minus, Send, Loader2, GripHorizontal, Calendar, Edit3 } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { X, Minus, Send, Loader2, GripHorizontal, Calendar, Edit3, FileSpreadsheet } from 'lucide-react';
 import { TiptapEditor, TiptapEditorRef, AttachedFile } from './TiptapEditor';
 import { EmailChipInput } from './EmailChipInput';
 import { SendLaterModal } from './SendLaterModal';
+import { DraftSaveStatus, DraftRecoveryBanner } from './DraftSaveStatus';
+import { DraftConflictDialog } from './DraftConflictDialog';
+import { MailMergePanel } from '@/components/mailMerge/MailMergePanel';
+import { MailMergePreview } from '@/components/mailMerge/MailMergePreview';
+import { SendCheckDialog } from '@/components/sendChecks/SendCheckDialog';
 import { sendEmail } from '@/services/emailApi';
+import { updateScheduledEmail } from '@/services/scheduledApi';
 import { uploadAttachment, deleteAttachment, UploadProgress } from '@/services/attachmentApi';
-import { saveDraft, deleteDraft, isDraftWorthSaving } from '@/services/draftApi';
-import { auth } from '@/firebase.config';
+import { deleteDraft, isDraftWorthSaving } from '@/services/draftApi';
+import { queueMailMerge } from '@/services/mailMergeQueue';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { useSendChecks } from '@/hooks/useSendChecks';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { DraftContent } from '@/utils/drafts';
+import { findPlaceholders, findMissingFields, renderMerge, type MailMergeList } from '@/utils/mailMerge';
 
 // Data passed to parent for undo functionality
 export interface UndoEmailData {
@@ -106,6 +121,11 @@ export function ComposeModal({
   const [error, setError] = useState<string | null>(null);
   const [showSendLaterModal, setShowSendLaterModal] = useState(false);
   
+  // Mail merge - one message per CSV row instead of To/Cc/Bcc
+  const [mergeMode, setMergeMode] = useState(false);
+  const [mergeList, setMergeList] = useState<MailMergeList | null>(null);
+  const [showMergePreview, setShowMergePreview] = useState(false);
+  
   // Drag state
   const [position, setPosition] = useState<Position | null>(null); // null = centered
   const [isDragging, setIsDragging] = useState(false);
@@ -115,6 +135,78 @@ export function ComposeModal({
   // Refs
   const editorRef = useRef<TiptapEditorRef>(null);
   
+  // ======================================================
+  // DRAFT AUTOSAVE
+  // ======================================================
+  const draftData = useMemo(() => ({
+    to,
+    cc,
+    bcc,
+    subject,
+    body_html: bodyHtml,
+    body_plain: body,
+    attachments: attachments
+      .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
+      .map(a => ({
+        id: a.id,
+        name: a.name,
+        size: a.size,
+        type: a.type
+      })),
+    draft_type: 'compose' as const
+  }), [to, cc, bcc, subject, bodyHtml, body, attachments]);
+  
+  // Put another version into the form (other tab, merge, recovered copy)
+  const applyDraft = useCallback((content: DraftContent) => {
+    setTo(content.to);
+    setCc(content.cc);
+    setBcc(content.bcc);
+    if (content.cc.length > 0) setShowCc(true);
+    if (content.bcc.length > 0) setShowBcc(true);
+    setSubject(content.subject);
+    setBodyHtml(content.body_html);
+    setBody(content.body_plain);
+    editorRef.current?.setContent(content.body_html);
+    // Uploads still in progress here stay
+    setAttachments(prev => [
+      ...content.attachments.map(a => ({ ...a, status: 'uploaded' as const })),
+      ...prev.filter(a => a.status !== 'uploaded')
+    ]);
+  }, []);
+  
+  const {
+    status: draftStatus,
+    lastSavedAt,
+    conflict: draftConflict,
+    resolveConflict,
+    recovery: draftRecovery,
+    restoreRecovery,
+    dismissRecovery,
+    saveNow: saveDraftNow,
+    finish: finishDraft
+  } = useDraftAutosave({
+    enabled: isOpen && !editMode,  // Scheduled emails aren't drafts
+    draftId: currentDraftId,
+    onDraftIdChange: (draftId) => {
+      setCurrentDraftId(draftId);
+      onDraftSaved?.(draftId);
+    },
+    draft: draftData,
+    canSave: isDraftWorthSaving(draftData),
+    recoveryKey: initialDraftId ? `draft:${initialDraftId}` : 'compose',
+    onApply: applyDraft
+  });
+  
+  // Last look before sending - "Send anyway?" when something seems off
+  const { t } = useTranslation();
+  const { confirmSend, confirmWarnings, warnings: sendWarnings, resolveWarnings } = useSendChecks(userEmail, isOpen);
+  
+  // Recipients with no value for a {{field}} the subject or body uses
+  const mergeProblems = useMemo(
+    () => mergeList ? findMissingFields(mergeList.rows, findPlaceholders(subject, bodyHtml)) : [],
+    [mergeList, subject, bodyHtml]
+  );
+  
   // Focus is handled by EmailChipInput autoFocus prop
   // No need for separate focus effect
   
@@ -135,6 +227,9 @@ export function ComposeModal({
       setScheduledAt(null); // Reset scheduled time
       setShowSendLaterModal(false);
       setCurrentDraftId(undefined); // Reset draft ID
+      setMergeMode(false);
+      setMergeList(null);
+      setShowMergePreview(false);
       // Clear editor content
       editorRef.current?.clear();
     }
@@ -223,13 +318,14 @@ export function ComposeModal({
   
   // Validate form
   const isFormValid = useCallback((): boolean => {
-    if (to.length === 0) return false;
-    if (!subject.trim()) return false;
+    if (mergeMode ? !mergeList?.rows.length : to.length === 0) return false;
+    // An empty subject is a send check, except for merges (it names the merge)
+    if (mergeMode && !subject.trim()) return false;
     // Check if any attachments are still uploading or pending
     const isUploading = attachments.some(a => a.status === 'uploading' || a.status === 'pending');
     if (isUploading) return false;
     return true;
-  }, [to, subject, attachments]);
+  }, [mergeMode, mergeList, to, subject, attachments]);
   
   // ======================================================
   // S3 ATTACHMENT UPLOAD
@@ -341,18 +437,86 @@ export function ComposeModal({
     }
   }, [attachments]);
   
+  // Mail merge: one personalised message per recipient, sent in the background
+  const handleMergeSend = useCallback(async () => {
+    if (!mergeList || mergeList.rows.length === 0) {
+      setError(t('mailMerge.errorNoList'));
+      return;
+    }
+    
+    if (!subject.trim()) {
+      setError(t('mailMerge.errorNoSubject'));
+      return;
+    }
+    
+    if (attachments.some(a => a.status === 'uploading' || a.status === 'pending')) {
+      setError(t('mailMerge.errorUploading'));
+      return;
+    }
+    
+    const htmlBody = editorRef.current?.getHTML() || '';
+    const textBody = editorRef.current?.getText() || '';
+    
+    // Fields the list doesn't have would go out as literal {{placeholders}}
+    const unknownFields = findPlaceholders(subject, htmlBody).filter(field => !(field in mergeList.rows[0].fields));
+    if (unknownFields.length > 0) {
+      setError(t('mailMerge.errorUnknownFields', { fields: unknownFields.map(field => `{{${field}}}`).join(', ') }));
+      return;
+    }
+    
+    if (mergeProblems.length > 0) {
+      const sendAnyway = await confirmWarnings([{ check: 'mergeBlankFields', count: mergeProblems.length }]);
+      if (!sendAnyway) return;
+    }
+    
+    setIsSending(true);
+    
+    try {
+      await queueMailMerge({
+        subject,
+        fileName: mergeList.fileName,
+        messages: mergeList.rows.map(row => ({
+          to: row.email,
+          subject: renderMerge(subject, row),
+          body_html: renderMerge(htmlBody, row, { html: true }),
+          body_text: renderMerge(textBody, row),
+        })),
+        attachmentIds: attachments
+          .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
+          .map(a => a.id),
+      });
+      
+      const sentDraftId = (await finishDraft()) ?? currentDraftId;
+      if (sentDraftId) {
+        try {
+          await deleteDraft(sentDraftId);
+          onDraftDeleted?.(sentDraftId);
+        } catch (error) {
+          console.error('⚠️ Failed to delete draft after mail merge:', error);
+        }
+      }
+      
+      onClose();
+    } catch (err) {
+      console.error('❌ Failed to start mail merge:', err);
+      setError(err instanceof Error ? err.message : t('mailMerge.errorStart'));
+    } finally {
+      setIsSending(false);
+    }
+  }, [mergeList, mergeProblems, subject, attachments, finishDraft, currentDraftId, onDraftDeleted, onClose, confirmWarnings, t]);
+  
   // Handle send
   const handleSend = useCallback(async () => {
     setError(null);
     
-    // Validate recipients
-    if (to.length === 0) {
-      setError('Please add at least one recipient');
+    if (mergeMode) {
+      await handleMergeSend();
       return;
     }
     
-    if (!subject.trim()) {
-      setError('Please enter a subject');
+    // Validate recipients
+    if (to.length === 0) {
+      setError('Please add at least one recipient');
       return;
     }
     
@@ -372,8 +536,6 @@ export function ComposeModal({
       if (!retry) return;
     }
     
-    setIsSending(true);
-    
     // Get HTML and text from editor
     const htmlBody = editorRef.current?.getHTML() || '';
     const textBody = editorRef.current?.getText() || '';
@@ -383,44 +545,30 @@ export function ComposeModal({
       .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
       .map(a => a.id);
     
+    const sendAnyway = await confirmSend({
+      to,
+      cc,
+      bcc,
+      subject,
+      bodyText: textBody,
+      attachmentCount: attachmentIds.length
+    });
+    if (!sendAnyway) return;
+    
+    setIsSending(true);
+    
     try {
       if (editMode && editEmailId) {
         // Edit mode: Update existing scheduled email
-        const user = auth.currentUser;
-        if (!user) throw new Error('Not authenticated');
-        const token = await user.getIdToken();
-        
-        const response = await fetch(`/api/scheduled/${editEmailId}`, {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            to,
-            cc: cc.length > 0 ? cc : [],
-            bcc: bcc.length > 0 ? bcc : [],
-            subject,
-            body_html: htmlBody,
-            body_text: textBody
-          })
+        await updateScheduledEmail(editEmailId, {
+          to,
+          cc,
+          bcc,
+          subject,
+          body_html: htmlBody,
+          body_text: textBody
         });
         
-        if (!response.ok) {
-          // Handle empty response body (e.g., 405 Method Not Allowed)
-          const text = await response.text();
-          let errorMessage = `Failed to update email (${response.status})`;
-          if (text) {
-            try {
-              const data = JSON.parse(text);
-              errorMessage = data.detail || errorMessage;
-            } catch {
-              errorMessage = text || errorMessage;
-            }
-          }
-          throw new Error(errorMessage);
-        }
-        
         console.log('✅ Scheduled email updated:', editEmailId);
         
         // Close modal
@@ -451,11 +599,13 @@ export function ComposeModal({
         }
         
         // Delete draft if this was a draft being sent
-        if (currentDraftId) {
+        // (stop autosave first so nothing recreates it)
+        const sentDraftId = (await finishDraft()) ?? currentDraftId;
+        if (sentDraftId) {
           try {
-            await deleteDraft(currentDraftId);
-            console.log('🗑️ Draft deleted after send:', currentDraftId);
-            onDraftDeleted?.(currentDraftId);
+            await deleteDraft(sentDraftId);
+            console.log('🗑️ Draft deleted after send:', sentDraftId);
+            onDraftDeleted?.(sentDraftId);
           } catch (error) {
             console.error('⚠️ Failed to delete draft after send:', error);
           }
@@ -487,9 +637,9 @@ export function ComposeModal({
     } finally {
       setIsSending(false);
     }
-  }, [to, cc, bcc, subject, attachments, scheduledAt, onClose, onEmailSent, onEmailScheduled, editMode, editEmailId, onEmailUpdated, currentDraftId, onDraftDeleted]);
+  }, [to, cc, bcc, subject, attachments, scheduledAt, onClose, onEmailSent, onEmailScheduled, editMode, editEmailId, onEmailUpdated, currentDraftId, onDraftDeleted, finishDraft, mergeMode, handleMergeSend, confirmSend]);
   
-  // Handle keyboard shortcuts
+  // Escape to close - capture phase so it runs before anything behind the modal
   useEffect(() => {
     if (!isOpen) return;
     
@@ -498,68 +648,48 @@ export function ComposeModal({
       if (e.key === 'Escape') {
         e.preventDefault();
         e.stopPropagation();
-        onClose();
-        return;
-      }
-      
-      // Cmd/Ctrl + Enter to send
-      if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
-        e.preventDefault();
-        e.stopPropagation();
-        handleSend();
-        return;
-      }
-      
-      // Block global shortcuts (R, F, A, D, etc.) from triggering Inbox actions
-      // but don't preventDefault so typing still works
-      const blockedKeys = ['r', 'f', 'a', 'd', 'u'];
-      if (blockedKeys.includes(e.key.toLowerCase()) && !e.metaKey && !e.ctrlKey) {
-        e.stopPropagation();
+        // A dialog sits on top - close just that
+        if (sendWarnings) {
+          resolveWarnings(false);
+        } else if (showMergePreview) {
+          setShowMergePreview(false);
+        } else {
+          onClose();
+        }
       }
     };
     
     window.addEventListener('keydown', handleKeyDown, true);
     return () => window.removeEventListener('keydown', handleKeyDown, true);
-  }, [isOpen, handleSend, onClose]);
+  }, [isOpen, onClose, showMergePreview, sendWarnings, resolveWarnings]);
+  
+  // Send (Cmd/Ctrl+Enter by default) - editor shortcuts keep firing while typing
+  useShortcuts('editor', {
+    send: () => {
+      handleSend();
+    },
+  }, isOpen);
   
   // Handle discard - saves as draft if content exists
   const handleDiscard = useCallback(async () => {
-    // Get current content
-    const htmlBody = editorRef.current?.getHTML() || bodyHtml;
-    const textBody = editorRef.current?.getText() || body;
-    
-    // Prepare draft data
-    const draftData = {
-      to,
-      cc,
-      bcc,
-      subject,
-      body_html: htmlBody,
-      body_plain: textBody,
-      attachments: attachments
-        .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
-        .map(a => ({
-          id: a.id,
-          name: a.name,
-          size: a.size,
-          type: a.type
-        })),
-      draft_type: 'compose' as const
-    };
-    
     // Only save draft if there's content worth saving
     // Don't save drafts in edit mode (scheduled emails)
     if (!editMode && isDraftWorthSaving(draftData)) {
-      try {
-        const savedDraftId = await saveDraft(draftData, currentDraftId);
-        setCurrentDraftId(savedDraftId);
-        console.log('💾 Draft auto-saved on close:', savedDraftId);
-        onDraftSaved?.(savedDraftId);
-      } catch (error) {
-        console.error('⚠️ Failed to save draft:', error);
-        // Don't block close on error
-      }
+      // Flush the autosave - a failed save stays on this device (never blocks close)
+      const savedDraftId = await saveDraftNow();
+      console.log('💾 Draft saved on close:', savedDraftId);
     } else if (!isDraftWorthSaving(draftData)) {
+      // Emptied out - drop the local copy, and the draft autosave created for this message
+      await finishDraft();
+      if (currentDraftId && !initialDraftId) {
+        try {
+          await deleteDraft(currentDraftId);
+          onDraftDeleted?.(currentDraftId);
+        } catch (error) {
+          console.error('⚠️ Failed to delete empty draft:', error);
+        }
+      }
+      
       // No content - delete uploaded attachments from S3 if any
       const uploadedAttachments = attachments.filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'));
       for (const attachment of uploadedAttachments) {
@@ -573,7 +703,7 @@ export function ComposeModal({
     }
     
     onClose();
-  }, [to, cc, bcc, subject, body, bodyHtml, attachments, editMode, currentDraftId, onClose, onDraftSaved]);
+  }, [draftData, attachments, editMode, currentDraftId, initialDraftId, onClose, onDraftDeleted, saveDraftNow, finishDraft]);
   
   // Handle Send Later - opens modal
   const handleSendLater = () => {
@@ -612,42 +742,15 @@ export function ComposeModal({
   
   // Handle Save to Draft (manual save)
   const handleSaveDraft = useCallback(async () => {
-    const htmlBody = editorRef.current?.getHTML() || bodyHtml;
-    const textBody = editorRef.current?.getText() || body;
-    
-    const draftData = {
-      to,
-      cc,
-      bcc,
-      subject,
-      body_html: htmlBody,
-      body_plain: textBody,
-      attachments: attachments
-        .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
-        .map(a => ({
-          id: a.id,
-          name: a.name,
-          size: a.size,
-          type: a.type
-        })),
-      draft_type: 'compose' as const
-    };
-    
     if (!isDraftWorthSaving(draftData)) {
       console.log('💾 Nothing to save');
       return;
     }
     
-    try {
-      const savedDraftId = await saveDraft(draftData, currentDraftId);
-      setCurrentDraftId(savedDraftId);
-      console.log('💾 Draft saved:', savedDraftId);
-      onDraftSaved?.(savedDraftId);
-    } catch (error) {
-      console.error('❌ Failed to save draft:', error);
-      setError('Failed to save draft');
-    }
-  }, [to, cc, bcc, subject, body, bodyHtml, attachments, currentDraftId, onDraftSaved]);
+    // Same path as autosave - the footer status shows how it went
+    const savedDraftId = await saveDraftNow();
+    console.log('💾 Draft saved:', savedDraftId);
+  }, [draftData, saveDraftNow]);
   
   if (!isOpen) return null;
   
@@ -687,10 +790,24 @@ export function ComposeModal({
                 <GripHorizontal className="w-4 h-4 text-zinc-600" />
               )}
               <h2 className="text-base font-semibold text-white">
-                {editMode ? 'Edit Scheduled Email' : (currentDraftId ? 'Draft' : 'New Message')}
+                {editMode ? 'Edit Scheduled Email' : mergeMode ? 'Mail Merge' : (currentDraftId ? 'Draft' : 'New Message')}
               </h2>
             </div>
             <div className="flex items-center gap-1" onMouseDown={(e) => e.stopPropagation()}>
+              {/* Mail merge toggle - not for scheduled emails */}
+              {!editMode && (
+                <button
+                  onClick={() => {
+                    setMergeMode(!mergeMode);
+                    setScheduledAt(null);  // Merges go out right away
+                  }}
+                  className={`p-2 hover:bg-zinc-700/50 rounded-lg transition-colors ${mergeMode ? 'text-[#f7ac5c]' : 'text-zinc-400 hover:text-white'}`}
+                  title={mergeMode ? 'Back to a single message' : 'Mail merge'}
+                  aria-pressed={mergeMode}
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                </button>
+              )}
               {/* Minimize button - for future use */}
               <button 
                 className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
@@ -709,46 +826,68 @@ export function ComposeModal({
             </div>
           </div>
           
+          {/* Unsaved content from a session that didn't close cleanly */}
+          {draftRecovery && (
+            <DraftRecoveryBanner
+              recovery={draftRecovery}
+              onRestore={restoreRecovery}
+              onDismiss={dismissRecovery}
+            />
+          )}
+          
           {/* Form Fields */}
           <div className="flex-1 flex flex-col overflow-hidden">
-            {/* To Field with Cc/Bcc toggle */}
-            <div className="relative">
-              <EmailChipInput
-                emails={to}
-                onChange={setTo}
-                label="To"
-                placeholder="recipient@example.com"
-                autoFocus={isOpen}
+            {/* Mail merge recipients replace To/Cc/Bcc */}
+            {mergeMode ? (
+              <MailMergePanel
+                list={mergeList}
+                onListChange={setMergeList}
+                problems={mergeProblems}
+                onInsertField={(field) => editorRef.current?.insertText(`{{${field}}}`)}
+                onPreview={() => setShowMergePreview(true)}
               />
-              {/* Cc/Bcc toggle */}
-              {!showCc && !showBcc && (
-                <button
-                  onClick={() => { setShowCc(true); setShowBcc(true); }}
-                  className="absolute right-5 top-1/2 -translate-y-1/2 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
-                >
-                  Cc Bcc
-                </button>
-              )}
-            </div>
+            ) : (
+              <>
+                {/* To Field with Cc/Bcc toggle */}
+                <div className="relative">
+                  <EmailChipInput
+                    emails={to}
+                    onChange={setTo}
+                    label="To"
+                    placeholder="recipient@example.com"
+                    autoFocus={isOpen}
+                  />
+                  {/* Cc/Bcc toggle */}
+                  {!showCc && !showBcc && (
+                    <button
+                      onClick={() => { setShowCc(true); setShowBcc(true); }}
+                      className="absolute right-5 top-1/2 -translate-y-1/2 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+                    >
+                      Cc Bcc
+                    </button>
+                  )}
+                </div>
             
-            {/* CC Field (conditional) */}
-            {showCc && (
-              <EmailChipInput
-                emails={cc}
-                onChange={setCc}
-                label="Cc"
-                placeholder="cc@example.com"
-              />
-            )}
+                {/* CC Field (conditional) */}
+                {showCc && (
+                  <EmailChipInput
+                    emails={cc}
+                    onChange={setCc}
+                    label="Cc"
+                    placeholder="cc@example.com"
+                  />
+                )}
             
-            {/* BCC Field (conditional) */}
-            {showBcc && (
-              <EmailChipInput
-                emails={bcc}
-                onChange={setBcc}
-                label="Bcc"
-                placeholder="bcc@example.com"
-              />
+                {/* BCC Field (conditional) */}
+                {showBcc && (
+                  <EmailChipInput
+                    emails={bcc}
+                    onChange={setBcc}
+                    label="Bcc"
+                    placeholder="bcc@example.com"
+                  />
+                )}
+              </>
             )}
             
             {/* Subject Field - placeholder disappears when typing */}
@@ -775,6 +914,9 @@ export function ComposeModal({
                 attachments={attachments}
                 onAttachmentsChange={handleAttachmentsChange}
                 onRemoveAttachment={handleRemoveAttachment}
+                signatureKind="new"
+                fromAddress={userEmail}
+                templateRecipient={mergeMode ? null : (to[0] ?? null)}
               />
             </div>
           </div>
@@ -803,6 +945,9 @@ export function ComposeModal({
               ) : editMode ? (
                 // Edit mode - no additional buttons (reschedule is separate)
                 <span className="text-xs text-zinc-500">Editing scheduled email</span>
+              ) : mergeMode ? (
+                // Mail merge sends right away, one message at a time
+                <span className="text-xs text-zinc-500">Each recipient gets their own message</span>
               ) : (
                 // Normal compose or editing draft - just show Send later
                 <button
@@ -814,40 +959,48 @@ export function ComposeModal({
               )}
             </div>
             
-            {/* Right side - Send/Schedule button */}
-            <button
-              onClick={handleSend}
-              disabled={isSending || !isFormValid()}
-              className={`
-                flex items-center gap-2 px-5 py-2.5 rounded-lg font-medium text-sm transition-all
-                ${isSending || !isFormValid()
-                  ? 'bg-zinc-700 text-zinc-500 cursor-not-allowed'
-                  : 'bg-[#f7ac5c] hover:bg-[#f5a043] text-white cursor-pointer'
-                }
-              `}
-            >
-              {isSending ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  <span>{editMode ? 'Updating...' : (scheduledAt ? 'Scheduling...' : 'Sending...')}</span>
-                </>
-              ) : editMode ? (
-                <>
-                  <Edit3 className="w-4 h-4" />
-                  <span>Update</span>
-                </>
-              ) : scheduledAt ? (
-                <>
-                  <Calendar className="w-4 h-4" />
-                  <span>Schedule</span>
-                </>
-              ) : (
-                <>
-                  <Send className="w-4 h-4" />
-                  <span>Send</span>
-                </>
-              )}
-            </button>
+            {/* Right side - Autosave status + Send/Schedule button */}
+            <div className="flex items-center gap-4">
+              {!editMode && <DraftSaveStatus status={draftStatus} lastSavedAt={lastSavedAt} />}
+              <button
+                onClick={handleSend}
+                disabled={isSending || !isFormValid()}
+                className={`
+                  flex items-center gap-2 px-5 py-2.5 rounded-lg font-medium text-sm transition-all
+                  ${isSending || !isFormValid()
+                    ? 'bg-zinc-700 text-zinc-500 cursor-not-allowed'
+                    : 'bg-[#f7ac5c] hover:bg-[#f5a043] text-white cursor-pointer'
+                  }
+                `}
+              >
+                {isSending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>{editMode ? 'Updating...' : (scheduledAt ? 'Scheduling...' : 'Sending...')}</span>
+                  </>
+                ) : editMode ? (
+                  <>
+                    <Edit3 className="w-4 h-4" />
+                    <span>Update</span>
+                  </>
+                ) : scheduledAt ? (
+                  <>
+                    <Calendar className="w-4 h-4" />
+                    <span>Schedule</span>
+                  </>
+                ) : mergeMode ? (
+                  <>
+                    <Send className="w-4 h-4" />
+                    <span>{mergeList ? `Send ${mergeList.rows.length}` : 'Send'}</span>
+                  </>
+                ) : (
+                  <>
+                    <Send className="w-4 h-4" />
+                    <span>Send</span>
+                  </>
+                )}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -859,6 +1012,24 @@ export function ComposeModal({
         onSchedule={handleSchedule}
         userTimezone={userTimezone}
       />
+      
+      {/* Mail merge - the message as each recipient gets it */}
+      {mergeList && (
+        <MailMergePreview
+          isOpen={showMergePreview}
+          onClose={() => setShowMergePreview(false)}
+          list={mergeList}
+          subject={subject}
+          html={bodyHtml}
+          problems={mergeProblems}
+        />
+      )}
+      
+      {/* Something looks off - send anyway? */}
+      <SendCheckDialog warnings={sendWarnings} onResolve={resolveWarnings} />
+      
+      {/* Same draft saved in another tab meanwhile */}
+      <DraftConflictDialog conflict={draftConflict} onResolve={resolveConflict} />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+// components/inbox/ConversationRows.tsx
+// Small pieces of the conversation view shared by the thread detail views
+// (state lives in hooks/useConversation.ts)
+
+import { MoreHorizontal } from 'lucide-react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// ======================================================
+// FOLDED ROW - "N older messages"
+// ======================================================
+
+interface FoldedEmailsRowProps {
+  count: number;
+  onClick: () => void;
+}
+
+export function FoldedEmailsRow({ count, onClick }: FoldedEmailsRowProps) {
+  const { t } = useTranslation();
+
+  return (
+    <button
+      onClick={onClick}
+      className="w-full flex items-center gap-3 mb-2 py-1 group"
+    >
+      <span className="flex-1 border-t border-zinc-600/60" />
+      <span className="px-3 py-1 rounded-full bg-zinc-700/60 text-xs font-medium text-zinc-300 group-hover:bg-zinc-600/60 group-hover:text-white transition-colors">
+        {t('conversation.olderMessages', { count })}
+      </span>
+      <span className="flex-1 border-t border-zinc-600/60" />
+    </button>
+  );
+}
+
+// ======================================================
+// QUOTED TEXT TOGGLE - "…"
+// ======================================================
+
+interface QuotedTextToggleProps {
+  expanded: boolean;
+  onToggle: () => void;
+  variant?: 'light' | 'dark';
+}
+
+export function QuotedTextToggle({ expanded, onToggle, variant = 'light' }: QuotedTextToggleProps) {
+  const { t } = useTranslation();
+  const label = expanded ? t('conversation.hideQuoted') : t('conversation.showQuoted');
+
+  return (
+    <button
+      onClick={(e) => {
+        // Don't collapse the email card around it
+        e.stopPropagation();
+        onToggle();
+      }}
+      aria-expanded={expanded}
+      aria-label={label}
+      title={label}
+      className={`mt-2 inline-flex items-center justify-center w-8 h-4 rounded-sm transition-colors ${
+        variant === 'dark'
+          ? 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'
+          : 'bg-gray-200 hover:bg-gray-300 text-gray-600'
+      }`}
+    >
+      <MoreHorizontal className="w-4 h-4" />
+    </button>
+  );
+}
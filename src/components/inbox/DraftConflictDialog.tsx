@@ -0,0 +1,104 @@
+// DraftConflictDialog.tsx - The same draft was saved in another tab while this one had unsaved edits
+// Shows both versions side by side: keep this tab's, take the other tab's, or merge both (utils/drafts.ts)
+
+import { useEffect, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { DraftConflict, DraftConflictChoice } from '@/hooks/useDraftAutosave';
+import type { DraftContent } from '@/utils/drafts';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface DraftConflictDialogProps {
+  conflict: DraftConflict | null;
+  onResolve: (choice: DraftConflictChoice) => void;
+}
+
+function DraftVersion({ label, content }: { label: string; content: DraftContent }) {
+  const { t } = useTranslation();
+  const recipients = [...content.to, ...content.cc, ...content.bcc];
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col rounded-xl border border-zinc-700 bg-[#252525] overflow-hidden">
+      <p className="px-3 py-2 text-xs font-semibold text-zinc-300 border-b border-zinc-700">{label}</p>
+      <dl className="px-3 py-2 space-y-1 text-xs border-b border-zinc-700/60">
+        <div className="flex gap-2">
+          <dt className="text-zinc-500 flex-shrink-0">{t('draft.conflict.to')}</dt>
+          <dd className="text-zinc-300 truncate">{recipients.join(', ') || t('draft.conflict.empty')}</dd>
+        </div>
+        <div className="flex gap-2">
+          <dt className="text-zinc-500 flex-shrink-0">{t('draft.conflict.subject')}</dt>
+          <dd className="text-zinc-300 truncate">{content.subject || t('draft.conflict.empty')}</dd>
+        </div>
+        {content.attachments.length > 0 && (
+          <div className="text-zinc-500">{t('draft.conflict.attachments', { count: content.attachments.length })}</div>
+        )}
+      </dl>
+      <p className="flex-1 px-3 py-2 text-xs text-zinc-400 whitespace-pre-wrap break-words overflow-y-auto max-h-48">
+        {content.body_plain.trim() || t('draft.conflict.empty')}
+      </p>
+    </div>
+  );
+}
+
+export function DraftConflictDialog({ conflict, onResolve }: DraftConflictDialogProps) {
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Focus inside so compose shortcuts stay quiet until a version is picked
+  useEffect(() => {
+    if (conflict) dialogRef.current?.focus();
+  }, [conflict]);
+
+  if (!conflict) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4" data-modal>
+      <div className="absolute inset-0 bg-black/60" />
+
+      <div
+        ref={dialogRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="draft-conflict-title"
+        className="relative bg-[#2d2d2d] rounded-2xl shadow-2xl w-full max-w-2xl p-6 outline-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3 mb-4">
+          <AlertTriangle className="w-5 h-5 text-[#f7ac5c] flex-shrink-0 mt-0.5" />
+          <div>
+            <h3 id="draft-conflict-title" className="text-lg font-semibold text-white">
+              {t('draft.conflict.title')}
+            </h3>
+            <p className="text-sm text-zinc-400 mt-1">{t('draft.conflict.description')}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <DraftVersion label={t('draft.conflict.mine')} content={conflict.mine} />
+          <DraftVersion label={t('draft.conflict.theirs')} content={conflict.theirs} />
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={() => onResolve('mine')}
+            className="flex-1 py-2.5 rounded-xl font-medium text-white bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-colors"
+          >
+            {t('draft.conflict.keepMine')}
+          </button>
+          <button
+            onClick={() => onResolve('theirs')}
+            className="flex-1 py-2.5 rounded-xl font-medium text-white bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-colors"
+          >
+            {t('draft.conflict.useTheirs')}
+          </button>
+          <button
+            onClick={() => onResolve('merge')}
+            className="flex-1 py-2.5 rounded-xl font-medium text-white bg-[#8FA8A3]/80 backdrop-blur-sm border border-[#8FA8A3]/30 hover:bg-[#8FA8A3] transition-colors"
+          >
+            {t('draft.conflict.merge')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+// DraftSaveStatus.tsx - Autosave state in the compose/reply footer ("Saved 5s ago")
+// plus the banner offering unsaved content recovered from a crash (hooks/useDraftAutosave.ts)
+
+import { useEffect, useState } from 'react';
+import { Loader2, Check, CloudOff, History } from 'lucide-react';
+import type { DraftSaveStatus as Status } from '@/hooks/useDraftAutosave';
+import type { DraftRecovery } from '@/utils/drafts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatRelativeTime } from '@/utils/dateTime';
+
+const TICK_MS = 5000;
+
+interface DraftSaveStatusProps {
+  status: Status;
+  lastSavedAt: number | null;
+}
+
+export function DraftSaveStatus({ status, lastSavedAt }: DraftSaveStatusProps) {
+  const { t } = useTranslation();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep "Saved 5s ago" moving
+  useEffect(() => {
+    if (status !== 'saved') return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [status, lastSavedAt]);
+
+  if (status === 'saving') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs text-zinc-500" aria-live="polite">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        {t('draft.saving')}
+      </span>
+    );
+  }
+
+  if (status === 'local') {
+    return (
+      <span className="flex items-center gap-1.5 text-xs text-amber-400" title={t('draft.savedLocallyHint')} aria-live="polite">
+        <CloudOff className="w-3.5 h-3.5" />
+        {t('draft.savedLocally')}
+      </span>
+    );
+  }
+
+  if (status !== 'saved' || !lastSavedAt) return null;
+
+  const seconds = Math.max(0, Math.floor((now - lastSavedAt) / 1000));
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-zinc-500" aria-live="polite">
+      <Check className="w-3.5 h-3.5" />
+      {seconds < 60
+        ? t('draft.savedSecondsAgo', { count: Math.max(1, seconds) })
+        : t('draft.savedAgo', { time: formatRelativeTime(lastSavedAt) })}
+    </span>
+  );
+}
+
+interface DraftRecoveryBannerProps {
+  recovery: DraftRecovery;
+  onRestore: () => void;
+  onDismiss: () => void;
+}
+
+export function DraftRecoveryBanner({ recovery, onRestore, onDismiss }: DraftRecoveryBannerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center gap-3 px-5 py-2.5 bg-[#f7ac5c]/10 border-b border-[#f7ac5c]/20">
+      <History className="w-4 h-4 text-[#f7ac5c] flex-shrink-0" />
+      <p className="flex-1 min-w-0 text-xs text-zinc-300 truncate">
+        {t('draft.recovery.message', { time: formatRelativeTime(recovery.savedAt, { withTime: true }) })}
+      </p>
+      <button
+        onClick={onRestore}
+        className="text-xs font-medium text-[#f7ac5c] hover:text-[#f5a043] transition-colors"
+      >
+        {t('draft.recovery.restore')}
+      </button>
+      <button
+        onClick={onDismiss}
+        className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+      >
+        {t('draft.recovery.discard')}
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 // EditorToolbar.tsx - Formatting toolbar for TiptapEditor
 // Icons-based toolbar with dark theme and brand tooltips
 // Updated: Added GIF and Emoji picker buttons
+// v7.0: Image from URL, signature switcher (compose/reply/forward only)
+// v7.1: Template menu (compose/reply/forward only)
 
 import { useState, useRef } from 'react';
 import { Editor } from '@tiptap/react';
@@ -14,17 +16,23 @@ import {
   Link2Off,
   Paperclip,
   Smile,
-  ImageIcon
+  ImageIcon,
+  PenLine,
+  LayoutTemplate
 } from 'lucide-react';
 import { LinkPopover } from './LinkPopover';
 import { GifPickerModal } from './GifPickerModal';
 import { EmojiPickerPopover } from './EmojiPickerPopover';
+import { SignatureMenu } from '../signatures/SignatureMenu';
+import { TemplateMenu } from '../templates/TemplateMenu';
 import { AttachedFile } from './TiptapEditor';
 
 interface EditorToolbarProps {
   editor: Editor | null;
   onAttachmentsChange?: (files: AttachedFile[]) => void;
   attachments?: AttachedFile[];
+  showSignatures?: boolean;
+  templateRecipient?: string | null;  // undefined = no templates here
 }
 
 interface ToolbarButtonProps {
@@ -71,9 +79,14 @@ function ToolbarDivider() {
 export function EditorToolbar({ 
   editor, 
   onAttachmentsChange, 
-  attachments = []
+  attachments = [],
+  showSignatures = false,
+  templateRecipient
 }: EditorToolbarProps) {
   const [showLinkPopover, setShowLinkPopover] = useState(false);
+  const [showImagePopover, setShowImagePopover] = useState(false);
+  const [showSignatureMenu, setShowSignatureMenu] = useState(false);
+  const [showTemplateMenu, setShowTemplateMenu] = useState(false);
   const [showGifPicker, setShowGifPicker] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -115,6 +128,12 @@ export function EditorToolbar({
     }
   };
   
+  // v7.0: Insert image by URL (logos in signatures)
+  const handleApplyImage = (url: string) => {
+    if (!url) return;
+    editor.chain().focus().setImage({ src: url }).run();
+  };
+  
   // Handle attachment click
   const handleAttachmentClick = () => {
     fileInputRef.current?.click();
@@ -251,25 +270,47 @@ export function EditorToolbar({
           />
         </div>
         
-        <ToolbarDivider />
+ 
+        {/* v7.0: Image from URL */}
+        <div className="relative">
+          <ToolbarButton
+            onClick={() => setShowImagePopover(true)}
+            tooltip="Insert Image"
+          >
+            <ImageIcon className="w-4 h-4" />
+          </ToolbarButton>
+          
+          <LinkPopover
+            isOpen={showImagePopover}
+            onClose={() => setShowImagePopover(false)}
+            onApply={handleApplyImage}
+            title="Insert Image"
+          />
+        </div>
         
-        {/* Attachment */}
-        <ToolbarButton
-          onClick={handleAttachmentClick}
-          tooltip="Attach file"
-        >
-          <Paperclip className="w-4 h-4" />
-        </ToolbarButton>
+        <ToolbarDivider />
         
-        {/* Hidden file input */}
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          onChange={handleFileChange}
-          className="hidden"
-          accept="*/*"
-        />
+        {/* Attachment (not in the signature editor) */}
+        {onAttachmentsChange && (
+          <>
+            <ToolbarButton
+              onClick={handleAttachmentClick}
+              tooltip="Attach file"
+            >
+              <Paperclip className="w-4 h-4" />
+            </ToolbarButton>
+            
+            {/* Hidden file input */}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+              accept="*/*"
+            />
+          </>
+        )}
         
         {/* GIF Picker */}
         <ToolbarButton
@@ -295,6 +336,51 @@ export function EditorToolbar({
             onSelect={handleEmojiSelect}
           />
         </div>
+        
+        {/* v7.1: Templates */}
+        {templateRecipient !== undefined && (
+          <>
+            <ToolbarDivider />
+            <div className="relative">
+              <ToolbarButton
+                onClick={() => setShowTemplateMenu(!showTemplateMenu)}
+                isActive={showTemplateMenu}
+                tooltip="Insert Template"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+              </ToolbarButton>
+              
+              <TemplateMenu
+                isOpen={showTemplateMenu}
+                onClose={() => setShowTemplateMenu(false)}
+                editor={editor}
+                recipient={templateRecipient}
+              />
+            </div>
+          </>
+        )}
+        
+        {/* v7.0: Signature switcher */}
+        {showSignatures && (
+          <>
+            {templateRecipient === undefined && <ToolbarDivider />}
+            <div className="relative">
+              <ToolbarButton
+                onClick={() => setShowSignatureMenu(!showSignatureMenu)}
+                isActive={showSignatureMenu}
+                tooltip="Signature"
+              >
+                <PenLine className="w-4 h-4" />
+              </ToolbarButton>
+              
+              <SignatureMenu
+                isOpen={showSignatureMenu}
+                onClose={() => setShowSignatureMenu(false)}
+                editor={editor}
+              />
+            </div>
+          </>
+        )}
       </div>
       
       {/* GIF Picker Modal */}
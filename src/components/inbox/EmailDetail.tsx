@@ -1,8 +1,10 @@
 // EmailDetail.tsx - EXACT design from original Inbox.tsx
+// HTML bodies rendered in SafeEmailFrame (sanitized, sandboxed, remote images blocked)
 
 import { X, Check, Trash2 } from 'lucide-react';
-import { useRef, useEffect, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Email } from './types';
+import { SafeEmailFrame } from './SafeEmailFrame';
 
 // Expand icon SVG component
 const ExpandIcon = () => (
@@ -57,15 +59,11 @@ export function EmailDetail({
   hasPrevious = false,
   hasNext = false
 }: EmailDetailProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(100);
   const [showContent, setShowContent] = useState(false);
   
   // Delay content render to allow panel transition to complete
-  // Also reset iframe height for new email
   useEffect(() => {
     setShowContent(false);
-    setIframeHeight(100); // Reset to small default, will expand based on content
     const timer = setTimeout(() => setShowContent(true), 300);
     return () => clearTimeout(timer);
   }, [email.id]);
@@ -73,182 +71,6 @@ export function EmailDetail({
   // Check if body contains actual HTML tags (not just < > characters)
   const isHtml = /<[a-z][\s\S]*>/i.test(email.body);
   
-  // Wrap HTML content with white background styling - includes sender/time header
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1">
-        <base target="_blank">
-        <style>
-          * {
-            -ms-overflow-style: none;
-            scrollbar-width: none;
-            box-sizing: border-box;
-          }
-          *::-webkit-scrollbar {
-            display: none;
-          }
-          html {
-            height: auto !important;
-            min-height: 0 !important;
-          }
-          body {
-            margin: 0;
-            padding: 0;
-            width: 100%;
-            height: auto !important;
-            min-height: 0 !important;
-            overflow-x: hidden;
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
-            font-size: 14px;
-            line-height: 1.6;
-            color: #1a1a1a;
-            background-color: #ffffff;
-          }
-          .header {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            padding: 16px 24px;
-            border-bottom: 1px solid #e5e5e5;
-          }
-          .sender {
-            font-size: 14px;
-            font-weight: 500;
-            color: #374151;
-          }
-          .time {
-            font-size: 12px;
-            color: #9ca3af;
-          }
-          .content-wrapper {
-            overflow: hidden;
-            height: auto !important;
-          }
-          .content {
-            padding: 24px;
-            word-wrap: break-word;
-            overflow-wrap: break-word;
-            transform-origin: top left;
-            height: auto !important;
-          }
-          .content img {
-            max-width: 100%;
-            height: auto;
-          }
-          .content table {
-            max-width: 100%;
-            height: auto !important;
-          }
-          .content div, .content td, .content tr, .content tbody {
-            height: auto !important;
-            min-height: 0 !important;
-          }
-          a { color: #2563eb; }
-          pre { white-space: pre-wrap; word-wrap: break-word; }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <span class="sender">${email.sender}</span>
-          <span class="time">${email.time || ''}</span>
-        </div>
-        <div class="content-wrapper">
-          <div class="content">${email.body}</div>
-        </div>
-        <script>
-          // Ensure all links open in new tab
-          document.addEventListener('click', function(e) {
-            var target = e.target;
-            while (target && target.tagName !== 'A') {
-              target = target.parentElement;
-            }
-            if (target && target.tagName === 'A' && target.href) {
-              e.preventDefault();
-              e.stopPropagation();
-              window.open(target.href, '_blank', 'noopener,noreferrer');
-            }
-          }, true);
-          
-          function scaleContent() {
-            const wrapper = document.querySelector('.content-wrapper');
-            const content = document.querySelector('.content');
-            if (!wrapper || !content) return;
-            
-            content.style.transform = 'none';
-            wrapper.style.height = 'auto';
-            
-            const containerWidth = document.body.clientWidth;
-            const contentWidth = content.scrollWidth;
-            
-            if (contentWidth > containerWidth) {
-              const scale = containerWidth / contentWidth;
-              content.style.transform = 'scale(' + scale + ')';
-              wrapper.style.height = (content.scrollHeight * scale) + 'px';
-            }
-            
-            // Send actual height to parent
-            const header = document.querySelector('.header');
-            const totalHeight = header.offsetHeight + wrapper.scrollHeight;
-            window.parent.postMessage({ type: 'iframeHeight', height: totalHeight }, '*');
-          }
-          
-          window.addEventListener('load', scaleContent);
-          setTimeout(scaleContent, 100);
-          setTimeout(scaleContent, 500);
-        </script>
-      </body>
-    </html>
-  `;
-
-  // Adjust iframe height based on content
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !showContent) return;
-
-    // Listen for height message from iframe
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data?.type === 'iframeHeight' && event.data.height > 0) {
-        setIframeHeight(event.data.height + 10);
-      }
-    };
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const header = doc.querySelector('.header') as HTMLElement;
-          const wrapper = doc.querySelector('.content-wrapper') as HTMLElement;
-          if (header && wrapper) {
-            const height = header.offsetHeight + wrapper.scrollHeight;
-            if (height > 0) {
-              setIframeHeight(height + 10);
-            }
-          }
-        }
-      } catch (e) {
-        // Cross-origin error, use default height
-      }
-    };
-
-    window.addEventListener('message', handleMessage);
-    iframe.addEventListener('load', updateHeight);
-    
-    const timer1 = setTimeout(updateHeight, 200);
-    const timer2 = setTimeout(updateHeight, 600);
-    const timer3 = setTimeout(updateHeight, 1200);
-
-    return () => {
-      window.removeEventListener('message', handleMessage);
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(timer1);
-      clearTimeout(timer2);
-      clearTimeout(timer3);
-    };
-  }, [email.body, showContent]);
-
   return (
     <>
       {/* Detail Header */}
@@ -334,34 +156,27 @@ export function EmailDetail({
           {/* Email Content - Delayed render for smooth panel transition */}
           {showContent ? (
             <div className="animate-fadeIn">
-              {isHtml ? (
-                <iframe
-                  ref={iframeRef}
-                  srcDoc={htmlContent}
-                  sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
-                  className="w-full border-0 rounded-lg bg-white"
-                  style={{ height: `${iframeHeight}px` }}
-                  title="Email content"
-                />
-              ) : (
-                <div className="rounded-lg bg-white overflow-hidden">
-                  {/* Sender + Time Header */}
-                  <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
-                    <span className="text-sm font-medium text-gray-700">
-                      {email.sender}
-                    </span>
-                    <span className="text-xs text-gray-400">
-                      {email.time}
-                    </span>
-                  </div>
-                  {/* Body */}
+              <div className="rounded-lg bg-white overflow-hidden">
+                {/* Sender + Time Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                  <span className="text-sm font-medium text-gray-700">
+                    {email.sender}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {email.time}
+                  </span>
+                </div>
+                {/* Body */}
+                {isHtml ? (
+                  <SafeEmailFrame html={email.body} senderEmail={email.senderEmail} initialHeight={100} bodyCss="padding: 24px;" />
+                ) : (
                   <div className="p-6">
                     <div className="text-zinc-800 text-sm leading-relaxed whitespace-pre-wrap">
                       {email.body}
                     </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           ) : (
             <div className="flex items-center justify-center h-32">
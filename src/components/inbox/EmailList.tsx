@@ -1,9 +1,13 @@
 // EmailList.tsx - Email list container with date grouping and action callbacks
 // v2.0: Added mobile selection mode props
+// v2.1: Virtualized rows + infinite scroll (hasMore/loadingMore/onLoadMore)
+// v2.2: Date groups computed in the user's timezone (utils/dateTime)
 
 import { Loader2 } from 'lucide-react';
 import { Email } from './types';
 import { EmailListItem } from './EmailListItem';
+import { VirtualList } from './VirtualList';
+import { getDateGroupLabel } from '@/utils/dateTime';
 
 interface EmailListProps {
   emails: Email[];
@@ -20,67 +24,10 @@ interface EmailListProps {
   onDelete?: (email: Email) => void;
   showMarkDone?: boolean; // false for Sent page
   isDonePage?: boolean; // true for Done page (shows undo icon)
-}
-
-// Helper function to get date group label
-function getDateGroup(timeStr: string, dateStr: string): string {
-  if (!dateStr && !timeStr) return 'Other';
-  
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-  
-  // Check time string first for today/yesterday
-  if (timeStr) {
-    if (timeStr.includes('AM') || timeStr.includes('PM')) {
-      return 'Today';
-    } else if (timeStr === 'Yesterday') {
-      return 'Yesterday';
-    }
-  }
-  
-  // Parse the full date string (format: "Dec 9, 2024")
-  if (!dateStr) return 'Other';
-  
-  const emailDate = new Date(dateStr);
-  if (isNaN(emailDate.getTime())) {
-    return 'Other';
-  }
-  
-  // Calculate week boundaries
-  const startOfWeek = new Date(today);
-  startOfWeek.setDate(today.getDate() - today.getDay()); // Sunday of this week
-  
-  const startOfLastWeek = new Date(startOfWeek);
-  startOfLastWeek.setDate(startOfLastWeek.getDate() - 7);
-  
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
-  
-  // Check which group
-  if (emailDate >= today) {
-    return 'Today';
-  } else if (emailDate >= yesterday) {
-    return 'Yesterday';
-  } else if (emailDate >= startOfWeek) {
-    // This week - show day name + date
-    const dayName = emailDate.toLocaleDateString('en-US', { weekday: 'short' });
-    const dayNum = emailDate.getDate();
-    return `${dayName} ${dayNum}`;
-  } else if (emailDate >= startOfLastWeek) {
-    return 'Last Week';
-  } else if (emailDate >= startOfMonth) {
-    // Earlier this month
-    const dayName = emailDate.toLocaleDateString('en-US', { weekday: 'short' });
-    const dayNum = emailDate.getDate();
-    return `${dayName} ${dayNum}`;
-  } else if (emailDate >= startOfLastMonth && emailDate <= endOfLastMonth) {
-    return 'Last Month';
-  } else {
-    // Older - show month name and year
-    return emailDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-  }
+  // Infinite scroll
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 // Group emails by date
@@ -88,7 +35,7 @@ function groupEmailsByDate(emails: Email[]): Map<string, Email[]> {
   const groups = new Map<string, Email[]>();
   
   emails.forEach(email => {
-    const group = getDateGroup(email.time, email.date);
+    const group = getDateGroupLabel(email.timestamp || email.date);
     if (!groups.has(group)) {
       groups.set(group, []);
     }
@@ -158,7 +105,10 @@ export function EmailList({
   onMarkDone,
   onDelete,
   showMarkDone = true,
-  isDonePage = false
+  isDonePage = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }: EmailListProps) {
   // Loading state
   if (loading) {
@@ -191,34 +141,33 @@ export function EmailList({
     );
   }
 
-  // Group emails by date
-  const groupedEmails = groupEmailsByDate(emails);
+  // Group emails by date (groups only set the order)
+  const orderedEmails = Array.from(groupEmailsByDate(emails).values()).flat();
 
   // Email list without date section headers
   return (
-    <div>
-      {Array.from(groupedEmails.entries()).map(([group, groupEmails]) => (
-        <div key={group}>
-          {/* Emails in this group */}
-          {groupEmails.map((email) => (
-            <EmailListItem
-              key={email.id}
-              email={email}
-              isSelected={email.id === selectedEmailId}
-              isCompact={isCompact}
-              isChecked={checkedEmailIds.has(email.id)}
-              isSelectionMode={isSelectionMode}
-              onClick={() => onEmailClick(email)}
-              onCheckChange={onCheckChange}
-              onLongPress={onLongPress}
-              onMarkDone={onMarkDone}
-              onDelete={onDelete}
-              showMarkDone={showMarkDone}
-              isDonePage={isDonePage}
-            />
-          ))}
-        </div>
-      ))}
-    </div>
+    <VirtualList
+      items={orderedEmails}
+      getKey={(email) => email.id}
+      hasMore={hasMore}
+      loadingMore={loadingMore}
+      onEndReached={onLoadMore}
+      renderItem={(email) => (
+        <EmailListItem
+          email={email}
+          isSelected={email.id === selectedEmailId}
+          isCompact={isCompact}
+          isChecked={checkedEmailIds.has(email.id)}
+          isSelectionMode={isSelectionMode}
+          onClick={() => onEmailClick(email)}
+          onCheckChange={onCheckChange}
+          onLongPress={onLongPress}
+          onMarkDone={onMarkDone}
+          onDelete={onDelete}
+          showMarkDone={showMarkDone}
+          isDonePage={isDonePage}
+        />
+      )}
+    />
   );
 }
\ No newline at end of file
@@ -1,29 +1,51 @@
 // EmailProfile.tsx - EXACT design from original Inbox.tsx
+// v2.0: All address fields (Reply-To, To, Cc, Bcc) + "Show original"
 
+import { FileCode } from 'lucide-react';
 import { Email } from './types';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface EmailProfileProps {
   email: Email;
   userEmail: string;
+  onShowOriginal?: () => void;
 }
 
-export function EmailProfile({ email, userEmail }: EmailProfileProps) {
+function AddressField({ label, addresses }: { label: string; addresses: string[] }) {
+  if (addresses.length === 0) return null;
+  return (
+    <div className="mb-4">
+      <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">{label}</p>
+      {addresses.map((address, idx) => (
+        <p key={idx} className="text-zinc-300 text-sm break-all">{address}</p>
+      ))}
+    </div>
+  );
+}
+
+export function EmailProfile({ email, userEmail, onShowOriginal }: EmailProfileProps) {
+  const { t } = useTranslation();
+  const to = email.to && email.to.length > 0 ? email.to : [userEmail || "user@email.com"];
+
   return (
     <div className="p-6 pt-8">
-      {/* From */}
-      <div className="mb-4">
-        <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">From</p>
-        <p className="text-zinc-300 text-sm break-all">
-          {email.senderEmail}
-        </p>
-      </div>
-      {/* To */}
-      <div>
-        <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">To</p>
-        <p className="text-zinc-300 text-sm break-all">
-          {userEmail || "user@email.com"}
-        </p>
-      </div>
+      <AddressField label={t('original.from')} addresses={[email.senderEmail]} />
+      {email.reply_to && email.reply_to.toLowerCase() !== email.senderEmail?.toLowerCase() && (
+        <AddressField label={t('original.replyTo')} addresses={[email.reply_to]} />
+      )}
+      <AddressField label={t('original.to')} addresses={to} />
+      <AddressField label={t('original.cc')} addresses={email.cc || []} />
+      <AddressField label={t('original.bcc')} addresses={email.bcc || []} />
+
+      {onShowOriginal && (
+        <button
+          onClick={onShowOriginal}
+          className="flex items-center gap-1.5 text-xs text-zinc-400 hover:text-white transition-colors"
+        >
+          <FileCode className="w-3.5 h-3.5" />
+          {t('original.show')}
+        </button>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+// components/inbox/ExportMenu.tsx
+// Export dropdown for a thread or a selection: .eml, .mbox, PDF (see hooks/useEmailExport.ts)
+
+import { useEffect, useRef, useState } from 'react';
+import { Download, FileText, Archive, Printer, Loader2 } from 'lucide-react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ExportMenuProps {
+  // Resolve to false when the export failed - the menu stays open with the error
+  onExportEml?: () => Promise<boolean>;
+  onExportMbox?: () => Promise<boolean>;
+  onPrint?: () => void;
+  exporting: boolean;
+  error: string | null;
+  // 'light' for the white thread header, 'dark' for the list toolbar
+  variant?: 'light' | 'dark';
+}
+
+export function ExportMenu({ onExportEml, onExportMbox, onPrint, exporting, error, variant = 'dark' }: ExportMenuProps) {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSelect = async (action: () => Promise<boolean> | void) => {
+    setFailed(false);
+    const ok = await action();
+    if (ok === false) {
+      setFailed(true);
+    } else {
+      setIsOpen(false);
+    }
+  };
+
+  const triggerClass = variant === 'light'
+    ? 'p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-500 hover:text-black'
+    : 'p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white';
+
+  const options = [
+    onExportEml && { id: 'eml', icon: FileText, label: t('export.eml'), action: onExportEml },
+    onExportMbox && { id: 'mbox', icon: Archive, label: t('export.mbox'), action: onExportMbox },
+    onPrint && { id: 'pdf', icon: Printer, label: t('export.pdf'), action: onPrint },
+  ].filter(Boolean) as { id: string; icon: typeof Download; label: string; action: () => Promise<boolean> | void }[];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => {
+          setFailed(false);
+          setIsOpen(!isOpen);
+        }}
+        className={triggerClass}
+        title={t('export.title')}
+        aria-label={t('export.title')}
+      >
+        {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute end-0 top-full mt-2 w-56 bg-zinc-800 rounded-lg shadow-xl border border-zinc-700 z-50 overflow-hidden py-1">
+          {options.map(({ id, icon: Icon, label, action }) => (
+            <button
+              key={id}
+              onClick={() => handleSelect(action)}
+              disabled={exporting}
+              className="w-full flex items-center gap-2.5 px-3 py-2 text-sm text-zinc-200 hover:bg-zinc-700/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Icon className="w-4 h-4 text-zinc-400" />
+              {label}
+            </button>
+          ))}
+          {failed && error && (
+            <p className="px-3 py-2 text-xs text-red-400 border-t border-zinc-700">{t('export.failed')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
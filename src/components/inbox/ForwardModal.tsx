@@ -1,17 +1,25 @@
 // ForwardModal.tsx - Forward email modal
 // Separate from ReplyModal for cleaner separation of concerns
 // Features: Empty recipients, Fwd: subject, forwarded message quote, original attachments
+// Send checks (hooks/useSendChecks.ts) ask "send anyway?" first - e.g. a first-time recipient
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { X, Minus, Send, Loader2, GripHorizontal, Calendar } from 'lucide-react';
 import { TiptapEditor, TiptapEditorRef, AttachedFile } from './TiptapEditor';
 import { EmailChipInput } from './EmailChipInput';
 import { SendLaterModal } from './SendLaterModal';
+import { SendCheckDialog } from '@/components/sendChecks/SendCheckDialog';
 import { forwardEmail } from '@/services/replyForwardApi';
 import { uploadAttachment, deleteAttachment, UploadProgress } from '@/services/attachmentApi';
 import { saveDraft, deleteDraft, isDraftWorthSaving } from '@/services/draftApi';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import { useSignatures } from '@/context/SignaturesContext';
+import { useShortcutBindings } from '@/hooks/useShortcutBindings';
+import { useSendChecks } from '@/hooks/useSendChecks';
+import { formatBinding } from '@/utils/shortcuts';
 import { Email } from './types';
 import { UndoEmailData } from './ComposeModal';
+import { joinWithQuote } from '@/utils/signatures';
 
 interface ForwardModalProps {
   isOpen: boolean;
@@ -128,6 +136,12 @@ export function ForwardModal({
   // Refs
   const editorRef = useRef<TiptapEditorRef>(null);
   
+  // Last look before sending - "Send anyway?" when something seems off
+  const { confirmSend, warnings: sendWarnings, resolveWarnings } = useSendChecks(userEmail, isOpen);
+  
+  // v7.0: Where the signature goes relative to the quoted message
+  const { settings: { placement: signaturePlacement } } = useSignatures();
+  
   // Reset form when modal closes
   useEffect(() => {
     if (!isOpen) {
@@ -312,18 +326,37 @@ export function ForwardModal({
       return;
     }
     
+    // Checked against what the user wrote, not the forwarded message
+    const sendAnyway = await confirmSend({
+      to,
+      cc,
+      bcc,
+      subject,
+      bodyText: editorRef.current?.getText() || bodyText,
+      attachmentCount: attachments.filter(a => a.status === 'uploaded').length
+    });
+    if (!sendAnyway) return;
+    
     setIsSending(true);
     setError(null);
     
     try {
-      // Build email content with forwarded quote
-      const fullBodyHtml = bodyHtml + initialQuote;
-      const fullBodyText = bodyText + '\n\n---------- Forwarded message ---------\n' +
-        `From: ${originalEmail.sender} <${originalEmail.senderEmail}>\n` +
-        `Date: ${originalEmail.date} at ${originalEmail.time}\n` +
-        `Subject: ${originalEmail.subject}\n` +
-        (originalEmail.to ? `To: ${originalEmail.to.join(', ')}\n` : '') +
-        '\n' + originalEmail.body.replace(/<[^>]*>/g, '');
+      // Build email content with forwarded quote (signature above or below it).
+      // Read from the editor - an untouched default signature isn't in state yet
+      const editorHtml = editorRef.current?.getHTML() || bodyHtml;
+      const { html: fullBodyHtml, text: fullBodyText } = joinWithQuote(
+        { html: editorHtml, text: editorRef.current?.getText() || bodyText },
+        {
+          html: initialQuote,
+          text: '\n\n---------- Forwarded message ---------\n' +
+            `From: ${originalEmail.sender} <${originalEmail.senderEmail}>\n` +
+            `Date: ${originalEmail.date} at ${originalEmail.time}\n` +
+            `Subject: ${originalEmail.subject}\n` +
+            (originalEmail.to ? `To: ${originalEmail.to.join(', ')}\n` : '') +
+            '\n' + originalEmail.body.replace(/<[^>]*>/g, ''),
+        },
+        signaturePlacement
+      );
       
       // Get uploaded attachment IDs
       const attachmentIds = attachments
@@ -366,7 +399,7 @@ export function ForwardModal({
           cc,
           bcc,
           subject,
-          body_html: bodyHtml, // User's message without quote (quote will be regenerated)
+          body_html: editorHtml, // User's message without quote (quote will be regenerated)
           attachments: attachments.filter(a => a.status === 'uploaded'),
           originalEmail: originalEmail,
           threadId: threadId
@@ -460,7 +493,7 @@ export function ForwardModal({
     setScheduledAt(null);
   };
   
-  // Keyboard shortcuts - stop propagation to prevent global shortcuts
+  // Escape to close - capture phase so it runs before anything behind the modal
   useEffect(() => {
     if (!isOpen) return;
     
@@ -469,29 +502,26 @@ export function ForwardModal({
       if (e.key === 'Escape') {
         e.preventDefault();
         e.stopPropagation();
-        handleDiscard();
-        return;
-      }
-      
-      // Cmd/Ctrl + Enter to send
-      if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
-        e.preventDefault();
-        e.stopPropagation();
-        handleSend();
-        return;
-      }
-      
-      // Block global shortcuts (R, F, A, D, etc.) from triggering Inbox actions
-      // but don't preventDefault so typing still works
-      const blockedKeys = ['r', 'f', 'a', 'd', 'u'];
-      if (blockedKeys.includes(e.key.toLowerCase()) && !e.metaKey && !e.ctrlKey) {
-        e.stopPropagation();
+        // Send check dialog open - close just that
+        if (sendWarnings) {
+          resolveWarnings(false);
+        } else {
+          handleDiscard();
+        }
       }
     };
     
     window.addEventListener('keydown', handleKeyDown, true);
     return () => window.removeEventListener('keydown', handleKeyDown, true);
-  }, [isOpen]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [isOpen, sendWarnings]); // eslint-disable-line react-hooks/exhaustive-deps
+  
+  // Send (Cmd/Ctrl+Enter by default) - editor shortcuts keep firing while typing
+  const shortcutBindings = useShortcutBindings();
+  useShortcuts('editor', {
+    send: () => {
+      handleSend();
+    },
+  }, isOpen);
   
   // Format scheduled time for display
   const formatScheduledTime = (date: Date): string => {
@@ -627,6 +657,9 @@ export function ForwardModal({
                 attachments={attachments}
                 onAttachmentsChange={handleAttachmentsChange}
                 onRemoveAttachment={handleRemoveAttachment}
+                signatureKind="reply"
+                fromAddress={userEmail}
+                templateRecipient={to[0] ?? null}
               />
             </div>
           </div>
@@ -699,6 +732,9 @@ export function ForwardModal({
         />
       )}
       
+      {/* Something looks off - send anyway? */}
+      <SendCheckDialog warnings={sendWarnings} onResolve={resolveWarnings} />
+      
       {/* Keyboard Shortcuts Bar */}
       <div className="fixed bottom-0 left-0 right-0 h-12 bg-[#1a1a1a] border-t border-zinc-800 flex items-center justify-center gap-8 px-4 z-40">
         <div className="flex items-center gap-1.5">
@@ -727,7 +763,7 @@ export function ForwardModal({
         </div>
         <div className="flex items-center gap-1.5">
           <kbd className="px-1.5 py-0.5 bg-zinc-800 rounded text-[10px] text-zinc-400 font-mono">
-            {isMac ? '⌘' : 'Ctrl'}+Enter
+            {formatBinding(shortcutBindings.send[0] ?? '').join(' ')}
           </kbd>
           <span className="text-xs text-zinc-500">Send</span>
         </div>
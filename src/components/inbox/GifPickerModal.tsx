@@ -1,32 +1,10 @@
 // GifPickerModal.tsx - GIF picker modal using backend proxy
-// Fetches GIFs from /api/giphy/search and /api/giphy/trending
+// Fetches GIFs from /api/giphy/search and /api/giphy/trending (services/giphyApi.ts)
 // Matches Outpost dark theme design
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { X, Search, Loader2, TrendingUp } from 'lucide-react';
-
-interface GifData {
-  id: string;
-  title: string;
-  url: string;
-  preview: {
-    url: string;
-    width: string;
-    height: string;
-    webp?: string;
-  };
-  full: {
-    url: string;
-    width: string;
-    height: string;
-  };
-  original: {
-    url: string;
-    width: string;
-    height: string;
-    webp?: string;
-  };
-}
+import { getTrendingGifs, searchGifs as searchGiphy, type GifData } from '@/services/giphyApi';
 
 interface GifPickerModalProps {
   isOpen: boolean;
@@ -70,14 +48,7 @@ export function GifPickerModal({ isOpen, onClose, onSelect }: GifPickerModalProp
     setMode('trending');
     
     try {
-      const response = await fetch('/api/giphy/trending?limit=20');
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch trending GIFs');
-      }
-      
-      const data = await response.json();
-      setGifs(data.data || []);
+      setGifs(await getTrendingGifs());
     } catch (err) {
       console.error('Failed to fetch trending GIFs:', err);
       setError('Failed to load GIFs. Please try again.');
@@ -98,14 +69,7 @@ export function GifPickerModal({ isOpen, onClose, onSelect }: GifPickerModalProp
     setMode('search');
     
     try {
-      const response = await fetch(`/api/giphy/search?q=${encodeURIComponent(query)}&limit=20`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to search GIFs');
-      }
-      
-      const data = await response.json();
-      setGifs(data.data || []);
+      setGifs(await searchGiphy(query));
     } catch (err) {
       console.error('Failed to search GIFs:', err);
       setError('Failed to search GIFs. Please try again.');
@@ -1,5 +1,6 @@
 // LinkPopover.tsx - Custom popover for link insertion
 // Dark themed popover matching app design
+// Also used for image URLs (title="Insert Image")
 
 import { useState, useEffect, useRef } from 'react';
 import { X, Check } from 'lucide-react';
@@ -10,6 +11,7 @@ interface LinkPopoverProps {
   onApply: (url: string) => void;
   initialUrl?: string;
   position?: { x: number; y: number };
+  title?: string;
 }
 
 export function LinkPopover({ 
@@ -17,7 +19,8 @@ export function LinkPopover({
   onClose, 
   onApply, 
   initialUrl = '',
-  position 
+  position,
+  title = 'Insert Link'
 }: LinkPopoverProps) {
   const [url, setUrl] = useState(initialUrl);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -102,7 +105,7 @@ export function LinkPopover({
     >
       {/* Header */}
       <div className="flex items-center justify-between mb-2">
-        <span className="text-xs text-zinc-400 font-medium">Insert Link</span>
+        <span className="text-xs text-zinc-400 font-medium">{title}</span>
         <button 
           onClick={onClose}
           className="p-1 hover:bg-zinc-600/50 rounded transition-colors text-zinc-400 hover:text-white"
@@ -2,7 +2,7 @@
 // Appears above normal header when items are selected
 
 import React from 'react';
-import { Check, Trash2, Mail, MailOpen, Undo2 } from 'lucide-react';
+import { Check, Trash2, Mail, MailOpen, Undo2, AlarmClock, Download, Loader2 } from 'lucide-react';
 
 interface MobileSelectionBarProps {
   selectedCount: number;
@@ -13,8 +13,11 @@ interface MobileSelectionBarProps {
   onMarkRead?: () => void;
   onMarkUnread?: () => void;
   onMarkDone?: () => void;
+  onSnooze?: () => void;
   onDelete?: () => void;
   onUndo?: () => void;
+  onExport?: () => void;   // Selection as one .mbox file
+  exporting?: boolean;
 }
 
 export const MobileSelectionBar = React.memo(function MobileSelectionBar({
@@ -25,8 +28,11 @@ export const MobileSelectionBar = React.memo(function MobileSelectionBar({
   onMarkRead,
   onMarkUnread,
   onMarkDone,
+  onSnooze,
   onDelete,
-  onUndo
+  onUndo,
+  onExport,
+  exporting = false
 }: MobileSelectionBarProps) {
   if (selectedCount === 0) return null;
 
@@ -83,6 +89,25 @@ export const MobileSelectionBar = React.memo(function MobileSelectionBar({
             <Check className="w-5 h-5" />
           </button>
         )}
+        {onSnooze && (
+          <button
+            onClick={onSnooze}
+            className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+            title="Snooze"
+          >
+            <AlarmClock className="w-5 h-5" />
+          </button>
+        )}
+        {onExport && (
+          <button
+            onClick={onExport}
+            disabled={exporting}
+            className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+            title="Export"
+          >
+            {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+          </button>
+        )}
         {onUndo && (
           <button
             onClick={onUndo}
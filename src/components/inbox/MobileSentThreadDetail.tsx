@@ -1,8 +1,13 @@
-import { Loader2, Trash2, Reply, Forward, Paperclip, Download } from 'lucide-react';
-import { useRef, useEffect, useState } from 'react';
+import { Loader2, Trash2, Reply, Forward, Paperclip, Download, FileCode } from 'lucide-react';
+import { useState } from 'react';
 import { Email } from './types';
-import { formatFileSize, formatRelativeTime } from '@/utils/formatters';
-import { stripQuotedReply } from '@/utils/emailHelpers';
+import { formatFileSize } from '@/utils/formatters';
+import { formatRelativeTime } from '@/utils/dateTime';
+import { useConversation, useQuotedText } from '@/hooks/useConversation';
+import { FoldedEmailsRow, QuotedTextToggle } from './ConversationRows';
+import { OriginalMessageModal } from './OriginalMessageModal';
+import { SafeEmailFrame } from './SafeEmailFrame';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface MobileSentThreadDetailProps {
   subject: string;
@@ -131,73 +136,15 @@ interface MobileEmailCardProps {
 
 // Individual email card
 function MobileEmailCard({ email, isLast, userEmail, onReply, onForward }: MobileEmailCardProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(60);
+  const { t } = useTranslation();
+  const [showOriginal, setShowOriginal] = useState(false);
   
   const isHtml = /<[a-z][\s\S]*>/i.test(email.body);
-  const cleanBody = stripQuotedReply(email.body, isHtml);
+  const { body: cleanBody, hasQuoted, showQuoted, toggleQuoted } = useQuotedText(email.body, isHtml);
   
   const isUserSender = email.senderEmail?.toLowerCase() === userEmail?.toLowerCase();
   const displayName = isUserSender ? 'You' : email.sender;
 
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1">
-        <style>
-          * { box-sizing: border-box; -ms-overflow-style: none; scrollbar-width: none; }
-          *::-webkit-scrollbar { display: none; }
-          html, body {
-            margin: 0;
-            padding: 0;
-            height: auto !important;
-            overflow: hidden;
-          }
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
-            font-size: 15px;
-            font-weight: 500;
-            line-height: 1.6;
-            color: #1a1a1a;
-            background: transparent;
-            padding: 14px;
-          }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-        </style>
-      </head>
-      <body>${cleanBody}</body>
-    </html>
-  `;
-
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !isHtml) return;
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const height = doc.body.scrollHeight;
-          if (height > 0) setIframeHeight(height + 10);
-        }
-      } catch {
-        // Cross-origin or access error - ignore
-      }
-    };
-
-    iframe.addEventListener('load', updateHeight);
-    // Single height check after load
-    const t1 = setTimeout(updateHeight, 100);
-
-    return () => {
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(t1);
-    };
-  }, [cleanBody, isHtml]);
-
   // v2.0: Handle reply click
   const handleReplyClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -241,6 +188,16 @@ function MobileEmailCard({ email, isLast, userEmail, onReply, onForward }: Mobil
             >
               <Forward className="w-4 h-4" />
             </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowOriginal(true);
+              }}
+              className="p-1.5 active:bg-gray-100 rounded-md transition-colors text-gray-400"
+              aria-label={t('original.show')}
+            >
+              <FileCode className="w-4 h-4" />
+            </button>
           </div>
           
           <span className="text-xs text-gray-400">{email.time}</span>
@@ -249,19 +206,17 @@ function MobileEmailCard({ email, isLast, userEmail, onReply, onForward }: Mobil
       
       <div className="px-4 py-3">
         {isHtml ? (
-          <iframe
-            ref={iframeRef}
-            srcDoc={htmlContent}
-            sandbox="allow-same-origin"
-            className="w-full border-0 transition-[height] duration-200 ease-out"
-            style={{ height: `${iframeHeight}px`, background: 'transparent' }}
-            title="Email content"
+          <SafeEmailFrame
+            html={cleanBody}
+            senderEmail={email.senderEmail}
+            bodyCss="font-size: 15px; font-weight: 500; padding: 14px;"
           />
         ) : (
           <div className="text-[15px] font-medium text-gray-700 leading-relaxed whitespace-pre-wrap">
             {cleanBody}
           </div>
         )}
+        {hasQuoted && <QuotedTextToggle expanded={showQuoted} onToggle={toggleQuoted} />}
       </div>
       
       {/* v3.0: Attachments Section */}
@@ -328,6 +283,13 @@ function MobileEmailCard({ email, isLast, userEmail, onReply, onForward }: Mobil
           )}
         </div>
       )}
+
+      <OriginalMessageModal
+        isOpen={showOriginal}
+        onClose={() => setShowOriginal(false)}
+        email={email}
+        userEmail={userEmail}
+      />
     </div>
   );
 }
@@ -343,47 +305,8 @@ export function MobileSentThreadDetail({
   onReplyAll,
   onForward
 }: MobileSentThreadDetailProps) {
-  // State for tracking which emails are expanded (by email id)
-  const [expandedEmails, setExpandedEmails] = useState<Set<string>>(new Set());
-  const emailListRef = useRef<HTMLDivElement>(null);
-  
-  // Initialize: Latest email always expanded
-  useEffect(() => {
-    if (emails.length > 0) {
-      const latestEmailId = emails[emails.length - 1].id;
-      setExpandedEmails(new Set([latestEmailId]));
-    }
-  }, [emails]);
-  
-  // Handle toggling email expanded/collapsed state
-  const handleToggleEmail = (emailId: string) => {
-    // Don't allow collapsing the latest email
-    if (isLatestEmail(emailId)) return;
-    
-    setExpandedEmails(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(emailId)) {
-        // Collapse it
-        newSet.delete(emailId);
-      } else {
-        // Expand it
-        newSet.add(emailId);
-        // Scroll to the expanded email after a short delay
-        setTimeout(() => {
-          const emailElement = document.getElementById(`mobile-sent-email-${emailId}`);
-          if (emailElement && emailListRef.current) {
-            emailElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-        }, 100);
-      }
-      return newSet;
-    });
-  };
-  
-  // Check if an email is the latest
-  const isLatestEmail = (emailId: string) => {
-    return emails.length > 0 && emails[emails.length - 1].id === emailId;
-  };
+  // Expanded / collapsed / folded emails (unread + latest start expanded)
+  const { items: conversationItems, toggle: handleToggleEmail, unfold: handleUnfold } = useConversation(emails, 'mobile-sent-email-');
   
   return (
     <div className="lg:hidden fixed inset-0 bg-[#2d2d2d] z-30 flex flex-col">
@@ -415,7 +338,7 @@ export function MobileSentThreadDetail({
       </div>
 
       {/* Emails */}
-      <div ref={emailListRef} className="flex-1 overflow-y-auto hide-scrollbar p-4">
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-4">
         {loading ? (
           <div className="flex items-center justify-center h-32">
             <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
@@ -425,17 +348,19 @@ export function MobileSentThreadDetail({
             <p className="text-zinc-500 text-sm">No emails found</p>
           </div>
         ) : (
-          emails.map((email, index) => {
-            const isExpanded = expandedEmails.has(email.id) || isLatestEmail(email.id);
-            const isLatest = isLatestEmail(email.id);
+          conversationItems.map((item) => {
+            if (item.type === 'folded') {
+              return <FoldedEmailsRow key={`folded-${item.key}`} count={item.emails.length} onClick={handleUnfold} />;
+            }
+            const { email } = item;
             
             return (
               <AnimatedMobileSentEmailItem
                 key={email.id}
                 email={email}
-                isExpanded={isExpanded}
-                isLatest={isLatest}
-                isLast={index === emails.length - 1}
+                isExpanded={item.isExpanded}
+                isLatest={item.isLatest}
+                isLast={item.isLast}
                 userEmail={userEmail}
                 onToggle={() => handleToggleEmail(email.id)}
                 onReply={onReply}
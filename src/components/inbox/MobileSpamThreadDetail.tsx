@@ -1,9 +1,16 @@
 // components/inbox/MobileSpamThreadDetail.tsx
 // Mobile detail view for spam emails (full screen)
 // v1.0: Simple view without reply/forward (spam emails)
+// v1.1: Dates formatted in the user's timezone (utils/dateTime)
+// v1.2: Quoted history folded behind a "…" toggle (useQuotedText)
+// v1.3: HTML rendered in SafeEmailFrame (sanitized, sandboxed, remote images blocked)
 
 import { ArrowLeft } from "lucide-react";
+import { formatDateTime } from "@/utils/dateTime";
 import { SpamEmail } from "../../hooks/useSpamEmails";
+import { useQuotedText } from "@/hooks/useConversation";
+import { QuotedTextToggle } from "./ConversationRows";
+import { SafeEmailFrame } from "./SafeEmailFrame";
 
 interface MobileSpamThreadDetailProps {
   email: SpamEmail;
@@ -11,28 +18,10 @@ interface MobileSpamThreadDetailProps {
 }
 
 export const MobileSpamThreadDetail = ({ email, onClose }: MobileSpamThreadDetailProps) => {
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    if (!dateString) return '';
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-    } catch {
-      return dateString;
-    }
-  };
-
   // Get sender display name
   const senderName = email.from_name || email.senderEmail || email.from || 'Unknown Sender';
   const senderEmail = email.senderEmail || email.from || '';
+  const { body, hasQuoted, showQuoted, toggleQuoted } = useQuotedText(email.body_html || email.body_plain || '', !!email.body_html);
 
   return (
     <div className="lg:hidden fixed inset-0 bg-[#1a1a1a] z-50 flex flex-col">
@@ -77,7 +66,7 @@ export const MobileSpamThreadDetail = ({ email, onClose }: MobileSpamThreadDetai
                 <span className="text-white font-medium truncate">{senderName}</span>
               </div>
               <p className="text-zinc-500 text-sm truncate">{senderEmail}</p>
-              <p className="text-zinc-600 text-xs mt-1">{formatDate(email.date || email.internal_date)}</p>
+              <p className="text-zinc-600 text-xs mt-1">{formatDateTime(email.date || email.internal_date, { weekday: true })}</p>
             </div>
           </div>
 
@@ -93,15 +82,15 @@ export const MobileSpamThreadDetail = ({ email, onClose }: MobileSpamThreadDetai
         {/* Email Body */}
         <div className="px-4 py-4">
           {email.body_html ? (
-            <div 
-              className="text-zinc-300 text-sm leading-relaxed prose prose-invert prose-sm max-w-none"
-              dangerouslySetInnerHTML={{ __html: email.body_html }}
-            />
+            <div className="bg-white rounded-lg">
+              <SafeEmailFrame html={body} senderEmail={senderEmail} />
+            </div>
           ) : (
             <p className="text-zinc-300 text-sm leading-relaxed whitespace-pre-wrap">
-              {email.body_plain || email.snippet || '(No content)'}
+              {body || email.snippet || '(No content)'}
             </p>
           )}
+          {hasQuoted && <QuotedTextToggle expanded={showQuoted} onToggle={toggleQuoted} variant="dark" />}
         </div>
 
         {/* Attachments */}
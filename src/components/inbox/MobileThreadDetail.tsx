@@ -1,9 +1,17 @@
-import { Loader2, Check, Trash2, Reply, Forward, Paperclip, Download } from 'lucide-react';
-import { useRef, useEffect, useState } from 'react';
+import { Loader2, Check, Trash2, Reply, Forward, Paperclip, Download, AlarmClock, FileCode } from 'lucide-react';
+import { useState } from 'react';
 import { Thread } from './promiseTypes';
 import { Email } from './types';
-import { formatFileSize, formatRelativeTime } from '@/utils/formatters';
-import { stripQuotedReply } from '@/utils/emailHelpers';
+import { formatFileSize } from '@/utils/formatters';
+import { formatRelativeTime } from '@/utils/dateTime';
+import { useConversation, useQuotedText } from '@/hooks/useConversation';
+import { FoldedEmailsRow, QuotedTextToggle } from './ConversationRows';
+import { SafeEmailFrame } from './SafeEmailFrame';
+import { PhishingBanner } from './PhishingBanner';
+import { OriginalMessageModal } from './OriginalMessageModal';
+import { usePhishingCheck } from '@/hooks/usePhishingCheck';
+import { useContacts } from '@/hooks/useContacts';
+import { useTranslation } from '@/hooks/useTranslation';
 
 
 type ThreadMode = 'promise' | 'awaiting' | 'inbox';
@@ -16,11 +24,13 @@ interface MobileThreadDetailProps {
   onClose: () => void;
   onMarkDone?: () => void;
   onDelete?: () => void;
+  onSnooze?: () => void;
   mode?: ThreadMode;
   getAuthToken?: () => Promise<string>; // For tracking API calls
   onReply?: (email: Email) => void;      // v3.0: Reply handler
   onReplyAll?: (email: Email) => void;   // v4.0: Reply All handler
   onForward?: (email: Email) => void;    // v3.0: Forward handler
+  onReportPhishing?: () => void;         // Moves the thread to Spam
 }
 
 // Collapsed email row component for mobile
@@ -69,6 +79,8 @@ interface AnimatedMobileEmailItemProps {
   getAuthToken?: () => Promise<string>;
   onReply?: (email: Email) => void;
   onForward?: (email: Email) => void;
+  knownAddresses: string[];
+  onReportPhishing?: () => void;
 }
 
 function AnimatedMobileEmailItem({ 
@@ -80,7 +92,9 @@ function AnimatedMobileEmailItem({
   onToggle,
   getAuthToken,
   onReply,
-  onForward
+  onForward,
+  knownAddresses,
+  onReportPhishing
 }: AnimatedMobileEmailItemProps) {
   const isUserSender = email.senderEmail?.toLowerCase() === userEmail?.toLowerCase();
   const displayName = isUserSender ? 'You' : email.sender;
@@ -103,6 +117,8 @@ function AnimatedMobileEmailItem({
             getAuthToken={getAuthToken}
             onReply={onReply}
             onForward={onForward}
+            knownAddresses={knownAddresses}
+            onReportPhishing={onReportPhishing}
           />
         </div>
       ) : (
@@ -139,74 +155,24 @@ interface MobileEmailCardProps {
   getAuthToken?: () => Promise<string>;
   onReply?: (email: Email) => void;
   onForward?: (email: Email) => void;
+  knownAddresses: string[];
+  onReportPhishing?: () => void;
 }
 
-function MobileEmailCard({ email, isLast, userEmail, getAuthToken, onReply, onForward }: MobileEmailCardProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(60);
-  
+function MobileEmailCard({ email, isLast, userEmail, getAuthToken, onReply, onForward, knownAddresses, onReportPhishing }: MobileEmailCardProps) {
+  const { t } = useTranslation();
   const isHtml = /<[a-z][\s\S]*>/i.test(email.body);
-  const cleanBody = stripQuotedReply(email.body, isHtml);
+  const { body: cleanBody, hasQuoted, showQuoted, toggleQuoted } = useQuotedText(email.body, isHtml);
   
   const isUserSender = email.senderEmail?.toLowerCase() === userEmail?.toLowerCase();
   const displayName = isUserSender ? 'You' : email.sender;
 
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1">
-        <style>
-          * { box-sizing: border-box; }
-          html, body {
-            margin: 0;
-            padding: 0;
-            height: auto !important;
-            overflow-x: hidden;
-          }
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
-            font-size: 15px;
-            font-weight: 500;
-            line-height: 1.6;
-            color: #1a1a1a;
-            background: transparent;
-            padding: 14px;
-          }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-        </style>
-      </head>
-      <body>${cleanBody}</body>
-    </html>
-  `;
-
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !isHtml) return;
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const height = doc.body.scrollHeight;
-          if (height > 0) setIframeHeight(height + 10);
-        }
-      } catch {
-        // Cross-origin or access error - ignore
-      }
-    };
+  // Spoofing/phishing warning - "Looks safe" hides it for this view
+  const phishingReasons = usePhishingCheck(email, knownAddresses, userEmail);
+  const [phishingDismissed, setPhishingDismissed] = useState(false);
 
-    iframe.addEventListener('load', updateHeight);
-    // Single height check after load
-    const t1 = setTimeout(updateHeight, 100);
-
-    return () => {
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(t1);
-    };
-  }, [cleanBody, isHtml]);
+  // "Show original" - headers, delivery timeline and raw source
+  const [showOriginal, setShowOriginal] = useState(false);
 
   // v3.0: Handle reply click
   const handleReplyClick = (e: React.MouseEvent) => {
@@ -254,27 +220,41 @@ function MobileEmailCard({ email, isLast, userEmail, getAuthToken, onReply, onFo
               >
                 <Forward className="w-4 h-4" />
               </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowOriginal(true);
+                }}
+                className="p-1.5 active:bg-gray-100 rounded-md transition-colors text-gray-400"
+                aria-label={t('original.show')}
+              >
+                <FileCode className="w-4 h-4" />
+              </button>
             </div>
             
             <span className="text-xs text-gray-400">{email.time}</span>
           </div>
         </div>
         
+        {phishingReasons.length > 0 && !phishingDismissed && (
+          <div className="px-4 pt-3">
+            <PhishingBanner
+              reasons={phishingReasons}
+              onReport={onReportPhishing}
+              onDismiss={() => setPhishingDismissed(true)}
+            />
+          </div>
+        )}
+        
         <div className="px-4 py-3">
           {isHtml ? (
-            <iframe
-              ref={iframeRef}
-              srcDoc={htmlContent}
-              sandbox="allow-same-origin"
-              className="w-full border-0 transition-[height] duration-200 ease-out"
-              style={{ height: `${iframeHeight}px`, background: 'transparent' }}
-              title="Email content"
-            />
+            <SafeEmailFrame html={cleanBody} senderEmail={email.senderEmail} messageId={email.id} bodyCss="font-size: 15px; font-weight: 500; padding: 14px;" />
           ) : (
             <div className="text-[15px] font-medium text-gray-700 leading-relaxed whitespace-pre-wrap">
               {cleanBody}
             </div>
           )}
+          {hasQuoted && <QuotedTextToggle expanded={showQuoted} onToggle={toggleQuoted} />}
         </div>
         
         {/* v3.3: Attachments Section */}
@@ -342,6 +322,13 @@ function MobileEmailCard({ email, isLast, userEmail, getAuthToken, onReply, onFo
           </div>
         )}
       </div>
+
+      <OriginalMessageModal
+        isOpen={showOriginal}
+        onClose={() => setShowOriginal(false)}
+        email={email}
+        userEmail={userEmail}
+      />
     </div>
   );
 }
@@ -354,53 +341,19 @@ export function MobileThreadDetail({
   onClose, 
   onMarkDone, 
   onDelete,
+  onSnooze,
   mode = 'inbox',
   getAuthToken,
   onReply,
   onReplyAll,
-  onForward
+  onForward,
+  onReportPhishing
 }: MobileThreadDetailProps) {
-  // State for tracking which emails are expanded (by email id)
-  const [expandedEmails, setExpandedEmails] = useState<Set<string>>(new Set());
-  const emailListRef = useRef<HTMLDivElement>(null);
-  
-  // Initialize: Latest email always expanded
-  useEffect(() => {
-    if (emails.length > 0) {
-      const latestEmailId = emails[emails.length - 1].id;
-      setExpandedEmails(new Set([latestEmailId]));
-    }
-  }, [emails]);
-  
-  // Handle toggling email expanded/collapsed state
-  const handleToggleEmail = (emailId: string) => {
-    // Don't allow collapsing the latest email
-    if (isLatestEmail(emailId)) return;
-    
-    setExpandedEmails(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(emailId)) {
-        // Collapse it
-        newSet.delete(emailId);
-      } else {
-        // Expand it
-        newSet.add(emailId);
-        // Scroll to the expanded email after a short delay
-        setTimeout(() => {
-          const emailElement = document.getElementById(`mobile-email-${emailId}`);
-          if (emailElement && emailListRef.current) {
-            emailElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-        }, 100);
-      }
-      return newSet;
-    });
-  };
+  // Expanded / collapsed / folded emails (unread + latest start expanded)
+  const { items: conversationItems, toggle: handleToggleEmail, unfold: handleUnfold } = useConversation(emails, 'mobile-email-');
   
-  // Check if an email is the latest
-  const isLatestEmail = (emailId: string) => {
-    return emails.length > 0 && emails[emails.length - 1].id === emailId;
-  };
+  // Known addresses for the lookalike/impersonation checks
+  const { contacts } = useContacts();
   
   // Determine which summary to show based on mode
   const summaryText = mode === 'awaiting' 
@@ -459,6 +412,16 @@ export function MobileThreadDetail({
               <Check className="w-5 h-5" />
             </button>
           )}
+          {/* Snooze Button */}
+          {onSnooze && (
+            <button 
+              onClick={onSnooze}
+              className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+              title="Snooze"
+            >
+              <AlarmClock className="w-5 h-5" />
+            </button>
+          )}
           {/* Delete Button */}
           {onDelete && (
             <button 
@@ -483,7 +446,7 @@ export function MobileThreadDetail({
       )}
 
       {/* Emails */}
-      <div ref={emailListRef} className="flex-1 overflow-y-auto hide-scrollbar p-4">
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-4">
         {loading ? (
           <div className="flex items-center justify-center h-32">
             <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
@@ -493,22 +456,26 @@ export function MobileThreadDetail({
             <p className="text-zinc-500 text-sm">No emails found</p>
           </div>
         ) : (
-          emails.map((email, index) => {
-            const isExpanded = expandedEmails.has(email.id) || isLatestEmail(email.id);
-            const isLatest = isLatestEmail(email.id);
+          conversationItems.map((item) => {
+            if (item.type === 'folded') {
+              return <FoldedEmailsRow key={`folded-${item.key}`} count={item.emails.length} onClick={handleUnfold} />;
+            }
+            const { email } = item;
             
             return (
               <AnimatedMobileEmailItem
                 key={email.id}
                 email={email}
-                isExpanded={isExpanded}
-                isLatest={isLatest}
-                isLast={index === emails.length - 1}
+                isExpanded={item.isExpanded}
+                isLatest={item.isLatest}
+                isLast={item.isLast}
                 userEmail={userEmail}
                 onToggle={() => handleToggleEmail(email.id)}
                 getAuthToken={getAuthToken}
                 onReply={onReply}
                 onForward={onForward}
+                knownAddresses={contacts}
+                onReportPhishing={onReportPhishing}
               />
             );
           })
@@ -0,0 +1,253 @@
+// components/inbox/OriginalMessageModal.tsx
+// "Show original" - every header, the delivery timeline and the raw MIME source of one email
+// ✅ Summary: address fields (EmailProfile) + Message-ID, Authentication-Results, List-Unsubscribe...
+// ✅ Delivery: Received chain as a timeline with the delay at each hop
+// ✅ Source: raw message with Copy and Download .eml
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Copy, Check, Download, Loader2 } from 'lucide-react';
+import { EmailProfile } from './EmailProfile';
+import { Email } from './types';
+import { useRawEmail } from '@/hooks/useRawEmail';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatDateTime } from '@/utils/dateTime';
+import {
+  KEY_HEADERS,
+  parseRawHeaders,
+  parseDeliveryTimeline,
+  getHeaderValues,
+  downloadEml,
+} from '@/utils/rawEmail';
+
+type OriginalTab = 'summary' | 'delivery' | 'headers' | 'source';
+
+const TABS: OriginalTab[] = ['summary', 'delivery', 'headers', 'source'];
+
+// Address headers are already shown by EmailProfile
+const PROFILE_HEADERS = ['From', 'Reply-To', 'To', 'Cc', 'Bcc'];
+
+interface OriginalMessageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  email: Email;
+  userEmail: string;
+}
+
+// "45s", "3m 5s", "2h 10m"
+function formatDelay(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function OriginalMessageModal({ isOpen, onClose, email, userEmail }: OriginalMessageModalProps) {
+  const { t } = useTranslation();
+  const [tab, setTab] = useState<OriginalTab>('summary');
+  const [copied, setCopied] = useState(false);
+  const { raw, loading, error } = useRawEmail(email.id, isOpen);
+
+  const headers = useMemo(() => (raw ? parseRawHeaders(raw) : []), [raw]);
+  const timeline = useMemo(() => parseDeliveryTimeline(headers), [headers]);
+
+  const totalDelaySeconds = useMemo(() => {
+    const dated = timeline.filter(hop => hop.date);
+    if (dated.length < 2) return null;
+    const first = new Date(dated[0].date!).getTime();
+    const last = new Date(dated[dated.length - 1].date!).getTime();
+    return Math.max(0, Math.round((last - first) / 1000));
+  }, [timeline]);
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  if (!isOpen) return null;
+
+  const handleCopy = async () => {
+    if (!raw) return;
+    try {
+      await navigator.clipboard.writeText(raw);
+      setCopied(true);
+    } catch (err) {
+      console.error('❌ Copy original message failed:', err);
+    }
+  };
+
+  const renderSummary = () => (
+    <>
+      <EmailProfile email={email} userEmail={userEmail} />
+      <div className="px-6 pb-6 space-y-4">
+        {KEY_HEADERS.filter(name => !PROFILE_HEADERS.includes(name)).map(name => {
+          const values = getHeaderValues(headers, name);
+          if (values.length === 0) return null;
+          return (
+            <div key={name}>
+              <p className="text-zinc-500 text-xs uppercase tracking-wider mb-1">{name}</p>
+              {values.map((value, idx) => (
+                <p key={idx} className="text-zinc-300 text-sm break-all font-mono">{value}</p>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+
+  const renderDelivery = () => {
+    if (timeline.length === 0) {
+      return <p className="p-6 text-sm text-zinc-500">{t('original.noReceived')}</p>;
+    }
+    return (
+      <div className="p-6">
+        {totalDelaySeconds !== null && (
+          <p className="text-sm text-zinc-300 mb-4">
+            {t('original.totalDelivery', { duration: formatDelay(totalDelaySeconds) })}
+          </p>
+        )}
+        <ol className="relative border-s border-zinc-700 ms-2 space-y-5">
+          {timeline.map((hop, idx) => (
+            <li key={idx} className="ps-5 relative">
+              <span className="absolute -start-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-zinc-500" />
+              <div className="flex items-baseline justify-between gap-4">
+                <p className="text-sm text-white break-all">{hop.by || hop.from || '?'}</p>
+                {hop.delaySeconds !== null && (
+                  <span className={`text-xs flex-shrink-0 ${hop.delaySeconds >= 60 ? 'text-amber-400' : 'text-zinc-500'}`}>
+                    +{formatDelay(hop.delaySeconds)}
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-zinc-500 break-all">
+                {[
+                  hop.from && t('original.hopFrom', { host: hop.from }),
+                  hop.protocol && t('original.hopWith', { protocol: hop.protocol }),
+                ].filter(Boolean).join(' · ')}
+              </p>
+              <p className="text-xs text-zinc-400">
+                {hop.date ? formatDateTime(hop.date, { weekday: true }) : t('original.unknownTime')}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  };
+
+  const renderHeaders = () => (
+    <div className="p-6 space-y-2">
+      {headers.map((header, idx) => (
+        <div key={idx} className="text-xs font-mono break-all">
+          <span className="text-zinc-400">{header.name}:</span>{' '}
+          <span className="text-zinc-200">{header.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderSource = () => (
+    <pre className="p-6 text-xs font-mono text-zinc-200 whitespace-pre-wrap break-all" dir="ltr">
+      {raw}
+    </pre>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center"
+      data-modal
+      // Rendered inside an email card - don't collapse it
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Overlay - click to close */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        role="dialog"
+        aria-label={t('original.title')}
+        className="relative bg-[#2d2d2d] rounded-2xl shadow-2xl w-full max-w-3xl mx-4 h-[80vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-zinc-700">
+          <h3 className="text-lg font-semibold text-white truncate">{t('original.title')}</h3>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleCopy}
+              disabled={!raw}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-zinc-300 hover:text-white hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+              {copied ? t('original.copied') : t('original.copy')}
+            </button>
+            <button
+              onClick={() => raw && downloadEml(raw, email.subject)}
+              disabled={!raw}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-zinc-300 hover:text-white hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {t('original.download')}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 hover:bg-zinc-700 rounded-lg transition-colors text-zinc-400 hover:text-white"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-1 px-6 pt-3 border-b border-zinc-700">
+          {TABS.map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-2 text-sm border-b-2 -mb-px transition-colors ${
+                tab === id ? 'border-white text-white' : 'border-transparent text-zinc-400 hover:text-zinc-200'
+              }`}
+            >
+              {t(`original.tab.${id}`)}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 h-full text-sm text-zinc-400">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {t('original.loading')}
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-red-400">{t('original.error')}</p>
+          ) : (
+            <>
+              {tab === 'summary' && renderSummary()}
+              {raw && tab === 'delivery' && renderDelivery()}
+              {raw && tab === 'headers' && renderHeaders()}
+              {raw && tab === 'source' && renderSource()}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OriginalMessageModal;
@@ -0,0 +1,66 @@
+// components/inbox/PhishingBanner.tsx
+// Warning shown above a received email that looks like phishing/spoofing (see utils/phishing.ts)
+
+import { ShieldAlert } from 'lucide-react';
+import type { PhishingReason } from '@/utils/phishing';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface PhishingBannerProps {
+  reasons: PhishingReason[];
+  onReport?: () => void;
+  onDismiss: () => void;
+}
+
+export function PhishingBanner({ reasons, onReport, onDismiss }: PhishingBannerProps) {
+  const { t } = useTranslation();
+
+  const describe = (reason: PhishingReason): string => {
+    switch (reason.type) {
+      case 'nameMismatch':
+        return t('phishing.nameMismatch', { claimed: reason.claimed, address: reason.address });
+      case 'lookalikeDomain':
+        return t('phishing.lookalikeDomain', { domain: reason.domain, resembles: reason.resembles });
+      case 'linkMismatch':
+        return t('phishing.linkMismatch', { text: reason.text, href: reason.href });
+      case 'authFailed':
+        return t('phishing.authFailed', { checks: reason.checks.join(', ') });
+    }
+  };
+
+  return (
+    <div
+      role="alert"
+      // Don't collapse the email card around it
+      onClick={(e) => e.stopPropagation()}
+      className="px-4 py-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-900"
+    >
+      <div className="flex items-start gap-2.5">
+        <ShieldAlert className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold">{t('phishing.title')}</p>
+          <ul className="mt-1 space-y-0.5 text-red-800">
+            {reasons.map((reason, index) => (
+              <li key={index} className="break-words">{describe(reason)}</li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-3 mt-2.5">
+            {onReport && (
+              <button
+                onClick={onReport}
+                className="px-3 py-1 rounded-md bg-red-600 hover:bg-red-700 text-white text-xs font-medium transition-colors"
+              >
+                {t('phishing.report')}
+              </button>
+            )}
+            <button
+              onClick={onDismiss}
+              className="text-xs font-medium text-red-700 hover:underline"
+            >
+              {t('phishing.dismiss')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
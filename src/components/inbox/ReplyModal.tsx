@@ -2,17 +2,31 @@
 // Separate from ComposeModal for cleaner separation of concerns
 // Supports: Reply, Reply All modes
 // Features: Pre-filled recipients/subject, quoted content, Send Later, Undo support
+// Drafts autosave while typing (hooks/useDraftAutosave.ts)
+// Send checks (hooks/useSendChecks.ts) ask "send anyway?" first - e.g. reply-all to a crowd
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { X, Minus, Send, Loader2, GripHorizontal, Calendar } from 'lucide-react';
 import { TiptapEditor, TiptapEditorRef, AttachedFile } from './TiptapEditor';
 import { EmailChipInput } from './EmailChipInput';
 import { SendLaterModal } from './SendLaterModal';
+import { DraftSaveStatus, DraftRecoveryBanner } from './DraftSaveStatus';
+import { DraftConflictDialog } from './DraftConflictDialog';
+import { SendCheckDialog } from '@/components/sendChecks/SendCheckDialog';
 import { replyEmail } from '@/services/replyForwardApi';
 import { uploadAttachment, deleteAttachment, UploadProgress } from '@/services/attachmentApi';
-import { saveDraft, deleteDraft, isDraftWorthSaving } from '@/services/draftApi';
+import { deleteDraft, isDraftWorthSaving } from '@/services/draftApi';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import { useSignatures } from '@/context/SignaturesContext';
+import { useDraftAutosave } from '@/hooks/useDraftAutosave';
+import { useSendChecks } from '@/hooks/useSendChecks';
+import type { DraftContent } from '@/utils/drafts';
+import { useShortcutBindings } from '@/hooks/useShortcutBindings';
+import { formatBinding } from '@/utils/shortcuts';
 import { Email } from './types';
 import { UndoEmailData } from './ComposeModal';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
+import { joinWithQuote } from '@/utils/signatures';
 
 type ReplyMode = 'reply' | 'replyAll';
 
@@ -179,8 +193,9 @@ export function ReplyModal({
   const [cc, setCc] = useState<string[]>(initialRecipients.cc);
   const [bcc, setBcc] = useState<string[]>([]);
   const [subject, setSubject] = useState(initialSubject);
-  const [bodyHtml, setBodyHtml] = useState('');
-  const [bodyText, setBodyText] = useState('');
+  // Seeded from a reopened draft - the editor doesn't report its initial content
+  const [bodyHtml, setBodyHtml] = useState(initialBody || '');
+  const [bodyText, setBodyText] = useState(() => (initialBody || '').replace(/<[^>]*>/g, ''));
   const [attachments, setAttachments] = useState<AttachedFile[]>(initialAttachments || []);
   const [scheduledAt, setScheduledAt] = useState<Date | null>(null);
   
@@ -191,6 +206,11 @@ export function ReplyModal({
   const [error, setError] = useState<string | null>(null);
   const [showSendLaterModal, setShowSendLaterModal] = useState(false);
   
+  // v7.1: Templates address the person being replied to - with their display name when known
+  const templateRecipient = originalEmail?.senderEmail && to.includes(originalEmail.senderEmail)
+    ? `${originalEmail.sender} <${originalEmail.senderEmail}>`
+    : to[0] ?? null;
+  
   // Drag state
   const [position, setPosition] = useState<Position | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -200,6 +220,86 @@ export function ReplyModal({
   // Refs
   const editorRef = useRef<TiptapEditorRef>(null);
   
+  // v7.0: Where the signature goes relative to the quoted message
+  const { settings: { placement: signaturePlacement } } = useSignatures();
+  
+  // ======================================================
+  // DRAFT AUTOSAVE
+  // ======================================================
+  const draftData = useMemo(() => ({
+    to,
+    cc,
+    bcc,
+    subject,
+    body_html: bodyHtml,
+    body_plain: bodyText,
+    attachments: attachments
+      .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
+      .map(a => ({
+        id: a.id,
+        name: a.name,
+        size: a.size,
+        type: a.type
+      })),
+    draft_type: 'reply' as const,
+    reply_mode: mode,
+    thread_id: threadId,
+    message_id: messageId,
+    original_email: originalEmail ? {
+      sender: originalEmail.sender,
+      senderEmail: originalEmail.senderEmail,
+      date: originalEmail.date,
+      time: originalEmail.time,
+      body: originalEmail.body,
+      subject: originalEmail.subject,
+      message_id: originalEmail.message_id
+    } : undefined
+  }), [to, cc, bcc, subject, bodyHtml, bodyText, attachments, mode, threadId, messageId, originalEmail]);
+  
+  // Only worth a draft once the user has typed something (recipients/subject are prefilled)
+  const hasUserContent = bodyText.trim().length > 0 && isDraftWorthSaving(draftData);
+  
+  // Put another version into the form (other tab, merge, recovered copy)
+  const applyDraft = useCallback((content: DraftContent) => {
+    setTo(content.to);
+    setCc(content.cc);
+    setBcc(content.bcc);
+    if (content.cc.length > 0) setShowCc(true);
+    if (content.bcc.length > 0) setShowBcc(true);
+    setSubject(content.subject);
+    setBodyHtml(content.body_html);
+    setBodyText(content.body_plain);
+    editorRef.current?.setContent(content.body_html);
+    // Uploads still in progress here stay
+    setAttachments(prev => [
+      ...content.attachments.map(a => ({ ...a, status: 'uploaded' as const })),
+      ...prev.filter(a => a.status !== 'uploaded')
+    ]);
+  }, []);
+  
+  const {
+    status: draftStatus,
+    lastSavedAt,
+    conflict: draftConflict,
+    resolveConflict,
+    recovery: draftRecovery,
+    restoreRecovery,
+    dismissRecovery,
+    saveNow: saveDraftNow,
+    finish: finishDraft
+  } = useDraftAutosave({
+    enabled: isOpen,
+    draftId: currentDraftId,
+    onDraftIdChange: setCurrentDraftId,
+    draft: draftData,
+    canSave: hasUserContent,
+    recoveryKey: initialDraftId ? `draft:${initialDraftId}` : `reply:${threadId}`,
+    onApply: applyDraft
+  });
+  
+  // Last look before sending - "Send anyway?" when something seems off
+  const { confirmSend, warnings: sendWarnings, resolveWarnings } = useSendChecks(userEmail, isOpen);
+  
   // Reset form when modal closes
   useEffect(() => {
     if (!isOpen) {
@@ -366,12 +466,11 @@ export function ReplyModal({
   // Validate form
   const isFormValid = useCallback(() => {
     if (to.length === 0) return false;
-    if (!subject.trim()) return false;
     // Check if any attachments are still uploading or pending
     const isUploading = attachments.some(a => a.status === 'uploading' || a.status === 'pending');
     if (isUploading) return false;
     return true;
-  }, [to, subject, attachments]);
+  }, [to, attachments]);
   
   // Handle send
   const handleSend = useCallback(async () => {
@@ -382,11 +481,6 @@ export function ReplyModal({
       return;
     }
     
-    if (!subject.trim()) {
-      setError('Please enter a subject');
-      return;
-    }
-    
     const uploadingAttachments = attachments.filter(a => a.status === 'uploading');
     if (uploadingAttachments.length > 0) {
       setError('Please wait for attachments to finish uploading');
@@ -401,16 +495,33 @@ export function ReplyModal({
       if (!retry) return;
     }
     
-    setIsSending(true);
-    
     // Get HTML and text from editor, append quoted content
     const editorHtml = editorRef.current?.getHTML() || '';
     const editorText = editorRef.current?.getText() || '';
     
-    // Combine user's message with quoted content
-    const fullHtml = editorHtml + initialQuote;
-    const fullText = editorText + '\n\n' + 
-      `On ${originalEmail.date}, ${originalEmail.sender} wrote:\n${originalEmail.body.replace(/<[^>]*>/g, '')}`;
+    // Checked against what the user wrote, not the quote
+    const sendAnyway = await confirmSend({
+      to,
+      cc,
+      bcc,
+      subject,
+      bodyText: editorText,
+      attachmentCount: attachments.filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-')).length,
+      replyAll: mode === 'replyAll'
+    });
+    if (!sendAnyway) return;
+    
+    setIsSending(true);
+    
+    // Combine user's message with quoted content (signature above or below the quote)
+    const { html: fullHtml, text: fullText } = joinWithQuote(
+      { html: editorHtml, text: editorText },
+      {
+        html: initialQuote,
+        text: '\n\n' + `On ${originalEmail.date}, ${originalEmail.sender} wrote:\n${originalEmail.body.replace(/<[^>]*>/g, '')}`,
+      },
+      signaturePlacement
+    );
     
     const attachmentIds = attachments
       .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
@@ -436,10 +547,12 @@ export function ReplyModal({
       console.log('Threaded to:', threadId);
       
       // Delete draft if this was a draft being sent
-      if (currentDraftId) {
+      // (stop autosave first so nothing recreates it)
+      const sentDraftId = (await finishDraft()) ?? currentDraftId;
+      if (sentDraftId) {
         try {
-          await deleteDraft(currentDraftId);
-          console.log('🗑️ Reply draft deleted after send:', currentDraftId);
+          await deleteDraft(sentDraftId);
+          console.log('🗑️ Reply draft deleted after send:', sentDraftId);
         } catch (error) {
           console.error('⚠️ Failed to delete reply draft after send:', error);
         }
@@ -453,10 +566,10 @@ export function ReplyModal({
           sender: 'You',
           senderEmail: userEmail,
           subject: subject,
-          preview: bodyText.substring(0, 100),
+          preview: editorText.substring(0, 100),
           body: fullHtml,
-          time: now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
-          date: now.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+          time: formatListTime(now),
+          date: formatFullDate(now),
           isRead: true,
           hasAttachment: attachments.length > 0,
           to: to,
@@ -493,57 +606,26 @@ export function ReplyModal({
     } finally {
       setIsSending(false);
     }
-  }, [to, cc, bcc, subject, attachments, scheduledAt, threadId, messageId, originalEmail, initialQuote, onClose, onEmailSent, onEmailScheduled, onReplySent, currentDraftId, mode, userEmail]);
+  }, [to, cc, bcc, subject, attachments, scheduledAt, threadId, messageId, originalEmail, initialQuote, signaturePlacement, onClose, onEmailSent, onEmailScheduled, onReplySent, currentDraftId, mode, userEmail, finishDraft, confirmSend]);
   
   // Handle discard - saves as draft if content exists
   const handleDiscard = useCallback(async () => {
-    // Get current body content
-    const currentBodyHtml = editorRef.current?.getHTML() || bodyHtml;
-    const currentBodyText = editorRef.current?.getText() || bodyText;
-    
-    // Prepare draft data
-    const draftData = {
-      to,
-      cc,
-      bcc,
-      subject,
-      body_html: currentBodyHtml,
-      body_plain: currentBodyText,
-      attachments: attachments
-        .filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'))
-        .map(a => ({
-          id: a.id,
-          name: a.name,
-          size: a.size,
-          type: a.type
-        })),
-      draft_type: 'reply' as const,
-      reply_mode: mode,
-      thread_id: threadId,
-      message_id: messageId,
-      original_email: originalEmail ? {
-        sender: originalEmail.sender,
-        senderEmail: originalEmail.senderEmail,
-        date: originalEmail.date,
-        time: originalEmail.time,
-        body: originalEmail.body,
-        subject: originalEmail.subject,
-        message_id: originalEmail.message_id
-      } : undefined
-    };
-    
     // Only save draft if there's content worth saving (user typed something)
-    const hasUserContent = currentBodyText.trim().length > 0;
-    
-    if (hasUserContent && isDraftWorthSaving(draftData)) {
-      try {
-        const savedDraftId = await saveDraft(draftData, currentDraftId);
-        setCurrentDraftId(savedDraftId);
-        console.log('💾 Reply draft auto-saved on close:', savedDraftId);
-      } catch (error) {
-        console.error('⚠️ Failed to save reply draft:', error);
-      }
+    if (hasUserContent) {
+      // Flush the autosave - a failed save stays on this device (never blocks close)
+      const savedDraftId = await saveDraftNow();
+      console.log('💾 Reply draft saved on close:', savedDraftId);
     } else {
+      // Emptied out - drop the local copy, and the draft autosave created for this reply
+      await finishDraft();
+      if (currentDraftId && !initialDraftId) {
+        try {
+          await deleteDraft(currentDraftId);
+        } catch (err) {
+          console.error('⚠️ Failed to delete empty reply draft:', err);
+        }
+      }
+      
       // No content - delete uploaded attachments from S3 if any
       const uploadedAttachments = attachments.filter(a => a.status === 'uploaded' && !a.id.startsWith('temp-'));
       for (const attachment of uploadedAttachments) {
@@ -556,9 +638,9 @@ export function ReplyModal({
     }
     
     onClose();
-  }, [to, cc, bcc, subject, bodyHtml, bodyText, attachments, mode, threadId, messageId, originalEmail, currentDraftId, onClose]);
+  }, [hasUserContent, attachments, currentDraftId, initialDraftId, onClose, saveDraftNow, finishDraft]);
   
-  // Handle keyboard shortcuts - stop propagation to prevent global shortcuts
+  // Escape to close - capture phase so it runs before anything behind the modal
   useEffect(() => {
     if (!isOpen) return;
     
@@ -567,29 +649,26 @@ export function ReplyModal({
       if (e.key === 'Escape') {
         e.preventDefault();
         e.stopPropagation();
-        handleDiscard();
-        return;
-      }
-      
-      // Cmd/Ctrl + Enter to send
-      if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
-        e.preventDefault();
-        e.stopPropagation();
-        handleSend();
-        return;
-      }
-      
-      // Block global shortcuts (R, F, A, D, etc.) from triggering Inbox actions
-      // but don't preventDefault so typing still works
-      const blockedKeys = ['r', 'f', 'a', 'd', 'u'];
-      if (blockedKeys.includes(e.key.toLowerCase()) && !e.metaKey && !e.ctrlKey) {
-        e.stopPropagation();
+        // Send check dialog open - close just that
+        if (sendWarnings) {
+          resolveWarnings(false);
+        } else {
+          handleDiscard();
+        }
       }
     };
     
     window.addEventListener('keydown', handleKeyDown, true);
     return () => window.removeEventListener('keydown', handleKeyDown, true);
-  }, [isOpen, handleSend, handleDiscard]);
+  }, [isOpen, handleDiscard, sendWarnings, resolveWarnings]);
+  
+  // Send (Cmd/Ctrl+Enter by default) - editor shortcuts keep firing while typing
+  const shortcutBindings = useShortcutBindings();
+  useShortcuts('editor', {
+    send: () => {
+      handleSend();
+    },
+  }, isOpen);
   
   // Handle Send Later
   const handleSendLater = () => {
@@ -682,6 +761,15 @@ export function ReplyModal({
             </div>
           </div>
           
+          {/* Unsaved content from a session that didn't close cleanly */}
+          {draftRecovery && (
+            <DraftRecoveryBanner
+              recovery={draftRecovery}
+              onRestore={restoreRecovery}
+              onDismiss={dismissRecovery}
+            />
+          )}
+          
           {/* Form Fields */}
           <div className="flex-1 flex flex-col overflow-hidden">
             {/* To Field with Cc/Bcc toggle */}
@@ -746,6 +834,9 @@ export function ReplyModal({
                 attachments={attachments}
                 onAttachmentsChange={handleAttachmentsChange}
                 onRemoveAttachment={handleRemoveAttachment}
+                signatureKind="reply"
+                fromAddress={userEmail}
+                templateRecipient={templateRecipient}
               />
             </div>
           </div>
@@ -779,35 +870,38 @@ export function ReplyModal({
               )}
             </div>
             
-            {/* Right side - Send/Schedule button */}
-            <button
-              onClick={handleSend}
-              disabled={isSending || !isFormValid()}
-              className={`
-                flex items-center gap-2 px-5 py-2.5 rounded-lg font-medium text-sm transition-all
-                ${isSending || !isFormValid()
-                  ? 'bg-zinc-700 text-zinc-500 cursor-not-allowed'
-                  : 'bg-[#f7ac5c] hover:bg-[#f5a043] text-white cursor-pointer'
-                }
-              `}
-            >
-              {isSending ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  <span>{scheduledAt ? 'Scheduling...' : 'Sending...'}</span>
-                </>
-              ) : scheduledAt ? (
-                <>
-                  <Calendar className="w-4 h-4" />
-                  <span>Schedule</span>
-                </>
-              ) : (
-                <>
-                  <Send className="w-4 h-4" />
-                  <span>Send</span>
-                </>
-              )}
-            </button>
+            {/* Right side - Autosave status + Send/Schedule button */}
+            <div className="flex items-center gap-4">
+              <DraftSaveStatus status={draftStatus} lastSavedAt={lastSavedAt} />
+              <button
+                onClick={handleSend}
+                disabled={isSending || !isFormValid()}
+                className={`
+                  flex items-center gap-2 px-5 py-2.5 rounded-lg font-medium text-sm transition-all
+                  ${isSending || !isFormValid()
+                    ? 'bg-zinc-700 text-zinc-500 cursor-not-allowed'
+                    : 'bg-[#f7ac5c] hover:bg-[#f5a043] text-white cursor-pointer'
+                  }
+                `}
+              >
+                {isSending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>{scheduledAt ? 'Scheduling...' : 'Sending...'}</span>
+                  </>
+                ) : scheduledAt ? (
+                  <>
+                    <Calendar className="w-4 h-4" />
+                    <span>Schedule</span>
+                  </>
+                ) : (
+                  <>
+                    <Send className="w-4 h-4" />
+                    <span>Send</span>
+                  </>
+                )}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -820,6 +914,12 @@ export function ReplyModal({
         userTimezone={userTimezone}
       />
       
+      {/* Something looks off - send anyway? */}
+      <SendCheckDialog warnings={sendWarnings} onResolve={resolveWarnings} />
+      
+      {/* Same draft saved in another tab meanwhile */}
+      <DraftConflictDialog conflict={draftConflict} onResolve={resolveConflict} />
+      
       {/* Keyboard Shortcuts Bar - same as ComposeModal */}
       <div className="hidden lg:flex fixed bottom-0 left-16 right-0 h-12 bg-[#1a1a1a] items-center justify-center gap-8 z-40">
         <div className="flex items-center gap-1.5">
@@ -839,7 +939,7 @@ export function ReplyModal({
           <span className="text-sm text-zinc-400">Link</span>
         </div>
         <div className="flex items-center gap-1.5">
-          <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+Enter</kbd>
+          <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{formatBinding(shortcutBindings.send[0] ?? '').join(' ')}</kbd>
           <span className="text-sm text-zinc-400">Send</span>
         </div>
         <div className="flex items-center gap-1.5">
@@ -0,0 +1,197 @@
+// components/inbox/SafeEmailFrame.tsx
+// Renders received email HTML safely - use this instead of a raw srcDoc iframe
+// ✅ HTML sanitized (utils/htmlSanitizer.ts) and rendered in a sandbox without scripts
+// ✅ CSP in the frame blocks remote content the sanitizer missed (e.g. url() in styles)
+// ✅ Remote images blocked until "Show images" or the sender is on the allow-list
+// ✅ Tracking pixels always removed
+// ✅ Hovering a link shows its real URL
+
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { ImageOff, ShieldCheck } from 'lucide-react';
+import { sanitizeEmailHtml, buildEmailFrameCsp, EMAIL_FRAME_SANDBOX } from '@/utils/htmlSanitizer';
+import { useAuth } from '@/context/AuthContext';
+import { trustImageSender, showImagesForMessage, areImagesShownForMessage, subscribeToTrustedImageSenders } from '@/utils/remoteImages';
+import { useTrustedImageSenders } from '@/hooks/useTrustedImageSenders';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface SafeEmailFrameProps {
+  html: string;
+  senderEmail?: string;
+  // Remembers "Show images" for this message (the print page loads them too)
+  messageId?: string;
+  // CSS appended to the frame's body rule (font size, padding...)
+  bodyCss?: string;
+  initialHeight?: number;
+}
+
+export function SafeEmailFrame({ html, senderEmail, messageId, bodyCss = '', initialHeight = 60 }: SafeEmailFrameProps) {
+  const { t } = useTranslation();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [iframeHeight, setIframeHeight] = useState<number>(initialHeight);
+  const [hoveredUrl, setHoveredUrl] = useState<string | null>(null);
+  const [showImagesOnce, setShowImagesOnce] = useState(false);
+
+  const { currentUser } = useAuth();
+  const trustedSenders = useTrustedImageSenders();
+  const senderTrusted = !!senderEmail && trustedSenders.has(senderEmail.toLowerCase());
+  const shownForMessage = useSyncExternalStore(subscribeToTrustedImageSenders, () => areImagesShownForMessage(messageId));
+  const allowRemoteImages = showImagesOnce || shownForMessage || senderTrusted;
+
+  const { html: safeHtml, blockedImages, trackersRemoved } = useMemo(
+    () => sanitizeEmailHtml(html, { allowRemoteImages }),
+    [html, allowRemoteImages]
+  );
+
+  const srcDoc = useMemo(() => `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta http-equiv="Content-Security-Policy" content="${buildEmailFrameCsp(allowRemoteImages)}">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <meta name="referrer" content="no-referrer">
+        <base target="_blank">
+        <style>
+          * { box-sizing: border-box; -ms-overflow-style: none; scrollbar-width: none; }
+          *::-webkit-scrollbar { display: none; }
+          html, body {
+            margin: 0;
+            padding: 0;
+            height: auto !important;
+            overflow-x: hidden;
+          }
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
+            font-size: 14px;
+            line-height: 1.6;
+            color: #1a1a1a;
+            background: transparent;
+            padding: 16px;
+            ${bodyCss}
+          }
+          img { max-width: 100%; height: auto; }
+          table { max-width: 100%; }
+          a { color: #2563eb; }
+          pre { white-space: pre-wrap; word-wrap: break-word; }
+        </style>
+      </head>
+      <body>${safeHtml}</body>
+    </html>
+  `, [safeHtml, allowRemoteImages, bodyCss]);
+
+  // Size the frame to its content and track hovered links (the frame runs no scripts,
+  // so this is done from here through the same-origin document)
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe) return;
+
+    let resizeObserver: ResizeObserver | null = null;
+    let cleanupDocument: (() => void) | null = null;
+
+    const updateHeight = () => {
+      try {
+        const doc = iframe.contentDocument;
+        if (doc && doc.body) {
+          const height = doc.body.scrollHeight;
+          if (height > 0) setIframeHeight(height + 10);
+        }
+      } catch {
+        // Cross-origin or access error - ignore
+      }
+    };
+
+    const handleLoad = () => {
+      updateHeight();
+      const doc = iframe.contentDocument;
+      if (!doc || !doc.body) return;
+
+      cleanupDocument?.();
+      resizeObserver?.disconnect();
+      resizeObserver = new ResizeObserver(updateHeight);
+      resizeObserver.observe(doc.body);
+
+      const handleMouseOver = (e: Event) => {
+        const link = (e.target as Element | null)?.closest?.('a[href]');
+        setHoveredUrl(link ? link.getAttribute('href') : null);
+      };
+      const handleMouseLeave = () => setHoveredUrl(null);
+      doc.addEventListener('mouseover', handleMouseOver);
+      doc.addEventListener('mouseleave', handleMouseLeave);
+      cleanupDocument = () => {
+        doc.removeEventListener('mouseover', handleMouseOver);
+        doc.removeEventListener('mouseleave', handleMouseLeave);
+      };
+    };
+
+    iframe.addEventListener('load', handleLoad);
+    // Single height check after load
+    const t1 = setTimeout(updateHeight, 100);
+
+    return () => {
+      iframe.removeEventListener('load', handleLoad);
+      clearTimeout(t1);
+      resizeObserver?.disconnect();
+      cleanupDocument?.();
+      setHoveredUrl(null);
+    };
+  }, [srcDoc]);
+
+  const showBanner = (blockedImages > 0 && !allowRemoteImages) || trackersRemoved > 0;
+
+  return (
+    <div className="relative">
+      {showBanner && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2 px-3 py-2 rounded-md bg-gray-50 border border-gray-200 text-xs text-gray-600"
+        >
+          {blockedImages > 0 && !allowRemoteImages ? (
+            <>
+              <span className="flex items-center gap-1.5">
+                <ImageOff className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                {t('images.hidden')}
+              </span>
+              <button
+                onClick={() => (messageId ? showImagesForMessage(messageId) : setShowImagesOnce(true))}
+                className="font-medium text-blue-600 hover:underline"
+              >
+                {t('images.show')}
+              </button>
+              {senderEmail && (
+                <button
+                  onClick={() => trustImageSender(currentUser?.uid, senderEmail)}
+                  className="font-medium text-blue-600 hover:underline"
+                >
+                  {t('images.alwaysShow', { sender: senderEmail })}
+                </button>
+              )}
+            </>
+          ) : null}
+          {trackersRemoved > 0 && (
+            <span className="flex items-center gap-1.5 text-gray-500">
+              <ShieldCheck className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+              {t('images.trackersBlocked', { count: trackersRemoved })}
+            </span>
+          )}
+        </div>
+      )}
+
+      <iframe
+        ref={iframeRef}
+        srcDoc={srcDoc}
+        sandbox={EMAIL_FRAME_SANDBOX}
+        referrerPolicy="no-referrer"
+        className="w-full border-0 transition-[height] duration-200 ease-out"
+        style={{ height: `${iframeHeight}px`, background: 'transparent' }}
+        title="Email content"
+      />
+
+      {/* Real destination of the hovered link, like a browser status bar */}
+      {hoveredUrl && (
+        <div className="absolute start-0 bottom-0 max-w-full px-2 py-1 rounded-md bg-zinc-900/90 text-white text-xs truncate pointer-events-none shadow-lg" dir="ltr">
+          {hoveredUrl}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // SendLaterModal.tsx - Schedule email for later sending
 // Shows quick presets + custom date/time picker
 // Uses react-datepicker for date/time selection
+// Also reused as the snooze picker (components/snooze/SnoozeModal) - title/labels are props
 
 import { useState, useMemo } from 'react';
 import { X, Clock, Calendar, Zap } from 'lucide-react';
@@ -12,6 +13,15 @@ interface SendLaterModalProps {
   onClose: () => void;
   onSchedule: (scheduledAt: Date) => void;
   userTimezone: string; // e.g., "Asia/Calcutta"
+  title?: string;
+  confirmLabel?: string;
+  previewLabel?: string;
+  extraOptions?: ExtraOption[]; // Shown before the time presets, e.g. "Until they reply"
+}
+
+export interface ExtraOption {
+  label: string;
+  onSelect: () => void;
 }
 
 interface QuickOption {
@@ -24,7 +34,11 @@ export function SendLaterModal({
   isOpen, 
   onClose, 
   onSchedule,
-  userTimezone 
+  userTimezone,
+  title = 'Schedule Send',
+  confirmLabel = 'Schedule',
+  previewLabel = 'Will be sent:',
+  extraOptions = []
 }: SendLaterModalProps) {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<Date | null>(null);
@@ -160,7 +174,7 @@ export function SendLaterModal({
         <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-700/50">
           <div className="flex items-center gap-2">
             <Calendar className="w-5 h-5 text-[#f7ac5c]" />
-            <h3 className="text-base font-semibold text-white">Schedule Send</h3>
+            <h3 className="text-base font-semibold text-white">{title}</h3>
           </div>
           <button
             onClick={onClose}
@@ -179,6 +193,18 @@ export function SendLaterModal({
               <span className="text-sm text-zinc-400">Quick options</span>
             </div>
             <div className="grid grid-cols-2 gap-2">
+              {extraOptions.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => {
+                    option.onSelect();
+                    onClose();
+                  }}
+                  className="col-span-2 px-4 py-2.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 rounded-lg text-sm text-white transition-all text-left"
+                >
+                  {option.label}
+                </button>
+              ))}
               {quickOptions.filter(o => o.show).map((option) => (
                 <button
                   key={option.label}
@@ -241,7 +267,7 @@ export function SendLaterModal({
             {/* Preview */}
             {selectedDate && selectedTime && (
               <div className="mt-3 px-3 py-2 bg-zinc-800/50 border border-zinc-700/50 rounded-lg">
-                <p className="text-xs text-zinc-500">Will be sent:</p>
+                <p className="text-xs text-zinc-500">{previewLabel}</p>
                 <p className="text-sm text-white font-medium">
                   {formatSchedulePreview()}
                 </p>
@@ -269,7 +295,7 @@ export function SendLaterModal({
               }
             `}
           >
-            Schedule
+            {confirmLabel}
           </button>
         </div>
       </div>
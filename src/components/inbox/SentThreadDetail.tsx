@@ -2,12 +2,23 @@
 // PRODUCTION VERSION - Blocks all tracking pixels from loading in sender's view
 // v2.0: Added Reply/Forward icons on each email card (hover)
 // v3.0: Added attachment display with image previews
+// v3.1: Keyboard shortcuts via the central registry (useShortcuts)
+// v3.2: Unread emails start expanded, long read runs fold, quoted text behind a "…" toggle
+// v3.3: "Show original" on each email card (headers, delivery timeline, raw source)
+// v3.4: HTML rendered in SafeEmailFrame - Done and Trash show received mail here too
 
-import { X, Loader2, Trash2, Reply, Forward, Paperclip, Download } from 'lucide-react';
-import { useRef, useEffect, useState, useMemo } from 'react';
+import { X, Loader2, Trash2, Reply, Forward, Paperclip, Download, FileCode } from 'lucide-react';
+import { useState, useMemo } from 'react';
 import { Email } from './types';
-import { formatFileSize, formatRelativeTime } from '@/utils/formatters';
-import { stripQuotedReply } from '@/utils/emailHelpers';
+import { formatFileSize } from '@/utils/formatters';
+import { formatRelativeTime } from '@/utils/dateTime';
+import { useConversation, useQuotedText } from '@/hooks/useConversation';
+import { FoldedEmailsRow, QuotedTextToggle } from './ConversationRows';
+import { OriginalMessageModal } from './OriginalMessageModal';
+import { SafeEmailFrame } from './SafeEmailFrame';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import { TRACKING_URL_PATTERNS } from '@/utils/htmlSanitizer';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface SentThreadDetailProps {
   subject: string;
@@ -200,35 +211,8 @@ function sanitizeTrackingPixels(body: string, backendDomain?: string): string {
     '<!-- hidden image removed -->'
   );
   
-  // 6. Remove known email tracking service domains
-  const trackingDomains = [
-    'mailtrack.io',
-    'getnotify.com',
-    'yesware.com',
-    'bananatag.com',
-    'streak.com',
-    'boomeranggmail.com',
-    'mixmax.com',
-    'mailchimp.com/track',
-    'list-manage.com/track',
-    'sendgrid.net/wf',
-    'mandrillapp.com/track',
-    't.co/i/', // Twitter/X tracking
-    'google-analytics.com',
-    'facebook.com/tr',
-    'px.ads',
-    'pixel.ad',
-    'tracking.', // Generic tracking subdomains
-    '/pixel', // Generic pixel paths
-    '/open/', // Common open tracking paths
-    '/beacon',
-    'wf/open',
-    'o.gif',
-    't.gif',
-    'blank.gif'
-  ];
-  
-  for (const domain of trackingDomains) {
+  // 6. Remove known email tracking service domains (shared with the received-mail sanitizer)
+  for (const domain of TRACKING_URL_PATTERNS) {
     const escapedDomain = domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const regex = new RegExp(
       `<img[^>]*src=["'][^"']*${escapedDomain}[^"']*["'][^>]*\\/?>`,
@@ -259,8 +243,8 @@ function EmailCard({
   onReply,
   onForward
 }: EmailCardProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(60);
+  const { t } = useTranslation();
+  const [showOriginal, setShowOriginal] = useState(false);
   
   const isHtml = /<[a-z][\s\S]*>/i.test(email.body);
   
@@ -269,92 +253,10 @@ function EmailCard({
   const displayName = isUserSender ? 'You' : email.sender;
 
   // PRODUCTION: Process email body with all protections
-  const cleanBody = useMemo(() => {
-    // Step 1: Remove tracking pixels
-    const sanitized = sanitizeTrackingPixels(email.body, backendDomain);
-    // Step 2: Strip quoted replies
-    return stripQuotedReply(sanitized, isHtml);
-  }, [email.body, isHtml, backendDomain]);
-
-  // Build secure HTML content with CSP
-  const htmlContent = useMemo(() => {
-    // Content Security Policy to block tracking domains
-    // This is the FINAL defense layer - blocks any pixels that slip through
-    const blockedDomains = backendDomain ? `https://${backendDomain} http://${backendDomain}` : '';
-    
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1">
-          <meta http-equiv="Content-Security-Policy" content="
-            default-src 'none';
-            style-src 'unsafe-inline';
-            img-src data: https: http: blob:;
-            font-src https: data:;
-          ">
-          <style>
-            * { box-sizing: border-box; -ms-overflow-style: none; scrollbar-width: none; }
-            *::-webkit-scrollbar { display: none; }
-            html, body {
-              margin: 0;
-              padding: 0;
-              height: auto !important;
-              min-height: 0 !important;
-              overflow: hidden;
-            }
-            body {
-              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
-              font-size: 15px;
-              font-weight: 500;
-              line-height: 1.6;
-              color: #1a1a1a;
-              background: transparent;
-              padding: 16px;
-            }
-            img { max-width: 100%; height: auto; }
-            table { max-width: 100%; }
-            a { color: #2563eb; }
-            /* Hide any remaining tiny images that might be trackers */
-            img[width="1"], img[height="1"],
-            img[width="0"], img[height="0"] {
-              display: none !important;
-            }
-          </style>
-        </head>
-        <body>${cleanBody}</body>
-      </html>
-    `;
-  }, [cleanBody, backendDomain]);
-
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !isHtml) return;
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const height = doc.body.scrollHeight;
-          if (height > 0) {
-            setIframeHeight(height + 10);
-          }
-        }
-      } catch {
-        // Cross-origin or access error - ignore
-      }
-    };
-
-    iframe.addEventListener('load', updateHeight);
-    // Single height check after load
-    const t1 = setTimeout(updateHeight, 100);
-
-    return () => {
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(t1);
-    };
-  }, [cleanBody, isHtml]);
+  // Step 1: Remove tracking pixels
+  const sanitizedBody = useMemo(() => sanitizeTrackingPixels(email.body, backendDomain), [email.body, backendDomain]);
+  // Step 2: Fold quoted replies behind the "…" toggle
+  const { body: cleanBody, hasQuoted, showQuoted, toggleQuoted } = useQuotedText(sanitizedBody, isHtml);
 
   // v2.0: Handle reply click
   const handleReplyClick = (e: React.MouseEvent) => {
@@ -412,6 +314,21 @@ function EmailCard({
                 Forward
               </span>
             </div>
+            {/* Show original button with tooltip */}
+            <div className="relative group/btn">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowOriginal(true);
+                }}
+                className="p-1.5 hover:bg-gray-100 rounded-md transition-colors text-gray-400 hover:text-gray-600"
+              >
+                <FileCode className="w-4 h-4" />
+              </button>
+              <span className="absolute left-1/2 -translate-x-1/2 top-full mt-1.5 px-2 py-1 bg-zinc-900 text-white text-xs rounded-md opacity-0 group-hover/btn:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-[9999] shadow-lg">
+                {t('original.show')}
+              </span>
+            </div>
           </div>
           
           <span className="text-xs text-gray-400">
@@ -423,22 +340,17 @@ function EmailCard({
       {/* Email Body */}
       <div className="px-5 py-4">
         {isHtml ? (
-          <iframe
-            ref={iframeRef}
-            srcDoc={htmlContent}
-            // SECURITY: Restrictive sandbox - no scripts, no forms, no popups
-            sandbox="allow-same-origin"
-            className="w-full border-0 transition-[height] duration-200 ease-out"
-            style={{ height: `${iframeHeight}px`, background: 'transparent' }}
-            title="Email content"
-            // Referrer policy to prevent leaking referer to tracking pixels
-            referrerPolicy="no-referrer"
+          <SafeEmailFrame
+            html={cleanBody}
+            senderEmail={email.senderEmail}
+            bodyCss="font-size: 15px; font-weight: 500;"
           />
         ) : (
           <div className="text-[15px] font-medium text-gray-700 leading-relaxed whitespace-pre-wrap">
             {cleanBody}
           </div>
         )}
+        {hasQuoted && <QuotedTextToggle expanded={showQuoted} onToggle={toggleQuoted} />}
       </div>
       
       {/* v3.0: Attachments Section */}
@@ -505,6 +417,13 @@ function EmailCard({
           )}
         </div>
       )}
+
+      <OriginalMessageModal
+        isOpen={showOriginal}
+        onClose={() => setShowOriginal(false)}
+        email={email}
+        userEmail={userEmail}
+      />
     </div>
   );
 }
@@ -526,105 +445,22 @@ export function SentThreadDetail({
 }: SentThreadDetailProps) {
   const backendDomain = useMemo(() => getBackendDomain(backendUrl), [backendUrl]);
   
-  // State for tracking which emails are expanded (by email id)
-  const [expandedEmails, setExpandedEmails] = useState<Set<string>>(new Set());
-  const emailListRef = useRef<HTMLDivElement>(null);
+  // Expanded / collapsed / folded emails (unread + latest start expanded)
+  const { items: conversationItems, toggle: handleToggleEmail, unfold: handleUnfold } = useConversation(emails, 'sent-email-');
   
   // Detect OS for keyboard shortcut display
   const isMac = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().indexOf('MAC') >= 0;
   
-  // Initialize: Latest email always expanded
-  useEffect(() => {
-    if (emails.length > 0) {
-      const latestEmailId = emails[emails.length - 1].id;
-      setExpandedEmails(new Set([latestEmailId]));
-    }
-  }, [emails]);
-  
   // Get the latest email for keyboard shortcuts
   const latestEmail = emails.length > 0 ? emails[emails.length - 1] : null;
   
-  // Handle expanding a collapsed email
-  // Handle toggling email expanded/collapsed state
-  const handleToggleEmail = (emailId: string) => {
-    // Don't allow collapsing the latest email
-    if (isLatestEmail(emailId)) return;
-    
-    setExpandedEmails(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(emailId)) {
-        // Collapse it
-        newSet.delete(emailId);
-      } else {
-        // Expand it
-        newSet.add(emailId);
-        // Scroll to the expanded email after a short delay
-        setTimeout(() => {
-          const emailElement = document.getElementById(`sent-email-${emailId}`);
-          if (emailElement && emailListRef.current) {
-            emailElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-        }, 100);
-      }
-      return newSet;
-    });
-  };
-  
-  // Check if an email is the latest
-  const isLatestEmail = (emailId: string) => {
-    return emails.length > 0 && emails[emails.length - 1].id === emailId;
-  };
-  
-  // Ref to track last key pressed for R+A combo
-  const lastKeyRef = useRef<string | null>(null);
-  
-  // Keyboard shortcuts handler
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't trigger if user is typing in an input
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
-        return;
-      }
-      
-      // R+A for Reply All (check if A is pressed while R was recently pressed)
-      if (e.key.toLowerCase() === 'a' && lastKeyRef.current === 'r') {
-        e.preventDefault();
-        if (latestEmail && onReplyAll) {
-          onReplyAll(latestEmail);
-        }
-        lastKeyRef.current = null;
-        return;
-      }
-      
-      // R for Reply
-      if (e.key.toLowerCase() === 'r' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        lastKeyRef.current = 'r';
-        // Set timeout to clear if A is not pressed
-        setTimeout(() => {
-          if (lastKeyRef.current === 'r') {
-            if (latestEmail && onReply) {
-              onReply(latestEmail);
-            }
-            lastKeyRef.current = null;
-          }
-        }, 300);
-        return;
-      }
-      
-      // F for Forward
-      if (e.key.toLowerCase() === 'f' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        if (latestEmail && onForward) {
-          onForward(latestEmail);
-        }
-        return;
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [latestEmail, onReply, onReplyAll, onForward]);
+  // Keyboard shortcuts (bindings in utils/shortcuts.ts)
+  useShortcuts('detail', {
+    reply: () => (latestEmail && onReply ? onReply(latestEmail) : false),
+    replyAll: () => (latestEmail && onReplyAll ? onReplyAll(latestEmail) : false),
+    forward: () => (latestEmail && onForward ? onForward(latestEmail) : false),
+    delete: () => (onDelete ? onDelete() : false),
+  });
 
   return (
     <>
@@ -657,7 +493,7 @@ export function SentThreadDetail({
       </div>
 
       {/* Conversation - All Emails */}
-      <div ref={emailListRef} className="flex-1 overflow-y-auto hide-scrollbar px-6 py-4">
+      <div className="flex-1 overflow-y-auto hide-scrollbar px-6 py-4">
         {loading ? (
           <div className="flex items-center justify-center h-32">
             <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
@@ -668,17 +504,19 @@ export function SentThreadDetail({
           </div>
         ) : (
           <div className="max-w-[650px] mx-auto">
-            {emails.map((email, index) => {
-              const isExpanded = expandedEmails.has(email.id) || isLatestEmail(email.id);
-              const isLatest = isLatestEmail(email.id);
+            {conversationItems.map((item) => {
+              if (item.type === 'folded') {
+                return <FoldedEmailsRow key={`folded-${item.key}`} count={item.emails.length} onClick={handleUnfold} />;
+              }
+              const { email } = item;
               
               return (
                 <AnimatedSentEmailItem
                   key={email.id}
                   email={email}
-                  isExpanded={isExpanded}
-                  isLatest={isLatest}
-                  isLast={index === emails.length - 1}
+                  isExpanded={item.isExpanded}
+                  isLatest={item.isLatest}
+                  isLast={item.isLast}
                   userEmail={userEmail}
                   backendDomain={backendDomain}
                   onToggle={() => handleToggleEmail(email.id)}
@@ -1,9 +1,16 @@
 // components/inbox/SpamThreadDetail.tsx
 // Desktop detail view for spam emails
 // v1.0: Simple view without reply/forward (spam emails)
+// v1.1: Dates formatted in the user's timezone (utils/dateTime)
+// v1.2: Quoted history folded behind a "…" toggle (useQuotedText)
+// v1.3: HTML rendered in SafeEmailFrame (sanitized, sandboxed, remote images blocked)
 
 import { X } from "lucide-react";
+import { formatDateTime } from "@/utils/dateTime";
 import { SpamEmail } from "../../hooks/useSpamEmails";
+import { useQuotedText } from "@/hooks/useConversation";
+import { QuotedTextToggle } from "./ConversationRows";
+import { SafeEmailFrame } from "./SafeEmailFrame";
 
 interface SpamThreadDetailProps {
   email: SpamEmail;
@@ -11,28 +18,10 @@ interface SpamThreadDetailProps {
 }
 
 export const SpamThreadDetail = ({ email, onClose }: SpamThreadDetailProps) => {
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    if (!dateString) return '';
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-    } catch {
-      return dateString;
-    }
-  };
-
   // Get sender display name
   const senderName = email.from_name || email.senderEmail || email.from || 'Unknown Sender';
   const senderEmail = email.senderEmail || email.from || '';
+  const { body, hasQuoted, showQuoted, toggleQuoted } = useQuotedText(email.body_html || email.body_plain || '', !!email.body_html);
 
   return (
     <div className="flex flex-col h-full">
@@ -73,7 +62,7 @@ export const SpamThreadDetail = ({ email, onClose }: SpamThreadDetailProps) => {
               <span className="text-white font-medium truncate">{senderName}</span>
             </div>
             <p className="text-zinc-500 text-sm truncate">{senderEmail}</p>
-            <p className="text-zinc-600 text-xs mt-1">{formatDate(email.date || email.internal_date)}</p>
+            <p className="text-zinc-600 text-xs mt-1">{formatDateTime(email.date || email.internal_date, { weekday: true })}</p>
           </div>
         </div>
 
@@ -91,15 +80,15 @@ export const SpamThreadDetail = ({ email, onClose }: SpamThreadDetailProps) => {
         {/* Email Body */}
         <div className="prose prose-invert prose-sm max-w-none">
           {email.body_html ? (
-            <div 
-              className="text-zinc-300 text-sm leading-relaxed"
-              dangerouslySetInnerHTML={{ __html: email.body_html }}
-            />
+            <div className="bg-white rounded-lg">
+              <SafeEmailFrame html={body} senderEmail={senderEmail} />
+            </div>
           ) : (
             <p className="text-zinc-300 text-sm leading-relaxed whitespace-pre-wrap">
-              {email.body_plain || email.snippet || '(No content)'}
+              {body || email.snippet || '(No content)'}
             </p>
           )}
+          {hasQuoted && <QuotedTextToggle expanded={showQuoted} onToggle={toggleQuoted} variant="dark" />}
         </div>
 
         {/* Attachments */}
@@ -1,9 +1,23 @@
 import { useRef, useEffect, useState, useMemo } from 'react';
-import { X, Check, Trash2, Loader2, Reply, Forward, Paperclip, Download, ChevronDown } from 'lucide-react';
+import { X, Check, Trash2, Loader2, Reply, Forward, Paperclip, Download, ChevronDown, AlarmClock, FileCode, Maximize2 } from 'lucide-react';
 import { Thread } from '@/hooks/useThreads';
-import { Email } from './types';
-import { formatFileSize, formatRelativeTime } from '@/utils/formatters';
-import { stripQuotedReply } from '@/utils/emailHelpers';
+import { Email, Attachment, getCategoryLabel } from './types';
+import { formatFileSize } from '@/utils/formatters';
+import { isComposioAttachmentUrl, downloadAttachment } from '@/utils/attachments';
+import { areImagesShownForMessage } from '@/utils/remoteImages';
+import { formatRelativeTime } from '@/utils/dateTime';
+import { useConversation, useQuotedText } from '@/hooks/useConversation';
+import { FoldedEmailsRow, QuotedTextToggle } from './ConversationRows';
+import { SafeEmailFrame } from './SafeEmailFrame';
+import { PhishingBanner } from './PhishingBanner';
+import { OriginalMessageModal } from './OriginalMessageModal';
+import { ExportMenu } from './ExportMenu';
+import { AttachmentLightbox } from '@/components/attachments/AttachmentLightbox';
+import { useEmailExport } from '@/hooks/useEmailExport';
+import { usePhishingCheck } from '@/hooks/usePhishingCheck';
+import { useContacts } from '@/hooks/useContacts';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useShortcuts } from '@/context/ShortcutsContext';
 import { 
   updateThreadCategory, 
   checkSenderRule, 
@@ -43,6 +57,14 @@ const RightArrowIcon = () => (
   </svg>
 );
 
+// Print page URL - carries the messages whose images the reader chose to show (pages/PrintThread.tsx)
+function buildPrintUrl(threadId: string, emails: Email[]): string {
+  const params = new URLSearchParams();
+  emails.filter(email => areImagesShownForMessage(email.id)).forEach(email => params.append('images', email.id));
+  const query = params.toString();
+  return `/print/thread/${encodeURIComponent(threadId)}${query ? `?${query}` : ''}`;
+}
+
 // ======================================================
 // CATEGORY DROPDOWN COMPONENT
 // ======================================================
@@ -218,11 +240,7 @@ function CategoryDropdownMenu({ thread, emails, userEmail, onCategoryChange }: C
     }
   };
   
-  const categories = [
-    { id: 'URGENT', label: 'Urgent' },
-    { id: 'IMPORTANT', label: 'Important' },
-    { id: 'OTHERS', label: 'Others' }
-  ];
+  const categories = ['URGENT', 'IMPORTANT', 'OTHERS'].map(id => ({ id, label: getCategoryLabel(id) }));
 
   return (
     <div ref={dropdownRef} className="relative group/tooltip">
@@ -323,12 +341,6 @@ function CategoryDropdownMenu({ thread, emails, userEmail, onCategoryChange }: C
   );
 }
 
-// Helper: Check if URL is a Composio attachment URL (needs auth)
-const isComposioAttachmentUrl = (url: string | undefined): boolean => {
-  if (!url) return false;
-  return url.includes('/api/composio/attachments/');
-};
-
 type ThreadMode = 'promise' | 'awaiting' | 'inbox';
 
 interface ThreadDetailProps {
@@ -339,6 +351,7 @@ interface ThreadDetailProps {
   onClose: () => void;
   onMarkDone?: () => void;
   onDelete?: () => void;
+  onSnooze?: () => void;                 // Opens the snooze picker
   onExpand?: () => void;
   isExpanded?: boolean;
   onPrevious?: () => void;
@@ -346,11 +359,11 @@ interface ThreadDetailProps {
   hasPrevious?: boolean;
   hasNext?: boolean;
   mode?: ThreadMode;
-  getAuthToken?: () => Promise<string>; // For tracking API calls
   onReply?: (email: Email) => void;      // v3.0: Reply handler
   onReplyAll?: (email: Email) => void;   // v4.0: Reply All handler
   onForward?: (email: Email) => void;    // v3.0: Forward handler
   onCategoryChange?: (threadId: string, newCategory: string) => void; // v5.0: Category override
+  onReportPhishing?: () => void;         // Moves the thread to Spam
 }
 
 // Collapsed email row component
@@ -395,9 +408,11 @@ interface AnimatedEmailItemProps {
   isLatest: boolean;
   userEmail: string;
   onToggle: () => void;
-  getAuthToken?: () => Promise<string>;
   onReply?: (email: Email) => void;
   onForward?: (email: Email) => void;
+  knownAddresses: string[];
+  onReportPhishing?: () => void;
+  onOpenAttachment?: (attachment: Attachment) => void;
 }
 
 function AnimatedEmailItem({ 
@@ -406,9 +421,11 @@ function AnimatedEmailItem({
   isLatest, 
   userEmail, 
   onToggle,
-  getAuthToken,
   onReply,
-  onForward
+  onForward,
+  knownAddresses,
+  onReportPhishing,
+  onOpenAttachment
 }: AnimatedEmailItemProps) {
   const isUserSender = email.senderEmail?.toLowerCase() === userEmail?.toLowerCase();
   const displayName = isUserSender ? 'You' : email.sender;
@@ -427,9 +444,11 @@ function AnimatedEmailItem({
           <EmailCard 
             email={email} 
             userEmail={userEmail}
-            getAuthToken={getAuthToken}
             onReply={onReply}
             onForward={onForward}
+            knownAddresses={knownAddresses}
+            onReportPhishing={onReportPhishing}
+            onOpenAttachment={onOpenAttachment}
           />
         </div>
       ) : (
@@ -461,103 +480,27 @@ function AnimatedEmailItem({
 interface EmailCardProps {
   email: Email;
   userEmail: string;
-  getAuthToken?: () => Promise<string>;
   onReply?: (email: Email) => void;
   onForward?: (email: Email) => void;
+  knownAddresses: string[];
+  onReportPhishing?: () => void;
+  onOpenAttachment?: (attachment: Attachment) => void;  // Preview in the thread's lightbox
 }
 
-function EmailCard({ email, userEmail, getAuthToken, onReply, onForward }: EmailCardProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(60);
-  
+function EmailCard({ email, userEmail, onReply, onForward, knownAddresses, onReportPhishing, onOpenAttachment }: EmailCardProps) {
+  const { t } = useTranslation();
   const isHtml = /<[a-z][\s\S]*>/i.test(email.body);
-  const cleanBody = stripQuotedReply(email.body, isHtml);
+  const { body: cleanBody, hasQuoted, showQuoted, toggleQuoted } = useQuotedText(email.body, isHtml);
   
   const isUserSender = email.senderEmail?.toLowerCase() === userEmail?.toLowerCase();
   const displayName = isUserSender ? 'You' : email.sender;
 
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1">
-        <base target="_blank">
-        <style>
-          * { box-sizing: border-box; -ms-overflow-style: none; scrollbar-width: none; }
-          *::-webkit-scrollbar { display: none; }
-          html, body {
-            margin: 0;
-            padding: 0;
-            height: auto !important;
-            overflow-x: hidden;
-          }
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
-            font-size: 14px;
-            line-height: 1.6;
-            color: #1a1a1a;
-            background: transparent;
-            padding: 16px;
-          }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-          pre { white-space: pre-wrap; word-wrap: break-word; }
-        </style>
-      </head>
-      <body>
-        ${cleanBody}
-        <script>
-          // Ensure all links open in new tab
-          document.addEventListener('click', function(e) {
-            var target = e.target;
-            while (target && target.tagName !== 'A') {
-              target = target.parentElement;
-            }
-            if (target && target.tagName === 'A' && target.href) {
-              e.preventDefault();
-              e.stopPropagation();
-              window.open(target.href, '_blank', 'noopener,noreferrer');
-            }
-          }, true);
-        </script>
-      </body>
-    </html>
-  `;
+  // Spoofing/phishing warning - "Looks safe" hides it for this view
+  const phishingReasons = usePhishingCheck(email, knownAddresses, userEmail);
+  const [phishingDismissed, setPhishingDismissed] = useState(false);
 
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !isHtml) return;
-
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data?.type === 'emailHeight' && event.data.height > 0) {
-        setIframeHeight(event.data.height + 10);
-      }
-    };
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const height = doc.body.scrollHeight;
-          if (height > 0) setIframeHeight(height + 10);
-        }
-      } catch {
-        // Cross-origin error
-      }
-    };
-
-    window.addEventListener('message', handleMessage);
-    iframe.addEventListener('load', updateHeight);
-    // Single height check after load
-    const t1 = setTimeout(updateHeight, 100);
-
-    return () => {
-      window.removeEventListener('message', handleMessage);
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(t1);
-    };
-  }, [cleanBody, isHtml]);
+  // "Show original" - headers, delivery timeline and raw source
+  const [showOriginal, setShowOriginal] = useState(false);
 
   // v3.0: Handle reply click
   const handleReplyClick = (e: React.MouseEvent) => {
@@ -579,37 +522,25 @@ function EmailCard({ email, userEmail, getAuthToken, onReply, onForward }: Email
     }
   };
 
-  // v4.0: Handle Composio attachment download (needs auth)
-  const handleComposioDownload = async (e: React.MouseEvent, attachment: { url?: string; filename: string }) => {
+  // v4.0: Composio attachments need auth - downloaded through apiClient
+  const handleComposioDownload = (e: React.MouseEvent, attachment: Attachment) => {
     e.preventDefault();
     e.stopPropagation();
-    
-    if (!attachment.url) return;
-    
-    try {
-      const token = getAuthToken ? await getAuthToken() : null;
-      if (!token) {
-        console.error('No auth token for Composio attachment download');
-        return;
-      }
-      
-      const response = await fetch(attachment.url, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
-      
-      if (!response.ok) throw new Error(`Download failed: ${response.status}`);
-      
-      const blob = await response.blob();
-      const blobUrl = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = attachment.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(blobUrl);
-    } catch (error) {
+    downloadAttachment(attachment).catch(error => {
       console.error('Composio attachment download error:', error);
+    });
+  };
+
+  // Preview in the thread's lightbox (falls back to downloading)
+  const handleOpenAttachment = (e: React.MouseEvent, attachment: Attachment) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (onOpenAttachment) {
+      onOpenAttachment(attachment);
+    } else if (isComposioAttachmentUrl(attachment.url)) {
+      handleComposioDownload(e, attachment);
+    } else if (attachment.url) {
+      window.open(attachment.url, '_blank', 'noopener');
     }
   };
 
@@ -650,28 +581,47 @@ function EmailCard({ email, userEmail, getAuthToken, onReply, onForward }: Email
                 Forward
               </span>
             </div>
+            {/* Show original button with tooltip */}
+            <div className="relative group/btn">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowOriginal(true);
+                }}
+                className="p-1.5 hover:bg-gray-100 rounded-md transition-colors text-gray-400 hover:text-gray-600"
+              >
+                <FileCode className="w-4 h-4" />
+              </button>
+              <span className="absolute left-1/2 -translate-x-1/2 top-full mt-1.5 px-2 py-1 bg-zinc-900 text-white text-xs rounded-md opacity-0 group-hover/btn:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-[9999] shadow-lg">
+                {t('original.show')}
+              </span>
+            </div>
           </div>
           
           <span className="text-xs text-gray-400">{email.time}</span>
         </div>
       </div>
       
+      {phishingReasons.length > 0 && !phishingDismissed && (
+        <div className="px-5 pt-3">
+          <PhishingBanner
+            reasons={phishingReasons}
+            onReport={onReportPhishing}
+            onDismiss={() => setPhishingDismissed(true)}
+          />
+        </div>
+      )}
+      
       {/* Email Body */}
       <div className="px-5 py-4">
         {isHtml ? (
-          <iframe
-            ref={iframeRef}
-            srcDoc={htmlContent}
-            sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
-            className="w-full border-0 transition-[height] duration-200 ease-out"
-            style={{ height: `${iframeHeight}px`, background: 'transparent' }}
-            title="Email content"
-          />
+          <SafeEmailFrame html={cleanBody} senderEmail={email.senderEmail} messageId={email.id} />
         ) : (
           <div className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
             {cleanBody}
           </div>
         )}
+        {hasQuoted && <QuotedTextToggle expanded={showQuoted} onToggle={toggleQuoted} />}
       </div>
       
       {/* Attachments Section */}
@@ -683,12 +633,11 @@ function EmailCard({ email, userEmail, getAuthToken, onReply, onForward }: Email
               {email.attachments
                 .filter(a => a.content_type?.startsWith('image/') && !isComposioAttachmentUrl(a.url))
                 .map((attachment, idx) => (
-                  <a
+                  <button
                     key={attachment.id || `img-${idx}`}
-                    href={attachment.url || '#'}
-                    download={attachment.filename}
+                    onClick={(e) => handleOpenAttachment(e, attachment)}
                     className="relative group rounded-lg overflow-hidden bg-gray-100 hover:opacity-90 transition-opacity"
-                    title={`${attachment.filename} (${formatFileSize(attachment.size)}) - Click to download`}
+                    title={`${attachment.filename} (${formatFileSize(attachment.size)})`}
                   >
                     <img
                       src={attachment.url}
@@ -696,56 +645,58 @@ function EmailCard({ email, userEmail, getAuthToken, onReply, onForward }: Email
                       className="max-h-48 max-w-64 object-cover rounded-lg"
                       loading="lazy"
                     />
-                    {/* Download overlay on hover */}
+                    {/* Preview overlay on hover */}
                     <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                      <Download className="w-6 h-6 text-white" />
+                      <Maximize2 className="w-6 h-6 text-white" />
                     </div>
-                  </a>
+                  </button>
                 ))}
             </div>
           )}
           
-          {/* Non-Image Attachments - Direct Auth (Link Style, unchanged) */}
-          {email.attachments && email.attachments.filter(a => !a.content_type?.startsWith('image/') && !isComposioAttachmentUrl(a.url)).length > 0 && (
+          {/* Other Attachments - click previews, the icon downloads (Composio ones need auth) */}
+          {email.attachments && email.attachments.filter(a => !a.content_type?.startsWith('image/') || isComposioAttachmentUrl(a.url)).length > 0 && (
             <div className="flex flex-wrap gap-2">
               {email.attachments
-                .filter(a => !a.content_type?.startsWith('image/') && !isComposioAttachmentUrl(a.url))
+                .filter(a => !a.content_type?.startsWith('image/') || isComposioAttachmentUrl(a.url))
                 .map((attachment, idx) => (
-                  <a
+                  <div
                     key={attachment.id || `file-${idx}`}
-                    href={attachment.url || '#'}
-                    download={attachment.filename}
-                    className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm text-gray-700 group"
-                    title={`${attachment.filename} (${formatFileSize(attachment.size)})`}
+                    className="flex items-center bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm text-gray-700 group"
                   >
-                    <Paperclip className="w-4 h-4 text-gray-500" />
-                    <span className="max-w-[180px] truncate">{attachment.filename}</span>
-                    <span className="text-gray-400 text-xs">{formatFileSize(attachment.size)}</span>
+                    <button
+                      onClick={(e) => handleOpenAttachment(e, attachment)}
+                      className="flex items-center gap-2 ps-3 pe-1 py-2"
+                      title={`${attachment.filename} (${formatFileSize(attachment.size)})`}
+                    >
+                      <Paperclip className="w-4 h-4 text-gray-500" />
+                      <span className="max-w-[180px] truncate">{attachment.filename}</span>
+                      <span className="text-gray-400 text-xs">{formatFileSize(attachment.size)}</span>
+                    </button>
                     {attachment.url && (
-                      <Download className="w-3.5 h-3.5 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+                      isComposioAttachmentUrl(attachment.url) ? (
+                        <button
+                          onClick={(e) => handleComposioDownload(e, attachment)}
+                          className="p-2 pe-3 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title={t('attachments.download')}
+                          aria-label={t('attachments.download')}
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                        </button>
+                      ) : (
+                        <a
+                          href={attachment.url}
+                          download={attachment.filename}
+                          onClick={(e) => e.stopPropagation()}
+                          className="p-2 pe-3 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title={t('attachments.download')}
+                          aria-label={t('attachments.download')}
+                        >
+                          <Download className="w-3.5 h-3.5" />
+                        </a>
+                      )
                     )}
-                  </a>
-                ))}
-            </div>
-          )}
-          
-          {/* Composio Attachments - All types (needs auth, no image preview) */}
-          {email.attachments && email.attachments.filter(a => isComposioAttachmentUrl(a.url)).length > 0 && (
-            <div className="flex flex-wrap gap-2">
-              {email.attachments
-                .filter(a => isComposioAttachmentUrl(a.url))
-                .map((attachment, idx) => (
-                  <button
-                    key={attachment.id || `composio-${idx}`}
-                    onClick={(e) => handleComposioDownload(e, attachment)}
-                    className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm text-gray-700 group cursor-pointer"
-                    title={`${attachment.filename} (${formatFileSize(attachment.size)}) - Click to download`}
-                  >
-                    <Paperclip className="w-4 h-4 text-gray-500" />
-                    <span className="max-w-[180px] truncate">{attachment.filename}</span>
-                    <span className="text-gray-400 text-xs">{formatFileSize(attachment.size)}</span>
-                    <Download className="w-3.5 h-3.5 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity" />
-                  </button>
+                  </div>
                 ))}
             </div>
           )}
@@ -760,6 +711,13 @@ function EmailCard({ email, userEmail, getAuthToken, onReply, onForward }: Email
         </div>
       )}
     </div>
+
+    <OriginalMessageModal
+      isOpen={showOriginal}
+      onClose={() => setShowOriginal(false)}
+      email={email}
+      userEmail={userEmail}
+    />
   </div>
   );
 }
@@ -772,6 +730,7 @@ export function ThreadDetail({
   onClose, 
   onMarkDone, 
   onDelete,
+  onSnooze,
   onExpand,
   isExpanded = false,
   onPrevious,
@@ -779,110 +738,55 @@ export function ThreadDetail({
   hasPrevious = false,
   hasNext = false,
   mode = 'inbox',
-  getAuthToken,
   onReply,
   onReplyAll,
   onForward,
-  onCategoryChange
+  onCategoryChange,
+  onReportPhishing
 }: ThreadDetailProps) {
-  // State for tracking which emails are expanded (by email id)
-  const [expandedEmails, setExpandedEmails] = useState<Set<string>>(new Set());
-  const emailListRef = useRef<HTMLDivElement>(null);
+  // Expanded / collapsed / folded emails (unread + latest start expanded)
+  const { items: conversationItems, toggle: handleToggleEmail, unfold: handleUnfold } = useConversation(emails, 'email-');
   
-  // Detect OS for keyboard shortcut display
-  const isMac = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+  // Known addresses for the lookalike/impersonation checks
+  const { contacts } = useContacts();
   
-  // Initialize: Latest email always expanded
-  useEffect(() => {
-    if (emails.length > 0) {
-      const latestEmailId = emails[emails.length - 1].id;
-      setExpandedEmails(new Set([latestEmailId]));
-    }
-  }, [emails]);
+  // Export: .eml per message, .mbox of the thread, PDF via the print route (pages/PrintThread.tsx)
+  const { exporting, error: exportError, exportEml, exportMbox } = useEmailExport();
   
-  // Get the latest email for keyboard shortcuts
-  const latestEmail = emails.length > 0 ? emails[emails.length - 1] : null;
+  // Attachment lightbox - pages through every attachment in the thread, oldest first
+  const attachmentItems = useMemo(() => emails.flatMap(email =>
+    (email.attachments || []).map(attachment => ({
+      emailId: email.id,
+      attachment,
+      caption: `${email.sender || email.senderEmail} · ${email.date}`,
+    }))
+  ), [emails]);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
   
-  // Handle toggling email expanded/collapsed state
-  const handleToggleEmail = (emailId: string) => {
-    // Don't allow collapsing the latest email
-    if (isLatestEmail(emailId)) return;
-    
-    setExpandedEmails(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(emailId)) {
-        // Collapse it
-        newSet.delete(emailId);
-      } else {
-        // Expand it
-        newSet.add(emailId);
-        // Scroll to the expanded email after a short delay
-        setTimeout(() => {
-          const emailElement = document.getElementById(`email-${emailId}`);
-          if (emailElement && emailListRef.current) {
-            emailElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-        }, 100);
-      }
-      return newSet;
-    });
-  };
+  useEffect(() => {
+    setLightboxIndex(null);
+  }, [thread.thread_id]);
   
-  // Check if an email is the latest
-  const isLatestEmail = (emailId: string) => {
-    return emails.length > 0 && emails[emails.length - 1].id === emailId;
+  const handleOpenAttachment = (emailId: string, attachment: Attachment) => {
+    const index = attachmentItems.findIndex(item => item.emailId === emailId && item.attachment === attachment);
+    setLightboxIndex(index >= 0 ? index : null);
   };
   
-  // Ref to track last key pressed for R+A combo
-  const lastKeyRef = useRef<string | null>(null);
+  // Detect OS for keyboard shortcut display
+  const isMac = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().indexOf('MAC') >= 0;
   
-  // Keyboard shortcuts handler
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't trigger if user is typing in an input
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
-        return;
-      }
-      
-      // R+A for Reply All (check if A is pressed while R was recently pressed)
-      if (e.key.toLowerCase() === 'a' && lastKeyRef.current === 'r') {
-        e.preventDefault();
-        if (latestEmail && onReplyAll) {
-          onReplyAll(latestEmail);
-        }
-        lastKeyRef.current = null;
-        return;
-      }
-      
-      // R for Reply
-      if (e.key.toLowerCase() === 'r' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        lastKeyRef.current = 'r';
-        // Set timeout to clear if A is not pressed
-        setTimeout(() => {
-          if (lastKeyRef.current === 'r') {
-            if (latestEmail && onReply) {
-              onReply(latestEmail);
-            }
-            lastKeyRef.current = null;
-          }
-        }, 300);
-        return;
-      }
-      
-      // F for Forward
-      if (e.key.toLowerCase() === 'f' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        if (latestEmail && onForward) {
-          onForward(latestEmail);
-        }
-        return;
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [latestEmail, onReply, onReplyAll, onForward]);
+  // Get the latest email for keyboard shortcuts
+  const latestEmail = emails.length > 0 ? emails[emails.length - 1] : null;
+  
+  // Keyboard shortcuts (bindings in utils/shortcuts.ts) - false lets the page handle it
+  useShortcuts('detail', {
+    reply: () => (latestEmail && onReply ? onReply(latestEmail) : false),
+    replyAll: () => (latestEmail && onReplyAll ? onReplyAll(latestEmail) : false),
+    forward: () => (latestEmail && onForward ? onForward(latestEmail) : false),
+    markDone: () => (onMarkDone ? onMarkDone() : false),
+    delete: () => (onDelete ? onDelete() : false),
+    snooze: () => (onSnooze ? onSnooze() : false),
+  }, lightboxIndex === null);
   
   // Determine which summary to show based on thread properties (not current category)
   const summaryText = thread.has_awaiting && thread.ui_summary_awaiting
@@ -961,6 +865,18 @@ export function ThreadDetail({
             </>
           )}
           
+          {/* Export Menu */}
+          {emails.length > 0 && (
+            <ExportMenu
+              variant="light"
+              onExportEml={emails.length === 1 ? () => exportEml(emails[0].id) : undefined}
+              onExportMbox={() => exportMbox(emails.map(email => email.id), thread.gmail_subject)}
+              onPrint={() => window.open(buildPrintUrl(thread.thread_id, emails), '_blank', 'noopener')}
+              exporting={exporting}
+              error={exportError}
+            />
+          )}
+          
           {/* Expand/Minimize Button */}
           {onExpand && (
             <button 
@@ -983,6 +899,17 @@ export function ThreadDetail({
             </button>
           )}
           
+          {/* Snooze Button */}
+          {onSnooze && (
+            <button 
+              onClick={onSnooze}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors text-gray-500 hover:text-black"
+              title="Snooze"
+            >
+              <AlarmClock className="w-5 h-5" />
+            </button>
+          )}
+          
           {/* Delete Button */}
           {onDelete && (
             <button 
@@ -1015,7 +942,7 @@ export function ThreadDetail({
       )}
 
       {/* Email List */}
-      <div ref={emailListRef} className="flex-1 overflow-y-auto hide-scrollbar px-6 pb-6">
+      <div className="flex-1 overflow-y-auto hide-scrollbar px-6 pb-6">
         <div className="max-w-[600px] mx-auto">
           {loading ? (
             <div className="flex items-center justify-center h-32">
@@ -1026,27 +953,38 @@ export function ThreadDetail({
               <p className="text-gray-500 text-sm">No emails found</p>
             </div>
           ) : (
-            emails.map((email) => {
-              const isExpanded = expandedEmails.has(email.id) || isLatestEmail(email.id);
-              const isLatest = isLatestEmail(email.id);
+            conversationItems.map((item) => {
+              if (item.type === 'folded') {
+                return <FoldedEmailsRow key={`folded-${item.key}`} count={item.emails.length} onClick={handleUnfold} />;
+              }
+              const { email } = item;
               
               return (
                 <AnimatedEmailItem
                   key={email.id}
                   email={email}
-                  isExpanded={isExpanded}
-                  isLatest={isLatest}
+                  isExpanded={item.isExpanded}
+                  isLatest={item.isLatest}
                   userEmail={userEmail}
                   onToggle={() => handleToggleEmail(email.id)}
-                  getAuthToken={getAuthToken}
                   onReply={onReply}
                   onForward={onForward}
+                  knownAddresses={contacts}
+                  onReportPhishing={onReportPhishing}
+                  onOpenAttachment={(attachment) => handleOpenAttachment(email.id, attachment)}
                 />
               );
             })
           )}
         </div>
       </div>
+      
+      <AttachmentLightbox
+        items={attachmentItems}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        onClose={() => setLightboxIndex(null)}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -2,10 +2,13 @@
 // v2.1: Removed date separators
 // v2.2: Added context menu props
 // v2.3: Added mobile selection mode props
+// v2.4: Virtualized rows + infinite scroll (hasMore/loadingMore/onLoadMore)
+// v2.5: onSnooze (context menu + hover action)
 
 import { Loader2 } from 'lucide-react';
 import { Thread } from './promiseTypes';
 import { ThreadListItem } from './ThreadListItem';
+import { VirtualList } from './VirtualList';
 
 interface ThreadListProps {
   threads: Thread[];
@@ -21,6 +24,7 @@ interface ThreadListProps {
   onLongPress?: (thread: Thread) => void;  // Long-press to enter selection mode
   onMarkDone?: (thread: Thread) => void;
   onDelete?: (thread: Thread) => void;
+  onSnooze?: (thread: Thread) => void;
   emptyMessage?: string;
   // New props for context menu
   allLabels?: Array<{ id: string; name: string; color: string }>;
@@ -31,6 +35,10 @@ interface ThreadListProps {
   onMarkUnread?: (thread: Thread) => void;
   onToggleLabel?: (thread: Thread, labelId: string, labelName: string, isApplied: boolean) => void;
   onCreateLabel?: () => void;
+  // Infinite scroll
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export function ThreadList({ 
@@ -47,6 +55,7 @@ export function ThreadList({
   onLongPress,
   onMarkDone,
   onDelete,
+  onSnooze,
   emptyMessage = 'No threads in this category',
   // New props
   allLabels = [],
@@ -56,7 +65,10 @@ export function ThreadList({
   onMarkRead,
   onMarkUnread,
   onToggleLabel,
-  onCreateLabel
+  onCreateLabel,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }: ThreadListProps) {
   // Loading state
   if (loading) {
@@ -97,11 +109,16 @@ export function ThreadList({
   }
 
   // Render threads (no syncing banner - threads appear in real-time)
+  // Only rows near the viewport are mounted; scrolling near the end loads the next page
   return (
-    <div>
-      {threads.map((thread) => (
+    <VirtualList
+      items={threads}
+      getKey={(thread) => thread.thread_id}
+      hasMore={hasMore}
+      loadingMore={loadingMore}
+      onEndReached={onLoadMore}
+      renderItem={(thread) => (
         <ThreadListItem
-          key={thread.thread_id}
           thread={thread}
           isSelected={thread.thread_id === selectedThreadId}
           isCompact={isCompact}
@@ -112,6 +129,7 @@ export function ThreadList({
           onLongPress={onLongPress}
           onMarkDone={onMarkDone}
           onDelete={onDelete}
+          onSnooze={onSnooze}
           // New props for context menu
           allLabels={allLabels}
           onReply={onReply}
@@ -122,7 +140,7 @@ export function ThreadList({
           onToggleLabel={onToggleLabel}
           onCreateLabel={onCreateLabel}
         />
-      ))}
-    </div>
+      )}
+    />
   );
-}
\ No newline at end of file
+}
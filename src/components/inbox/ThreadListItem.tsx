@@ -2,13 +2,17 @@
 // v2.0: Uses last_email_sender and last_email_snippet for proper Gmail/Superhuman style display
 // v2.1: Added right-click context menu
 // v2.2: Added mobile selection mode with long-press
+// v2.3: "l" on the selected thread opens the context menu at its labels
+// v2.4: Snooze in the context menu and hover actions
 
 import React, { useCallback, useRef, useState, useEffect } from 'react';
-import { Check, Trash2, Reply, ReplyAll, Forward, Mail, MailOpen, Tag, ChevronRight, Plus } from 'lucide-react';
+import { Check, Trash2, Reply, ReplyAll, Forward, Mail, MailOpen, Tag, ChevronRight, Plus, AlarmClock } from 'lucide-react';
 
 // Use Thread type from promiseTypes
 import { Thread } from './promiseTypes';
-import { formatDisplayTime, cleanSnippet } from '@/utils/formatters';
+import { cleanSnippet } from '@/utils/formatters';
+import { formatListTime } from '@/utils/dateTime';
+import { useShortcuts } from '@/context/ShortcutsContext';
 
 // ======================================================
 // LABEL CHIP COMPONENT
@@ -115,8 +119,10 @@ interface ContextMenuProps {
   onMarkUnread: () => void;
   onMarkDone: () => void;
   onDelete: () => void;
+  onSnooze?: () => void;
   onToggleLabel: (labelId: string, labelName: string, isCurrentlyApplied: boolean) => void;
   onCreateLabel: () => void;
+  initialShowLabels?: boolean;  // Opened from the "l" shortcut
 }
 
 const ContextMenu = ({
@@ -133,11 +139,13 @@ const ContextMenu = ({
   onMarkUnread,
   onMarkDone,
   onDelete,
+  onSnooze,
   onToggleLabel,
-  onCreateLabel
+  onCreateLabel,
+  initialShowLabels = false
 }: ContextMenuProps) => {
   const menuRef = useRef<HTMLDivElement>(null);
-  const [showLabelsSubmenu, setShowLabelsSubmenu] = useState(false);
+  const [showLabelsSubmenu, setShowLabelsSubmenu] = useState(initialShowLabels);
   const [submenuPosition, setSubmenuPosition] = useState<'right' | 'left'>('right');
   const labelsItemRef = useRef<HTMLDivElement>(null);
 
@@ -257,6 +265,14 @@ const ContextMenu = ({
         Mark as Done
       </button>
       
+      {/* Snooze */}
+      {onSnooze && (
+        <button onClick={onSnooze} className={menuItemClass}>
+          <AlarmClock className="w-4 h-4" />
+          Snooze...
+        </button>
+      )}
+      
       {/* Delete */}
       <button onClick={onDelete} className={menuItemClass}>
         <Trash2 className="w-4 h-4" />
@@ -342,6 +358,7 @@ interface ThreadListItemProps {
   onLongPress?: (thread: Thread) => void;  // Long-press to enter selection mode
   onMarkDone?: (thread: Thread) => void;
   onDelete?: (thread: Thread) => void;
+  onSnooze?: (thread: Thread) => void;
   // New props for context menu
   allLabels?: Array<{ id: string; name: string; color: string }>;
   onReply?: (thread: Thread) => void;
@@ -415,6 +432,7 @@ export function ThreadListItem({
   onLongPress,
   onMarkDone,
   onDelete,
+  onSnooze,
   // New props
   allLabels = [],
   onReply,
@@ -427,7 +445,7 @@ export function ThreadListItem({
 }: ThreadListItemProps) {
   
   const displayName = getDisplayName(thread);
-  const time = formatDisplayTime(thread.last_email_date);
+  const time = formatListTime(thread.last_email_date);
   const emailCount = thread.email_ids?.length || thread.email_count || 1;
   const hasMultipleEmails = emailCount > 1;
   const snippet = getSnippet(thread);
@@ -436,7 +454,8 @@ export function ThreadListItem({
   const threadLabels = (thread as any).labels || [];
   
   // Context menu state
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; showLabels?: boolean } | null>(null);
+  const rowRef = useRef<HTMLDivElement>(null);
   
   // Long-press state for mobile selection mode
   const [isLongPressing, setIsLongPressing] = useState(false);
@@ -498,6 +517,12 @@ export function ThreadListItem({
     e.preventDefault();
     onDelete?.(thread);
   }, [thread, onDelete]);
+
+  const handleSnooze = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onSnooze?.(thread);
+  }, [thread, onSnooze]);
   
   const handleRowClick = useCallback((e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
@@ -525,6 +550,15 @@ export function ThreadListItem({
     setContextMenu(null);
   }, []);
 
+  // "l" - label the open thread (the row stays mounted next to ThreadDetail)
+  useShortcuts('detail', {
+    label: () => {
+      const rect = rowRef.current?.getBoundingClientRect();
+      if (!rect) return false;
+      setContextMenu({ x: rect.left + 24, y: rect.bottom, showLabels: true });
+    },
+  }, isSelected && !!onToggleLabel);
+
   // Context menu action handlers
   const handleContextReply = useCallback(() => {
     closeContextMenu();
@@ -561,6 +595,11 @@ export function ThreadListItem({
     onDelete?.(thread);
   }, [thread, onDelete, closeContextMenu]);
 
+  const handleContextSnooze = useCallback(() => {
+    closeContextMenu();
+    onSnooze?.(thread);
+  }, [thread, onSnooze, closeContextMenu]);
+
   const handleContextToggleLabel = useCallback((labelId: string, labelName: string, isApplied: boolean) => {
     onToggleLabel?.(thread, labelId, labelName, isApplied);
   }, [thread, onToggleLabel]);
@@ -573,6 +612,7 @@ export function ThreadListItem({
   return (
     <>
       <div
+        ref={rowRef}
         className={`
           group cursor-pointer transition-all duration-150
           ${isChecked 
@@ -726,6 +766,16 @@ export function ThreadListItem({
                   >
                     <Check className="w-4 h-4" />
                   </button>
+                  {onSnooze && (
+                    <button
+                      onClick={handleSnooze}
+                      onMouseDown={stopPropagation}
+                      className="p-1 hover:bg-zinc-600/50 rounded transition-colors duration-100 text-zinc-400 hover:text-white"
+                      title="Snooze"
+                    >
+                      <AlarmClock className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={handleDelete}
                     onMouseDown={stopPropagation}
@@ -799,6 +849,16 @@ export function ThreadListItem({
                     >
                       <Check className="w-4 h-4" />
                     </button>
+                    {onSnooze && (
+                      <button
+                        onClick={handleSnooze}
+                        onMouseDown={stopPropagation}
+                        className="p-1 hover:bg-zinc-600/50 rounded transition-colors duration-100 text-zinc-400 hover:text-white"
+                        title="Snooze"
+                      >
+                        <AlarmClock className="w-4 h-4" />
+                      </button>
+                    )}
                     <button
                       onClick={handleDelete}
                       onMouseDown={stopPropagation}
@@ -850,8 +910,10 @@ export function ThreadListItem({
           onMarkUnread={handleContextMarkUnread}
           onMarkDone={handleContextMarkDone}
           onDelete={handleContextDelete}
+          onSnooze={onSnooze ? handleContextSnooze : undefined}
           onToggleLabel={handleContextToggleLabel}
           onCreateLabel={handleContextCreateLabel}
+          initialShowLabels={contextMenu.showLabels}
         />
       )}
     </>
@@ -1,9 +1,11 @@
 // TiptapEditor.tsx - Rich text editor component using Tiptap
 // Phase 5: S3 attachment support with upload progress
 // Phase 6: GIF and Emoji support
+// v7.0: Signatures - default one inserted into new messages, switcher in the toolbar
+// v7.1: Templates - toolbar menu and ;shortcut expansion, {{variables}} filled for the recipient
 // Provides HTML and plain text output for email composition
 
-import { useEffect, useImperativeHandle, forwardRef, useState } from 'react';
+import { useEffect, useImperativeHandle, forwardRef, useState, useRef } from 'react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Underline from '@tiptap/extension-underline';
@@ -11,6 +13,13 @@ import Link from '@tiptap/extension-link';
 import Placeholder from '@tiptap/extension-placeholder';
 import TiptapImage from '@tiptap/extension-image';
 import { EditorToolbar } from './EditorToolbar';
+import { Signature } from './extensions/Signature';
+import { TemplateShortcuts } from './extensions/TemplateShortcuts';
+import { useSignatures } from '@/context/SignaturesContext';
+import { useTemplates } from '@/context/TemplatesContext';
+import type { SignatureKind } from '@/services/signatureApi';
+import { signatureHtml } from '@/utils/signatures';
+import { fillTemplate, templateValuesFor } from '@/utils/templates';
 import { X, Paperclip, FileText, Image, File, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 import { formatFileSize } from '@/utils/formatters';
 
@@ -40,6 +49,8 @@ export interface TiptapEditorRef {
   isEmpty: () => boolean;
   focus: () => void;
   clear: () => void;
+  setContent: (html: string) => void;  // Replace the body (draft restored or merged) - fires onChange like typing
+  insertText: (text: string) => void;  // At the cursor, e.g. a mail merge {{field}}
 }
 
 interface TiptapEditorProps {
@@ -50,6 +61,9 @@ interface TiptapEditorProps {
   attachments?: AttachedFile[];
   onAttachmentsChange?: (files: AttachedFile[]) => void;
   onRemoveAttachment?: (id: string) => void;
+  signatureKind?: SignatureKind;  // v7.0: Enables signatures (omit for the signature editor itself)
+  fromAddress?: string;           // v7.0: Sending address whose default signature is used
+  templateRecipient?: string | null;  // v7.1: Enables templates; fills {{first_name}} etc. (null = not known yet)
 }
 
 export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
@@ -60,8 +74,23 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
     className = '',
     attachments = [],
     onAttachmentsChange,
-    onRemoveAttachment
+    onRemoveAttachment,
+    signatureKind,
+    fromAddress = '',
+    templateRecipient
   }, ref) => {
+    const { loading: signaturesLoading, getDefaultSignature } = useSignatures();
+    const signatureInsertedRef = useRef(false);
+    
+    // v7.1: The editor is created once - the ;shortcut extension reads the latest of these
+    const { getTemplateByShortcut } = useTemplates();
+    const templatesEnabled = templateRecipient !== undefined;
+    const expandTemplateRef = useRef<(shortcut: string) => string | null>(() => null);
+    expandTemplateRef.current = (shortcut: string) => {
+      if (!templatesEnabled) return null;
+      const template = getTemplateByShortcut(shortcut);
+      return template ? fillTemplate(template.html, templateValuesFor(templateRecipient)) : null;
+    };
     
     // v6.0: Lightbox state for image preview
     const [lightboxImage, setLightboxImage] = useState<string | null>(null);
@@ -107,6 +136,10 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
             style: 'max-width: 300px; height: auto; border-radius: 8px; margin: 8px 0;',
           },
         }),
+        Signature,
+        TemplateShortcuts.configure({
+          expand: (shortcut) => expandTemplateRef.current(shortcut),
+        }),
       ],
       content: initialContent,
       editorProps: {
@@ -128,6 +161,8 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
       isEmpty: () => editor?.isEmpty || true,
       focus: () => editor?.commands.focus(),
       clear: () => editor?.commands.clearContent(),
+      setContent: (html: string) => editor?.commands.setContent(html),
+      insertText: (text: string) => editor?.chain().focus().insertContent({ type: 'text', text }).run(),
     }), [editor]);
     
     // Set initial content when editor is ready
@@ -137,6 +172,22 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
       }
     }, [editor, initialContent]);
     
+    // v7.0: A new message starts with the default signature. Drafts and restored
+    // content keep whatever they had. No onChange, so an untouched message stays empty.
+    useEffect(() => {
+      if (!editor || !signatureKind || signaturesLoading || signatureInsertedRef.current) return;
+      signatureInsertedRef.current = true;
+      if (initialContent || !editor.isEmpty) return;
+      
+      const defaultSignature = getDefaultSignature(signatureKind, fromAddress);
+      if (defaultSignature) {
+        editor.chain()
+          .setContent(`<p></p>${signatureHtml(defaultSignature)}`, { emitUpdate: false })
+          .setTextSelection(1)
+          .run();
+      }
+    }, [editor, signatureKind, fromAddress, signaturesLoading, getDefaultSignature, initialContent]);
+    
     // Cleanup on unmount
     useEffect(() => {
       return () => {
@@ -461,10 +512,18 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
           editor={editor} 
           attachments={attachments}
           onAttachmentsChange={onAttachmentsChange}
+          showSignatures={!!signatureKind}
+          templateRecipient={templateRecipient}
         />
         
         {/* Custom styles for Tiptap */}
         <style>{`
+          /* v7.0: Signature block */
+          .tiptap [data-signature] {
+            margin-top: 1rem;
+            color: #a1a1aa;
+          }
+          
           /* Placeholder styling */
           .tiptap p.is-editor-empty:first-child::before {
             content: attr(data-placeholder);
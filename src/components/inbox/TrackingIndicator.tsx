@@ -4,7 +4,8 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { Eye, EyeOff, X, Loader2 } from 'lucide-react';
-import { formatRelativeTime } from '@/utils/formatters';
+import { formatRelativeTime } from '@/utils/dateTime';
+import { getTrackingByMessageId } from '@/services/trackingApi';
 
 
 interface TrackingStatus {
@@ -18,10 +19,9 @@ interface TrackingStatus {
 interface TrackingIndicatorProps {
   messageId: string;
   isMobile?: boolean;
-  getAuthToken: () => Promise<string>; // Function to get Firebase ID token
 }
 
-export function TrackingIndicator({ messageId, isMobile = false, getAuthToken }: TrackingIndicatorProps) {
+export function TrackingIndicator({ messageId, isMobile = false }: TrackingIndicatorProps) {
   const [tracking, setTracking] = useState<TrackingStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState(false);
@@ -39,33 +39,15 @@ export function TrackingIndicator({ messageId, isMobile = false, getAuthToken }:
     hasFetched.current = true;
 
     try {
-      const token = await getAuthToken();
-      const response = await fetch(
-        `${import.meta.env.VITE_BACKEND_URL}/api/emails/tracking/by-message/${messageId}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data) {
-          setTracking({
-            opened: data.opened || false,
-            recipient_open_count: data.recipient_open_count || 0,
-            first_opened_at: data.first_opened_at || null,
-            last_opened_at: data.last_opened_at || null,
-            click_count: data.click_count || 0,
-          });
-        }
-      } else if (response.status === 404) {
-        // No tracking data - this email wasn't sent via Outpost
-        setTracking(null);
-      } else {
-        setError(true);
-      }
+      // null when this email wasn't sent via Outpost (no tracking data)
+      const data = await getTrackingByMessageId(messageId);
+      setTracking(data && {
+        opened: data.opened || false,
+        recipient_open_count: data.recipient_open_count || 0,
+        first_opened_at: data.first_opened_at || null,
+        last_opened_at: data.last_opened_at || null,
+        click_count: data.click_count || 0,
+      });
     } catch (err) {
       console.error('Error fetching tracking:', err);
       setError(true);
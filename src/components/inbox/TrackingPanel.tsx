@@ -1,17 +1,23 @@
 // TrackingPanel.tsx - Display email tracking statistics
 // Shows: Opened status, First opened time, Last opened time
+// Mail merges: opens and clicks added up across every recipient's message (MailMergeRollup)
 
 import { useState, useEffect } from 'react';
 import { Eye, EyeOff, Clock, Loader2, Mail } from 'lucide-react';
 import { getTrackingByMessageId, TrackingStats } from '@/services/trackingApi';
+import { formatRelativeTime } from '@/utils/dateTime';
+import { MailMergeRollup } from '@/components/mailMerge/MailMergeRollup';
+import type { MailMerge } from '@/services/mailMergeApi';
 
 interface TrackingPanelProps {
   gmailMessageId: string | undefined;
   threadEmailCount: number;
   recipient: string;
+  recipientPhoto?: string | null;
+  mailMerge?: MailMerge | null;  // The merge this email was sent in, if any
 }
 
-export function TrackingPanel({ gmailMessageId, threadEmailCount, recipient }: TrackingPanelProps) {
+export function TrackingPanel({ gmailMessageId, threadEmailCount, recipient, recipientPhoto, mailMerge }: TrackingPanelProps) {
   const [tracking, setTracking] = useState<TrackingStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -44,29 +50,8 @@ export function TrackingPanel({ gmailMessageId, threadEmailCount, recipient }: T
   }, [gmailMessageId]);
 
   // Format date for display
-  const formatDate = (dateString: string | null | undefined): string => {
-    if (!dateString) return 'Never';
-    
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    
-    return date.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-  };
+  const formatDate = (dateString: string | null | undefined): string =>
+    formatRelativeTime(dateString, { withTime: true }) || 'Never';
 
   // Get the correct open count
   const getOpenCount = (): number => {
@@ -81,7 +66,18 @@ export function TrackingPanel({ gmailMessageId, threadEmailCount, recipient }: T
   };
 
   return (
-    <div className="h-full flex flex-col p-6 pt-8">
+    <div className="h-full flex flex-col p-6 pt-8 overflow-y-auto">
+      {/* Outpost Recipient Photo */}
+      {recipientPhoto && (
+        <div className="flex justify-center mb-6">
+          <img
+            src={recipientPhoto}
+            alt="Recipient"
+            className="w-16 h-16 rounded-full object-cover"
+          />
+        </div>
+      )}
+
       {/* Top Section */}
       <div className="space-y-6">
         {/* Thread Info */}
@@ -95,6 +91,9 @@ export function TrackingPanel({ gmailMessageId, threadEmailCount, recipient }: T
           <p className="text-zinc-500 text-xs uppercase tracking-wider mb-2">To</p>
           <p className="text-zinc-400 text-xs truncate">{recipient}</p>
         </div>
+
+        {/* Mail merge - every recipient's message */}
+        {mailMerge && <MailMergeRollup key={mailMerge.id} mailMerge={mailMerge} />}
       </div>
 
       {/* Spacer */}
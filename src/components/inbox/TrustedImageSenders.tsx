@@ -0,0 +1,46 @@
+// components/inbox/TrustedImageSenders.tsx
+// Settings → Images: senders whose remote images always load (see utils/remoteImages.ts)
+
+import { X } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { untrustImageSender } from '@/utils/remoteImages';
+import { useTrustedImageSenders } from '@/hooks/useTrustedImageSenders';
+import { useTranslation } from '@/hooks/useTranslation';
+
+export function TrustedImageSenders() {
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const trustedSenders = useTrustedImageSenders();
+  const senders = [...trustedSenders].sort();
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-zinc-400">{t('images.description')}</p>
+
+      <div>
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+          {t('images.trustedSenders')}
+        </h3>
+        {senders.length === 0 ? (
+          <p className="text-sm text-zinc-500">{t('images.noTrustedSenders')}</p>
+        ) : (
+          <div className="divide-y divide-zinc-700">
+            {senders.map(sender => (
+              <div key={sender} className="flex items-center justify-between gap-4 py-2">
+                <span className="text-sm text-zinc-300 truncate">{sender}</span>
+                <button
+                  onClick={() => untrustImageSender(currentUser?.uid, sender)}
+                  className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+                  title={t('images.remove')}
+                  aria-label={t('images.remove')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+// VirtualList.tsx - Windowed rendering for long inbox lists
+// ✅ Only rows in (or near) the visible area are mounted
+// ✅ Row heights measured after render - variable height rows are fine
+// ✅ Scrolls with the nearest scrollable ancestor (no fixed-height container needed)
+// ✅ onEndReached for infinite scroll + "loading more" footer
+
+import { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  estimatedItemHeight?: number;
+  overscan?: number;              // Extra rows rendered above/below the viewport
+  // Infinite scroll
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onEndReached?: () => void;
+  endReachedThreshold?: number;   // Distance (px) from the end that triggers onEndReached
+}
+
+interface Viewport {
+  // Viewport top relative to the top of the list (can be negative)
+  top: number;
+  height: number;
+}
+
+function getScrollParent(node: HTMLElement | null): HTMLElement | null {
+  let parent = node?.parentElement || null;
+  while (parent) {
+    const { overflowY } = window.getComputedStyle(parent);
+    if (overflowY === 'auto' || overflowY === 'scroll') return parent;
+    parent = parent.parentElement;
+  }
+  return null;
+}
+
+// First index whose row ends below `position`
+function findIndex(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedItemHeight = 72,
+  overscan = 8,
+  hasMore = false,
+  loadingMore = false,
+  onEndReached,
+  endReachedThreshold = 600,
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState<Viewport>(() => ({
+    top: 0,
+    height: typeof window !== 'undefined' ? window.innerHeight : 800,
+  }));
+
+  // ==================== VIEWPORT TRACKING ====================
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scrollParent = getScrollParent(container);
+    const containerTop = container.getBoundingClientRect().top;
+    const next: Viewport = scrollParent
+      ? { top: scrollParent.getBoundingClientRect().top - containerTop, height: scrollParent.clientHeight }
+      : { top: -containerTop, height: window.innerHeight };
+
+    setViewport(prev => (prev.top === next.top && prev.height === next.height ? prev : next));
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scrollParent = getScrollParent(container);
+    const scrollTarget: HTMLElement | Window = scrollParent || window;
+    let frame = 0;
+
+    const handleScroll = () => {
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        updateViewport();
+      });
+    };
+
+    updateViewport();
+    scrollTarget.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+
+    const resizeObserver = typeof ResizeObserver !== 'undefined' && scrollParent
+      ? new ResizeObserver(handleScroll)
+      : null;
+    if (resizeObserver) resizeObserver.observe(scrollParent);
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      scrollTarget.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+      resizeObserver?.disconnect();
+    };
+  }, [updateViewport]);
+
+  // ==================== LAYOUT ====================
+
+  // offsets[i] = top of row i, offsets[items.length] = total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, index) => {
+      const height = heightsRef.current.get(getKey(item)) ?? estimatedItemHeight;
+      result[index + 1] = result[index] + height;
+    });
+    return result;
+    // measureVersion: re-run when measured heights change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items, getKey, estimatedItemHeight, measureVersion]);
+
+  const totalHeight = offsets[items.length];
+  const startIndex = items.length === 0
+    ? 0
+    : Math.max(0, findIndex(offsets, Math.max(0, viewport.top)) - overscan);
+  const endIndex = items.length === 0
+    ? 0
+    : Math.min(items.length, findIndex(offsets, Math.max(0, viewport.top + viewport.height)) + 1 + overscan);
+
+  const visibleItems = items.slice(startIndex, endIndex);
+
+  // Measure mounted rows; re-layout if any height differs from what we assumed
+  const measureRows = useCallback(() => {
+    const rows = rowsRef.current?.children;
+    if (!rows) return;
+
+    let changed = false;
+    Array.from(rows).forEach((row) => {
+      const key = (row as HTMLElement).dataset.virtualKey;
+      if (!key) return;
+      const height = (row as HTMLElement).offsetHeight;
+      if (heightsRef.current.get(key) !== height) {
+        heightsRef.current.set(key, height);
+        changed = true;
+      }
+    });
+
+    if (changed) setMeasureVersion(v => v + 1);
+  }, []);
+
+  useLayoutEffect(() => {
+    measureRows();
+  });
+
+  // Rows can change height without re-rendering the list (images, hover states, compact mode)
+  useEffect(() => {
+    const rows = rowsRef.current;
+    if (!rows || typeof ResizeObserver === 'undefined') return;
+
+    const resizeObserver = new ResizeObserver(() => measureRows());
+    resizeObserver.observe(rows);
+    return () => resizeObserver.disconnect();
+  }, [measureRows]);
+
+  // ==================== INFINITE SCROLL ====================
+
+  useEffect(() => {
+    if (!hasMore || loadingMore || !onEndReached) return;
+    if (totalHeight - (viewport.top + viewport.height) < endReachedThreshold) {
+      onEndReached();
+    }
+  }, [hasMore, loadingMore, onEndReached, totalHeight, viewport, endReachedThreshold]);
+
+  return (
+    <div ref={containerRef}>
+      <div
+        style={{
+          paddingTop: offsets[startIndex],
+          paddingBottom: totalHeight - offsets[endIndex],
+        }}
+      >
+        <div ref={rowsRef}>
+          {visibleItems.map((item, i) => {
+            const key = getKey(item);
+            return (
+              <div key={key} data-virtual-key={key}>
+                {renderItem(item, startIndex + i)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {loadingMore && (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-5 h-5 text-zinc-400 animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+}
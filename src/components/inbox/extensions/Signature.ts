@@ -0,0 +1,61 @@
+// extensions/Signature.ts - The signature block inside the compose editor
+// One top-level <div data-signature="id"> node, so the toolbar switcher can find and swap it
+// and reply/forward sends can move it below the quoted message (utils/signatures.ts)
+
+import { Node, mergeAttributes, type Editor } from '@tiptap/react';
+import type { EmailSignature } from '@/services/signatureApi';
+import { signatureHtml } from '@/utils/signatures';
+
+export const Signature = Node.create({
+  name: 'signature',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-signature'),
+        renderHTML: (attributes) => ({ 'data-signature': attributes.id ?? '' }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-signature]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes), 0];
+  },
+});
+
+/**
+ * Locate the signature in the document
+ * @returns Its range and signature ID, or null when the message has none
+ */
+export function findSignature(editor: Editor): { from: number; to: number; id: string | null } | null {
+  let found: { from: number; to: number; id: string | null } | null = null;
+  editor.state.doc.forEach((node, offset) => {
+    if (!found && node.type.name === 'signature') {
+      found = { from: offset, to: offset + node.nodeSize, id: node.attrs.id };
+    }
+  });
+  return found;
+}
+
+/**
+ * Swap the signature for another one (null removes it). Without one yet, it goes at the end.
+ */
+export function setSignature(editor: Editor, signature: EmailSignature | null): void {
+  const current = findSignature(editor);
+
+  if (!signature) {
+    if (current) editor.chain().deleteRange(current).run();
+    return;
+  }
+
+  const range = current ?? { from: editor.state.doc.content.size, to: editor.state.doc.content.size };
+  editor.chain().insertContentAt(range, signatureHtml(signature), { updateSelection: false }).run();
+}
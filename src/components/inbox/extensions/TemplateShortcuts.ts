@@ -0,0 +1,67 @@
+// extensions/TemplateShortcuts.ts - ";shortcut" text expansion for templates
+// Typing ";thanks" followed by a space (or Tab) swaps it for that template, variables filled.
+// Backspace right after undoes the expansion. Unknown shortcuts are left alone.
+
+import { Extension, InputRule } from '@tiptap/react';
+
+export interface TemplateShortcutsOptions {
+  // Filled template HTML for a shortcut (without ';'), or null when there is none
+  expand: (shortcut: string) => string | null;
+}
+
+// ";shortcut" at the start of a line or after whitespace, followed by the character just typed
+const TRIGGER = /(?:^|\s)(;[a-z0-9_-]+)(\s)$/i;
+
+// Same, for Tab - nothing typed yet
+const TRIGGER_AT_CURSOR = /(?:^|\s)(;[a-z0-9_-]+)$/i;
+
+export const TemplateShortcuts = Extension.create<TemplateShortcutsOptions>({
+  name: 'templateShortcuts',
+
+  addOptions() {
+    return {
+      expand: () => null,
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: TRIGGER,
+        handler: ({ range, match, chain }) => {
+          const [matched, trigger, typed] = match;
+          const html = this.options.expand(trigger.slice(1));
+          if (html === null) return null;
+
+          // range covers the leading whitespace too - keep it
+          const from = range.from + matched.length - trigger.length - typed.length;
+          chain()
+            .insertContentAt({ from, to: range.to }, html)
+            .insertContent(typed)
+            .run();
+        },
+      }),
+    ];
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      Tab: () => {
+        const { state } = this.editor;
+        const { $from, empty } = state.selection;
+        if (!empty) return false;
+
+        const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '￼');
+        const match = textBefore.match(TRIGGER_AT_CURSOR);
+        if (!match) return false;
+
+        const html = this.options.expand(match[1].slice(1));
+        if (html === null) return false;
+
+        return this.editor.chain()
+          .insertContentAt({ from: $from.pos - match[1].length, to: $from.pos }, html)
+          .run();
+      },
+    };
+  },
+});
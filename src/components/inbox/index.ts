@@ -23,7 +23,9 @@ export { AwaitingListItem } from './AwaitingListItem';
 export { ThreadDetail } from './ThreadDetail';
 export { MobileThreadDetail } from './MobileThreadDetail';
 export { ThreadList } from './ThreadList';
+export { VirtualList } from './VirtualList';
 export { MobileSelectionBar } from './MobileSelectionBar';
+export { ExportMenu } from './ExportMenu';
 export { SentThreadDetail } from './SentThreadDetail';
 export { MobileSentThreadDetail } from './MobileSentThreadDetail';
 export { ComposeModal } from './ComposeModal';
@@ -1,59 +1,18 @@
+// promiseTypes.ts - Thread/Commitment types + commitment display helpers
+// Types live in the canonical domain model (types/inbox.ts) and are re-exported here
+// Helper texts are translated (i18n) with plural-aware counts
+
 import { extractNameFromEmail } from '@/utils/formatters';
+import { t } from '@/i18n';
+import type { Thread, Commitment } from '@/types/inbox';
 
-export interface Commitment {
-  id: string;
-  who_owes: string;
-  owed_to: string;
-  what: string;
-  deadline: string | null;
-  deadline_text: string | null;
-  status: 'pending' | 'fulfilled' | 'cancelled';
-  confidence: number;
-  type: 'PROMISE' | 'AWAITING';
-  trigger: string;
-  detected_from_email: string;
-  created_at: string;
-}
+export type { Thread, Commitment };
 
 export { extractNameFromEmail };
 
-export interface Thread {
-  thread_id: string;
-  gmail_subject: string;
-  ai_context_summary: string;
-  ai_topic: string;
-  ui_summary_promise: string;
-  ui_summary_awaiting: string;
-  has_promise: boolean;
-  has_awaiting: boolean;
-  commitments: Commitment[];
-  email_ids: string[];
-  participants: string[];
-  status: 'active' | 'resolved';
-  last_email_date: string;
-  created_at: string;
-  updated_at: string;
-  
-  // v2.0: Added fields for proper display in ThreadListItem
-  last_email_sender: string;        // "Arul Dhanasekar" - proper name for display
-  last_email_sender_email: string;  // "arul@domain.com" - email address
-  last_email_snippet: string;       // "Send me the Q4 update..." - email preview
-  
-  // v2.1: Added is_read for unread indicator
-  is_read: boolean;                 // false = show orange dot
-  
-  // Optional fields
-  category?: string;
-  user_category?: string;          // v2.2: User override category
-  email_count?: number;
-  
-  // v2.2: Labels for thread
-  labels?: Array<{ id: string; name: string; color: string }>;
-}
-
 // Helper: Calculate deadline status text
 export function getDeadlineText(deadline: string | null): string {
-  if (!deadline) return 'No deadline';
+  if (!deadline) return t('commitment.noDeadline');
   
   const deadlineDate = new Date(deadline);
   const today = new Date();
@@ -64,17 +23,26 @@ export function getDeadlineText(deadline: string | null): string {
   const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
   
   if (diffDays < 0) {
-    const overdue = Math.abs(diffDays);
-    return overdue === 1 ? '1 day overdue' : `${overdue} days overdue`;
+    return t('commitment.overdue', { count: Math.abs(diffDays) });
   } else if (diffDays === 0) {
-    return 'Due today';
-  } else if (diffDays === 1) {
-    return '1 day left';
+    return t('commitment.dueToday');
   } else {
-    return `${diffDays} days left`;
+    return t('commitment.daysLeft', { count: diffDays });
   }
 }
 
+// Helper: Deadline already passed (calendar days) - used for overdue styling
+export function isDeadlineOverdue(deadline: string | null): boolean {
+  if (!deadline) return false;
+  
+  const deadlineDate = new Date(deadline);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  deadlineDate.setHours(0, 0, 0, 0);
+  
+  return deadlineDate.getTime() < today.getTime();
+}
+
 // Helper: Get primary PROMISE commitment from thread (first pending promise)
 export function getPrimaryPromise(thread: Thread): Commitment | null {
   if (!thread.commitments || thread.commitments.length === 0) return null;
@@ -115,21 +83,15 @@ export function getWaitingDurationText(commitment: Commitment | null, thread: Th
     const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
     
     if (diffDays === 0) {
-      return 'Since today';
-    } else if (diffDays === 1) {
-      return 'Waiting 1 day';
+      return t('commitment.sinceToday');
     } else if (diffDays < 7) {
-      return `Waiting ${diffDays} days`;
-    } else if (diffDays < 14) {
-      return 'Waiting 1 week';
+      return t('commitment.waitingDays', { count: diffDays });
     } else if (diffDays < 30) {
-      const weeks = Math.floor(diffDays / 7);
-      return `Waiting ${weeks} weeks`;
+      return t('commitment.waitingWeeks', { count: Math.floor(diffDays / 7) });
     } else {
-      const months = Math.floor(diffDays / 30);
-      return months === 1 ? 'Waiting 1 month' : `Waiting ${months} months`;
+      return t('commitment.waitingMonths', { count: Math.floor(diffDays / 30) });
     }
   }
   
-  return 'No deadline';
+  return t('commitment.noDeadline');
 }
\ No newline at end of file
@@ -5,6 +5,15 @@
 // v2.3: Added Attachment interface and attachments field for email attachments
 // v2.4: Added user_category fields for manual category override
 // v2.5: Added sender_photo_url for sender profile photos
+// v2.6: Attachment moved to the canonical domain model (types/inbox.ts)
+// v2.7: Category labels are translation keys (i18n) - use getCategoryLabel()
+// v2.8: Added authentication_results for phishing warnings
+// v2.9: Added cc/bcc/reply_to for the sender details panel
+
+import type { Attachment } from '@/types/inbox';
+import { t, MessageKey } from '@/i18n';
+
+export type { Attachment };
 
 // Category type
 export type Category = "urgent" | "important" | "promises" | "awaiting" | "others";
@@ -18,25 +27,21 @@ export interface CategoryCounts {
   others: number;
 }
 
-export const categories: { id: Category; label: string }[] = [
-  { id: "urgent", label: "Urgent" },
-  { id: "important", label: "Important" },
-  { id: "promises", label: "Promises" },
-  { id: "awaiting", label: "Awaiting" },
-  { id: "others", label: "Others" },
+export const categories: { id: Category; labelKey: MessageKey }[] = [
+  { id: "urgent", labelKey: "category.urgent" },
+  { id: "important", labelKey: "category.important" },
+  { id: "promises", labelKey: "category.promises" },
+  { id: "awaiting", labelKey: "category.awaiting" },
+  { id: "others", labelKey: "category.others" },
 ];
 
-// v2.3: Attachment interface for email attachments
-export interface Attachment {
-  id: string;
-  filename: string;
-  content_type: string;
-  size: number;
-  storage_path?: string;
-  url?: string;
+// Category name in the current language (accepts "urgent" or "URGENT")
+export function getCategoryLabel(category: string): string {
+  const match = categories.find(c => c.id === category?.toLowerCase());
+  return match ? t(match.labelKey) : category;
 }
 
-// Sample email type
+// Email list/detail view model - built from EmailMessage (types/inbox.ts) by the hooks
 export interface Email {
   id: string;
   sender: string;
@@ -52,6 +57,9 @@ export interface Email {
   timestamp?: number; // Optional: for sorting in thread view
   thread_id?: string; // Optional: Gmail thread ID for thread view
   to?: string[];      // v2.0: Recipients for participants panel
+  cc?: string[];      // v2.9: Cc/Bcc/Reply-To for EmailProfile
+  bcc?: string[];
+  reply_to?: string | null;
   message_id?: string; // v2.2: Gmail message ID for tracking lookup
   // v2.4: Category override fields
   user_category?: string;      // User override category (URGENT/IMPORTANT/OTHERS)
@@ -60,6 +68,7 @@ export interface Email {
   outpost_user_photo?: string | null;
   outpost_recipient_photo?: string | null;
   unsubscribe_url?: string | null;
+  authentication_results?: string | null; // Raw Authentication-Results header
 }
 
 // Tracking status for sent emails within inbox threads
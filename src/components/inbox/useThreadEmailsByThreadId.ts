@@ -2,12 +2,16 @@
 // v2.0: Real-time listener with onSnapshot
 // v2.1: Fixed hasAttachment mapping to use Firestore field, added attachments array
 // v2.2: Added to and message_id fields
+// v2.3: Docs mapped + validated by emailConverter (canonical EmailMessage)
+// v2.4: Dates formatted by utils/dateTime in the user's timezone
 
 import { useState, useEffect } from 'react';
 import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { emailConverter } from '@/services/firestoreConverters';
 import { Email } from '../inbox/types';
 import { extractNameFromEmail, extractEmailAddress } from '@/utils/formatters';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
 
 interface UseThreadEmailsByThreadIdReturn {
   emails: Email[];
@@ -15,71 +19,6 @@ interface UseThreadEmailsByThreadIdReturn {
   error: string | null;
 }
 
-// Firestore timestamp type
-interface FirestoreTimestamp {
-  seconds: number;
-  nanoseconds: number;
-  toDate: () => Date;
-}
-
-type DateValue = string | number | Date | FirestoreTimestamp | null | undefined;
-
-// Helper: Get raw timestamp for sorting
-function getTimestamp(internalDate: DateValue): number {
-  if (internalDate === null || internalDate === undefined) return 0;
-  
-  if (internalDate && typeof internalDate === 'object' && 'toDate' in internalDate && typeof internalDate.toDate === 'function') {
-    return internalDate.toDate().getTime();
-  } else if (internalDate && typeof internalDate === 'object' && 'seconds' in internalDate) {
-    return internalDate.seconds * 1000;
-  } else if (typeof internalDate === 'string') {
-    const parsed = parseInt(internalDate, 10);
-    if (!isNaN(parsed)) {
-      return parsed;
-    }
-    return new Date(internalDate).getTime() || 0;
-  } else if (typeof internalDate === 'number') {
-    return internalDate;
-  } else if (internalDate instanceof Date) {
-    return internalDate.getTime();
-  }
-  return 0;
-}
-
-// Helper: Format time for display
-function formatTime(internalDate: DateValue): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  return emailDate.toLocaleTimeString('en-US', { 
-    hour: 'numeric', 
-    minute: '2-digit',
-    hour12: true 
-  });
-}
-
-// Helper: Format full date
-function formatDate(internalDate: DateValue): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  return emailDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric'
-  });
-}
-
 export function useThreadEmailsByThreadId(
   userId: string | undefined,
   threadId: string | undefined
@@ -99,7 +38,7 @@ export function useThreadEmailsByThreadId(
     setError(null);
 
     try {
-      const emailsRef = collection(db, 'users', userId, 'emails');
+      const emailsRef = collection(db, 'users', userId, 'emails').withConverter(emailConverter);
       
       // Query emails by thread_id, ordered by date (oldest first for conversation flow)
       const q = query(
@@ -114,31 +53,34 @@ export function useThreadEmailsByThreadId(
           const threadEmails: Email[] = [];
           
           snapshot.forEach((doc) => {
-            const data = doc.data();
-            const internalDate = data.internal_date || data.internalDate || data.date || data.received_at || null;
+            const message = doc.data();
             
             threadEmails.push({
-              id: doc.id,
-              sender: extractNameFromEmail(data.from || ''),
-              senderEmail: extractEmailAddress(data.from || ''),
-              subject: data.subject || '(No Subject)',
-              preview: data.snippet || '',
-              body: data.body_html || data.body_plain || data.snippet || '',
-              time: formatTime(internalDate),
-              date: formatDate(internalDate),
-              isRead: data.is_read !== false,
+              id: message.id,
+              sender: extractNameFromEmail(message.from),
+              senderEmail: extractEmailAddress(message.from),
+              subject: message.subject,
+              preview: message.snippet,
+              body: message.body_html || message.body_plain || message.snippet,
+              time: formatListTime(message.internal_date),
+              date: formatFullDate(message.internal_date),
+              isRead: message.is_read,
               // v2.1 FIX: Read hasAttachment directly from Firestore, not from gmail_labels
-              hasAttachment: data.hasAttachment === true,
+              hasAttachment: message.has_attachment,
               // v2.1: Include attachments array from Firestore
-              attachments: data.attachments || [],
-              timestamp: getTimestamp(internalDate),
+              attachments: message.attachments,
+              timestamp: message.internal_date,
               // v2.2: Add to and message_id for participants and tracking
-              to: data.to || [],
-              message_id: data.message_id || null,
+              to: message.to,
+              cc: message.cc,
+              bcc: message.bcc,
+              reply_to: message.reply_to,
+              message_id: message.message_id,
               // v2.6: Outpost user photos
-              outpost_user_photo: data.outpost_user_photo || null,
-              outpost_recipient_photo: data.outpost_recipient_photo || null,
-              unsubscribe_url: data.unsubscribe_url || null,
+              outpost_user_photo: message.outpost_user_photo,
+              outpost_recipient_photo: message.outpost_recipient_photo,
+              unsubscribe_url: message.unsubscribe_url,
+              authentication_results: message.authentication_results,
             });
           });
 
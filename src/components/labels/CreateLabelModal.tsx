@@ -5,7 +5,8 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { X } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
-import { getLabels, createLabel, getContacts } from '@/services/emailApi';
+import { getLabels, createLabel } from '@/services/emailApi';
+import { useContacts } from '@/hooks/useContacts';
 
 interface CreateLabelModalProps {
   isOpen: boolean;
@@ -24,8 +25,8 @@ export function CreateLabelModal({ isOpen, onClose, onLabelCreated }: CreateLabe
   const [selectedEmails, setSelectedEmails] = useState<string[]>([]);
   const [emailQuery, setEmailQuery] = useState('');
   const [emailSuggestions, setEmailSuggestions] = useState<string[]>([]);
-  const [allEmails, setAllEmails] = useState<string[]>([]);
-  const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+  // All unique emails from inbox (cached locally, refreshed while open)
+  const { contacts: allEmails, loading: suggestionsLoading } = useContacts(isOpen);
   const [isCreating, setIsCreating] = useState(false);
   
   // Label name validation state
@@ -79,25 +80,6 @@ export function CreateLabelModal({ isOpen, onClose, onLabelCreated }: CreateLabe
     fetchLabels();
   }, [currentUser, isOpen]);
 
-  // Fetch all unique emails from inbox on mount
-  useEffect(() => {
-    const fetchEmails = async () => {
-      if (!currentUser || !isOpen) return;
-      
-      setSuggestionsLoading(true);
-      try {
-        const data = await getContacts();
-        setAllEmails(data.emails || []);
-      } catch (err) {
-        console.error('Error fetching contacts:', err);
-      } finally {
-        setSuggestionsLoading(false);
-      }
-    };
-
-    fetchEmails();
-  }, [currentUser, isOpen]);
-
   // Debounced label name validation
   useEffect(() => {
     // Clear previous timeout
@@ -5,7 +5,8 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { X } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
-import { getLabels, updateLabel, getContacts } from '@/services/emailApi';
+import { getLabels, updateLabel } from '@/services/emailApi';
+import { useContacts } from '@/hooks/useContacts';
 
 interface EditLabelModalProps {
   isOpen: boolean;
@@ -36,8 +37,8 @@ export function EditLabelModal({
   const [selectedEmails, setSelectedEmails] = useState<string[]>(initialAutoLabelEmails);
   const [emailQuery, setEmailQuery] = useState('');
   const [emailSuggestions, setEmailSuggestions] = useState<string[]>([]);
-  const [allEmails, setAllEmails] = useState<string[]>([]);
-  const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+  // All unique emails from inbox (cached locally, refreshed while open)
+  const { contacts: allEmails, loading: suggestionsLoading } = useContacts(isOpen);
   const [isSaving, setIsSaving] = useState(false);
   
   // Label name validation state
@@ -101,25 +102,6 @@ export function EditLabelModal({
     fetchLabels();
   }, [currentUser, isOpen, initialLabelName]);
 
-  // Fetch all unique emails from inbox on mount
-  useEffect(() => {
-    const fetchEmails = async () => {
-      if (!currentUser || !isOpen) return;
-      
-      setSuggestionsLoading(true);
-      try {
-        const data = await getContacts();
-        setAllEmails(data.emails || []);
-      } catch (err) {
-        console.error('Error fetching contacts:', err);
-      } finally {
-        setSuggestionsLoading(false);
-      }
-    };
-
-    fetchEmails();
-  }, [currentUser, isOpen]);
-
   // Debounced label name validation
   useEffect(() => {
     // Clear previous timeout
@@ -3,6 +3,8 @@
 // v1.0: Extracted from Inbox.tsx with added Labels section and profile at bottom
 // v1.1: Added avatarUrl support for profile picture
 // v1.2: Added Spam page to navigation
+// v1.3: Translated labels (i18n)
+// v1.4: Added Attachments page to navigation
 
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
@@ -14,12 +16,13 @@ import { DeleteLabelModal } from "@/components/labels/DeleteLabelModal";
 import { SenderRulesModal } from "@/components/rules/SenderRulesModal";
 import { deleteLabel } from "@/services/emailApi";
 import { UserProfile } from "@/types/user.types";
+import { useTranslation } from "@/hooks/useTranslation";
 
 // Outpost logo
 import OutpostLogoWhite from "@/assets/OutpostMail_white_no_background.png";
 import OutpostLogoDark from "@/assets/OutpostMail_dark_no_background.png";
 
-export type MobilePageType = 'inbox' | 'sent' | 'drafts' | 'done' | 'scheduled' | 'trash' | 'spam' | 'label';
+export type MobilePageType = 'inbox' | 'sent' | 'drafts' | 'done' | 'scheduled' | 'snoozed' | 'attachments' | 'trash' | 'spam' | 'label';
 
 interface Label {
   id: string;
@@ -47,6 +50,7 @@ export const MobileSidebar = ({
   currentUser
 }: MobileSidebarProps) => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
   const { labels, loading: labelsLoading, fetchLabels, refreshLabels, removeLabel } = useLabels();
   
   // Swipe gesture state
@@ -206,91 +210,115 @@ export const MobileSidebar = ({
           {/* Navigation Section */}
           <div className="p-4">
             <p className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-3 px-3">
-              Navigation
+              {t('nav.navigation')}
             </p>
             <div className="space-y-1">
               {/* Inbox */}
               <button 
                 onClick={() => handleNavigate('/inbox')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'inbox' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Inbox</span>
+                <span className="text-sm font-medium">{t('nav.inbox')}</span>
               </button>
 
               {/* Sent */}
               <button 
                 onClick={() => handleNavigate('/sent')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'sent' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Sent</span>
+                <span className="text-sm font-medium">{t('nav.sent')}</span>
               </button>
 
               {/* Drafts */}
               <button 
                 onClick={() => handleNavigate('/drafts')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'drafts' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Drafts</span>
+                <span className="text-sm font-medium">{t('nav.drafts')}</span>
               </button>
 
               {/* Done */}
               <button 
                 onClick={() => handleNavigate('/done')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'done' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Done</span>
+                <span className="text-sm font-medium">{t('nav.done')}</span>
               </button>
 
               {/* Scheduled */}
               <button 
                 onClick={() => handleNavigate('/scheduled')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'scheduled' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Scheduled</span>
+                <span className="text-sm font-medium">{t('nav.scheduled')}</span>
+              </button>
+
+              {/* Snoozed */}
+              <button 
+                onClick={() => handleNavigate('/snoozed')}
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
+                  activePage === 'snoozed' 
+                    ? 'text-white bg-zinc-800/50' 
+                    : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
+                }`}
+              >
+                <span className="text-sm font-medium">{t('nav.snoozed')}</span>
+              </button>
+
+              {/* Attachments */}
+              <button 
+                onClick={() => handleNavigate('/attachments')}
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
+                  activePage === 'attachments' 
+                    ? 'text-white bg-zinc-800/50' 
+                    : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
+                }`}
+              >
+                <span className="text-sm font-medium">{t('nav.attachments')}</span>
               </button>
 
               {/* Trash */}
               <button 
                 onClick={() => handleNavigate('/trash')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'trash' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Trash</span>
+                <span className="text-sm font-medium">{t('nav.trash')}</span>
               </button>
 
               {/* Spam */}
               <button 
                 onClick={() => handleNavigate('/spam')}
-                className={`px-3 py-2.5 rounded-lg w-full text-left transition-colors ${
+                className={`px-3 py-2.5 rounded-lg w-full text-start transition-colors ${
                   activePage === 'spam' 
                     ? 'text-white bg-zinc-800/50' 
                     : 'text-zinc-400 hover:text-white hover:bg-zinc-800/30'
                 }`}
               >
-                <span className="text-sm font-medium">Spam</span>
+                <span className="text-sm font-medium">{t('nav.spam')}</span>
               </button>
             </div>
           </div>
@@ -299,7 +327,7 @@ export const MobileSidebar = ({
           <div className="p-4">
             <div className="flex items-center justify-between mb-3 px-3">
               <p className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">
-                Labels
+                {t('nav.labels')}
               </p>
               <button
                 onClick={() => setIsCreateLabelOpen(true)}
@@ -313,14 +341,14 @@ export const MobileSidebar = ({
               {/* Labels Loading State */}
               {labelsLoading && labels.length === 0 && (
                 <div className="px-3 py-2 text-sm text-zinc-500">
-                  Loading...
+                  {t('nav.loading')}
                 </div>
               )}
               
               {/* No Labels State */}
               {!labelsLoading && labels.length === 0 && (
                 <div className="px-3 py-2 text-sm text-zinc-500">
-                  No labels
+                  {t('nav.noLabels')}
                 </div>
               )}
               
@@ -5,10 +5,13 @@
 // ✅ Added Sender Rules modal (accessible via Outpost logo)
 // v2.1: Added avatarUrl support for profile picture
 // v2.2: Added Spam page to navigation
+// v2.3: Added "N changes pending sync" indicator for the offline outbox
+// v2.4: Translated labels (i18n) + logical start/end positioning for RTL
+// v2.5: Added Attachments page to navigation
 
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { Plus, Trash2 } from "lucide-react";
+import { Plus, Trash2, CloudOff } from "lucide-react";
 import ProfileDropdown from "@/components/ProfileDropdown";
 import { useAuth } from "@/context/AuthContext";
 import { useLabels } from "@/context/LabelsContext";
@@ -16,12 +19,15 @@ import { CreateLabelModal } from "@/components/labels/CreateLabelModal";
 import { DeleteLabelModal } from "@/components/labels/DeleteLabelModal";
 import { SenderRulesModal } from "@/components/rules/SenderRulesModal";
 import { deleteLabel } from "@/services/emailApi";
+import { usePendingSync } from "@/hooks/usePendingSync";
+import { useTranslation } from "@/hooks/useTranslation";
+import type { MessageKey } from "@/i18n";
 
 // Outpost logo for sender rules button
 import OutpostLogoWhite from "@/assets/OutpostMail_white_no_background.png";
 import OutpostLogoDark from "@/assets/OutpostMail_dark_no_background.png";
 
-export type PageType = 'inbox' | 'sent' | 'drafts' | 'done' | 'scheduled' | 'trash' | 'spam' | 'label';
+export type PageType = 'inbox' | 'sent' | 'drafts' | 'done' | 'scheduled' | 'snoozed' | 'attachments' | 'trash' | 'spam' | 'label';
 
 interface Label {
   id: string;
@@ -41,23 +47,27 @@ interface SidebarProps {
 }
 
 // Menu items configuration
-const menuItems: { id: PageType; label: string; path: string }[] = [
-  { id: 'inbox', label: 'Inbox', path: '/inbox' },
-  { id: 'sent', label: 'Sent', path: '/sent' },
-  { id: 'drafts', label: 'Drafts', path: '/drafts' },
-  { id: 'done', label: 'Done', path: '/done' },
-  { id: 'scheduled', label: 'Scheduled', path: '/scheduled' },
-  { id: 'trash', label: 'Trash', path: '/trash' },
-  { id: 'spam', label: 'Spam', path: '/spam' },
+const menuItems: { id: PageType; labelKey: MessageKey; path: string }[] = [
+  { id: 'inbox', labelKey: 'nav.inbox', path: '/inbox' },
+  { id: 'sent', labelKey: 'nav.sent', path: '/sent' },
+  { id: 'drafts', labelKey: 'nav.drafts', path: '/drafts' },
+  { id: 'done', labelKey: 'nav.done', path: '/done' },
+  { id: 'scheduled', labelKey: 'nav.scheduled', path: '/scheduled' },
+  { id: 'snoozed', labelKey: 'nav.snoozed', path: '/snoozed' },
+  { id: 'attachments', labelKey: 'nav.attachments', path: '/attachments' },
+  { id: 'trash', labelKey: 'nav.trash', path: '/trash' },
+  { id: 'spam', labelKey: 'nav.spam', path: '/spam' },
 ];
 
 export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLetter, avatarUrl }: SidebarProps) => {
   const navigate = useNavigate();
   const { currentUser } = useAuth();
+  const { t } = useTranslation();
   
   // Get avatar URL from prop or from currentUser (Firebase Auth photoURL)
   const resolvedAvatarUrl = avatarUrl || currentUser?.photoURL || undefined;
   const { labels, loading: labelsLoading, fetchLabels, refreshLabels, removeLabel } = useLabels();
+  const { pendingCount, isOnline } = usePendingSync();
   
   const [isNavOpen, setIsNavOpen] = useState(false);
   const [isCreateLabelOpen, setIsCreateLabelOpen] = useState(false);
@@ -130,7 +140,7 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
   return (
     <>
       {/* Desktop: First Sidebar - Strip with Mail Icon */}
-      <div className="hidden lg:flex fixed top-0 bottom-0 left-0 w-12 bg-[#2d2d2d] rounded-r-2xl flex-col items-center pt-4 z-30">
+      <div className="hidden lg:flex fixed top-0 bottom-0 start-0 w-12 bg-[#2d2d2d] rounded-e-2xl flex-col items-center pt-4 z-30">
         
         {/* Mail Icon */}
         <button 
@@ -145,6 +155,23 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
         {/* Spacer to push profile to bottom */}
         <div className="flex-1" />
 
+        {/* Pending Sync Indicator - offline mutations waiting to replay */}
+        {pendingCount > 0 && (
+          <div className="relative group mb-3">
+            <div className="relative p-2 text-amber-400">
+              <CloudOff className="w-5 h-5" />
+              <span className="absolute -top-0.5 -end-0.5 min-w-[16px] h-4 px-1 rounded-full bg-amber-400 text-black text-[10px] font-semibold flex items-center justify-center">
+                {pendingCount}
+              </span>
+            </div>
+            {/* Tooltip */}
+            <div className="absolute start-full ms-2 top-1/2 -translate-y-1/2 px-2 py-1 bg-zinc-700 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+              {t('nav.pendingSync', { count: pendingCount })}
+              {!isOnline && ` ${t('nav.offline')}`}
+            </div>
+          </div>
+        )}
+
         {/* Outpost Logo - Sender Rules */}
         <div className="relative mb-3">
           <button 
@@ -154,19 +181,19 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
             {/* Default: white logo (visible on dark bg) */}
             <img 
               src={OutpostLogoWhite} 
-              alt="Sender Rules" 
+              alt={t('nav.senderRules')} 
               className="w-8 h-8 object-contain absolute group-hover:opacity-0 transition-opacity"
             />
             {/* Hover: dark logo (visible on white bg) */}
             <img 
               src={OutpostLogoDark} 
-              alt="Sender Rules" 
+              alt={t('nav.senderRules')} 
               className="w-8 h-8 object-contain absolute opacity-0 group-hover:opacity-100 transition-opacity"
             />
           </button>
           {/* Tooltip */}
-          <div className="absolute right-full mr-2 top-1/2 -translate-y-1/2 px-2 py-1 bg-zinc-700 text-white text-xs rounded whitespace-nowrap opacity-0 hover:opacity-0 pointer-events-none">
-            Set rules
+          <div className="absolute end-full me-2 top-1/2 -translate-y-1/2 px-2 py-1 bg-zinc-700 text-white text-xs rounded whitespace-nowrap opacity-0 hover:opacity-0 pointer-events-none">
+            {t('nav.setRules')}
           </div>
         </div>
 
@@ -185,7 +212,7 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
       {/* Desktop: Second Sidebar - Navigation Panel */}
       {isNavOpen && (
         <div 
-          className="hidden lg:block fixed top-4 bottom-20 left-14 w-[200px] bg-[#f7f7f7] rounded-2xl z-20 shadow-xl py-3 overflow-y-auto overflow-x-hidden"
+          className="hidden lg:block fixed top-4 bottom-20 start-14 w-[200px] bg-[#f7f7f7] rounded-2xl z-20 shadow-xl py-3 overflow-y-auto overflow-x-hidden"
           style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
           onMouseLeave={handleMouseLeave}
         >
@@ -206,7 +233,7 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
                     }
                   `}
                 >
-                  {item.label}
+                  {t(item.labelKey)}
                 </button>
               );
             })}
@@ -217,7 +244,7 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
             {/* Labels Section Header */}
             <div className="flex items-center justify-between px-4 py-2">
               <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
-                Labels
+                {t('nav.labels')}
               </span>
               <div className="relative group">
                 <button
@@ -231,7 +258,7 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
                 </button>
                 {/* Tooltip */}
                 <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-zinc-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-                  Create label
+                  {t('nav.createLabel')}
                 </div>
               </div>
             </div>
@@ -239,14 +266,14 @@ export const Sidebar = ({ activePage, activeLabel, userEmail, userName, avatarLe
             {/* Labels Loading State - only show if loading AND no labels cached */}
             {labelsLoading && labels.length === 0 && (
               <div className="px-4 py-2 text-sm text-gray-400">
-                Loading...
+                {t('nav.loading')}
               </div>
             )}
             
             {/* No Labels State */}
             {!labelsLoading && labels.length === 0 && (
               <div className="px-4 py-2 text-sm text-gray-400">
-                No labels
+                {t('nav.noLabels')}
               </div>
             )}
             
@@ -0,0 +1,164 @@
+// MailMergePanel.tsx - Recipient list for a mail merge, shown in place of To/Cc/Bcc in ComposeModal
+// ✅ CSV upload (header row names the fields, utils/mailMerge.ts)
+// ✅ Field chips insert {{field}} into the message
+// ✅ Recipients missing a field the message uses are listed before sending
+
+import { useRef, useState } from 'react';
+import { FileSpreadsheet, Upload, X, Eye, AlertTriangle } from 'lucide-react';
+import { parseMailMergeCsv, MAX_MERGE_RECIPIENTS, type MailMergeList, type MailMergeProblem } from '@/utils/mailMerge';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface MailMergePanelProps {
+  list: MailMergeList | null;
+  onListChange: (list: MailMergeList | null) => void;
+  problems: MailMergeProblem[];
+  onInsertField: (field: string) => void;
+  onPreview: () => void;
+}
+
+// Problems listed before "and N more"
+const MAX_LISTED_PROBLEMS = 5;
+
+export function MailMergePanel({ list, onListChange, problems, onInsertField, onPreview }: MailMergePanelProps) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const result = parseMailMergeCsv(await file.text(), file.name);
+      if ('error' in result) {
+        setError(result.error === 'empty' ? t('mailMerge.errorEmpty') : t('mailMerge.errorNoEmail'));
+        return;
+      }
+      if (result.list.rows.length === 0) {
+        setError(t('mailMerge.errorNoRecipients'));
+        return;
+      }
+      console.log(`📨 Mail merge list loaded: ${file.name} (${result.list.rows.length} recipients)`);
+      onListChange(result.list);
+    } catch (err) {
+      console.error('❌ Failed to read mail merge file:', err);
+      setError(t('mailMerge.errorRead'));
+    }
+  };
+
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept=".csv,.tsv,text/csv,text/tab-separated-values"
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        if (file) handleFile(file);
+        e.target.value = '';
+      }}
+    />
+  );
+
+  if (!list) {
+    return (
+      <div className="px-5 py-3 border-b border-zinc-700/30">
+        {fileInput}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zinc-300 bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            {t('mailMerge.upload')}
+          </button>
+          <p className="text-xs text-zinc-500">{t('mailMerge.uploadHint', { max: MAX_MERGE_RECIPIENTS })}</p>
+        </div>
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  const skipped = list.invalidLines.length;
+
+  return (
+    <div className="px-5 py-3 border-b border-zinc-700/30 space-y-2">
+      {fileInput}
+
+      {/* File summary */}
+      <div className="flex items-center gap-2 text-sm">
+        <FileSpreadsheet className="w-4 h-4 text-[#8FA8A3] flex-shrink-0" />
+        <span className="text-white truncate">{list.fileName}</span>
+        <span className="text-zinc-400 flex-shrink-0">
+          {t('mailMerge.recipients', { count: list.rows.length })}
+        </span>
+        <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+          <button
+            onClick={onPreview}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-zinc-300 hover:text-white hover:bg-zinc-700/50 rounded transition-colors"
+          >
+            <Eye className="w-3.5 h-3.5" />
+            {t('mailMerge.preview')}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 text-xs text-zinc-400 hover:text-white hover:bg-zinc-700/50 rounded transition-colors"
+          >
+            {t('mailMerge.replace')}
+          </button>
+          <button
+            onClick={() => onListChange(null)}
+            className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700/50 rounded transition-colors"
+            title={t('mailMerge.remove')}
+            aria-label={t('mailMerge.remove')}
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {(skipped > 0 || list.duplicates > 0 || list.truncated) && (
+        <p className="text-xs text-zinc-500">
+          {[
+            skipped > 0 && t('mailMerge.skippedInvalid', { count: skipped, lines: list.invalidLines.slice(0, 5).join(', ') }),
+            list.duplicates > 0 && t('mailMerge.skippedDuplicates', { count: list.duplicates }),
+            list.truncated && t('mailMerge.truncated', { max: MAX_MERGE_RECIPIENTS }),
+          ].filter(Boolean).join(' · ')}
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* Fields - click to insert */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs text-zinc-500">{t('mailMerge.fields')}</span>
+        {list.fields.map((field) => (
+          <button
+            key={field}
+            onClick={() => onInsertField(field)}
+            className="px-1.5 py-0.5 text-xs font-mono text-zinc-300 bg-zinc-700/60 hover:bg-zinc-600 rounded transition-colors"
+            title={t('mailMerge.insertField')}
+          >
+            {`{{${field}}}`}
+          </button>
+        ))}
+      </div>
+
+      {/* Missing values */}
+      {problems.length > 0 && (
+        <div className="flex items-start gap-2 p-2 rounded-lg bg-[#f7ac5c]/10 border border-[#f7ac5c]/30 text-xs">
+          <AlertTriangle className="w-3.5 h-3.5 text-[#f7ac5c] flex-shrink-0 mt-0.5" />
+          <div className="min-w-0 space-y-0.5">
+            <p className="text-[#f7ac5c]">{t('mailMerge.missingTitle', { count: problems.length })}</p>
+            {problems.slice(0, MAX_LISTED_PROBLEMS).map((problem) => (
+              <p key={problem.email} className="text-zinc-400 truncate">
+                {problem.email}: {problem.missing.map((field) => `{{${field}}}`).join(', ')}
+              </p>
+            ))}
+            {problems.length > MAX_LISTED_PROBLEMS && (
+              <p className="text-zinc-500">{t('mailMerge.missingMore', { count: problems.length - MAX_LISTED_PROBLEMS })}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
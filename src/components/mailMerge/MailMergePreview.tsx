@@ -0,0 +1,119 @@
+// MailMergePreview.tsx - The merged message as each recipient will get it
+// Steps through the list one recipient at a time; missing fields are flagged
+
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, X, AlertTriangle } from 'lucide-react';
+import { SafeEmailFrame } from '@/components/inbox/SafeEmailFrame';
+import { renderMerge, type MailMergeList, type MailMergeProblem } from '@/utils/mailMerge';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface MailMergePreviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  list: MailMergeList;
+  subject: string;
+  html: string;
+  problems: MailMergeProblem[];
+}
+
+export function MailMergePreview({ isOpen, onClose, list, subject, html, problems }: MailMergePreviewProps) {
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+
+  // Start from the first recipient each time; focus so compose shortcuts stay quiet
+  useEffect(() => {
+    if (isOpen) {
+      setIndex(0);
+      dialogRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  if (!isOpen || list.rows.length === 0) return null;
+
+  const current = Math.min(index, list.rows.length - 1);
+  const row = list.rows[current];
+  const missing = problems.find((problem) => problem.email === row.email)?.missing ?? [];
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') setIndex(Math.max(0, current - 1));
+    if (e.key === 'ArrowRight') setIndex(Math.min(list.rows.length - 1, current + 1));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4" data-modal>
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      <div
+        ref={dialogRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="mail-merge-preview-title"
+        className="relative bg-[#2d2d2d] rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col outline-none"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Header - recipient switcher */}
+        <div className="flex items-center gap-2 px-5 py-4 border-b border-zinc-700/50">
+          <h3 id="mail-merge-preview-title" className="text-base font-semibold text-white">
+            {t('mailMerge.previewTitle')}
+          </h3>
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={() => setIndex(current - 1)}
+              disabled={current === 0}
+              className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-700/50 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label={t('mailMerge.previous')}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-xs text-zinc-400 tabular-nums">
+              {t('mailMerge.position', { current: current + 1, total: list.rows.length })}
+            </span>
+            <button
+              onClick={() => setIndex(current + 1)}
+              disabled={current === list.rows.length - 1}
+              className="p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-700/50 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label={t('mailMerge.next')}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onClose}
+              className="ml-2 p-1.5 text-zinc-400 hover:text-white hover:bg-zinc-700/50 rounded-lg transition-colors"
+              aria-label={t('mailMerge.closePreview')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <dl className="px-5 py-3 space-y-1 text-sm border-b border-zinc-700/30">
+          <div className="flex gap-2">
+            <dt className="text-zinc-500 w-16 flex-shrink-0">{t('mailMerge.to')}</dt>
+            <dd className="text-white truncate">{row.email}</dd>
+          </div>
+          <div className="flex gap-2">
+            <dt className="text-zinc-500 w-16 flex-shrink-0">{t('mailMerge.subject')}</dt>
+            <dd className="text-white truncate">{renderMerge(subject, row)}</dd>
+          </div>
+        </dl>
+
+        {missing.length > 0 && (
+          <p className="flex items-center gap-2 px-5 py-2 text-xs text-[#f7ac5c] bg-[#f7ac5c]/10">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            {t('mailMerge.previewMissing', { fields: missing.map((field) => `{{${field}}}`).join(', ') })}
+          </p>
+        )}
+
+        {/* Body - light card, as it will look in most mail clients */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-4">
+          <div className="bg-white rounded-lg p-4">
+            <SafeEmailFrame key={row.email} html={renderMerge(html, row, { html: true })} bodyCss="padding: 0;" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// components/mailMerge/MailMergeProgress.tsx
+// Floating progress for mail merges sending in the background (services/mailMergeQueue.ts)
+// Renders at App level so it stays visible across navigation. Sits above the undo toast.
+
+import { Loader2, CheckCircle, XCircle, X } from 'lucide-react';
+import { useMailMergeJobs } from '@/hooks/useMailMergeJobs';
+import { cancelMailMerge, dismissMailMergeJob, type MailMergeJob } from '@/services/mailMergeQueue';
+import { useTranslation } from '@/hooks/useTranslation';
+
+function MailMergeJobRow({ job }: { job: MailMergeJob }) {
+  const { t } = useTranslation();
+  const done = job.sent + job.failed;
+  const percentage = job.total > 0 ? Math.round((done / job.total) * 100) : 100;
+
+  return (
+    <div className="bg-zinc-800 border border-zinc-700 rounded-lg shadow-xl overflow-hidden w-[320px]">
+      <div className="flex items-center gap-3 px-4 py-3">
+        <div className="flex-shrink-0">
+          {job.status === 'sending' && <Loader2 className="w-5 h-5 text-[#f7ac5c] animate-spin" />}
+          {job.status === 'done' && job.failed === 0 && <CheckCircle className="w-5 h-5 text-green-500" />}
+          {(job.status === 'cancelled' || (job.status === 'done' && job.failed > 0)) && (
+            <XCircle className="w-5 h-5 text-yellow-500" />
+          )}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white font-medium">
+            {job.status === 'sending'
+              ? t('mailMerge.progress.sending', { done, total: job.total })
+              : job.status === 'cancelled'
+                ? t('mailMerge.progress.cancelled', { count: job.sent })
+                : t('mailMerge.progress.done', { count: job.sent })}
+          </p>
+          <p className="text-xs text-zinc-400 truncate">
+            {job.failed > 0
+              ? t('mailMerge.progress.failed', { count: job.failed })
+              : job.subject}
+          </p>
+        </div>
+
+        {job.status === 'sending' ? (
+          <button
+            onClick={() => cancelMailMerge(job.id)}
+            className="px-3 py-1.5 text-sm font-medium text-[#f7ac5c] hover:bg-zinc-700 rounded transition-colors"
+          >
+            {t('mailMerge.progress.cancel')}
+          </button>
+        ) : (
+          <button
+            onClick={() => dismissMailMergeJob(job.id)}
+            className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+            aria-label={t('mailMerge.progress.dismiss')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {job.status === 'sending' && (
+        <div className="h-1 bg-zinc-700">
+          <div className="h-full bg-[#f7ac5c] transition-all" style={{ width: `${percentage}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MailMergeProgress() {
+  const jobs = useMailMergeJobs();
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-24 right-6 z-[100] flex flex-col gap-2">
+      {jobs.map((job) => (
+        <MailMergeJobRow key={job.id} job={job} />
+      ))}
+    </div>
+  );
+}
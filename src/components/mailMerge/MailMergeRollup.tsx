@@ -0,0 +1,122 @@
+// MailMergeRollup.tsx - Tracking across every message of a mail merge
+// Shown in TrackingPanel when the selected sent email went out as part of a merge.
+// Each recipient's message is tracked on its own; this adds them up.
+// New messages are looked up as they're sent; all of them again every TRACKING_REFRESH_MS.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Eye, Mail, XCircle, Clock, MinusCircle, Loader2 } from 'lucide-react';
+import { getTrackingByEmailId, type TrackingStats } from '@/services/trackingApi';
+import type { MailMerge, MailMergeRecipient } from '@/services/mailMergeApi';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface MailMergeRollupProps {
+  mailMerge: MailMerge;
+}
+
+// Tracking lookups in flight at once
+const FETCH_BATCH_SIZE = 5;
+
+// Opens and clicks keep coming in while the rollup is open
+const TRACKING_REFRESH_MS = 60 * 1000;
+
+function RecipientStatusIcon({ recipient, tracking }: { recipient: MailMergeRecipient; tracking?: TrackingStats | null }) {
+  if (recipient.status === 'failed') return <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />;
+  if (recipient.status === 'queued') return <Clock className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" />;
+  if (recipient.status === 'cancelled') return <MinusCircle className="w-3.5 h-3.5 text-zinc-600 flex-shrink-0" />;
+  if (tracking && tracking.recipient_open_count > 0) return <Eye className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />;
+  return <Mail className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" />;
+}
+
+export function MailMergeRollup({ mailMerge }: MailMergeRollupProps) {
+  const { t } = useTranslation();
+  const [tracking, setTracking] = useState<Record<string, TrackingStats | null>>({});
+  const [loading, setLoading] = useState(false);
+  const fetchedRef = useRef(new Set<string>());
+
+  // While the merge is still sending, only the newly sent messages are looked up
+  const emailIds = mailMerge.recipients
+    .map((recipient) => recipient.email_id)
+    .filter((id): id is string => !!id);
+  const emailIdsKey = emailIds.join(',');
+
+  const fetchTracking = useCallback(async (ids: string[], signal: AbortSignal) => {
+    for (let start = 0; start < ids.length; start += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(start, start + FETCH_BATCH_SIZE);
+      const results = await Promise.all(batch.map((id) => getTrackingByEmailId(id, false, signal)));
+      if (signal.aborted) return;
+      batch.forEach((id) => fetchedRef.current.add(id));
+      setTracking((prev) => {
+        const next = { ...prev };
+        // A failed refresh keeps the last counts
+        batch.forEach((id, i) => { next[id] = results[i] ?? prev[id] ?? null; });
+        return next;
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    const ids = (emailIdsKey ? emailIdsKey.split(',') : []).filter((id) => !fetchedRef.current.has(id));
+    if (ids.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    fetchTracking(ids, controller.signal).then(() => {
+      if (!controller.signal.aborted) setLoading(false);
+    });
+    return () => controller.abort();
+  }, [emailIdsKey, fetchTracking]);
+
+  // Refresh what was already looked up - without the spinner
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setInterval(() => {
+      fetchTracking([...fetchedRef.current], controller.signal);
+    }, TRACKING_REFRESH_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [fetchTracking]);
+
+  const total = mailMerge.recipients.length;
+  const sent = mailMerge.recipients.filter((recipient) => recipient.status === 'sent').length;
+  const failed = mailMerge.recipients.filter((recipient) => recipient.status === 'failed').length;
+  const tracked = emailIds.map((id) => tracking[id]).filter((stats): stats is TrackingStats => !!stats);
+  const opened = tracked.filter((stats) => stats.recipient_open_count > 0).length;
+  const clicks = tracked.reduce((sum, stats) => sum + (stats.click_count || 0), 0);
+  const openRate = sent > 0 ? Math.round((opened / sent) * 100) : 0;
+
+  return (
+    <div>
+      <p className="text-zinc-500 text-xs uppercase tracking-wider mb-2">{t('mailMerge.rollup.title')}</p>
+      <div className="space-y-1 text-xs">
+        <p className="text-zinc-300">{t('mailMerge.rollup.sent', { sent, total })}</p>
+        {failed > 0 && <p className="text-red-400">{t('mailMerge.rollup.failed', { count: failed })}</p>}
+        <p className="text-zinc-300">
+          {t('mailMerge.rollup.opened', { count: opened, rate: openRate })}
+          {loading && <Loader2 className="inline w-3 h-3 ml-1.5 animate-spin text-zinc-500" />}
+        </p>
+        <p className="text-zinc-400">{t('mailMerge.rollup.clicks', { count: clicks })}</p>
+      </div>
+
+      <ul className="mt-3 max-h-64 overflow-y-auto space-y-1">
+        {mailMerge.recipients.map((recipient) => (
+          <li
+            key={recipient.email}
+            className="flex items-center gap-1.5 text-xs text-zinc-400"
+            title={recipient.error || undefined}
+          >
+            <RecipientStatusIcon
+              recipient={recipient}
+              tracking={recipient.email_id ? tracking[recipient.email_id] : undefined}
+            />
+            <span className="truncate">{recipient.email}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
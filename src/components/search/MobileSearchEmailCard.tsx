@@ -1,8 +1,9 @@
 // MobileSearchEmailCard.tsx - Fullscreen email card for mobile search
 // Shows only the email when clicked, with back button to return to list
 
-import { useRef, useEffect, useState } from 'react';
 import { X, Reply, Forward, Paperclip, Download, ChevronLeft } from 'lucide-react';
+import { formatDateTime } from '@/utils/dateTime';
+import { SafeEmailFrame } from '@/components/inbox/SafeEmailFrame';
 
 export interface MobileSearchEmailData {
   id: string;
@@ -40,20 +41,7 @@ interface MobileSearchEmailCardProps {
 
 // Format date for header
 function formatDate(dateStr: string): string {
-  if (!dateStr) return '';
-  try {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric',
-      year: 'numeric'
-    }) + ', ' + date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit'
-    });
-  } catch {
-    return dateStr;
-  }
+  return formatDateTime(dateStr) || dateStr || '';
 }
 
 // Format file size
@@ -66,9 +54,6 @@ function formatFileSize(bytes?: number): string {
 }
 
 export function MobileSearchEmailCard({ email, onClose, onReply, onForward }: MobileSearchEmailCardProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(200);
-  
   const displayName = email.sender || email.sender_email || 'Unknown';
   const hasAttachments = email.has_attachment || (email.attachments && email.attachments.length > 0);
   
@@ -76,85 +61,6 @@ export function MobileSearchEmailCard({ email, onClose, onReply, onForward }: Mo
   const isHtml = email.body_html && /<[a-z][\s\S]*>/i.test(email.body_html);
   const bodyContent = email.body_html || email.body_text || email.snippet;
   
-  // HTML content for iframe
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1">
-        <style>
-          * { box-sizing: border-box; -ms-overflow-style: none; scrollbar-width: none; }
-          *::-webkit-scrollbar { display: none; }
-          html, body {
-            margin: 0;
-            padding: 0;
-            height: auto !important;
-            overflow-x: hidden;
-          }
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
-            font-size: 14px;
-            line-height: 1.6;
-            color: #1a1a1a;
-            background: transparent;
-            padding: 0;
-          }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-          pre { white-space: pre-wrap; word-wrap: break-word; }
-          table { max-width: 100%; }
-        </style>
-      </head>
-      <body>${bodyContent}</body>
-      <script>
-        function sendHeight() {
-          const height = document.body.scrollHeight;
-          window.parent.postMessage({ type: 'mobileSearchEmailHeight', height: height }, '*');
-        }
-        window.addEventListener('load', sendHeight);
-        setTimeout(sendHeight, 100);
-        setTimeout(sendHeight, 500);
-      </script>
-    </html>
-  `;
-
-  // Adjust iframe height based on content
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !isHtml) return;
-
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data?.type === 'mobileSearchEmailHeight' && event.data.height > 0) {
-        setIframeHeight(event.data.height + 10);
-      }
-    };
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const height = doc.body.scrollHeight;
-          if (height > 0) setIframeHeight(height + 10);
-        }
-      } catch {
-        // Cross-origin error
-      }
-    };
-
-    window.addEventListener('message', handleMessage);
-    iframe.addEventListener('load', updateHeight);
-    const t1 = setTimeout(updateHeight, 100);
-    const t2 = setTimeout(updateHeight, 500);
-
-    return () => {
-      window.removeEventListener('message', handleMessage);
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(t1);
-      clearTimeout(t2);
-    };
-  }, [bodyContent, isHtml]);
-
   return (
     <div className="fixed inset-0 z-50 bg-[#1a1a1a] flex flex-col">
       {/* Header */}
@@ -212,14 +118,7 @@ export function MobileSearchEmailCard({ email, onClose, onReply, onForward }: Mo
             {/* Card Body */}
             <div className="px-4 py-4">
               {isHtml ? (
-                <iframe
-                  ref={iframeRef}
-                  srcDoc={htmlContent}
-                  sandbox="allow-same-origin"
-                  className="w-full border-0"
-                  style={{ height: `${iframeHeight}px`, background: 'transparent' }}
-                  title="Email content"
-                />
+                <SafeEmailFrame html={bodyContent} senderEmail={email.sender_email} bodyCss="padding: 0;" />
               ) : (
                 <div className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
                   {email.body_text || email.snippet}
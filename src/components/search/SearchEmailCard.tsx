@@ -1,8 +1,9 @@
 // SearchEmailCard.tsx - Email card for search results detail view
-// Matches ThreadDetail EmailCard design exactly - uses iframe for HTML
+// Matches ThreadDetail EmailCard design exactly - HTML rendered by SafeEmailFrame
 
-import { useRef, useEffect, useState } from 'react';
 import { Reply, Forward, Paperclip, Download } from 'lucide-react';
+import { formatDateTime } from '@/utils/dateTime';
+import { SafeEmailFrame } from '@/components/inbox/SafeEmailFrame';
 
 export interface SearchEmailData {
   id: string;
@@ -39,20 +40,7 @@ interface SearchEmailCardProps {
 
 // Format date for card header
 function formatCardDate(dateStr: string): string {
-  if (!dateStr) return '';
-  try {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric',
-      year: 'numeric'
-    }) + ', ' + date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit'
-    });
-  } catch {
-    return dateStr;
-  }
+  return formatDateTime(dateStr) || dateStr || '';
 }
 
 // Format file size
@@ -65,9 +53,6 @@ function formatFileSize(bytes?: number): string {
 }
 
 export function SearchEmailCard({ email, onReply, onForward }: SearchEmailCardProps) {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
-  const [iframeHeight, setIframeHeight] = useState<number>(100);
-  
   const displayName = email.sender || email.sender_email || 'Unknown';
   const hasAttachments = email.has_attachment || (email.attachments && email.attachments.length > 0);
   
@@ -75,85 +60,6 @@ export function SearchEmailCard({ email, onReply, onForward }: SearchEmailCardPr
   const isHtml = email.body_html && /<[a-z][\s\S]*>/i.test(email.body_html);
   const bodyContent = email.body_html || email.body_text || email.snippet;
   
-  // HTML content for iframe (like ThreadDetail)
-  const htmlContent = `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1">
-        <style>
-          * { box-sizing: border-box; -ms-overflow-style: none; scrollbar-width: none; }
-          *::-webkit-scrollbar { display: none; }
-          html, body {
-            margin: 0;
-            padding: 0;
-            height: auto !important;
-            overflow-x: hidden;
-          }
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
-            font-size: 14px;
-            line-height: 1.6;
-            color: #1a1a1a;
-            background: transparent;
-            padding: 0;
-          }
-          img { max-width: 100%; height: auto; }
-          a { color: #2563eb; }
-          pre { white-space: pre-wrap; word-wrap: break-word; }
-          table { max-width: 100%; }
-        </style>
-      </head>
-      <body>${bodyContent}</body>
-      <script>
-        function sendHeight() {
-          const height = document.body.scrollHeight;
-          window.parent.postMessage({ type: 'searchEmailHeight', height: height }, '*');
-        }
-        window.addEventListener('load', sendHeight);
-        setTimeout(sendHeight, 100);
-        setTimeout(sendHeight, 500);
-      </script>
-    </html>
-  `;
-
-  // Adjust iframe height based on content
-  useEffect(() => {
-    const iframe = iframeRef.current;
-    if (!iframe || !isHtml) return;
-
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data?.type === 'searchEmailHeight' && event.data.height > 0) {
-        setIframeHeight(event.data.height + 10);
-      }
-    };
-
-    const updateHeight = () => {
-      try {
-        const doc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (doc && doc.body) {
-          const height = doc.body.scrollHeight;
-          if (height > 0) setIframeHeight(height + 10);
-        }
-      } catch {
-        // Cross-origin error
-      }
-    };
-
-    window.addEventListener('message', handleMessage);
-    iframe.addEventListener('load', updateHeight);
-    const t1 = setTimeout(updateHeight, 100);
-    const t2 = setTimeout(updateHeight, 500);
-
-    return () => {
-      window.removeEventListener('message', handleMessage);
-      iframe.removeEventListener('load', updateHeight);
-      clearTimeout(t1);
-      clearTimeout(t2);
-    };
-  }, [bodyContent, isHtml]);
-
   return (
     <div className="group bg-white rounded-lg shadow-sm">
       {/* Card Header - Sender + Reply/Forward (hover) + Date */}
@@ -205,14 +111,7 @@ export function SearchEmailCard({ email, onReply, onForward }: SearchEmailCardPr
       {/* Card Body - Email Content */}
       <div className="px-5 py-4">
         {isHtml ? (
-          <iframe
-            ref={iframeRef}
-            srcDoc={htmlContent}
-            sandbox="allow-same-origin"
-            className="w-full border-0 transition-[height] duration-200 ease-out"
-            style={{ height: `${iframeHeight}px`, background: 'transparent' }}
-            title="Email content"
-          />
+          <SafeEmailFrame html={bodyContent} senderEmail={email.sender_email} bodyCss="padding: 0;" />
         ) : (
           <div className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
             {email.body_text || email.snippet}
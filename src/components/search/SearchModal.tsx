@@ -13,9 +13,9 @@ import { MobileSearchEmailCard, MobileSearchEmailData } from './MobileSearchEmai
 import { ReplyModal, ForwardModal, Email } from '@/components/inbox';
 import { UndoEmailData } from '@/components/inbox/ComposeModal';
 import { EmailSendUndoToast } from '@/components/ui/EmailSendUndoToast';
+import { formatListTime, formatFullDate, formatTimeOfDay } from '@/utils/dateTime';
 import { AttachedFile } from '@/components/inbox/TiptapEditor';
-
-const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8000';
+import { getSearchableEmails, getSearchEmailDetail, type SearchEmailDetail } from '@/services/searchApi';
 
 interface SearchModalProps {
   isOpen: boolean;
@@ -24,21 +24,7 @@ interface SearchModalProps {
   userEmail?: string;
 }
 
-interface FullEmail extends SearchableEmail {
-  body_html?: string;
-  body_text?: string;
-  cc?: string[];
-  bcc?: string[];
-  message_id?: string;
-  attachments?: Array<{
-    id?: string;
-    filename: string;
-    mimeType?: string;
-    content_type?: string;
-    size?: number;
-    url?: string;
-  }>;
-}
+type FullEmail = SearchableEmail & Partial<SearchEmailDetail>;
 
 // Parse search query into operators and keywords
 function parseQuery(query: string) {
@@ -113,20 +99,7 @@ function matchesQuery(email: SearchableEmail, operators: { type: string; value:
 
 // Format date for list
 function formatDate(dateStr: string): string {
-  if (!dateStr) return '';
-  try {
-    const date = new Date(dateStr);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    
-    if (days === 0) return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-    if (days === 1) return 'Yesterday';
-    if (days < 7) return date.toLocaleDateString('en-US', { weekday: 'short' });
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  } catch {
-    return '';
-  }
+  return formatListTime(dateStr, { weekdays: true });
 }
 
 // Source icon
@@ -142,7 +115,6 @@ function SourceIcon({ source }: { source: string }) {
 
 // Convert FullEmail to Email format for Reply/Forward modals
 function convertToEmail(email: FullEmail): Email {
-  const date = new Date(email.date);
   return {
     id: email.id,
     sender: email.sender || 'Unknown',
@@ -150,8 +122,8 @@ function convertToEmail(email: FullEmail): Email {
     subject: email.subject,
     preview: email.snippet,
     body: email.body_html || email.body_text || email.snippet,
-    date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-    time: date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
+    date: formatFullDate(email.date),
+    time: formatTimeOfDay(email.date),
     isRead: email.is_read,
     hasAttachment: email.has_attachment,
     message_id: email.message_id,
@@ -219,15 +191,7 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
       hasFetchedRef.current = true;
       
       try {
-        const token = await currentUser.getIdToken();
-        const response = await fetch(`${API_URL}/api/search/emails?limit=300`, {
-          headers: { 'Authorization': `Bearer ${token}` },
-        });
-        
-        if (!response.ok) throw new Error('Failed to fetch');
-        
-        const data = await response.json();
-        setEmails(data.emails || []);
+        setEmails(await getSearchableEmails(300));
       } catch (err) {
         setError('Failed to load emails');
         hasFetchedRef.current = false;
@@ -284,24 +248,8 @@ export function SearchModal({ isOpen, onClose }: SearchModalProps) {
     setDetailLoading(true);
     
     try {
-      const token = await currentUser?.getIdToken();
-      const response = await fetch(
-        `${API_URL}/api/search/email/${email.source}/${email.id}`,
-        { headers: { 'Authorization': `Bearer ${token}` } }
-      );
-      
-      if (response.ok) {
-        const fullEmail = await response.json();
-        setSelectedEmail({
-          ...email,
-          body_html: fullEmail.body_html || fullEmail.bodyHtml,
-          body_text: fullEmail.body_text || fullEmail.bodyText || fullEmail.body_plain,
-          cc: fullEmail.cc || [],
-          bcc: fullEmail.bcc || [],
-          message_id: fullEmail.message_id,
-          attachments: fullEmail.attachments || [],
-        });
-      }
+      const fullEmail = await getSearchEmailDetail(email.source, email.id);
+      setSelectedEmail({ ...email, ...fullEmail });
     } catch (err) {
       console.error('Failed to fetch email details:', err);
     } finally {
@@ -0,0 +1,115 @@
+// SendCheckDialog.tsx - "Send anyway?" for whatever the send checks found (utils/sendChecks.ts)
+// Opened by Compose, Reply and Forward through hooks/useSendChecks.ts (and by a mail merge with blank fields)
+
+import { useEffect, useRef } from 'react';
+import { AlertTriangle, Paperclip, Globe, Users, UserPlus, Type, Braces } from 'lucide-react';
+import type { SendWarning } from '@/utils/sendChecks';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface SendCheckDialogProps {
+  warnings: SendWarning[] | null;
+  onResolve: (sendAnyway: boolean) => void;
+}
+
+const WARNING_ICONS: Record<SendWarning['check'], typeof Paperclip> = {
+  missingAttachment: Paperclip,
+  externalRecipients: Globe,
+  largeReplyAll: Users,
+  newRecipients: UserPlus,
+  emptySubject: Type,
+  mergeBlankFields: Braces,
+};
+
+// Addresses named in a warning before "+N"
+const MAX_LISTED_RECIPIENTS = 3;
+
+export function SendCheckDialog({ warnings, onResolve }: SendCheckDialogProps) {
+  const { t } = useTranslation();
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  // Focus "Go back" - an Enter meant for the editor shouldn't send
+  useEffect(() => {
+    if (warnings) cancelRef.current?.focus();
+  }, [warnings]);
+
+  if (!warnings) return null;
+
+  const listRecipients = (recipients: string[]) => {
+    const listed = recipients.slice(0, MAX_LISTED_RECIPIENTS).join(', ');
+    const more = recipients.length - MAX_LISTED_RECIPIENTS;
+    return more > 0 ? `${listed} +${more}` : listed;
+  };
+
+  const describe = (warning: SendWarning): string => {
+    switch (warning.check) {
+      case 'missingAttachment':
+        return t('sendChecks.warning.missingAttachment');
+      case 'externalRecipients':
+        return t('sendChecks.warning.externalRecipients', {
+          count: warning.recipients.length,
+          recipients: listRecipients(warning.recipients),
+          domain: warning.domain,
+        });
+      case 'largeReplyAll':
+        return t('sendChecks.warning.largeReplyAll', { count: warning.count });
+      case 'newRecipients':
+        return t('sendChecks.warning.newRecipients', {
+          count: warning.recipients.length,
+          recipients: listRecipients(warning.recipients),
+        });
+      case 'emptySubject':
+        return t('sendChecks.warning.emptySubject');
+      case 'mergeBlankFields':
+        return t('sendChecks.warning.mergeBlankFields', { count: warning.count });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4" data-modal>
+      <div className="absolute inset-0 bg-black/60" />
+
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="send-check-title"
+        className="relative bg-[#2d2d2d] rounded-2xl shadow-2xl w-full max-w-md p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3 mb-4">
+          <AlertTriangle className="w-5 h-5 text-[#f7ac5c] flex-shrink-0 mt-0.5" />
+          <h3 id="send-check-title" className="text-lg font-semibold text-white">
+            {t('sendChecks.dialog.title')}
+          </h3>
+        </div>
+
+        <ul className="space-y-3 mb-6">
+          {warnings.map((warning) => {
+            const Icon = WARNING_ICONS[warning.check];
+            return (
+              <li key={warning.check} className="flex items-start gap-3 text-sm text-zinc-300">
+                <Icon className="w-4 h-4 text-zinc-500 flex-shrink-0 mt-0.5" />
+                <span className="break-words min-w-0">{describe(warning)}</span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            ref={cancelRef}
+            onClick={() => onResolve(false)}
+            className="flex-1 py-2.5 rounded-xl font-medium text-white bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-colors"
+          >
+            {t('sendChecks.dialog.goBack')}
+          </button>
+          <button
+            onClick={() => onResolve(true)}
+            className="flex-1 py-2.5 rounded-xl font-medium text-white bg-[#f7ac5c] hover:bg-[#f5a043] transition-colors"
+          >
+            {t('sendChecks.dialog.sendAnyway')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+// components/sendChecks/SendCheckSettings.tsx
+// Settings → Send checks: which warnings show before a message goes out (utils/sendChecks.ts)
+
+import { useState } from 'react';
+import type { MessageKey } from '@/i18n';
+import {
+  SEND_CHECKS,
+  SendCheck,
+  setSendCheckEnabled,
+  setReplyAllLimit,
+} from '@/utils/sendChecks';
+import { useSendCheckSettings } from '@/hooks/useSendCheckSettings';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const CHECK_LABELS: Record<SendCheck, MessageKey> = {
+  missingAttachment: 'sendChecks.settings.missingAttachment',
+  externalRecipients: 'sendChecks.settings.externalRecipients',
+  largeReplyAll: 'sendChecks.settings.largeReplyAll',
+  newRecipients: 'sendChecks.settings.newRecipients',
+  emptySubject: 'sendChecks.settings.emptySubject',
+};
+
+export function SendCheckSettings() {
+  const { t } = useTranslation();
+  const { enabled, replyAllLimit } = useSendCheckSettings();
+  const [limitInput, setLimitInput] = useState(String(replyAllLimit));
+
+  const commitLimit = () => {
+    const limit = parseInt(limitInput, 10);
+    if (limit >= 1) {
+      setReplyAllLimit(limit);
+      setLimitInput(String(Math.floor(limit)));
+    } else {
+      setLimitInput(String(replyAllLimit));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-zinc-400">{t('sendChecks.settings.description')}</p>
+
+      <div className="space-y-2">
+        {SEND_CHECKS.map((check) => (
+          <label key={check} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={enabled[check]}
+              onChange={(e) => setSendCheckEnabled(check, e.target.checked)}
+              className="accent-[#8FA8A3]"
+            />
+            {t(CHECK_LABELS[check], { limit: replyAllLimit })}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-zinc-400">
+        <label htmlFor="reply-all-limit">{t('sendChecks.settings.replyAllLimit')}</label>
+        <input
+          id="reply-all-limit"
+          type="number"
+          min={1}
+          value={limitInput}
+          onChange={(e) => setLimitInput(e.target.value)}
+          onBlur={commitLimit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitLimit();
+          }}
+          disabled={!enabled.largeReplyAll}
+          className="w-20 bg-[#2e2d2d] border border-zinc-600 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:border-zinc-500 disabled:opacity-50"
+        />
+      </div>
+    </div>
+  );
+}
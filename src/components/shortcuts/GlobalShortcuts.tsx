@@ -0,0 +1,47 @@
+// components/shortcuts/GlobalShortcuts.tsx
+// App-wide shortcuts: compose, go-to sequences and the "?" cheat sheet (also in the Cmd+K palette)
+// Mounted once inside the router (App.tsx) - page shortcuts are registered by the pages
+
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/context/AuthContext';
+import { useCompose } from '@/context/ComposeContext';
+import { useShortcuts } from '@/context/ShortcutsContext';
+import { useCommands } from '@/context/CommandPaletteContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Keyboard } from 'lucide-react';
+import { ShortcutsHelpModal } from './ShortcutsHelpModal';
+
+export function GlobalShortcuts() {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { currentUser } = useAuth();
+  const { openCompose } = useCompose();
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+
+  const closeHelp = useCallback(() => setIsHelpOpen(false), []);
+
+  // Signed-out pages (landing, waitlist) have no mailbox to drive
+  useShortcuts('global', {
+    compose: () => openCompose(),
+    showShortcuts: () => setIsHelpOpen(prev => !prev),
+    goInbox: () => navigate('/inbox'),
+    goSent: () => navigate('/sent'),
+    goDrafts: () => navigate('/drafts'),
+  }, !!currentUser);
+
+  // The cheat sheet is in the command palette too
+  useCommands([{
+    id: 'app.shortcuts',
+    group: 'actions',
+    label: t('shortcuts.showShortcuts'),
+    keywords: ['keyboard', 'keys', 'help'],
+    icon: Keyboard,
+    shortcut: 'showShortcuts',
+    perform: () => setIsHelpOpen(true),
+  }], !!currentUser);
+
+  return <ShortcutsHelpModal isOpen={isHelpOpen} onClose={closeHelp} />;
+}
+
+export default GlobalShortcuts;
@@ -0,0 +1,37 @@
+// components/shortcuts/ShortcutHints.tsx
+// Items for the bottom "keyboard shortcuts bar" - reads the user's current bindings
+// so the hints stay right after rebinding in Settings
+
+import { ShortcutAction, getShortcutDefinition } from '@/utils/shortcuts';
+import { useShortcutBindings } from '@/hooks/useShortcutBindings';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ShortcutKeys } from './ShortcutKeys';
+
+interface ShortcutHintsProps {
+  actions: ShortcutAction[];
+}
+
+export function ShortcutHints({ actions }: ShortcutHintsProps) {
+  const { t } = useTranslation();
+  const bindings = useShortcutBindings();
+
+  return (
+    <>
+      {actions.map(action => {
+        const definition = getShortcutDefinition(action);
+        const keys = bindings[action];
+        // Disabled shortcuts get no hint
+        if (!definition || keys.length === 0) return null;
+
+        return (
+          <div key={action} className="flex items-center gap-1.5">
+            <ShortcutKeys binding={keys[0]} />
+            <span className="text-sm text-zinc-400">{t(definition.labelKey)}</span>
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+export default ShortcutHints;
@@ -0,0 +1,28 @@
+// components/shortcuts/ShortcutKeys.tsx
+// Renders a binding as <kbd> chips - "g i" → [G] then [I]
+
+import { formatBinding } from '@/utils/shortcuts';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ShortcutKeysProps {
+  binding: string;
+  className?: string;
+}
+
+export function ShortcutKeys({ binding, className = '' }: ShortcutKeysProps) {
+  const { t } = useTranslation();
+  const steps = formatBinding(binding);
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`}>
+      {steps.map((step, index) => (
+        <span key={index} className="inline-flex items-center gap-1">
+          {index > 0 && <span className="text-xs text-zinc-500">{t('shortcuts.then')}</span>}
+          <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{step}</kbd>
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export default ShortcutKeys;
@@ -0,0 +1,178 @@
+// components/shortcuts/ShortcutSettings.tsx
+// Settings → Keyboard shortcuts: every shortcut with its current keys
+// ✅ Click a shortcut, press the new keys (up to two in a row for sequences like "g i")
+// ✅ Conflicts with another shortcut are shown and not saved
+// ✅ Per-shortcut reset and "Reset all"
+
+import { useEffect, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import {
+  SHORTCUTS,
+  SHORTCUT_SCOPES,
+  ShortcutAction,
+  eventToChord,
+  findShortcutConflict,
+  getShortcutDefinition,
+  isShortcutCustomized,
+  resetAllShortcutBindings,
+  resetShortcutBinding,
+  setShortcutBinding,
+} from '@/utils/shortcuts';
+import { useShortcutBindings } from '@/hooks/useShortcutBindings';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ShortcutKeys } from './ShortcutKeys';
+
+// How long to wait for the second key of a sequence
+const SEQUENCE_WAIT_MS = 800;
+const MAX_SEQUENCE_LENGTH = 2;
+
+export function ShortcutSettings() {
+  const { t } = useTranslation();
+  const bindings = useShortcutBindings();
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const [conflict, setConflict] = useState<{ action: ShortcutAction; with: ShortcutAction } | null>(null);
+
+  const recordedRef = useRef<string[]>([]);
+
+  // Capture keys while recording - before the shortcut dispatcher sees them
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    recordedRef.current = [];
+    let finishTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = () => {
+      const binding = recordedRef.current.join(' ');
+      setRecordingAction(null);
+      if (!binding) return;
+
+      const conflictingAction = findShortcutConflict(recordingAction, binding);
+      if (conflictingAction) {
+        setConflict({ action: recordingAction, with: conflictingAction });
+        return;
+      }
+      setShortcutBinding(recordingAction, [binding]);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const chord = eventToChord(e);
+      if (!chord) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+
+      // Escape before anything else cancels
+      if (chord === 'escape' && recordedRef.current.length === 0) {
+        setRecordingAction(null);
+        return;
+      }
+
+      recordedRef.current = [...recordedRef.current, chord];
+      if (finishTimer) clearTimeout(finishTimer);
+
+      // Chords with modifiers are never the start of a sequence
+      if (recordedRef.current.length >= MAX_SEQUENCE_LENGTH || chord.includes('+')) {
+        finish();
+      } else {
+        finishTimer = setTimeout(finish, SEQUENCE_WAIT_MS);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      if (finishTimer) clearTimeout(finishTimer);
+    };
+  }, [recordingAction]);
+
+  const startRecording = (action: ShortcutAction) => {
+    setConflict(null);
+    setRecordingAction(prev => (prev === action ? null : action));
+  };
+
+  const handleReset = (action: ShortcutAction) => {
+    setConflict(null);
+    resetShortcutBinding(action);
+  };
+
+  const handleResetAll = () => {
+    setConflict(null);
+    setRecordingAction(null);
+    resetAllShortcutBindings();
+  };
+
+  const conflictLabel = conflict ? getShortcutDefinition(conflict.with)?.labelKey : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-zinc-400">{t('shortcuts.description')}</p>
+        <button
+          onClick={handleResetAll}
+          className="flex-shrink-0 px-3 py-1.5 text-sm text-zinc-300 bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors"
+        >
+          {t('shortcuts.resetAll')}
+        </button>
+      </div>
+
+      {SHORTCUT_SCOPES.map(scope => (
+        <div key={scope}>
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+            {t(`shortcuts.scope.${scope}`)}
+          </h3>
+          <div className="divide-y divide-zinc-700">
+            {SHORTCUTS.filter(shortcut => shortcut.scope === scope).map(shortcut => {
+              const keys = bindings[shortcut.action];
+              const isRecording = recordingAction === shortcut.action;
+              const hasConflict = conflict?.action === shortcut.action;
+
+              return (
+                <div key={shortcut.action} className="py-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm text-zinc-300">{t(shortcut.labelKey)}</span>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => startRecording(shortcut.action)}
+                        className={`flex items-center gap-2 px-2 py-1 rounded-lg border transition-colors ${
+                          isRecording
+                            ? 'border-[#8FA8A3] bg-zinc-700/50'
+                            : hasConflict
+                              ? 'border-red-500/60 hover:border-red-400'
+                              : 'border-transparent hover:border-zinc-600'
+                        }`}
+                      >
+                        {isRecording ? (
+                          <span className="text-xs text-[#8FA8A3]">{t('shortcuts.pressKeys')}</span>
+                        ) : keys.length > 0 ? (
+                          keys.map(binding => <ShortcutKeys key={binding} binding={binding} />)
+                        ) : (
+                          <span className="text-xs text-zinc-500">{t('shortcuts.notSet')}</span>
+                        )}
+                      </button>
+                      {isShortcutCustomized(shortcut.action) && (
+                        <button
+                          onClick={() => handleReset(shortcut.action)}
+                          title={t('shortcuts.reset')}
+                          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {hasConflict && conflictLabel && (
+                    <p className="mt-1 text-xs text-red-400 text-end">
+                      {t('shortcuts.conflict', { action: t(conflictLabel) })}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ShortcutSettings;
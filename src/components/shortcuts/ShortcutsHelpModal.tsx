@@ -0,0 +1,89 @@
+// components/shortcuts/ShortcutsHelpModal.tsx
+// "?" cheat sheet - every shortcut grouped by scope, showing the user's current keys
+
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { SHORTCUTS, SHORTCUT_SCOPES } from '@/utils/shortcuts';
+import { useShortcutBindings } from '@/hooks/useShortcutBindings';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ShortcutKeys } from './ShortcutKeys';
+
+interface ShortcutsHelpModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ShortcutsHelpModal({ isOpen, onClose }: ShortcutsHelpModalProps) {
+  const { t } = useTranslation();
+  const bindings = useShortcutBindings();
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center" data-modal>
+      {/* Overlay - click to close */}
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        role="dialog"
+        aria-label={t('shortcuts.title')}
+        className="relative bg-[#2d2d2d] rounded-2xl shadow-2xl w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-700">
+          <h3 className="text-lg font-semibold text-white">{t('shortcuts.title')}</h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-zinc-700 rounded-lg transition-colors text-zinc-400 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Shortcut groups */}
+        <div className="overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {SHORTCUT_SCOPES.map(scope => (
+            <div key={scope}>
+              <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-3">
+                {t(`shortcuts.scope.${scope}`)}
+              </h4>
+              <div className="space-y-2">
+                {SHORTCUTS.filter(shortcut => shortcut.scope === scope).map(shortcut => {
+                  const keys = bindings[shortcut.action];
+                  return (
+                    <div key={shortcut.action} className="flex items-center justify-between gap-4">
+                      <span className="text-sm text-zinc-300">{t(shortcut.labelKey)}</span>
+                      {keys.length > 0 ? (
+                        <ShortcutKeys binding={keys[0]} />
+                      ) : (
+                        <span className="text-xs text-zinc-500">{t('shortcuts.notSet')}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutsHelpModal;
@@ -0,0 +1,96 @@
+// SignatureMenu.tsx - Quick signature switcher opened from the editor toolbar
+// Swaps the signature block in place (components/inbox/extensions/Signature.ts)
+
+import { useEffect, useRef } from 'react';
+import type { Editor } from '@tiptap/react';
+import { Check } from 'lucide-react';
+import { useSignatures } from '@/context/SignaturesContext';
+import { findSignature, setSignature } from '@/components/inbox/extensions/Signature';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface SignatureMenuProps {
+  isOpen: boolean;
+  onClose: () => void;
+  editor: Editor;
+}
+
+export function SignatureMenu({ isOpen, onClose, editor }: SignatureMenuProps) {
+  const { t } = useTranslation();
+  const { signatures } = useSignatures();
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    // Delay to prevent immediate close
+    const timer = setTimeout(() => {
+      document.addEventListener('mousedown', handleClickOutside);
+    }, 100);
+
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const currentId = findSignature(editor)?.id ?? null;
+
+  const choose = (signatureId: string | null) => {
+    setSignature(editor, signatures.find((signature) => signature.id === signatureId) ?? null);
+    onClose();
+  };
+
+  const itemClass = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-zinc-200 hover:bg-zinc-600/50 transition-colors';
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-[60] w-56 py-1 bg-[#3d3d3d] rounded-lg shadow-xl border border-zinc-600/50"
+    >
+      <p className="px-3 py-1.5 text-xs text-zinc-400 font-medium">{t('signatures.menu.title')}</p>
+
+      {signatures.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-zinc-500">{t('signatures.menu.empty')}</p>
+      ) : (
+        signatures.map((signature) => (
+          <button key={signature.id} role="menuitem" onClick={() => choose(signature.id)} className={itemClass}>
+            <span className="flex-1 truncate">{signature.name || t('signatures.untitled')}</span>
+            {signature.id === currentId && <Check className="w-4 h-4 text-[#f7ac5c]" />}
+          </button>
+        ))
+      )}
+
+      <div className="my-1 border-t border-zinc-600/50" />
+      <button role="menuitem" onClick={() => choose(null)} className={itemClass}>
+        <span className="flex-1">{t('signatures.menu.none')}</span>
+        {currentId === null && <Check className="w-4 h-4 text-[#f7ac5c]" />}
+      </button>
+    </div>
+  );
+}
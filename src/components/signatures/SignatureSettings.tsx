@@ -0,0 +1,242 @@
+// components/signatures/SignatureSettings.tsx
+// Settings → Signatures: named signatures (rich text), default per sending address
+// for new mail and for replies, and where the signature goes in replies/forwards
+
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { useSignatures } from '@/context/SignaturesContext';
+import { TiptapEditor } from '@/components/inbox/TiptapEditor';
+import type { SignatureKind, SignaturePlacement } from '@/services/signatureApi';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { MessageKey } from '@/i18n';
+
+interface SignatureDraft {
+  id?: string;
+  name: string;
+  html: string;
+}
+
+const KINDS: { kind: SignatureKind; labelKey: MessageKey }[] = [
+  { kind: 'new', labelKey: 'signatures.defaultNew' },
+  { kind: 'reply', labelKey: 'signatures.defaultReply' },
+];
+
+const PLACEMENTS: { placement: SignaturePlacement; labelKey: MessageKey }[] = [
+  { placement: 'above', labelKey: 'signatures.placementAbove' },
+  { placement: 'below', labelKey: 'signatures.placementBelow' },
+];
+
+export function SignatureSettings() {
+  const { t } = useTranslation();
+  const { currentUser, userProfile } = useAuth();
+  const {
+    signatures,
+    settings,
+    loading,
+    saveSignature,
+    removeSignature,
+    setDefaultSignature,
+    setPlacement,
+  } = useSignatures();
+
+  const [editing, setEditing] = useState<SignatureDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the account address can send today - defaults are keyed by address
+  // so send-as aliases get their own row once they exist
+  const addresses = [userProfile?.email || currentUser?.email].filter(Boolean) as string[];
+
+  const handleSave = async () => {
+    if (!editing || !editing.name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveSignature({ ...editing, name: editing.name.trim() });
+      setEditing(null);
+    } catch (err) {
+      console.error('❌ Failed to save signature:', err);
+      setError(t('signatures.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(t('signatures.deleteConfirm', { name }))) return;
+    try {
+      await removeSignature(id);
+    } catch (err) {
+      console.error('❌ Failed to delete signature:', err);
+      setError(t('signatures.deleteFailed'));
+    }
+  };
+
+  const handleDefaultChange = (address: string, kind: SignatureKind, signatureId: string) => {
+    setDefaultSignature(address, kind, signatureId || null).catch((err) => {
+      console.error('❌ Failed to save default signature:', err);
+      setError(t('signatures.saveFailed'));
+    });
+  };
+
+  const handlePlacementChange = (placement: SignaturePlacement) => {
+    setPlacement(placement).catch((err) => {
+      console.error('❌ Failed to save signature placement:', err);
+      setError(t('signatures.saveFailed'));
+    });
+  };
+
+  if (loading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-zinc-500" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-zinc-400">{t('signatures.description')}</p>
+        {!editing && (
+          <button
+            onClick={() => setEditing({ name: '', html: '' })}
+            className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm text-zinc-300 bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {t('signatures.new')}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {/* Editor */}
+      {editing && (
+        <div className="space-y-3 p-4 rounded-lg border border-zinc-700 bg-[#2d2d2d]">
+          <input
+            type="text"
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder={t('signatures.namePlaceholder')}
+            className="w-full bg-[#2e2d2d] border border-zinc-600 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-zinc-500 placeholder:text-zinc-600"
+            autoFocus
+          />
+          <div className="rounded-lg border border-zinc-700 overflow-hidden">
+            <TiptapEditor
+              key={editing.id ?? 'new'}
+              initialContent={signatures.find((signature) => signature.id === editing.id)?.html ?? ''}
+              placeholder={t('signatures.bodyPlaceholder')}
+              onChange={(html) => setEditing((current) => current && { ...current, html })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-3 py-1.5 text-sm text-zinc-300 hover:text-white transition-colors"
+            >
+              {t('signatures.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !editing.name.trim()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-[#8FA8A3]/80 hover:bg-[#8FA8A3] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {t('signatures.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* List */}
+      <div>
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+          {t('signatures.yourSignatures')}
+        </h3>
+        {signatures.length === 0 ? (
+          <p className="text-sm text-zinc-500">{t('signatures.empty')}</p>
+        ) : (
+          <div className="divide-y divide-zinc-700">
+            {signatures.map((signature) => (
+              <div key={signature.id} className="flex items-center justify-between gap-4 py-2">
+                <span className="text-sm text-zinc-300 truncate">{signature.name || t('signatures.untitled')}</span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setEditing({ id: signature.id, name: signature.name, html: signature.html })}
+                    className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+                    title={t('signatures.edit')}
+                    aria-label={t('signatures.edit')}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(signature.id, signature.name)}
+                    className="p-1 text-zinc-500 hover:text-red-400 hover:bg-zinc-700 rounded transition-colors"
+                    title={t('signatures.delete')}
+                    aria-label={t('signatures.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Defaults per sending address */}
+      {signatures.length > 0 && addresses.length > 0 && (
+        <div>
+          <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+            {t('signatures.defaults')}
+          </h3>
+          <div className="divide-y divide-zinc-700">
+            {addresses.map((address) => (
+              <div key={address} className="py-2 space-y-2">
+                <p className="text-sm text-zinc-300 truncate">{address}</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {KINDS.map(({ kind, labelKey }) => (
+                    <label key={kind} className="block">
+                      <span className="block text-xs text-zinc-500 mb-1">{t(labelKey)}</span>
+                      <select
+                        value={settings.defaults[address.toLowerCase()]?.[kind] ?? ''}
+                        onChange={(e) => handleDefaultChange(address, kind, e.target.value)}
+                        className="w-full bg-[#2e2d2d] border border-zinc-600 rounded-lg px-3 py-2 text-sm text-zinc-300 outline-none hover:border-zinc-500"
+                      >
+                        <option value="">{t('signatures.none')}</option>
+                        {signatures.map((signature) => (
+                          <option key={signature.id} value={signature.id}>
+                            {signature.name || t('signatures.untitled')}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Placement in replies/forwards */}
+      <div>
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+          {t('signatures.placement')}
+        </h3>
+        <div className="space-y-2">
+          {PLACEMENTS.map(({ placement, labelKey }) => (
+            <label key={placement} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="radio"
+                name="signature-placement"
+                checked={settings.placement === placement}
+                onChange={() => handlePlacementChange(placement)}
+                className="accent-[#8FA8A3]"
+              />
+              {t(labelKey)}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
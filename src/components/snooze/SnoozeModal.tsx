@@ -0,0 +1,52 @@
+// components/snooze/SnoozeModal.tsx
+// Snooze picker - the Send Later quick options and date/time picker, plus
+// "Until they reply" when every thread is awaiting a reply
+
+import { SendLaterModal, ExtraOption } from '@/components/inbox/SendLaterModal';
+import { useSnoozes } from '@/context/SnoozeContext';
+import { useDateTimePreferences } from '@/hooks/useDateTimePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Thread } from '@/types/inbox';
+
+interface SnoozeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  threads: Thread[];
+  onSnoozed?: (threads: Thread[]) => void;
+}
+
+export function SnoozeModal({ isOpen, onClose, threads, onSnoozed }: SnoozeModalProps) {
+  const { t } = useTranslation();
+  const { timeZone } = useDateTimePreferences();
+  const { snooze } = useSnoozes();
+
+  const handleSnooze = async (until: Date | null, untilReply: boolean) => {
+    if (threads.length === 0) return;
+    try {
+      await snooze(threads, { until, untilReply });
+      onSnoozed?.(threads);
+    } catch (error) {
+      console.error('❌ Failed to snooze threads:', error);
+    }
+  };
+
+  const canWaitForReply = threads.length > 0 && threads.every(thread => thread.has_awaiting);
+  const extraOptions: ExtraOption[] = canWaitForReply
+    ? [{ label: t('snooze.untilReply'), onSelect: () => { handleSnooze(null, true); } }]
+    : [];
+
+  return (
+    <SendLaterModal
+      isOpen={isOpen}
+      onClose={onClose}
+      onSchedule={(date) => { handleSnooze(date, false); }}
+      userTimezone={timeZone}
+      title={t('snooze.title', { count: threads.length })}
+      confirmLabel={t('snooze.confirm')}
+      previewLabel={t('snooze.preview')}
+      extraOptions={extraOptions}
+    />
+  );
+}
+
+export default SnoozeModal;
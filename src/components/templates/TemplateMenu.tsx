@@ -0,0 +1,114 @@
+// TemplateMenu.tsx - Template picker opened from the editor toolbar
+// Inserts the template at the cursor with {{variables}} filled for the recipient (utils/templates.ts)
+
+import { useEffect, useRef, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import { useTemplates } from '@/context/TemplatesContext';
+import { fillTemplate, templateValuesFor } from '@/utils/templates';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface TemplateMenuProps {
+  isOpen: boolean;
+  onClose: () => void;
+  editor: Editor;
+  recipient: string | null;
+}
+
+export function TemplateMenu({ isOpen, onClose, editor, recipient }: TemplateMenuProps) {
+  const { t } = useTranslation();
+  const { templates } = useTemplates();
+  const [query, setQuery] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Fresh search each time it opens
+  useEffect(() => {
+    if (isOpen) setQuery('');
+  }, [isOpen]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+
+    // Delay to prevent immediate close
+    const timer = setTimeout(() => {
+      document.addEventListener('mousedown', handleClickOutside);
+    }, 100);
+
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const search = query.trim().toLowerCase().replace(/^;/, '');
+  const matches = templates.filter((template) =>
+    !search ||
+    template.name.toLowerCase().includes(search) ||
+    template.shortcut.toLowerCase().startsWith(search)
+  );
+
+  const insert = (html: string) => {
+    editor.chain().focus().insertContent(fillTemplate(html, templateValuesFor(recipient))).run();
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === 'Enter' && matches.length > 0) {
+      e.preventDefault();
+      insert(matches[0].html);
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-[60] w-72 bg-[#3d3d3d] rounded-lg shadow-xl border border-zinc-600/50"
+    >
+      <div className="p-2 border-b border-zinc-600/50">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('templates.menu.search')}
+          className="w-full bg-[#2d2d2d] text-white text-sm px-3 py-2 rounded-lg outline-none border border-zinc-600/50 focus:border-[#f7ac5c]/50 placeholder:text-zinc-600"
+          autoFocus
+        />
+      </div>
+
+      <div role="menu" className="max-h-64 overflow-y-auto py-1">
+        {templates.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-zinc-500">{t('templates.menu.empty')}</p>
+        ) : matches.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-zinc-500">{t('templates.menu.noMatches')}</p>
+        ) : (
+          matches.map((template) => (
+            <button
+              key={template.id}
+              role="menuitem"
+              onClick={() => insert(template.html)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-zinc-200 hover:bg-zinc-600/50 transition-colors"
+            >
+              <span className="flex-1 truncate">{template.name || t('templates.untitled')}</span>
+              {template.shortcut && (
+                <span className="text-xs text-zinc-500 font-mono">;{template.shortcut}</span>
+              )}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
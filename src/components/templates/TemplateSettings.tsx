@@ -0,0 +1,189 @@
+// components/templates/TemplateSettings.tsx
+// Settings → Templates: reusable messages with {{variables}} and an optional ;shortcut
+
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { useTemplates } from '@/context/TemplatesContext';
+import { TiptapEditor } from '@/components/inbox/TiptapEditor';
+import { TEMPLATE_VARIABLES, SHORTCUT_PATTERN } from '@/utils/templates';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  shortcut: string;
+  html: string;
+}
+
+export function TemplateSettings() {
+  const { t } = useTranslation();
+  const { templates, loading, saveTemplate, removeTemplate } = useTemplates();
+
+  const [editing, setEditing] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Shortcut problems are shown while typing
+  const shortcut = editing?.shortcut.trim().replace(/^;/, '') ?? '';
+  const shortcutError = !shortcut
+    ? null
+    : !SHORTCUT_PATTERN.test(shortcut)
+      ? t('templates.shortcutInvalid')
+      : templates.some((template) => template.id !== editing?.id && template.shortcut.toLowerCase() === shortcut.toLowerCase())
+        ? t('templates.shortcutTaken', { shortcut })
+        : null;
+
+  const canSave = !!editing?.name.trim() && !shortcutError && !isSaving;
+
+  const handleSave = async () => {
+    if (!editing || !canSave) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveTemplate({ id: editing.id, name: editing.name.trim(), shortcut, html: editing.html });
+      setEditing(null);
+    } catch (err) {
+      console.error('❌ Failed to save template:', err);
+      setError(t('templates.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(t('templates.deleteConfirm', { name }))) return;
+    try {
+      await removeTemplate(id);
+    } catch (err) {
+      console.error('❌ Failed to delete template:', err);
+      setError(t('templates.deleteFailed'));
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="w-5 h-5 animate-spin text-zinc-500" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-zinc-400">{t('templates.description')}</p>
+        {!editing && (
+          <button
+            onClick={() => setEditing({ name: '', shortcut: '', html: '' })}
+            className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm text-zinc-300 bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {t('templates.new')}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {/* Editor */}
+      {editing && (
+        <div className="space-y-3 p-4 rounded-lg border border-zinc-700 bg-[#2d2d2d]">
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_12rem] gap-3">
+            <input
+              type="text"
+              value={editing.name}
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+              placeholder={t('templates.namePlaceholder')}
+              className="w-full bg-[#2e2d2d] border border-zinc-600 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-zinc-500 placeholder:text-zinc-600"
+              autoFocus
+            />
+            <div className="flex items-center bg-[#2e2d2d] border border-zinc-600 rounded-lg px-3 focus-within:border-zinc-500">
+              <span className="text-sm text-zinc-500 font-mono">;</span>
+              <input
+                type="text"
+                value={editing.shortcut}
+                onChange={(e) => setEditing({ ...editing, shortcut: e.target.value })}
+                placeholder={t('templates.shortcutPlaceholder')}
+                aria-label={t('templates.shortcut')}
+                className="flex-1 min-w-0 bg-transparent py-2 text-sm text-white font-mono outline-none placeholder:text-zinc-600 placeholder:font-sans"
+              />
+            </div>
+          </div>
+          {shortcutError && <p className="text-xs text-red-400">{shortcutError}</p>}
+
+          <div className="rounded-lg border border-zinc-700 overflow-hidden">
+            <TiptapEditor
+              key={editing.id ?? 'new'}
+              initialContent={templates.find((template) => template.id === editing.id)?.html ?? ''}
+              placeholder={t('templates.bodyPlaceholder')}
+              onChange={(html) => setEditing((current) => current && { ...current, html })}
+            />
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            {t('templates.variablesHint')}{' '}
+            {TEMPLATE_VARIABLES.map((variable) => (
+              <code key={variable} className="mx-0.5 px-1.5 py-0.5 rounded bg-zinc-700/60 text-zinc-300">
+                {`{{${variable}}}`}
+              </code>
+            ))}
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(null)}
+              className="px-3 py-1.5 text-sm text-zinc-300 hover:text-white transition-colors"
+            >
+              {t('templates.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-white bg-[#8FA8A3]/80 hover:bg-[#8FA8A3] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {t('templates.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* List */}
+      <div>
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+          {t('templates.yourTemplates')}
+        </h3>
+        {templates.length === 0 ? (
+          <p className="text-sm text-zinc-500">{t('templates.empty')}</p>
+        ) : (
+          <div className="divide-y divide-zinc-700">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm text-zinc-300 truncate">{template.name || t('templates.untitled')}</span>
+                  {template.shortcut && (
+                    <span className="text-xs text-zinc-500 font-mono flex-shrink-0">;{template.shortcut}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setEditing({ id: template.id, name: template.name, shortcut: template.shortcut, html: template.html })}
+                    className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+                    title={t('templates.edit')}
+                    aria-label={t('templates.edit')}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template.id, template.name)}
+                    className="p-1 text-zinc-500 hover:text-red-400 hover:bg-zinc-700 rounded transition-colors"
+                    title={t('templates.delete')}
+                    aria-label={t('templates.delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
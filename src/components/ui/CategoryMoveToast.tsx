@@ -1,9 +1,11 @@
 // components/ui/CategoryMoveToast.tsx
 // Toast notification when emails are moved to Promises or Awaiting categories
 // v1.0: Initial implementation with slide-in animation from top
+// v1.1: Translated text (i18n)
 
 import { useEffect, useState } from 'react';
 import { X } from 'lucide-react';
+import { t } from '@/i18n';
 
 export interface CategoryMoveNotification {
   id: string;
@@ -52,7 +54,7 @@ const ToastItem = ({
     setTimeout(() => onDismiss(notification.id), 300);
   };
 
-  const label = notification.type === 'promise' ? 'Promises' : 'Awaiting';
+  const label = t(notification.type === 'promise' ? 'category.promises' : 'category.awaiting');
   const icon = notification.type === 'promise' ? '📋' : '⏳';
 
   return (
@@ -70,10 +72,10 @@ const ToastItem = ({
         {/* Content */}
         <div className="flex-1 min-w-0">
           <p className="text-sm text-white font-medium">
-            Email moved to {label}
+            {t('toast.emailMovedTo', { category: label })}
           </p>
           <p className="text-xs text-zinc-400 truncate mt-0.5">
-            {notification.subject || '(No Subject)'}
+            {notification.subject || t('toast.noSubject')}
           </p>
         </div>
         
@@ -5,6 +5,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { X, Mail, CheckCircle, XCircle, Loader2 } from 'lucide-react';
 import { cancelEmail } from '@/services/emailApi';
+import { t } from '@/i18n';
 
 interface EmailSendUndoToastProps {
   emailId: string;
@@ -80,7 +81,7 @@ export function EmailSendUndoToast({
       }, 2000);
     } catch (err) {
       console.error('Failed to cancel email:', err);
-      setError(err instanceof Error ? err.message : 'Failed to cancel');
+      setError(err instanceof Error ? err.message : t('toast.cancelFailed'));
       setState('error');
       
       // Auto close after showing error for 3 seconds
@@ -131,45 +132,45 @@ export function EmailSendUndoToast({
             {state === 'countdown' && (
               <>
                 <p className="text-sm text-white font-medium">
-                  Sending email...
+                  {t('toast.sending')}
                 </p>
                 <p className="text-xs text-zinc-400 truncate">
-                  To: {recipientDisplay}
+                  {t('toast.to', { recipients: recipientDisplay })}
                 </p>
               </>
             )}
             {state === 'cancelling' && (
               <p className="text-sm text-white">
-                Cancelling...
+                {t('toast.cancelling')}
               </p>
             )}
             {state === 'cancelled' && (
               <>
                 <p className="text-sm text-white font-medium">
-                  Email cancelled
+                  {t('toast.emailCancelled')}
                 </p>
                 <p className="text-xs text-zinc-400">
-                  Message was not sent
+                  {t('toast.notSent')}
                 </p>
               </>
             )}
             {state === 'sent' && (
               <>
                 <p className="text-sm text-white font-medium">
-                  Email sent
+                  {t('toast.emailSent')}
                 </p>
                 <p className="text-xs text-zinc-400 truncate">
-                  To: {recipientDisplay}
+                  {t('toast.to', { recipients: recipientDisplay })}
                 </p>
               </>
             )}
             {state === 'error' && (
               <>
                 <p className="text-sm text-white font-medium">
-                  Couldn't cancel
+                  {t('toast.couldNotCancel')}
                 </p>
                 <p className="text-xs text-red-400">
-                  {error || 'Email may have already been sent'}
+                  {error || t('toast.mayHaveBeenSent')}
                 </p>
               </>
             )}
@@ -183,7 +184,7 @@ export function EmailSendUndoToast({
                   onClick={handleUndo}
                   className="px-3 py-1.5 bg-[#f7ac5c] hover:bg-[#f5a043] text-black text-sm font-medium rounded transition-colors"
                 >
-                  Undo
+                  {t('toast.undo')}
                 </button>
                 <span className="text-xs text-zinc-500 w-5 text-right">
                   {timeLeft}s
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { X, Undo2 } from 'lucide-react';
+import { t } from '@/i18n';
 
 interface UndoToastProps {
   message: string;
@@ -66,7 +67,7 @@ export function UndoToast({ message, duration = 3000, onUndo, onClose }: UndoToa
                 className="flex items-center gap-1.5 px-3 py-1.5 bg-[#f7ac5c] hover:bg-[#f5a043] text-black text-sm font-medium rounded transition-colors"
               >
                 <Undo2 className="w-3.5 h-3.5" />
-                Undo
+                {t('toast.undo')}
               </button>
             )}
             <button
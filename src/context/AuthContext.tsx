@@ -5,6 +5,9 @@ import { onAuthStateChange, getUserProfile, getIdToken, signInWithCustomFirebase
 import { getCurrentUserFromBackend } from '../services/backend.service';
 import { UserProfile } from '../types/user.types';
 import { db } from '../firebase.config';
+import { hydrateLocalCache, readLocalCache, writeLocalCache } from '../services/localCache';
+import { setDateTimePreferences, getBrowserTimeZone } from '../utils/dateTime';
+import { isLanguageCode, setLanguage } from '../i18n';
 
 interface AuthContextType {
   currentUser: User | null;
@@ -42,9 +45,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const backendLoadingRef = useRef(false);
 
   // Capture and save user's timezone to Firestore (ONCE per session)
-  const captureAndSaveTimezone = async (uid: string) => {
+  // ✅ Only when the profile has none - never overwrites the one picked in Settings
+  const captureAndSaveTimezone = async (uid: string, savedTimezone?: string) => {
     if (!uid) return;
     
+    if (savedTimezone) {
+      console.log('⭕️ Timezone already set:', savedTimezone);
+      return;
+    }
+    
     // ✅ Guard: Only save once per session
     const sessionKey = `timezone_saved_${uid}`;
     if (sessionStorage.getItem(sessionKey)) {
@@ -109,6 +118,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       const backendData = await getCurrentUserFromBackend(idToken);
       setBackendUserData(backendData);
+      writeLocalCache(currentUser.uid, 'backend_user', backendData);
       console.log('✅ Backend user data refreshed:', {
         auth_method: backendData?.auth_method,
         composio_connection_id: backendData?.composio_connection_id ? 'present' : 'null',
@@ -130,8 +140,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       console.log('✅ User signed in:', user.uid);
       
       // Firebase auth state listener will pick this up
-      // Save timezone in background
-      captureAndSaveTimezone(user.uid);
+      // (and saves the timezone once the profile is loaded)
       
     } catch (error) {
       console.error('❌ Error handling OAuth success:', error);
@@ -191,13 +200,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return;
       }
       
-      // ✅ User exists - set loading false IMMEDIATELY
+      // ✅ Load the local cache first (capped at a few hundred ms) so pages
+      // can paint last-known data on their first render
+      await hydrateLocalCache(user.uid);
+      const cachedTimezone = readLocalCache<string>(user.uid, 'timezone');
+      if (cachedTimezone) {
+        setDateTimePreferences({ timeZone: cachedTimezone });
+      }
+      const cachedBackendData = readLocalCache(user.uid, 'backend_user');
+      if (cachedBackendData) {
+        // Replaced by the live backend response in EFFECT 3
+        setBackendUserData(prev => prev ?? cachedBackendData);
+      }
+
+      // ✅ User exists - set loading false
       setLoading(false);
       console.log('✅ User detected, loading complete');
       
       // Fetch profile in background (non-blocking)
+      let profile: UserProfile | null = null;
       try {
-        const profile = await getUserProfile(user.uid);
+        profile = await getUserProfile(user.uid);
         setUserProfile(profile);
         console.log('✅ User profile loaded');
       } catch (error) {
@@ -205,7 +228,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
 
       // Save timezone ONCE per session
-      captureAndSaveTimezone(user.uid);
+      captureAndSaveTimezone(user.uid, profile?.timezone);
     });
 
     return () => {
@@ -243,6 +266,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         const backendData = await getCurrentUserFromBackend(idToken);
         setBackendUserData(backendData);
+        writeLocalCache(currentUser.uid, 'backend_user', backendData);
         console.log('✅ Backend data loaded');
         
       } catch (error) {
@@ -255,6 +279,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loadBackendUser();
   }, [currentUser]);
 
+  // ==================== EFFECT 4: Date/Time + Language Preferences ====================
+  // ✅ Every formatted date follows the timezone picked in Settings
+  // ✅ The language saved on the profile follows the user across devices
+  useEffect(() => {
+    if (!userProfile) return;
+
+    const timeZone = userProfile.timezone || getBrowserTimeZone();
+    setDateTimePreferences({ timeZone });
+    writeLocalCache(userProfile.uid, 'timezone', timeZone);
+
+    if (isLanguageCode(userProfile.language)) {
+      setLanguage(userProfile.language);
+    }
+  }, [userProfile]);
+
   const value = {
     currentUser,
     userProfile,
@@ -0,0 +1,87 @@
+// context/CommandPaletteContext.tsx
+// Command palette (Cmd+K) state and command registry
+// ✅ Components add commands with useCommands(commands) while they're on screen
+// ✅ The palette reads the registry when it opens - nothing re-renders per keystroke
+//
+// The palette UI itself is components/commands/CommandPalette.tsx.
+
+import { createContext, useContext, useCallback, useEffect, useRef, useState, ReactNode, MutableRefObject } from 'react';
+import { PaletteCommand } from '@/utils/commandPalette';
+
+interface CommandPaletteContextType {
+  isOpen: boolean;
+  openPalette: () => void;
+  closePalette: () => void;
+  togglePalette: () => void;
+  getCommands: () => PaletteCommand[];
+  register: (commandsRef: MutableRefObject<PaletteCommand[]>) => () => void;
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextType | undefined>(undefined);
+
+export function CommandPaletteProvider({ children }: { children: ReactNode }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Oldest first - newer registrations (the open thread) are listed first
+  const registrationsRef = useRef<{ id: number; commandsRef: MutableRefObject<PaletteCommand[]> }[]>([]);
+  const nextIdRef = useRef(0);
+
+  const openPalette = useCallback(() => setIsOpen(true), []);
+  const closePalette = useCallback(() => setIsOpen(false), []);
+  const togglePalette = useCallback(() => setIsOpen(prev => !prev), []);
+
+  const register = useCallback((commandsRef: MutableRefObject<PaletteCommand[]>) => {
+    const id = nextIdRef.current++;
+    registrationsRef.current = [...registrationsRef.current, { id, commandsRef }];
+    return () => {
+      registrationsRef.current = registrationsRef.current.filter(r => r.id !== id);
+    };
+  }, []);
+
+  const getCommands = useCallback(() => {
+    const seen = new Set<string>();
+    const commands: PaletteCommand[] = [];
+    for (const registration of [...registrationsRef.current].reverse()) {
+      for (const command of registration.commandsRef.current) {
+        if (seen.has(command.id)) continue;
+        seen.add(command.id);
+        commands.push(command);
+      }
+    }
+    return commands;
+  }, []);
+
+  return (
+    <CommandPaletteContext.Provider value={{ isOpen, openPalette, closePalette, togglePalette, getCommands, register }}>
+      {children}
+    </CommandPaletteContext.Provider>
+  );
+}
+
+export function useCommandPalette() {
+  const context = useContext(CommandPaletteContext);
+  if (context === undefined) {
+    throw new Error('useCommandPalette must be used within a CommandPaletteProvider');
+  }
+  return context;
+}
+
+/**
+ * Offer commands in the palette while the component is mounted (and `enabled`).
+ * The list can change every render - the palette always sees the latest one.
+ *
+ * @example useCommands([{ id: 'thread.done', group: 'thread', label: 'Mark as done', perform }], !!selectedThread);
+ */
+export function useCommands(commands: PaletteCommand[], enabled: boolean = true) {
+  const { register } = useCommandPalette();
+
+  const commandsRef = useRef<PaletteCommand[]>(commands);
+  commandsRef.current = commands;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return register(commandsRef);
+  }, [enabled, register]);
+}
+
+export default CommandPaletteContext;
@@ -1,10 +1,12 @@
 // context/LabelsContext.tsx
 // Global context for labels - persists across page navigation
 // ✅ Updated to use emailApi.ts for automatic Direct Auth / Composio routing
+// ✅ Last-known labels shown instantly from the local cache, then refreshed
 
 import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import { useAuth } from '@/context/AuthContext';
 import { getLabels } from '@/services/emailApi';
+import { readLocalCache, writeLocalCache } from '@/services/localCache';
 
 interface Label {
   id: string;
@@ -83,14 +85,25 @@ export function LabelsProvider({ children }: { children: ReactNode }) {
     ));
   }, []);
 
-  // Reset state when user changes
+  // Reset state when user changes (seeded from the local cache until fetched)
   useEffect(() => {
     if (!currentUser) {
       setLabels([]);
       setHasFetched(false);
+      return;
+    }
+    const cached = readLocalCache<Label[]>(currentUser.uid, 'labels');
+    if (cached) {
+      setLabels(prev => (prev.length > 0 ? prev : cached));
     }
   }, [currentUser]);
 
+  // Persist fetched labels (including optimistic edits) for the next cold start
+  useEffect(() => {
+    if (!currentUser || !hasFetched) return;
+    writeLocalCache(currentUser.uid, 'labels', labels);
+  }, [currentUser, hasFetched, labels]);
+
   return (
     <LabelsContext.Provider value={{
       labels,
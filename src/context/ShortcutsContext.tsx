@@ -0,0 +1,197 @@
+// context/ShortcutsContext.tsx
+// Central keyboard shortcut dispatcher - one keydown listener for the whole app
+// ✅ Components register handlers per scope with useShortcuts(scope, handlers)
+// ✅ Newest registration wins, so an opened thread / checked selection / composer
+//    takes over keys from what is underneath it
+// ✅ While typing (or while a composer is open) only "editor" shortcuts fire
+// ✅ Sequences like "g i" wait briefly for the next key
+//
+// Key bindings themselves live in utils/shortcuts.ts (rebindable in Settings).
+
+import { createContext, useContext, useCallback, useEffect, useRef, ReactNode, MutableRefObject } from 'react';
+import {
+  ShortcutAction,
+  ShortcutScope,
+  eventToChord,
+  getShortcutBindings,
+  matchSequence,
+} from '@/utils/shortcuts';
+
+// Return false when the shortcut doesn't apply right now - the next scope gets a chance
+export type ShortcutHandler = (e: KeyboardEvent) => void | boolean;
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, ShortcutHandler>>;
+
+interface Registration {
+  id: number;
+  scope: ShortcutScope;
+  handlersRef: MutableRefObject<ShortcutHandlers>;
+}
+
+interface ShortcutsContextType {
+  register: (scope: ShortcutScope, handlersRef: MutableRefObject<ShortcutHandlers>) => () => void;
+}
+
+const ShortcutsContext = createContext<ShortcutsContextType | undefined>(undefined);
+
+// How long "g" waits for the rest of "g i"
+const SEQUENCE_TIMEOUT_MS = 1000;
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.closest('[contenteditable="true"]')) return true;
+  if (target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  if (target.tagName === 'INPUT') {
+    const type = (target as HTMLInputElement).type;
+    return !['checkbox', 'radio', 'button', 'submit'].includes(type);
+  }
+  return false;
+}
+
+function isInsideDialog(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && !!target.closest('[role="dialog"], [data-modal]');
+}
+
+export function ShortcutsProvider({ children }: { children: ReactNode }) {
+  // Oldest first - dispatch walks it backwards
+  const registrationsRef = useRef<Registration[]>([]);
+  const nextIdRef = useRef(0);
+
+  const register = useCallback((scope: ShortcutScope, handlersRef: MutableRefObject<ShortcutHandlers>) => {
+    const id = nextIdRef.current++;
+    registrationsRef.current = [...registrationsRef.current, { id, scope, handlersRef }];
+    return () => {
+      registrationsRef.current = registrationsRef.current.filter(r => r.id !== id);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Run the first handler whose binding matches `pressed`
+    const dispatch = (pressed: string[], candidates: Registration[], e: KeyboardEvent): 'handled' | 'partial' | 'none' => {
+      const bindings = getShortcutBindings();
+      let partial = false;
+
+      for (const registration of candidates) {
+        const handlers = registration.handlersRef.current;
+        for (const action of Object.keys(handlers) as ShortcutAction[]) {
+          const handler = handlers[action];
+          if (!handler) continue;
+
+          for (const binding of bindings[action] || []) {
+            const match = matchSequence(pressed, binding);
+            if (match === 'full' && handler(e) !== false) {
+              console.log(`⌨️ Shortcut: ${action} (${registration.scope})`);
+              return 'handled';
+            }
+            if (match === 'partial') partial = true;
+          }
+        }
+      }
+      return partial ? 'partial' : 'none';
+    };
+
+    // Editor shortcuts run in the capture phase so they beat Tiptap's own keymap
+    // (StarterKit maps Mod-Enter to a hard break); everything else waits for the
+    // bubble phase so focused inputs and menus can handle their keys first.
+    // Each phase keeps its own unfinished sequence.
+    const createListener = (isEditorPhase: boolean) => {
+      let pending: string[] = [];
+      let pendingTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const clearPending = () => {
+        pending = [];
+        if (pendingTimer) {
+          clearTimeout(pendingTimer);
+          pendingTimer = null;
+        }
+      };
+
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.defaultPrevented || e.isComposing) return;
+
+        const chord = eventToChord(e);
+        if (!chord) return;
+
+        // Composing (or typing anywhere) pauses everything except editor shortcuts
+        const registrations = registrationsRef.current;
+        let candidates: Registration[];
+        if (isEditorPhase) {
+          candidates = registrations.filter(r => r.scope === 'editor');
+        } else {
+          const isEditorOpen = registrations.some(r => r.scope === 'editor');
+          const blocked = isEditorOpen || isEditableTarget(e.target) || isInsideDialog(e.target);
+          candidates = blocked ? [] : registrations.filter(r => r.scope !== 'editor');
+        }
+        candidates = candidates.reverse();
+
+        if (candidates.length === 0) {
+          clearPending();
+          return;
+        }
+
+        let pressed = [...pending, chord];
+        let result = dispatch(pressed, candidates, e);
+
+        // A stale prefix ("g" then "j") - try the key on its own
+        if (result === 'none' && pressed.length > 1) {
+          pressed = [chord];
+          result = dispatch(pressed, candidates, e);
+        }
+
+        clearPending();
+        if (result === 'handled') {
+          e.preventDefault();
+          if (isEditorPhase) e.stopPropagation();
+        } else if (result === 'partial') {
+          e.preventDefault();
+          pending = pressed;
+          pendingTimer = setTimeout(clearPending, SEQUENCE_TIMEOUT_MS);
+        }
+      };
+
+      return { handleKeyDown, clearPending };
+    };
+
+    const editorListener = createListener(true);
+    const pageListener = createListener(false);
+
+    window.addEventListener('keydown', editorListener.handleKeyDown, true);
+    window.addEventListener('keydown', pageListener.handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', editorListener.handleKeyDown, true);
+      window.removeEventListener('keydown', pageListener.handleKeyDown);
+      editorListener.clearPending();
+      pageListener.clearPending();
+    };
+  }, []);
+
+  return (
+    <ShortcutsContext.Provider value={{ register }}>
+      {children}
+    </ShortcutsContext.Provider>
+  );
+}
+
+/**
+ * Register shortcut handlers while the component is mounted (and `enabled`).
+ * Handlers can change every render - only `scope`/`enabled` changes re-register.
+ *
+ * @example useShortcuts('detail', { reply: () => onReply(latestEmail) }, !!latestEmail);
+ */
+export function useShortcuts(scope: ShortcutScope, handlers: ShortcutHandlers, enabled: boolean = true) {
+  const context = useContext(ShortcutsContext);
+  if (context === undefined) {
+    throw new Error('useShortcuts must be used within a ShortcutsProvider');
+  }
+  const { register } = context;
+
+  const handlersRef = useRef<ShortcutHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return register(scope, handlersRef);
+  }, [scope, enabled, register]);
+}
+
+export default ShortcutsContext;
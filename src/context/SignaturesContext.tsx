@@ -0,0 +1,142 @@
+// context/SignaturesContext.tsx
+// Global signature state - the user's signatures and which one each sending address uses by default
+// ✅ Live list of users/{uid}/signatures + users/{uid}/preferences/signatures
+// ✅ getDefaultSignature() picks the signature for new mail or replies (used by TiptapEditor)
+// ✅ Settings → Signatures edits everything through here (components/signatures/SignatureSettings.tsx)
+
+import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createSignature,
+  updateSignature,
+  deleteSignature,
+  saveSignatureSettings,
+  subscribeToSignatures,
+  subscribeToSignatureSettings,
+  DEFAULT_SIGNATURE_SETTINGS,
+  type EmailSignature,
+  type SignatureKind,
+  type SignaturePlacement,
+  type SignatureSettings,
+} from '@/services/signatureApi';
+
+interface SignaturesContextType {
+  signatures: EmailSignature[];
+  settings: SignatureSettings;
+  loading: boolean;
+  getDefaultSignature: (kind: SignatureKind, fromAddress: string) => EmailSignature | null;
+  saveSignature: (signature: { id?: string; name: string; html: string }) => Promise<string>;
+  removeSignature: (id: string) => Promise<void>;
+  setDefaultSignature: (fromAddress: string, kind: SignatureKind, signatureId: string | null) => Promise<void>;
+  setPlacement: (placement: SignaturePlacement) => Promise<void>;
+}
+
+const SignaturesContext = createContext<SignaturesContextType | undefined>(undefined);
+
+export function SignaturesProvider({ children }: { children: ReactNode }) {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.uid;
+
+  const [signatures, setSignatures] = useState<EmailSignature[]>([]);
+  const [settings, setSettings] = useState<SignatureSettings>(DEFAULT_SIGNATURE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  // ==================== LIVE DATA ====================
+
+  useEffect(() => {
+    if (!userId) {
+      setSignatures([]);
+      setSettings(DEFAULT_SIGNATURE_SETTINGS);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribeSignatures = subscribeToSignatures(
+      userId,
+      (next) => {
+        setSignatures(next);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('❌ Signatures listener error:', error);
+        setLoading(false);
+      }
+    );
+    const unsubscribeSettings = subscribeToSignatureSettings(
+      userId,
+      setSettings,
+      (error) => console.error('❌ Signature settings listener error:', error)
+    );
+
+    return () => {
+      unsubscribeSignatures();
+      unsubscribeSettings();
+    };
+  }, [userId]);
+
+  // ==================== LOOKUP ====================
+
+  const getDefaultSignature = useCallback((kind: SignatureKind, fromAddress: string): EmailSignature | null => {
+    const signatureId = settings.defaults[fromAddress.toLowerCase()]?.[kind];
+    if (!signatureId) return null;
+    // A deleted signature may still be listed as the default
+    return signatures.find((signature) => signature.id === signatureId) ?? null;
+  }, [settings, signatures]);
+
+  // ==================== EDITING ====================
+
+  const saveSignature = useCallback(async ({ id, name, html }: { id?: string; name: string; html: string }) => {
+    if (id) {
+      await updateSignature(id, { name, html });
+      return id;
+    }
+    return createSignature(name, html);
+  }, []);
+
+  const removeSignature = useCallback(async (id: string) => {
+    await deleteSignature(id);
+  }, []);
+
+  const setDefaultSignature = useCallback(async (fromAddress: string, kind: SignatureKind, signatureId: string | null) => {
+    const address = fromAddress.toLowerCase();
+    const current = settings.defaults[address] ?? { new: null, reply: null };
+    const next: SignatureSettings = {
+      ...settings,
+      defaults: { ...settings.defaults, [address]: { ...current, [kind]: signatureId } },
+    };
+    setSettings(next); // Optimistic - the listener confirms it
+    await saveSignatureSettings(next);
+  }, [settings]);
+
+  const setPlacement = useCallback(async (placement: SignaturePlacement) => {
+    const next: SignatureSettings = { ...settings, placement };
+    setSettings(next);
+    await saveSignatureSettings(next);
+  }, [settings]);
+
+  return (
+    <SignaturesContext.Provider value={{
+      signatures,
+      settings,
+      loading,
+      getDefaultSignature,
+      saveSignature,
+      removeSignature,
+      setDefaultSignature,
+      setPlacement,
+    }}>
+      {children}
+    </SignaturesContext.Provider>
+  );
+}
+
+export function useSignatures() {
+  const context = useContext(SignaturesContext);
+  if (context === undefined) {
+    throw new Error('useSignatures must be used within a SignaturesProvider');
+  }
+  return context;
+}
+
+export default SignaturesContext;
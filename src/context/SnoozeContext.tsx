@@ -0,0 +1,263 @@
+// context/SnoozeContext.tsx
+// Global snooze state - which threads are asleep, and waking them up
+// ✅ Live list of users/{uid}/snoozes (shared listener via subscriptionRegistry)
+// ✅ Timer wakes threads when snoozed_until passes (checked again when the tab comes back)
+// ✅ "Until they reply" snoozes watch their thread and wake on someone else's email
+// ✅ applySnoozes() hides sleeping threads and pins returned ones to the top of their category
+// ✅ Returned threads are watched live - done/deleted before they were opened drops the snooze
+//
+// Snoozes only wake while the app is open; anything due while it was closed wakes on the next load.
+
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { collection, query, where, documentId } from 'firebase/firestore';
+import { db } from '@/firebase.config';
+import { useAuth } from '@/context/AuthContext';
+import { snoozeConverter, threadConverter } from '@/services/firestoreConverters';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
+import { snoozeThreads, returnSnoozedThreads, deleteSnooze, SnoozeOptions } from '@/services/snoozeApi';
+import { toMillis } from '@/utils/dateTime';
+import type { Thread, ThreadSnooze } from '@/types/inbox';
+
+// Returned threads stay pinned until opened, or at most this long
+const RETURNED_PIN_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Firestore 'in' queries take at most this many values
+const IN_QUERY_LIMIT = 30;
+
+// setTimeout overflows past ~24.8 days - longer snoozes re-arm on the next check
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface SnoozeContextType {
+  snoozes: ThreadSnooze[];
+  loading: boolean;
+  isSnoozed: (threadId: string) => boolean;
+  applySnoozes: <T extends Thread>(threads: T[], category?: string) => T[];
+  snooze: (threads: Thread[], options: SnoozeOptions) => Promise<void>;
+  unsnooze: (threadId: string) => Promise<void>;
+  acknowledgeReturned: (threadId: string) => void;
+}
+
+const SnoozeContext = createContext<SnoozeContextType | undefined>(undefined);
+
+export function SnoozeProvider({ children }: { children: ReactNode }) {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.uid;
+  const userEmail = currentUser?.email?.toLowerCase() || '';
+
+  const [snoozes, setSnoozes] = useState<ThreadSnooze[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // ==================== LIVE LIST ====================
+
+  useEffect(() => {
+    if (!userId) {
+      setSnoozes([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const snoozesQuery = collection(db, 'users', userId, 'snoozes').withConverter(snoozeConverter);
+    return subscribeToQuery(
+      'snoozes',
+      snoozesQuery,
+      (snapshot) => {
+        setSnoozes(snapshot.docs.map((snoozeDoc) => snoozeDoc.data()));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('❌ Snoozes listener error:', error);
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  const sleeping = useMemo(() => snoozes.filter((s) => s.status === 'snoozed'), [snoozes]);
+
+  // ==================== WAKE ON TIME ====================
+
+  useEffect(() => {
+    if (!userId || snoozes.length === 0) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const check = () => {
+      const now = Date.now();
+      const due = sleeping.filter((s) => s.snoozed_until && toMillis(s.snoozed_until) <= now);
+      if (due.length > 0) {
+        returnSnoozedThreads(due).catch((error) => console.error('❌ Failed to return snoozed threads:', error));
+      }
+
+      // Unpin threads that came back long ago and were never opened
+      snoozes
+        .filter((s) => s.status === 'returned' && s.returned_at && now - toMillis(s.returned_at) > RETURNED_PIN_MS)
+        .forEach((s) => deleteSnooze(s.thread_id).catch(console.error));
+
+      const next = sleeping
+        .filter((s) => s.snoozed_until && toMillis(s.snoozed_until) > now)
+        .reduce((min, s) => Math.min(min, toMillis(s.snoozed_until)), Infinity);
+      if (next !== Infinity) {
+        timer = setTimeout(check, Math.min(next - now, MAX_TIMER_MS));
+      }
+    };
+
+    // Background tabs throttle timers - catch up when the user comes back
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (timer) clearTimeout(timer);
+      check();
+    };
+
+    check();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      if (timer) clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [userId, snoozes, sleeping]);
+
+  // ==================== WAKE ON REPLY ====================
+
+  // Key changes only when the set of "until they reply" snoozes changes
+  const waitingForReply = sleeping.filter((s) => s.until_reply);
+  const waitingKey = waitingForReply.map((s) => `${s.thread_id}:${s.thread.last_email_date}`).join('|');
+
+  useEffect(() => {
+    if (!userId || waitingForReply.length === 0) return;
+
+    const threadsCollection = collection(db, 'users', userId, 'threads').withConverter(threadConverter);
+    const unsubscribes = waitingForReply.map((snooze) => {
+      const snoozedAt = toMillis(snooze.thread.last_email_date);
+      return subscribeToQuery(
+        `snoozes:reply:${snooze.thread_id}`,
+        query(threadsCollection, where(documentId(), '==', snooze.thread_id)),
+        (snapshot) => {
+          const thread = snapshot.docs[0]?.data();
+          if (!thread) return;
+          const isNewer = toMillis(thread.last_email_date) > snoozedAt;
+          const isFromThem = thread.last_email_sender_email.toLowerCase() !== userEmail;
+          if (isNewer && isFromThem) {
+            console.log('💬 Reply arrived, waking snoozed thread:', snooze.thread_id);
+            returnSnoozedThreads([{ ...snooze, thread }]).catch(console.error);
+          }
+        },
+        (error) => console.error('❌ Snoozed thread listener error:', error)
+      );
+    });
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    // waitingKey stands in for waitingForReply (a new array every render)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, userEmail, waitingKey]);
+
+  // ==================== RETURNED THREADS ====================
+
+  // Live copies of returned threads, so ones on a later page can still be pinned.
+  // A returned thread that's no longer an active thread (done or deleted from a
+  // batch action or another device) loses its snooze instead of coming back as a ghost.
+  const [returnedThreads, setReturnedThreads] = useState<Map<string, Thread>>(() => new Map());
+  const returnedKey = snoozes
+    .filter((s) => s.status === 'returned')
+    .map((s) => s.thread_id)
+    .join('|');
+
+  useEffect(() => {
+    setReturnedThreads(new Map());
+    if (!userId || !returnedKey) return;
+
+    const threadIds = returnedKey.split('|');
+    const threadsCollection = collection(db, 'users', userId, 'threads').withConverter(threadConverter);
+    const unsubscribes: (() => void)[] = [];
+
+    for (let start = 0; start < threadIds.length; start += IN_QUERY_LIMIT) {
+      const chunk = threadIds.slice(start, start + IN_QUERY_LIMIT);
+      unsubscribes.push(subscribeToQuery(
+        `snoozes:returned#${start / IN_QUERY_LIMIT}`,
+        query(threadsCollection, where(documentId(), 'in', chunk)),
+        (snapshot) => {
+          const active = snapshot.docs
+            .map((threadDoc) => threadDoc.data())
+            .filter((thread) => thread.status === 'active');
+
+          setReturnedThreads((prev) => {
+            const next = new Map(prev);
+            chunk.forEach((threadId) => next.delete(threadId));
+            active.forEach((thread) => next.set(thread.thread_id, thread));
+            return next;
+          });
+
+          // Only trust "it's gone" from the server, not a partial cache
+          if (snapshot.metadata.fromCache) return;
+          const activeIds = new Set(active.map((thread) => thread.thread_id));
+          chunk
+            .filter((threadId) => !activeIds.has(threadId))
+            .forEach((threadId) => {
+              console.log('🗑️ Returned thread is gone, dropping its snooze:', threadId);
+              deleteSnooze(threadId).catch(console.error);
+            });
+        },
+        (error) => console.error('❌ Returned threads listener error:', error)
+      ));
+    }
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [userId, returnedKey]);
+
+  // ==================== LIST HELPERS ====================
+
+  const sleepingIds = useMemo(() => new Set(sleeping.map((s) => s.thread_id)), [sleeping]);
+
+  const isSnoozed = useCallback((threadId: string) => sleepingIds.has(threadId), [sleepingIds]);
+
+  /**
+   * Hide sleeping threads. For URGENT/IMPORTANT/OTHERS, returned threads are
+   * moved (or added, if they're on a later page) to the top, unread.
+   * Only threads that still exist are pinned - never the snapshot taken when snoozed.
+   */
+  const applySnoozes = useCallback(<T extends Thread>(threads: T[], category?: string): T[] => {
+    const awake = threads.filter((thread) => !sleepingIds.has(thread.thread_id));
+    if (!category) return awake;
+
+    const returned = snoozes
+      .filter((s) => s.status === 'returned' && s.category === category.toUpperCase())
+      .sort((a, b) => toMillis(b.returned_at) - toMillis(a.returned_at));
+    if (returned.length === 0) return awake;
+
+    const returnedIds = new Set(returned.map((s) => s.thread_id));
+    const pinned = returned.flatMap((s) => {
+      const live = awake.find((thread) => thread.thread_id === s.thread_id) || returnedThreads.get(s.thread_id);
+      return live ? [{ ...live, is_read: false } as T] : [];
+    });
+    return [...pinned, ...awake.filter((thread) => !returnedIds.has(thread.thread_id))];
+  }, [snoozes, sleepingIds, returnedThreads]);
+
+  // ==================== ACTIONS ====================
+
+  const snooze = useCallback((threads: Thread[], options: SnoozeOptions) => snoozeThreads(threads, options), []);
+
+  const unsnooze = useCallback((threadId: string) => deleteSnooze(threadId), []);
+
+  // Opening a returned thread unpins it
+  const acknowledgeReturned = useCallback((threadId: string) => {
+    const snooze = snoozes.find((s) => s.thread_id === threadId);
+    if (snooze?.status === 'returned') {
+      deleteSnooze(threadId).catch(console.error);
+    }
+  }, [snoozes]);
+
+  return (
+    <SnoozeContext.Provider value={{ snoozes, loading, isSnoozed, applySnoozes, snooze, unsnooze, acknowledgeReturned }}>
+      {children}
+    </SnoozeContext.Provider>
+  );
+}
+
+export function useSnoozes() {
+  const context = useContext(SnoozeContext);
+  if (context === undefined) {
+    throw new Error('useSnoozes must be used within a SnoozeProvider');
+  }
+  return context;
+}
+
+export default SnoozeContext;
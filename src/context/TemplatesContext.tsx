@@ -0,0 +1,100 @@
+// context/TemplatesContext.tsx
+// Global template library - the toolbar menu and ;shortcut expansion both read from here
+// ✅ Live list of users/{uid}/templates
+// ✅ getTemplateByShortcut() for the editor's ;shortcut extension
+// ✅ Settings → Templates edits through here (components/templates/TemplateSettings.tsx)
+
+import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  subscribeToTemplates,
+  type EmailTemplate,
+  type TemplateInput,
+} from '@/services/templateApi';
+
+interface TemplatesContextType {
+  templates: EmailTemplate[];
+  loading: boolean;
+  getTemplateByShortcut: (shortcut: string) => EmailTemplate | null;
+  saveTemplate: (template: TemplateInput & { id?: string }) => Promise<string>;
+  removeTemplate: (id: string) => Promise<void>;
+}
+
+const TemplatesContext = createContext<TemplatesContextType | undefined>(undefined);
+
+export function TemplatesProvider({ children }: { children: ReactNode }) {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.uid;
+
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // ==================== LIVE DATA ====================
+
+  useEffect(() => {
+    if (!userId) {
+      setTemplates([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return subscribeToTemplates(
+      userId,
+      (next) => {
+        setTemplates(next);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('❌ Templates listener error:', error);
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  // ==================== LOOKUP ====================
+
+  const getTemplateByShortcut = useCallback((shortcut: string): EmailTemplate | null => {
+    const wanted = shortcut.toLowerCase();
+    return templates.find((template) => template.shortcut && template.shortcut.toLowerCase() === wanted) ?? null;
+  }, [templates]);
+
+  // ==================== EDITING ====================
+
+  const saveTemplate = useCallback(async ({ id, ...template }: TemplateInput & { id?: string }) => {
+    if (id) {
+      await updateTemplate(id, template);
+      return id;
+    }
+    return createTemplate(template);
+  }, []);
+
+  const removeTemplate = useCallback(async (id: string) => {
+    await deleteTemplate(id);
+  }, []);
+
+  return (
+    <TemplatesContext.Provider value={{
+      templates,
+      loading,
+      getTemplateByShortcut,
+      saveTemplate,
+      removeTemplate,
+    }}>
+      {children}
+    </TemplatesContext.Provider>
+  );
+}
+
+export function useTemplates() {
+  const context = useContext(TemplatesContext);
+  if (context === undefined) {
+    throw new Error('useTemplates must be used within a TemplatesProvider');
+  }
+  return context;
+}
+
+export default TemplatesContext;
@@ -0,0 +1,82 @@
+// hooks/useAttachmentContent.ts
+// What the attachment preview needs to render one attachment:
+// a URL for images/PDF/audio/video, the text for plain text/CSV
+// Direct URLs are used as they are; Composio attachments (auth) and text files are fetched
+
+import { useState, useEffect } from 'react';
+import type { Attachment } from '@/types/inbox';
+import { isAbortError } from '@/services/apiClient';
+import {
+  getAttachmentKind,
+  isComposioAttachmentUrl,
+  fetchAttachmentBlob,
+  MAX_TEXT_PREVIEW_BYTES,
+} from '@/utils/attachments';
+
+interface UseAttachmentContentReturn {
+  url: string | null;        // src for <img>/<audio>/<video>, or the PDF to open
+  text: string | null;       // Text/CSV contents (first MAX_TEXT_PREVIEW_BYTES)
+  truncated: boolean;        // The text was cut at MAX_TEXT_PREVIEW_BYTES
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * @param enabled - Only fetch while true (the attachment is on screen)
+ */
+export function useAttachmentContent(attachment: Attachment | null, enabled: boolean): UseAttachmentContentReturn {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setText(null);
+    setTruncated(false);
+    setError(null);
+    setLoading(false);
+    if (!attachment?.url || !enabled) return;
+
+    const kind = getAttachmentKind(attachment);
+    if (kind === 'other') return;
+
+    // Plain URL - the browser loads it itself
+    if (kind !== 'text' && !isComposioAttachmentUrl(attachment.url)) {
+      setUrl(attachment.url);
+      return;
+    }
+
+    const controller = new AbortController();
+    let objectUrl: string | null = null;
+    setLoading(true);
+
+    fetchAttachmentBlob(attachment, controller.signal)
+      .then(async (blob) => {
+        if (controller.signal.aborted) return;
+        if (kind === 'text') {
+          setText(await blob.slice(0, MAX_TEXT_PREVIEW_BYTES).text());
+          setTruncated(blob.size > MAX_TEXT_PREVIEW_BYTES);
+        } else {
+          objectUrl = window.URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error(`Error loading attachment ${attachment.filename}:`, err);
+        setError(err instanceof Error ? err.message : 'Failed to load attachment');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => {
+      controller.abort();
+      if (objectUrl) window.URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment, enabled]);
+
+  return { url, text, truncated, loading, error };
+}
@@ -0,0 +1,92 @@
+// hooks/useAttachments.ts - Every attachment received or sent, newest first (pages/Attachments.tsx)
+// Cursor-paginated over emails with attachments - call loadMore() for older ones
+// Filters (type, sender, date) run on the loaded pages in the page itself
+//
+// Needs the composite index emails: hasAttachment ASC, internal_date DESC.
+// The query uses the stored field name (hasAttachment); the converter exposes it as has_attachment.
+
+import { useMemo } from 'react';
+import { collection, query, where, orderBy } from 'firebase/firestore';
+import { db } from '@/firebase.config';
+import { emailConverter } from '@/services/firestoreConverters';
+import { usePaginatedQuery, DEFAULT_PAGE_SIZE } from './usePaginatedQuery';
+import { useDateTimePreferences } from './useDateTimePreferences';
+import type { Attachment } from '@/types/inbox';
+import { formatListTime } from '@/utils/dateTime';
+
+// One attachment with the message it came in
+export interface AttachmentItem {
+  key: string;                 // Unique across the list (emailId + attachment id)
+  attachment: Attachment;
+  emailId: string;
+  threadId: string;
+  subject: string;
+  senderName: string;
+  senderEmail: string;
+  recipients: string[];
+  isSent: boolean;
+  timestamp: number;           // Epoch ms
+  time: string;                // Formatted for the list
+}
+
+interface UseAttachmentsReturn {
+  items: AttachmentItem[];
+  loading: boolean;
+  error: string | null;
+  // Pagination
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => void;
+}
+
+export function useAttachments(userId: string | undefined): UseAttachmentsReturn {
+  const baseQuery = useMemo(() => {
+    if (!userId) return null;
+    return query(
+      collection(db, 'users', userId, 'emails').withConverter(emailConverter),
+      where('hasAttachment', '==', true),
+      orderBy('internal_date', 'desc')
+    );
+  }, [userId]);
+
+  const {
+    docs,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+  } = usePaginatedQuery('emails:attachments', baseQuery, DEFAULT_PAGE_SIZE);
+
+  const { timeZone } = useDateTimePreferences();
+
+  const items = useMemo(() => docs.flatMap((doc): AttachmentItem[] => {
+    const message = doc.data();
+    if (message.deleted) return [];
+
+    return message.attachments.map((attachment, index) => ({
+      key: `${message.id}:${attachment.id || index}`,
+      attachment,
+      emailId: message.id,
+      threadId: message.thread_id,
+      subject: message.subject,
+      senderName: message.from_name || message.from_email,
+      senderEmail: message.from_email,
+      recipients: message.to,
+      isSent: message.is_sent,
+      timestamp: message.internal_date,
+      time: formatListTime(message.internal_date),
+    }));
+    // timeZone isn't read here, but every formatted date depends on it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }), [docs, timeZone]);
+
+  return {
+    items,
+    loading,
+    error,
+    hasMore,
+    loadingMore,
+    loadMore,
+  };
+}
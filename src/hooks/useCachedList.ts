@@ -0,0 +1,42 @@
+// hooks/useCachedList.ts
+// Show the last-known list (services/localCache.ts) until live Firestore data arrives
+// Live data replaces the cached list as soon as it loads, and is written back for next time
+
+import { useEffect } from 'react';
+import { readLocalCache, writeLocalCache } from '@/services/localCache';
+import { DEFAULT_PAGE_SIZE } from './usePaginatedQuery';
+
+interface UseCachedListReturn<T> {
+  items: T[];
+  // True while the cached list is shown in place of live data
+  fromCache: boolean;
+}
+
+/**
+ * @param userId - Cache scope (no user = no cache)
+ * @param name - Cache entry name, e.g. `threads:URGENT`
+ * @param liveItems - Items from the live query
+ * @param isLive - True once the live query has delivered data
+ * @param maxItems - Only the first N items are cached (one page by default)
+ */
+export function useCachedList<T>(
+  userId: string | undefined,
+  name: string,
+  liveItems: T[],
+  isLive: boolean,
+  maxItems: number = DEFAULT_PAGE_SIZE
+): UseCachedListReturn<T> {
+  useEffect(() => {
+    if (!userId || !isLive) return;
+    writeLocalCache(userId, name, liveItems.slice(0, maxItems));
+  }, [userId, name, liveItems, isLive, maxItems]);
+
+  if (!userId || isLive) {
+    return { items: liveItems, fromCache: false };
+  }
+
+  const cached = readLocalCache<T[]>(userId, name);
+  return cached
+    ? { items: cached, fromCache: true }
+    : { items: liveItems, fromCache: false };
+}
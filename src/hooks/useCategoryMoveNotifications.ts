@@ -1,10 +1,17 @@
 // hooks/useCategoryMoveNotifications.ts
 // Detects when emails are moved to Promises or Awaiting categories via real-time Firestore updates
 // v1.0: Initial implementation using onSnapshot with docChanges()
+// v1.1: Listeners shared through subscriptionRegistry (same queries as usePromises/useAwaiting)
+// v1.2: Limited to the first page of those queries (see usePaginatedQuery)
+// v1.3: Uses threadConverter like those hooks (a different converter = a different listener)
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { collection, query, where, onSnapshot, DocumentChange } from 'firebase/firestore';
+import { collection, query, where, orderBy, limit, DocumentChange } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
+import { DEFAULT_PAGE_SIZE } from './usePaginatedQuery';
+import { threadConverter } from '@/services/firestoreConverters';
+import type { Thread } from '@/types/inbox';
 import { CategoryMoveNotification } from '@/components/ui/CategoryMoveToast';
 
 interface UseCategoryMoveNotificationsReturn {
@@ -68,19 +75,24 @@ export function useCategoryMoveNotifications(
       isInitialLoad.current = false;
     }, 2000);
 
-    const threadsRef = collection(db, 'users', userId, 'threads');
+    const threadsRef = collection(db, 'users', userId, 'threads').withConverter(threadConverter);
     
     // Query for threads with promises OR awaiting
     // We'll use two separate listeners for better filtering
+    // Same queries as the first page of usePromises/useAwaiting, so the registry
+    // shares their listeners (recent moves always land on the first page)
     
     // Listener for Promise threads
     const promiseQuery = query(
       threadsRef,
       where('has_promise', '==', true),
-      where('status', '==', 'active')
+      where('status', '==', 'active'),
+      orderBy('updated_at', 'desc'),
+      limit(DEFAULT_PAGE_SIZE)
     );
 
-    const unsubscribePromise = onSnapshot(
+    const unsubscribePromise = subscribeToQuery(
+      'threads:promises',
       promiseQuery,
       (snapshot) => {
         // Skip if initial load
@@ -93,7 +105,7 @@ export function useCategoryMoveNotifications(
         }
 
         // Process changes
-        snapshot.docChanges().forEach((change: DocumentChange) => {
+        snapshot.docChanges().forEach((change: DocumentChange<Thread>) => {
           const threadId = change.doc.id;
           const data = change.doc.data();
           
@@ -139,10 +151,13 @@ export function useCategoryMoveNotifications(
     const awaitingQuery = query(
       threadsRef,
       where('has_awaiting', '==', true),
-      where('status', '==', 'active')
+      where('status', '==', 'active'),
+      orderBy('updated_at', 'desc'),
+      limit(DEFAULT_PAGE_SIZE)
     );
 
-    const unsubscribeAwaiting = onSnapshot(
+    const unsubscribeAwaiting = subscribeToQuery(
+      'threads:awaiting',
       awaitingQuery,
       (snapshot) => {
         // Skip if initial load
@@ -155,7 +170,7 @@ export function useCategoryMoveNotifications(
         }
 
         // Process changes
-        snapshot.docChanges().forEach((change: DocumentChange) => {
+        snapshot.docChanges().forEach((change: DocumentChange<Thread>) => {
           const threadId = change.doc.id;
           const data = change.doc.data();
           
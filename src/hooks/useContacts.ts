@@ -0,0 +1,62 @@
+// hooks/useContacts.ts
+// Unique email addresses from the user's inbox (getContacts)
+// Last-known contacts come from the local cache instantly, then refresh from the API
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { getContacts } from '@/services/emailApi';
+import { isAbortError } from '@/services/apiClient';
+import { readLocalCache, writeLocalCache } from '@/services/localCache';
+
+interface UseContactsReturn {
+  contacts: string[];
+  loading: boolean;
+  error: string | null;
+}
+
+const CONTACTS_CACHE_KEY = 'contacts';
+
+/**
+ * @param enabled - Only fetch while true (e.g. while a modal is open)
+ */
+export function useContacts(enabled: boolean = true): UseContactsReturn {
+  const { currentUser } = useAuth();
+  const uid = currentUser?.uid;
+
+  const [contacts, setContacts] = useState<string[]>(
+    () => (uid && readLocalCache<string[]>(uid, CONTACTS_CACHE_KEY)) || []
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid || !enabled) return;
+
+    const cached = readLocalCache<string[]>(uid, CONTACTS_CACHE_KEY);
+    if (cached) setContacts(cached);
+
+    const controller = new AbortController();
+    // Only show a loading state when there's nothing cached to show
+    setLoading(!cached);
+    setError(null);
+
+    getContacts(controller.signal)
+      .then((data) => {
+        const emails = data.emails || [];
+        setContacts(emails);
+        writeLocalCache(uid, CONTACTS_CACHE_KEY, emails);
+      })
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('Error fetching contacts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch contacts');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [uid, enabled]);
+
+  return { contacts, loading, error };
+}
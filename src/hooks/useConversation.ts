@@ -0,0 +1,131 @@
+// hooks/useConversation.ts
+// Conversation view state shared by the thread detail views (inbox, sent, mobile)
+// - Unread emails and the latest email start expanded; read ones are one-line rows
+// - Long runs of read rows fold into a single "N older messages" row
+// - useQuotedText() hides quoted history behind a "…" toggle instead of dropping it
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Email } from '@/components/inbox/types';
+import { splitQuotedReply } from '@/utils/emailHelpers';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export type ConversationItem =
+  | { type: 'email'; email: Email; isExpanded: boolean; isLatest: boolean; isLast: boolean }
+  | { type: 'folded'; key: string; emails: Email[] };
+
+// Runs of collapsed rows at least this long fold into one row
+const FOLD_MIN_RUN = 3;
+
+// ======================================================
+// CONVERSATION
+// ======================================================
+
+/**
+ * Which emails of a thread are expanded, collapsed or folded away.
+ * @param emails - Thread emails, oldest first
+ * @param elementIdPrefix - DOM id prefix of each email row (`${prefix}${email.id}`),
+ *   used to scroll a newly expanded email into view
+ */
+export function useConversation(emails: Email[], elementIdPrefix: string) {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [unfolded, setUnfolded] = useState(false);
+
+  const latestId = emails.length > 0 ? emails[emails.length - 1].id : null;
+
+  // Initialize: unread emails and the latest email are expanded
+  useEffect(() => {
+    const initial = new Set(emails.filter((email) => !email.isRead).map((email) => email.id));
+    if (emails.length > 0) initial.add(emails[emails.length - 1].id);
+    setExpandedIds(initial);
+    setUnfolded(false);
+  }, [emails]);
+
+  const isExpanded = useCallback(
+    (emailId: string) => emailId === latestId || expandedIds.has(emailId),
+    [expandedIds, latestId]
+  );
+
+  // Toggle an email; the latest email can't be collapsed
+  const toggle = useCallback((emailId: string) => {
+    if (emailId === latestId) return;
+
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(emailId)) {
+        next.delete(emailId);
+      } else {
+        next.add(emailId);
+        // Scroll to the expanded email after a short delay
+        setTimeout(() => {
+          document.getElementById(`${elementIdPrefix}${emailId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }, 100);
+      }
+      return next;
+    });
+  }, [latestId, elementIdPrefix]);
+
+  const unfold = useCallback(() => setUnfolded(true), []);
+
+  // The first email stays visible as context; later runs of read rows fold
+  const items = useMemo<ConversationItem[]>(() => {
+    const result: ConversationItem[] = [];
+    let run: Email[] = [];
+
+    const flushRun = () => {
+      if (run.length >= FOLD_MIN_RUN && !unfolded) {
+        result.push({ type: 'folded', key: run[0].id, emails: run });
+      } else {
+        run.forEach((email) => result.push({ type: 'email', email, isExpanded: false, isLatest: false, isLast: false }));
+      }
+      run = [];
+    };
+
+    emails.forEach((email, index) => {
+      const expanded = isExpanded(email.id);
+      if (!expanded && index > 0) {
+        run.push(email);
+        return;
+      }
+      flushRun();
+      result.push({
+        type: 'email',
+        email,
+        isExpanded: expanded,
+        isLatest: email.id === latestId,
+        isLast: index === emails.length - 1,
+      });
+    });
+    flushRun();
+
+    return result;
+  }, [emails, isExpanded, latestId, unfolded]);
+
+  return { items, isExpanded, toggle, unfold };
+}
+
+// ======================================================
+// QUOTED TEXT
+// ======================================================
+
+/**
+ * Split a body into new content and quoted history, with a show/hide toggle.
+ * `body` is what to render: the new content, plus the quote while it's shown.
+ */
+export function useQuotedText(rawBody: string, isHtml: boolean) {
+  const [showQuoted, setShowQuoted] = useState(false);
+
+  const { main, quoted } = useMemo(() => splitQuotedReply(rawBody, isHtml), [rawBody, isHtml]);
+  const toggleQuoted = useCallback(() => setShowQuoted((prev) => !prev), []);
+
+  // Nothing but a quote (e.g. a bare forward) - show it, there's nothing to fold
+  if (!main) return { body: quoted, hasQuoted: false, showQuoted: true, toggleQuoted };
+
+  const body = showQuoted && quoted
+    ? `${main}${isHtml ? '<br>' : '\n\n'}${quoted}`
+    : main;
+
+  return { body, hasQuoted: quoted.length > 0, showQuoted, toggleQuoted };
+}
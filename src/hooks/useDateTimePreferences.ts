@@ -0,0 +1,17 @@
+// hooks/useDateTimePreferences.ts
+// Re-render when the user's timezone/locale changes (see utils/dateTime.ts)
+
+import { useSyncExternalStore } from 'react';
+import {
+  getDateTimePreferences,
+  subscribeToDateTimePreferences,
+  DateTimePreferences,
+} from '@/utils/dateTime';
+
+/**
+ * Current date/time preferences. Add `timeZone` to the deps of any
+ * memo that produces formatted dates so it recomputes on change.
+ */
+export function useDateTimePreferences(): DateTimePreferences {
+  return useSyncExternalStore(subscribeToDateTimePreferences, getDateTimePreferences);
+}
@@ -1,92 +1,25 @@
 // hooks/useDoneEmails.ts - Fetch emails marked as done
+// v1.1: Cursor-paginated - call loadMore() for older emails
+// v1.2: Docs mapped + validated by emailConverter (canonical EmailMessage)
+// v1.3: Dates formatted by utils/dateTime in the user's timezone
 
-import { useState, useEffect } from 'react';
-import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
+import { useMemo } from 'react';
+import { collection, query, where, orderBy } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { emailConverter } from '@/services/firestoreConverters';
+import { usePaginatedQuery, DEFAULT_PAGE_SIZE } from './usePaginatedQuery';
+import { useDateTimePreferences } from './useDateTimePreferences';
 import { Email } from '../components/inbox/types';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
 
 interface UseDoneEmailsReturn {
   emails: Email[];
   loading: boolean;
   error: string | null;
-}
-
-// Firestore timestamp type
-interface FirestoreTimestamp {
-  seconds: number;
-  nanoseconds: number;
-  toDate: () => Date;
-}
-
-type DateValue = string | number | Date | FirestoreTimestamp | null | undefined;
-
-// Helper: Get raw timestamp for sorting
-function getTimestamp(internalDate: DateValue): number {
-  if (internalDate === null || internalDate === undefined) return 0;
-  
-  if (internalDate && typeof internalDate === 'object' && 'toDate' in internalDate && typeof internalDate.toDate === 'function') {
-    return internalDate.toDate().getTime();
-  } else if (internalDate && typeof internalDate === 'object' && 'seconds' in internalDate) {
-    return internalDate.seconds * 1000;
-  } else if (typeof internalDate === 'string') {
-    const parsed = parseInt(internalDate, 10);
-    if (!isNaN(parsed)) {
-      return parsed;
-    }
-    return new Date(internalDate).getTime() || 0;
-  } else if (typeof internalDate === 'number') {
-    return internalDate;
-  } else if (internalDate instanceof Date) {
-    return internalDate.getTime();
-  }
-  return 0;
-}
-
-// Helper: Format time for display
-function formatTime(internalDate: DateValue): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-
-  if (emailDate >= today) {
-    return emailDate.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
-  } else if (emailDate >= yesterday) {
-    return 'Yesterday';
-  } else {
-    return emailDate.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric' 
-    });
-  }
-}
-
-// Helper: Format full date
-function formatDate(internalDate: DateValue): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  return emailDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric'
-  });
+  // Pagination
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => void;
 }
 
 // Helper: Extract sender name from "from" field
@@ -108,74 +41,56 @@ function extractSenderEmail(from: string): string {
 }
 
 export function useDoneEmails(userId: string | undefined): UseDoneEmailsReturn {
-  const [emails, setEmails] = useState<Email[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!userId) {
-      setEmails([]);
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const emailsRef = collection(db, 'users', userId, 'emails');
-      
-      // Query done emails (not sent), ordered by internal_date descending (newest first)
-      // Done emails = user_marked_done == true AND is_sent == false
-      const q = query(
-        emailsRef,
-        where('user_marked_done', '==', true),
-        where('is_sent', '==', false),
-        orderBy('internal_date', 'desc')
-      );
-
-      const unsubscribe = onSnapshot(
-        q,
-        (snapshot) => {
-          const doneEmails: Email[] = [];
-          
-          snapshot.forEach((doc) => {
-            const data = doc.data();
-            const internalDate = data.internal_date || data.internalDate || data.date || data.received_at || null;
-            
-            doneEmails.push({
-              id: doc.id,
-              sender: extractSenderName(data.from || ''),
-              senderEmail: extractSenderEmail(data.from || ''),
-              subject: data.subject || '(No Subject)',
-              preview: data.snippet || '',
-              body: data.body_html || data.body_plain || data.snippet || '',
-              time: formatTime(internalDate),
-              date: formatDate(internalDate),
-              isRead: data.is_read !== false,
-              hasAttachment: data.gmail_labels?.includes('ATTACHMENT') || false,
-              timestamp: getTimestamp(internalDate),
-              thread_id: data.thread_id || '',
-            });
-          });
-
-          setEmails(doneEmails);
-          setLoading(false);
-        },
-        (err) => {
-          console.error('Error fetching done emails:', err);
-          setError(err.message);
-          setLoading(false);
-        }
-      );
-
-      return () => unsubscribe();
-    } catch (err) {
-      console.error('Error setting up done emails listener:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch done emails');
-      setLoading(false);
-    }
+  // Query done emails (not sent), ordered by internal_date descending (newest first)
+  // Done emails = user_marked_done == true AND is_sent == false
+  const baseQuery = useMemo(() => {
+    if (!userId) return null;
+    return query(
+      collection(db, 'users', userId, 'emails').withConverter(emailConverter),
+      where('user_marked_done', '==', true),
+      where('is_sent', '==', false),
+      orderBy('internal_date', 'desc')
+    );
   }, [userId]);
 
-  return { emails, loading, error };
-}
\ No newline at end of file
+  const {
+    docs,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+  } = usePaginatedQuery('emails:done', baseQuery, DEFAULT_PAGE_SIZE);
+
+  const { timeZone } = useDateTimePreferences();
+
+  const emails = useMemo(() => docs.map((doc): Email => {
+    const message = doc.data();
+
+    return {
+      id: message.id,
+      sender: extractSenderName(message.from),
+      senderEmail: extractSenderEmail(message.from),
+      subject: message.subject,
+      preview: message.snippet,
+      body: message.body_html || message.body_plain || message.snippet,
+      time: formatListTime(message.internal_date),
+      date: formatFullDate(message.internal_date),
+      isRead: message.is_read,
+      hasAttachment: message.gmail_labels.includes('ATTACHMENT'),
+      timestamp: message.internal_date,
+      thread_id: message.thread_id,
+    };
+    // timeZone isn't read here, but every formatted date depends on it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }), [docs, timeZone]);
+
+  return {
+    emails,
+    loading,
+    error,
+    hasMore,
+    loadingMore,
+    loadMore,
+  };
+}
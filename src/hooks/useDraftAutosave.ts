@@ -0,0 +1,359 @@
+// hooks/useDraftAutosave.ts - Continuous draft autosave for ComposeModal / ReplyModal
+// Saves shortly after typing stops, keeps a local copy until Firestore has it (crash recovery),
+// and listens to the draft so a save from another tab surfaces as a conflict instead of being overwritten
+//
+// Conflicts use the draft's version counter (services/draftApi.ts): a save only goes through
+// if the stored version is still the one this tab last saw.
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import {
+  saveDraftVersioned,
+  subscribeToDraft,
+  isDraftConflictError,
+  type DraftData,
+  type DraftInput,
+} from '@/services/draftApi';
+import {
+  getDraftContent,
+  draftContentKey,
+  mergeDrafts,
+  loadDraftRecovery,
+  saveDraftRecovery,
+  clearDraftRecovery,
+  type DraftContent,
+  type DraftRecovery,
+} from '@/utils/drafts';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+// 'local' = Firestore couldn't be reached; the copy in this browser is all we have
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'local';
+
+export type DraftConflictChoice = 'mine' | 'theirs' | 'merge';
+
+export interface DraftConflict {
+  mine: DraftContent;
+  theirs: DraftContent;
+}
+
+interface UseDraftAutosaveOptions {
+  enabled: boolean;                           // Modal open (and not editing a scheduled email)
+  draftId: string | undefined;
+  onDraftIdChange: (draftId: string) => void; // First save created the draft, or a recovered copy brought its ID
+  draft: DraftInput;                          // Current form contents
+  canSave: boolean;                           // Worth saving yet (see isDraftWorthSaving)
+  recoveryKey: string;                        // Where the local copy lives (per account), e.g. 'compose' or 'reply:<threadId>'
+  onApply: (content: DraftContent) => void;   // Put content into the form (other tab's version, merge, recovery)
+}
+
+interface UseDraftAutosaveReturn {
+  status: DraftSaveStatus;
+  lastSavedAt: number | null;                 // Epoch ms of the last successful save
+  conflict: DraftConflict | null;
+  resolveConflict: (choice: DraftConflictChoice) => void;
+  recovery: DraftRecovery | null;             // Unsaved copy from an earlier session that differs from the form
+  restoreRecovery: () => void;
+  dismissRecovery: () => void;
+  saveNow: () => Promise<string | undefined>; // Save immediately; resolves with the draft ID
+  finish: () => Promise<string | undefined>;  // Sent - stop saving, drop the local copy; resolves with the draft ID
+}
+
+// Everything about one open modal - a new session starts each time it opens,
+// so a save still finishing from the last one can't touch the next
+interface AutosaveSession {
+  active: boolean;
+  draftId?: string;
+  version: number | null;        // Version this tab last saw (null until the first snapshot)
+  savedKey: string | null;       // Content last written to / read from Firestore
+  uid: string | undefined;       // Account the local copy is stored under
+  recoveryKey: string;
+  recoveryPending: boolean;      // Offering an earlier copy - don't overwrite it yet
+  conflict: { theirs: DraftContent; version: number } | null;
+  stopped: boolean;
+  saving: boolean;
+  stashedRemote?: DraftData | null;  // Snapshot that arrived mid-save, handled once it finishes
+  chain: Promise<void>;
+}
+
+export function useDraftAutosave({
+  enabled,
+  draftId,
+  onDraftIdChange,
+  draft,
+  canSave,
+  recoveryKey,
+  onApply,
+}: UseDraftAutosaveOptions): UseDraftAutosaveReturn {
+  const [status, setStatus] = useState<DraftSaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [conflict, setConflict] = useState<DraftConflict | null>(null);
+  const [recovery, setRecovery] = useState<DraftRecovery | null>(null);
+  const { currentUser } = useAuth();
+  const uid = currentUser?.uid;
+
+  const contentKey = draftContentKey(draft);
+
+  // Latest props for timers, listeners and saves in flight
+  const latestRef = useRef({ draft, contentKey, canSave, onApply, onDraftIdChange });
+  latestRef.current = { draft, contentKey, canSave, onApply, onDraftIdChange };
+
+  const sessionRef = useRef<AutosaveSession | null>(null);
+
+  // ======================================================
+  // REMOTE CHANGES (another tab)
+  // ======================================================
+  const handleRemote = useCallback((session: AutosaveSession, remote: DraftData | null) => {
+    // Deleted (sent or discarded elsewhere) - the next save creates it again
+    if (!remote || !session.active) return;
+
+    const remoteVersion = remote.version ?? 0;
+    if (session.version === null) {
+      // First snapshot - the version we start from
+      session.version = remoteVersion;
+      if (session.savedKey === null) session.savedKey = draftContentKey(remote);
+      return;
+    }
+    if (remoteVersion <= session.version) return; // Our own save coming back
+
+    const theirs = getDraftContent(remote);
+    const { draft: current, contentKey: currentKey } = latestRef.current;
+    if (currentKey !== session.savedKey) {
+      // Unsaved edits here too - let the user decide
+      session.conflict = { theirs, version: remoteVersion };
+      setConflict({ mine: getDraftContent(current), theirs });
+      setStatus('idle');
+      return;
+    }
+
+    // Nothing unsaved here - follow the other tab
+    session.version = remoteVersion;
+    session.savedKey = draftContentKey(theirs);
+    latestRef.current.onApply(theirs);
+    console.log(`🔄 Draft updated from another tab (v${remoteVersion})`);
+  }, []);
+
+  // ======================================================
+  // SAVING
+  // ======================================================
+  const runSave = useCallback(async (session: AutosaveSession, input: DraftInput, canSaveInput: boolean) => {
+    const key = draftContentKey(input);
+    if (session.stopped || session.conflict || !canSaveInput || key === session.savedKey) return;
+
+    session.saving = true;
+    if (session.active) setStatus('saving');
+
+    try {
+      const result = await saveDraftVersioned(input, session.draftId, session.version);
+      session.version = result.version;
+      session.savedKey = key;
+
+      if (result.draftId !== session.draftId) {
+        session.draftId = result.draftId;
+        if (session.active) latestRef.current.onDraftIdChange(result.draftId);
+      }
+      if (session.active) {
+        setLastSavedAt(Date.now());
+        setStatus('saved');
+      }
+
+      // Firestore has everything typed so far - the local copy isn't needed
+      const upToDate = !session.active || latestRef.current.contentKey === key;
+      if (upToDate && !session.recoveryPending) clearDraftRecovery(session.uid, session.recoveryKey);
+    } catch (error) {
+      if (isDraftConflictError(error)) {
+        console.warn('⚠️ Draft changed in another tab:', session.draftId);
+        session.conflict = { theirs: getDraftContent(error.remote), version: error.remote.version ?? 0 };
+        if (session.active) {
+          setConflict({ mine: getDraftContent(input), theirs: session.conflict.theirs });
+          setStatus('idle');
+        }
+      } else {
+        console.error('⚠️ Draft autosave failed, kept on this device:', error);
+        if (session.active) setStatus('local');
+      }
+    } finally {
+      session.saving = false;
+      if (session.stashedRemote !== undefined) {
+        const remote = session.stashedRemote;
+        session.stashedRemote = undefined;
+        handleRemote(session, remote);
+      }
+    }
+  }, [handleRemote]);
+
+  // Saves run one at a time, each with the form as it was when queued
+  const queueSave = useCallback((session: AutosaveSession | null): Promise<void> => {
+    if (!session) return Promise.resolve();
+    const { draft: input, canSave: canSaveInput } = latestRef.current;
+    session.chain = session.chain.then(() => runSave(session, input, canSaveInput));
+    return session.chain;
+  }, [runSave]);
+
+  // ======================================================
+  // SESSION (modal open → closed)
+  // ======================================================
+  useEffect(() => {
+    if (!enabled) return;
+
+    const saved = loadDraftRecovery(uid, recoveryKey);
+    const session: AutosaveSession = {
+      active: true,
+      draftId,
+      version: null,
+      savedKey: null,
+      uid,
+      recoveryKey,
+      recoveryPending: !!saved,
+      conflict: null,
+      stopped: false,
+      saving: false,
+      chain: Promise.resolve(),
+    };
+    sessionRef.current = session;
+    setRecovery(saved);
+    setConflict(null);
+    setStatus('idle');
+    setLastSavedAt(null);
+
+    return () => {
+      // Closing - save what the debounce hadn't got to yet (Escape closes without a save)
+      void queueSave(session);
+      session.active = false;
+    };
+    // A session is keyed on open/close only - draftId, uid and recoveryKey are read as they are at open
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, queueSave]);
+
+  // Draft ID handed in later (e.g. the modal restored a copy that belongs to a saved draft)
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (session?.active && draftId) session.draftId = draftId;
+  }, [draftId]);
+
+  // Debounced save + local copy on every change
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!enabled || !session?.active || session.stopped) return;
+    if (!canSave || contentKey === session.savedKey) return;
+
+    // Local copy first - it survives a crash even if the save below never runs
+    if (!session.recoveryPending) {
+      saveDraftRecovery(session.uid, session.recoveryKey, {
+        content: getDraftContent(latestRef.current.draft),
+        draftId: session.draftId,
+        savedAt: Date.now(),
+      });
+    }
+
+    const timer = setTimeout(() => { void queueSave(session); }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, contentKey, canSave, queueSave]);
+
+  // Retry once the connection is back
+  useEffect(() => {
+    if (!enabled) return;
+    const handleOnline = () => { void queueSave(sessionRef.current); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [enabled, queueSave]);
+
+  // Watch the draft for saves from other tabs
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!enabled || !draftId || !session?.active) return;
+
+    return subscribeToDraft(draftId, (remote) => {
+      // Mid-save the version is about to move - look again once the save lands
+      if (session.saving) {
+        session.stashedRemote = remote;
+        return;
+      }
+      handleRemote(session, remote);
+    });
+  }, [enabled, draftId, handleRemote]);
+
+  // ======================================================
+  // ACTIONS
+  // ======================================================
+  const resolveConflict = useCallback((choice: DraftConflictChoice) => {
+    const session = sessionRef.current;
+    if (!session?.conflict) return;
+    const { theirs, version } = session.conflict;
+    session.conflict = null;
+    session.version = version;
+    setConflict(null);
+
+    if (choice === 'mine') {
+      // Current form overwrites theirs
+      void queueSave(session);
+    } else if (choice === 'theirs') {
+      session.savedKey = draftContentKey(theirs);
+      latestRef.current.onApply(theirs);
+      if (!session.recoveryPending) clearDraftRecovery(session.uid, session.recoveryKey);
+    } else {
+      // The merged form differs from theirs, so the debounce saves it
+      session.savedKey = draftContentKey(theirs);
+      latestRef.current.onApply(mergeDrafts(getDraftContent(latestRef.current.draft), theirs));
+    }
+    console.log(`🔀 Draft conflict resolved: ${choice}`);
+  }, [queueSave]);
+
+  const restoreRecovery = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || !recovery) return;
+    session.recoveryPending = false;
+    setRecovery(null);
+    if (recovery.draftId && !session.draftId) {
+      session.draftId = recovery.draftId;
+      latestRef.current.onDraftIdChange(recovery.draftId);
+    }
+    latestRef.current.onApply(recovery.content);
+    console.log('♻️ Restored unsaved draft from this device');
+  }, [recovery]);
+
+  const dismissRecovery = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.recoveryPending = false;
+    setRecovery(null);
+    clearDraftRecovery(session.uid, session.recoveryKey);
+  }, []);
+
+  const saveNow = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session?.active) return undefined;
+    await queueSave(session);
+    return session.draftId;
+  }, [queueSave]);
+
+  const finish = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session?.active) return undefined;
+    session.stopped = true;
+    await session.chain;
+    clearDraftRecovery(session.uid, session.recoveryKey);
+    return session.draftId;
+  }, []);
+
+  // The copy matches the form (e.g. it was saved after all) - nothing to offer
+  const recoveryDiffers = !!recovery && draftContentKey(recovery.content) !== contentKey;
+  useEffect(() => {
+    if (recovery && !recoveryDiffers && sessionRef.current) {
+      sessionRef.current.recoveryPending = false;
+      setRecovery(null);
+    }
+  }, [recovery, recoveryDiffers]);
+
+  return {
+    status,
+    lastSavedAt,
+    conflict,
+    resolveConflict,
+    recovery: recoveryDiffers ? recovery : null,
+    restoreRecovery,
+    dismissRecovery,
+    saveNow,
+    finish,
+  };
+}
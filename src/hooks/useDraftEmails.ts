@@ -1,9 +1,11 @@
 // hooks/useDraftEmails.ts - Fetch draft emails from Firestore
+// v1.1: Dates formatted by utils/dateTime in the user's timezone
 
 import { useState, useEffect } from 'react';
 import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
 import { db } from '@/firebase.config';
 import { Email } from '../components/inbox/types';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
 
 interface UseDraftEmailsResult {
   emails: Email[];
@@ -39,39 +41,7 @@ export function useDraftEmails(userId: string | undefined): UseDraftEmailsResult
         const draftList: Email[] = snapshot.docs.map((doc) => {
           const data = doc.data();
           
-          // Format time for display
-          let timeDisplay = '';
-          let dateDisplay = '';
-          
           const timestamp = data.updated_at || data.created_at;
-          if (timestamp) {
-            // Handle Firestore Timestamp or string
-            const draftDate = timestamp.toDate ? timestamp.toDate() : new Date(timestamp);
-            const now = new Date();
-            const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-            const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-            
-            if (draftDate >= today) {
-              timeDisplay = draftDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit',
-                hour12: true 
-              });
-            } else if (draftDate >= yesterday) {
-              timeDisplay = 'Yesterday';
-            } else {
-              timeDisplay = draftDate.toLocaleDateString('en-US', { 
-                month: 'short', 
-                day: 'numeric' 
-              });
-            }
-            
-            dateDisplay = draftDate.toLocaleDateString('en-US', {
-              month: 'short',
-              day: 'numeric',
-              year: 'numeric'
-            });
-          }
 
           // Extract recipient (to field) - handle both array and string format
           const toField = data.to;
@@ -97,8 +67,8 @@ export function useDraftEmails(userId: string | undefined): UseDraftEmailsResult
             subject: displaySubject,
             preview: data.body_plain?.substring(0, 100) || data.body_html?.replace(/<[^>]*>/g, '').substring(0, 100) || '',
             body: data.body_html || data.body_plain || '',
-            time: timeDisplay,
-            date: dateDisplay,
+            time: formatListTime(timestamp),
+            date: formatFullDate(timestamp),
             isRead: true, // Drafts are always "read"
             hasAttachment: (data.attachments && data.attachments.length > 0) || data.has_attachment || false,
             thread_id: data.thread_id || doc.id,
@@ -0,0 +1,121 @@
+// hooks/useEmailExport.ts
+// Export actions for threads and selections: .eml for a single message, one .mbox per batch
+// (several .eml downloads at once get blocked or prompted for by the browser - batches are .mbox only)
+// (PDF goes through the print route - pages/PrintThread.tsx)
+// Message sources come from getEmailRaw; when that fails the message is rebuilt from getEmail (utils/emailExport.ts)
+
+import { useState, useCallback } from 'react';
+import { getEmail, getEmailRaw, EmailDetailResponse } from '@/services/emailApi';
+import { buildEml, buildMbox, ExportMessage } from '@/utils/emailExport';
+import { parseRawHeaders, getHeaderValues, downloadEml, downloadFile, exportFileName } from '@/utils/rawEmail';
+
+// Parallel requests while fetching message sources
+const FETCH_CONCURRENCY = 4;
+
+interface MessageSource {
+  raw: string;
+  subject: string;
+}
+
+interface UseEmailExportReturn {
+  exporting: boolean;
+  error: string | null;
+  // Resolve to false when nothing could be exported (see `error`)
+  exportEml: (emailId: string) => Promise<boolean>;
+  exportMbox: (emailIds: string[], name: string) => Promise<boolean>;
+}
+
+// ======================================================
+// CONVERSION
+// ======================================================
+
+function fromEmailDetail(detail: EmailDetailResponse): ExportMessage {
+  return {
+    from: detail.from || detail.sender_email,
+    to: detail.to || [],
+    cc: detail.cc || [],
+    subject: detail.subject,
+    date: detail.date,
+    messageId: detail.message_id || null,
+    html: detail.body_html || '',
+    text: detail.body_text || '',
+    attachments: (detail.attachments || []).map(attachment => {
+      const { filename = 'attachment', size = 0 } = attachment as { filename?: string; size?: number };
+      return { filename, size };
+    }),
+  };
+}
+
+async function fetchMessageSource(emailId: string): Promise<MessageSource> {
+  try {
+    const { raw } = await getEmailRaw(emailId);
+    const subject = getHeaderValues(parseRawHeaders(raw), 'Subject')[0] || '';
+    return { raw, subject };
+  } catch (err) {
+    console.warn(`⚠️ No original source for ${emailId}, rebuilding from stored fields:`, err);
+    const detail = await getEmail(emailId);
+    return { raw: buildEml(fromEmailDetail(detail)), subject: detail.subject };
+  }
+}
+
+// Sources in the given order; messages that can't be fetched at all are skipped
+async function fetchMessageSources(emailIds: string[]): Promise<MessageSource[]> {
+  const results: (MessageSource | null)[] = new Array(emailIds.length).fill(null);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < emailIds.length) {
+      const index = next++;
+      try {
+        results[index] = await fetchMessageSource(emailIds[index]);
+      } catch (err) {
+        console.error(`❌ Export: failed to fetch ${emailIds[index]}:`, err);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, emailIds.length) }, worker));
+  return results.filter((source): source is MessageSource => source !== null);
+}
+
+// ======================================================
+// HOOK
+// ======================================================
+
+export function useEmailExport(): UseEmailExportReturn {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const withSources = useCallback(async (emailIds: string[], save: (sources: MessageSource[]) => void): Promise<boolean> => {
+    if (emailIds.length === 0) return false;
+    setExporting(true);
+    setError(null);
+    try {
+      const sources = await fetchMessageSources(emailIds);
+      if (sources.length === 0) throw new Error('No messages could be exported');
+      save(sources);
+      console.log(`📦 Exported ${sources.length}/${emailIds.length} messages`);
+      return true;
+    } catch (err) {
+      console.error('❌ Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+      return false;
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  const exportEml = useCallback(
+    (emailId: string) => withSources([emailId], ([{ raw, subject }]) => downloadEml(raw, subject)),
+    [withSources]
+  );
+
+  const exportMbox = useCallback(
+    (emailIds: string[], name: string) => withSources(emailIds, sources => {
+      downloadFile(buildMbox(sources.map(source => source.raw)), exportFileName(name, 'mbox', 'mailbox'), 'application/mbox');
+    }),
+    [withSources]
+  );
+
+  return { exporting, error, exportEml, exportMbox };
+}
@@ -1,11 +1,14 @@
 // hooks/useEmails.ts - Real-time Firestore subscription
 // FIXED: Query by visible_in_* flags instead of is_read
 // v2.0: Fixed hasAttachment to read from Firestore field, added attachments array
+// v2.1: Dates parsed + formatted by utils/dateTime in the user's timezone
 
 import { useState, useEffect } from 'react';
-import { collection, query, where, orderBy, onSnapshot, Query, DocumentData } from 'firebase/firestore';
+import { collection, query, where, orderBy, Query, DocumentData } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
 import { Email, Category } from '../components/inbox/types';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
 
 interface UseEmailsReturn {
   emails: Email[];
@@ -13,97 +16,6 @@ interface UseEmailsReturn {
   error: string | null;
 }
 
-// Helper: Format time for display
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function formatTime(internalDate: any): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  let emailDate: Date;
-  
-  // Handle Firestore Timestamp object
-  if (internalDate && typeof internalDate.toDate === 'function') {
-    emailDate = internalDate.toDate();
-  } else if (internalDate && internalDate.seconds) {
-    // Firestore Timestamp as plain object
-    emailDate = new Date(internalDate.seconds * 1000);
-  } else if (typeof internalDate === 'string') {
-    // Try parsing as number first (string timestamp)
-    const parsed = parseInt(internalDate, 10);
-    if (!isNaN(parsed)) {
-      emailDate = new Date(parsed);
-    } else {
-      emailDate = new Date(internalDate);
-    }
-  } else if (typeof internalDate === 'number') {
-    emailDate = new Date(internalDate);
-  } else {
-    return '';
-  }
-  
-  // Check if date is valid
-  if (isNaN(emailDate.getTime())) {
-    return '';
-  }
-
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-
-  if (emailDate >= today) {
-    return emailDate.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
-  } else if (emailDate >= yesterday) {
-    return 'Yesterday';
-  } else {
-    return emailDate.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric' 
-    });
-  }
-}
-
-// Helper: Format full date
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function formatDate(internalDate: any): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  let emailDate: Date;
-  
-  // Handle Firestore Timestamp object
-  if (internalDate && typeof internalDate.toDate === 'function') {
-    emailDate = internalDate.toDate();
-  } else if (internalDate && internalDate.seconds) {
-    // Firestore Timestamp as plain object
-    emailDate = new Date(internalDate.seconds * 1000);
-  } else if (typeof internalDate === 'string') {
-    // Try parsing as number first (string timestamp)
-    const parsed = parseInt(internalDate, 10);
-    if (!isNaN(parsed)) {
-      emailDate = new Date(parsed);
-    } else {
-      emailDate = new Date(internalDate);
-    }
-  } else if (typeof internalDate === 'number') {
-    emailDate = new Date(internalDate);
-  } else {
-    return '';
-  }
-  
-  // Check if date is valid
-  if (isNaN(emailDate.getTime())) {
-    return '';
-  }
-
-  return emailDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric'
-  });
-}
-
 // Helper: Extract sender name from "Name <email>" format
 function extractSenderName(from: string, fromName: string): string {
   if (fromName) return fromName;
@@ -178,7 +90,8 @@ export function useEmails(userId: string | undefined, category: Category): UseEm
       );
     }
 
-    const unsubscribe = onSnapshot(
+    const unsubscribe = subscribeToQuery(
+      `emails:${category}`,
       q,
       (snapshot) => {
         const emailList: Email[] = [];
@@ -196,8 +109,8 @@ export function useEmails(userId: string | undefined, category: Category): UseEm
             subject: data.subject || '(No Subject)',
             preview: data.snippet || '',
             body: data.body_html || data.body_plain || data.snippet || '',
-            time: formatTime(internalDate),
-            date: formatDate(internalDate),
+            time: formatListTime(internalDate),
+            date: formatFullDate(internalDate),
             isRead: data.is_read || false,
             // v2.0 FIX: Read hasAttachment directly from Firestore, not from gmail_labels
             hasAttachment: data.hasAttachment === true,
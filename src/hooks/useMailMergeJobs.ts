@@ -0,0 +1,9 @@
+// hooks/useMailMergeJobs.ts
+// Mail merges sending (or just finished) in this tab - re-renders on progress (see services/mailMergeQueue.ts)
+
+import { useSyncExternalStore } from 'react';
+import { getMailMergeJobs, subscribeToMailMergeJobs, type MailMergeJob } from '@/services/mailMergeQueue';
+
+export function useMailMergeJobs(): readonly MailMergeJob[] {
+  return useSyncExternalStore(subscribeToMailMergeJobs, getMailMergeJobs);
+}
@@ -0,0 +1,33 @@
+// hooks/useMailMerges.ts
+// Recent mail merges with per-recipient status (see services/mailMergeApi.ts)
+// Used by the Sent page to roll tracking up across a merge's messages
+// Merges interrupted mid-send get their unsent recipients marked failed (services/mailMergeQueue.ts)
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { subscribeToMailMerges, type MailMerge } from '@/services/mailMergeApi';
+import { failInterruptedMailMerges } from '@/services/mailMergeQueue';
+
+export function useMailMerges(): MailMerge[] {
+  const { currentUser } = useAuth();
+  const userId = currentUser?.uid;
+  const [merges, setMerges] = useState<MailMerge[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setMerges([]);
+      return;
+    }
+
+    return subscribeToMailMerges(
+      userId,
+      (next) => {
+        setMerges(next);
+        failInterruptedMailMerges(next);
+      },
+      (error) => console.error('❌ Mail merges listener error:', error)
+    );
+  }, [userId]);
+
+  return merges;
+}
@@ -0,0 +1,146 @@
+// hooks/usePaginatedQuery.ts
+// Cursor-based pagination over a live Firestore query
+// ✅ Loaded pages are ranges between cursors: page N = query(base, startAfter(cursor N-1), endAt(cursor N))
+// ✅ Only the last page is limited: query(base, startAfter(last cursor), limit(n))
+// ✅ Every loaded page stays live through the shared subscription registry
+// ✅ Docs from all pages are merged in order and de-duplicated by id
+//
+// Pages are anchored to the cursor docs captured when more were requested, at both ends,
+// so the ranges stay contiguous: a thread that enters page 0 grows page 0 instead of
+// pushing its old last doc into the gap before page 1.
+// A doc that moves between pages (e.g. a thread that gets a new email) can
+// briefly appear in two snapshots - the first occurrence wins.
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  query,
+  limit,
+  startAfter,
+  endAt,
+  Query,
+  QueryConstraint,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface UsePaginatedQueryReturn<T = DocumentData> {
+  docs: QueryDocumentSnapshot<T>[];
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => void;
+}
+
+type PageMap<T> = Record<number, QueryDocumentSnapshot<T>[]>;
+
+// Everything is keyed by the base query it was loaded for,
+// so a new base query never shows the previous one's pages
+interface PaginationState<T> {
+  base: Query<T> | null;
+  // cursors[N] = last doc of page N when loadMore was called (end of page N, start of page N+1)
+  cursors: QueryDocumentSnapshot<T>[];
+  pages: PageMap<T>;
+  error: string | null;
+}
+
+const emptyState = <T>(base: Query<T> | null): PaginationState<T> => ({
+  base,
+  cursors: [],
+  pages: {},
+  error: null,
+});
+
+/**
+ * Live, cursor-paginated Firestore query.
+ *
+ * @param label - Registry label (pages are shown as `label#pN` in the debug panel)
+ * @param baseQuery - Filtered + ordered query WITHOUT a limit. Memoize it:
+ *                    a new query object resets pagination. Pass null to disable.
+ *                    Converted queries (withConverter) yield typed docs.
+ * @param pageSize - Docs per page
+ */
+export function usePaginatedQuery<T = DocumentData>(
+  label: string,
+  baseQuery: Query<T> | null,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): UsePaginatedQueryReturn<T> {
+  const [rawState, setState] = useState<PaginationState<T>>(() => emptyState(baseQuery));
+
+  const state = rawState.base === baseQuery ? rawState : emptyState(baseQuery);
+  const { cursors, pages, error } = state;
+  const pageCount = cursors.length + 1;
+
+  useEffect(() => {
+    if (!baseQuery) return;
+
+    // Updates from a previous base query are dropped
+    const updateState = (update: (current: PaginationState<T>) => PaginationState<T>) => {
+      setState(prev => update(prev.base === baseQuery ? prev : emptyState(baseQuery)));
+    };
+
+    const unsubscribes = Array.from({ length: pageCount }, (_, page) => {
+      const constraints: QueryConstraint[] = [];
+      if (page > 0) constraints.push(startAfter(cursors[page - 1]));
+      constraints.push(page < cursors.length ? endAt(cursors[page]) : limit(pageSize));
+      const pageQuery = query(baseQuery, ...constraints);
+
+      return subscribeToQuery(
+        page === 0 ? label : `${label}#p${page}`,
+        pageQuery,
+        (snapshot) => {
+          updateState(current => ({
+            ...current,
+            pages: { ...current.pages, [page]: snapshot.docs },
+          }));
+        },
+        (err) => {
+          console.error(`❌ Error fetching ${label} (page ${page}):`, err);
+          // Mark the page as settled so loading states clear
+          updateState(current => ({
+            ...current,
+            error: err.message,
+            pages: { ...current.pages, [page]: current.pages[page] || [] },
+          }));
+        }
+      );
+    });
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    // cursors only changes together with pageCount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [label, baseQuery, pageSize, pageCount]);
+
+  const docs = useMemo(() => {
+    const seen = new Set<string>();
+    const merged: QueryDocumentSnapshot<T>[] = [];
+    for (let page = 0; page < pageCount; page++) {
+      (pages[page] || []).forEach(doc => {
+        if (seen.has(doc.id)) return;
+        seen.add(doc.id);
+        merged.push(doc);
+      });
+    }
+    return merged;
+  }, [pages, pageCount]);
+
+  const lastPage = pages[pageCount - 1];
+  const loading = Boolean(baseQuery) && !pages[0];
+  const loadingMore = Boolean(baseQuery) && pageCount > 1 && !lastPage;
+  const hasMore = Boolean(baseQuery) && !error && Boolean(lastPage) && lastPage.length >= pageSize;
+
+  const loadMore = useCallback(() => {
+    if (!hasMore || loadingMore) return;
+    const cursor = lastPage[lastPage.length - 1];
+    console.log(`📄 Loading page ${pageCount} of ${label}`);
+    setState(prev => {
+      const current = prev.base === baseQuery ? prev : emptyState(baseQuery);
+      return { ...current, cursors: [...current.cursors, cursor] };
+    });
+  }, [hasMore, loadingMore, lastPage, pageCount, label, baseQuery]);
+
+  return { docs, loading, loadingMore, error, hasMore, loadMore };
+}
@@ -0,0 +1,40 @@
+// hooks/usePendingSync.ts
+// Number of offline mutations waiting to be replayed (see services/offlineQueue.ts)
+// Used by the Sidebar "N changes pending sync" indicator
+
+import { useState, useEffect } from 'react';
+import {
+  getPendingCount,
+  subscribePendingCount,
+  startOfflineSync,
+} from '@/services/offlineQueue';
+
+interface UsePendingSyncReturn {
+  pendingCount: number;
+  isOnline: boolean;
+}
+
+export function usePendingSync(): UsePendingSyncReturn {
+  const [pendingCount, setPendingCount] = useState(getPendingCount);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    startOfflineSync();
+    setPendingCount(getPendingCount());
+    return subscribePendingCount(setPendingCount);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { pendingCount, isOnline };
+}
@@ -0,0 +1,28 @@
+// hooks/usePhishingCheck.ts
+// Phishing/spoofing signals for an email card (see utils/phishing.ts)
+
+import { useMemo } from 'react';
+import type { Email } from '@/components/inbox/types';
+import { detectPhishing, PhishingReason } from '@/utils/phishing';
+
+const NO_REASONS: PhishingReason[] = [];
+
+/**
+ * @param knownAddresses - The user's contacts (useContacts)
+ * @param userEmail - Emails the user sent themselves are never flagged
+ */
+export function usePhishingCheck(email: Email, knownAddresses: string[], userEmail: string): PhishingReason[] {
+  return useMemo(() => {
+    if (!email.senderEmail || email.senderEmail.toLowerCase() === userEmail?.toLowerCase()) return NO_REASONS;
+    return detectPhishing(
+      {
+        senderName: email.sender,
+        senderEmail: email.senderEmail,
+        body: email.body,
+        authenticationResults: email.authentication_results,
+      },
+      knownAddresses,
+      userEmail
+    );
+  }, [email.sender, email.senderEmail, email.body, email.authentication_results, knownAddresses, userEmail]);
+}
@@ -0,0 +1,46 @@
+// hooks/useRawEmail.ts
+// Original source of an email (getEmailRaw) for "Show original"
+// Only fetched while the viewer is open; never cached (can be large)
+
+import { useState, useEffect } from 'react';
+import { getEmailRaw } from '@/services/emailApi';
+import { isAbortError } from '@/services/apiClient';
+
+interface UseRawEmailReturn {
+  raw: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * @param enabled - Only fetch while true (the modal is open)
+ */
+export function useRawEmail(emailId: string | undefined, enabled: boolean): UseRawEmailReturn {
+  const [raw, setRaw] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!emailId || !enabled) return;
+
+    const controller = new AbortController();
+    setRaw(null);
+    setLoading(true);
+    setError(null);
+
+    getEmailRaw(emailId, controller.signal)
+      .then((data) => setRaw(data.raw))
+      .catch((err) => {
+        if (isAbortError(err)) return;
+        console.error('Error fetching original message:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load original message');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [emailId, enabled]);
+
+  return { raw, loading, error };
+}
@@ -132,41 +132,8 @@ export function useScheduledEmails(userId: string | undefined): UseScheduledEmai
   return { emails, loading, error, refresh };
 }
 
-// Helper function to format scheduled time
-export function formatScheduledTime(isoString: string): string {
-  if (!isoString) return '';
-  
-  try {
-    const date = new Date(isoString);
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    
-    const isToday = date.toDateString() === now.toDateString();
-    const isTomorrow = date.toDateString() === tomorrow.toDateString();
-    
-    const timeStr = date.toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-    
-    if (isToday) {
-      return `Today at ${timeStr}`;
-    } else if (isTomorrow) {
-      return `Tomorrow at ${timeStr}`;
-    } else {
-      const dateStr = date.toLocaleDateString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric'
-      });
-      return `${dateStr} at ${timeStr}`;
-    }
-  } catch {
-    return isoString;
-  }
-}
+// Scheduled time in the user's timezone ("Today at 3:45 PM", "Tomorrow at 9:00 AM", ...)
+export { formatScheduledTime } from '@/utils/dateTime';
 
 // Helper function to get time until send
 export function getTimeUntilSend(isoString: string): string {
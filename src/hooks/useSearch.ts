@@ -4,9 +4,10 @@
 // - Keyboard shortcut handling ("/" to open)
 // - Search history (optional)
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { searchEmails, SearchResult } from '@/services/searchApi';
-import { auth } from '@/firebase.config';
+import { isAbortError } from '@/services/apiClient';
+import { useShortcuts } from '@/context/ShortcutsContext';
 
 interface UseSearchOptions {
   enableKeyboardShortcut?: boolean;
@@ -52,9 +53,13 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
   // Selected result
   const [selectedResult, setSelectedResult] = useState<SearchResult | null>(null);
   
+  // In-flight search - aborted when a newer search starts or the modal closes
+  const abortRef = useRef<AbortController | null>(null);
+  
   // Modal controls
   const openSearch = useCallback(() => setIsSearchOpen(true), []);
   const closeSearch = useCallback(() => {
+    abortRef.current?.abort();
     setIsSearchOpen(false);
     // Reset state on close
     setQuery('');
@@ -70,18 +75,17 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
     const q = searchQuery || query;
     if (!q.trim()) return;
     
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    
     setIsSearching(true);
     setError(null);
     setHasSearched(true);
     setSelectedResult(null);
     
     try {
-      const token = await auth.currentUser?.getIdToken();
-      if (!token) {
-        throw new Error('Not authenticated');
-      }
-      
-      const searchResults = await searchEmails(q, token);
+      const searchResults = await searchEmails(q, controller.signal);
       setResults(searchResults);
       
       // Auto-select first result
@@ -89,11 +93,15 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
         setSelectedResult(searchResults[0]);
       }
     } catch (err) {
+      // A newer search replaced this one - leave its state alone
+      if (isAbortError(err)) return;
       console.error('Search error:', err);
       setError(err instanceof Error ? err.message : 'Search failed');
       setResults([]);
     } finally {
-      setIsSearching(false);
+      if (abortRef.current === controller) {
+        setIsSearching(false);
+      }
     }
   }, [query]);
   
@@ -105,32 +113,10 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
     setSelectedResult(null);
   }, []);
   
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    if (!enableKeyboardShortcut) return;
-    
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't trigger if user is typing in an input or textarea
-      const target = e.target as HTMLElement;
-      if (
-        target.tagName === 'INPUT' ||
-        target.tagName === 'TEXTAREA' ||
-        target.isContentEditable ||
-        target.closest('[data-modal]') // Don't trigger inside modals
-      ) {
-        return;
-      }
-      
-      // "/" key to open search
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey && !e.altKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [enableKeyboardShortcut]);
+  // Keyboard shortcut: "/" to open search (rebindable - see utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, enableKeyboardShortcut && !isSearchOpen);
   
   return {
     // Modal state
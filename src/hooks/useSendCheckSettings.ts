@@ -0,0 +1,13 @@
+// hooks/useSendCheckSettings.ts
+// Which send checks are on - re-renders when Settings changes them (see utils/sendChecks.ts)
+
+import { useSyncExternalStore } from 'react';
+import {
+  getSendCheckSettings,
+  subscribeToSendCheckSettings,
+  SendCheckSettings,
+} from '@/utils/sendChecks';
+
+export function useSendCheckSettings(): SendCheckSettings {
+  return useSyncExternalStore(subscribeToSendCheckSettings, getSendCheckSettings);
+}
@@ -0,0 +1,56 @@
+// hooks/useSendChecks.ts
+// Runs the send checks (utils/sendChecks.ts) right before a modal sends.
+// confirmSend() resolves true straight away when nothing is off; otherwise the
+// warnings are exposed for SendCheckDialog and it resolves with the user's choice.
+// confirmWarnings() asks about warnings the caller found itself (mail merge blank fields).
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useContacts } from '@/hooks/useContacts';
+import { findSendWarnings, type OutgoingMessage, type SendWarning } from '@/utils/sendChecks';
+
+interface UseSendChecksReturn {
+  confirmSend: (message: OutgoingMessage) => Promise<boolean>;
+  confirmWarnings: (warnings: SendWarning[]) => Promise<boolean>;
+  warnings: SendWarning[] | null;               // Waiting on the dialog
+  resolveWarnings: (sendAnyway: boolean) => void;
+}
+
+/**
+ * @param enabled - Only load contacts while true (e.g. while the modal is open)
+ */
+export function useSendChecks(userEmail: string, enabled: boolean): UseSendChecksReturn {
+  const { contacts } = useContacts(enabled);
+  const [warnings, setWarnings] = useState<SendWarning[] | null>(null);
+  const resolveRef = useRef<((sendAnyway: boolean) => void) | null>(null);
+
+  const confirmWarnings = useCallback((found: SendWarning[]): Promise<boolean> => {
+    // Already asking (send shortcut pressed again) - this attempt doesn't go out
+    if (resolveRef.current) return Promise.resolve(false);
+    if (found.length === 0) return Promise.resolve(true);
+
+    console.log('🛡️ Send checks:', found.map((warning) => warning.check).join(', '));
+    setWarnings(found);
+    return new Promise((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const confirmSend = useCallback(
+    (message: OutgoingMessage): Promise<boolean> =>
+      confirmWarnings(findSendWarnings(message, { userEmail, contacts })),
+    [userEmail, contacts, confirmWarnings]
+  );
+
+  const resolveWarnings = useCallback((sendAnyway: boolean) => {
+    resolveRef.current?.(sendAnyway);
+    resolveRef.current = null;
+    setWarnings(null);
+  }, []);
+
+  // Closed while asking - that send doesn't happen
+  useEffect(() => {
+    if (!enabled) resolveWarnings(false);
+  }, [enabled, resolveWarnings]);
+
+  return { confirmSend, confirmWarnings, warnings, resolveWarnings };
+}
@@ -0,0 +1,13 @@
+// hooks/useShortcutBindings.ts
+// Current keyboard shortcut bindings - re-renders when the user rebinds (see utils/shortcuts.ts)
+
+import { useSyncExternalStore } from 'react';
+import {
+  getShortcutBindings,
+  subscribeToShortcutBindings,
+  ShortcutBindings,
+} from '@/utils/shortcuts';
+
+export function useShortcutBindings(): ShortcutBindings {
+  return useSyncExternalStore(subscribeToShortcutBindings, getShortcutBindings);
+}
@@ -3,8 +3,9 @@
 // v1.0: Initial implementation
 
 import { useState, useEffect } from 'react';
-import { collection, query, orderBy, onSnapshot, limit } from 'firebase/firestore';
+import { collection, query, orderBy, limit } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
 
 // Spam email interface matching the spam_emails collection schema
 export interface SpamEmail {
@@ -62,7 +63,8 @@ export function useSpamEmails(userId: string | undefined): UseSpamEmailsResult {
       limit(100)
     );
 
-    const unsubscribe = onSnapshot(
+    const unsubscribe = subscribeToQuery(
+      'spam_emails',
       q,
       (snapshot) => {
         const spamEmails: SpamEmail[] = snapshot.docs.map((doc) => {
@@ -2,11 +2,15 @@
 // v2.0: Added 'to' field for participants panel
 // v2.1: Added 'message_id' for tracking lookup
 // v2.2: Fixed hasAttachment to read from Firestore field, added attachments array
+// v2.3: Docs mapped + validated by emailConverter (canonical EmailMessage)
+// v2.4: Dates formatted by utils/dateTime in the user's timezone
 
 import { useState, useEffect } from 'react';
 import { collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { emailConverter } from '@/services/firestoreConverters';
 import { Email } from '../components/inbox/types';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
 
 interface UseThreadEmailsReturn {
   emails: Email[];
@@ -14,84 +18,6 @@ interface UseThreadEmailsReturn {
   error: string | null;
 }
 
-// Firestore timestamp type
-interface FirestoreTimestamp {
-  seconds: number;
-  nanoseconds: number;
-  toDate: () => Date;
-}
-
-type DateValue = string | number | Date | FirestoreTimestamp | null | undefined;
-
-// Helper: Get raw timestamp for sorting
-function getTimestamp(internalDate: DateValue): number {
-  if (internalDate === null || internalDate === undefined) return 0;
-  
-  if (internalDate && typeof internalDate === 'object' && 'toDate' in internalDate && typeof internalDate.toDate === 'function') {
-    return internalDate.toDate().getTime();
-  } else if (internalDate && typeof internalDate === 'object' && 'seconds' in internalDate) {
-    return internalDate.seconds * 1000;
-  } else if (typeof internalDate === 'string') {
-    const parsed = parseInt(internalDate, 10);
-    if (!isNaN(parsed)) {
-      return parsed;
-    }
-    return new Date(internalDate).getTime() || 0;
-  } else if (typeof internalDate === 'number') {
-    return internalDate;
-  } else if (internalDate instanceof Date) {
-    return internalDate.getTime();
-  }
-  return 0;
-}
-
-// Helper: Format time for display
-function formatTime(internalDate: DateValue): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-
-  if (emailDate >= today) {
-    return emailDate.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
-  } else if (emailDate >= yesterday) {
-    return 'Yesterday';
-  } else {
-    return emailDate.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric' 
-    });
-  }
-}
-
-// Helper: Format full date
-function formatDate(internalDate: DateValue): string {
-  if (internalDate === null || internalDate === undefined) return '';
-  
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  return emailDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric'
-  });
-}
-
 // Helper: Extract sender name
 function extractSenderName(from: string, fromName: string): string {
   if (fromName) return fromName;
@@ -129,7 +55,7 @@ export function useThreadEmails(
       setError(null);
 
       try {
-        const emailsRef = collection(db, 'users', userId, 'emails');
+        const emailsRef = collection(db, 'users', userId, 'emails').withConverter(emailConverter);
         
         // Firestore 'in' query supports max 10 items, batch if needed
         const batches: string[][] = [];
@@ -148,31 +74,34 @@ export function useThreadEmails(
           const snapshot = await getDocs(q);
           
           snapshot.forEach((doc) => {
-            const data = doc.data();
-            const internalDate = data.internal_date || data.internalDate || data.date || data.received_at || null;
+            const message = doc.data();
             
             allEmails.push({
-              id: doc.id,
-              sender: extractSenderName(data.from || '', data.from_name || ''),
-              senderEmail: extractEmail(data.from || ''),
-              subject: data.subject || '(No Subject)',
-              preview: data.snippet || '',
-              body: data.body_html || data.body_plain || data.snippet || '',
-              time: formatTime(internalDate),
-              date: formatDate(internalDate),
-              isRead: data.is_read || false,
+              id: message.id,
+              sender: extractSenderName(message.from, message.from_name),
+              senderEmail: extractEmail(message.from),
+              subject: message.subject,
+              preview: message.snippet,
+              body: message.body_html || message.body_plain || message.snippet,
+              time: formatListTime(message.internal_date),
+              date: formatFullDate(message.internal_date),
+              isRead: message.is_read,
               // v2.2 FIX: Read hasAttachment directly from Firestore, not from gmail_labels
-              hasAttachment: data.hasAttachment === true,
+              hasAttachment: message.has_attachment,
               // v2.2: Include attachments array from Firestore
-              attachments: data.attachments || [],
-              timestamp: getTimestamp(internalDate),
+              attachments: message.attachments,
+              timestamp: message.internal_date,
               // v2.0: Add recipients for participants panel
-              to: data.to || [],
+              to: message.to,
+              cc: message.cc,
+              bcc: message.bcc,
+              reply_to: message.reply_to,
               // v2.1: Add Gmail message ID for tracking lookup
-              message_id: data.message_id || null,
-              outpost_user_photo: data.outpost_user_photo || null,
-              outpost_recipient_photo: data.outpost_recipient_photo || null,
-              unsubscribe_url: data.unsubscribe_url || null,
+              message_id: message.message_id,
+              outpost_user_photo: message.outpost_user_photo,
+              outpost_recipient_photo: message.outpost_recipient_photo,
+              unsubscribe_url: message.unsubscribe_url,
+              authentication_results: message.authentication_results,
             });
           });
         }
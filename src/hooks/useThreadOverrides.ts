@@ -0,0 +1,335 @@
+// hooks/useThreadOverrides.ts
+// Shared optimistic state for thread/email mutations (read, done, delete, labels)
+// Lives in the react-query cache, so every page sees the same overrides:
+// marking a thread done in a label view hides it in the inbox immediately.
+//
+// Overrides sit on top of the Firestore data until it catches up:
+// - is_read / labels / moved are dropped once Firestore reports the same value
+// - is_done / is_deleted / is_spam / moved are dropped once the thread has left the list
+//   that still showed it, on undo, on failure, or when a newer email arrives in the thread
+
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+import { useAuth } from '@/context/AuthContext';
+import type { ThreadLabel } from '@/types/inbox';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export type { ThreadLabel };
+
+export interface ThreadOverride {
+  is_read?: boolean;
+  is_done?: boolean;
+  is_deleted?: boolean;
+  is_spam?: boolean;
+  labels?: ThreadLabel[];
+  moved?: { from: string; to: string };
+  // When the override was last written (ms) - used to detect newer emails
+  updated_at?: number;
+  // reconcile() source whose list still had the hidden thread - its leaving that list means Firestore caught up
+  listed_in?: string;
+}
+
+export interface EmailOverride {
+  is_done?: boolean;
+  is_deleted?: boolean;
+}
+
+type OverrideEntity = 'threads' | 'emails';
+
+interface OverrideState {
+  threads: Record<string, ThreadOverride>;
+  emails: Record<string, EmailOverride>;
+}
+
+// Minimal thread shape the overrides are applied to
+interface OverridableThread {
+  thread_id: string;
+  is_read?: boolean;
+  last_email_date?: string;
+  labels?: ThreadLabel[];
+  category?: string;
+  user_category?: string;
+}
+
+export interface OptimisticCommit {
+  entity: OverrideEntity;
+  ids: string[];
+  // Applied before the request; omit when it was already applied (undo windows)
+  patch?: ThreadOverride | EmailOverride;
+  // Applied if the request fails; defaults to restoring the pre-patch state
+  rollback?: ThreadOverride | EmailOverride;
+  request: () => Promise<unknown>;
+}
+
+interface OptimisticContext {
+  previous: Record<string, ThreadOverride | EmailOverride | undefined>;
+}
+
+export const THREAD_OVERRIDES_QUERY_KEY = 'thread-overrides';
+
+const EMPTY_STATE: OverrideState = { threads: {}, emails: {} };
+
+// ======================================================
+// PURE HELPERS
+// ======================================================
+
+// Bookkeeping keys - an override with nothing else left is dropped
+const META_KEYS = ['updated_at', 'listed_in'];
+
+// Merge a patch into an override - `undefined` values remove the key
+function mergeOverride<T extends object>(current: T | undefined, patch: T): T | undefined {
+  const next = { ...(current || {}) } as Record<string, unknown>;
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  });
+  const keys = Object.keys(next).filter((key) => !META_KEYS.includes(key));
+  return keys.length > 0 ? (next as T) : undefined;
+}
+
+function patchEntities(
+  state: OverrideState,
+  entity: OverrideEntity,
+  ids: string[],
+  patch: ThreadOverride | EmailOverride
+): OverrideState {
+  const entities = { ...state[entity] } as Record<string, ThreadOverride | EmailOverride>;
+  const stampedPatch = entity === 'threads' ? { ...patch, updated_at: Date.now() } : patch;
+
+  ids.forEach((id) => {
+    const merged = mergeOverride(entities[id], stampedPatch);
+    if (merged) {
+      entities[id] = merged;
+    } else {
+      delete entities[id];
+    }
+  });
+
+  return { ...state, [entity]: entities };
+}
+
+function restoreEntities(
+  state: OverrideState,
+  entity: OverrideEntity,
+  previous: Record<string, ThreadOverride | EmailOverride | undefined>
+): OverrideState {
+  const entities = { ...state[entity] } as Record<string, ThreadOverride | EmailOverride>;
+  Object.entries(previous).forEach(([id, value]) => {
+    if (value) {
+      entities[id] = value;
+    } else {
+      delete entities[id];
+    }
+  });
+  return { ...state, [entity]: entities };
+}
+
+function sameLabels(a: ThreadLabel[] = [], b: ThreadLabel[] = []): boolean {
+  if (a.length !== b.length) return false;
+  const ids = new Set(a.map((l) => l.id));
+  return b.every((l) => ids.has(l.id));
+}
+
+// Overrides that take the thread out of a list
+function hidesThread(override: ThreadOverride): boolean {
+  return !!(override.is_done || override.is_deleted || override.is_spam || override.moved);
+}
+
+
+// ======================================================
+// HOOK
+// ======================================================
+
+export function useThreadOverrides() {
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuth();
+
+  // Per-user key: another account never sees these overrides
+  const queryKey = useMemo(
+    () => [THREAD_OVERRIDES_QUERY_KEY, currentUser?.uid ?? 'anonymous'],
+    [currentUser?.uid]
+  );
+
+  const { data: state = EMPTY_STATE } = useQuery<OverrideState>({
+    queryKey,
+    queryFn: () => EMPTY_STATE,
+    initialData: EMPTY_STATE,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+
+  const setState = useCallback((updater: (prev: OverrideState) => OverrideState) => {
+    queryClient.setQueryData<OverrideState>(queryKey, (prev) => updater(prev || EMPTY_STATE));
+  }, [queryClient, queryKey]);
+
+  // ==================== OPTIMISTIC UPDATES ====================
+
+  const updateThreads = useCallback((threadIds: string[], patch: ThreadOverride) => {
+    setState((prev) => patchEntities(prev, 'threads', threadIds, patch));
+  }, [setState]);
+
+  const updateEmails = useCallback((emailIds: string[], patch: EmailOverride) => {
+    setState((prev) => patchEntities(prev, 'emails', emailIds, patch));
+  }, [setState]);
+
+  // ==================== MUTATIONS WITH ROLLBACK ====================
+
+  const { mutateAsync } = useMutation<unknown, Error, OptimisticCommit, OptimisticContext>({
+    mutationFn: (variables) => variables.request(),
+    onMutate: (variables) => {
+      const current = queryClient.getQueryData<OverrideState>(queryKey) || EMPTY_STATE;
+      const previous: OptimisticContext['previous'] = {};
+      variables.ids.forEach((id) => {
+        previous[id] = current[variables.entity][id];
+      });
+
+      if (variables.patch) {
+        setState((prev) => patchEntities(prev, variables.entity, variables.ids, variables.patch));
+      }
+      return { previous };
+    },
+    onError: (error, variables, context) => {
+      console.error('❌ Optimistic update rolled back:', error);
+      if (variables.rollback) {
+        setState((prev) => patchEntities(prev, variables.entity, variables.ids, variables.rollback));
+      } else if (context) {
+        setState((prev) => restoreEntities(prev, variables.entity, context.previous));
+      }
+    },
+  });
+
+  /**
+   * Apply `patch` now, run `request`, roll back if it fails.
+   * Rejects with the request error after rolling back.
+   */
+  const commit = useCallback((variables: OptimisticCommit) => {
+    return mutateAsync(variables);
+  }, [mutateAsync]);
+
+  // ==================== READING ====================
+
+  /**
+   * Apply overrides to a thread list:
+   * - hides done/deleted/spam threads and threads moved out of `category`
+   * - overlays is_read and labels
+   */
+  const applyOverrides = useCallback(<T extends OverridableThread>(threads: T[], category?: string): T[] => {
+    return threads
+      .filter((thread) => {
+        const override = state.threads[thread.thread_id];
+        if (!override) return true;
+        if (override.is_done || override.is_deleted || override.is_spam) return false;
+        return !(override.moved && category && category.toUpperCase() === override.moved.from);
+      })
+      .map((thread) => {
+        const override = state.threads[thread.thread_id];
+        if (!override) return { ...thread, labels: thread.labels || [] };
+        return {
+          ...thread,
+          is_read: override.is_read ?? thread.is_read,
+          labels: override.labels || thread.labels || [],
+        };
+      });
+  }, [state.threads]);
+
+  const isThreadUnread = useCallback((thread: OverridableThread): boolean => {
+    const override = state.threads[thread.thread_id];
+    if (override?.is_read !== undefined) return !override.is_read;
+    return thread.is_read === false;
+  }, [state.threads]);
+
+  // ==================== RECONCILE ====================
+
+  /**
+   * Drop overrides that Firestore has caught up with.
+   * Call from an effect whenever a page receives fresh thread data - only once it
+   * has loaded, since a thread missing from `threads` counts as having left it.
+   * @param source - Names the list (e.g. 'inbox', 'label:Work'); hidden threads are
+   *                 only settled by the list that last showed them
+   */
+  const reconcile = useCallback((threads: OverridableThread[], source: string) => {
+    setState((prev) => {
+      let changed = false;
+      const next = { ...prev.threads };
+      const present = new Map(threads.map((thread) => [thread.thread_id, thread]));
+
+      Object.entries(prev.threads).forEach(([threadId, override]) => {
+        const thread = present.get(threadId);
+        const patch: ThreadOverride = {};
+
+        if (!thread) {
+          // Gone from the list that still had it - Firestore reflects the done/delete/spam/move
+          if (hidesThread(override) && override.listed_in === source) {
+            changed = true;
+            delete next[threadId];
+          }
+        } else {
+          if (override.is_read !== undefined && override.is_read === thread.is_read) {
+            patch.is_read = undefined;
+          }
+          if (override.labels && thread.labels && sameLabels(override.labels, thread.labels)) {
+            patch.labels = undefined;
+          }
+          const category = (thread.user_category || thread.category || '').toUpperCase();
+          if (override.moved && category === override.moved.to.toUpperCase()) {
+            patch.moved = undefined;
+          }
+          // A newer email arrived after the thread was hidden - show it again
+          const lastEmailAt = thread.last_email_date ? Date.parse(thread.last_email_date) : NaN;
+          if ((override.is_done || override.is_deleted) && lastEmailAt > (override.updated_at || 0)) {
+            patch.is_done = undefined;
+            patch.is_deleted = undefined;
+          }
+          if (hidesThread({ ...override, ...patch }) && override.listed_in !== source) {
+            patch.listed_in = source;
+          }
+        }
+
+        if (Object.keys(patch).length === 0) return;
+        changed = true;
+        const merged = mergeOverride(override, patch);
+        if (merged) {
+          next[threadId] = merged;
+        } else {
+          delete next[threadId];
+        }
+      });
+
+      return changed ? { ...prev, threads: next } : prev;
+    });
+  }, [setState]);
+
+  /**
+   * Drop email overrides whose email has left the given list
+   * (e.g. an undone email is no longer in the Done query).
+   * Call once the list has finished loading.
+   */
+  const reconcileEmails = useCallback((emails: Array<{ id: string }>, flag: keyof EmailOverride) => {
+    setState((prev) => {
+      const present = new Set(emails.map((email) => email.id));
+      const settled = Object.keys(prev.emails).filter(
+        (id) => prev.emails[id][flag] !== undefined && !present.has(id)
+      );
+      if (settled.length === 0) return prev;
+      return patchEntities(prev, 'emails', settled, { [flag]: undefined });
+    });
+  }, [setState]);
+
+  return {
+    threadOverrides: state.threads,
+    emailOverrides: state.emails,
+    applyOverrides,
+    isThreadUnread,
+    updateThreads,
+    updateEmails,
+    commit,
+    reconcile,
+    reconcileEmails,
+  };
+}
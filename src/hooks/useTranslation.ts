@@ -0,0 +1,30 @@
+// hooks/useTranslation.ts
+// Translations for components - re-renders when the language changes (see i18n/index.ts)
+
+import { useSyncExternalStore } from 'react';
+import {
+  t,
+  getLanguage,
+  getLanguageInfo,
+  setLanguage,
+  subscribeToLanguage,
+  LanguageCode,
+  TextDirection,
+} from '@/i18n';
+
+interface UseTranslationReturn {
+  t: typeof t;
+  language: LanguageCode;
+  dir: TextDirection;
+  setLanguage: (code: LanguageCode) => void;
+}
+
+export function useTranslation(): UseTranslationReturn {
+  const language = useSyncExternalStore(subscribeToLanguage, getLanguage);
+  return {
+    t,
+    language,
+    dir: getLanguageInfo(language).dir,
+    setLanguage,
+  };
+}
@@ -1,121 +1,82 @@
 // hooks/useTrashedEmails.ts - Fetch deleted/trashed emails from Firestore
+// v1.1: Cursor-paginated - call loadMore() for older emails
+// v1.2: Docs mapped + validated by emailConverter (canonical EmailMessage)
+// v1.3: Dates formatted by utils/dateTime in the user's timezone
 
-import { useState, useEffect } from 'react';
-import { collection, query, where, orderBy, onSnapshot, Timestamp } from 'firebase/firestore';
+import { useMemo } from 'react';
+import { collection, query, where, orderBy } from 'firebase/firestore';
 import { db } from '@/firebase.config';
+import { emailConverter } from '@/services/firestoreConverters';
+import { usePaginatedQuery, DEFAULT_PAGE_SIZE } from './usePaginatedQuery';
+import { useDateTimePreferences } from './useDateTimePreferences';
+import { formatListTime, formatFullDate } from '@/utils/dateTime';
 import { Email } from '@/components/inbox/types';
+import type { EmailMessage } from '@/types/inbox';
 
 interface UseTrashedEmailsResult {
   emails: Email[];
   loading: boolean;
   error: string | null;
+  // Pagination
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => void;
 }
 
-export function useTrashedEmails(userId: string | undefined): UseTrashedEmailsResult {
-  const [emails, setEmails] = useState<Email[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!userId) {
-      setEmails([]);
-      setLoading(false);
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
+// Map a trashed email to the list Email shape
+function toTrashedEmail(message: EmailMessage): Email {
+  return {
+    id: message.id,
+    thread_id: message.thread_id || message.id, // Include thread_id for thread loading
+    sender: message.from_name || message.from.split('<')[0]?.trim() || 'Unknown',
+    senderEmail: message.from_email,
+    subject: message.subject,
+    preview: message.snippet,
+    body: message.body_html || message.snippet,
+    time: formatListTime(message.internal_date),
+    date: formatFullDate(message.internal_date),
+    isRead: message.is_read,
+    hasAttachment: message.has_attachment,
+    timestamp: message.internal_date,
+    to: message.to,
+  };
+}
 
-    // Query: deleted == true, ordered by deleted_at desc
-    const emailsRef = collection(db, 'users', userId, 'emails');
-    const q = query(
-      emailsRef,
+export function useTrashedEmails(userId: string | undefined): UseTrashedEmailsResult {
+  // Query: deleted == true, ordered by deleted_at desc
+  const baseQuery = useMemo(() => {
+    if (!userId) return null;
+    return query(
+      collection(db, 'users', userId, 'emails').withConverter(emailConverter),
       where('deleted', '==', true),
       orderBy('deleted_at', 'desc')
     );
+  }, [userId]);
 
-    const unsubscribe = onSnapshot(
-      q,
-      (snapshot) => {
-        const emailList: Email[] = snapshot.docs.map((doc) => {
-          const data = doc.data();
-          
-          // Format time for display - handle both Firestore Timestamp and number
-          let timeDisplay = '';
-          let dateDisplay = '';
-          
-          // Get the date - could be Firestore Timestamp, number (ms), or string
-          let emailDate: Date | null = null;
-          
-          if (data.internal_date) {
-            if (data.internal_date instanceof Timestamp) {
-              emailDate = data.internal_date.toDate();
-            } else if (typeof data.internal_date === 'number') {
-              emailDate = new Date(data.internal_date);
-            } else if (data.internal_date?.seconds) {
-              // Firestore Timestamp object format
-              emailDate = new Date(data.internal_date.seconds * 1000);
-            } else if (typeof data.internal_date === 'string') {
-              emailDate = new Date(data.internal_date);
-            }
-          }
-          
-          if (emailDate && !isNaN(emailDate.getTime())) {
-            const now = new Date();
-            const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-            const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-            
-            if (emailDate >= today) {
-              timeDisplay = emailDate.toLocaleTimeString('en-US', { 
-                hour: 'numeric', 
-                minute: '2-digit',
-                hour12: true 
-              });
-            } else if (emailDate >= yesterday) {
-              timeDisplay = 'Yesterday';
-            } else {
-              timeDisplay = emailDate.toLocaleDateString('en-US', { 
-                month: 'short', 
-                day: 'numeric' 
-              });
-            }
-            
-            dateDisplay = emailDate.toLocaleDateString('en-US', {
-              month: 'short',
-              day: 'numeric',
-              year: 'numeric'
-            });
-          }
+  const {
+    docs,
+    loading,
+    loadingMore,
+    error,
+    hasMore,
+    loadMore,
+  } = usePaginatedQuery('emails:trash', baseQuery, DEFAULT_PAGE_SIZE);
 
-          return {
-            id: doc.id,
-            thread_id: data.thread_id || doc.id, // Include thread_id for thread loading
-            sender: data.sender_name || data.from?.split('<')[0]?.trim() || 'Unknown',
-            senderEmail: data.from?.match(/<(.+)>/)?.[1] || data.from || '',
-            subject: data.subject || '(No subject)',
-            preview: data.snippet || '',
-            body: data.body || data.snippet || '',
-            time: timeDisplay,
-            date: dateDisplay,
-            isRead: data.is_read || false,
-            hasAttachment: data.has_attachment || false,
-            to: data.to || '',
-            category: data.category || 'OTHER',
-          };
-        });
+  const { timeZone } = useDateTimePreferences();
 
-        setEmails(emailList);
-        setLoading(false);
-      },
-      (err) => {
-        console.error('Error fetching trashed emails:', err);
-        setError(err.message);
-        setLoading(false);
-      }
-    );
+  const emails = useMemo(
+    () => docs.map((doc) => toTrashedEmail(doc.data())),
+    // timeZone isn't read here, but every formatted date depends on it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [docs, timeZone]
+  );
 
-    return () => unsubscribe();
-  }, [userId]);
-
-  return { emails, loading, error };
-}
\ No newline at end of file
+  return {
+    emails,
+    loading,
+    error,
+    hasMore,
+    loadingMore,
+    loadMore,
+  };
+}
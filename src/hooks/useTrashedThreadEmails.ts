@@ -1,9 +1,11 @@
 // hooks/useTrashedThreadEmails.ts - Fetch thread emails including deleted ones for Trash view
+// v1.1: Dates parsed + formatted by utils/dateTime in the user's timezone
 
 import { useState, useEffect } from 'react';
-import { collection, query, where, orderBy, onSnapshot, Timestamp } from 'firebase/firestore';
+import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
 import { db } from '@/firebase.config';
 import { Email } from '@/components/inbox/types';
+import { formatListTime, formatFullDate, toMillis } from '@/utils/dateTime';
 
 interface UseTrashedThreadEmailsReturn {
   emails: Email[];
@@ -11,60 +13,6 @@ interface UseTrashedThreadEmailsReturn {
   error: string | null;
 }
 
-// Helper: Get raw timestamp for sorting
-function getTimestamp(internalDate: unknown): number {
-  if (internalDate === null || internalDate === undefined) return 0;
-  
-  if (internalDate instanceof Timestamp) {
-    return internalDate.toDate().getTime();
-  } else if (internalDate && typeof internalDate === 'object' && 'toDate' in internalDate && typeof (internalDate as { toDate: () => Date }).toDate === 'function') {
-    return (internalDate as { toDate: () => Date }).toDate().getTime();
-  } else if (internalDate && typeof internalDate === 'object' && 'seconds' in internalDate) {
-    return (internalDate as { seconds: number }).seconds * 1000;
-  } else if (typeof internalDate === 'string') {
-    const parsed = parseInt(internalDate, 10);
-    if (!isNaN(parsed)) {
-      return parsed;
-    }
-    return new Date(internalDate).getTime() || 0;
-  } else if (typeof internalDate === 'number') {
-    return internalDate;
-  } else if (internalDate instanceof Date) {
-    return internalDate.getTime();
-  }
-  return 0;
-}
-
-// Helper: Format time for display
-function formatTime(internalDate: unknown): string {
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  return emailDate.toLocaleTimeString('en-US', { 
-    hour: 'numeric', 
-    minute: '2-digit',
-    hour12: true 
-  });
-}
-
-// Helper: Format full date
-function formatDate(internalDate: unknown): string {
-  const timestamp = getTimestamp(internalDate);
-  if (timestamp === 0) return '';
-  
-  const emailDate = new Date(timestamp);
-  if (isNaN(emailDate.getTime())) return '';
-
-  return emailDate.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    year: 'numeric'
-  });
-}
-
 // Helper: Extract sender name from "from" field
 function extractSenderName(from: string): string {
   if (!from) return 'Unknown';
@@ -128,11 +76,11 @@ export function useTrashedThreadEmails(
               subject: data.subject || '(No Subject)',
               preview: data.snippet || '',
               body: data.body_html || data.body_plain || data.snippet || '',
-              time: formatTime(internalDate),
-              date: formatDate(internalDate),
+              time: formatListTime(internalDate),
+              date: formatFullDate(internalDate),
               isRead: data.is_read !== false,
               hasAttachment: data.gmail_labels?.includes('ATTACHMENT') || false,
-              timestamp: getTimestamp(internalDate),
+              timestamp: toMillis(internalDate),
             });
           });
 
@@ -0,0 +1,12 @@
+// hooks/useTrustedImageSenders.ts
+// Senders whose remote images always load for the signed-in account - re-renders when the list changes (see utils/remoteImages.ts)
+
+import { useSyncExternalStore } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { getTrustedImageSenders, subscribeToTrustedImageSenders } from '@/utils/remoteImages';
+
+export function useTrustedImageSenders(): ReadonlySet<string> {
+  const { currentUser } = useAuth();
+  const uid = currentUser?.uid;
+  return useSyncExternalStore(subscribeToTrustedImageSenders, () => getTrustedImageSenders(uid));
+}
@@ -0,0 +1,160 @@
+// i18n/index.ts - Translations, plurals and text direction
+// ✅ Message catalogs per language (i18n/locales) - English fills any missing key
+// ✅ Pluralization with Intl.PluralRules: t('toast.threadsDeleted', { count: 3 })
+// ✅ {placeholder} interpolation, numbers formatted for the language
+// ✅ Dates follow the language (utils/dateTime locale)
+// ✅ <html lang dir> kept in sync - RTL languages flip the layout (Tailwind ms-/me-/start-/end-)
+//
+// The language is module state (like utils/dateTime): call t() anywhere,
+// and use the useTranslation() hook in components so they re-render on change.
+
+import { setDateTimePreferences } from '@/utils/dateTime';
+import { en, MessageKey } from './locales/en';
+import { de } from './locales/de';
+import { ta } from './locales/ta';
+import type {
+  Catalog,
+  LanguageCode,
+  LanguageInfo,
+  Message,
+  MessageParams,
+  TextDirection,
+} from './types';
+
+export type { Catalog, LanguageCode, LanguageInfo, MessageKey, MessageParams, TextDirection };
+
+// ======================================================
+// LANGUAGES
+// ======================================================
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', locale: 'en-US', dir: 'ltr' },
+  { code: 'de', name: 'Deutsch', locale: 'de-DE', dir: 'ltr' },
+  { code: 'ta', name: 'தமிழ்', locale: 'ta-IN', dir: 'ltr' },
+];
+
+const catalogs: Record<LanguageCode, Catalog> = { en, de, ta };
+
+const DEFAULT_LANGUAGE: LanguageCode = 'en';
+const STORAGE_KEY = 'outpost_language';
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGES.some(language => language.code === value);
+}
+
+export function getLanguageInfo(code: LanguageCode = currentLanguage): LanguageInfo {
+  return LANGUAGES.find(language => language.code === code) || LANGUAGES[0];
+}
+
+// Saved choice on this device, else the browser language, else English
+function detectLanguage(): LanguageCode {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguageCode(saved)) return saved;
+  } catch {
+    // Storage unavailable (private mode) - fall through
+  }
+
+  const browser = typeof navigator !== 'undefined' ? navigator.language?.split('-')[0] : undefined;
+  return isLanguageCode(browser) ? browser : DEFAULT_LANGUAGE;
+}
+
+// ======================================================
+// STATE
+// ======================================================
+
+let currentLanguage: LanguageCode = DEFAULT_LANGUAGE;
+const listeners = new Set<() => void>();
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+
+function applyLanguage(code: LanguageCode): void {
+  const info = getLanguageInfo(code);
+
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = code;
+    document.documentElement.dir = info.dir;
+  }
+  setDateTimePreferences({ locale: info.locale });
+}
+
+/**
+ * Apply the detected language. Call once before the first render.
+ */
+export function initI18n(): void {
+  currentLanguage = detectLanguage();
+  applyLanguage(currentLanguage);
+  console.log(`🌍 Language: ${currentLanguage}`);
+}
+
+export function getLanguage(): LanguageCode {
+  return currentLanguage;
+}
+
+/**
+ * Switch the UI language (remembered on this device).
+ */
+export function setLanguage(code: LanguageCode): void {
+  if (!isLanguageCode(code)) {
+    console.warn(`⚠️ Unsupported language "${code}"`);
+    return;
+  }
+  if (code === currentLanguage) return;
+
+  currentLanguage = code;
+  try {
+    localStorage.setItem(STORAGE_KEY, code);
+  } catch {
+    // Not persisted - still applied for this session
+  }
+  applyLanguage(code);
+  console.log(`🌍 Language changed to ${code}`);
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToLanguage(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ======================================================
+// TRANSLATION
+// ======================================================
+
+function selectPluralForm(message: Message, count: number, locale: string): string {
+  if (typeof message === 'string') return message;
+
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRulesCache.set(locale, rules);
+  }
+  return message[rules.select(count)] ?? message.other;
+}
+
+function interpolate(template: string, params: MessageParams, locale: string): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? value.toLocaleString(locale) : value;
+  });
+}
+
+/**
+ * Translate `key` into the current language.
+ * Plural messages pick their form from `params.count`.
+ *
+ * @example t('nav.pendingSync', { count: 2 }) → "2 changes pending sync"
+ */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = catalogs[currentLanguage][key] ?? en[key];
+  if (message === undefined) {
+    console.warn(`⚠️ Missing translation key "${key}"`);
+    return key;
+  }
+
+  const { locale } = getLanguageInfo();
+  const count = typeof params.count === 'number' ? params.count : 1;
+  return interpolate(selectPluralForm(message, count, locale), params, locale);
+}
@@ -0,0 +1,474 @@
+// i18n/locales/de.ts - German
+
+import type { Catalog } from '../types';
+
+export const de: Catalog = {
+  // Navigation
+  'nav.inbox': 'Posteingang',
+  'nav.sent': 'Gesendet',
+  'nav.drafts': 'Entwürfe',
+  'nav.done': 'Erledigt',
+  'nav.scheduled': 'Geplant',
+  'nav.snoozed': 'Zurückgestellt',
+  'nav.attachments': 'Anhänge',
+  'nav.trash': 'Papierkorb',
+  'nav.spam': 'Spam',
+  'nav.navigation': 'Navigation',
+  'nav.labels': 'Labels',
+  'nav.createLabel': 'Label erstellen',
+  'nav.noLabels': 'Keine Labels',
+  'nav.setRules': 'Regeln festlegen',
+  'nav.senderRules': 'Absenderregeln',
+  'nav.pendingSync': {
+    one: '{count} Änderung wartet auf Synchronisierung',
+    other: '{count} Änderungen warten auf Synchronisierung',
+  },
+  'nav.offline': '(offline)',
+  'nav.loading': 'Wird geladen...',
+
+  // Categories
+  'category.urgent': 'Dringend',
+  'category.important': 'Wichtig',
+  'category.promises': 'Zusagen',
+  'category.awaiting': 'Ausstehend',
+  'category.others': 'Sonstiges',
+
+  // Commitments
+  'commitment.noDeadline': 'Keine Frist',
+  'commitment.overdue': {
+    one: '{count} Tag überfällig',
+    other: '{count} Tage überfällig',
+  },
+  'commitment.dueToday': 'Heute fällig',
+  'commitment.daysLeft': {
+    one: 'Noch {count} Tag',
+    other: 'Noch {count} Tage',
+  },
+  'commitment.sinceToday': 'Seit heute',
+  'commitment.waitingDays': {
+    one: 'Wartet seit {count} Tag',
+    other: 'Wartet seit {count} Tagen',
+  },
+  'commitment.waitingWeeks': {
+    one: 'Wartet seit {count} Woche',
+    other: 'Wartet seit {count} Wochen',
+  },
+  'commitment.waitingMonths': {
+    one: 'Wartet seit {count} Monat',
+    other: 'Wartet seit {count} Monaten',
+  },
+
+  // Toasts
+  'toast.undo': 'Rückgängig',
+  'toast.threadsTrashed': {
+    one: 'Konversation in den Papierkorb verschoben',
+    other: '{count} Konversationen in den Papierkorb verschoben',
+  },
+  'toast.threadsDone': {
+    one: 'Konversation nach „Erledigt“ verschoben',
+    other: '{count} Konversationen nach „Erledigt“ verschoben',
+  },
+  'toast.threadsDeleted': {
+    one: 'Konversation gelöscht',
+    other: '{count} Konversationen gelöscht',
+  },
+  'toast.movedTo': 'Verschoben nach {category}',
+  'toast.emailMovedTo': 'E-Mail verschoben nach {category}',
+  'toast.noSubject': '(Kein Betreff)',
+  'toast.sending': 'E-Mail wird gesendet...',
+  'toast.cancelling': 'Wird abgebrochen...',
+  'toast.emailCancelled': 'E-Mail abgebrochen',
+  'toast.notSent': 'Nachricht wurde nicht gesendet',
+  'toast.emailSent': 'E-Mail gesendet',
+  'toast.mayHaveBeenSent': 'E-Mail wurde möglicherweise bereits gesendet',
+  'toast.cancelFailed': 'Abbrechen fehlgeschlagen',
+  'toast.couldNotCancel': 'Abbrechen nicht möglich',
+  'toast.to': 'An: {recipients}',
+
+  // Dates
+  'time.today': 'Heute',
+  'time.yesterday': 'Gestern',
+  'time.lastWeek': 'Letzte Woche',
+  'time.lastMonth': 'Letzten Monat',
+  'time.other': 'Sonstige',
+  'time.justNow': 'gerade eben',
+  'time.minutesAgo': 'vor {count} Min.',
+  'time.hoursAgo': 'vor {count} Std.',
+  'time.daysAgo': 'vor {count} T.',
+  'time.todayAt': 'Heute um {time}',
+  'time.tomorrowAt': 'Morgen um {time}',
+  'time.dateAt': '{date} um {time}',
+
+  // Settings
+  'settings.title': 'Allgemein',
+  'settings.backToInbox': 'Zurück zum Posteingang',
+  'settings.account': 'Konto',
+  'settings.name': 'Name',
+  'settings.email': 'E-Mail',
+  'settings.preferences': 'Einstellungen',
+  'settings.timezone': 'Zeitzone',
+  'settings.language': 'Sprache',
+  'settings.saving': 'Wird gespeichert...',
+  'settings.session': 'Sitzung',
+  'settings.signOut': 'Abmelden',
+  'settings.dangerZone': 'Gefahrenbereich',
+  'settings.deleteWarning': 'Wenn du dein Konto löschst, gibt es kein Zurück. Bitte sei dir sicher.',
+  'settings.deleteAccount': 'Konto löschen',
+
+  // Keyboard shortcuts
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.description': 'Klicke auf ein Kürzel, um es zu ändern. Drücke überall ?, um alle zu sehen.',
+  'shortcuts.scope.global': 'Allgemein',
+  'shortcuts.scope.list': 'Konversationsliste',
+  'shortcuts.scope.detail': 'Geöffnete Konversation',
+  'shortcuts.scope.editor': 'Verfassen',
+  'shortcuts.then': 'dann',
+  'shortcuts.notSet': 'Nicht festgelegt',
+  'shortcuts.pressKeys': 'Tasten drücken...',
+  'shortcuts.conflict': 'Bereits belegt durch „{action}“',
+  'shortcuts.reset': 'Zurücksetzen',
+  'shortcuts.resetAll': 'Alle zurücksetzen',
+  'shortcuts.compose': 'Neue E-Mail verfassen',
+  'shortcuts.search': 'Suchen',
+  'shortcuts.showShortcuts': 'Tastenkürzel anzeigen',
+  'shortcuts.commandPalette': 'Befehlspalette öffnen',
+  'shortcuts.goInbox': 'Zum Posteingang',
+  'shortcuts.goSent': 'Zu Gesendet',
+  'shortcuts.goDrafts': 'Zu Entwürfe',
+  'shortcuts.nextThread': 'Nächste Konversation',
+  'shortcuts.previousThread': 'Vorherige Konversation',
+  'shortcuts.selectAll': 'Alle Konversationen auswählen',
+  'shortcuts.clearSelection': 'Auswahl aufheben',
+  'shortcuts.markRead': 'Auswahl als gelesen markieren',
+  'shortcuts.markUnread': 'Auswahl als ungelesen markieren',
+  'shortcuts.markDone': 'Als erledigt markieren',
+  'shortcuts.delete': 'Löschen',
+  'shortcuts.reply': 'Antworten',
+  'shortcuts.replyAll': 'Allen antworten',
+  'shortcuts.forward': 'Weiterleiten',
+  'shortcuts.label': 'Label zuweisen...',
+  'shortcuts.snooze': 'Zurückstellen',
+  'shortcuts.send': 'Senden',
+
+  // Command palette
+  'commands.placeholder': 'Befehl eingeben oder suchen...',
+  'commands.empty': 'Keine passenden Befehle',
+  'commands.recent': 'Zuletzt verwendet',
+  'commands.group.thread': 'Diese Konversation',
+  'commands.group.labels': 'Labels',
+  'commands.group.category': 'In Kategorie verschieben',
+  'commands.group.actions': 'Aktionen',
+  'commands.group.navigation': 'Gehe zu',
+  'commands.goTo': 'Gehe zu {page}',
+  'commands.goToLabel': 'Gehe zu Label: {label}',
+  'commands.settings': 'Einstellungen',
+  'commands.openSenderRules': 'Absenderregeln öffnen',
+  'commands.markRead': 'Als gelesen markieren',
+  'commands.markUnread': 'Als ungelesen markieren',
+  'commands.markSelectedDone': 'Auswahl als erledigt markieren',
+  'commands.deleteSelected': 'Auswahl löschen',
+  'commands.applyLabel': 'Label {label} zuweisen',
+  'commands.removeLabel': 'Label {label} entfernen',
+  'commands.moveTo': 'Nach {category} verschieben',
+  'commands.snooze': 'Zurückstellen...',
+  'commands.snoozeSelected': 'Auswahl zurückstellen...',
+
+  // Snooze
+  'snooze.title': {
+    one: 'Konversation zurückstellen',
+    other: '{count} Konversationen zurückstellen',
+  },
+  'snooze.confirm': 'Zurückstellen',
+  'snooze.preview': 'Kommt zurück:',
+  'snooze.untilReply': 'Bis zur Antwort',
+  'snooze.until': 'Bis {date}',
+  'snooze.untilOrReply': 'Bis {date} oder zur Antwort',
+  'snooze.unsnooze': 'Zurückholen',
+  'snooze.empty': 'Keine zurückgestellten Konversationen',
+  'snooze.emptyHint': 'Zurückgestellte Konversationen verlassen den Posteingang und kommen zur gewählten Zeit ungelesen ganz oben zurück.',
+
+  // Conversation
+  'conversation.olderMessages': {
+    one: '{count} ältere Nachricht',
+    other: '{count} ältere Nachrichten',
+  },
+  'conversation.showQuoted': 'Zitierten Text anzeigen',
+  'conversation.hideQuoted': 'Zitierten Text ausblenden',
+
+  // Images
+  'images.title': 'Bilder',
+  'images.description': 'Externe Bilder in E-Mails werden ausgeblendet, bis du sie anzeigst – so erfahren Absender nicht, wann du ihre E-Mail öffnest. Tracking-Pixel werden immer entfernt.',
+  'images.hidden': 'Bilder sind zum Schutz deiner Privatsphäre ausgeblendet.',
+  'images.show': 'Bilder anzeigen',
+  'images.alwaysShow': 'Immer anzeigen von {sender}',
+  'images.trackersBlocked': {
+    one: '{count} Tracker blockiert',
+    other: '{count} Tracker blockiert',
+  },
+  'images.trustedSenders': 'Bilder immer anzeigen von',
+  'images.noTrustedSenders': 'Noch keine Absender. Wähle bei einer E-Mail „Immer anzeigen“, um den Absender hinzuzufügen.',
+  'images.remove': 'Entfernen',
+
+  // Phishing
+  'phishing.title': 'Diese E-Mail stammt möglicherweise nicht vom angegebenen Absender',
+  'phishing.nameMismatch': 'Der Absendername verweist auf {claimed}, gesendet wurde aber von {address}.',
+  'phishing.lookalikeDomain': '{domain} ähnelt {resembles}, einer Domain, mit der du bereits schreibst.',
+  'phishing.linkMismatch': 'Ein Link zeigt {text} an, führt aber zu {href}.',
+  'phishing.authFailed': 'Der Absender konnte nicht verifiziert werden ({checks} fehlgeschlagen).',
+  'phishing.report': 'Phishing melden',
+  'phishing.dismiss': 'Sieht sicher aus',
+
+  // Original message
+  'original.show': 'Original anzeigen',
+  'original.title': 'Originalnachricht',
+  'original.tab.summary': 'Übersicht',
+  'original.tab.delivery': 'Zustellung',
+  'original.tab.headers': 'Alle Header',
+  'original.tab.source': 'Quelltext',
+  'original.from': 'Von',
+  'original.replyTo': 'Antwort an',
+  'original.to': 'An',
+  'original.cc': 'Cc',
+  'original.bcc': 'Bcc',
+  'original.copy': 'Kopieren',
+  'original.copied': 'Kopiert',
+  'original.download': '.eml herunterladen',
+  'original.loading': 'Originalnachricht wird geladen…',
+  'original.error': 'Die Originalnachricht konnte nicht geladen werden.',
+  'original.noReceived': 'Keine Received-Header – diese Nachricht wurde über keinen Mailserver weitergeleitet.',
+  'original.totalDelivery': 'Zugestellt in {duration}',
+  'original.hopFrom': 'von {host}',
+  'original.hopWith': 'mit {protocol}',
+  'original.unknownTime': 'Unbekannte Zeit',
+
+  // Export
+  'export.title': 'Exportieren',
+  'export.eml': '.eml-Dateien herunterladen',
+  'export.mbox': '.mbox herunterladen',
+  'export.pdf': 'Als PDF speichern',
+  'export.failed': 'Export fehlgeschlagen. Bitte versuche es erneut.',
+  'export.date': 'Datum',
+  'export.subject': 'Betreff',
+  'export.attachments': {
+    one: '{count} Anhang',
+    other: '{count} Anhänge',
+  },
+  'export.messageCount': {
+    one: '{count} Nachricht',
+    other: '{count} Nachrichten',
+  },
+
+  // Print
+  'print.title': 'Konversation drucken',
+  'print.print': 'Drucken',
+  'print.close': 'Schließen',
+  'print.loading': 'Konversation wird vorbereitet…',
+  'print.notFound': 'Diese Konversation konnte nicht geladen werden.',
+
+  // Attachments
+  'attachments.loading': 'Vorschau wird geladen…',
+  'attachments.previewFailed': 'Diese Datei konnte nicht für die Vorschau geladen werden.',
+  'attachments.noPreview': 'Für diesen Dateityp gibt es keine Vorschau.',
+  'attachments.truncated': 'Vorschau gekürzt - lade die Datei herunter, um alles zu sehen.',
+  'attachments.download': 'Herunterladen',
+  'attachments.openPdf': 'PDF öffnen',
+  'attachments.pdfHint': 'PDFs werden in einem neuen Tab geöffnet.',
+  'attachments.close': 'Schließen',
+  'attachments.previous': 'Zurück',
+  'attachments.next': 'Weiter',
+  'attachments.position': '{current} von {total}',
+  'attachments.type.all': 'Alle',
+  'attachments.type.image': 'Bilder',
+  'attachments.type.pdf': 'PDFs',
+  'attachments.type.text': 'Text & CSV',
+  'attachments.type.audio': 'Audio',
+  'attachments.type.video': 'Video',
+  'attachments.type.other': 'Sonstige',
+  'attachments.direction.label': 'Empfangen oder gesendet',
+  'attachments.direction.all': 'Empfangen & gesendet',
+  'attachments.direction.received': 'Empfangen',
+  'attachments.direction.sent': 'Gesendet',
+  'attachments.senderPlaceholder': 'Nach Absender filtern',
+  'attachments.date.label': 'Datum',
+  'attachments.date.any': 'Beliebig',
+  'attachments.date.week': 'Letzte Woche',
+  'attachments.date.month': 'Letzter Monat',
+  'attachments.date.year': 'Letztes Jahr',
+  'attachments.sentTo': 'An {name}',
+  'attachments.empty': 'Noch keine Anhänge',
+  'attachments.noMatches': 'Keine Anhänge passen zu diesen Filtern',
+  'attachments.clearFilters': 'Filter zurücksetzen',
+  'attachments.loadMore': 'Ältere Dateien laden',
+  'attachments.error': 'Anhänge konnten nicht geladen werden.',
+
+  // Draft autosave
+  'draft.saving': 'Wird gespeichert…',
+  'draft.savedSecondsAgo': 'Vor {count} s gespeichert',
+  'draft.savedAgo': 'Gespeichert {time}',
+  'draft.savedLocally': 'Auf diesem Gerät gespeichert',
+  'draft.savedLocallyHint': 'Server nicht erreichbar - der Entwurf wird synchronisiert, sobald du wieder online bist',
+  'draft.recovery.message': 'Nicht gespeicherte Änderungen von {time} wurden wiederhergestellt',
+  'draft.recovery.restore': 'Wiederherstellen',
+  'draft.recovery.discard': 'Verwerfen',
+  'draft.conflict.title': 'Dieser Entwurf wurde in einem anderen Tab geändert',
+  'draft.conflict.description': 'Der Entwurf wurde an anderer Stelle gespeichert, während du ihn hier bearbeitet hast. Behalte eine Version oder führe beide zusammen.',
+  'draft.conflict.mine': 'Dieser Tab',
+  'draft.conflict.theirs': 'Anderer Tab',
+  'draft.conflict.to': 'An',
+  'draft.conflict.subject': 'Betreff',
+  'draft.conflict.attachments': {
+    one: '{count} Anhang',
+    other: '{count} Anhänge',
+  },
+  'draft.conflict.empty': '(leer)',
+  'draft.conflict.keepMine': 'Meine behalten',
+  'draft.conflict.useTheirs': 'Andere übernehmen',
+  'draft.conflict.merge': 'Beide zusammenführen',
+
+  // Signatures
+  'signatures.title': 'Signaturen',
+  'signatures.description': 'Signaturen werden neuen Nachrichten und Antworten automatisch hinzugefügt. Beim Schreiben kannst du sie über die Editor-Leiste wechseln oder entfernen.',
+  'signatures.new': 'Neue Signatur',
+  'signatures.namePlaceholder': 'Name (z. B. Arbeit, Kurz)',
+  'signatures.bodyPlaceholder': 'Signatur schreiben…',
+  'signatures.cancel': 'Abbrechen',
+  'signatures.save': 'Speichern',
+  'signatures.yourSignatures': 'Deine Signaturen',
+  'signatures.empty': 'Noch keine Signaturen',
+  'signatures.untitled': 'Ohne Titel',
+  'signatures.edit': 'Signatur bearbeiten',
+  'signatures.delete': 'Signatur löschen',
+  'signatures.deleteConfirm': 'Die Signatur „{name}“ löschen?',
+  'signatures.saveFailed': 'Die Signatur konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'signatures.deleteFailed': 'Die Signatur konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'signatures.defaults': 'Standards',
+  'signatures.defaultNew': 'Neue Nachrichten',
+  'signatures.defaultReply': 'Antworten und Weiterleitungen',
+  'signatures.none': 'Keine Signatur',
+  'signatures.placement': 'In Antworten und Weiterleitungen',
+  'signatures.placementAbove': 'Direkt unter meiner Nachricht, über dem zitierten Text',
+  'signatures.placementBelow': 'Ganz am Ende, unter dem zitierten Text',
+  'signatures.menu.title': 'Signatur',
+  'signatures.menu.empty': 'Noch keine Signaturen - lege eine in den Einstellungen an',
+  'signatures.menu.none': 'Keine Signatur',
+
+  // Templates
+  'templates.title': 'Vorlagen',
+  'templates.description': 'Wiederverwendbare Nachrichten für Antworten, die du oft schreibst. Füge sie über die Editor-Leiste ein oder tippe ihr ;Kürzel gefolgt von einem Leerzeichen.',
+  'templates.new': 'Neue Vorlage',
+  'templates.namePlaceholder': 'Name (z. B. Erstattung genehmigt)',
+  'templates.shortcut': 'Kürzel',
+  'templates.shortcutPlaceholder': 'kürzel (optional)',
+  'templates.shortcutInvalid': 'Nur Buchstaben, Ziffern, „-“ oder „_“ verwenden',
+  'templates.shortcutTaken': 'Eine andere Vorlage verwendet bereits ;{shortcut}',
+  'templates.bodyPlaceholder': 'Vorlage schreiben…',
+  'templates.variablesHint': 'Wird aus der Unterhaltung ausgefüllt:',
+  'templates.cancel': 'Abbrechen',
+  'templates.save': 'Speichern',
+  'templates.yourTemplates': 'Deine Vorlagen',
+  'templates.empty': 'Noch keine Vorlagen',
+  'templates.untitled': 'Ohne Titel',
+  'templates.edit': 'Vorlage bearbeiten',
+  'templates.delete': 'Vorlage löschen',
+  'templates.deleteConfirm': 'Die Vorlage „{name}“ löschen?',
+  'templates.saveFailed': 'Die Vorlage konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'templates.deleteFailed': 'Die Vorlage konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'templates.menu.search': 'Vorlagen oder ;Kürzel suchen',
+  'templates.menu.empty': 'Noch keine Vorlagen - lege eine in den Einstellungen an',
+  'templates.menu.noMatches': 'Keine passenden Vorlagen',
+
+  // Mail merge
+  'mailMerge.upload': 'Empfänger hochladen (CSV)',
+  'mailMerge.uploadHint': 'Erste Zeile mit Spaltennamen, darunter eine E-Mail-Spalte. Bis zu {max} Empfänger.',
+  'mailMerge.errorEmpty': 'Die Datei enthält keine Empfänger',
+  'mailMerge.errorNoEmail': 'Keine E-Mail-Spalte gefunden - nenne sie „email“',
+  'mailMerge.errorNoRecipients': 'Keine Zeile enthält eine gültige E-Mail-Adresse',
+  'mailMerge.errorRead': 'Die Datei konnte nicht gelesen werden',
+  'mailMerge.errorNoList': 'Bitte eine Empfängerliste hochladen',
+  'mailMerge.errorNoSubject': 'Bitte einen Betreff eingeben',
+  'mailMerge.errorUploading': 'Bitte warten, bis die Anhänge hochgeladen sind',
+  'mailMerge.errorUnknownFields': 'Die Empfängerliste hat keine Spalte {fields}',
+  'mailMerge.errorStart': 'Der Serienbrief konnte nicht gestartet werden',
+  'mailMerge.recipients': {
+    one: '{count} Empfänger',
+    other: '{count} Empfänger',
+  },
+  'mailMerge.preview': 'Vorschau',
+  'mailMerge.replace': 'Ersetzen',
+  'mailMerge.remove': 'Empfängerliste entfernen',
+  'mailMerge.skippedInvalid': {
+    one: '{count} Zeile ohne gültige Adresse übersprungen (Zeile {lines})',
+    other: '{count} Zeilen ohne gültige Adresse übersprungen (Zeilen {lines})',
+  },
+  'mailMerge.skippedDuplicates': {
+    one: '{count} Duplikat übersprungen',
+    other: '{count} Duplikate übersprungen',
+  },
+  'mailMerge.truncated': 'Nur die ersten {max} Zeilen werden verwendet',
+  'mailMerge.fields': 'Felder:',
+  'mailMerge.insertField': 'In die Nachricht einfügen',
+  'mailMerge.missingTitle': {
+    one: '{count} Empfänger hat keinen Wert für ein Feld der Nachricht',
+    other: '{count} Empfänger haben keinen Wert für ein Feld der Nachricht',
+  },
+  'mailMerge.missingMore': '…und {count} weitere',
+  'mailMerge.previewTitle': 'Vorschau',
+  'mailMerge.previous': 'Vorheriger Empfänger',
+  'mailMerge.next': 'Nächster Empfänger',
+  'mailMerge.position': '{current} von {total}',
+  'mailMerge.closePreview': 'Vorschau schließen',
+  'mailMerge.to': 'An',
+  'mailMerge.subject': 'Betreff',
+  'mailMerge.previewMissing': 'Kein Wert für {fields} - bleibt leer',
+  'mailMerge.progress.sending': 'Serienmail: {done} von {total}',
+  'mailMerge.progress.done': {
+    one: 'Serienmail an {count} Empfänger gesendet',
+    other: 'Serienmail an {count} Empfänger gesendet',
+  },
+  'mailMerge.progress.cancelled': {
+    one: 'Serienmail nach {count} Nachricht gestoppt',
+    other: 'Serienmail nach {count} Nachrichten gestoppt',
+  },
+  'mailMerge.progress.failed': {
+    one: '{count} Nachricht fehlgeschlagen',
+    other: '{count} Nachrichten fehlgeschlagen',
+  },
+  'mailMerge.progress.cancel': 'Stoppen',
+  'mailMerge.progress.dismiss': 'Schließen',
+  'mailMerge.rollup.title': 'Serienmail',
+  'mailMerge.rollup.sent': '{sent} von {total} gesendet',
+  'mailMerge.rollup.failed': '{count} fehlgeschlagen',
+  'mailMerge.rollup.opened': '{count} geöffnet ({rate} %)',
+  'mailMerge.rollup.clicks': {
+    one: '{count} Klick',
+    other: '{count} Klicks',
+  },
+
+  // Send checks
+  'sendChecks.title': 'Prüfungen vor dem Senden',
+  'sendChecks.dialog.title': 'Trotzdem senden?',
+  'sendChecks.dialog.goBack': 'Zurück',
+  'sendChecks.dialog.sendAnyway': 'Trotzdem senden',
+  'sendChecks.warning.missingAttachment': 'Die Nachricht erwähnt einen Anhang, aber es ist nichts angehängt.',
+  'sendChecks.warning.externalRecipients': {
+    one: '{recipients} gehört nicht zu {domain}.',
+    other: '{recipients} gehören nicht zu {domain}.',
+  },
+  'sendChecks.warning.largeReplyAll': 'Du antwortest allen {count} Empfängern.',
+  'sendChecks.warning.newRecipients': {
+    one: 'Du hattest noch keinen E-Mail-Kontakt mit {recipients}.',
+    other: 'Du hattest noch keinen E-Mail-Kontakt mit {recipients}.',
+  },
+  'sendChecks.warning.emptySubject': 'Der Betreff ist leer.',
+  'sendChecks.warning.mergeBlankFields': {
+    one: '{count} Empfänger hat leere Felder, die leer bleiben.',
+    other: '{count} Empfänger haben leere Felder, die leer bleiben.',
+  },
+  'sendChecks.settings.description': 'Vor dem Senden nachfragen, wenn etwas merkwürdig aussieht. Jede Warnung hat eine Schaltfläche „Trotzdem senden“.',
+  'sendChecks.settings.missingAttachment': 'Die Nachricht erwähnt einen Anhang, hat aber keinen',
+  'sendChecks.settings.externalRecipients': 'Jemand außerhalb meiner Domain ist unter Kollegen',
+  'sendChecks.settings.largeReplyAll': 'Allen antworten an mehr als {limit} Personen',
+  'sendChecks.settings.newRecipients': 'Ein Empfänger, mit dem ich noch nie Kontakt hatte',
+  'sendChecks.settings.emptySubject': 'Der Betreff ist leer',
+  'sendChecks.settings.replyAllLimit': 'Grenze für „Allen antworten“',
+};
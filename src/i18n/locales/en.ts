@@ -0,0 +1,520 @@
+// i18n/locales/en.ts - English (source catalog)
+// Every key lives here first; other catalogs may omit keys (English is the fallback).
+// Placeholders: {name}. Plurals: { one, other, ... } with a `count` param.
+
+import type { Message } from '../types';
+
+export const en = {
+  // ======================================================
+  // NAVIGATION
+  // ======================================================
+  'nav.inbox': 'Inbox',
+  'nav.sent': 'Sent',
+  'nav.drafts': 'Drafts',
+  'nav.done': 'Done',
+  'nav.scheduled': 'Scheduled',
+  'nav.snoozed': 'Snoozed',
+  'nav.attachments': 'Attachments',
+  'nav.trash': 'Trash',
+  'nav.spam': 'Spam',
+  'nav.navigation': 'Navigation',
+  'nav.labels': 'Labels',
+  'nav.createLabel': 'Create label',
+  'nav.noLabels': 'No labels',
+  'nav.setRules': 'Set rules',
+  'nav.senderRules': 'Sender Rules',
+  'nav.pendingSync': {
+    one: '{count} change pending sync',
+    other: '{count} changes pending sync',
+  },
+  'nav.offline': '(offline)',
+  'nav.loading': 'Loading...',
+
+  // ======================================================
+  // CATEGORIES
+  // ======================================================
+  'category.urgent': 'Urgent',
+  'category.important': 'Important',
+  'category.promises': 'Promises',
+  'category.awaiting': 'Awaiting',
+  'category.others': 'Others',
+
+  // ======================================================
+  // COMMITMENTS (promiseTypes.ts)
+  // ======================================================
+  'commitment.noDeadline': 'No deadline',
+  'commitment.overdue': {
+    one: '{count} day overdue',
+    other: '{count} days overdue',
+  },
+  'commitment.dueToday': 'Due today',
+  'commitment.daysLeft': {
+    one: '{count} day left',
+    other: '{count} days left',
+  },
+  'commitment.sinceToday': 'Since today',
+  'commitment.waitingDays': {
+    one: 'Waiting {count} day',
+    other: 'Waiting {count} days',
+  },
+  'commitment.waitingWeeks': {
+    one: 'Waiting {count} week',
+    other: 'Waiting {count} weeks',
+  },
+  'commitment.waitingMonths': {
+    one: 'Waiting {count} month',
+    other: 'Waiting {count} months',
+  },
+
+  // ======================================================
+  // TOASTS
+  // ======================================================
+  'toast.undo': 'Undo',
+  'toast.threadsTrashed': {
+    one: 'Thread moved to trash',
+    other: '{count} threads moved to trash',
+  },
+  'toast.threadsDone': {
+    one: 'Thread moved to Done',
+    other: '{count} threads moved to Done',
+  },
+  'toast.threadsDeleted': {
+    one: 'Thread deleted',
+    other: '{count} threads deleted',
+  },
+  'toast.movedTo': 'Moved to {category}',
+  'toast.emailMovedTo': 'Email moved to {category}',
+  'toast.noSubject': '(No Subject)',
+  'toast.sending': 'Sending email...',
+  'toast.cancelling': 'Cancelling...',
+  'toast.emailCancelled': 'Email cancelled',
+  'toast.notSent': 'Message was not sent',
+  'toast.emailSent': 'Email sent',
+  'toast.mayHaveBeenSent': 'Email may have already been sent',
+  'toast.cancelFailed': 'Failed to cancel',
+  'toast.couldNotCancel': "Couldn't cancel",
+  'toast.to': 'To: {recipients}',
+
+  // ======================================================
+  // DATES (utils/dateTime.ts)
+  // ======================================================
+  'time.today': 'Today',
+  'time.yesterday': 'Yesterday',
+  'time.lastWeek': 'Last Week',
+  'time.lastMonth': 'Last Month',
+  'time.other': 'Other',
+  'time.justNow': 'just now',
+  'time.minutesAgo': '{count}m ago',
+  'time.hoursAgo': '{count}h ago',
+  'time.daysAgo': '{count}d ago',
+  'time.todayAt': 'Today at {time}',
+  'time.tomorrowAt': 'Tomorrow at {time}',
+  'time.dateAt': '{date} at {time}',
+
+  // ======================================================
+  // SETTINGS
+  // ======================================================
+  'settings.title': 'General',
+  'settings.backToInbox': 'Back to Inbox',
+  'settings.account': 'Account',
+  'settings.name': 'Name',
+  'settings.email': 'Email',
+  'settings.preferences': 'Preferences',
+  'settings.timezone': 'Timezone',
+  'settings.language': 'Language',
+  'settings.saving': 'Saving...',
+  'settings.session': 'Session',
+  'settings.signOut': 'Sign out',
+  'settings.dangerZone': 'Danger Zone',
+  'settings.deleteWarning': 'Once you delete your account, there is no going back. Please be certain.',
+  'settings.deleteAccount': 'Delete Account',
+
+  // ======================================================
+  // KEYBOARD SHORTCUTS (utils/shortcuts.ts)
+  // ======================================================
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.description': 'Click a shortcut to change it. Press ? anywhere to see them all.',
+  'shortcuts.scope.global': 'General',
+  'shortcuts.scope.list': 'Thread list',
+  'shortcuts.scope.detail': 'Open thread',
+  'shortcuts.scope.editor': 'Compose',
+  'shortcuts.then': 'then',
+  'shortcuts.notSet': 'Not set',
+  'shortcuts.pressKeys': 'Press keys...',
+  'shortcuts.conflict': 'Already used by "{action}"',
+  'shortcuts.reset': 'Reset',
+  'shortcuts.resetAll': 'Reset all',
+  'shortcuts.compose': 'Compose new email',
+  'shortcuts.search': 'Search',
+  'shortcuts.showShortcuts': 'Show keyboard shortcuts',
+  'shortcuts.commandPalette': 'Open command palette',
+  'shortcuts.goInbox': 'Go to Inbox',
+  'shortcuts.goSent': 'Go to Sent',
+  'shortcuts.goDrafts': 'Go to Drafts',
+  'shortcuts.nextThread': 'Next thread',
+  'shortcuts.previousThread': 'Previous thread',
+  'shortcuts.selectAll': 'Select all threads',
+  'shortcuts.clearSelection': 'Clear selection',
+  'shortcuts.markRead': 'Mark selected as read',
+  'shortcuts.markUnread': 'Mark selected as unread',
+  'shortcuts.markDone': 'Mark as done',
+  'shortcuts.delete': 'Delete',
+  'shortcuts.reply': 'Reply',
+  'shortcuts.replyAll': 'Reply all',
+  'shortcuts.forward': 'Forward',
+  'shortcuts.label': 'Label as...',
+  'shortcuts.snooze': 'Snooze',
+  'shortcuts.send': 'Send',
+
+  // ======================================================
+  // COMMAND PALETTE (utils/commandPalette.ts)
+  // ======================================================
+  'commands.placeholder': 'Type a command or search...',
+  'commands.empty': 'No matching commands',
+  'commands.recent': 'Recent',
+  'commands.group.thread': 'This conversation',
+  'commands.group.labels': 'Labels',
+  'commands.group.category': 'Move to category',
+  'commands.group.actions': 'Actions',
+  'commands.group.navigation': 'Go to',
+  'commands.goTo': 'Go to {page}',
+  'commands.goToLabel': 'Go to label: {label}',
+  'commands.settings': 'Settings',
+  'commands.openSenderRules': 'Open sender rules',
+  'commands.markRead': 'Mark as read',
+  'commands.markUnread': 'Mark as unread',
+  'commands.markSelectedDone': 'Mark selected as done',
+  'commands.deleteSelected': 'Delete selected',
+  'commands.applyLabel': 'Label as {label}',
+  'commands.removeLabel': 'Remove label {label}',
+  'commands.moveTo': 'Move to {category}',
+  'commands.snooze': 'Snooze...',
+  'commands.snoozeSelected': 'Snooze selected...',
+
+  // ======================================================
+  // SNOOZE (context/SnoozeContext.tsx)
+  // ======================================================
+  'snooze.title': {
+    one: 'Snooze conversation',
+    other: 'Snooze {count} conversations',
+  },
+  'snooze.confirm': 'Snooze',
+  'snooze.preview': 'Comes back:',
+  'snooze.untilReply': 'Until they reply',
+  'snooze.until': 'Until {date}',
+  'snooze.untilOrReply': 'Until {date} or a reply',
+  'snooze.unsnooze': 'Unsnooze',
+  'snooze.empty': 'No snoozed conversations',
+  'snooze.emptyHint': 'Snoozed conversations leave your inbox and come back to the top, unread, when it\'s time.',
+
+  // ======================================================
+  // CONVERSATION (hooks/useConversation.ts)
+  // ======================================================
+  'conversation.olderMessages': {
+    one: '{count} older message',
+    other: '{count} older messages',
+  },
+  'conversation.showQuoted': 'Show quoted text',
+  'conversation.hideQuoted': 'Hide quoted text',
+
+  // ======================================================
+  // IMAGES (components/inbox/SafeEmailFrame.tsx)
+  // ======================================================
+  'images.title': 'Images',
+  'images.description': 'Remote images in emails are hidden until you choose to show them, so senders can\'t tell when you open their email. Tracking pixels are always removed.',
+  'images.hidden': 'Images are hidden to protect your privacy.',
+  'images.show': 'Show images',
+  'images.alwaysShow': 'Always show from {sender}',
+  'images.trackersBlocked': {
+    one: '{count} tracker blocked',
+    other: '{count} trackers blocked',
+  },
+  'images.trustedSenders': 'Always show images from',
+  'images.noTrustedSenders': 'No senders yet. Choose "Always show" on an email to add its sender.',
+  'images.remove': 'Remove',
+
+  // ======================================================
+  // PHISHING (components/inbox/PhishingBanner.tsx)
+  // ======================================================
+  'phishing.title': 'This email might not be from who it says',
+  'phishing.nameMismatch': 'The sender name points to {claimed}, but it was sent from {address}.',
+  'phishing.lookalikeDomain': '{domain} looks like {resembles}, a domain you already email with.',
+  'phishing.linkMismatch': 'A link shows {text} but goes to {href}.',
+  'phishing.authFailed': 'The sender couldn\'t be verified ({checks} failed).',
+  'phishing.report': 'Report phishing',
+  'phishing.dismiss': 'Looks safe',
+
+  // ======================================================
+  // ORIGINAL MESSAGE (components/inbox/OriginalMessageModal.tsx)
+  // ======================================================
+  'original.show': 'Show original',
+  'original.title': 'Original message',
+  'original.tab.summary': 'Summary',
+  'original.tab.delivery': 'Delivery',
+  'original.tab.headers': 'All headers',
+  'original.tab.source': 'Source',
+  'original.from': 'From',
+  'original.replyTo': 'Reply-To',
+  'original.to': 'To',
+  'original.cc': 'Cc',
+  'original.bcc': 'Bcc',
+  'original.copy': 'Copy',
+  'original.copied': 'Copied',
+  'original.download': 'Download .eml',
+  'original.loading': 'Loading original message…',
+  'original.error': 'Couldn\'t load the original message.',
+  'original.noReceived': 'No Received headers - this message wasn\'t relayed through any mail servers.',
+  'original.totalDelivery': 'Delivered in {duration}',
+  'original.hopFrom': 'from {host}',
+  'original.hopWith': 'with {protocol}',
+  'original.unknownTime': 'Unknown time',
+
+  // ======================================================
+  // EXPORT (components/inbox/ExportMenu.tsx, pages/PrintThread.tsx)
+  // ======================================================
+  'export.title': 'Export',
+  'export.eml': 'Download .eml files',
+  'export.mbox': 'Download .mbox',
+  'export.pdf': 'Save as PDF',
+  'export.failed': 'Export failed. Please try again.',
+  'export.date': 'Date',
+  'export.subject': 'Subject',
+  'export.attachments': {
+    one: '{count} attachment',
+    other: '{count} attachments',
+  },
+  'export.messageCount': {
+    one: '{count} message',
+    other: '{count} messages',
+  },
+
+  // ======================================================
+  // PRINT (pages/PrintThread.tsx)
+  // ======================================================
+  'print.title': 'Print conversation',
+  'print.print': 'Print',
+  'print.close': 'Close',
+  'print.loading': 'Preparing conversation…',
+  'print.notFound': 'This conversation could not be loaded.',
+
+  // ======================================================
+  // ATTACHMENTS (components/attachments/*, pages/Attachments.tsx)
+  // ======================================================
+  'attachments.loading': 'Loading preview…',
+  'attachments.previewFailed': 'This file couldn\'t be loaded for preview.',
+  'attachments.noPreview': 'No preview available for this file type.',
+  'attachments.truncated': 'Preview shortened - download the file to see all of it.',
+  'attachments.download': 'Download',
+  'attachments.openPdf': 'Open PDF',
+  'attachments.pdfHint': 'PDFs open in a new tab.',
+  'attachments.close': 'Close',
+  'attachments.previous': 'Previous',
+  'attachments.next': 'Next',
+  'attachments.position': '{current} of {total}',
+  'attachments.type.all': 'All',
+  'attachments.type.image': 'Images',
+  'attachments.type.pdf': 'PDFs',
+  'attachments.type.text': 'Text & CSV',
+  'attachments.type.audio': 'Audio',
+  'attachments.type.video': 'Video',
+  'attachments.type.other': 'Other',
+  'attachments.direction.label': 'Received or sent',
+  'attachments.direction.all': 'Received & sent',
+  'attachments.direction.received': 'Received',
+  'attachments.direction.sent': 'Sent',
+  'attachments.senderPlaceholder': 'Filter by sender',
+  'attachments.date.label': 'Date',
+  'attachments.date.any': 'Any time',
+  'attachments.date.week': 'Past week',
+  'attachments.date.month': 'Past month',
+  'attachments.date.year': 'Past year',
+  'attachments.sentTo': 'To {name}',
+  'attachments.empty': 'No attachments yet',
+  'attachments.noMatches': 'No attachments match these filters',
+  'attachments.clearFilters': 'Clear filters',
+  'attachments.loadMore': 'Load older files',
+  'attachments.error': 'Attachments couldn\'t be loaded.',
+
+  // ======================================================
+  // DRAFT AUTOSAVE (components/inbox/DraftSaveStatus.tsx, DraftConflictDialog.tsx)
+  // ======================================================
+  'draft.saving': 'Saving…',
+  'draft.savedSecondsAgo': 'Saved {count}s ago',
+  'draft.savedAgo': 'Saved {time}',
+  'draft.savedLocally': 'Saved on this device',
+  'draft.savedLocallyHint': 'Couldn\'t reach the server - the draft will sync when you\'re back online',
+  'draft.recovery.message': 'Unsaved changes from {time} were recovered',
+  'draft.recovery.restore': 'Restore',
+  'draft.recovery.discard': 'Discard',
+  'draft.conflict.title': 'This draft changed in another tab',
+  'draft.conflict.description': 'The draft was saved somewhere else while you were editing it here. Keep one version or merge both.',
+  'draft.conflict.mine': 'This tab',
+  'draft.conflict.theirs': 'Other tab',
+  'draft.conflict.to': 'To',
+  'draft.conflict.subject': 'Subject',
+  'draft.conflict.attachments': {
+    one: '{count} attachment',
+    other: '{count} attachments',
+  },
+  'draft.conflict.empty': '(empty)',
+  'draft.conflict.keepMine': 'Keep mine',
+  'draft.conflict.useTheirs': 'Use theirs',
+  'draft.conflict.merge': 'Merge both',
+
+  // ======================================================
+  // SIGNATURES (components/signatures/SignatureSettings.tsx, SignatureMenu.tsx)
+  // ======================================================
+  'signatures.title': 'Signatures',
+  'signatures.description': 'Signatures are added to new messages and replies automatically. Switch or remove one from the editor toolbar while writing.',
+  'signatures.new': 'New signature',
+  'signatures.namePlaceholder': 'Name (e.g. Work, Short)',
+  'signatures.bodyPlaceholder': 'Write your signature…',
+  'signatures.cancel': 'Cancel',
+  'signatures.save': 'Save',
+  'signatures.yourSignatures': 'Your signatures',
+  'signatures.empty': 'No signatures yet',
+  'signatures.untitled': 'Untitled',
+  'signatures.edit': 'Edit signature',
+  'signatures.delete': 'Delete signature',
+  'signatures.deleteConfirm': 'Delete the signature "{name}"?',
+  'signatures.saveFailed': 'Couldn\'t save the signature. Please try again.',
+  'signatures.deleteFailed': 'Couldn\'t delete the signature. Please try again.',
+  'signatures.defaults': 'Defaults',
+  'signatures.defaultNew': 'New messages',
+  'signatures.defaultReply': 'Replies and forwards',
+  'signatures.none': 'No signature',
+  'signatures.placement': 'In replies and forwards',
+  'signatures.placementAbove': 'Right below my message, above the quoted text',
+  'signatures.placementBelow': 'At the very end, below the quoted text',
+  'signatures.menu.title': 'Signature',
+  'signatures.menu.empty': 'No signatures yet - create one in Settings',
+  'signatures.menu.none': 'No signature',
+
+  // ======================================================
+  // TEMPLATES (components/templates/TemplateSettings.tsx, TemplateMenu.tsx)
+  // ======================================================
+  'templates.title': 'Templates',
+  'templates.description': 'Reusable messages for replies you write often. Insert one from the editor toolbar, or type its ;shortcut followed by a space.',
+  'templates.new': 'New template',
+  'templates.namePlaceholder': 'Name (e.g. Refund approved)',
+  'templates.shortcut': 'Shortcut',
+  'templates.shortcutPlaceholder': 'shortcut (optional)',
+  'templates.shortcutInvalid': 'Use letters, numbers, "-" or "_" only',
+  'templates.shortcutTaken': 'Another template already uses ;{shortcut}',
+  'templates.bodyPlaceholder': 'Write your template…',
+  'templates.variablesHint': 'Filled in from the conversation:',
+  'templates.cancel': 'Cancel',
+  'templates.save': 'Save',
+  'templates.yourTemplates': 'Your templates',
+  'templates.empty': 'No templates yet',
+  'templates.untitled': 'Untitled',
+  'templates.edit': 'Edit template',
+  'templates.delete': 'Delete template',
+  'templates.deleteConfirm': 'Delete the template "{name}"?',
+  'templates.saveFailed': 'Couldn\'t save the template. Please try again.',
+  'templates.deleteFailed': 'Couldn\'t delete the template. Please try again.',
+  'templates.menu.search': 'Search templates or ;shortcut',
+  'templates.menu.empty': 'No templates yet - create one in Settings',
+  'templates.menu.noMatches': 'No matching templates',
+
+  // ======================================================
+  // MAIL MERGE (components/mailMerge/*)
+  // ======================================================
+  'mailMerge.upload': 'Upload recipients (CSV)',
+  'mailMerge.uploadHint': 'Header row first, with an email column. Up to {max} recipients.',
+  'mailMerge.errorEmpty': 'That file has no recipients',
+  'mailMerge.errorNoEmail': 'Couldn\'t find an email column - name it "email"',
+  'mailMerge.errorNoRecipients': 'None of the rows has a valid email address',
+  'mailMerge.errorRead': 'Couldn\'t read that file',
+  'mailMerge.errorNoList': 'Please upload a recipient list',
+  'mailMerge.errorNoSubject': 'Please enter a subject',
+  'mailMerge.errorUploading': 'Please wait for attachments to finish uploading',
+  'mailMerge.errorUnknownFields': 'The recipient list has no {fields} column',
+  'mailMerge.errorStart': 'Failed to start mail merge',
+  'mailMerge.recipients': {
+    one: '{count} recipient',
+    other: '{count} recipients',
+  },
+  'mailMerge.preview': 'Preview',
+  'mailMerge.replace': 'Replace',
+  'mailMerge.remove': 'Remove recipient list',
+  'mailMerge.skippedInvalid': {
+    one: '{count} row without a valid address skipped (line {lines})',
+    other: '{count} rows without a valid address skipped (lines {lines})',
+  },
+  'mailMerge.skippedDuplicates': {
+    one: '{count} duplicate skipped',
+    other: '{count} duplicates skipped',
+  },
+  'mailMerge.truncated': 'Only the first {max} rows are used',
+  'mailMerge.fields': 'Fields:',
+  'mailMerge.insertField': 'Insert into the message',
+  'mailMerge.missingTitle': {
+    one: '{count} recipient has no value for a field the message uses',
+    other: '{count} recipients have no value for a field the message uses',
+  },
+  'mailMerge.missingMore': '…and {count} more',
+  'mailMerge.previewTitle': 'Preview',
+  'mailMerge.previous': 'Previous recipient',
+  'mailMerge.next': 'Next recipient',
+  'mailMerge.position': '{current} of {total}',
+  'mailMerge.closePreview': 'Close preview',
+  'mailMerge.to': 'To',
+  'mailMerge.subject': 'Subject',
+  'mailMerge.previewMissing': 'No value for {fields} - left blank',
+  'mailMerge.progress.sending': 'Mail merge: {done} of {total}',
+  'mailMerge.progress.done': {
+    one: 'Mail merge sent to {count} recipient',
+    other: 'Mail merge sent to {count} recipients',
+  },
+  'mailMerge.progress.cancelled': {
+    one: 'Mail merge stopped after {count} message',
+    other: 'Mail merge stopped after {count} messages',
+  },
+  'mailMerge.progress.failed': {
+    one: '{count} message failed',
+    other: '{count} messages failed',
+  },
+  'mailMerge.progress.cancel': 'Stop',
+  'mailMerge.progress.dismiss': 'Dismiss',
+  'mailMerge.rollup.title': 'Mail merge',
+  'mailMerge.rollup.sent': '{sent} of {total} sent',
+  'mailMerge.rollup.failed': '{count} failed',
+  'mailMerge.rollup.opened': '{count} opened ({rate}%)',
+  'mailMerge.rollup.clicks': {
+    one: '{count} click',
+    other: '{count} clicks',
+  },
+
+  // ======================================================
+  // SEND CHECKS (components/sendChecks/SendCheckDialog.tsx, SendCheckSettings.tsx)
+  // ======================================================
+  'sendChecks.title': 'Send checks',
+  'sendChecks.dialog.title': 'Send this anyway?',
+  'sendChecks.dialog.goBack': 'Go back',
+  'sendChecks.dialog.sendAnyway': 'Send anyway',
+  'sendChecks.warning.missingAttachment': 'The message mentions an attachment, but nothing is attached.',
+  'sendChecks.warning.externalRecipients': {
+    one: '{recipients} is outside {domain}.',
+    other: '{recipients} are outside {domain}.',
+  },
+  'sendChecks.warning.largeReplyAll': 'You\'re replying to all {count} recipients.',
+  'sendChecks.warning.newRecipients': {
+    one: 'You haven\'t emailed with {recipients} before.',
+    other: 'You haven\'t emailed with {recipients} before.',
+  },
+  'sendChecks.warning.emptySubject': 'The subject is empty.',
+  'sendChecks.warning.mergeBlankFields': {
+    one: '{count} recipient has empty fields that will be left blank.',
+    other: '{count} recipients have empty fields that will be left blank.',
+  },
+  'sendChecks.settings.description': 'Ask before sending when something looks off. Each warning has a "Send anyway" button.',
+  'sendChecks.settings.missingAttachment': 'The message mentions an attachment but has none',
+  'sendChecks.settings.externalRecipients': 'Someone outside my domain is among colleagues',
+  'sendChecks.settings.largeReplyAll': 'Reply all to more than {limit} people',
+  'sendChecks.settings.newRecipients': 'A recipient I\'ve never emailed with',
+  'sendChecks.settings.emptySubject': 'The subject is empty',
+  'sendChecks.settings.replyAllLimit': 'Reply all limit',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
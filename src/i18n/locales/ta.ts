@@ -0,0 +1,474 @@
+// i18n/locales/ta.ts - Tamil
+
+import type { Catalog } from '../types';
+
+export const ta: Catalog = {
+  // Navigation
+  'nav.inbox': 'இன்பாக்ஸ்',
+  'nav.sent': 'அனுப்பியவை',
+  'nav.drafts': 'வரைவுகள்',
+  'nav.done': 'முடிந்தவை',
+  'nav.scheduled': 'திட்டமிடப்பட்டவை',
+  'nav.snoozed': 'ஒத்திவைக்கப்பட்டவை',
+  'nav.attachments': 'இணைப்புகள்',
+  'nav.trash': 'குப்பை',
+  'nav.spam': 'ஸ்பேம்',
+  'nav.navigation': 'வழிசெலுத்தல்',
+  'nav.labels': 'லேபிள்கள்',
+  'nav.createLabel': 'லேபிளை உருவாக்கு',
+  'nav.noLabels': 'லேபிள்கள் இல்லை',
+  'nav.setRules': 'விதிகளை அமை',
+  'nav.senderRules': 'அனுப்புநர் விதிகள்',
+  'nav.pendingSync': {
+    one: '{count} மாற்றம் ஒத்திசைவுக்குக் காத்திருக்கிறது',
+    other: '{count} மாற்றங்கள் ஒத்திசைவுக்குக் காத்திருக்கின்றன',
+  },
+  'nav.offline': '(ஆஃப்லைன்)',
+  'nav.loading': 'ஏற்றுகிறது...',
+
+  // Categories
+  'category.urgent': 'அவசரம்',
+  'category.important': 'முக்கியம்',
+  'category.promises': 'வாக்குறுதிகள்',
+  'category.awaiting': 'காத்திருப்பவை',
+  'category.others': 'மற்றவை',
+
+  // Commitments
+  'commitment.noDeadline': 'காலக்கெடு இல்லை',
+  'commitment.overdue': {
+    one: '{count} நாள் தாமதம்',
+    other: '{count} நாட்கள் தாமதம்',
+  },
+  'commitment.dueToday': 'இன்று கெடு',
+  'commitment.daysLeft': {
+    one: '{count} நாள் உள்ளது',
+    other: '{count} நாட்கள் உள்ளன',
+  },
+  'commitment.sinceToday': 'இன்று முதல்',
+  'commitment.waitingDays': {
+    one: '{count} நாளாகக் காத்திருக்கிறது',
+    other: '{count} நாட்களாகக் காத்திருக்கிறது',
+  },
+  'commitment.waitingWeeks': {
+    one: '{count} வாரமாகக் காத்திருக்கிறது',
+    other: '{count} வாரங்களாகக் காத்திருக்கிறது',
+  },
+  'commitment.waitingMonths': {
+    one: '{count} மாதமாகக் காத்திருக்கிறது',
+    other: '{count} மாதங்களாகக் காத்திருக்கிறது',
+  },
+
+  // Toasts
+  'toast.undo': 'செயல்தவிர்',
+  'toast.threadsTrashed': {
+    one: 'உரையாடல் குப்பைக்கு நகர்த்தப்பட்டது',
+    other: '{count} உரையாடல்கள் குப்பைக்கு நகர்த்தப்பட்டன',
+  },
+  'toast.threadsDone': {
+    one: 'உரையாடல் முடிந்தவைக்கு நகர்த்தப்பட்டது',
+    other: '{count} உரையாடல்கள் முடிந்தவைக்கு நகர்த்தப்பட்டன',
+  },
+  'toast.threadsDeleted': {
+    one: 'உரையாடல் நீக்கப்பட்டது',
+    other: '{count} உரையாடல்கள் நீக்கப்பட்டன',
+  },
+  'toast.movedTo': '{category}-க்கு நகர்த்தப்பட்டது',
+  'toast.emailMovedTo': 'மின்னஞ்சல் {category}-க்கு நகர்த்தப்பட்டது',
+  'toast.noSubject': '(பொருள் இல்லை)',
+  'toast.sending': 'மின்னஞ்சல் அனுப்பப்படுகிறது...',
+  'toast.cancelling': 'ரத்து செய்யப்படுகிறது...',
+  'toast.emailCancelled': 'மின்னஞ்சல் ரத்து செய்யப்பட்டது',
+  'toast.notSent': 'செய்தி அனுப்பப்படவில்லை',
+  'toast.emailSent': 'மின்னஞ்சல் அனுப்பப்பட்டது',
+  'toast.mayHaveBeenSent': 'மின்னஞ்சல் ஏற்கனவே அனுப்பப்பட்டிருக்கலாம்',
+  'toast.cancelFailed': 'ரத்து செய்ய முடியவில்லை',
+  'toast.couldNotCancel': 'ரத்து செய்ய இயலவில்லை',
+  'toast.to': 'பெறுநர்: {recipients}',
+
+  // Dates
+  'time.today': 'இன்று',
+  'time.yesterday': 'நேற்று',
+  'time.lastWeek': 'கடந்த வாரம்',
+  'time.lastMonth': 'கடந்த மாதம்',
+  'time.other': 'பிற',
+  'time.justNow': 'இப்போது',
+  'time.minutesAgo': '{count} நிமி. முன்',
+  'time.hoursAgo': '{count} மணி. முன்',
+  'time.daysAgo': '{count} நா. முன்',
+  'time.todayAt': 'இன்று {time}',
+  'time.tomorrowAt': 'நாளை {time}',
+  'time.dateAt': '{date}, {time}',
+
+  // Settings
+  'settings.title': 'பொது',
+  'settings.backToInbox': 'இன்பாக்ஸுக்குத் திரும்பு',
+  'settings.account': 'கணக்கு',
+  'settings.name': 'பெயர்',
+  'settings.email': 'மின்னஞ்சல்',
+  'settings.preferences': 'விருப்பங்கள்',
+  'settings.timezone': 'நேர மண்டலம்',
+  'settings.language': 'மொழி',
+  'settings.saving': 'சேமிக்கப்படுகிறது...',
+  'settings.session': 'அமர்வு',
+  'settings.signOut': 'வெளியேறு',
+  'settings.dangerZone': 'அபாய மண்டலம்',
+  'settings.deleteWarning': 'உங்கள் கணக்கை நீக்கிய பிறகு திரும்பப் பெற முடியாது. உறுதியாக இருங்கள்.',
+  'settings.deleteAccount': 'கணக்கை நீக்கு',
+
+  // Keyboard shortcuts
+  'shortcuts.title': 'விசைப்பலகை குறுக்குவழிகள்',
+  'shortcuts.description': 'மாற்ற ஒரு குறுக்குவழியைக் கிளிக் செய்யவும். அனைத்தையும் காண எங்கும் ? அழுத்தவும்.',
+  'shortcuts.scope.global': 'பொது',
+  'shortcuts.scope.list': 'உரையாடல் பட்டியல்',
+  'shortcuts.scope.detail': 'திறந்த உரையாடல்',
+  'shortcuts.scope.editor': 'எழுது',
+  'shortcuts.then': 'பின்',
+  'shortcuts.notSet': 'அமைக்கப்படவில்லை',
+  'shortcuts.pressKeys': 'விசைகளை அழுத்தவும்...',
+  'shortcuts.conflict': '"{action}" ஏற்கனவே பயன்படுத்துகிறது',
+  'shortcuts.reset': 'மீட்டமை',
+  'shortcuts.resetAll': 'அனைத்தையும் மீட்டமை',
+  'shortcuts.compose': 'புதிய மின்னஞ்சல் எழுது',
+  'shortcuts.search': 'தேடு',
+  'shortcuts.showShortcuts': 'விசைப்பலகை குறுக்குவழிகளைக் காட்டு',
+  'shortcuts.commandPalette': 'கட்டளைத் தட்டைத் திற',
+  'shortcuts.goInbox': 'இன்பாக்ஸுக்குச் செல்',
+  'shortcuts.goSent': 'அனுப்பியவைக்குச் செல்',
+  'shortcuts.goDrafts': 'வரைவுகளுக்குச் செல்',
+  'shortcuts.nextThread': 'அடுத்த உரையாடல்',
+  'shortcuts.previousThread': 'முந்தைய உரையாடல்',
+  'shortcuts.selectAll': 'அனைத்து உரையாடல்களையும் தேர்ந்தெடு',
+  'shortcuts.clearSelection': 'தேர்வை அழி',
+  'shortcuts.markRead': 'தேர்ந்தவற்றைப் படித்ததாகக் குறி',
+  'shortcuts.markUnread': 'தேர்ந்தவற்றைப் படிக்காததாகக் குறி',
+  'shortcuts.markDone': 'முடிந்ததாகக் குறி',
+  'shortcuts.delete': 'நீக்கு',
+  'shortcuts.reply': 'பதிலளி',
+  'shortcuts.replyAll': 'அனைவருக்கும் பதிலளி',
+  'shortcuts.forward': 'முன்னனுப்பு',
+  'shortcuts.label': 'லேபிள் இடு...',
+  'shortcuts.snooze': 'ஒத்திவை',
+  'shortcuts.send': 'அனுப்பு',
+
+  // Command palette
+  'commands.placeholder': 'கட்டளையை உள்ளிடவும் அல்லது தேடவும்...',
+  'commands.empty': 'பொருந்தும் கட்டளைகள் இல்லை',
+  'commands.recent': 'சமீபத்தியவை',
+  'commands.group.thread': 'இந்த உரையாடல்',
+  'commands.group.labels': 'லேபிள்கள்',
+  'commands.group.category': 'வகைக்கு நகர்த்து',
+  'commands.group.actions': 'செயல்கள்',
+  'commands.group.navigation': 'செல்',
+  'commands.goTo': '{page} க்குச் செல்',
+  'commands.goToLabel': 'லேபிளுக்குச் செல்: {label}',
+  'commands.settings': 'அமைப்புகள்',
+  'commands.openSenderRules': 'அனுப்புநர் விதிகளைத் திற',
+  'commands.markRead': 'படித்ததாகக் குறி',
+  'commands.markUnread': 'படிக்காததாகக் குறி',
+  'commands.markSelectedDone': 'தேர்ந்தவற்றை முடிந்ததாகக் குறி',
+  'commands.deleteSelected': 'தேர்ந்தவற்றை நீக்கு',
+  'commands.applyLabel': '{label} லேபிளை இடு',
+  'commands.removeLabel': '{label} லேபிளை அகற்று',
+  'commands.moveTo': '{category} க்கு நகர்த்து',
+  'commands.snooze': 'ஒத்திவை...',
+  'commands.snoozeSelected': 'தேர்ந்தெடுத்தவற்றை ஒத்திவை...',
+
+  // Snooze
+  'snooze.title': {
+    one: 'உரையாடலை ஒத்திவை',
+    other: '{count} உரையாடல்களை ஒத்திவை',
+  },
+  'snooze.confirm': 'ஒத்திவை',
+  'snooze.preview': 'திரும்பும் நேரம்:',
+  'snooze.untilReply': 'அவர்கள் பதிலளிக்கும் வரை',
+  'snooze.until': '{date} வரை',
+  'snooze.untilOrReply': '{date} வரை அல்லது பதில் வரும் வரை',
+  'snooze.unsnooze': 'ஒத்திவைப்பை நீக்கு',
+  'snooze.empty': 'ஒத்திவைக்கப்பட்ட உரையாடல்கள் இல்லை',
+  'snooze.emptyHint': 'ஒத்திவைக்கப்பட்ட உரையாடல்கள் இன்பாக்ஸிலிருந்து மறைந்து, நேரம் வந்ததும் படிக்காதவையாக மேலே திரும்பும்.',
+
+  // Conversation
+  'conversation.olderMessages': {
+    one: '{count} பழைய செய்தி',
+    other: '{count} பழைய செய்திகள்',
+  },
+  'conversation.showQuoted': 'மேற்கோள் உரையைக் காட்டு',
+  'conversation.hideQuoted': 'மேற்கோள் உரையை மறை',
+
+  // Images
+  'images.title': 'படங்கள்',
+  'images.description': 'மின்னஞ்சல்களில் உள்ள வெளிப் படங்கள் நீங்கள் காட்டத் தேர்வு செய்யும் வரை மறைக்கப்படும், எனவே நீங்கள் மின்னஞ்சலைத் திறந்தது அனுப்புநருக்குத் தெரியாது. கண்காணிப்பு பிக்சல்கள் எப்போதும் நீக்கப்படும்.',
+  'images.hidden': 'உங்கள் தனியுரிமையைப் பாதுகாக்கப் படங்கள் மறைக்கப்பட்டுள்ளன.',
+  'images.show': 'படங்களைக் காட்டு',
+  'images.alwaysShow': '{sender} இடமிருந்து எப்போதும் காட்டு',
+  'images.trackersBlocked': {
+    one: '{count} கண்காணிப்பான் தடுக்கப்பட்டது',
+    other: '{count} கண்காணிப்பான்கள் தடுக்கப்பட்டன',
+  },
+  'images.trustedSenders': 'இவர்களிடமிருந்து படங்களை எப்போதும் காட்டு',
+  'images.noTrustedSenders': 'இன்னும் அனுப்புநர்கள் இல்லை. அனுப்புநரைச் சேர்க்க ஒரு மின்னஞ்சலில் "எப்போதும் காட்டு" என்பதைத் தேர்ந்தெடுக்கவும்.',
+  'images.remove': 'நீக்கு',
+
+  // Phishing
+  'phishing.title': 'இந்த மின்னஞ்சல் கூறப்பட்டவரிடமிருந்து வராமல் இருக்கலாம்',
+  'phishing.nameMismatch': 'அனுப்புநர் பெயர் {claimed} ஐக் குறிக்கிறது, ஆனால் {address} இலிருந்து அனுப்பப்பட்டது.',
+  'phishing.lookalikeDomain': '{domain} என்பது நீங்கள் ஏற்கனவே தொடர்பு கொள்ளும் {resembles} போலத் தெரிகிறது.',
+  'phishing.linkMismatch': 'ஒரு இணைப்பு {text} எனக் காட்டுகிறது, ஆனால் {href} க்குச் செல்கிறது.',
+  'phishing.authFailed': 'அனுப்புநரைச் சரிபார்க்க முடியவில்லை ({checks} தோல்வியடைந்தது).',
+  'phishing.report': 'ஃபிஷிங்கைப் புகாரளி',
+  'phishing.dismiss': 'பாதுகாப்பானது',
+
+  // Original message
+  'original.show': 'மூலத்தைக் காட்டு',
+  'original.title': 'மூலச் செய்தி',
+  'original.tab.summary': 'சுருக்கம்',
+  'original.tab.delivery': 'விநியோகம்',
+  'original.tab.headers': 'அனைத்து தலைப்புகள்',
+  'original.tab.source': 'மூலம்',
+  'original.from': 'அனுப்புநர்',
+  'original.replyTo': 'பதில் அனுப்ப',
+  'original.to': 'பெறுநர்',
+  'original.cc': 'Cc',
+  'original.bcc': 'Bcc',
+  'original.copy': 'நகலெடு',
+  'original.copied': 'நகலெடுக்கப்பட்டது',
+  'original.download': '.eml பதிவிறக்கு',
+  'original.loading': 'மூலச் செய்தி ஏற்றப்படுகிறது…',
+  'original.error': 'மூலச் செய்தியை ஏற்ற முடியவில்லை.',
+  'original.noReceived': 'Received தலைப்புகள் இல்லை - இந்தச் செய்தி எந்த அஞ்சல் சேவையகம் வழியாகவும் அனுப்பப்படவில்லை.',
+  'original.totalDelivery': '{duration} இல் வழங்கப்பட்டது',
+  'original.hopFrom': '{host} இலிருந்து',
+  'original.hopWith': '{protocol} மூலம்',
+  'original.unknownTime': 'நேரம் தெரியவில்லை',
+
+  // Export
+  'export.title': 'ஏற்றுமதி',
+  'export.eml': '.eml கோப்புகளைப் பதிவிறக்கு',
+  'export.mbox': '.mbox பதிவிறக்கு',
+  'export.pdf': 'PDF ஆகச் சேமி',
+  'export.failed': 'ஏற்றுமதி தோல்வியடைந்தது. மீண்டும் முயற்சிக்கவும்.',
+  'export.date': 'தேதி',
+  'export.subject': 'பொருள்',
+  'export.attachments': {
+    one: '{count} இணைப்பு',
+    other: '{count} இணைப்புகள்',
+  },
+  'export.messageCount': {
+    one: '{count} செய்தி',
+    other: '{count} செய்திகள்',
+  },
+
+  // Print
+  'print.title': 'உரையாடலை அச்சிடு',
+  'print.print': 'அச்சிடு',
+  'print.close': 'மூடு',
+  'print.loading': 'உரையாடல் தயாராகிறது…',
+  'print.notFound': 'இந்த உரையாடலை ஏற்ற முடியவில்லை.',
+
+  // Attachments
+  'attachments.loading': 'முன்னோட்டம் ஏற்றப்படுகிறது…',
+  'attachments.previewFailed': 'முன்னோட்டத்திற்கு இந்தக் கோப்பை ஏற்ற முடியவில்லை.',
+  'attachments.noPreview': 'இந்தக் கோப்பு வகைக்கு முன்னோட்டம் இல்லை.',
+  'attachments.truncated': 'முன்னோட்டம் சுருக்கப்பட்டது - முழுவதையும் பார்க்க கோப்பைப் பதிவிறக்கவும்.',
+  'attachments.download': 'பதிவிறக்கு',
+  'attachments.openPdf': 'PDF-ஐத் திற',
+  'attachments.pdfHint': 'PDF கோப்புகள் புதிய தாவலில் திறக்கும்.',
+  'attachments.close': 'மூடு',
+  'attachments.previous': 'முந்தையது',
+  'attachments.next': 'அடுத்தது',
+  'attachments.position': '{total} இல் {current}',
+  'attachments.type.all': 'அனைத்தும்',
+  'attachments.type.image': 'படங்கள்',
+  'attachments.type.pdf': 'PDFகள்',
+  'attachments.type.text': 'உரை & CSV',
+  'attachments.type.audio': 'ஒலி',
+  'attachments.type.video': 'காணொளி',
+  'attachments.type.other': 'மற்றவை',
+  'attachments.direction.label': 'பெற்றவை அல்லது அனுப்பியவை',
+  'attachments.direction.all': 'பெற்றவை & அனுப்பியவை',
+  'attachments.direction.received': 'பெற்றவை',
+  'attachments.direction.sent': 'அனுப்பியவை',
+  'attachments.senderPlaceholder': 'அனுப்புநர் மூலம் வடிகட்டு',
+  'attachments.date.label': 'தேதி',
+  'attachments.date.any': 'எப்போதும்',
+  'attachments.date.week': 'கடந்த வாரம்',
+  'attachments.date.month': 'கடந்த மாதம்',
+  'attachments.date.year': 'கடந்த ஆண்டு',
+  'attachments.sentTo': '{name} க்கு',
+  'attachments.empty': 'இன்னும் இணைப்புகள் இல்லை',
+  'attachments.noMatches': 'இந்த வடிகட்டிகளுக்குப் பொருந்தும் இணைப்புகள் இல்லை',
+  'attachments.clearFilters': 'வடிகட்டிகளை அழி',
+  'attachments.loadMore': 'பழைய கோப்புகளை ஏற்று',
+  'attachments.error': 'இணைப்புகளை ஏற்ற முடியவில்லை.',
+
+  // Draft autosave
+  'draft.saving': 'சேமிக்கிறது…',
+  'draft.savedSecondsAgo': '{count} வி. முன் சேமிக்கப்பட்டது',
+  'draft.savedAgo': '{time} சேமிக்கப்பட்டது',
+  'draft.savedLocally': 'இந்தச் சாதனத்தில் சேமிக்கப்பட்டது',
+  'draft.savedLocallyHint': 'சேவையகத்தை அணுக முடியவில்லை - மீண்டும் இணைந்ததும் வரைவு ஒத்திசைக்கப்படும்',
+  'draft.recovery.message': '{time} சேமிக்கப்படாத மாற்றங்கள் மீட்டெடுக்கப்பட்டன',
+  'draft.recovery.restore': 'மீட்டெடு',
+  'draft.recovery.discard': 'நிராகரி',
+  'draft.conflict.title': 'இந்த வரைவு வேறொரு தாவலில் மாற்றப்பட்டது',
+  'draft.conflict.description': 'நீங்கள் இங்கே திருத்தும்போது வரைவு வேறு இடத்தில் சேமிக்கப்பட்டது. ஒரு பதிப்பை வைத்திருங்கள் அல்லது இரண்டையும் இணைக்கவும்.',
+  'draft.conflict.mine': 'இந்தத் தாவல்',
+  'draft.conflict.theirs': 'மற்ற தாவல்',
+  'draft.conflict.to': 'பெறுநர்',
+  'draft.conflict.subject': 'பொருள்',
+  'draft.conflict.attachments': {
+    one: '{count} இணைப்பு',
+    other: '{count} இணைப்புகள்',
+  },
+  'draft.conflict.empty': '(காலி)',
+  'draft.conflict.keepMine': 'என்னுடையதை வைத்திரு',
+  'draft.conflict.useTheirs': 'அவர்களுடையதைப் பயன்படுத்து',
+  'draft.conflict.merge': 'இரண்டையும் இணை',
+
+  // Signatures
+  'signatures.title': 'கையொப்பங்கள்',
+  'signatures.description': 'புதிய மின்னஞ்சல்களிலும் பதில்களிலும் கையொப்பங்கள் தானாகச் சேர்க்கப்படும். எழுதும்போது எடிட்டர் கருவிப்பட்டியில் மாற்றலாம் அல்லது நீக்கலாம்.',
+  'signatures.new': 'புதிய கையொப்பம்',
+  'signatures.namePlaceholder': 'பெயர் (எ.கா. வேலை, சுருக்கம்)',
+  'signatures.bodyPlaceholder': 'உங்கள் கையொப்பத்தை எழுதவும்…',
+  'signatures.cancel': 'ரத்துசெய்',
+  'signatures.save': 'சேமி',
+  'signatures.yourSignatures': 'உங்கள் கையொப்பங்கள்',
+  'signatures.empty': 'இன்னும் கையொப்பங்கள் இல்லை',
+  'signatures.untitled': 'பெயரிடப்படாதது',
+  'signatures.edit': 'கையொப்பத்தைத் திருத்து',
+  'signatures.delete': 'கையொப்பத்தை நீக்கு',
+  'signatures.deleteConfirm': '"{name}" கையொப்பத்தை நீக்கவா?',
+  'signatures.saveFailed': 'கையொப்பத்தைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'signatures.deleteFailed': 'கையொப்பத்தை நீக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'signatures.defaults': 'இயல்புநிலைகள்',
+  'signatures.defaultNew': 'புதிய மின்னஞ்சல்கள்',
+  'signatures.defaultReply': 'பதில்கள் மற்றும் முன்னனுப்புதல்கள்',
+  'signatures.none': 'கையொப்பம் இல்லை',
+  'signatures.placement': 'பதில்கள் மற்றும் முன்னனுப்புதல்களில்',
+  'signatures.placementAbove': 'என் செய்திக்குக் கீழே, மேற்கோள் உரைக்கு மேலே',
+  'signatures.placementBelow': 'கடைசியில், மேற்கோள் உரைக்குக் கீழே',
+  'signatures.menu.title': 'கையொப்பம்',
+  'signatures.menu.empty': 'இன்னும் கையொப்பங்கள் இல்லை - அமைப்புகளில் உருவாக்கவும்',
+  'signatures.menu.none': 'கையொப்பம் இல்லை',
+
+  // Templates
+  'templates.title': 'வார்ப்புருக்கள்',
+  'templates.description': 'அடிக்கடி எழுதும் பதில்களுக்கான மீண்டும் பயன்படுத்தக்கூடிய செய்திகள். எடிட்டர் கருவிப்பட்டியிலிருந்து சேர்க்கவும், அல்லது அதன் ;குறுக்குவழியைத் தட்டச்சு செய்து இடைவெளி விடவும்.',
+  'templates.new': 'புதிய வார்ப்புரு',
+  'templates.namePlaceholder': 'பெயர் (எ.கா. பணம் திருப்பியளிப்பு ஏற்கப்பட்டது)',
+  'templates.shortcut': 'குறுக்குவழி',
+  'templates.shortcutPlaceholder': 'குறுக்குவழி (விருப்பம்)',
+  'templates.shortcutInvalid': 'எழுத்துகள், எண்கள், "-" அல்லது "_" மட்டும் பயன்படுத்தவும்',
+  'templates.shortcutTaken': ';{shortcut} ஏற்கனவே வேறொரு வார்ப்புருவில் உள்ளது',
+  'templates.bodyPlaceholder': 'உங்கள் வார்ப்புருவை எழுதவும்…',
+  'templates.variablesHint': 'உரையாடலிலிருந்து நிரப்பப்படும்:',
+  'templates.cancel': 'ரத்துசெய்',
+  'templates.save': 'சேமி',
+  'templates.yourTemplates': 'உங்கள் வார்ப்புருக்கள்',
+  'templates.empty': 'இன்னும் வார்ப்புருக்கள் இல்லை',
+  'templates.untitled': 'பெயரிடப்படாதது',
+  'templates.edit': 'வார்ப்புருவைத் திருத்து',
+  'templates.delete': 'வார்ப்புருவை நீக்கு',
+  'templates.deleteConfirm': '"{name}" வார்ப்புருவை நீக்கவா?',
+  'templates.saveFailed': 'வார்ப்புருவைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'templates.deleteFailed': 'வார்ப்புருவை நீக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'templates.menu.search': 'வார்ப்புருக்கள் அல்லது ;குறுக்குவழியைத் தேடு',
+  'templates.menu.empty': 'இன்னும் வார்ப்புருக்கள் இல்லை - அமைப்புகளில் உருவாக்கவும்',
+  'templates.menu.noMatches': 'பொருந்தும் வார்ப்புருக்கள் இல்லை',
+
+  // Mail merge
+  'mailMerge.upload': 'பெறுநர்களைப் பதிவேற்று (CSV)',
+  'mailMerge.uploadHint': 'முதல் வரியில் நெடுவரிசைப் பெயர்கள், ஒரு மின்னஞ்சல் நெடுவரிசையுடன். அதிகபட்சம் {max} பெறுநர்கள்.',
+  'mailMerge.errorEmpty': 'இந்தக் கோப்பில் பெறுநர்கள் இல்லை',
+  'mailMerge.errorNoEmail': 'மின்னஞ்சல் நெடுவரிசை கிடைக்கவில்லை - அதற்கு "email" எனப் பெயரிடுங்கள்',
+  'mailMerge.errorNoRecipients': 'எந்த வரியிலும் சரியான மின்னஞ்சல் முகவரி இல்லை',
+  'mailMerge.errorRead': 'கோப்பைப் படிக்க முடியவில்லை',
+  'mailMerge.errorNoList': 'பெறுநர் பட்டியலைப் பதிவேற்றவும்',
+  'mailMerge.errorNoSubject': 'பொருளை உள்ளிடவும்',
+  'mailMerge.errorUploading': 'இணைப்புகள் பதிவேறும் வரை காத்திருக்கவும்',
+  'mailMerge.errorUnknownFields': 'பெறுநர் பட்டியலில் {fields} நெடுவரிசை இல்லை',
+  'mailMerge.errorStart': 'மெயில் மெர்ஜைத் தொடங்க முடியவில்லை',
+  'mailMerge.recipients': {
+    one: '{count} பெறுநர்',
+    other: '{count} பெறுநர்கள்',
+  },
+  'mailMerge.preview': 'முன்னோட்டம்',
+  'mailMerge.replace': 'மாற்று',
+  'mailMerge.remove': 'பெறுநர் பட்டியலை நீக்கு',
+  'mailMerge.skippedInvalid': {
+    one: 'சரியான முகவரி இல்லாத {count} வரி தவிர்க்கப்பட்டது (வரி {lines})',
+    other: 'சரியான முகவரி இல்லாத {count} வரிகள் தவிர்க்கப்பட்டன (வரிகள் {lines})',
+  },
+  'mailMerge.skippedDuplicates': {
+    one: '{count} நகல் தவிர்க்கப்பட்டது',
+    other: '{count} நகல்கள் தவிர்க்கப்பட்டன',
+  },
+  'mailMerge.truncated': 'முதல் {max} வரிகள் மட்டுமே பயன்படுத்தப்படும்',
+  'mailMerge.fields': 'புலங்கள்:',
+  'mailMerge.insertField': 'செய்தியில் செருகு',
+  'mailMerge.missingTitle': {
+    one: 'செய்தி பயன்படுத்தும் ஒரு புலத்திற்கு {count} பெறுநருக்கு மதிப்பு இல்லை',
+    other: 'செய்தி பயன்படுத்தும் ஒரு புலத்திற்கு {count} பெறுநர்களுக்கு மதிப்பு இல்லை',
+  },
+  'mailMerge.missingMore': '…மேலும் {count}',
+  'mailMerge.previewTitle': 'முன்னோட்டம்',
+  'mailMerge.previous': 'முந்தைய பெறுநர்',
+  'mailMerge.next': 'அடுத்த பெறுநர்',
+  'mailMerge.position': '{total} இல் {current}',
+  'mailMerge.closePreview': 'முன்னோட்டத்தை மூடு',
+  'mailMerge.to': 'பெறுநர்',
+  'mailMerge.subject': 'பொருள்',
+  'mailMerge.previewMissing': '{fields} க்கு மதிப்பு இல்லை - காலியாக விடப்படும்',
+  'mailMerge.progress.sending': 'அஞ்சல் இணைப்பு: {total} இல் {done}',
+  'mailMerge.progress.done': {
+    one: 'அஞ்சல் இணைப்பு {count} பெறுநருக்கு அனுப்பப்பட்டது',
+    other: 'அஞ்சல் இணைப்பு {count} பெறுநர்களுக்கு அனுப்பப்பட்டது',
+  },
+  'mailMerge.progress.cancelled': {
+    one: '{count} செய்திக்குப் பிறகு அஞ்சல் இணைப்பு நிறுத்தப்பட்டது',
+    other: '{count} செய்திகளுக்குப் பிறகு அஞ்சல் இணைப்பு நிறுத்தப்பட்டது',
+  },
+  'mailMerge.progress.failed': {
+    one: '{count} செய்தி தோல்வியடைந்தது',
+    other: '{count} செய்திகள் தோல்வியடைந்தன',
+  },
+  'mailMerge.progress.cancel': 'நிறுத்து',
+  'mailMerge.progress.dismiss': 'மூடு',
+  'mailMerge.rollup.title': 'அஞ்சல் இணைப்பு',
+  'mailMerge.rollup.sent': '{total} இல் {sent} அனுப்பப்பட்டன',
+  'mailMerge.rollup.failed': '{count} தோல்வி',
+  'mailMerge.rollup.opened': '{count} திறக்கப்பட்டன ({rate}%)',
+  'mailMerge.rollup.clicks': {
+    one: '{count} கிளிக்',
+    other: '{count} கிளிக்குகள்',
+  },
+
+  // Send checks
+  'sendChecks.title': 'அனுப்பும் முன் சோதனைகள்',
+  'sendChecks.dialog.title': 'இருந்தாலும் அனுப்பவா?',
+  'sendChecks.dialog.goBack': 'திரும்பு',
+  'sendChecks.dialog.sendAnyway': 'இருந்தாலும் அனுப்பு',
+  'sendChecks.warning.missingAttachment': 'செய்தி ஒரு இணைப்பைக் குறிப்பிடுகிறது, ஆனால் எதுவும் இணைக்கப்படவில்லை.',
+  'sendChecks.warning.externalRecipients': {
+    one: '{recipients} {domain} க்கு வெளியே உள்ளார்.',
+    other: '{recipients} {domain} க்கு வெளியே உள்ளனர்.',
+  },
+  'sendChecks.warning.largeReplyAll': 'நீங்கள் அனைத்து {count} பெறுநர்களுக்கும் பதிலளிக்கிறீர்கள்.',
+  'sendChecks.warning.newRecipients': {
+    one: '{recipients} உடன் நீங்கள் இதுவரை மின்னஞ்சல் பரிமாறவில்லை.',
+    other: '{recipients} உடன் நீங்கள் இதுவரை மின்னஞ்சல் பரிமாறவில்லை.',
+  },
+  'sendChecks.warning.emptySubject': 'பொருள் காலியாக உள்ளது.',
+  'sendChecks.warning.mergeBlankFields': {
+    one: '{count} பெறுநருக்குக் காலியான புலங்கள் உள்ளன, அவை வெறுமையாக விடப்படும்.',
+    other: '{count} பெறுநர்களுக்குக் காலியான புலங்கள் உள்ளன, அவை வெறுமையாக விடப்படும்.',
+  },
+  'sendChecks.settings.description': 'ஏதாவது சரியில்லை எனத் தோன்றினால் அனுப்பும் முன் கேள். ஒவ்வொரு எச்சரிக்கையிலும் "இருந்தாலும் அனுப்பு" பொத்தான் உண்டு.',
+  'sendChecks.settings.missingAttachment': 'செய்தி இணைப்பைக் குறிப்பிடுகிறது ஆனால் இணைப்பு இல்லை',
+  'sendChecks.settings.externalRecipients': 'சக ஊழியர்களுடன் என் டொமைனுக்கு வெளியே உள்ள ஒருவர்',
+  'sendChecks.settings.largeReplyAll': '{limit} பேருக்கு மேல் அனைவருக்கும் பதில்',
+  'sendChecks.settings.newRecipients': 'இதுவரை மின்னஞ்சல் பரிமாறாத பெறுநர்',
+  'sendChecks.settings.emptySubject': 'பொருள் காலியாக உள்ளது',
+  'sendChecks.settings.replyAllLimit': 'அனைவருக்கும் பதில் வரம்பு',
+};
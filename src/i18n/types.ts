@@ -0,0 +1,24 @@
+// i18n/types.ts - Catalog and language types
+
+import type { MessageKey } from './locales/en';
+
+export type LanguageCode = 'en' | 'de' | 'ta';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  name: string;        // Native name shown in the picker
+  locale: string;      // BCP 47 tag for Intl (dates, numbers, plural rules)
+  dir: TextDirection;
+}
+
+// Plural forms follow Intl.PluralRules categories - `other` is always required
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+// Translations may omit keys - missing ones fall back to English
+export type Catalog = Partial<Record<MessageKey, Message>>;
@@ -2,6 +2,10 @@ import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import { AuthProvider } from "./context/AuthContext";
 import "./index.css";
+import { initI18n } from "./i18n";
+
+// Language, <html lang dir> and date locale before the first render
+initI18n();
 
 createRoot(document.getElementById("root")!).render(
   <AuthProvider>
@@ -0,0 +1,458 @@
+// pages/Attachments.tsx - Attachments Page
+// Every file received or sent, newest first, with filters by type, direction, sender and date
+// Clicking a file opens the lightbox, which pages through the filtered list
+
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useNavigate } from "react-router-dom";
+import {
+  Loader2, Menu, Paperclip, Download, Image, FileText, FileAudio, FileVideo, File,
+} from "lucide-react";
+import { SearchModal } from "@/components/search";
+import { Sidebar } from "@/components/layout";
+import { MobileSidebar } from "@/components/layout/MobileSidebar";
+import { AttachmentLightbox } from "@/components/attachments/AttachmentLightbox";
+import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
+import { UndoEmailData } from "@/components/inbox/ComposeModal";
+import { useCompose } from "@/context/ComposeContext";
+import { useShortcuts } from "@/context/ShortcutsContext";
+import { useAttachments, AttachmentItem } from "@/hooks/useAttachments";
+import { useTranslation } from "@/hooks/useTranslation";
+import { getAttachmentKind, downloadAttachment, ATTACHMENT_KINDS, AttachmentKind } from "@/utils/attachments";
+import { formatFileSize } from "@/utils/formatters";
+
+type DirectionFilter = 'all' | 'received' | 'sent';
+type DateFilter = 'any' | 'week' | 'month' | 'year';
+
+const DATE_FILTER_DAYS: Record<Exclude<DateFilter, 'any'>, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const KIND_ICONS: Record<AttachmentKind, typeof File> = {
+  image: Image,
+  pdf: FileText,
+  text: FileText,
+  audio: FileAudio,
+  video: FileVideo,
+  other: File,
+};
+
+const AttachmentsPage = () => {
+  const { currentUser, userProfile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+
+  const { items, loading, error, hasMore, loadingMore, loadMore } = useAttachments(currentUser?.uid);
+
+  // Filters - applied to the pages loaded so far
+  const [kindFilter, setKindFilter] = useState<AttachmentKind | 'all'>('all');
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>('all');
+  const [senderFilter, setSenderFilter] = useState('');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('any');
+
+  // Index into `filtered` of the file open in the lightbox
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // Compose modal state - uses global context
+  const { isComposeOpen, openCompose, setOnEmailSent } = useCompose();
+
+  // Search modal state
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Email send undo toast state
+  const [emailUndoToast, setEmailUndoToast] = useState<{
+    show: boolean;
+    emailId: string;
+    recipients: string[];
+    emailData: UndoEmailData;
+  } | null>(null);
+
+  // Undo restore state
+  const [undoComposeData, setUndoComposeData] = useState<UndoEmailData | null>(null);
+
+  // Senders for the filter suggestions, most frequent first
+  const senders = useMemo(() => {
+    const counts = new Map<string, number>();
+    items.forEach(item => counts.set(item.senderEmail, (counts.get(item.senderEmail) || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([email]) => email);
+  }, [items]);
+
+  const filtered = useMemo(() => {
+    const sender = senderFilter.trim().toLowerCase();
+    const since = dateFilter === 'any' ? 0 : Date.now() - DATE_FILTER_DAYS[dateFilter] * 24 * 60 * 60 * 1000;
+
+    return items.filter(item =>
+      (kindFilter === 'all' || getAttachmentKind(item.attachment) === kindFilter) &&
+      (directionFilter === 'all' || item.isSent === (directionFilter === 'sent')) &&
+      (!sender || item.senderEmail.toLowerCase().includes(sender) || item.senderName.toLowerCase().includes(sender)) &&
+      item.timestamp >= since
+    );
+  }, [items, kindFilter, directionFilter, senderFilter, dateFilter]);
+
+  const hasFilters = kindFilter !== 'all' || directionFilter !== 'all' || senderFilter.trim() !== '' || dateFilter !== 'any';
+
+  // A filter change reorders the list - close the lightbox instead of jumping to another file
+  useEffect(() => {
+    setLightboxIndex(null);
+  }, [kindFilter, directionFilter, senderFilter, dateFilter]);
+
+  useEffect(() => {
+    if (!authLoading && !currentUser) {
+      navigate("/");
+    }
+  }, [currentUser, authLoading, navigate]);
+
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen && lightboxIndex === null);
+
+  const handleClearFilters = useCallback(() => {
+    setKindFilter('all');
+    setDirectionFilter('all');
+    setSenderFilter('');
+    setDateFilter('any');
+  }, []);
+
+  const handleDownload = useCallback(async (item: AttachmentItem) => {
+    try {
+      await downloadAttachment(item.attachment);
+    } catch (err) {
+      console.error('❌ Attachment download failed:', err);
+    }
+  }, []);
+
+  // Handle email sent - show undo toast
+  const handleEmailSent = useCallback((emailId: string, recipients: string[], emailData: UndoEmailData) => {
+    console.log('📧 Email queued, showing undo toast:', emailId);
+    setEmailUndoToast({
+      show: true,
+      emailId,
+      recipients,
+      emailData
+    });
+  }, []);
+
+  // Register email sent callback with global compose context
+  useEffect(() => {
+    setOnEmailSent(() => handleEmailSent);
+    return () => setOnEmailSent(null);
+  }, [handleEmailSent, setOnEmailSent]);
+
+  // Handle email undone - just store data, useEffect will open modal
+  const handleEmailUndone = useCallback(() => {
+    console.log('↩️ Email cancelled, storing data for modal');
+    const emailData = emailUndoToast?.emailData;
+    if (!emailData) return;
+
+    // Store undo data - useEffect below will open the modal
+    setUndoComposeData(emailData);
+  }, [emailUndoToast]);
+
+  // Open modal AFTER undoComposeData is set (fixes timing issue)
+  useEffect(() => {
+    if (undoComposeData && undoComposeData.type === 'compose') {
+      console.log('📧 Opening compose modal with undo data');
+      openCompose({
+        initialTo: undoComposeData.to,
+        initialCc: undoComposeData.cc,
+        initialBcc: undoComposeData.bcc,
+        initialSubject: undoComposeData.subject,
+        initialBody: undoComposeData.body_html,
+        initialAttachments: undoComposeData.attachments,
+      });
+      setUndoComposeData(null);
+    }
+  }, [undoComposeData, openCompose]);
+
+  // Handle close undo toast
+  const handleCloseEmailUndoToast = useCallback(() => {
+    setEmailUndoToast(null);
+  }, []);
+
+  // ==================== RENDER HELPERS ====================
+
+  // "Jane Doe" for received files, "To bob@example.com" for sent ones
+  const formatCounterpart = (item: AttachmentItem) =>
+    item.isSent ? t('attachments.sentTo', { name: item.recipients[0] || '' }) : item.senderName;
+
+  const lightboxItems = useMemo(
+    () => filtered.map(item => ({ attachment: item.attachment, caption: `${item.senderName} · ${item.time}` })),
+    [filtered]
+  );
+
+  if (authLoading) {
+    return (
+      <div className="fixed inset-0 bg-[#1a1a1a] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-white animate-spin" />
+      </div>
+    );
+  }
+
+  if (!currentUser) return null;
+
+  const selectClass = "bg-zinc-800 border border-zinc-700 rounded-lg px-2.5 py-1.5 text-xs text-zinc-300 focus:outline-none focus:border-zinc-500";
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-[#1a1a1a]">
+
+        <Sidebar
+          activePage="attachments"
+          userEmail={currentUser?.email || ""}
+          userName={userProfile?.firstName ? `${userProfile.firstName} ${userProfile.lastName || ""}`.trim() : undefined}
+          avatarLetter={userProfile?.firstName?.[0]?.toUpperCase() || currentUser?.email?.[0]?.toUpperCase() || "U"}
+        />
+        {/* ==================== MOBILE/TABLET: Sidebar Component ==================== */}
+        <MobileSidebar
+          isOpen={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+          activePage="attachments"
+          userProfile={userProfile}
+          currentUser={currentUser}
+        />
+
+        {/* ==================== MAIN CONTAINER ==================== */}
+        <div className={`fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
+
+          {/* ==================== TOP NAVBAR ==================== */}
+          <nav className="flex-shrink-0 border-b border-zinc-700/50">
+            {/* Mobile/Tablet Header */}
+            <div className="flex lg:hidden items-center justify-between h-14 px-3">
+              {/* LEFT: Hamburger + Title */}
+              <div className="flex items-center">
+                <button
+                  onClick={() => setSidebarOpen(true)}
+                  className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+                >
+                  <Menu className="w-5 h-5" />
+                </button>
+                <span className="text-white font-medium text-sm">{t('nav.attachments')}</span>
+              </div>
+
+              {/* RIGHT: Action Icons */}
+              <div className="flex items-center">
+                {/* Search Icon */}
+                <button onClick={() => setIsSearchOpen(true)} className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white" title="Search">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M480 272C480 317.9 465.1 360.3 440 394.7L566.6 521.4C579.1 533.9 579.1 554.2 566.6 566.7C554.1 579.2 533.8 579.2 521.3 566.7L394.7 440C360.3 465.1 317.9 480 272 480C157.1 480 64 386.9 64 272C64 157.1 157.1 64 272 64C386.9 64 480 157.1 480 272zM272 416C351.5 416 416 351.5 416 272C416 192.5 351.5 128 272 128C192.5 128 128 192.5 128 272C128 351.5 192.5 416 272 416z"/>
+                  </svg>
+                </button>
+
+                {/* Compose/Pencil Icon */}
+                <button
+                  onClick={() => openCompose()}
+                  className="p-2 bg-[#8FA8A3] hover:bg-[#7a9691] rounded-lg transition-colors text-white"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M505 122.9L517.1 135C526.5 144.4 526.5 159.6 517.1 168.9L488 198.1L441.9 152L471 122.9C480.4 113.5 495.6 113.5 504.9 122.9zM273.8 320.2L408 185.9L454.1 232L319.8 366.2C316.9 369.1 313.3 371.2 309.4 372.3L250.9 389L267.6 330.5C268.7 326.6 270.8 323 273.7 320.1zM437.1 89L239.8 286.2C231.1 294.9 224.8 305.6 221.5 317.3L192.9 417.3C190.5 425.7 192.8 434.7 199 440.9C205.2 447.1 214.2 449.4 222.6 447L322.6 418.4C334.4 415 345.1 408.7 353.7 400.1L551 202.9C579.1 174.8 579.1 129.2 551 101.1L538.9 89C510.8 60.9 465.2 60.9 437.1 89zM152 128C103.4 128 64 167.4 64 216L64 488C64 536.6 103.4 576 152 576L424 576C472.6 576 512 536.6 512 488L512 376C512 362.7 501.3 352 488 352C474.7 352 464 362.7 464 376L464 488C464 510.1 446.1 528 424 528L152 528C129.9 528 112 510.1 112 488L112 216C112 193.9 129.9 176 152 176L264 176C277.3 176 288 165.3 288 152C288 138.7 277.3 128 264 128L152 128z"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            {/* Desktop Header */}
+            <div className="hidden lg:flex items-center justify-between px-6 pt-4">
+              {/* Page Title + File Count */}
+              <div className="flex items-center gap-4 pb-4">
+                <span className="text-[#8FA8A3] font-medium text-sm">{t('nav.attachments')}</span>
+                <span className="text-zinc-500 text-sm">{filtered.length}</span>
+              </div>
+
+              {/* Action Icons */}
+              <div className="flex items-center gap-1 pb-4">
+                {/* Search Icon */}
+                <button onClick={() => setIsSearchOpen(true)} className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white" title="Search">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M480 272C480 317.9 465.1 360.3 440 394.7L566.6 521.4C579.1 533.9 579.1 554.2 566.6 566.7C554.1 579.2 533.8 579.2 521.3 566.7L394.7 440C360.3 465.1 317.9 480 272 480C157.1 480 64 386.9 64 272C64 157.1 157.1 64 272 64C386.9 64 480 157.1 480 272zM272 416C351.5 416 416 351.5 416 272C416 192.5 351.5 128 272 128C192.5 128 128 192.5 128 272C128 351.5 192.5 416 272 416z"/>
+                  </svg>
+                </button>
+
+                {/* Compose Icon */}
+                <button
+                  onClick={() => openCompose()}
+                  className="p-2 bg-[#8FA8A3] hover:bg-[#7a9691] rounded-lg transition-colors text-white"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M505 122.9L517.1 135C526.5 144.4 526.5 159.6 517.1 168.9L488 198.1L441.9 152L471 122.9C480.4 113.5 495.6 113.5 504.9 122.9zM273.8 320.2L408 185.9L454.1 232L319.8 366.2C316.9 369.1 313.3 371.2 309.4 372.3L250.9 389L267.6 330.5C268.7 326.6 270.8 323 273.7 320.1zM437.1 89L239.8 286.2C231.1 294.9 224.8 305.6 221.5 317.3L192.9 417.3C190.5 425.7 192.8 434.7 199 440.9C205.2 447.1 214.2 449.4 222.6 447L322.6 418.4C334.4 415 345.1 408.7 353.7 400.1L551 202.9C579.1 174.8 579.1 129.2 551 101.1L538.9 89C510.8 60.9 465.2 60.9 437.1 89zM152 128C103.4 128 64 167.4 64 216L64 488C64 536.6 103.4 576 152 576L424 576C472.6 576 512 536.6 512 488L512 376C512 362.7 501.3 352 488 352C474.7 352 464 362.7 464 376L464 488C464 510.1 446.1 528 424 528L152 528C129.9 528 112 510.1 112 488L112 216C112 193.9 129.9 176 152 176L264 176C277.3 176 288 165.3 288 152C288 138.7 277.3 128 264 128L152 128z"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </nav>
+
+          {/* ==================== FILTERS ==================== */}
+          <div className="flex-shrink-0 flex flex-wrap items-center gap-2 px-4 lg:px-6 py-3 border-b border-zinc-700/50">
+            {/* Type chips */}
+            <div className="flex items-center gap-1 overflow-x-auto hide-scrollbar">
+              {(['all', ...ATTACHMENT_KINDS] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setKindFilter(kind)}
+                  className={`px-3 py-1.5 rounded-lg text-xs whitespace-nowrap transition-colors ${
+                    kindFilter === kind
+                      ? 'bg-zinc-700 text-white'
+                      : 'text-zinc-400 hover:text-white hover:bg-zinc-700/50'
+                  }`}
+                >
+                  {t(`attachments.type.${kind}`)}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 lg:ms-auto">
+              <select
+                value={directionFilter}
+                onChange={(e) => setDirectionFilter(e.target.value as DirectionFilter)}
+                className={selectClass}
+                aria-label={t('attachments.direction.label')}
+              >
+                <option value="all">{t('attachments.direction.all')}</option>
+                <option value="received">{t('attachments.direction.received')}</option>
+                <option value="sent">{t('attachments.direction.sent')}</option>
+              </select>
+
+              <input
+                type="text"
+                list="attachment-senders"
+                value={senderFilter}
+                onChange={(e) => setSenderFilter(e.target.value)}
+                placeholder={t('attachments.senderPlaceholder')}
+                className={`${selectClass} w-44 placeholder:text-zinc-500`}
+              />
+              <datalist id="attachment-senders">
+                {senders.map(sender => <option key={sender} value={sender} />)}
+              </datalist>
+
+              <select
+                value={dateFilter}
+                onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+                className={selectClass}
+                aria-label={t('attachments.date.label')}
+              >
+                <option value="any">{t('attachments.date.any')}</option>
+                <option value="week">{t('attachments.date.week')}</option>
+                <option value="month">{t('attachments.date.month')}</option>
+                <option value="year">{t('attachments.date.year')}</option>
+              </select>
+            </div>
+          </div>
+
+          {/* ==================== FILE LIST ==================== */}
+          <div className="flex-1 overflow-y-auto hide-scrollbar">
+            {/* Loading State */}
+            {loading && (
+              <div className="flex items-center justify-center h-48">
+                <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
+              </div>
+            )}
+
+            {/* Error State */}
+            {!loading && error && (
+              <div className="flex items-center justify-center h-48 px-4">
+                <p className="text-zinc-500 text-sm text-center">{t('attachments.error')}</p>
+              </div>
+            )}
+
+            {/* Empty State */}
+            {!loading && !error && filtered.length === 0 && (
+              <div className="flex flex-col items-center justify-center h-48 px-4 text-center">
+                <Paperclip className="w-8 h-8 text-zinc-600 mb-3" />
+                <p className="text-zinc-400 text-sm">
+                  {hasFilters ? t('attachments.noMatches') : t('attachments.empty')}
+                </p>
+                {hasFilters && (
+                  <button onClick={handleClearFilters} className="mt-2 text-xs text-[#8FA8A3] hover:underline">
+                    {t('attachments.clearFilters')}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* File Rows */}
+            {!loading && !error && filtered.map((item, index) => {
+              const kind = getAttachmentKind(item.attachment);
+              const Icon = KIND_ICONS[kind];
+              return (
+                <div
+                  key={item.key}
+                  onClick={() => setLightboxIndex(index)}
+                  className="group flex items-center gap-3 cursor-pointer transition-all duration-150 border-b border-zinc-700/30 px-4 lg:px-6 py-3 hover:bg-zinc-800/30"
+                >
+                  <div className="w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-lg bg-zinc-800 text-zinc-400">
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-zinc-200 truncate">{item.attachment.filename}</span>
+                      <span className="text-xs text-zinc-500 flex-shrink-0">{formatFileSize(item.attachment.size)}</span>
+                    </div>
+                    <p className="text-xs text-zinc-500 truncate">
+                      {formatCounterpart(item)}
+                      {item.subject && ` · ${item.subject}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleDownload(item); }}
+                    className="p-1.5 hidden group-hover:block hover:bg-zinc-600/50 rounded transition-colors text-zinc-400 hover:text-white"
+                    title={t('attachments.download')}
+                    aria-label={t('attachments.download')}
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <span className="text-xs text-zinc-500 flex-shrink-0">{item.time}</span>
+                </div>
+              );
+            })}
+
+            {/* Older files - filters only see the pages loaded so far */}
+            {!loading && !error && hasMore && (
+              <div className="flex justify-center py-4">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="flex items-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-xs text-zinc-300 transition-colors disabled:opacity-50"
+                >
+                  {loadingMore && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                  {t('attachments.loadMore')}
+                </button>
+              </div>
+            )}
+          </div>
+
+        </div>
+
+        {/* Preview - pages through the filtered list */}
+        <AttachmentLightbox
+          items={lightboxItems}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+
+        {/* Email Send Undo Toast */}
+        {emailUndoToast && emailUndoToast.show && (
+          <EmailSendUndoToast
+            emailId={emailUndoToast.emailId}
+            recipients={emailUndoToast.recipients}
+            onClose={handleCloseEmailUndoToast}
+            onUndo={handleEmailUndone}
+          />
+        )}
+
+        {/* Search Modal */}
+        <SearchModal
+          isOpen={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          userEmail={currentUser?.email || ''}
+        />
+
+      </div>
+    </>
+  );
+};
+
+export default AttachmentsPage;
@@ -12,6 +12,7 @@ import {
 } from "@/components/inbox";
 import { SearchModal } from "@/components/search";
 import { useDoneEmails } from "@/hooks/useDoneEmails";
+import { useThreadOverrides } from "@/hooks/useThreadOverrides";
 import { useThreadEmailsByThreadId } from "@/components/inbox/useThreadEmailsByThreadId";
 import { SentThreadDetail } from "@/components/inbox/SentThreadDetail";
 import { MobileSentThreadDetail } from "@/components/inbox/MobileSentThreadDetail";
@@ -21,6 +22,7 @@ import { MobileSidebar } from "@/components/layout/MobileSidebar";
 import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { useCompose } from "@/context/ComposeContext";
+import { useShortcuts } from "@/context/ShortcutsContext";
 
 const DonePage = () => {
   const { currentUser, userProfile, loading: authLoading, backendUserData } = useAuth();
@@ -28,8 +30,8 @@ const DonePage = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
   
-  // Local state for optimistic UI - track emails marked as undone (to hide them)
-  const [localUndoneEmails, setLocalUndoneEmails] = useState<Set<string>>(new Set());
+  // Optimistic UI state - shared with Inbox/Label/Trash through the react-query cache
+  const { emailOverrides, updateEmails, updateThreads, commit, reconcileEmails } = useThreadOverrides();
 
   // Compose modal state - uses global context
   const { isComposeOpen, openCompose, setOnEmailSent } = useCompose();
@@ -55,7 +57,14 @@ const DonePage = () => {
   const [isSelectionMode, setIsSelectionMode] = useState(false);
 
   // Fetch done emails from Firestore
-  const { emails, loading: emailsLoading, error: emailsError } = useDoneEmails(currentUser?.uid);
+  const {
+    emails,
+    loading: emailsLoading,
+    error: emailsError,
+    hasMore,
+    loadingMore,
+    loadMore,
+  } = useDoneEmails(currentUser?.uid);
 
   // Fetch thread emails when an email is selected
   const { emails: threadEmails, loading: threadEmailsLoading } = useThreadEmailsByThreadId(
@@ -65,8 +74,15 @@ const DonePage = () => {
   
   // Filter out emails that have been marked as undone (optimistic UI)
   const emailsWithLocalState = useMemo(() => {
-    return emails.filter(email => !localUndoneEmails.has(email.id));
-  }, [emails, localUndoneEmails]);
+    return emails.filter(email => emailOverrides[email.id]?.is_done !== false);
+  }, [emails, emailOverrides]);
+
+  // Forget overrides for emails Firestore has already moved out
+  useEffect(() => {
+    if (!emailsLoading) {
+      reconcileEmails(emails, 'is_done');
+    }
+  }, [emails, emailsLoading, reconcileEmails]);
 
   useEffect(() => {
     if (!authLoading && !currentUser) {
@@ -74,23 +90,10 @@ const DonePage = () => {
     }
   }, [currentUser, authLoading, navigate]);
 
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.closest('[data-modal]')) return;
-      if (isComposeOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isComposeOpen, isSearchOpen]);
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
 
   // Handle email click
   const handleEmailClick = useCallback((email: Email) => {
@@ -106,29 +109,29 @@ const DonePage = () => {
   const handleMarkUndone = useCallback(async (email: Email) => {
     console.log('↩️ Marking email as undone:', email.id);
     
-    // Optimistic UI: Hide email immediately
-    setLocalUndoneEmails(prev => new Set(prev).add(email.id));
+    // Also lift any thread-level hide so the thread can show up in the inbox again
+    updateThreads([email.thread_id], { is_done: undefined });
     
     // If this email was selected, clear selection
     if (selectedEmail?.id === email.id) {
       setSelectedEmail(null);
     }
     
-    // Call API in background
-    markEmailAsUndone(email.id)
+    // Hide immediately, call API in background
+    commit({
+      entity: 'emails',
+      ids: [email.id],
+      patch: { is_done: false },
+      request: () => markEmailAsUndone(email.id)
+    })
       .then(response => {
         console.log('✅ Email marked as undone:', response);
       })
       .catch(error => {
+        // commit() already reverted the optimistic update
         console.error('❌ Failed to mark email as undone:', error);
-        // Revert optimistic update on error
-        setLocalUndoneEmails(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(email.id);
-          return newSet;
-        });
       });
-  }, [selectedEmail]);
+  }, [selectedEmail, commit, updateThreads]);
 
   // Handle checkbox change for individual email
   const handleCheckChange = useCallback((email: Email, checked: boolean) => {
@@ -173,12 +176,14 @@ const DonePage = () => {
     
     const emailIds = Array.from(checkedEmails);
     
+    // Lift thread-level hides for the affected threads
+    const threadIds = emails
+      .filter(email => emailIds.includes(email.id))
+      .map(email => email.thread_id);
+    updateThreads(threadIds, { is_done: undefined });
+    
     // Optimistic UI: Hide emails immediately
-    setLocalUndoneEmails(prev => {
-      const newSet = new Set(prev);
-      emailIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
+    updateEmails(emailIds, { is_done: false });
     
     // Clear selection and exit selection mode
     setCheckedEmails(new Set());
@@ -195,9 +200,10 @@ const DonePage = () => {
         await markEmailAsUndone(emailId);
       } catch (error) {
         console.error('Failed to undo email:', emailId, error);
+        updateEmails([emailId], { is_done: undefined });
       }
     }
-  }, [checkedEmails, selectedEmail]);
+  }, [checkedEmails, selectedEmail, emails, updateEmails, updateThreads]);
 
   // Handle email sent - show undo toast
   const handleEmailSent = useCallback((emailId: string, recipients: string[], emailData: UndoEmailData) => {
@@ -284,7 +290,7 @@ const DonePage = () => {
         />
 
         {/* ==================== MAIN CONTAINER ==================== */}
-        <div className={`fixed inset-0 lg:top-0 lg:right-0 lg:left-16 bg-[#2d2d2d] lg:rounded-bl-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
+        <div className={`fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
           
           {/* ==================== MOBILE SELECTION BAR ==================== */}
           <MobileSelectionBar
@@ -406,6 +412,9 @@ const DonePage = () => {
                 isSelectionMode={isSelectionMode}
                 onCheckChange={handleCheckChange}
                 onLongPress={handleLongPress}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={loadMore}
               />
             </div>
 
@@ -21,6 +21,7 @@ import { MobileSidebar } from "@/components/layout/MobileSidebar";
 import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { batchDelete } from "@/services/emailApi";
+import { useShortcuts } from "@/context/ShortcutsContext";
 
 // Draft data for compose editing
 interface ComposeDraftData {
@@ -147,23 +148,10 @@ const DraftPage = () => {
     }
   }, [currentUser, authLoading, navigate]);
 
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.closest('[data-modal]')) return;
-      if (isComposeOpen || isReplyOpen || isForwardOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isComposeOpen, isReplyOpen, isForwardOpen, isSearchOpen]);
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
 
   // Handle email click - load full draft and open correct modal
   const handleEmailClick = useCallback(async (email: Email) => {
@@ -395,7 +383,7 @@ const DraftPage = () => {
         />
 
         {/* Main Content Area */}
-        <div className="lg:ml-20 h-full flex flex-col">
+        <div className="lg:ms-20 h-full flex flex-col">
           {/* ==================== MOBILE SELECTION BAR ==================== */}
           <MobileSelectionBar
             selectedCount={checkedEmails.size}
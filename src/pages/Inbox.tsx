@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useNavigate } from "react-router-dom";
-import { Loader2, Menu, Mail, MailOpen, Check, Trash2 } from "lucide-react";
+import { Loader2, Menu, Mail, MailOpen, Check, Trash2, Reply, ReplyAll, Forward, Tag, Plus, FolderInput, Search, AlarmClock } from "lucide-react";
 import {
   Category,
   CategoryCounts,
@@ -20,30 +20,38 @@ import {
   ReplyModal,
   ForwardModal,
   MobileSelectionBar,
+  ExportMenu,
+  getCategoryLabel,
 } from "@/components/inbox";
 import { SearchModal } from "@/components/search";
 import { CreateLabelModal } from "@/components/labels/CreateLabelModal";
+import { SnoozeModal } from "@/components/snooze/SnoozeModal";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { useThreads } from "@/hooks/useThreads";
+import { useThreadOverrides } from "@/hooks/useThreadOverrides";
+import { useEmailExport } from "@/hooks/useEmailExport";
 
 import { 
-  batchMarkAsDone, 
-  batchMarkAsRead,
-  batchMarkAsUnread,
-  batchDelete,
   getLabels,
   getEmail,
-  applyLabelToThread,
-  removeLabelFromThread
+  updateThreadCategory
 } from "@/services/emailApi";
+import { runMutation } from "@/services/offlineQueue";
+import { finalizeComposioConnection } from "@/services/backend.service";
 import { UndoToast } from "@/components/ui/UndoToast";
 import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { CategoryMoveToast } from "@/components/ui/CategoryMoveToast";
+import { t } from "@/i18n";
+import { useShortcuts } from "@/context/ShortcutsContext";
+import { ShortcutHints } from "@/components/shortcuts/ShortcutHints";
+import { useCommands } from "@/context/CommandPaletteContext";
+import { PaletteCommand } from "@/utils/commandPalette";
 import { Sidebar } from "@/components/layout";
 import { MobileSidebar } from "@/components/layout/MobileSidebar";
 import ComposioConnectionOverlay from "@/components/ComposioConnectionOverlay";
 import { useCategoryMoveNotifications } from "@/hooks/useCategoryMoveNotifications";
 import { useCompose } from "@/context/ComposeContext";
+import { useSnoozes } from "@/context/SnoozeContext";
 
 const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8000';
 
@@ -131,13 +139,21 @@ const InboxPage = () => {
   // Expanded overlay state (desktop only)
   const [isExpanded, setIsExpanded] = useState(false);
   
-  // Local state for optimistic UI updates
-  const [localReadThreads, setLocalReadThreads] = useState<Set<string>>(new Set());
-  const [localUnreadThreads, setLocalUnreadThreads] = useState<Set<string>>(new Set());
-  const [localDoneThreads, setLocalDoneThreads] = useState<Set<string>>(new Set());
-  const [localDeletedThreads, setLocalDeletedThreads] = useState<Set<string>>(new Set());
-  const [localThreadLabels, setLocalThreadLabels] = useState<Map<string, Array<{ id: string; name: string; color: string }>>>(new Map());
-  const [localMovedThreads, setLocalMovedThreads] = useState<Map<string, { from: string; to: string }>>(new Map());
+  // Optimistic UI state - shared with Label/Done/Trash through the react-query cache
+  const {
+    threadOverrides,
+    applyOverrides,
+    isThreadUnread,
+    updateThreads,
+    commit,
+    reconcile
+  } = useThreadOverrides();
+  
+  // Snoozed threads are hidden; returned ones are pinned to the top of their category
+  const { applySnoozes, acknowledgeReturned } = useSnoozes();
+  
+  // Threads the snooze picker is open for (empty = closed)
+  const [snoozeTargets, setSnoozeTargets] = useState<Thread[]>([]);
   
   // Checked threads state (for bulk selection)
   const [checkedThreads, setCheckedThreads] = useState<Set<string>>(new Set());
@@ -191,9 +207,6 @@ const InboxPage = () => {
   // Create label modal state (for context menu)
   const [isCreateLabelOpen, setIsCreateLabelOpen] = useState(false);
 
-  // v4.0: Ref for tracking last key pressed (for R+A combo)
-  const lastKeyRef = useRef<string | null>(null);
-
   // v3.1: Auth token getter for tracking API calls
   const getAuthToken = useCallback(async (): Promise<string> => {
     if (!currentUser) {
@@ -209,35 +222,50 @@ const InboxPage = () => {
   const { 
     threads: urgentThreads, 
     loading: urgentLoading, 
-    error: urgentError 
+    error: urgentError,
+    hasMore: urgentHasMore,
+    loadingMore: urgentLoadingMore,
+    loadMore: urgentLoadMore
   } = useThreads(isGmailConnected ? currentUser?.uid : undefined, 'URGENT');
   
   // Fetch threads for IMPORTANT category
   const { 
     threads: importantThreads, 
     loading: importantLoading, 
-    error: importantError 
+    error: importantError,
+    hasMore: importantHasMore,
+    loadingMore: importantLoadingMore,
+    loadMore: importantLoadMore
   } = useThreads(isGmailConnected ? currentUser?.uid : undefined, 'IMPORTANT');
   
   // Fetch threads for OTHERS category
   const { 
     threads: othersThreads, 
     loading: othersLoading, 
-    error: othersError 
+    error: othersError,
+    hasMore: othersHasMore,
+    loadingMore: othersLoadingMore,
+    loadMore: othersLoadMore
   } = useThreads(isGmailConnected ? currentUser?.uid : undefined, 'OTHERS');
   
   // Fetch threads for Promises category (existing hook)
   const { 
     threads: promiseThreads, 
     loading: promisesLoading, 
-    error: promisesError 
+    error: promisesError,
+    hasMore: promisesHasMore,
+    loadingMore: promisesLoadingMore,
+    loadMore: promisesLoadMore
   } = usePromises(isGmailConnected ? currentUser?.uid : undefined);
   
   // Fetch threads for Awaiting category (existing hook)
   const { 
     threads: awaitingThreads, 
     loading: awaitingLoading, 
-    error: awaitingError 
+    error: awaitingError,
+    hasMore: awaitingHasMore,
+    loadingMore: awaitingLoadingMore,
+    loadMore: awaitingLoadMore
   } = useAwaiting(isGmailConnected ? currentUser?.uid : undefined);
 
   // Category move notifications (Promise/Awaiting detection)
@@ -332,23 +360,8 @@ const InboxPage = () => {
         threads = [];
     }
     
-    // Apply local state filters and read/unread state
-    return threads
-      .filter(thread => !localDoneThreads.has(thread.thread_id))
-      .filter(thread => !localDeletedThreads.has(thread.thread_id))
-      .filter(thread => {
-        const moveInfo = localMovedThreads.get(thread.thread_id);
-        return !(moveInfo && activeCategory.toUpperCase() === moveInfo.from);
-      })
-      .map(thread => ({
-        ...thread,
-        is_read: localUnreadThreads.has(thread.thread_id)
-          ? false
-          : localReadThreads.has(thread.thread_id)
-            ? true
-            : thread.is_read,
-        labels: localThreadLabels.get(thread.thread_id) || (thread as Thread & { labels?: Array<{ id: string; name: string; color: string }> }).labels || []
-      }));
+    // Apply snoozes, then optimistic overrides (done/deleted/moved, read state, labels)
+    return applyOverrides(applySnoozes(threads, activeCategory), activeCategory);
   }, [
     activeCategory, 
     urgentThreads, 
@@ -356,12 +369,8 @@ const InboxPage = () => {
     othersThreads, 
     promiseThreads, 
     awaitingThreads,
-    localDoneThreads,
-    localDeletedThreads,
-    localMovedThreads,
-    localReadThreads,
-    localUnreadThreads,
-    localThreadLabels
+    applySnoozes,
+    applyOverrides
   ]);
   
   // Get loading/error state for current category
@@ -387,24 +396,46 @@ const InboxPage = () => {
     }
   }, [activeCategory, urgentError, importantError, othersError, promisesError, awaitingError]);
 
+  // Infinite scroll state for current category
+  const currentPagination = useMemo(() => {
+    switch (activeCategory) {
+      case 'urgent': return { hasMore: urgentHasMore, loadingMore: urgentLoadingMore, loadMore: urgentLoadMore };
+      case 'important': return { hasMore: importantHasMore, loadingMore: importantLoadingMore, loadMore: importantLoadMore };
+      case 'others': return { hasMore: othersHasMore, loadingMore: othersLoadingMore, loadMore: othersLoadMore };
+      case 'promises': return { hasMore: promisesHasMore, loadingMore: promisesLoadingMore, loadMore: promisesLoadMore };
+      case 'awaiting': return { hasMore: awaitingHasMore, loadingMore: awaitingLoadingMore, loadMore: awaitingLoadMore };
+      default: return { hasMore: false, loadingMore: false, loadMore: undefined };
+    }
+  }, [
+    activeCategory,
+    urgentHasMore, urgentLoadingMore, urgentLoadMore,
+    importantHasMore, importantLoadingMore, importantLoadMore,
+    othersHasMore, othersLoadingMore, othersLoadMore,
+    promisesHasMore, promisesLoadingMore, promisesLoadMore,
+    awaitingHasMore, awaitingLoadingMore, awaitingLoadMore,
+  ]);
+
   // Calculate unread counts (considers local state for real-time updates)
   const categoryCounts: CategoryCounts = useMemo(() => {
     const countUnread = (threads: Thread[]) => {
-      return threads.filter(t => {
-        if (localUnreadThreads.has(t.thread_id)) return true;
-        if (localReadThreads.has(t.thread_id)) return false;
-        return t.is_read === false;
-      }).length;
+      return threads.filter(isThreadUnread).length;
     };
     
     return {
-      urgent: countUnread(urgentThreads),
-      important: countUnread(importantThreads),
-      promises: countUnread(promiseThreads),
-      awaiting: countUnread(awaitingThreads),
-      others: countUnread(othersThreads),
+      urgent: countUnread(applySnoozes(urgentThreads, 'urgent')),
+      important: countUnread(applySnoozes(importantThreads, 'important')),
+      promises: countUnread(applySnoozes(promiseThreads)),
+      awaiting: countUnread(applySnoozes(awaitingThreads)),
+      others: countUnread(applySnoozes(othersThreads, 'others')),
     };
-  }, [urgentThreads, importantThreads, promiseThreads, awaitingThreads, othersThreads, localReadThreads, localUnreadThreads]);
+  }, [urgentThreads, importantThreads, promiseThreads, awaitingThreads, othersThreads, isThreadUnread, applySnoozes]);
+
+  // Drop optimistic overrides once Firestore has caught up
+  const threadListsLoading = urgentLoading || importantLoading || othersLoading || promisesLoading || awaitingLoading;
+  useEffect(() => {
+    if (threadListsLoading) return;
+    reconcile([...urgentThreads, ...importantThreads, ...othersThreads, ...promiseThreads, ...awaitingThreads], 'inbox');
+  }, [urgentThreads, importantThreads, othersThreads, promiseThreads, awaitingThreads, threadListsLoading, reconcile]);
 
   // ==================== AUTH CHECK ====================
 
@@ -455,23 +486,8 @@ const InboxPage = () => {
         console.log('   Connection ID:', connectionId);
         
         try {
-          const idToken = await currentUser.getIdToken();
-          
           console.log('📡 Calling backend to finalize connection...');
-          const response = await fetch(`${import.meta.env.VITE_BACKEND_URL}/auth/composio/finalize?connection_id=${connectionId}`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${idToken}`,
-              'Content-Type': 'application/json',
-              'ngrok-skip-browser-warning': 'true'
-            }
-          });
-          
-          if (!response.ok) {
-            throw new Error(`Backend finalization failed: ${response.status}`);
-          }
-          
-          const data = await response.json();
+          const data = await finalizeComposioConnection(connectionId);
           console.log('✅ Composio connection finalized:', data);
           
           // Force refresh Firebase token to get new custom claims
@@ -510,28 +526,27 @@ const InboxPage = () => {
 
   const handleThreadClick = useCallback(async (thread: Thread) => {
     setSelectedThread(thread);
-    
-    if (localUnreadThreads.has(thread.thread_id)) {
-      setLocalUnreadThreads(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(thread.thread_id);
-        return newSet;
-      });
-    }
+    acknowledgeReturned(thread.thread_id);
     
     const emailIds = thread.email_ids || [];
-    if (emailIds.length > 0 && !localReadThreads.has(thread.thread_id)) {
-      setLocalReadThreads(prev => new Set(prev).add(thread.thread_id));
-      
-      batchMarkAsRead(emailIds)
+    if (emailIds.length > 0 && threadOverrides[thread.thread_id]?.is_read !== true) {
+      commit({
+        entity: 'threads',
+        ids: [thread.thread_id],
+        patch: { is_read: true },
+        request: () => runMutation({ type: 'read', emailIds })
+      })
         .then(response => {
           console.log('✅ Thread marked as read:', response);
         })
         .catch(error => {
+          // Only reached once apiClient retries are exhausted - commit() rolled back
           console.error('❌ Failed to mark thread as read:', error);
         });
+    } else if (threadOverrides[thread.thread_id]?.is_read === false) {
+      updateThreads([thread.thread_id], { is_read: undefined });
     }
-  }, [localReadThreads, localUnreadThreads]);
+  }, [threadOverrides, commit, updateThreads, acknowledgeReturned]);
 
   const handleCloseDetail = useCallback(() => {
     setSelectedThread(null);
@@ -628,31 +643,27 @@ const InboxPage = () => {
     const emailIds = getEmailIdsFromCheckedThreads();
     console.log('📖 Batch marking as read:', threadIds.length, 'threads');
     
-    setLocalReadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
-    
-    setLocalUnreadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
-    
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
     
-    if (emailIds.length > 0) {
-      batchMarkAsRead(emailIds)
-        .then(response => {
-          console.log('✅ Batch marked as read:', response);
-        })
-        .catch(error => {
-          console.error('❌ Failed to batch mark as read:', error);
-        });
+    if (emailIds.length === 0) {
+      updateThreads(threadIds, { is_read: true });
+      return;
     }
-  }, [checkedThreads, getEmailIdsFromCheckedThreads]);
+    
+    commit({
+      entity: 'threads',
+      ids: threadIds,
+      patch: { is_read: true },
+      request: () => runMutation({ type: 'read', emailIds })
+    })
+      .then(response => {
+        console.log('✅ Batch marked as read:', response);
+      })
+      .catch(error => {
+        console.error('❌ Failed to batch mark as read:', error);
+      });
+  }, [checkedThreads, getEmailIdsFromCheckedThreads, commit, updateThreads]);
   
   const handleBatchMarkAsUnread = useCallback(async () => {
     if (checkedThreads.size === 0) return;
@@ -661,31 +672,27 @@ const InboxPage = () => {
     const emailIds = getEmailIdsFromCheckedThreads();
     console.log('📬 Batch marking as unread:', threadIds.length, 'threads');
     
-    setLocalReadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
-    
-    setLocalUnreadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
-    
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
     
-    if (emailIds.length > 0) {
-      batchMarkAsUnread(emailIds)
-        .then(response => {
-          console.log('✅ Batch marked as unread:', response);
-        })
-        .catch(error => {
-          console.error('❌ Failed to batch mark as unread:', error);
-        });
+    if (emailIds.length === 0) {
+      updateThreads(threadIds, { is_read: false });
+      return;
     }
-  }, [checkedThreads, getEmailIdsFromCheckedThreads]);
+    
+    commit({
+      entity: 'threads',
+      ids: threadIds,
+      patch: { is_read: false },
+      request: () => runMutation({ type: 'unread', emailIds })
+    })
+      .then(response => {
+        console.log('✅ Batch marked as unread:', response);
+      })
+      .catch(error => {
+        console.error('❌ Failed to batch mark as unread:', error);
+      });
+  }, [checkedThreads, getEmailIdsFromCheckedThreads, commit, updateThreads]);
   
   const handleBatchMarkAsDone = useCallback(async () => {
     if (checkedThreads.size === 0) return;
@@ -694,33 +701,30 @@ const InboxPage = () => {
     const emailIds = getEmailIdsFromCheckedThreads();
     console.log('✅ Batch marking as done:', threadIds.length, 'threads');
     
-    setLocalDoneThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
-    
     if (selectedThread && threadIds.includes(selectedThread.thread_id)) {
       setSelectedThread(null);
     }
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
     
-    if (emailIds.length > 0) {
-      batchMarkAsDone(emailIds)
-        .then(response => {
-          console.log('✅ Batch marked as done:', response);
-        })
-        .catch(error => {
-          console.error('❌ Failed to batch mark as done:', error);
-          setLocalDoneThreads(prev => {
-            const newSet = new Set(prev);
-            threadIds.forEach(id => newSet.delete(id));
-            return newSet;
-          });
-        });
+    if (emailIds.length === 0) {
+      updateThreads(threadIds, { is_done: true });
+      return;
     }
-  }, [checkedThreads, selectedThread, getEmailIdsFromCheckedThreads]);
+    
+    commit({
+      entity: 'threads',
+      ids: threadIds,
+      patch: { is_done: true },
+      request: () => runMutation({ type: 'done', emailIds })
+    })
+      .then(response => {
+        console.log('✅ Batch marked as done:', response);
+      })
+      .catch(error => {
+        console.error('❌ Failed to batch mark as done:', error);
+      });
+  }, [checkedThreads, selectedThread, getEmailIdsFromCheckedThreads, commit, updateThreads]);
   
   const handleBatchDelete = useCallback(async () => {
     if (checkedThreads.size === 0) return;
@@ -733,11 +737,8 @@ const InboxPage = () => {
       clearTimeout(toast.timeoutId);
     }
     
-    setLocalDeletedThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
+    // Hide now, delete after the undo window
+    updateThreads(threadIds, { is_deleted: true });
     
     if (selectedThread && threadIds.includes(selectedThread.thread_id)) {
       setSelectedThread(null);
@@ -746,17 +747,17 @@ const InboxPage = () => {
     setIsSelectionMode(false);
     
     const timeoutId = setTimeout(() => {
-      batchDelete(emailIds)
+      commit({
+        entity: 'threads',
+        ids: threadIds,
+        rollback: { is_deleted: undefined },
+        request: () => runMutation({ type: 'delete', emailIds })
+      })
         .then(response => {
           console.log('✅ Batch deleted:', response);
         })
         .catch(error => {
           console.error('❌ Failed to batch delete:', error);
-          setLocalDeletedThreads(prev => {
-            const newSet = new Set(prev);
-            threadIds.forEach(id => newSet.delete(id));
-            return newSet;
-          });
         });
       
       setToast({ show: false, message: '', threadIds: [], emailIds: [], timeoutId: null });
@@ -764,12 +765,29 @@ const InboxPage = () => {
     
     setToast({
       show: true,
-      message: threadIds.length === 1 ? 'Thread moved to trash' : `${threadIds.length} threads moved to trash`,
+      message: t('toast.threadsTrashed', { count: threadIds.length }),
       threadIds,
       emailIds,
       timeoutId
     });
-  }, [checkedThreads, selectedThread, toast.timeoutId, getEmailIdsFromCheckedThreads]);
+  }, [checkedThreads, selectedThread, toast.timeoutId, getEmailIdsFromCheckedThreads, commit, updateThreads]);
+
+  // ==================== EXPORT ====================
+  
+  const { exporting, error: exportError, exportEml, exportMbox } = useEmailExport();
+  
+  // .eml only when the selection is a single message - one download per message gets blocked
+  const checkedEmailIds = useMemo(() => getEmailIdsFromCheckedThreads(), [getEmailIdsFromCheckedThreads]);
+  const handleBatchExportEml = useCallback(
+    () => exportEml(checkedEmailIds[0]),
+    [exportEml, checkedEmailIds]
+  );
+  
+  // One .mbox for the whole selection
+  const handleBatchExportMbox = useCallback(
+    () => exportMbox(getEmailIdsFromCheckedThreads(), `Outpost export ${new Date().toISOString().slice(0, 10)}`),
+    [exportMbox, getEmailIdsFromCheckedThreads]
+  );
 
   // ==================== SINGLE THREAD ACTIONS ====================
   
@@ -778,8 +796,6 @@ const InboxPage = () => {
     
     const wasDetailOpen = selectedThread?.thread_id === thread.thread_id;
     
-    setLocalDoneThreads(prev => new Set(prev).add(thread.thread_id));
-    
     if (wasDetailOpen) {
       const currentIndex = currentThreads.findIndex(t => t.thread_id === thread.thread_id);
       let nextThread: Thread | null = null;
@@ -796,21 +812,24 @@ const InboxPage = () => {
     }
     
     const emailIds = thread.email_ids || [];
-    if (emailIds.length > 0) {
-      batchMarkAsDone(emailIds)
-        .then(response => {
-          console.log('✅ Thread marked as done:', response);
-        })
-        .catch(error => {
-          console.error('❌ Failed to mark thread as done:', error);
-          setLocalDoneThreads(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(thread.thread_id);
-            return newSet;
-          });
-        });
+    if (emailIds.length === 0) {
+      updateThreads([thread.thread_id], { is_done: true });
+      return;
     }
-  }, [currentThreads, selectedThread]);
+    
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { is_done: true },
+      request: () => runMutation({ type: 'done', emailIds })
+    })
+      .then(response => {
+        console.log('✅ Thread marked as done:', response);
+      })
+      .catch(error => {
+        console.error('❌ Failed to mark thread as done:', error);
+      });
+  }, [currentThreads, selectedThread, commit, updateThreads]);
 
   const handleDeleteThread = useCallback(async (thread: Thread) => {
     console.log('🗑️ Deleting thread:', thread.thread_id);
@@ -819,7 +838,8 @@ const InboxPage = () => {
       clearTimeout(toast.timeoutId);
     }
     
-    setLocalDeletedThreads(prev => new Set(prev).add(thread.thread_id));
+    // Hide now, delete after the undo window
+    updateThreads([thread.thread_id], { is_deleted: true });
     
     if (selectedThread?.thread_id === thread.thread_id) {
       setSelectedThread(null);
@@ -828,17 +848,17 @@ const InboxPage = () => {
     const emailIds = thread.email_ids || [];
     
     const timeoutId = setTimeout(() => {
-      batchDelete(emailIds)
+      commit({
+        entity: 'threads',
+        ids: [thread.thread_id],
+        rollback: { is_deleted: undefined },
+        request: () => runMutation({ type: 'delete', emailIds })
+      })
         .then(response => {
           console.log('✅ Thread deleted:', response);
         })
         .catch(error => {
           console.error('❌ Failed to delete thread:', error);
-          setLocalDeletedThreads(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(thread.thread_id);
-            return newSet;
-          });
         });
       
       setToast({ show: false, message: '', threadIds: [], emailIds: [], timeoutId: null });
@@ -846,52 +866,87 @@ const InboxPage = () => {
     
     setToast({
       show: true,
-      message: 'Thread moved to trash',
+      message: t('toast.threadsTrashed', { count: 1 }),
       threadIds: [thread.thread_id],
       emailIds,
       timeoutId
     });
-  }, [toast.timeoutId, selectedThread]);
+  }, [toast.timeoutId, selectedThread, commit, updateThreads]);
   
   const handleUndoDelete = useCallback(() => {
     if (toast.timeoutId) {
       clearTimeout(toast.timeoutId);
     }
     
-    setLocalDeletedThreads(prev => {
-      const newSet = new Set(prev);
-      toast.threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
+    updateThreads(toast.threadIds, { is_deleted: undefined });
     
     setToast({ show: false, message: '', threadIds: [], emailIds: [], timeoutId: null });
     console.log('↩️ Undo delete:', toast.threadIds);
-  }, [toast]);
+  }, [toast, updateThreads]);
   
   const handleCloseToast = useCallback(() => {
     setToast(prev => ({ ...prev, show: false }));
   }, []);
 
+  // ==================== REPORT PHISHING ====================
+  // From the warning banner in ThreadDetail - the thread moves to Spam
+  
+  const handleReportPhishing = useCallback((thread: Thread) => {
+    console.log('🎣 Reporting thread as phishing:', thread.thread_id);
+    
+    if (selectedThread?.thread_id === thread.thread_id) {
+      setSelectedThread(null);
+      setIsExpanded(false);
+    }
+    
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { is_spam: true },
+      request: () => runMutation({ type: 'spam', emailIds: thread.email_ids || [] })
+    })
+      .then(() => console.log('✅ Thread moved to Spam:', thread.thread_id))
+      .catch(error => console.error('❌ Failed to report phishing:', error));
+  }, [selectedThread, commit]);
+
+  // ==================== SNOOZE ====================
+  // The picker is SnoozeModal; the snoozed threads drop out of currentThreads via applySnoozes
+  
+  const handleSnoozeThread = useCallback((thread: Thread) => {
+    setSnoozeTargets([thread]);
+  }, []);
+  
+  const handleBatchSnooze = useCallback(() => {
+    if (checkedThreads.size === 0) return;
+    setSnoozeTargets(currentThreads.filter(thread => checkedThreads.has(thread.thread_id)));
+  }, [checkedThreads, currentThreads]);
+  
+  const handleThreadsSnoozed = useCallback((threads: Thread[]) => {
+    const snoozedIds = new Set(threads.map(thread => thread.thread_id));
+    console.log('😴 Snoozed from inbox:', snoozedIds.size, 'threads');
+    
+    if (selectedThread && snoozedIds.has(selectedThread.thread_id)) {
+      setSelectedThread(null);
+      setIsExpanded(false);
+    }
+    
+    const remaining = new Set(Array.from(checkedThreads).filter(id => !snoozedIds.has(id)));
+    setCheckedThreads(remaining);
+    if (remaining.size === 0) {
+      setIsSelectionMode(false);
+    }
+  }, [selectedThread, checkedThreads]);
+
   // ==================== CATEGORY OVERRIDE HANDLER ====================
   
   const handleThreadCategoryOverride = useCallback((threadId: string, newCategory: string) => {
     console.log(`📁 Category changed: ${threadId} → ${newCategory} (from ${activeCategory.toUpperCase()})`);
     
-    setLocalMovedThreads(prev => {
-      const newMap = new Map(prev);
-      newMap.set(threadId, { from: activeCategory.toUpperCase(), to: newCategory });
-      return newMap;
-    });
-    
-    const categoryLabels: Record<string, string> = {
-      'URGENT': 'Urgent',
-      'IMPORTANT': 'Important',
-      'OTHERS': 'Others'
-    };
+    updateThreads([threadId], { moved: { from: activeCategory.toUpperCase(), to: newCategory } });
     
     setToast({
       show: true,
-      message: `Moved to ${categoryLabels[newCategory] || newCategory}`,
+      message: t('toast.movedTo', { category: getCategoryLabel(newCategory) }),
       threadIds: [threadId],
       emailIds: [],
       timeoutId: null
@@ -900,7 +955,7 @@ const InboxPage = () => {
     setTimeout(() => {
       setToast(prev => ({ ...prev, show: false }));
     }, 3000);
-  }, [activeCategory]);
+  }, [activeCategory, updateThreads]);
 
   // ==================== EMAIL SEND HANDLERS ====================
   
@@ -973,6 +1028,10 @@ const InboxPage = () => {
     setIsReplyOpen(true);
   }, []);
 
+  const handleReplyAllEmail = useCallback((email: Email) => {
+    handleReply(email, 'replyAll');
+  }, [handleReply]);
+
   const handleForward = useCallback((email: Email) => {
     console.log('📧 Opening forward modal for:', email.subject);
     setForwardEmail(email);
@@ -1136,32 +1195,34 @@ const InboxPage = () => {
   }, []);
 
   const handleContextMarkRead = useCallback(async (thread: Thread) => {
-    setLocalReadThreads(prev => new Set(prev).add(thread.thread_id));
-    setLocalUnreadThreads(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(thread.thread_id);
-      return newSet;
-    });
-    
     const emailIds = thread.email_ids || [];
-    if (emailIds.length > 0) {
-      batchMarkAsRead(emailIds).catch(console.error);
+    if (emailIds.length === 0) {
+      updateThreads([thread.thread_id], { is_read: true });
+      return;
     }
-  }, []);
+    
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { is_read: true },
+      request: () => runMutation({ type: 'read', emailIds })
+    }).catch(console.error);
+  }, [commit, updateThreads]);
 
   const handleContextMarkUnread = useCallback(async (thread: Thread) => {
-    setLocalUnreadThreads(prev => new Set(prev).add(thread.thread_id));
-    setLocalReadThreads(prev => {
-      const newSet = new Set(prev);
-      newSet.delete(thread.thread_id);
-      return newSet;
-    });
-    
     const emailIds = thread.email_ids || [];
-    if (emailIds.length > 0) {
-      batchMarkAsUnread(emailIds).catch(console.error);
+    if (emailIds.length === 0) {
+      updateThreads([thread.thread_id], { is_read: false });
+      return;
     }
-  }, []);
+    
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { is_read: false },
+      request: () => runMutation({ type: 'unread', emailIds })
+    }).catch(console.error);
+  }, [commit, updateThreads]);
 
   const handleCreateLabelFromContext = useCallback(() => {
     setIsCreateLabelOpen(true);
@@ -1190,146 +1251,135 @@ const InboxPage = () => {
       return;
     }
     
-    setLocalThreadLabels(prev => {
-      const newMap = new Map(prev);
-      const currentLabels = newMap.get(thread.thread_id) || (thread as Thread & { labels?: Array<{ id: string; name: string; color: string }> }).labels || [];
-      
-      if (isApplied) {
-        const updatedLabels = currentLabels.filter((l) => l.id !== labelId);
-        newMap.set(thread.thread_id, updatedLabels);
-      } else {
-        const updatedLabels = [...currentLabels, labelObj];
-        newMap.set(thread.thread_id, updatedLabels);
-      }
-      
-      return newMap;
-    });
+    const currentLabels = threadOverrides[thread.thread_id]?.labels || thread.labels || [];
+    const updatedLabels = isApplied
+      ? currentLabels.filter((l) => l.id !== labelId)
+      : [...currentLabels, labelObj];
     
     try {
-      if (isApplied) {
-        await removeLabelFromThread({
-          thread_id: thread.thread_id,
-          label_id: labelId,
-          label_name: labelName
-        });
-      } else {
-        await applyLabelToThread({
-          thread_id: thread.thread_id,
-          label_id: labelId,
-          label_name: labelName
-        });
-      }
+      await commit({
+        entity: 'threads',
+        ids: [thread.thread_id],
+        patch: { labels: updatedLabels },
+        request: () => runMutation({
+          type: isApplied ? 'removeLabel' : 'applyLabel',
+          threadId: thread.thread_id,
+          labelId,
+          labelName
+        })
+      });
       console.log('✅ Label toggled successfully');
     } catch (err) {
       console.error('❌ Label toggle failed:', err);
-      setLocalThreadLabels(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(thread.thread_id);
-        return newMap;
-      });
     }
-  }, [allLabels]);
+  }, [allLabels, threadOverrides, commit]);
 
-  // ==================== KEYBOARD SHORTCUTS ====================
+  // ==================== COMMAND PALETTE ====================
+  // Cmd+K commands for the open thread (or the checked threads) - the same
+  // handlers as the thread context menu. App-wide commands are in GlobalCommands.
   
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      
-      if (target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'checkbox') return;
-      if (target.closest('[contenteditable="true"]')) return;
-      if (target.closest('[role="dialog"]') || target.closest('.compose-modal') || target.closest('[data-modal]')) return;
-      if (isComposeOpen || isReplyOpen || isForwardOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-        return;
-      }
-      
-      if ((e.ctrlKey || e.metaKey) && e.key === 'a') {
-        e.preventDefault();
-        const allIds = new Set(currentThreads.map(t => t.thread_id));
-        setCheckedThreads(allIds);
-        setIsSelectionMode(true);
-        return;
-      }
-      
-      if (e.key === 'Escape' && checkedThreads.size > 0) {
-        e.preventDefault();
-        setCheckedThreads(new Set());
-        setIsSelectionMode(false);
-        return;
-      }
-      
-      if (checkedThreads.size === 0) return;
-      
-      if (e.key === 'r' || e.key === 'R') {
-        e.preventDefault();
-        (document.activeElement as HTMLElement)?.blur();
-        handleBatchMarkAsRead();
-      } else if (e.key === 'u' || e.key === 'U') {
-        e.preventDefault();
-        (document.activeElement as HTMLElement)?.blur();
-        handleBatchMarkAsUnread();
-      } else if (e.key === 'd' || e.key === 'D') {
-        e.preventDefault();
-        (document.activeElement as HTMLElement)?.blur();
-        handleBatchMarkAsDone();
-      } else if (e.key === 'Delete' || e.key === 'Backspace') {
-        e.preventDefault();
-        (document.activeElement as HTMLElement)?.blur();
-        handleBatchDelete();
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [checkedThreads, currentThreads, isComposeOpen, isReplyOpen, isForwardOpen, isSearchOpen, handleBatchMarkAsRead, handleBatchMarkAsUnread, handleBatchMarkAsDone, handleBatchDelete]);
+  const handleMoveThreadToCategory = useCallback(async (thread: Thread, category: string) => {
+    try {
+      await updateThreadCategory(thread.thread_id, category);
+      handleThreadCategoryOverride(thread.thread_id, category);
+    } catch (err) {
+      console.error('❌ Failed to move thread:', err);
+    }
+  }, [handleThreadCategoryOverride]);
+  
+  const threadCommands: PaletteCommand[] = [];
+  if (checkedThreads.size > 0) {
+    threadCommands.push(
+      { id: 'selection.markRead', group: 'thread', label: t('shortcuts.markRead'), icon: MailOpen, shortcut: 'markRead', perform: () => { handleBatchMarkAsRead(); } },
+      { id: 'selection.markUnread', group: 'thread', label: t('shortcuts.markUnread'), icon: Mail, shortcut: 'markUnread', perform: () => { handleBatchMarkAsUnread(); } },
+      { id: 'selection.markDone', group: 'thread', label: t('commands.markSelectedDone'), icon: Check, shortcut: 'markDone', perform: () => { handleBatchMarkAsDone(); } },
+      { id: 'selection.delete', group: 'thread', label: t('commands.deleteSelected'), keywords: ['trash'], icon: Trash2, shortcut: 'delete', perform: () => { handleBatchDelete(); } },
+      { id: 'selection.snooze', group: 'thread', label: t('commands.snoozeSelected'), keywords: ['later', 'remind'], icon: AlarmClock, shortcut: 'snooze', perform: handleBatchSnooze },
+    );
+  } else if (selectedThread) {
+    const thread = selectedThread;
+    const appliedLabels = threadOverrides[thread.thread_id]?.labels || thread.labels || [];
+    const currentCategory = (thread.user_category || thread.category || '').toUpperCase();
+    
+    threadCommands.push(
+      { id: 'thread.reply', group: 'thread', label: t('shortcuts.reply'), icon: Reply, shortcut: 'reply', perform: () => { handleContextReply(thread); } },
+      { id: 'thread.replyAll', group: 'thread', label: t('shortcuts.replyAll'), icon: ReplyAll, shortcut: 'replyAll', perform: () => { handleContextReplyAll(thread); } },
+      { id: 'thread.forward', group: 'thread', label: t('shortcuts.forward'), icon: Forward, shortcut: 'forward', perform: () => { handleContextForward(thread); } },
+      thread.is_read
+        ? { id: 'thread.markUnread', group: 'thread', label: t('commands.markUnread'), icon: Mail, perform: () => { handleContextMarkUnread(thread); } }
+        : { id: 'thread.markRead', group: 'thread', label: t('commands.markRead'), icon: MailOpen, perform: () => { handleContextMarkRead(thread); } },
+      { id: 'thread.markDone', group: 'thread', label: t('shortcuts.markDone'), keywords: ['archive'], icon: Check, shortcut: 'markDone', perform: () => { handleMarkThreadDone(thread); } },
+      { id: 'thread.delete', group: 'thread', label: t('shortcuts.delete'), keywords: ['trash'], icon: Trash2, shortcut: 'delete', perform: () => { handleDeleteThread(thread); } },
+      { id: 'thread.snooze', group: 'thread', label: t('commands.snooze'), keywords: ['later', 'remind'], icon: AlarmClock, shortcut: 'snooze', perform: () => handleSnoozeThread(thread) },
+      ...allLabels.map((label): PaletteCommand => {
+        const isApplied = appliedLabels.some(l => l.id === label.id);
+        return {
+          id: `thread.label.${label.id}`,
+          group: 'labels',
+          label: t(isApplied ? 'commands.removeLabel' : 'commands.applyLabel', { label: label.name }),
+          icon: Tag,
+          perform: () => { handleToggleLabel(thread, label.id, label.name, isApplied); },
+        };
+      }),
+      { id: 'thread.createLabel', group: 'labels', label: t('nav.createLabel'), icon: Plus, perform: handleCreateLabelFromContext },
+      ...['URGENT', 'IMPORTANT', 'OTHERS']
+        .filter(category => category !== currentCategory)
+        .map((category): PaletteCommand => ({
+          id: `thread.moveTo.${category}`,
+          group: 'category',
+          label: t('commands.moveTo', { category: getCategoryLabel(category) }),
+          icon: FolderInput,
+          perform: () => { handleMoveThreadToCategory(thread, category); },
+        })),
+    );
+  }
+  threadCommands.push(
+    { id: 'inbox.search', group: 'actions', label: t('shortcuts.search'), icon: Search, shortcut: 'search', perform: () => setIsSearchOpen(true) },
+  );
+  
+  useCommands(threadCommands);
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.tagName === 'INPUT') return;
-      if (target.closest('[contenteditable="true"]')) return;
-      if (target.closest('[role="dialog"]') || target.closest('.compose-modal') || target.closest('[data-modal]')) return;
-      if (isComposeOpen || isReplyOpen || isForwardOpen) return;
-      if (!selectedThread || checkedThreads.size > 0) return;
-      
-      const latestEmail = threadEmails.length > 0 ? threadEmails[threadEmails.length - 1] : null;
-      if (!latestEmail) return;
-      
-      if (e.key.toLowerCase() === 'a' && lastKeyRef.current === 'r') {
-        e.preventDefault();
-        handleReply(latestEmail, 'replyAll');
-        lastKeyRef.current = null;
-        return;
-      }
-      
-      if (e.key.toLowerCase() === 'r' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        lastKeyRef.current = 'r';
-        setTimeout(() => {
-          if (lastKeyRef.current === 'r') {
-            handleReply(latestEmail, 'reply');
-            lastKeyRef.current = null;
-          }
-        }, 300);
-        return;
-      }
-      
-      if (e.key.toLowerCase() === 'f' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        handleForward(latestEmail);
-        return;
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedThread, checkedThreads.size, threadEmails, isComposeOpen, isReplyOpen, isForwardOpen, handleReply, handleForward]);
+  // ==================== KEYBOARD SHORTCUTS ====================
+  // Bindings live in utils/shortcuts.ts. The open thread's keys (r/a/f/e/#) are
+  // registered by ThreadDetail; the checked-selection handlers below register
+  // later, so they take over e / # while threads are checked.
+  
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
+  
+  useShortcuts('list', {
+    nextThread: () => {
+      if (selectedThread) return handleNextThread();
+      if (currentThreads.length === 0) return false;
+      handleThreadClick(currentThreads[0]);
+    },
+    previousThread: () => (selectedThread ? handlePreviousThread() : false),
+    selectAll: () => {
+      setCheckedThreads(new Set(currentThreads.map(t => t.thread_id)));
+      setIsSelectionMode(true);
+    },
+  });
+  
+  useShortcuts('list', {
+    markRead: () => {
+      handleBatchMarkAsRead();
+    },
+    markUnread: () => {
+      handleBatchMarkAsUnread();
+    },
+    markDone: () => {
+      handleBatchMarkAsDone();
+    },
+    delete: () => {
+      handleBatchDelete();
+    },
+    snooze: handleBatchSnooze,
+    clearSelection: () => {
+      setCheckedThreads(new Set());
+      setIsSelectionMode(false);
+    },
+  }, checkedThreads.size > 0);
 
   // ==================== RENDERING ====================
 
@@ -1381,7 +1431,7 @@ const InboxPage = () => {
         />
 
         <div className={`
-          fixed inset-0 lg:top-0 lg:right-0 lg:left-16 bg-[#2d2d2d] lg:rounded-bl-2xl flex flex-col
+          fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col
           ${(hasCheckedThreads || isComposeOpen || isReplyOpen || isForwardOpen || hasThreadSelection) ? 'lg:bottom-12' : 'lg:bottom-8'}
         `}>
           
@@ -1393,7 +1443,10 @@ const InboxPage = () => {
             onMarkRead={handleBatchMarkAsRead}
             onMarkUnread={handleBatchMarkAsUnread}
             onMarkDone={handleBatchMarkAsDone}
+            onSnooze={handleBatchSnooze}
             onDelete={handleBatchDelete}
+            onExport={handleBatchExportMbox}
+            exporting={exporting}
           />
           
           <nav className="flex-shrink-0 border-b border-zinc-700/50">
@@ -1471,6 +1524,19 @@ const InboxPage = () => {
                     >
                       <Check className="w-5 h-5" />
                     </button>
+                    <button
+                      onClick={handleBatchSnooze}
+                      className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+                      title="Snooze"
+                    >
+                      <AlarmClock className="w-5 h-5" />
+                    </button>
+                    <ExportMenu
+                      onExportEml={checkedEmailIds.length === 1 ? handleBatchExportEml : undefined}
+                      onExportMbox={handleBatchExportMbox}
+                      exporting={exporting}
+                      error={exportError}
+                    />
                     <button
                       onClick={handleBatchDelete}
                       className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-red-400"
@@ -1518,6 +1584,9 @@ const InboxPage = () => {
                   checkedThreadIds={checkedThreads}
                   onCheckChange={handleCheckChange}
                   isInitialSyncing={isInitialSyncing}
+                  hasMore={currentPagination.hasMore}
+                  loadingMore={currentPagination.loadingMore}
+                  onLoadMore={currentPagination.loadMore}
                 />
               )}
               
@@ -1531,6 +1600,9 @@ const InboxPage = () => {
                   checkedThreadIds={checkedThreads}
                   onCheckChange={handleCheckChange}
                   isInitialSyncing={isInitialSyncing}
+                  hasMore={currentPagination.hasMore}
+                  loadingMore={currentPagination.loadingMore}
+                  onLoadMore={currentPagination.loadMore}
                 />
               )}
               
@@ -1549,6 +1621,7 @@ const InboxPage = () => {
                   onLongPress={handleLongPress}
                   onMarkDone={handleMarkThreadDone}
                   onDelete={handleDeleteThread}
+                  onSnooze={handleSnoozeThread}
                   allLabels={allLabels}
                   onReply={handleContextReply}
                   onReplyAll={handleContextReplyAll}
@@ -1557,6 +1630,9 @@ const InboxPage = () => {
                   onMarkUnread={handleContextMarkUnread}
                   onToggleLabel={handleToggleLabel}
                   onCreateLabel={handleCreateLabelFromContext}
+                  hasMore={currentPagination.hasMore}
+                  loadingMore={currentPagination.loadingMore}
+                  onLoadMore={currentPagination.loadMore}
                 />
               )}
             </div>
@@ -1576,6 +1652,8 @@ const InboxPage = () => {
                   onClose={handleCloseDetail}
                   onMarkDone={() => handleMarkThreadDone(selectedThread)}
                   onDelete={() => handleDeleteThread(selectedThread)}
+                  onSnooze={() => handleSnoozeThread(selectedThread)}
+                  onReportPhishing={() => handleReportPhishing(selectedThread)}
                   onExpand={handleToggleExpand}
                   isExpanded={false}
                   onPrevious={handlePreviousThread}
@@ -1584,8 +1662,8 @@ const InboxPage = () => {
                   hasNext={hasNextThread}
                   mode={getThreadMode()}
                   onReply={handleReply}
+                  onReplyAll={handleReplyAllEmail}
                   onForward={handleForward}
-                  getAuthToken={getAuthToken}
                   onCategoryChange={handleThreadCategoryOverride}
                 />
               )}
@@ -1669,6 +1747,8 @@ const InboxPage = () => {
                 onClose={handleCloseDetail}
                 onMarkDone={() => handleMarkThreadDone(selectedThread)}
                 onDelete={() => handleDeleteThread(selectedThread)}
+                onSnooze={() => handleSnoozeThread(selectedThread)}
+                onReportPhishing={() => handleReportPhishing(selectedThread)}
                 mode={getThreadMode()}
                 onReply={handleReply}
                 onForward={handleForward}
@@ -1698,10 +1778,7 @@ const InboxPage = () => {
               <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+K</kbd>
               <span className="text-sm text-zinc-400">Link</span>
             </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+Enter</kbd>
-              <span className="text-sm text-zinc-400">Send</span>
-            </div>
+            <ShortcutHints actions={['send']} />
             <div className="flex items-center gap-1.5">
               <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">Esc</kbd>
               <span className="text-sm text-zinc-400">Close</span>
@@ -1711,47 +1788,13 @@ const InboxPage = () => {
         
         {!isComposeOpen && !isReplyOpen && !isForwardOpen && hasCheckedThreads && (
           <div className="hidden lg:flex fixed bottom-0 left-16 right-0 h-12 bg-[#1a1a1a] items-center justify-center gap-8 z-20">
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">R</kbd>
-              <span className="text-sm text-zinc-400">Read</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">U</kbd>
-              <span className="text-sm text-zinc-400">Unread</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">D</kbd>
-              <span className="text-sm text-zinc-400">Done</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">Del</kbd>
-              <span className="text-sm text-zinc-400">Delete</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+A</kbd>
-              <span className="text-sm text-zinc-400">Select All</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">Esc</kbd>
-              <span className="text-sm text-zinc-400">Deselect</span>
-            </div>
+            <ShortcutHints actions={['markRead', 'markUnread', 'markDone', 'snooze', 'delete', 'selectAll', 'clearSelection']} />
           </div>
         )}
         
         {!isComposeOpen && !isReplyOpen && !isForwardOpen && !hasCheckedThreads && hasThreadSelection && (
           <div className="hidden lg:flex fixed bottom-0 left-16 right-0 h-12 bg-[#1a1a1a] items-center justify-center gap-8 z-20">
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">R</kbd>
-              <span className="text-sm text-zinc-400">Reply</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">R+A</kbd>
-              <span className="text-sm text-zinc-400">Reply All</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">F</kbd>
-              <span className="text-sm text-zinc-400">Forward</span>
-            </div>
+            <ShortcutHints actions={['reply', 'replyAll', 'forward', 'markDone', 'snooze', 'label']} />
           </div>
         )}
         
@@ -1777,6 +1820,8 @@ const InboxPage = () => {
                     onClose={handleCloseExpanded}
                     onMarkDone={() => handleMarkThreadDone(selectedThread)}
                     onDelete={() => handleDeleteThread(selectedThread)}
+                    onSnooze={() => handleSnoozeThread(selectedThread)}
+                    onReportPhishing={() => handleReportPhishing(selectedThread)}
                     onExpand={handleToggleExpand}
                     isExpanded={true}
                     onPrevious={handlePreviousThread}
@@ -1785,8 +1830,8 @@ const InboxPage = () => {
                     hasNext={hasNextThread}
                     mode={getThreadMode()}
                     onReply={handleReply}
+                    onReplyAll={handleReplyAllEmail}
                     onForward={handleForward}
-                    getAuthToken={getAuthToken}
                     onCategoryChange={handleThreadCategoryOverride}
                   />
                 </div>
@@ -1913,6 +1958,13 @@ const InboxPage = () => {
           onLabelCreated={handleLabelCreatedFromContext}
         />
         
+        <SnoozeModal
+          isOpen={snoozeTargets.length > 0}
+          onClose={() => setSnoozeTargets([])}
+          threads={snoozeTargets}
+          onSnoozed={handleThreadsSnoozed}
+        />
+        
       </div>
     </>
   );
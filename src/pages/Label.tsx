@@ -4,7 +4,7 @@
 import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useNavigate, useParams } from "react-router-dom";
-import { Loader2, Menu, Pencil, Mail, MailOpen, Check, Trash2 } from "lucide-react";
+import { Loader2, Menu, Pencil, Mail, MailOpen, Check, Trash2, AlarmClock, Reply, ReplyAll, Forward, Tag, FolderInput, Search } from "lucide-react";
 import {
   Thread,
   Email,
@@ -15,23 +15,33 @@ import {
   ReplyModal,
   ForwardModal,
   MobileSelectionBar,
+  ExportMenu,
+  getCategoryLabel,
 } from "@/components/inbox";
 import { SearchModal } from "@/components/search";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { 
-  batchMarkAsDone, 
-  batchMarkAsRead,
-  batchMarkAsUnread,
-  batchDelete,
   getLabelByName,
-  getLabelThreads
+  getLabelThreads,
+  updateThreadCategory
 } from "@/services/emailApi";
+import { runMutation } from "@/services/offlineQueue";
+import { useThreadOverrides } from "@/hooks/useThreadOverrides";
+import { useEmailExport } from "@/hooks/useEmailExport";
 import { UndoToast } from "@/components/ui/UndoToast";
+import { t } from "@/i18n";
+import { useShortcuts } from "@/context/ShortcutsContext";
+import { useCommands } from "@/context/CommandPaletteContext";
+import { useLabels } from "@/context/LabelsContext";
+import { PaletteCommand } from "@/utils/commandPalette";
+import { ShortcutHints } from "@/components/shortcuts/ShortcutHints";
 import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { Sidebar } from "@/components/layout";
 import { MobileSidebar } from "@/components/layout/MobileSidebar";
 import { EditLabelModal } from "@/components/labels/EditLabelModal";
 import { useCompose } from "@/context/ComposeContext";
+import { useSnoozes } from "@/context/SnoozeContext";
+import { SnoozeModal } from "@/components/snooze/SnoozeModal";
 
 // Hook to fetch threads by label - uses emailApi for automatic routing
 function useLabelThreads(userId: string | undefined, labelName: string | undefined) {
@@ -85,11 +95,20 @@ const LabelPage = () => {
   // Expanded overlay state (desktop only)
   const [isExpanded, setIsExpanded] = useState(false);
   
-  // Local state for optimistic UI updates
-  const [localReadThreads, setLocalReadThreads] = useState<Set<string>>(new Set());
-  const [localUnreadThreads, setLocalUnreadThreads] = useState<Set<string>>(new Set());
-  const [localDoneThreads, setLocalDoneThreads] = useState<Set<string>>(new Set());
-  const [localDeletedThreads, setLocalDeletedThreads] = useState<Set<string>>(new Set());
+  // Optimistic UI state - shared with Inbox/Done/Trash through the react-query cache
+  const {
+    threadOverrides,
+    applyOverrides,
+    updateThreads,
+    commit,
+    reconcile
+  } = useThreadOverrides();
+  
+  // Snoozed threads are hidden until they come back
+  const { applySnoozes, acknowledgeReturned } = useSnoozes();
+  
+  // Threads the snooze picker is open for (empty = closed)
+  const [snoozeTargets, setSnoozeTargets] = useState<Thread[]>([]);
   
   // Checked threads state (for bulk selection)
   const [checkedThreads, setCheckedThreads] = useState<Set<string>>(new Set());
@@ -141,9 +160,6 @@ const LabelPage = () => {
     auto_label_emails?: string[];
   } | null>(null);
 
-  // Ref for tracking last key pressed
-  const lastKeyRef = useRef<string | null>(null);
-
   // Auth token getter
   const getAuthToken = useCallback(async (): Promise<string> => {
     if (!currentUser) {
@@ -189,20 +205,16 @@ const LabelPage = () => {
     fetchLabelDetails();
   }, [currentUser, labelName]);
 
-  // Get threads with local state applied
+  // Get threads with snoozes and optimistic overrides applied
   const currentThreads = useMemo(() => {
-    return labelThreads
-      .filter(thread => !localDoneThreads.has(thread.thread_id))
-      .filter(thread => !localDeletedThreads.has(thread.thread_id))
-      .map(thread => ({
-        ...thread,
-        is_read: localUnreadThreads.has(thread.thread_id)
-          ? false
-          : localReadThreads.has(thread.thread_id)
-            ? true
-            : thread.is_read
-      }));
-  }, [labelThreads, localDoneThreads, localDeletedThreads, localReadThreads, localUnreadThreads]);
+    return applyOverrides(applySnoozes(labelThreads));
+  }, [labelThreads, applySnoozes, applyOverrides]);
+
+  // Drop optimistic overrides once the backend has caught up
+  useEffect(() => {
+    if (labelLoading || labelError) return;
+    reconcile(labelThreads, `label:${labelName}`);
+  }, [labelThreads, labelLoading, labelError, labelName, reconcile]);
 
   // ==================== AUTH CHECK ====================
 
@@ -216,28 +228,26 @@ const LabelPage = () => {
 
   const handleThreadClick = useCallback(async (thread: Thread) => {
     setSelectedThread(thread);
-    
-    if (localUnreadThreads.has(thread.thread_id)) {
-      setLocalUnreadThreads(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(thread.thread_id);
-        return newSet;
-      });
-    }
+    acknowledgeReturned(thread.thread_id);
     
     const emailIds = thread.email_ids || [];
-    if (emailIds.length > 0 && !localReadThreads.has(thread.thread_id)) {
-      setLocalReadThreads(prev => new Set(prev).add(thread.thread_id));
-      
-      batchMarkAsRead(emailIds)
+    if (emailIds.length > 0 && threadOverrides[thread.thread_id]?.is_read !== true) {
+      commit({
+        entity: 'threads',
+        ids: [thread.thread_id],
+        patch: { is_read: true },
+        request: () => runMutation({ type: 'read', emailIds })
+      })
         .then(response => {
           console.log('✅ Thread marked as read:', response);
         })
         .catch(error => {
           console.error('❌ Failed to mark thread as read:', error);
         });
+    } else if (threadOverrides[thread.thread_id]?.is_read === false) {
+      updateThreads([thread.thread_id], { is_read: undefined });
     }
-  }, [localReadThreads, localUnreadThreads]);
+  }, [threadOverrides, commit, updateThreads, acknowledgeReturned]);
 
   const handleCloseDetail = useCallback(() => {
     setSelectedThread(null);
@@ -332,25 +342,21 @@ const LabelPage = () => {
     const threadIds = Array.from(checkedThreads);
     const emailIds = getEmailIdsFromCheckedThreads();
     
-    setLocalReadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
-    
-    setLocalUnreadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
-    
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
     
-    if (emailIds.length > 0) {
-      batchMarkAsRead(emailIds).catch(console.error);
+    if (emailIds.length === 0) {
+      updateThreads(threadIds, { is_read: true });
+      return;
     }
-  }, [checkedThreads, getEmailIdsFromCheckedThreads]);
+    
+    commit({
+      entity: 'threads',
+      ids: threadIds,
+      patch: { is_read: true },
+      request: () => runMutation({ type: 'read', emailIds })
+    }).catch(console.error);
+  }, [checkedThreads, getEmailIdsFromCheckedThreads, commit, updateThreads]);
   
   const handleBatchMarkAsUnread = useCallback(async () => {
     if (checkedThreads.size === 0) return;
@@ -358,25 +364,21 @@ const LabelPage = () => {
     const threadIds = Array.from(checkedThreads);
     const emailIds = getEmailIdsFromCheckedThreads();
     
-    setLocalReadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
-    
-    setLocalUnreadThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
-    
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
     
-    if (emailIds.length > 0) {
-      batchMarkAsUnread(emailIds).catch(console.error);
+    if (emailIds.length === 0) {
+      updateThreads(threadIds, { is_read: false });
+      return;
     }
-  }, [checkedThreads, getEmailIdsFromCheckedThreads]);
+    
+    commit({
+      entity: 'threads',
+      ids: threadIds,
+      patch: { is_read: false },
+      request: () => runMutation({ type: 'unread', emailIds })
+    }).catch(console.error);
+  }, [checkedThreads, getEmailIdsFromCheckedThreads, commit, updateThreads]);
   
   const handleBatchMarkAsDone = useCallback(async () => {
     if (checkedThreads.size === 0) return;
@@ -384,11 +386,8 @@ const LabelPage = () => {
     const threadIds = Array.from(checkedThreads);
     const emailIds = getEmailIdsFromCheckedThreads();
     
-    setLocalDoneThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
+    // Hide now, commit after the undo window
+    updateThreads(threadIds, { is_done: true });
     
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
@@ -399,17 +398,22 @@ const LabelPage = () => {
     
     setToast({
       show: true,
-      message: `${threadIds.length} thread${threadIds.length > 1 ? 's' : ''} moved to Done`,
+      message: t('toast.threadsDone', { count: threadIds.length }),
       threadIds,
       emailIds,
       timeoutId: setTimeout(() => {
         if (emailIds.length > 0) {
-          batchMarkAsDone(emailIds).catch(console.error);
+          commit({
+            entity: 'threads',
+            ids: threadIds,
+            rollback: { is_done: undefined },
+            request: () => runMutation({ type: 'done', emailIds })
+          }).catch(console.error);
         }
         setToast(prev => ({ ...prev, show: false }));
       }, 5000)
     });
-  }, [checkedThreads, getEmailIdsFromCheckedThreads, selectedThread]);
+  }, [checkedThreads, getEmailIdsFromCheckedThreads, selectedThread, commit, updateThreads]);
   
   const handleBatchDelete = useCallback(async () => {
     if (checkedThreads.size === 0) return;
@@ -417,11 +421,8 @@ const LabelPage = () => {
     const threadIds = Array.from(checkedThreads);
     const emailIds = getEmailIdsFromCheckedThreads();
     
-    setLocalDeletedThreads(prev => {
-      const newSet = new Set(prev);
-      threadIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
+    // Hide now, commit after the undo window
+    updateThreads(threadIds, { is_deleted: true });
     
     setCheckedThreads(new Set());
     setIsSelectionMode(false);
@@ -432,24 +433,53 @@ const LabelPage = () => {
     
     setToast({
       show: true,
-      message: `${threadIds.length} thread${threadIds.length > 1 ? 's' : ''} deleted`,
+      message: t('toast.threadsDeleted', { count: threadIds.length }),
       threadIds,
       emailIds,
       timeoutId: setTimeout(() => {
         if (emailIds.length > 0) {
-          batchDelete(emailIds).catch(console.error);
+          commit({
+            entity: 'threads',
+            ids: threadIds,
+            rollback: { is_deleted: undefined },
+            request: () => runMutation({ type: 'delete', emailIds })
+          }).catch(console.error);
         }
         setToast(prev => ({ ...prev, show: false }));
       }, 5000)
     });
-  }, [checkedThreads, getEmailIdsFromCheckedThreads, selectedThread]);
+  }, [checkedThreads, getEmailIdsFromCheckedThreads, selectedThread, commit, updateThreads]);
+
+  // ==================== EXPORT ====================
+  
+  const { exporting, error: exportError, exportEml, exportMbox } = useEmailExport();
+  
+  // .eml only when the selection is a single message - one download per message gets blocked
+  const checkedEmailIds = useMemo(() => getEmailIdsFromCheckedThreads(), [getEmailIdsFromCheckedThreads]);
+  const handleBatchExportEml = useCallback(
+    () => exportEml(checkedEmailIds[0]),
+    [exportEml, checkedEmailIds]
+  );
+  
+  // One .mbox for the whole selection
+  const handleBatchExportMbox = useCallback(
+    () => exportMbox(getEmailIdsFromCheckedThreads(), `${labelName || 'label'} (selection)`),
+    [exportMbox, getEmailIdsFromCheckedThreads, labelName]
+  );
+  
+  // Every thread in the label as one .mbox
+  const handleExportLabel = useCallback(
+    () => exportMbox(currentThreads.flatMap(thread => thread.email_ids || []), labelName || 'label'),
+    [exportMbox, currentThreads, labelName]
+  );
 
   // ==================== SINGLE THREAD ACTIONS ====================
   
   const handleMarkThreadDone = useCallback(async (thread: Thread) => {
     const emailIds = thread.email_ids || [];
     
-    setLocalDoneThreads(prev => new Set(prev).add(thread.thread_id));
+    // Hide now, commit after the undo window
+    updateThreads([thread.thread_id], { is_done: true });
     
     if (selectedThread?.thread_id === thread.thread_id) {
       setSelectedThread(null);
@@ -457,22 +487,28 @@ const LabelPage = () => {
     
     setToast({
       show: true,
-      message: 'Thread moved to Done',
+      message: t('toast.threadsDone', { count: 1 }),
       threadIds: [thread.thread_id],
       emailIds,
       timeoutId: setTimeout(() => {
         if (emailIds.length > 0) {
-          batchMarkAsDone(emailIds).catch(console.error);
+          commit({
+            entity: 'threads',
+            ids: [thread.thread_id],
+            rollback: { is_done: undefined },
+            request: () => runMutation({ type: 'done', emailIds })
+          }).catch(console.error);
         }
         setToast(prev => ({ ...prev, show: false }));
       }, 5000)
     });
-  }, [selectedThread]);
+  }, [selectedThread, commit, updateThreads]);
   
   const handleDeleteThread = useCallback(async (thread: Thread) => {
     const emailIds = thread.email_ids || [];
     
-    setLocalDeletedThreads(prev => new Set(prev).add(thread.thread_id));
+    // Hide now, commit after the undo window
+    updateThreads([thread.thread_id], { is_deleted: true });
     
     if (selectedThread?.thread_id === thread.thread_id) {
       setSelectedThread(null);
@@ -480,17 +516,69 @@ const LabelPage = () => {
     
     setToast({
       show: true,
-      message: 'Thread deleted',
+      message: t('toast.threadsDeleted', { count: 1 }),
       threadIds: [thread.thread_id],
       emailIds,
       timeoutId: setTimeout(() => {
         if (emailIds.length > 0) {
-          batchDelete(emailIds).catch(console.error);
+          commit({
+            entity: 'threads',
+            ids: [thread.thread_id],
+            rollback: { is_deleted: undefined },
+            request: () => runMutation({ type: 'delete', emailIds })
+          }).catch(console.error);
         }
         setToast(prev => ({ ...prev, show: false }));
       }, 5000)
     });
-  }, [selectedThread]);
+  }, [selectedThread, commit, updateThreads]);
+
+  // ==================== REPORT PHISHING ====================
+  // From the warning banner in ThreadDetail - the thread moves to Spam
+  
+  const handleReportPhishing = useCallback((thread: Thread) => {
+    console.log('🎣 Reporting thread as phishing:', thread.thread_id);
+    
+    if (selectedThread?.thread_id === thread.thread_id) {
+      setSelectedThread(null);
+      setIsExpanded(false);
+    }
+    
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { is_spam: true },
+      request: () => runMutation({ type: 'spam', emailIds: thread.email_ids || [] })
+    })
+      .then(() => console.log('✅ Thread moved to Spam:', thread.thread_id))
+      .catch(error => console.error('❌ Failed to report phishing:', error));
+  }, [selectedThread, commit]);
+
+  // ==================== SNOOZE ====================
+  
+  const handleSnoozeThread = useCallback((thread: Thread) => {
+    setSnoozeTargets([thread]);
+  }, []);
+  
+  const handleBatchSnooze = useCallback(() => {
+    if (checkedThreads.size === 0) return;
+    setSnoozeTargets(currentThreads.filter(thread => checkedThreads.has(thread.thread_id)));
+  }, [checkedThreads, currentThreads]);
+  
+  const handleThreadsSnoozed = useCallback((threads: Thread[]) => {
+    const snoozedIds = new Set(threads.map(thread => thread.thread_id));
+    
+    if (selectedThread && snoozedIds.has(selectedThread.thread_id)) {
+      setSelectedThread(null);
+      setIsExpanded(false);
+    }
+    
+    const remaining = new Set(Array.from(checkedThreads).filter(id => !snoozedIds.has(id)));
+    setCheckedThreads(remaining);
+    if (remaining.size === 0) {
+      setIsSelectionMode(false);
+    }
+  }, [selectedThread, checkedThreads]);
 
   // ==================== TOAST HANDLERS ====================
   
@@ -499,20 +587,10 @@ const LabelPage = () => {
       clearTimeout(toast.timeoutId);
     }
     
-    setLocalDoneThreads(prev => {
-      const newSet = new Set(prev);
-      toast.threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
-    
-    setLocalDeletedThreads(prev => {
-      const newSet = new Set(prev);
-      toast.threadIds.forEach(id => newSet.delete(id));
-      return newSet;
-    });
+    updateThreads(toast.threadIds, { is_done: undefined, is_deleted: undefined });
     
     setToast({ show: false, message: '', threadIds: [], emailIds: [], timeoutId: null });
-  }, [toast]);
+  }, [toast, updateThreads]);
   
   const handleCloseToast = useCallback(() => {
     setToast(prev => ({ ...prev, show: false }));
@@ -526,6 +604,10 @@ const LabelPage = () => {
     setIsReplyOpen(true);
   }, []);
   
+  const handleReplyAllEmail = useCallback((email: Email) => {
+    handleReply(email, 'replyAll');
+  }, [handleReply]);
+  
   const handleForward = useCallback((email: Email) => {
     setForwardEmail(email);
     setIsForwardOpen(true);
@@ -588,92 +670,151 @@ const LabelPage = () => {
     setEmailUndoToast(null);
   }, []);
 
-  // ==================== KEYBOARD SHORTCUTS ====================
+  // ==================== COMMAND PALETTE ====================
+  // Same Cmd+K thread commands as Inbox.tsx, for the open thread (or the checked threads).
+  // Reply/forward use the open thread's latest email, like ThreadDetail's r/a/f keys.
   
-  useEffect(() => {
-    if (isComposeOpen || isReplyOpen || isForwardOpen) return;
+  const { labels: allLabels } = useLabels();
+  
+  const handleMarkThreadRead = useCallback((thread: Thread, isRead: boolean) => {
+    const emailIds = thread.email_ids || [];
+    if (emailIds.length === 0) {
+      updateThreads([thread.thread_id], { is_read: isRead });
+      return;
+    }
     
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
-        return;
-      }
-      
-      // Checkbox mode shortcuts
-      if (checkedThreads.size > 0) {
-        switch (e.key.toLowerCase()) {
-          case 'r':
-            e.preventDefault();
-            handleBatchMarkAsRead();
-            break;
-          case 'u':
-            e.preventDefault();
-            handleBatchMarkAsUnread();
-            break;
-          case 'd':
-            e.preventDefault();
-            handleBatchMarkAsDone();
-            break;
-          case 'delete':
-          case 'backspace':
-            e.preventDefault();
-            handleBatchDelete();
-            break;
-          case 'escape':
-            e.preventDefault();
-            setCheckedThreads(new Set());
-            break;
-          case 'a':
-            if (e.metaKey || e.ctrlKey) {
-              e.preventDefault();
-              const allIds = new Set(currentThreads.map(t => t.thread_id));
-              setCheckedThreads(allIds);
-            }
-            break;
-        }
-        return;
-      }
-      
-      // Thread view mode shortcuts
-      if (selectedThread && threadEmails.length > 0) {
-        const lastEmail = threadEmails[threadEmails.length - 1];
-        
-        switch (e.key.toLowerCase()) {
-          case 'r':
-            e.preventDefault();
-            if (lastKeyRef.current === 'r') {
-              // R+A = Reply All
-              handleReply(lastEmail, 'replyAll');
-              lastKeyRef.current = null;
-            } else {
-              // Start timer for R+A combo
-              lastKeyRef.current = 'r';
-              setTimeout(() => {
-                if (lastKeyRef.current === 'r') {
-                  handleReply(lastEmail, 'reply');
-                  lastKeyRef.current = null;
-                }
-              }, 300);
-            }
-            break;
-          case 'a':
-            if (lastKeyRef.current === 'r') {
-              e.preventDefault();
-              handleReply(lastEmail, 'replyAll');
-              lastKeyRef.current = null;
-            }
-            break;
-          case 'f':
-            e.preventDefault();
-            handleForward(lastEmail);
-            break;
-        }
-      }
-    };
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { is_read: isRead },
+      request: () => runMutation({ type: isRead ? 'read' : 'unread', emailIds })
+    }).catch(console.error);
+  }, [commit, updateThreads]);
+  
+  const handleToggleLabel = useCallback((thread: Thread, label: { id: string; name: string; color: string }, isApplied: boolean) => {
+    const currentLabels = threadOverrides[thread.thread_id]?.labels || thread.labels || [];
+    const updatedLabels = isApplied
+      ? currentLabels.filter((l) => l.id !== label.id)
+      : [...currentLabels, label];
+    
+    commit({
+      entity: 'threads',
+      ids: [thread.thread_id],
+      patch: { labels: updatedLabels },
+      request: () => runMutation({
+        type: isApplied ? 'removeLabel' : 'applyLabel',
+        threadId: thread.thread_id,
+        labelId: label.id,
+        labelName: label.name
+      })
+    }).catch(error => console.error('❌ Label toggle failed:', error));
+  }, [threadOverrides, commit]);
+  
+  const handleMoveThreadToCategory = useCallback(async (thread: Thread, category: string) => {
+    try {
+      await updateThreadCategory(thread.thread_id, category);
+      console.log(`📁 Category changed: ${thread.thread_id} → ${category}`);
+    } catch (err) {
+      console.error('❌ Failed to move thread:', err);
+    }
+  }, []);
+  
+  const threadCommands: PaletteCommand[] = [];
+  if (checkedThreads.size > 0) {
+    threadCommands.push(
+      { id: 'selection.markRead', group: 'thread', label: t('shortcuts.markRead'), icon: MailOpen, shortcut: 'markRead', perform: () => { handleBatchMarkAsRead(); } },
+      { id: 'selection.markUnread', group: 'thread', label: t('shortcuts.markUnread'), icon: Mail, shortcut: 'markUnread', perform: () => { handleBatchMarkAsUnread(); } },
+      { id: 'selection.markDone', group: 'thread', label: t('commands.markSelectedDone'), icon: Check, shortcut: 'markDone', perform: () => { handleBatchMarkAsDone(); } },
+      { id: 'selection.delete', group: 'thread', label: t('commands.deleteSelected'), keywords: ['trash'], icon: Trash2, shortcut: 'delete', perform: () => { handleBatchDelete(); } },
+      { id: 'selection.snooze', group: 'thread', label: t('commands.snoozeSelected'), keywords: ['later', 'remind'], icon: AlarmClock, shortcut: 'snooze', perform: handleBatchSnooze },
+    );
+  } else if (selectedThread) {
+    const thread = selectedThread;
+    const latestEmail = threadEmails.length > 0 ? threadEmails[threadEmails.length - 1] : null;
+    const appliedLabels = threadOverrides[thread.thread_id]?.labels || thread.labels || [];
+    const currentCategory = (thread.user_category || thread.category || '').toUpperCase();
+    const isRead = threadOverrides[thread.thread_id]?.is_read ?? thread.is_read;
     
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedThread, checkedThreads.size, threadEmails, isComposeOpen, isReplyOpen, isForwardOpen, handleReply, handleForward, handleBatchMarkAsRead, handleBatchMarkAsUnread, handleBatchMarkAsDone, handleBatchDelete, currentThreads]);
+    if (latestEmail) {
+      threadCommands.push(
+        { id: 'thread.reply', group: 'thread', label: t('shortcuts.reply'), icon: Reply, shortcut: 'reply', perform: () => handleReply(latestEmail) },
+        { id: 'thread.replyAll', group: 'thread', label: t('shortcuts.replyAll'), icon: ReplyAll, shortcut: 'replyAll', perform: () => handleReplyAllEmail(latestEmail) },
+        { id: 'thread.forward', group: 'thread', label: t('shortcuts.forward'), icon: Forward, shortcut: 'forward', perform: () => handleForward(latestEmail) },
+      );
+    }
+    threadCommands.push(
+      isRead
+        ? { id: 'thread.markUnread', group: 'thread', label: t('commands.markUnread'), icon: Mail, perform: () => handleMarkThreadRead(thread, false) }
+        : { id: 'thread.markRead', group: 'thread', label: t('commands.markRead'), icon: MailOpen, perform: () => handleMarkThreadRead(thread, true) },
+      { id: 'thread.markDone', group: 'thread', label: t('shortcuts.markDone'), keywords: ['archive'], icon: Check, shortcut: 'markDone', perform: () => { handleMarkThreadDone(thread); } },
+      { id: 'thread.delete', group: 'thread', label: t('shortcuts.delete'), keywords: ['trash'], icon: Trash2, shortcut: 'delete', perform: () => { handleDeleteThread(thread); } },
+      { id: 'thread.snooze', group: 'thread', label: t('commands.snooze'), keywords: ['later', 'remind'], icon: AlarmClock, shortcut: 'snooze', perform: () => handleSnoozeThread(thread) },
+      ...allLabels.map((label): PaletteCommand => {
+        const name = label.display_name || label.name;
+        const isApplied = appliedLabels.some(l => l.id === label.id);
+        return {
+          id: `thread.label.${label.id}`,
+          group: 'labels',
+          label: t(isApplied ? 'commands.removeLabel' : 'commands.applyLabel', { label: name }),
+          icon: Tag,
+          perform: () => handleToggleLabel(thread, { id: label.id, name, color: label.color || '#8FA8A3' }, isApplied),
+        };
+      }),
+      ...['URGENT', 'IMPORTANT', 'OTHERS']
+        .filter(category => category !== currentCategory)
+        .map((category): PaletteCommand => ({
+          id: `thread.moveTo.${category}`,
+          group: 'category',
+          label: t('commands.moveTo', { category: getCategoryLabel(category) }),
+          icon: FolderInput,
+          perform: () => { handleMoveThreadToCategory(thread, category); },
+        })),
+    );
+  }
+  threadCommands.push(
+    { id: 'inbox.search', group: 'actions', label: t('shortcuts.search'), icon: Search, shortcut: 'search', perform: () => setIsSearchOpen(true) },
+  );
+  
+  useCommands(threadCommands);
+
+  // ==================== KEYBOARD SHORTCUTS ====================
+  // Same registrations as Inbox.tsx - ThreadDetail owns the open thread's keys,
+  // the checked-selection handlers take over e / # while threads are checked.
+  
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
+  
+  useShortcuts('list', {
+    nextThread: () => {
+      if (selectedThread) return handleNextThread();
+      if (currentThreads.length === 0) return false;
+      handleThreadClick(currentThreads[0]);
+    },
+    previousThread: () => (selectedThread ? handlePreviousThread() : false),
+    selectAll: () => {
+      setCheckedThreads(new Set(currentThreads.map(t => t.thread_id)));
+    },
+  });
+  
+  useShortcuts('list', {
+    markRead: () => {
+      handleBatchMarkAsRead();
+    },
+    markUnread: () => {
+      handleBatchMarkAsUnread();
+    },
+    markDone: () => {
+      handleBatchMarkAsDone();
+    },
+    delete: () => {
+      handleBatchDelete();
+    },
+    snooze: handleBatchSnooze,
+    clearSelection: () => {
+      setCheckedThreads(new Set());
+    },
+  }, checkedThreads.size > 0);
 
   // ==================== RENDERING ====================
 
@@ -718,7 +859,7 @@ const LabelPage = () => {
         />
 
         {/* ==================== MAIN LAYOUT ==================== */}
-        <div className="h-full flex flex-col lg:ml-16">
+        <div className="h-full flex flex-col lg:ms-16">
           {/* ==================== MOBILE SELECTION BAR ==================== */}
           <MobileSelectionBar
             selectedCount={checkedThreads.size}
@@ -728,7 +869,10 @@ const LabelPage = () => {
             onMarkRead={handleBatchMarkAsRead}
             onMarkUnread={handleBatchMarkAsUnread}
             onMarkDone={handleBatchMarkAsDone}
+            onSnooze={handleBatchSnooze}
             onDelete={handleBatchDelete}
+            onExport={handleBatchExportMbox}
+            exporting={exporting}
           />
           
           {/* ==================== NAVBAR ==================== */}
@@ -828,6 +972,21 @@ const LabelPage = () => {
                     >
                       <Check className="w-5 h-5" />
                     </button>
+                    {/* Snooze */}
+                    <button
+                      onClick={handleBatchSnooze}
+                      className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+                      title="Snooze"
+                    >
+                      <AlarmClock className="w-5 h-5" />
+                    </button>
+                    {/* Export */}
+                    <ExportMenu
+                      onExportEml={checkedEmailIds.length === 1 ? handleBatchExportEml : undefined}
+                      onExportMbox={handleBatchExportMbox}
+                      exporting={exporting}
+                      error={exportError}
+                    />
                     {/* Delete */}
                     <button
                       onClick={handleBatchDelete}
@@ -841,6 +1000,15 @@ const LabelPage = () => {
                   </>
                 )}
                 
+                {/* Export the whole label - only without a selection */}
+                {checkedThreads.size === 0 && currentThreads.length > 0 && (
+                  <ExportMenu
+                    onExportMbox={handleExportLabel}
+                    exporting={exporting}
+                    error={exportError}
+                  />
+                )}
+                
                 <button onClick={() => setIsSearchOpen(true)} className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white" title="Search">
                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
                     <path d="M480 272C480 317.9 465.1 360.3 440 394.7L566.6 521.4C579.1 533.9 579.1 554.2 566.6 566.7C554.1 579.2 533.8 579.2 521.3 566.7L394.7 440C360.3 465.1 317.9 480 272 480C157.1 480 64 386.9 64 272C64 157.1 157.1 64 272 64C386.9 64 480 157.1 480 272zM272 416C351.5 416 416 351.5 416 272C416 192.5 351.5 128 272 128C192.5 128 128 192.5 128 272C128 351.5 192.5 416 272 416z"/>
@@ -882,6 +1050,7 @@ const LabelPage = () => {
                 onLongPress={handleLongPress}
                 onMarkDone={handleMarkThreadDone}
                 onDelete={handleDeleteThread}
+                onSnooze={handleSnoozeThread}
                 emptyMessage={`No emails with label "${displayLabelName}"`}
               />
             </div>
@@ -902,6 +1071,8 @@ const LabelPage = () => {
                   onClose={handleCloseDetail}
                   onMarkDone={() => handleMarkThreadDone(selectedThread)}
                   onDelete={() => handleDeleteThread(selectedThread)}
+                  onSnooze={() => handleSnoozeThread(selectedThread)}
+                  onReportPhishing={() => handleReportPhishing(selectedThread)}
                   onExpand={handleToggleExpand}
                   isExpanded={false}
                   onPrevious={handlePreviousThread}
@@ -910,8 +1081,8 @@ const LabelPage = () => {
                   hasNext={hasNextThread}
                   mode="inbox"
                   onReply={handleReply}
+                  onReplyAll={handleReplyAllEmail}
                   onForward={handleForward}
-                  getAuthToken={getAuthToken}
                 />
               )}
               
@@ -994,6 +1165,8 @@ const LabelPage = () => {
                 onClose={handleCloseDetail}
                 onMarkDone={() => handleMarkThreadDone(selectedThread)}
                 onDelete={() => handleDeleteThread(selectedThread)}
+                onSnooze={() => handleSnoozeThread(selectedThread)}
+                onReportPhishing={() => handleReportPhishing(selectedThread)}
                 mode="inbox"
                 onReply={handleReply}
                 onForward={handleForward}
@@ -1023,10 +1196,7 @@ const LabelPage = () => {
               <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+K</kbd>
               <span className="text-sm text-zinc-400">Link</span>
             </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+Enter</kbd>
-              <span className="text-sm text-zinc-400">Send</span>
-            </div>
+            <ShortcutHints actions={['send']} />
             <div className="flex items-center gap-1.5">
               <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">Esc</kbd>
               <span className="text-sm text-zinc-400">Close</span>
@@ -1036,47 +1206,13 @@ const LabelPage = () => {
         
         {!isComposeOpen && !isReplyOpen && !isForwardOpen && hasCheckedThreads && (
           <div className="hidden lg:flex fixed bottom-0 left-16 right-0 h-12 bg-[#1a1a1a] items-center justify-center gap-8 z-20">
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">R</kbd>
-              <span className="text-sm text-zinc-400">Read</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">U</kbd>
-              <span className="text-sm text-zinc-400">Unread</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">D</kbd>
-              <span className="text-sm text-zinc-400">Done</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">Del</kbd>
-              <span className="text-sm text-zinc-400">Delete</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">{isMac ? '⌘' : 'Ctrl'}+A</kbd>
-              <span className="text-sm text-zinc-400">Select All</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">Esc</kbd>
-              <span className="text-sm text-zinc-400">Deselect</span>
-            </div>
+            <ShortcutHints actions={['markRead', 'markUnread', 'markDone', 'snooze', 'delete', 'selectAll', 'clearSelection']} />
           </div>
         )}
         
         {!isComposeOpen && !isReplyOpen && !isForwardOpen && !hasCheckedThreads && hasThreadSelection && (
           <div className="hidden lg:flex fixed bottom-0 left-16 right-0 h-12 bg-[#1a1a1a] items-center justify-center gap-8 z-20">
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">R</kbd>
-              <span className="text-sm text-zinc-400">Reply</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">R+A</kbd>
-              <span className="text-sm text-zinc-400">Reply All</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <kbd className="px-2 py-1 bg-zinc-800 rounded text-xs text-zinc-400 font-mono">F</kbd>
-              <span className="text-sm text-zinc-400">Forward</span>
-            </div>
+            <ShortcutHints actions={['reply', 'replyAll', 'forward', 'markDone', 'snooze', 'label']} />
           </div>
         )}
         
@@ -1102,6 +1238,8 @@ const LabelPage = () => {
                     onClose={handleCloseExpanded}
                     onMarkDone={() => handleMarkThreadDone(selectedThread)}
                     onDelete={() => handleDeleteThread(selectedThread)}
+                    onSnooze={() => handleSnoozeThread(selectedThread)}
+                    onReportPhishing={() => handleReportPhishing(selectedThread)}
                     onExpand={handleToggleExpand}
                     isExpanded={true}
                     onPrevious={handlePreviousThread}
@@ -1110,8 +1248,8 @@ const LabelPage = () => {
                     hasNext={hasNextThread}
                     mode="inbox"
                     onReply={handleReply}
+                    onReplyAll={handleReplyAllEmail}
                     onForward={handleForward}
-                    getAuthToken={getAuthToken}
                   />
                 </div>
                 
@@ -1228,6 +1366,14 @@ const LabelPage = () => {
           userEmail={currentUser?.email || ''}
         />
         
+        {/* Snooze Picker */}
+        <SnoozeModal
+          isOpen={snoozeTargets.length > 0}
+          onClose={() => setSnoozeTargets([])}
+          threads={snoozeTargets}
+          onSnoozed={handleThreadsSnoozed}
+        />
+        
         {/* Edit Label Modal */}
         {labelDetails && (
           <EditLabelModal
@@ -0,0 +1,327 @@
+// pages/PrintThread.tsx - Print-optimised conversation (/print/thread/:threadId)
+// Rendered without the app shell so the print is light, whatever the app theme
+// ✅ Full headers (From, Reply-To, To, Cc, Bcc, Date, Subject) for every message
+// ✅ Inline (cid:) images resolved to their attachments; remote images only where the reader
+//    showed them (?images=<email id>) or trusts the sender - same rule as SafeEmailFrame
+// ✅ Attachment list; each message starts on a new page
+// ✅ Message HTML in sandboxed, script-less frames (same CSP as SafeEmailFrame)
+// ✅ Print dialog opens once the messages and their images have loaded
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { Loader2, Printer, X, Paperclip } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useThreadEmailsByThreadId } from "@/components/inbox/useThreadEmailsByThreadId";
+import { Email, Attachment } from "@/components/inbox/types";
+import { sanitizeEmailHtml, buildEmailFrameCsp, EMAIL_FRAME_SANDBOX } from "@/utils/htmlSanitizer";
+import { formatDateTime } from "@/utils/dateTime";
+import { formatFileSize } from "@/utils/formatters";
+import { isComposioAttachmentUrl } from "@/utils/attachments";
+import { useTrustedImageSenders } from "@/hooks/useTrustedImageSenders";
+import { useTranslation } from "@/hooks/useTranslation";
+
+// Give up waiting for slow images after this long and print anyway
+const IMAGE_WAIT_MS = 5000;
+
+// ======================================================
+// INLINE IMAGES
+// ======================================================
+
+/**
+ * Point cid: images at their attachment ("cid:image001.png@01DA..." → image001.png)
+ * Runs on sanitized HTML, so these stay even while remote images are blocked.
+ * Returns the attachments that were used inline, so they aren't repeated below the body,
+ * and the origins they load from (allowed by the frame's CSP)
+ */
+function resolveInlineImages(html: string, attachments: Attachment[]): { html: string; inlined: Set<string>; origins: string[] } {
+  const inlined = new Set<string>();
+  const origins = new Set<string>();
+  const resolved = html.replace(/cid:([^"'\s)>]+)/gi, (match, cid: string) => {
+    const name = cid.split('@')[0].toLowerCase();
+    const attachment = attachments.find(a =>
+      a.url && !isComposioAttachmentUrl(a.url) &&
+      (a.id === cid || a.filename.toLowerCase() === name)
+    );
+    if (!attachment) return match;
+    inlined.add(attachment.id);
+    origins.add(new URL(attachment.url!, window.location.href).origin);
+    return attachment.url!;
+  });
+  return { html: resolved, inlined, origins: [...origins] };
+}
+
+function isHtmlBody(email: Email): boolean {
+  return /<[a-z][\s\S]*>/i.test(email.body);
+}
+
+// Resolves once every image in `root` has loaded or failed (or after IMAGE_WAIT_MS)
+function waitForImages(root: ParentNode): Promise<void> {
+  const pending = Array.from(root.querySelectorAll('img')).filter(img => !img.complete);
+  if (pending.length === 0) return Promise.resolve();
+
+  const loaded = Promise.all(pending.map(img => new Promise<void>(resolve => {
+    img.addEventListener('load', () => resolve(), { once: true });
+    img.addEventListener('error', () => resolve(), { once: true });
+  })));
+  return Promise.race([loaded.then(() => undefined), new Promise<void>(resolve => setTimeout(resolve, IMAGE_WAIT_MS))]);
+}
+
+// ======================================================
+// MESSAGE
+// ======================================================
+
+/**
+ * Email HTML in a sandboxed frame (no scripts, same CSP as SafeEmailFrame) sized to its content.
+ * The frame's load event fires once its own images are in.
+ */
+interface PrintFrameProps {
+  html: string;
+  allowRemoteImages: boolean;
+  imageOrigins: string[];
+  onLoad: () => void;
+}
+
+function PrintFrame({ html, allowRemoteImages, imageOrigins, onLoad }: PrintFrameProps) {
+  const [height, setHeight] = useState(0);
+
+  const srcDoc = useMemo(() => `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta http-equiv="Content-Security-Policy" content="${buildEmailFrameCsp(allowRemoteImages, imageOrigins)}">
+        <meta name="referrer" content="no-referrer">
+        <base target="_blank">
+        <style>
+          html, body { margin: 0; padding: 0; background: #fff; }
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;
+            font-size: 14px;
+            line-height: 1.6;
+            color: #111827;
+            overflow-wrap: break-word;
+          }
+          img { max-width: 100%; height: auto; }
+          table { max-width: 100%; }
+          pre { white-space: pre-wrap; }
+        </style>
+      </head>
+      <body>${html}</body>
+    </html>
+  `, [html, allowRemoteImages, imageOrigins]);
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLIFrameElement>) => {
+    try {
+      const body = e.currentTarget.contentDocument?.body;
+      if (body) setHeight(body.scrollHeight + 10);
+    } catch {
+      // Not accessible - keep the default height
+    }
+    onLoad();
+  };
+
+  return (
+    <iframe
+      srcDoc={srcDoc}
+      sandbox={EMAIL_FRAME_SANDBOX}
+      referrerPolicy="no-referrer"
+      onLoad={handleLoad}
+      className="w-full border-0 block"
+      style={height ? { height: `${height}px` } : undefined}
+      title="Email content"
+    />
+  );
+}
+
+interface PrintedMessageProps {
+  email: Email;
+  allowRemoteImages: boolean;
+  onFrameLoad: (emailId: string) => void;
+}
+
+function PrintedMessage({ email, allowRemoteImages, onFrameLoad }: PrintedMessageProps) {
+  const { t } = useTranslation();
+  const attachments = email.attachments || [];
+  const isHtml = isHtmlBody(email);
+
+  const { html, inlined, origins } = useMemo(() => {
+    if (!isHtml) return { html: '', inlined: new Set<string>(), origins: [] };
+    const safeHtml = sanitizeEmailHtml(email.body, { allowRemoteImages }).html;
+    return resolveInlineImages(safeHtml, email.attachments || []);
+  }, [email.body, email.attachments, isHtml, allowRemoteImages]);
+
+  const imageAttachments = attachments.filter(a =>
+    a.content_type?.startsWith('image/') && a.url && !isComposioAttachmentUrl(a.url) && !inlined.has(a.id)
+  );
+
+  const headers: [string, string | undefined][] = [
+    [t('original.from'), email.sender && email.sender !== email.senderEmail ? `${email.sender} <${email.senderEmail}>` : email.senderEmail],
+    [t('original.replyTo'), email.reply_to || undefined],
+    [t('original.to'), email.to?.join(', ')],
+    [t('original.cc'), email.cc?.join(', ')],
+    [t('original.bcc'), email.bcc?.join(', ')],
+    [t('export.date'), formatDateTime(email.timestamp ?? email.date, { weekday: true })],
+    [t('export.subject'), email.subject],
+  ];
+
+  return (
+    <article className="pt-6 first:pt-0 [&:not(:first-child)]:break-before-page">
+      <table className="mb-4 text-sm border-collapse">
+        <tbody>
+          {headers.filter(([, value]) => value).map(([label, value]) => (
+            <tr key={label}>
+              <th className="pe-4 py-0.5 text-start align-top font-normal text-gray-500 whitespace-nowrap">{label}</th>
+              <td className="py-0.5 text-gray-900 break-all">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="border-t border-gray-200 pt-4">
+        {isHtml ? (
+          <PrintFrame html={html} allowRemoteImages={allowRemoteImages} imageOrigins={origins} onLoad={() => onFrameLoad(email.id)} />
+        ) : (
+          <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">{email.body}</div>
+        )}
+      </div>
+
+      {imageAttachments.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {imageAttachments.map(attachment => (
+            <img
+              key={attachment.id}
+              src={attachment.url}
+              alt={attachment.filename}
+              className="max-w-full max-h-[60vh] break-inside-avoid"
+            />
+          ))}
+        </div>
+      )}
+
+      {attachments.length > 0 && (
+        <div className="mt-4 px-4 py-3 rounded-md bg-gray-100 text-sm break-inside-avoid">
+          <p className="font-medium text-gray-900 mb-1">{t('export.attachments', { count: attachments.length })}</p>
+          <ul className="space-y-0.5">
+            {attachments.map(attachment => (
+              <li key={attachment.id} className="flex items-center gap-1.5 text-gray-700">
+                <Paperclip className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                {attachment.filename} ({formatFileSize(attachment.size)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </article>
+  );
+}
+
+// ======================================================
+// PAGE
+// ======================================================
+
+export default function PrintThread() {
+  const { t } = useTranslation();
+  const { threadId } = useParams<{ threadId: string }>();
+  const { currentUser } = useAuth();
+  const { emails, loading, error } = useThreadEmailsByThreadId(currentUser?.uid, threadId);
+  const [searchParams] = useSearchParams();
+  const trustedSenders = useTrustedImageSenders();
+
+  // Same rule as SafeEmailFrame: images the reader showed for this message, or a trusted sender
+  const imagesShownFor = useMemo(() => new Set(searchParams.getAll('images')), [searchParams]);
+  const allowsRemoteImages = (email: Email) =>
+    imagesShownFor.has(email.id) || (!!email.senderEmail && trustedSenders.has(email.senderEmail.toLowerCase()));
+
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [printed, setPrinted] = useState(false);
+  const [loadedFrames, setLoadedFrames] = useState<Set<string>>(() => new Set());
+  const [framesTimedOut, setFramesTimedOut] = useState(false);
+
+  const subject = emails[0]?.subject || '';
+  const frameCount = emails.filter(isHtmlBody).length;
+  const framesReady = loadedFrames.size >= frameCount || framesTimedOut;
+
+  const handleFrameLoad = useCallback((emailId: string) => {
+    setLoadedFrames(prev => (prev.has(emailId) ? prev : new Set(prev).add(emailId)));
+  }, []);
+
+  useEffect(() => {
+    document.title = subject || t('print.title');
+  }, [subject, t]);
+
+  // Don't wait forever on a frame with a slow image
+  useEffect(() => {
+    if (loading || emails.length === 0) return;
+    const timer = setTimeout(() => setFramesTimedOut(true), IMAGE_WAIT_MS);
+    return () => clearTimeout(timer);
+  }, [loading, emails.length]);
+
+  // Print once, after the message frames and the attachment images are in
+  useEffect(() => {
+    if (loading || printed || emails.length === 0 || !framesReady || !contentRef.current) return;
+
+    let cancelled = false;
+    waitForImages(contentRef.current).then(() => {
+      if (cancelled) return;
+      setPrinted(true);
+      console.log('🖨️ Printing thread:', threadId);
+      window.print();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, printed, emails.length, framesReady, threadId]);
+
+  return (
+    <div className="min-h-full bg-white text-gray-900 print:bg-white">
+      {/* Toolbar - not printed */}
+      <div className="print:hidden sticky top-0 flex items-center justify-end gap-2 px-6 py-3 bg-white/95 border-b border-gray-200">
+        <button
+          onClick={() => window.print()}
+          disabled={loading || emails.length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-gray-900 hover:bg-gray-700 text-white text-sm transition-colors disabled:opacity-50"
+        >
+          <Printer className="w-4 h-4" />
+          {t('print.print')}
+        </button>
+        <button
+          onClick={() => window.close()}
+          className="p-1.5 rounded-md hover:bg-gray-100 text-gray-500 hover:text-black transition-colors"
+          title={t('print.close')}
+          aria-label={t('print.close')}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <main ref={contentRef} className="max-w-3xl mx-auto px-6 py-8 print:p-0 print:max-w-none">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-24 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {t('print.loading')}
+          </div>
+        ) : error || emails.length === 0 ? (
+          <p className="py-24 text-center text-sm text-gray-500">{t('print.notFound')}</p>
+        ) : (
+          <>
+            <header className="mb-6">
+              <h1 className="text-xl font-semibold">{subject}</h1>
+              <p className="text-sm text-gray-500">{t('export.messageCount', { count: emails.length })}</p>
+            </header>
+            <div>
+              {emails.map(email => (
+                <PrintedMessage
+                  key={email.id}
+                  email={email}
+                  allowRemoteImages={allowsRemoteImages(email)}
+                  onFrameLoad={handleFrameLoad}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
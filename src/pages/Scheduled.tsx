@@ -14,6 +14,8 @@ import { useScheduledEmails, formatScheduledTime, getTimeUntilSend, ScheduledEma
 import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { useCompose } from "@/context/ComposeContext";
+import { cancelScheduledEmail, rescheduleEmail } from "@/services/scheduledApi";
+import { useShortcuts } from "@/context/ShortcutsContext";
 
 const ScheduledPage = () => {
   const { currentUser, userProfile, loading: authLoading, backendUserData } = useAuth();
@@ -56,12 +58,6 @@ const ScheduledPage = () => {
   // Derive selectedEmail from emails array (always fresh)
   const selectedEmail = selectedEmailId ? emails.find(e => e.id === selectedEmailId) || null : null;
 
-  // Get ID token helper
-  const getIdToken = useCallback(async () => {
-    if (!currentUser) throw new Error("Not authenticated");
-    return currentUser.getIdToken();
-  }, [currentUser]);
-
   // Auth redirect
   useEffect(() => {
     if (!authLoading && !currentUser) {
@@ -69,23 +65,10 @@ const ScheduledPage = () => {
     }
   }, [currentUser, authLoading, navigate]);
 
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.closest('[data-modal]')) return;
-      if (isComposeOpen || isRescheduleOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isComposeOpen, isRescheduleOpen, isSearchOpen]);
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen && !isRescheduleOpen);
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -106,28 +89,7 @@ const ScheduledPage = () => {
     setOpenMenuId(null);
 
     try {
-      const token = await getIdToken();
-      const response = await fetch(`/api/scheduled/${email.id}/cancel`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        const text = await response.text();
-        let errorMessage = `Failed to cancel email (${response.status})`;
-        if (text) {
-          try {
-            const data = JSON.parse(text);
-            errorMessage = data.detail || errorMessage;
-          } catch {
-            errorMessage = text || errorMessage;
-          }
-        }
-        throw new Error(errorMessage);
-      }
+      await cancelScheduledEmail(email.id);
 
       console.log('✅ Email cancelled:', email.id);
       if (selectedEmailId === email.id) {
@@ -187,31 +149,7 @@ const ScheduledPage = () => {
     setReschedulingId(reschedulingEmail.id);
 
     try {
-      const token = await getIdToken();
-      const response = await fetch(`/api/scheduled/${reschedulingEmail.id}/reschedule`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          scheduled_at: newDate.toISOString()
-        })
-      });
-
-      if (!response.ok) {
-        const text = await response.text();
-        let errorMessage = `Failed to reschedule email (${response.status})`;
-        if (text) {
-          try {
-            const data = JSON.parse(text);
-            errorMessage = data.detail || errorMessage;
-          } catch {
-            errorMessage = text || errorMessage;
-          }
-        }
-        throw new Error(errorMessage);
-      }
+      await rescheduleEmail(reschedulingEmail.id, newDate);
 
       console.log('✅ Email rescheduled:', reschedulingEmail.id);
       setIsRescheduleOpen(false);
@@ -376,7 +314,7 @@ const ScheduledPage = () => {
         />
 
         {/* Main Content Area */}
-        <div className="lg:ml-16 h-full flex flex-col pb-12">
+        <div className="lg:ms-16 h-full flex flex-col pb-12">
           
           {/* Header */}
           <nav className="flex-shrink-0">
@@ -2,6 +2,7 @@
 // Shows sent emails with open tracking statistics
 // v2.0: Added ComposeModal support
 // v3.0: Added Reply/Forward modal support
+// v3.1: Profile panel is TrackingPanel - open status, plus the rollup for mail merges
 
 import { useEffect, useState, useCallback } from "react";
 import { useAuth } from "@/context/AuthContext";
@@ -18,6 +19,7 @@ import {
 import { SearchModal } from "@/components/search";
 import { useThreadEmailsByThreadId } from "@/components/inbox/useThreadEmailsByThreadId";
 import { SentThreadDetail } from "@/components/inbox/SentThreadDetail";
+import { TrackingPanel } from "@/components/inbox/TrackingPanel";
 import { MobileSentThreadDetail } from "@/components/inbox/MobileSentThreadDetail";
 import { Sidebar } from "@/components/layout";
 import { MobileSidebar } from "@/components/layout/MobileSidebar";
@@ -25,6 +27,8 @@ import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { batchDelete } from "@/services/emailApi";
 import { useCompose } from "@/context/ComposeContext";
+import { useShortcuts } from "@/context/ShortcutsContext";
+import { useMailMerges } from "@/hooks/useMailMerges";
 
 const SentPage = () => {
   const { currentUser, userProfile, loading: authLoading, backendUserData } = useAuth();
@@ -65,7 +69,14 @@ const SentPage = () => {
   const [isSelectionMode, setIsSelectionMode] = useState(false);
 
   // Fetch sent emails from Firestore
-  const { emails, loading: emailsLoading, error: emailsError } = useSentEmails(currentUser?.uid);
+  const {
+    emails,
+    loading: emailsLoading,
+    error: emailsError,
+    hasMore,
+    loadingMore,
+    loadMore,
+  } = useSentEmails(currentUser?.uid);
 
   // Fetch thread emails when an email is selected
   const { emails: threadEmails, loading: threadEmailsLoading } = useThreadEmailsByThreadId(
@@ -73,29 +84,22 @@ const SentPage = () => {
     selectedEmail?.thread_id
   );
 
+  // Sent as part of a mail merge? TrackingPanel then adds up all its recipients
+  const mailMerges = useMailMerges();
+  const selectedMailMerge = selectedEmail
+    ? mailMerges.find((merge) => merge.recipients.some((recipient) => recipient.email_id === selectedEmail.id)) ?? null
+    : null;
+
   useEffect(() => {
     if (!authLoading && !currentUser) {
       navigate("/");
     }
   }, [currentUser, authLoading, navigate]);
 
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.closest('[data-modal]')) return;
-      if (isComposeOpen || isReplyOpen || isForwardOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isComposeOpen, isReplyOpen, isForwardOpen, isSearchOpen]);
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
 
   // Handle email click
   const handleEmailClick = (email: Email) => {
@@ -274,7 +278,7 @@ const SentPage = () => {
         />
 
         {/* ==================== MAIN CONTAINER ==================== */}
-        <div className={`fixed inset-0 lg:top-0 lg:right-0 lg:left-16 bg-[#2d2d2d] lg:rounded-bl-2xl flex flex-col ${isComposeOpen || isReplyOpen || isForwardOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
+        <div className={`fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col ${isComposeOpen || isReplyOpen || isForwardOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
           
           {/* ==================== MOBILE SELECTION BAR ==================== */}
           <MobileSelectionBar
@@ -395,6 +399,9 @@ const SentPage = () => {
                 isSelectionMode={isSelectionMode}
                 onCheckChange={handleCheckChange}
                 onLongPress={handleLongPress}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={loadMore}
               />
             </div>
 
@@ -428,24 +435,13 @@ const SentPage = () => {
               `}
             >
               {selectedEmail && (
-                <div className="p-6 pt-8">
-                  {/* Outpost Recipient Photo - v2.6 */}
-                  {threadEmails.length > 0 && threadEmails[0].outpost_recipient_photo && (
-                    <div className="flex justify-center mb-6">
-                      <img
-                        src={threadEmails[0].outpost_recipient_photo}
-                        alt="Recipient"
-                        className="w-16 h-16 rounded-full object-cover"
-                      />
-                    </div>
-                  )}
-                  <p className="text-zinc-500 text-xs uppercase tracking-wider mb-2">Thread</p>
-                  <p className="text-zinc-300 text-sm">{threadEmails.length} emails</p>
-                  <p className="text-zinc-500 text-xs mt-4 uppercase tracking-wider mb-2">To</p>
-                  <p className="text-zinc-400 text-xs truncate">
-                    {selectedEmail.to?.[0] || selectedEmail.senderEmail}
-                  </p>
-                </div>
+                <TrackingPanel
+                  gmailMessageId={selectedEmail.message_id}
+                  threadEmailCount={threadEmails.length}
+                  recipient={selectedEmail.to?.[0] || selectedEmail.senderEmail}
+                  recipientPhoto={threadEmails[0]?.outpost_recipient_photo}
+                  mailMerge={selectedMailMerge}
+                />
               )}
             </div>
 
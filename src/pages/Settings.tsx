@@ -3,11 +3,17 @@ import { useAuth } from "@/context/AuthContext";
 import { useNavigate } from "react-router-dom";
 import { Loader2, ArrowLeft, LogOut, Trash2, ChevronDown, X, AlertTriangle } from "lucide-react";
 import { logOut } from "@/services/auth.service";
+import { deleteAccountOnBackend } from "@/services/backend.service";
 import { doc, updateDoc } from "firebase/firestore";
 import { db } from "../firebase.config";
-
-// API URL from environment
-const API_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:8000";
+import { setDateTimePreferences, getBrowserTimeZone } from "@/utils/dateTime";
+import { LANGUAGES, LanguageCode, getLanguageInfo } from "@/i18n";
+import { useTranslation } from "@/hooks/useTranslation";
+import { ShortcutSettings } from "@/components/shortcuts/ShortcutSettings";
+import { TrustedImageSenders } from "@/components/inbox/TrustedImageSenders";
+import { SignatureSettings } from "@/components/signatures/SignatureSettings";
+import { TemplateSettings } from "@/components/templates/TemplateSettings";
+import { SendCheckSettings } from "@/components/sendChecks/SendCheckSettings";
 
 // List of all timezones
 const TIMEZONES = [
@@ -98,10 +104,12 @@ const TIMEZONES = [
 const Settings = () => {
   const { currentUser, userProfile, loading: authLoading, refreshUserProfile } = useAuth();
   const navigate = useNavigate();
+  const { t, language, setLanguage } = useTranslation();
   
   const [selectedTimezone, setSelectedTimezone] = useState<string>("");
   const [isTimezoneDropdownOpen, setIsTimezoneDropdownOpen] = useState(false);
   const [isSavingTimezone, setIsSavingTimezone] = useState(false);
+  const [isLanguageDropdownOpen, setIsLanguageDropdownOpen] = useState(false);
 
   // Delete account state
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -114,7 +122,7 @@ const Settings = () => {
     if (userProfile?.timezone) {
       setSelectedTimezone(userProfile.timezone);
     } else {
-      setSelectedTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+      setSelectedTimezone(getBrowserTimeZone());
     }
   }, [userProfile]);
 
@@ -141,6 +149,8 @@ const Settings = () => {
         lastActivity: new Date().toISOString()
       });
       console.log('✅ Timezone updated to:', timezone);
+      // Apply right away - the profile refresh below confirms it
+      setDateTimePreferences({ timeZone: timezone });
       // Refresh user profile to get updated data
       if (refreshUserProfile) {
         await refreshUserProfile();
@@ -152,6 +162,28 @@ const Settings = () => {
     }
   };
 
+  // Language applies instantly on this device; saved to the profile for other devices
+  const handleLanguageChange = async (code: LanguageCode) => {
+    setIsLanguageDropdownOpen(false);
+    setLanguage(code);
+    
+    if (!currentUser) return;
+    
+    try {
+      const userDocRef = doc(db, 'users', currentUser.uid);
+      await updateDoc(userDocRef, {
+        language: code,
+        lastActivity: new Date().toISOString()
+      });
+      console.log('✅ Language updated to:', code);
+      if (refreshUserProfile) {
+        await refreshUserProfile();
+      }
+    } catch (error) {
+      console.error('❌ Error updating language:', error);
+    }
+  };
+
   // Delete account handler
   const handleDeleteAccount = async () => {
     if (!currentUser) return;
@@ -168,21 +200,10 @@ const Settings = () => {
     setDeleteError(null);
 
     try {
-      // Get Firebase ID token
-      const token = await currentUser.getIdToken();
-
       // Call delete account API
-      const response = await fetch(`${API_URL}/api/account/delete`, {
-        method: "DELETE",
-        headers: {
-          "Authorization": `Bearer ${token}`,
-          "Content-Type": "application/json"
-        }
-      });
-
-      const data = await response.json();
+      const data = await deleteAccountOnBackend();
 
-      if (response.ok && (data.status === "success" || data.status === "partial")) {
+      if (data.status === "success" || data.status === "partial") {
         console.log("✅ Account deleted successfully:", data);
         
         // Sign out and redirect to home
@@ -228,7 +249,7 @@ const Settings = () => {
           <button
             onClick={() => navigate("/inbox")}
             className="w-8 h-8 flex items-center justify-center rounded-lg text-zinc-400 hover:bg-zinc-800/50 hover:text-white transition-colors"
-            title="Back to Inbox"
+            title={t('settings.backToInbox')}
           >
             <ArrowLeft className="w-5 h-5" />
           </button>
@@ -257,7 +278,7 @@ const Settings = () => {
               >
                 <ArrowLeft className="w-5 h-5" />
               </button>
-              <h1 className="text-xl font-semibold">General</h1>
+              <h1 className="text-xl font-semibold">{t('settings.title')}</h1>
             </div>
           </div>
 
@@ -266,11 +287,11 @@ const Settings = () => {
             <div className="max-w-2xl mx-auto space-y-6">
               {/* Account Section */}
               <div className="bg-zinc-800/50 rounded-lg p-6">
-                <h2 className="text-lg font-semibold mb-4">Account</h2>
+                <h2 className="text-lg font-semibold mb-4">{t('settings.account')}</h2>
                 <div className="space-y-4">
                   <div className="flex items-center justify-between py-2">
                     <div>
-                      <p className="font-medium">Name</p>
+                      <p className="font-medium">{t('settings.name')}</p>
                       <p className="text-sm text-zinc-400">
                         {userProfile?.firstName} {userProfile?.lastName}
                       </p>
@@ -278,7 +299,7 @@ const Settings = () => {
                   </div>
                   <div className="flex items-center justify-between py-2 border-t border-zinc-700">
                     <div>
-                      <p className="font-medium">Email</p>
+                      <p className="font-medium">{t('settings.email')}</p>
                       <p className="text-sm text-zinc-400">
                         {userEmail}
                       </p>
@@ -289,10 +310,10 @@ const Settings = () => {
 
               {/* Preferences Section */}
               <div className="bg-zinc-800/50 rounded-lg p-6">
-                <h2 className="text-lg font-semibold mb-4">Preferences</h2>
+                <h2 className="text-lg font-semibold mb-4">{t('settings.preferences')}</h2>
                 <div className="space-y-4">
                   <div className="py-2">
-                    <p className="font-medium mb-2">Timezone</p>
+                    <p className="font-medium mb-2">{t('settings.timezone')}</p>
                     <div className="relative">
                       <button
                         onClick={() => setIsTimezoneDropdownOpen(!isTimezoneDropdownOpen)}
@@ -300,7 +321,7 @@ const Settings = () => {
                         disabled={isSavingTimezone}
                       >
                         <span className="text-sm text-zinc-300">
-                          {isSavingTimezone ? "Saving..." : selectedTimezone}
+                          {isSavingTimezone ? t('settings.saving') : selectedTimezone}
                         </span>
                         <ChevronDown className={`w-4 h-4 text-zinc-400 transition-transform ${isTimezoneDropdownOpen ? 'rotate-180' : ''}`} />
                       </button>
@@ -323,36 +344,100 @@ const Settings = () => {
                       )}
                     </div>
                   </div>
+
+                  <div className="py-2 border-t border-zinc-700">
+                    <p className="font-medium mb-2">{t('settings.language')}</p>
+                    <div className="relative">
+                      <button
+                        onClick={() => setIsLanguageDropdownOpen(!isLanguageDropdownOpen)}
+                        className="w-full flex items-center justify-between bg-[#2e2d2d] border border-zinc-600 rounded-lg px-4 py-3 text-start hover:border-zinc-500 transition-colors"
+                      >
+                        <span className="text-sm text-zinc-300">
+                          {getLanguageInfo(language).name}
+                        </span>
+                        <ChevronDown className={`w-4 h-4 text-zinc-400 transition-transform ${isLanguageDropdownOpen ? 'rotate-180' : ''}`} />
+                      </button>
+                      
+                      {/* Language Dropdown */}
+                      {isLanguageDropdownOpen && (
+                        <div className="absolute top-full start-0 end-0 mt-1 bg-[#2e2d2d] border border-zinc-600 rounded-lg shadow-xl z-50 max-h-60 overflow-y-auto">
+                          {LANGUAGES.map((option) => (
+                            <button
+                              key={option.code}
+                              onClick={() => handleLanguageChange(option.code)}
+                              lang={option.code}
+                              dir={option.dir}
+                              className={`w-full text-start px-4 py-2 text-sm hover:bg-zinc-700/50 transition-colors ${
+                                language === option.code ? 'bg-zinc-700 text-[#8FA8A3]' : 'text-zinc-300'
+                              }`}
+                            >
+                              {option.name}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
                 </div>
               </div>
 
+              {/* Signatures Section */}
+              <div className="bg-zinc-800/50 rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-4">{t('signatures.title')}</h2>
+                <SignatureSettings />
+              </div>
+
+              {/* Templates Section */}
+              <div className="bg-zinc-800/50 rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-4">{t('templates.title')}</h2>
+                <TemplateSettings />
+              </div>
+
+              {/* Send Checks Section */}
+              <div className="bg-zinc-800/50 rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-4">{t('sendChecks.title')}</h2>
+                <SendCheckSettings />
+              </div>
+
+              {/* Images Section */}
+              <div className="bg-zinc-800/50 rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-4">{t('images.title')}</h2>
+                <TrustedImageSenders />
+              </div>
+
+              {/* Keyboard Shortcuts Section */}
+              <div className="bg-zinc-800/50 rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-4">{t('shortcuts.title')}</h2>
+                <ShortcutSettings />
+              </div>
+
               {/* Sign Out Section */}
               <div className="bg-zinc-800/50 rounded-lg p-6">
-                <h2 className="text-lg font-semibold mb-4">Session</h2>
+                <h2 className="text-lg font-semibold mb-4">{t('settings.session')}</h2>
                 <div className="space-y-4">
                   <button
                     onClick={handleSignOut}
                     className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-white rounded-lg transition-colors flex items-center gap-2"
                   >
                     <LogOut className="w-4 h-4" />
-                    Sign out
+                    {t('settings.signOut')}
                   </button>
                 </div>
               </div>
 
               {/* Danger Zone */}
               <div className="bg-zinc-800/50 rounded-lg p-6 border border-red-900/50">
-                <h2 className="text-lg font-semibold mb-4 text-red-400">Danger Zone</h2>
+                <h2 className="text-lg font-semibold mb-4 text-red-400">{t('settings.dangerZone')}</h2>
                 <div className="space-y-4">
                   <p className="text-sm text-zinc-400 mb-3">
-                    Once you delete your account, there is no going back. Please be certain.
+                    {t('settings.deleteWarning')}
                   </p>
                   <button
                     onClick={() => setIsDeleteModalOpen(true)}
                     className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors flex items-center gap-2"
                   >
                     <Trash2 className="w-4 h-4" />
-                    Delete Account
+                    {t('settings.deleteAccount')}
                   </button>
                 </div>
               </div>
@@ -360,10 +445,13 @@ const Settings = () => {
           </div>
         </div>
 
-        {/* Click outside to close timezone dropdown */}
-        {isTimezoneDropdownOpen && (
+        {/* Click outside to close timezone/language dropdowns */}
+        {(isTimezoneDropdownOpen || isLanguageDropdownOpen) && (
           <div
-            onClick={() => setIsTimezoneDropdownOpen(false)}
+            onClick={() => {
+              setIsTimezoneDropdownOpen(false);
+              setIsLanguageDropdownOpen(false);
+            }}
             className="fixed inset-0 z-40"
           />
         )}
@@ -0,0 +1,422 @@
+// pages/Snoozed.tsx - Snoozed Threads Page
+// Threads hidden from the inbox until a time or a reply (context/SnoozeContext)
+// Layout matches Done.tsx with list + detail + sidebar
+
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Menu, AlarmClock, AlarmClockOff } from "lucide-react";
+import { SearchModal } from "@/components/search";
+import { useThreadEmailsByThreadId } from "@/components/inbox/useThreadEmailsByThreadId";
+import { SentThreadDetail } from "@/components/inbox/SentThreadDetail";
+import { MobileSentThreadDetail } from "@/components/inbox/MobileSentThreadDetail";
+import { SnoozeModal } from "@/components/snooze/SnoozeModal";
+import { Sidebar } from "@/components/layout";
+import { MobileSidebar } from "@/components/layout/MobileSidebar";
+import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
+import { UndoEmailData } from "@/components/inbox/ComposeModal";
+import { useCompose } from "@/context/ComposeContext";
+import { useShortcuts } from "@/context/ShortcutsContext";
+import { useSnoozes } from "@/context/SnoozeContext";
+import { useTranslation } from "@/hooks/useTranslation";
+import { useDateTimePreferences } from "@/hooks/useDateTimePreferences";
+import { formatScheduledTime, toMillis } from "@/utils/dateTime";
+import { cleanSnippet } from "@/utils/formatters";
+import type { ThreadSnooze } from "@/types/inbox";
+
+const SnoozedPage = () => {
+  const { currentUser, userProfile, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  useDateTimePreferences(); // "Until ..." labels are formatted during render
+  const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+
+  // Snooze state - shared with Inbox/Label through SnoozeProvider
+  const { snoozes, loading: snoozesLoading, unsnooze } = useSnoozes();
+
+  // Thread the snooze picker is open for (changing the snooze time)
+  const [resnoozing, setResnoozing] = useState<ThreadSnooze | null>(null);
+
+  // Compose modal state - uses global context
+  const { isComposeOpen, openCompose, setOnEmailSent } = useCompose();
+
+  // Search modal state
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Email send undo toast state
+  const [emailUndoToast, setEmailUndoToast] = useState<{
+    show: boolean;
+    emailId: string;
+    recipients: string[];
+    emailData: UndoEmailData;
+  } | null>(null);
+
+  // Undo restore state
+  const [undoComposeData, setUndoComposeData] = useState<UndoEmailData | null>(null);
+
+  // Still asleep, soonest first - "until they reply" (no time) last
+  const sleeping = useMemo(() => {
+    const endOf = (snooze: ThreadSnooze) => (snooze.snoozed_until ? toMillis(snooze.snoozed_until) : Infinity);
+    return snoozes
+      .filter(snooze => snooze.status === 'snoozed')
+      .sort((a, b) => endOf(a) - endOf(b));
+  }, [snoozes]);
+
+  const selectedSnooze = selectedThreadId ? sleeping.find(s => s.thread_id === selectedThreadId) || null : null;
+
+  // Fetch thread emails when a thread is selected
+  const { emails: threadEmails, loading: threadEmailsLoading } = useThreadEmailsByThreadId(
+    currentUser?.uid,
+    selectedSnooze?.thread_id
+  );
+
+  useEffect(() => {
+    if (!authLoading && !currentUser) {
+      navigate("/");
+    }
+  }, [currentUser, authLoading, navigate]);
+
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen && !resnoozing);
+
+  // Close detail panel
+  const handleCloseDetail = useCallback(() => {
+    setSelectedThreadId(null);
+  }, []);
+
+  // Wake a thread now - it goes straight back to its category
+  const handleUnsnooze = useCallback(async (snooze: ThreadSnooze) => {
+    console.log('⏰ Unsnoozing thread:', snooze.thread_id);
+
+    if (selectedThreadId === snooze.thread_id) {
+      setSelectedThreadId(null);
+    }
+
+    try {
+      await unsnooze(snooze.thread_id);
+    } catch (error) {
+      console.error('❌ Failed to unsnooze thread:', error);
+    }
+  }, [selectedThreadId, unsnooze]);
+
+  // Handle email sent - show undo toast
+  const handleEmailSent = useCallback((emailId: string, recipients: string[], emailData: UndoEmailData) => {
+    console.log('📧 Email queued, showing undo toast:', emailId);
+    setEmailUndoToast({
+      show: true,
+      emailId,
+      recipients,
+      emailData
+    });
+  }, []);
+
+  // Register email sent callback with global compose context
+  useEffect(() => {
+    setOnEmailSent(() => handleEmailSent);
+    return () => setOnEmailSent(null);
+  }, [handleEmailSent, setOnEmailSent]);
+
+  // Handle email undone - just store data, useEffect will open modal
+  const handleEmailUndone = useCallback(() => {
+    console.log('↩️ Email cancelled, storing data for modal');
+    const emailData = emailUndoToast?.emailData;
+    if (!emailData) return;
+
+    // Store undo data - useEffect below will open the modal
+    setUndoComposeData(emailData);
+  }, [emailUndoToast]);
+
+  // Open modal AFTER undoComposeData is set (fixes timing issue)
+  useEffect(() => {
+    if (undoComposeData && undoComposeData.type === 'compose') {
+      console.log('📧 Opening compose modal with undo data');
+      openCompose({
+        initialTo: undoComposeData.to,
+        initialCc: undoComposeData.cc,
+        initialBcc: undoComposeData.bcc,
+        initialSubject: undoComposeData.subject,
+        initialBody: undoComposeData.body_html,
+        initialAttachments: undoComposeData.attachments,
+      });
+      setUndoComposeData(null);
+    }
+  }, [undoComposeData, openCompose]);
+
+  // Handle close undo toast
+  const handleCloseEmailUndoToast = useCallback(() => {
+    setEmailUndoToast(null);
+  }, []);
+
+  // ==================== RENDER HELPERS ====================
+
+  // "Until Tomorrow at 9:00 AM", "Until they reply", or both
+  const formatUntil = (snooze: ThreadSnooze) => {
+    if (!snooze.snoozed_until) return t('snooze.untilReply');
+    const date = formatScheduledTime(snooze.snoozed_until);
+    return snooze.until_reply ? t('snooze.untilOrReply', { date }) : t('snooze.until', { date });
+  };
+
+  if (authLoading) {
+    return (
+      <div className="fixed inset-0 bg-[#1a1a1a] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-white animate-spin" />
+      </div>
+    );
+  }
+
+  if (!currentUser) return null;
+
+  const hasSelection = selectedSnooze !== null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-[#1a1a1a]">
+
+        <Sidebar
+          activePage="snoozed"
+          userEmail={currentUser?.email || ""}
+          userName={userProfile?.firstName ? `${userProfile.firstName} ${userProfile.lastName || ""}`.trim() : undefined}
+          avatarLetter={userProfile?.firstName?.[0]?.toUpperCase() || currentUser?.email?.[0]?.toUpperCase() || "U"}
+        />
+        {/* ==================== MOBILE/TABLET: Sidebar Component ==================== */}
+        <MobileSidebar
+          isOpen={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+          activePage="snoozed"
+          userProfile={userProfile}
+          currentUser={currentUser}
+        />
+
+        {/* ==================== MAIN CONTAINER ==================== */}
+        <div className={`fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
+
+          {/* ==================== TOP NAVBAR ==================== */}
+          <nav className="flex-shrink-0 border-b border-zinc-700/50">
+            {/* Mobile/Tablet Header */}
+            <div className="flex lg:hidden items-center justify-between h-14 px-3">
+              {/* LEFT: Hamburger + Title */}
+              <div className="flex items-center">
+                <button
+                  onClick={() => setSidebarOpen(true)}
+                  className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white"
+                >
+                  <Menu className="w-5 h-5" />
+                </button>
+                <span className="text-white font-medium text-sm">{t('nav.snoozed')}</span>
+              </div>
+
+              {/* RIGHT: Action Icons */}
+              <div className="flex items-center">
+                {/* Search Icon */}
+                <button onClick={() => setIsSearchOpen(true)} className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white" title="Search">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M480 272C480 317.9 465.1 360.3 440 394.7L566.6 521.4C579.1 533.9 579.1 554.2 566.6 566.7C554.1 579.2 533.8 579.2 521.3 566.7L394.7 440C360.3 465.1 317.9 480 272 480C157.1 480 64 386.9 64 272C64 157.1 157.1 64 272 64C386.9 64 480 157.1 480 272zM272 416C351.5 416 416 351.5 416 272C416 192.5 351.5 128 272 128C192.5 128 128 192.5 128 272C128 351.5 192.5 416 272 416z"/>
+                  </svg>
+                </button>
+
+                {/* Compose/Pencil Icon */}
+                <button
+                  onClick={() => openCompose()}
+                  className="p-2 bg-[#8FA8A3] hover:bg-[#7a9691] rounded-lg transition-colors text-white"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M505 122.9L517.1 135C526.5 144.4 526.5 159.6 517.1 168.9L488 198.1L441.9 152L471 122.9C480.4 113.5 495.6 113.5 504.9 122.9zM273.8 320.2L408 185.9L454.1 232L319.8 366.2C316.9 369.1 313.3 371.2 309.4 372.3L250.9 389L267.6 330.5C268.7 326.6 270.8 323 273.7 320.1zM437.1 89L239.8 286.2C231.1 294.9 224.8 305.6 221.5 317.3L192.9 417.3C190.5 425.7 192.8 434.7 199 440.9C205.2 447.1 214.2 449.4 222.6 447L322.6 418.4C334.4 415 345.1 408.7 353.7 400.1L551 202.9C579.1 174.8 579.1 129.2 551 101.1L538.9 89C510.8 60.9 465.2 60.9 437.1 89zM152 128C103.4 128 64 167.4 64 216L64 488C64 536.6 103.4 576 152 576L424 576C472.6 576 512 536.6 512 488L512 376C512 362.7 501.3 352 488 352C474.7 352 464 362.7 464 376L464 488C464 510.1 446.1 528 424 528L152 528C129.9 528 112 510.1 112 488L112 216C112 193.9 129.9 176 152 176L264 176C277.3 176 288 165.3 288 152C288 138.7 277.3 128 264 128L152 128z"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            {/* Desktop Header */}
+            <div className="hidden lg:flex items-center justify-between px-6 pt-4">
+              {/* Page Title + Thread Count */}
+              <div className="flex items-center gap-4 pb-4">
+                <span className="text-[#8FA8A3] font-medium text-sm">{t('nav.snoozed')}</span>
+                <span className="text-zinc-500 text-sm">{sleeping.length}</span>
+              </div>
+
+              {/* Action Icons */}
+              <div className="flex items-center gap-1 pb-4">
+                {/* Search Icon */}
+                <button onClick={() => setIsSearchOpen(true)} className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors text-zinc-400 hover:text-white" title="Search">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M480 272C480 317.9 465.1 360.3 440 394.7L566.6 521.4C579.1 533.9 579.1 554.2 566.6 566.7C554.1 579.2 533.8 579.2 521.3 566.7L394.7 440C360.3 465.1 317.9 480 272 480C157.1 480 64 386.9 64 272C64 157.1 157.1 64 272 64C386.9 64 480 157.1 480 272zM272 416C351.5 416 416 351.5 416 272C416 192.5 351.5 128 272 128C192.5 128 128 192.5 128 272C128 351.5 192.5 416 272 416z"/>
+                  </svg>
+                </button>
+
+                {/* Compose Icon */}
+                <button
+                  onClick={() => openCompose()}
+                  className="p-2 bg-[#8FA8A3] hover:bg-[#7a9691] rounded-lg transition-colors text-white"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 640 640" className="w-5 h-5" fill="currentColor">
+                    <path d="M505 122.9L517.1 135C526.5 144.4 526.5 159.6 517.1 168.9L488 198.1L441.9 152L471 122.9C480.4 113.5 495.6 113.5 504.9 122.9zM273.8 320.2L408 185.9L454.1 232L319.8 366.2C316.9 369.1 313.3 371.2 309.4 372.3L250.9 389L267.6 330.5C268.7 326.6 270.8 323 273.7 320.1zM437.1 89L239.8 286.2C231.1 294.9 224.8 305.6 221.5 317.3L192.9 417.3C190.5 425.7 192.8 434.7 199 440.9C205.2 447.1 214.2 449.4 222.6 447L322.6 418.4C334.4 415 345.1 408.7 353.7 400.1L551 202.9C579.1 174.8 579.1 129.2 551 101.1L538.9 89C510.8 60.9 465.2 60.9 437.1 89zM152 128C103.4 128 64 167.4 64 216L64 488C64 536.6 103.4 576 152 576L424 576C472.6 576 512 536.6 512 488L512 376C512 362.7 501.3 352 488 352C474.7 352 464 362.7 464 376L464 488C464 510.1 446.1 528 424 528L152 528C129.9 528 112 510.1 112 488L112 216C112 193.9 129.9 176 152 176L264 176C277.3 176 288 165.3 288 152C288 138.7 277.3 128 264 128L152 128z"/>
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </nav>
+
+          {/* ==================== MAIN CONTENT AREA - THREAD LIST + DETAIL ==================== */}
+          <div className="flex-1 flex overflow-hidden">
+
+            {/* List Panel - Snoozed Threads */}
+            <div
+              className={`
+                overflow-y-auto hide-scrollbar
+                ${hasSelection ? 'hidden lg:block lg:w-[30%] lg:border-e lg:border-zinc-700/50' : 'w-full'}
+              `}
+            >
+              {/* Loading State */}
+              {snoozesLoading && (
+                <div className="flex items-center justify-center h-48">
+                  <Loader2 className="w-6 h-6 text-zinc-400 animate-spin" />
+                </div>
+              )}
+
+              {/* Empty State */}
+              {!snoozesLoading && sleeping.length === 0 && (
+                <div className="flex flex-col items-center justify-center h-48 px-4 text-center">
+                  <AlarmClock className="w-8 h-8 text-zinc-600 mb-3" />
+                  <p className="text-zinc-400 text-sm">{t('snooze.empty')}</p>
+                  <p className="text-zinc-600 text-xs mt-1 max-w-xs">{t('snooze.emptyHint')}</p>
+                </div>
+              )}
+
+              {/* Thread Rows */}
+              {!snoozesLoading && sleeping.map(snooze => {
+                const thread = snooze.thread;
+                const isSelected = snooze.thread_id === selectedThreadId;
+                return (
+                  <div
+                    key={snooze.thread_id}
+                    onClick={() => setSelectedThreadId(snooze.thread_id)}
+                    className={`
+                      group cursor-pointer transition-all duration-150 border-b border-zinc-700/30 px-4 lg:px-6 py-3
+                      ${isSelected ? 'bg-zinc-700/50' : 'hover:bg-zinc-800/30'}
+                    `}
+                  >
+                    <div className="flex items-center justify-between gap-3 mb-1">
+                      <span className="text-sm text-zinc-300 truncate">
+                        {thread.last_email_sender || thread.last_email_sender_email}
+                      </span>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {/* Actions - visible on hover */}
+                        <div className="hidden group-hover:flex items-center">
+                          <button
+                            onClick={(e) => { e.stopPropagation(); setResnoozing(snooze); }}
+                            className="p-1 hover:bg-zinc-600/50 rounded transition-colors duration-100 text-zinc-400 hover:text-white"
+                            title={t('snooze.confirm')}
+                          >
+                            <AlarmClock className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleUnsnooze(snooze); }}
+                            className="p-1 hover:bg-zinc-600/50 rounded transition-colors duration-100 text-zinc-400 hover:text-white"
+                            title={t('snooze.unsnooze')}
+                          >
+                            <AlarmClockOff className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <span className="text-xs text-[#f7ac5c]">
+                          {formatUntil(snooze)}
+                        </span>
+                      </div>
+                    </div>
+                    <p className="text-sm text-zinc-400 truncate">{thread.gmail_subject}</p>
+                    {thread.last_email_snippet && (
+                      <p className="text-sm text-zinc-500 truncate">{cleanSnippet(thread.last_email_snippet)}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Detail Panel - Desktop Only */}
+            <div
+              className={`
+                hidden lg:flex flex-col bg-[#252525] overflow-hidden
+                ${hasSelection ? 'w-[55%]' : 'w-0'}
+              `}
+            >
+              {selectedSnooze && (
+                <SentThreadDetail
+                  subject={selectedSnooze.thread.gmail_subject}
+                  emails={threadEmails}
+                  loading={threadEmailsLoading}
+                  userEmail={currentUser?.email || ""}
+                  onClose={handleCloseDetail}
+                />
+              )}
+            </div>
+
+            {/* Profile Panel - Desktop Only */}
+            <div
+              className={`
+                hidden lg:flex flex-col bg-[#1a1a1a] border-s border-zinc-700/50 overflow-hidden
+                ${hasSelection ? 'w-[15%]' : 'w-0'}
+              `}
+            >
+              {selectedSnooze && (
+                <div className="p-6 pt-8">
+                  <p className="text-zinc-500 text-xs uppercase tracking-wider mb-2">{t('nav.snoozed')}</p>
+                  <p className="text-zinc-300 text-sm">{formatUntil(selectedSnooze)}</p>
+                  <button
+                    onClick={() => handleUnsnooze(selectedSnooze)}
+                    className="mt-4 flex items-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-lg text-sm text-white transition-colors"
+                  >
+                    <AlarmClockOff className="w-4 h-4" />
+                    {t('snooze.unsnooze')}
+                  </button>
+                  <p className="text-zinc-500 text-xs mt-6 uppercase tracking-wider mb-2">From</p>
+                  <p className="text-zinc-400 text-xs truncate">{selectedSnooze.thread.last_email_sender_email}</p>
+                </div>
+              )}
+            </div>
+
+            {/* Mobile Detail View - Full Screen */}
+            {selectedSnooze && (
+              <MobileSentThreadDetail
+                subject={selectedSnooze.thread.gmail_subject}
+                emails={threadEmails}
+                loading={threadEmailsLoading}
+                userEmail={currentUser?.email || ""}
+                onClose={handleCloseDetail}
+              />
+            )}
+          </div>
+
+        </div>
+
+        {/* Change snooze time */}
+        <SnoozeModal
+          isOpen={resnoozing !== null}
+          onClose={() => setResnoozing(null)}
+          threads={resnoozing ? [resnoozing.thread] : []}
+        />
+
+        {/* Email Send Undo Toast */}
+        {emailUndoToast && emailUndoToast.show && (
+          <EmailSendUndoToast
+            emailId={emailUndoToast.emailId}
+            recipients={emailUndoToast.recipients}
+            onClose={handleCloseEmailUndoToast}
+            onUndo={handleEmailUndone}
+          />
+        )}
+
+        {/* Search Modal */}
+        <SearchModal
+          isOpen={isSearchOpen}
+          onClose={() => setIsSearchOpen(false)}
+          userEmail={currentUser?.email || ''}
+        />
+
+      </div>
+    </>
+  );
+};
+
+export default SnoozedPage;
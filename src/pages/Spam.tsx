@@ -19,6 +19,7 @@ import { SearchModal } from "@/components/search";
 import { Sidebar } from "@/components/layout";
 import { MobileSidebar } from "@/components/layout/MobileSidebar";
 import { useCompose } from "@/context/ComposeContext";
+import { useShortcuts } from "@/context/ShortcutsContext";
 
 const SpamPage = () => {
   const { currentUser, userProfile, loading: authLoading } = useAuth();
@@ -47,23 +48,10 @@ const SpamPage = () => {
     }
   }, [currentUser, authLoading, navigate]);
 
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.closest('[data-modal]')) return;
-      if (isComposeOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isComposeOpen, isSearchOpen]);
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
 
   // Handle email click
   const handleEmailClick = (email: Email) => {
@@ -158,7 +146,7 @@ const SpamPage = () => {
         />
 
         {/* ==================== MAIN CONTAINER ==================== */}
-        <div className={`fixed inset-0 lg:top-0 lg:right-0 lg:left-16 bg-[#2d2d2d] lg:rounded-bl-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
+        <div className={`fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
           
           {/* ==================== MOBILE SELECTION BAR ==================== */}
           <MobileSelectionBar
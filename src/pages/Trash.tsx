@@ -12,6 +12,7 @@ import {
 } from "@/components/inbox";
 import { SearchModal } from "@/components/search";
 import { useTrashedEmails } from "@/hooks/useTrashedEmails";
+import { useThreadOverrides } from "@/hooks/useThreadOverrides";
 import { useThreadEmailsByThreadId } from "@/components/inbox/useThreadEmailsByThreadId";
 import { SentThreadDetail } from "@/components/inbox/SentThreadDetail";
 import { MobileSentThreadDetail } from "@/components/inbox/MobileSentThreadDetail";
@@ -21,6 +22,7 @@ import { MobileSidebar } from "@/components/layout/MobileSidebar";
 import { EmailSendUndoToast } from "@/components/ui/EmailSendUndoToast";
 import { UndoEmailData } from "@/components/inbox/ComposeModal";
 import { useCompose } from "@/context/ComposeContext";
+import { useShortcuts } from "@/context/ShortcutsContext";
 
 const TrashPage = () => {
   const { currentUser, userProfile, loading: authLoading, backendUserData } = useAuth();
@@ -28,8 +30,8 @@ const TrashPage = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
   
-  // Local state for optimistic UI - track emails restored (to hide them)
-  const [localRestoredEmails, setLocalRestoredEmails] = useState<Set<string>>(new Set());
+  // Optimistic UI state - shared with Inbox/Label/Done through the react-query cache
+  const { emailOverrides, updateEmails, updateThreads, commit, reconcileEmails } = useThreadOverrides();
 
   // Compose modal state - uses global context
   const { isComposeOpen, openCompose, setOnEmailSent } = useCompose();
@@ -55,7 +57,14 @@ const TrashPage = () => {
   const [isSelectionMode, setIsSelectionMode] = useState(false);
 
   // Fetch trashed emails from Firestore
-  const { emails, loading: emailsLoading, error: emailsError } = useTrashedEmails(currentUser?.uid);
+  const {
+    emails,
+    loading: emailsLoading,
+    error: emailsError,
+    hasMore,
+    loadingMore,
+    loadMore,
+  } = useTrashedEmails(currentUser?.uid);
 
   // Fetch thread emails when an email is selected
   const { emails: threadEmails, loading: threadEmailsLoading } = useThreadEmailsByThreadId(
@@ -65,8 +74,15 @@ const TrashPage = () => {
   
   // Filter out emails that have been restored (optimistic UI)
   const emailsWithLocalState = useMemo(() => {
-    return emails.filter(email => !localRestoredEmails.has(email.id));
-  }, [emails, localRestoredEmails]);
+    return emails.filter(email => emailOverrides[email.id]?.is_deleted !== false);
+  }, [emails, emailOverrides]);
+
+  // Forget overrides for emails Firestore has already moved out
+  useEffect(() => {
+    if (!emailsLoading) {
+      reconcileEmails(emails, 'is_deleted');
+    }
+  }, [emails, emailsLoading, reconcileEmails]);
 
   useEffect(() => {
     if (!authLoading && !currentUser) {
@@ -74,23 +90,10 @@ const TrashPage = () => {
     }
   }, [currentUser, authLoading, navigate]);
 
-  // Keyboard shortcut: "/" to open search
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const target = e.target as HTMLElement;
-      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
-      if (target.closest('[data-modal]')) return;
-      if (isComposeOpen || isSearchOpen) return;
-      
-      if (e.key === '/' && !e.metaKey && !e.ctrlKey) {
-        e.preventDefault();
-        setIsSearchOpen(true);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isComposeOpen, isSearchOpen]);
+  // Keyboard shortcut: search (bindings in utils/shortcuts.ts)
+  useShortcuts('global', {
+    search: () => setIsSearchOpen(true),
+  }, !isSearchOpen);
 
   // Handle email click
   const handleEmailClick = useCallback((email: Email) => {
@@ -106,29 +109,29 @@ const TrashPage = () => {
   const handleRestore = useCallback(async (email: Email) => {
     console.log('♻️ Restoring email from trash:', email.id);
     
-    // Optimistic UI: Hide email immediately
-    setLocalRestoredEmails(prev => new Set(prev).add(email.id));
+    // Also lift any thread-level hide so the thread can show up in the inbox again
+    updateThreads([email.thread_id], { is_deleted: undefined });
     
     // If this email was selected, clear selection
     if (selectedEmail?.id === email.id) {
       setSelectedEmail(null);
     }
     
-    // Call API in background
-    restoreEmail(email.id)
+    // Hide immediately, call API in background
+    commit({
+      entity: 'emails',
+      ids: [email.id],
+      patch: { is_deleted: false },
+      request: () => restoreEmail(email.id)
+    })
       .then(response => {
         console.log('✅ Email restored:', response);
       })
       .catch(error => {
+        // commit() already reverted the optimistic update
         console.error('❌ Failed to restore email:', error);
-        // Revert optimistic update on error
-        setLocalRestoredEmails(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(email.id);
-          return newSet;
-        });
       });
-  }, [selectedEmail]);
+  }, [selectedEmail, commit, updateThreads]);
 
   // Handle checkbox change for individual email
   const handleCheckChange = useCallback((email: Email, checked: boolean) => {
@@ -173,12 +176,14 @@ const TrashPage = () => {
     
     const emailIds = Array.from(checkedEmails);
     
+    // Lift thread-level hides for the affected threads
+    const threadIds = emails
+      .filter(email => emailIds.includes(email.id))
+      .map(email => email.thread_id);
+    updateThreads(threadIds, { is_deleted: undefined });
+    
     // Optimistic UI: Hide emails immediately
-    setLocalRestoredEmails(prev => {
-      const newSet = new Set(prev);
-      emailIds.forEach(id => newSet.add(id));
-      return newSet;
-    });
+    updateEmails(emailIds, { is_deleted: false });
     
     // Clear selection and exit selection mode
     setCheckedEmails(new Set());
@@ -195,9 +200,10 @@ const TrashPage = () => {
         await restoreEmail(emailId);
       } catch (error) {
         console.error('Failed to restore email:', emailId, error);
+        updateEmails([emailId], { is_deleted: undefined });
       }
     }
-  }, [checkedEmails, selectedEmail]);
+  }, [checkedEmails, selectedEmail, emails, updateEmails, updateThreads]);
 
   // Handle email sent - show undo toast
   const handleEmailSent = useCallback((emailId: string, recipients: string[], emailData: UndoEmailData) => {
@@ -282,7 +288,7 @@ const TrashPage = () => {
         />
 
         {/* ==================== MAIN CONTAINER ==================== */}
-        <div className={`fixed inset-0 lg:top-0 lg:right-0 lg:left-16 bg-[#2d2d2d] lg:rounded-bl-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
+        <div className={`fixed inset-0 lg:top-0 lg:end-0 lg:start-16 bg-[#2d2d2d] lg:rounded-es-2xl flex flex-col ${isComposeOpen ? 'lg:bottom-12' : 'lg:bottom-8'}`}>
           
           {/* ==================== MOBILE SELECTION BAR ==================== */}
           <MobileSelectionBar
@@ -405,6 +411,9 @@ const TrashPage = () => {
                 isSelectionMode={isSelectionMode}
                 onCheckChange={handleCheckChange}
                 onLongPress={handleLongPress}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={loadMore}
               />
             </div>
 
@@ -0,0 +1,406 @@
+// services/apiClient.ts - Shared HTTP client for every backend call
+// ✅ One place for auth token, headers and error parsing
+// ✅ Automatic Composio routing applied to every endpoint
+// ✅ Runtime response validation with zod schemas
+// ✅ Request cancellation through AbortSignal
+// ✅ File downloads (apiRequestBlob) through the same pipeline
+// ✅ Retries with exponential backoff + jitter for idempotent calls
+// ✅ Forced token refresh and one replay on 401, Retry-After honoured on 429
+
+import { z } from 'zod';
+import { auth } from '../firebase.config';
+
+const API_BASE_URL = import.meta.env.VITE_BACKEND_URL;
+
+// ======================================================
+// ERRORS
+// ======================================================
+
+/**
+ * Error thrown for every failed backend request.
+ * - status: HTTP status code (0 = network failure, no response)
+ * - detail: `detail` field from the backend error body, if any
+ * - endpoint: the endpoint that was actually called (after routing)
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly detail: string | null;
+  readonly endpoint: string;
+
+  constructor(status: number, detail: string | null, endpoint: string, message?: string) {
+    super(message || detail || `API error: ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+    this.endpoint = endpoint;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Check if an error came from an aborted request (AbortController.abort()).
+ * Callers usually want to ignore these instead of showing an error.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// Helper: Pull a readable message out of a FastAPI error body
+// `detail` is a string for HTTPException, an array for validation errors
+function extractDetail(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return null;
+
+  const detail = (body as { detail?: unknown }).detail;
+  if (typeof detail === 'string') return detail;
+
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map((item) => (item && typeof item === 'object' ? (item as { msg?: unknown }).msg : item))
+      .filter((msg): msg is string => typeof msg === 'string');
+    return messages.length > 0 ? messages.join('; ') : null;
+  }
+
+  return null;
+}
+
+// ======================================================
+// AUTH HELPERS
+// ======================================================
+
+export type AuthMethod = 'direct' | 'composio';
+
+/**
+ * Get the Firebase ID token for the current user.
+ * Pass forceRefresh=true to bypass the cached token.
+ */
+export async function getAuthToken(forceRefresh: boolean = false): Promise<string> {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new ApiError(401, 'User not authenticated', '', 'User not authenticated');
+  }
+  return user.getIdToken(forceRefresh);
+}
+
+// Get auth method - check claims first, fallback to localStorage
+export async function getAuthMethod(): Promise<AuthMethod> {
+  const user = auth.currentUser;
+  if (!user) return 'direct';
+
+  try {
+    // Check custom claims first
+    const idTokenResult = await user.getIdTokenResult();
+    const claimsAuthMethod = idTokenResult.claims.auth_method as string;
+
+    if (claimsAuthMethod === 'composio') {
+      return 'composio';
+    }
+
+    // Fallback: Check localStorage (set after Composio finalization)
+    const storedAuthMethod = localStorage.getItem('outpost_auth_method');
+    if (storedAuthMethod === 'composio') {
+      console.log('🔄 Auth method from localStorage: composio (claims not yet propagated)');
+      // Force token refresh to get updated claims
+      await user.getIdToken(true);
+      return 'composio';
+    }
+
+    return 'direct';
+  } catch (error) {
+    console.error('Failed to get auth method:', error);
+
+    // Last resort fallback to localStorage
+    const storedAuthMethod = localStorage.getItem('outpost_auth_method');
+    if (storedAuthMethod === 'composio') {
+      return 'composio';
+    }
+
+    return 'direct';
+  }
+}
+
+// ======================================================
+// ROUTING
+// ======================================================
+
+// Endpoint prefixes that have a Composio twin on the backend
+const COMPOSIO_ROUTES: Array<{ direct: string; composio: string }> = [
+  { direct: '/api/emails', composio: '/api/composio/emails' },
+  { direct: '/api/labels', composio: '/api/composio/labels' },
+];
+
+/**
+ * Rewrite an endpoint for the user's auth method.
+ * Direct Auth endpoints are returned unchanged.
+ */
+export function routeEndpoint(endpoint: string, authMethod: AuthMethod): string {
+  if (authMethod !== 'composio') return endpoint;
+
+  const route = COMPOSIO_ROUTES.find(
+    (r) => endpoint === r.direct || endpoint.startsWith(`${r.direct}/`) || endpoint.startsWith(`${r.direct}?`)
+  );
+  if (!route) return endpoint;
+
+  const routedEndpoint = endpoint.replace(route.direct, route.composio);
+  console.log(`🔀 Routing to Composio: ${endpoint} → ${routedEndpoint}`);
+  return routedEndpoint;
+}
+
+// ======================================================
+// RETRY POLICY
+// ======================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Safe to send twice by HTTP semantics
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+// Transient gateway/server failures worth retrying
+const RETRYABLE_STATUSES = [408, 500, 502, 503, 504];
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Exponential backoff with full jitter: random(0, min(max, base * 2^attempt))
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+// Sleep that rejects with AbortError as soon as the signal fires
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ======================================================
+// REQUEST
+// ======================================================
+
+// Without strictNullChecks z.infer marks every key optional - these put them back,
+// so a schema's output can be handed to code expecting the full shape
+type RequiredDeep<T> = T extends Date | Blob | ((...args: never[]) => unknown)
+  ? T
+  : T extends readonly (infer Item)[]
+    ? RequiredDeep<Item>[]
+    : T extends object
+      ? { [K in keyof T]-?: RequiredDeep<T[K]> }
+      : T;
+
+/** What apiRequest resolves to for a given response schema */
+export type ApiResponse<S extends z.ZodTypeAny> = RequiredDeep<z.infer<S>>;
+
+export interface ApiRequestOptions<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  method?: HttpMethod;
+  // JSON-serialised into the request body
+  body?: unknown;
+  // Response schema - the parsed body is validated against it and typed by it (ApiResponse)
+  schema?: S;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  // Send the current user's ID token (default: true)
+  authenticated?: boolean;
+  // Explicit ID token to send instead of the current user's
+  token?: string;
+  // Retry network errors and 5xx responses.
+  // Defaults to true for GET/PUT/DELETE; pass true for POSTs that only set state.
+  idempotent?: boolean;
+}
+
+/**
+ * Send a request with auth, routing and the retry policy below.
+ * Resolves with the first OK response; throws ApiError for anything else.
+ * - 401: refreshes the ID token (getIdToken(true)) and replays once
+ * - 429: waits for Retry-After (or backoff) and retries, any method
+ * - Network errors / 408 / 5xx: retried with backoff only when idempotent
+ */
+async function sendRequest(
+  endpoint: string,
+  options: ApiRequestOptions
+): Promise<{ response: Response; routedEndpoint: string }> {
+  const {
+    method = 'GET',
+    body,
+    signal,
+    headers = {},
+    authenticated = true,
+    token: explicitToken,
+  } = options;
+
+  const retryIdempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+  const authMethod = authenticated ? await getAuthMethod() : 'direct';
+  const routedEndpoint = routeEndpoint(endpoint, authMethod);
+  // Some URLs come from the backend already absolute (e.g. Composio attachment URLs)
+  const url = /^https?:\/\//i.test(routedEndpoint) ? routedEndpoint : `${API_BASE_URL}${routedEndpoint}`;
+
+  let token = explicitToken || (authenticated ? await getAuthToken() : null);
+  let tokenRefreshed = false;
+  let attempt = 0;
+  let response: Response;
+
+  while (true) {
+    try {
+      response = await fetch(url, {
+        method,
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'ngrok-skip-browser-warning': 'true',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (retryIdempotent && attempt < MAX_RETRIES) {
+        const delay = getBackoffDelay(attempt++);
+        console.warn(`🔁 Network error on ${routedEndpoint}, retry ${attempt}/${MAX_RETRIES} in ${delay}ms`);
+        await wait(delay, signal);
+        continue;
+      }
+      throw new ApiError(0, null, routedEndpoint, 'Network error - check your connection');
+    }
+
+    // Expired/revoked token: refresh once and replay. An explicit token
+    // belongs to the caller, so it is never swapped out.
+    if (response.status === 401 && authenticated && !explicitToken && !tokenRefreshed) {
+      console.warn(`🔑 401 from ${routedEndpoint}, refreshing token and retrying`);
+      tokenRefreshed = true;
+      token = await getAuthToken(true);
+      continue;
+    }
+
+    // Rate limited: the request was not processed, so any method can be replayed
+    if (response.status === 429 && attempt < MAX_RETRIES) {
+      const delay = Math.min(
+        parseRetryAfter(response.headers.get('Retry-After')) ?? getBackoffDelay(attempt),
+        MAX_DELAY_MS * 4
+      );
+      attempt++;
+      console.warn(`⏳ Rate limited on ${routedEndpoint}, retry ${attempt}/${MAX_RETRIES} in ${delay}ms`);
+      await wait(delay, signal);
+      continue;
+    }
+
+    if (retryIdempotent && RETRYABLE_STATUSES.includes(response.status) && attempt < MAX_RETRIES) {
+      const delay = getBackoffDelay(attempt++);
+      console.warn(`🔁 ${response.status} from ${routedEndpoint}, retry ${attempt}/${MAX_RETRIES} in ${delay}ms`);
+      await wait(delay, signal);
+      continue;
+    }
+
+    break;
+  }
+
+  if (!response.ok) {
+    const data = parseBody(await response.text());
+    const detail = extractDetail(data) || (typeof data === 'string' ? data : null);
+    throw new ApiError(response.status, detail, routedEndpoint);
+  }
+
+  return { response, routedEndpoint };
+}
+
+// Empty bodies (204, DELETE without payload) parse as null
+function parseBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Call a backend endpoint.
+ * - Adds Authorization and JSON headers
+ * - Routes /api/emails and /api/labels to Composio when needed
+ * - Throws ApiError with HTTP status and backend `detail` on failure
+ * - Validates the response body against `schema` when given and resolves to its output type;
+ *   without a schema the parsed body comes back as unknown
+ * - Aborted requests reject with the original AbortError
+ * - Retries as described on sendRequest
+ */
+export async function apiRequest<S extends z.ZodTypeAny>(
+  endpoint: string,
+  options: ApiRequestOptions<S> & { schema: S }
+): Promise<ApiResponse<S>>;
+export async function apiRequest(endpoint: string, options?: ApiRequestOptions): Promise<unknown>;
+export async function apiRequest(
+  endpoint: string,
+  options: ApiRequestOptions = {}
+): Promise<unknown> {
+  const { response, routedEndpoint } = await sendRequest(endpoint, options);
+  const data = parseBody(await response.text());
+
+  const { schema } = options;
+  if (!schema) return data;
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`❌ Unexpected response from ${routedEndpoint}:`, parsed.error.issues);
+    throw new ApiError(
+      response.status,
+      null,
+      routedEndpoint,
+      `Unexpected response from server (${routedEndpoint})`
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Download a backend file as a Blob (attachments...) - same auth, routing and retries as apiRequest
+ */
+export async function apiRequestBlob(
+  endpoint: string,
+  options: Omit<ApiRequestOptions, 'schema' | 'body'> = {}
+): Promise<Blob> {
+  const { response } = await sendRequest(endpoint, options);
+  return response.blob();
+}
@@ -1,21 +1,14 @@
 // services/attachmentApi.ts
 // API for uploading attachments to S3
+// Backend calls go through apiClient.ts; the S3 PUT uses XHR for progress events
 
-import { auth } from '../firebase.config';
-
-const API_BASE_URL = import.meta.env.VITE_BACKEND_URL;
+import { z } from 'zod';
+import { apiRequest, ApiResponse } from './apiClient';
 
 // ======================================================
 // TYPES
 // ======================================================
 
-export interface UploadUrlResponse {
-  upload_url: string;
-  attachment_id: string;
-  storage_path: string;
-  expires_in: number;
-}
-
 export interface AttachmentMetadata {
   id: string;
   filename: string;
@@ -32,15 +25,16 @@ export interface UploadProgress {
 }
 
 // ======================================================
-// HELPER: Get Auth Token
+// RESPONSE SCHEMAS
 // ======================================================
-async function getAuthToken(): Promise<string> {
-  const user = auth.currentUser;
-  if (!user) {
-    throw new Error('User not authenticated');
-  }
-  return user.getIdToken();
-}
+const uploadUrlResponseSchema = z.object({
+  upload_url: z.string(),
+  attachment_id: z.string(),
+  storage_path: z.string(),
+  expires_in: z.number(),
+}).passthrough();
+
+export type UploadUrlResponse = ApiResponse<typeof uploadUrlResponseSchema>;
 
 // ======================================================
 // API: Get Presigned Upload URL
@@ -48,29 +42,19 @@ async function getAuthToken(): Promise<string> {
 export async function getUploadUrl(
   filename: string,
   contentType: string,
-  size: number
+  size: number,
+  signal?: AbortSignal
 ): Promise<UploadUrlResponse> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/attachments/upload-url`, {
+  return apiRequest('/api/attachments/upload-url', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
+    schema: uploadUrlResponseSchema,
+    signal,
+    body: {
       filename,
       content_type: contentType,
       size
-    })
+    }
   });
-  
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Failed to get upload URL' }));
-    throw new Error(error.detail || `HTTP error ${response.status}`);
-  }
-  
-  return response.json();
 }
 
 // ======================================================
@@ -120,40 +104,21 @@ export async function uploadToS3(
 // ======================================================
 // API: Confirm Upload
 // ======================================================
-export async function confirmUpload(attachmentId: string): Promise<void> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/attachments/confirm/${attachmentId}`, {
+export async function confirmUpload(attachmentId: string, signal?: AbortSignal): Promise<void> {
+  await apiRequest(`/api/attachments/confirm/${attachmentId}`, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    }
+    signal
   });
-  
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Failed to confirm upload' }));
-    throw new Error(error.detail || `HTTP error ${response.status}`);
-  }
 }
 
 // ======================================================
 // API: Delete Attachment
 // ======================================================
-export async function deleteAttachment(attachmentId: string): Promise<void> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/attachments/${attachmentId}`, {
+export async function deleteAttachment(attachmentId: string, signal?: AbortSignal): Promise<void> {
+  await apiRequest(`/api/attachments/${attachmentId}`, {
     method: 'DELETE',
-    headers: {
-      'Authorization': `Bearer ${token}`
-    }
+    signal
   });
-  
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Failed to delete attachment' }));
-    throw new Error(error.detail || `HTTP error ${response.status}`);
-  }
 }
 
 // ======================================================
@@ -14,6 +14,8 @@ import {
 } from 'firebase/firestore';
 import { auth, googleProvider, db } from '../firebase.config';
 import { UserProfile, UserProfileFirestore } from '../types/user.types';
+import { clearLocalCache } from './localCache';
+import { clearAllDraftRecoveries } from '../utils/drafts';
 
 /**
  * Sign in with Google and create/update user profile in Firestore
@@ -61,6 +63,7 @@ export const signInWithGoogle = async (): Promise<UserProfile | null> => {
         email: data.email,
         pictureUrl: data.pictureUrl || pictureUrl,
         timezone: data.timezone || timezone,  // Include timezone
+        language: data.language,
         createdAt: new Date(data.createdAt),
         lastActivity: now
       };
@@ -114,9 +117,15 @@ export const signInWithCustomFirebaseToken = async (customToken: string): Promis
 
 /**
  * Sign out the current user
+ * Wipes their local cache and draft copies first so the next account starts clean
  */
 export const logOut = async (): Promise<void> => {
   try {
+    const uid = auth.currentUser?.uid;
+    if (uid) {
+      await clearLocalCache(uid);
+      clearAllDraftRecoveries(uid);
+    }
     await signOut(auth);
   } catch (error) {
     console.error('Error signing out:', error);
@@ -141,6 +150,7 @@ export const getUserProfile = async (uid: string): Promise<UserProfile | null> =
         email: data.email,
         pictureUrl: data.pictureUrl,
         timezone: data.timezone,  // NEW: Include timezone
+        language: data.language,
         createdAt: new Date(data.createdAt),
         lastActivity: new Date(data.lastActivity)
       };
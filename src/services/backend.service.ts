@@ -1,5 +1,7 @@
-// Backend API configuration
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
+// Backend API calls for auth/user bootstrap
+// Requests go through apiClient.ts (ApiError with HTTP status + backend detail)
+import { z } from "zod";
+import { apiRequest } from "./apiClient";
 
 /**
  * Send Firebase ID token to backend
@@ -7,19 +9,7 @@ const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
  */
 export const getCurrentUserFromBackend = async (idToken: string): Promise<any> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/user`, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${idToken}`,
-        "ngrok-skip-browser-warning": "true",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Backend request failed: ${response.status}`);
-    }
-
-    return await response.json();
+    return await apiRequest("/user", { token: idToken });
   } catch (error) {
     // Production-safe error logging (no sensitive data)
     console.error("Error verifying user with backend");
@@ -35,20 +25,11 @@ export const getCurrentUserFromBackend = async (idToken: string): Promise<any> =
  */
 export const sendUserToBackend = async (uid: string): Promise<any> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/auth/user`, {
+    return await apiRequest("/api/auth/user", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "ngrok-skip-browser-warning": "true",
-      },
-      body: JSON.stringify({ uid }),
+      authenticated: false,
+      body: { uid },
     });
-
-    if (!response.ok) {
-      throw new Error(`Backend request failed: ${response.status}`);
-    }
-
-    return await response.json();
   } catch (error) {
     console.error("Error sending user to backend");
     if (process.env.NODE_ENV === "development") {
@@ -63,23 +44,35 @@ export const sendUserToBackend = async (uid: string): Promise<any> => {
  */
 export const sendAuthTokenToBackend = async (idToken: string): Promise<any> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/auth/verify`, {
+    return await apiRequest("/api/auth/verify", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${idToken}`,
-        "ngrok-skip-browser-warning": "true"
-      },
-      body: JSON.stringify({ token: idToken }),
+      token: idToken,
+      body: { token: idToken },
     });
-
-    if (!response.ok) {
-      throw new Error(`Backend auth verification failed: ${response.status}`);
+  } catch (error) {
+    console.error("Error verifying token with backend");
+    if (process.env.NODE_ENV === "development") {
+      console.error("Error details:", error);
     }
+    throw error;
+  }
+};
 
-    return await response.json();
+/**
+ * Delete the signed-in user's account and data
+ * Backend returns: status ("success" | "partial"), message
+ */
+export const deleteAccountOnBackend = async () => {
+  try {
+    return await apiRequest("/api/account/delete", {
+      method: "DELETE",
+      schema: z.object({
+        status: z.string(),
+        message: z.string().optional(),
+      }).passthrough(),
+    });
   } catch (error) {
-    console.error("Error verifying token with backend");
+    console.error("Error deleting account on backend");
     if (process.env.NODE_ENV === "development") {
       console.error("Error details:", error);
     }
@@ -87,6 +80,26 @@ export const sendAuthTokenToBackend = async (idToken: string): Promise<any> => {
   }
 };
 
+/**
+ * Start connecting Gmail through Composio
+ * Backend returns: redirect_url (Composio OAuth page)
+ */
+export const getComposioConnectUrl = async (): Promise<string> => {
+  const data = await apiRequest("/auth/composio/connect", {
+    schema: z.object({ redirect_url: z.string() }).passthrough(),
+  });
+  return data.redirect_url;
+};
+
+/**
+ * Finish the Composio connection after the OAuth redirect back to the app
+ */
+export const finalizeComposioConnection = async (connectionId: string) => {
+  return apiRequest(`/auth/composio/finalize?connection_id=${encodeURIComponent(connectionId)}`, {
+    method: "POST",
+  });
+};
+
 /**
  * Generic authenticated request to backend with user's ID token
  */
@@ -97,31 +110,12 @@ export const authenticatedRequest = async (
   idToken?: string,
 ): Promise<any> => {
   try {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      "ngrok-skip-browser-warning": "true"
-    };
-
-    if (idToken) {
-      headers["Authorization"] = `Bearer ${idToken}`;
-    }
-
-    const options: RequestInit = {
+    return await apiRequest(endpoint, {
       method,
-      headers,
-    };
-
-    if (body && (method === "POST" || method === "PUT")) {
-      options.body = JSON.stringify(body);
-    }
-
-    const response = await fetch(`${BACKEND_URL}${endpoint}`, options);
-
-    if (!response.ok) {
-      throw new Error(`Backend request failed: ${response.status}`);
-    }
-
-    return await response.json();
+      authenticated: Boolean(idToken),
+      token: idToken,
+      body: body && (method === "POST" || method === "PUT") ? body : undefined,
+    });
   } catch (error) {
     console.error("Error making authenticated request");
     if (process.env.NODE_ENV === "development") {
@@ -1,5 +1,7 @@
 // services/draftApi.ts - Draft email operations (Firestore only, no Gmail API)
 // Works for both Direct Auth and Composio users
+// ✅ Drafts carry a version counter - every save bumps it, so two tabs editing the same
+//    draft notice each other's writes (saveDraftVersioned / subscribeToDraft, hooks/useDraftAutosave.ts)
 
 import { 
   collection, 
@@ -7,10 +9,17 @@ import {
   setDoc, 
   getDoc, 
   deleteDoc, 
+  query,
+  where,
+  documentId,
+  runTransaction,
+  increment,
   serverTimestamp,
   Timestamp
 } from 'firebase/firestore';
 import { db, auth } from '@/firebase.config';
+import { draftConverter } from '@/services/firestoreConverters';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
 
 // Original email snapshot for reply/forward context
 export interface OriginalEmailSnapshot {
@@ -46,11 +55,16 @@ export interface DraftData {
   message_id?: string;  // For In-Reply-To header
   // Original email snapshot (for reply/forward)
   original_email?: OriginalEmailSnapshot;
+  // Bumped on every save (missing on drafts saved before versioning = 0)
+  version?: number;
   // Timestamps
   created_at?: Timestamp | Date;
   updated_at?: Timestamp | Date;
 }
 
+// What callers pass in - ids, version and timestamps are filled in here
+export type DraftInput = Omit<DraftData, 'id' | 'created_at' | 'updated_at' | 'version'>;
+
 /**
  * Save or update a draft to Firestore
  * @param draft - Draft data to save
@@ -58,7 +72,7 @@ export interface DraftData {
  * @returns Draft ID
  */
 export async function saveDraft(
-  draft: Omit<DraftData, 'id' | 'created_at' | 'updated_at'>,
+  draft: DraftInput,
   existingDraftId?: string
 ): Promise<string> {
   const user = auth.currentUser;
@@ -77,6 +91,7 @@ export async function saveDraft(
   // Build draft data with timestamps
   const draftData = {
     ...draft,
+    version: increment(1),
     updated_at: serverTimestamp(),
     ...(isUpdate ? {} : { created_at: serverTimestamp() })
   };
@@ -88,6 +103,105 @@ export async function saveDraft(
   return draftId;
 }
 
+// ======================================================
+// VERSIONED SAVES (autosave)
+// ======================================================
+
+/**
+ * Thrown by saveDraftVersioned when another tab saved the draft since our last read
+ */
+export class DraftConflictError extends Error {
+  readonly remote: DraftData;
+
+  constructor(remote: DraftData) {
+    super('Draft was changed in another tab');
+    this.name = 'DraftConflictError';
+    this.remote = remote;
+  }
+}
+
+export function isDraftConflictError(error: unknown): error is DraftConflictError {
+  return error instanceof DraftConflictError;
+}
+
+/**
+ * Save a draft only if nobody else saved it since baseVersion
+ * @param draft - Draft data to save
+ * @param existingDraftId - If updating an existing draft
+ * @param baseVersion - Version this tab last saw (null = unknown, skip the check)
+ * @returns Draft ID and the version just written
+ * @throws DraftConflictError if the stored version moved past baseVersion
+ */
+export async function saveDraftVersioned(
+  draft: DraftInput,
+  existingDraftId: string | undefined,
+  baseVersion: number | null
+): Promise<{ draftId: string; version: number }> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated');
+  
+  const draftsRef = collection(db, 'users', user.uid, 'drafts');
+  const draftId = existingDraftId || doc(draftsRef).id;
+  const draftRef = doc(draftsRef, draftId);
+  
+  const version = await runTransaction(db, async (transaction) => {
+    const existingDoc = await transaction.get(draftRef);
+    
+    // Deleted elsewhere (e.g. sent from another tab) - start over as a new draft
+    if (!existingDoc.exists()) {
+      transaction.set(draftRef, {
+        ...draft,
+        version: 1,
+        created_at: serverTimestamp(),
+        updated_at: serverTimestamp()
+      });
+      return 1;
+    }
+    
+    const remote = { id: existingDoc.id, ...existingDoc.data() } as DraftData;
+    const remoteVersion = remote.version ?? 0;
+    if (baseVersion !== null && remoteVersion !== baseVersion) {
+      throw new DraftConflictError(remote);
+    }
+    
+    transaction.set(draftRef, {
+      ...draft,
+      version: remoteVersion + 1,
+      updated_at: serverTimestamp()
+    }, { merge: true });
+    return remoteVersion + 1;
+  });
+  
+  console.log(`💾 Draft autosaved: ${draftId} (v${version})`);
+  
+  return { draftId, version };
+}
+
+/**
+ * Listen to one draft - fires with null once it's deleted
+ * @returns Unsubscribe function
+ */
+export function subscribeToDraft(
+  draftId: string,
+  onChange: (draft: DraftData | null) => void
+): () => void {
+  const user = auth.currentUser;
+  if (!user) return () => {};
+  
+  // The registry shares queries, so the draft is read as a one-doc query
+  const drafts = collection(db, 'users', user.uid, 'drafts').withConverter(draftConverter);
+  return subscribeToQuery(
+    `draft:${draftId}`,
+    query(drafts, where(documentId(), '==', draftId)),
+    (snapshot) => {
+      onChange(snapshot.docs[0]?.data() ?? null);
+    },
+    (error) => {
+      console.error(`❌ Draft listener error (${draftId}):`, error);
+    }
+  );
+}
+
 /**
  * Load a draft from Firestore
  * @param draftId - Draft ID to load
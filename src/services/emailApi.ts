@@ -5,90 +5,80 @@
 // ✅ Contacts API function added
 // ✅ Fixed: localStorage fallback for auth method detection
 // ✅ Added: getLabelByName and getLabelThreads for Label page
+// ✅ All requests go through apiClient.ts (ApiError, schema validation, AbortSignal)
+// ✅ State-setting POSTs (read/done/labels) are marked idempotent so they retry
+// ✅ Added: getEmailRaw for the "Show original" header/source viewer
+// ✅ Response types are derived from the schemas (ApiResponse) instead of separate interfaces
 
+import { z } from 'zod';
 import { auth } from '../firebase.config';
+import { apiRequest, ApiResponse, HttpMethod } from './apiClient';
 
-const API_BASE_URL = import.meta.env.VITE_BACKEND_URL;
-
-// Helper to get auth token
-async function getAuthToken(): Promise<string> {
-  const user = auth.currentUser;
-  if (!user) {
-    throw new Error('User not authenticated');
-  }
-  return user.getIdToken();
+// Helper for API calls with automatic endpoint routing (see apiClient.ts)
+function apiCall<S extends z.ZodTypeAny>(
+  endpoint: string,
+  method: HttpMethod,
+  schema: S,
+  options: { body?: unknown; signal?: AbortSignal; idempotent?: boolean } = {}
+): Promise<ApiResponse<S>> {
+  return apiRequest(endpoint, { method, schema, ...options });
 }
 
-// Get auth method - check claims first, fallback to localStorage
-async function getAuthMethod(): Promise<'direct' | 'composio'> {
-  const user = auth.currentUser;
-  if (!user) return 'direct';
-  
-  try {
-    // Check custom claims first
-    const idTokenResult = await user.getIdTokenResult();
-    const claimsAuthMethod = idTokenResult.claims.auth_method as string;
-    
-    if (claimsAuthMethod === 'composio') {
-      return 'composio';
-    }
-    
-    // Fallback: Check localStorage (set after Composio finalization)
-    const storedAuthMethod = localStorage.getItem('outpost_auth_method');
-    if (storedAuthMethod === 'composio') {
-      console.log('🔄 Auth method from localStorage: composio (claims not yet propagated)');
-      // Force token refresh to get updated claims
-      await user.getIdToken(true);
-      return 'composio';
-    }
-    
-    return 'direct';
-  } catch (error) {
-    console.error('Failed to get auth method:', error);
-    
-    // Last resort fallback to localStorage
-    const storedAuthMethod = localStorage.getItem('outpost_auth_method');
-    if (storedAuthMethod === 'composio') {
-      return 'composio';
-    }
-    
-    return 'direct';
-  }
-}
-
-// Helper for API calls with automatic endpoint routing
-async function apiCall(endpoint: string, options: RequestInit = {}) {
-  const token = await getAuthToken();
-  const authMethod = await getAuthMethod();
-  
-  // Route: Replace /api/emails and /api/labels with correct prefix based on auth method
-  let routedEndpoint = endpoint;
-  if (authMethod === 'composio') {
-    if (endpoint.startsWith('/api/emails')) {
-      routedEndpoint = endpoint.replace('/api/emails', '/api/composio/emails');
-      console.log(`🔀 Routing to Composio: ${endpoint} → ${routedEndpoint}`);
-    } else if (endpoint.startsWith('/api/labels')) {
-      routedEndpoint = endpoint.replace('/api/labels', '/api/composio/labels');
-      console.log(`🔀 Routing to Composio: ${endpoint} → ${routedEndpoint}`);
-    }
-  }
-  
-  const response = await fetch(`${API_BASE_URL}${routedEndpoint}`, {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
+// ======================================================
+// RESPONSE SCHEMAS
+// Validated at runtime - unknown fields are passed through
+// ======================================================
 
-  return response.json();
-}
+const statusMessageSchema = z.object({
+  status: z.string(),
+  message: z.string(),
+}).passthrough();
+
+const emailActionSchema = statusMessageSchema.extend({
+  email_id: z.string(),
+});
+
+const batchActionSchema = statusMessageSchema.extend({
+  success_count: z.number(),
+  failed_count: z.number(),
+  failed_ids: z.array(z.string()),
+  threads_updated: z.number().optional(),
+});
+
+export type BatchActionResponse = ApiResponse<typeof batchActionSchema>;
+
+const emailDetailSchema = z.object({
+  id: z.string(),
+  thread_id: z.string(),
+  message_id: z.string(),
+  subject: z.string(),
+  sender_name: z.string(),
+  sender_email: z.string(),
+  from: z.string(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()),
+  date: z.string(),
+  snippet: z.string(),
+  body_html: z.string(),
+  body_text: z.string(),
+  is_read: z.boolean(),
+  hasAttachment: z.boolean(),
+  attachments: z.array(z.unknown()),
+}).passthrough();
+
+export type EmailDetailResponse = ApiResponse<typeof emailDetailSchema>;
+
+const rawEmailSchema = z.object({
+  id: z.string(),
+  raw: z.string(), // Full RFC 822 source (headers + MIME body)
+}).passthrough();
+
+export type RawEmailResponse = ApiResponse<typeof rawEmailSchema>;
+
+const sentEmailSchema = statusMessageSchema.extend({
+  email_id: z.string(),
+  thread_id: z.string(),
+});
 
 // ======================================================
 // AUTH METHOD HELPERS (for use in Composio finalization)
@@ -137,16 +127,11 @@ export async function refreshAuthToken(): Promise<void> {
  * - Direct Auth: /api/emails/{emailId}/read
  * - Composio: /api/composio/emails/{emailId}/read
  */
-export async function markEmailAsRead(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  gmail_synced?: boolean;
-  already_read?: boolean;
-}> {
-  return apiCall(`/api/emails/${emailId}/read`, {
-    method: 'POST',
-  });
+export async function markEmailAsRead(emailId: string) {
+  return apiCall(`/api/emails/${emailId}/read`, 'POST', emailActionSchema.extend({
+    gmail_synced: z.boolean().optional(),
+    already_read: z.boolean().optional(),
+  }), { idempotent: true });
 }
 
 /**
@@ -158,16 +143,11 @@ export async function markEmailAsRead(emailId: string): Promise<{
  * - Direct Auth: /api/emails/{emailId}/unread
  * - Composio: /api/composio/emails/{emailId}/unread
  */
-export async function markEmailAsUnread(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  gmail_synced?: boolean;
-  already_unread?: boolean;
-}> {
-  return apiCall(`/api/emails/${emailId}/unread`, {
-    method: 'POST',
-  });
+export async function markEmailAsUnread(emailId: string) {
+  return apiCall(`/api/emails/${emailId}/unread`, 'POST', emailActionSchema.extend({
+    gmail_synced: z.boolean().optional(),
+    already_unread: z.boolean().optional(),
+  }), { idempotent: true });
 }
 
 /**
@@ -179,16 +159,11 @@ export async function markEmailAsUnread(emailId: string): Promise<{
  * - Direct Auth: /api/emails/{emailId}/done
  * - Composio: /api/composio/emails/{emailId}/done
  */
-export async function markEmailAsDone(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  original_category: string;
-  already_done?: boolean;
-}> {
-  return apiCall(`/api/emails/${emailId}/done`, {
-    method: 'POST',
-  });
+export async function markEmailAsDone(emailId: string) {
+  return apiCall(`/api/emails/${emailId}/done`, 'POST', emailActionSchema.extend({
+    original_category: z.string(),
+    already_done: z.boolean().optional(),
+  }), { idempotent: true });
 }
 
 /**
@@ -200,16 +175,11 @@ export async function markEmailAsDone(emailId: string): Promise<{
  * - Direct Auth: /api/emails/{emailId}/undone
  * - Composio: /api/composio/emails/{emailId}/undone
  */
-export async function markEmailAsUndone(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  restored_category: string;
-  already_undone?: boolean;
-}> {
-  return apiCall(`/api/emails/${emailId}/undone`, {
-    method: 'POST',
-  });
+export async function markEmailAsUndone(emailId: string) {
+  return apiCall(`/api/emails/${emailId}/undone`, 'POST', emailActionSchema.extend({
+    restored_category: z.string(),
+    already_undone: z.boolean().optional(),
+  }), { idempotent: true });
 }
 
 /**
@@ -221,17 +191,12 @@ export async function markEmailAsUndone(emailId: string): Promise<{
  * - Direct Auth: /api/emails/{emailId}
  * - Composio: /api/composio/emails/{emailId}
  */
-export async function deleteEmail(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  gmail_trashed?: boolean;
-  already_deleted?: boolean;
-  original_category?: string;
-}> {
-  return apiCall(`/api/emails/${emailId}`, {
-    method: 'DELETE',
-  });
+export async function deleteEmail(emailId: string) {
+  return apiCall(`/api/emails/${emailId}`, 'DELETE', emailActionSchema.extend({
+    gmail_trashed: z.boolean().optional(),
+    already_deleted: z.boolean().optional(),
+    original_category: z.string().optional(),
+  }));
 }
 
 /**
@@ -243,17 +208,12 @@ export async function deleteEmail(emailId: string): Promise<{
  * - Direct Auth: /api/emails/{emailId}/restore
  * - Composio: /api/composio/emails/{emailId}/restore
  */
-export async function restoreEmail(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  gmail_restored?: boolean;
-  restored_category: string;
-  already_restored?: boolean;
-}> {
-  return apiCall(`/api/emails/${emailId}/restore`, {
-    method: 'POST',
-  });
+export async function restoreEmail(emailId: string) {
+  return apiCall(`/api/emails/${emailId}/restore`, 'POST', emailActionSchema.extend({
+    gmail_restored: z.boolean().optional(),
+    restored_category: z.string(),
+    already_restored: z.boolean().optional(),
+  }), { idempotent: true });
 }
 
 /**
@@ -265,27 +225,20 @@ export async function restoreEmail(emailId: string): Promise<{
  * - Direct Auth: /api/emails/{emailId}
  * - Composio: /api/composio/emails/{emailId}
  */
-export async function getEmail(emailId: string): Promise<{
-  id: string;
-  thread_id: string;
-  message_id: string;
-  subject: string;
-  sender_name: string;
-  sender_email: string;
-  from: string;
-  to: string[];
-  cc: string[];
-  date: string;
-  snippet: string;
-  body_html: string;
-  body_text: string;
-  is_read: boolean;
-  hasAttachment: boolean;
-  attachments: unknown[];
-}> {
-  return apiCall(`/api/emails/${emailId}`, {
-    method: 'GET',
-  });
+export async function getEmail(emailId: string, signal?: AbortSignal): Promise<EmailDetailResponse> {
+  return apiCall(`/api/emails/${emailId}`, 'GET', emailDetailSchema, { signal });
+}
+
+/**
+ * Get the original message source (all headers + raw MIME)
+ * - Used by "Show original" (OriginalMessageModal)
+ * 
+ * Automatically routes to:
+ * - Direct Auth: /api/emails/{emailId}/raw
+ * - Composio: /api/composio/emails/{emailId}/raw
+ */
+export async function getEmailRaw(emailId: string, signal?: AbortSignal): Promise<RawEmailResponse> {
+  return apiCall(`/api/emails/${emailId}/raw`, 'GET', rawEmailSchema, { signal });
 }
 
 /**
@@ -296,13 +249,11 @@ export async function getEmail(emailId: string): Promise<{
  * - Direct Auth: /api/emails/contacts
  * - Composio: /api/composio/emails/contacts
  */
-export async function getContacts(): Promise<{
-  emails: string[];
-  count: number;
-}> {
-  return apiCall('/api/emails/contacts', {
-    method: 'GET',
-  });
+export async function getContacts(signal?: AbortSignal) {
+  return apiCall('/api/emails/contacts', 'GET', z.object({
+    emails: z.array(z.string()),
+    count: z.number(),
+  }).passthrough(), { signal });
 }
 
 // ======================================================
@@ -317,17 +268,10 @@ export async function getContacts(): Promise<{
  * - Direct Auth: /api/emails/batch/read
  * - Composio: /api/composio/emails/batch/read
  */
-export async function batchMarkAsRead(emailIds: string[]): Promise<{
-  status: string;
-  message: string;
-  success_count: number;
-  failed_count: number;
-  failed_ids: string[];
-  threads_updated?: number;
-}> {
-  return apiCall('/api/emails/batch/read', {
-    method: 'POST',
-    body: JSON.stringify({ email_ids: emailIds }),
+export async function batchMarkAsRead(emailIds: string[]): Promise<BatchActionResponse> {
+  return apiCall('/api/emails/batch/read', 'POST', batchActionSchema, {
+    body: { email_ids: emailIds },
+    idempotent: true,
   });
 }
 
@@ -338,17 +282,10 @@ export async function batchMarkAsRead(emailIds: string[]): Promise<{
  * - Direct Auth: /api/emails/batch/unread
  * - Composio: /api/composio/emails/batch/unread
  */
-export async function batchMarkAsUnread(emailIds: string[]): Promise<{
-  status: string;
-  message: string;
-  success_count: number;
-  failed_count: number;
-  failed_ids: string[];
-  threads_updated?: number;
-}> {
-  return apiCall('/api/emails/batch/unread', {
-    method: 'POST',
-    body: JSON.stringify({ email_ids: emailIds }),
+export async function batchMarkAsUnread(emailIds: string[]): Promise<BatchActionResponse> {
+  return apiCall('/api/emails/batch/unread', 'POST', batchActionSchema, {
+    body: { email_ids: emailIds },
+    idempotent: true,
   });
 }
 
@@ -359,17 +296,10 @@ export async function batchMarkAsUnread(emailIds: string[]): Promise<{
  * - Direct Auth: /api/emails/batch/done
  * - Composio: /api/composio/emails/batch/done
  */
-export async function batchMarkAsDone(emailIds: string[]): Promise<{
-  status: string;
-  message: string;
-  success_count: number;
-  failed_count: number;
-  failed_ids: string[];
-  threads_updated?: number;
-}> {
-  return apiCall('/api/emails/batch/done', {
-    method: 'POST',
-    body: JSON.stringify({ email_ids: emailIds }),
+export async function batchMarkAsDone(emailIds: string[]): Promise<BatchActionResponse> {
+  return apiCall('/api/emails/batch/done', 'POST', batchActionSchema, {
+    body: { email_ids: emailIds },
+    idempotent: true,
   });
 }
 
@@ -380,17 +310,23 @@ export async function batchMarkAsDone(emailIds: string[]): Promise<{
  * - Direct Auth: /api/emails/batch
  * - Composio: /api/composio/emails/batch
  */
-export async function batchDelete(emailIds: string[]): Promise<{
-  status: string;
-  message: string;
-  success_count: number;
-  failed_count: number;
-  failed_ids: string[];
-  threads_updated?: number;
-}> {
-  return apiCall('/api/emails/batch', {
-    method: 'DELETE',
-    body: JSON.stringify({ email_ids: emailIds }),
+export async function batchDelete(emailIds: string[]): Promise<BatchActionResponse> {
+  return apiCall('/api/emails/batch', 'DELETE', batchActionSchema, {
+    body: { email_ids: emailIds },
+  });
+}
+
+/**
+ * Batch report emails as spam/phishing - moves them to Spam
+ * 
+ * Automatically routes to:
+ * - Direct Auth: /api/emails/batch/spam
+ * - Composio: /api/composio/emails/batch/spam
+ */
+export async function batchReportSpam(emailIds: string[]): Promise<BatchActionResponse> {
+  return apiCall('/api/emails/batch/spam', 'POST', batchActionSchema, {
+    body: { email_ids: emailIds },
+    idempotent: true,
   });
 }
 
@@ -417,16 +353,8 @@ export async function replyToEmail(data: {
   scheduled_at?: string | null;
   tracking_enabled?: boolean;
   attachment_ids?: string[];
-}): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  thread_id: string;
-}> {
-  return apiCall('/api/emails/reply', {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+}) {
+  return apiCall('/api/emails/reply', 'POST', sentEmailSchema, { body: data });
 }
 
 /**
@@ -448,16 +376,8 @@ export async function forwardEmail(data: {
   scheduled_at?: string | null;
   tracking_enabled?: boolean;
   attachment_ids?: string[];
-}): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-  thread_id: string;
-}> {
-  return apiCall('/api/emails/forward', {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+}) {
+  return apiCall('/api/emails/forward', 'POST', sentEmailSchema, { body: data });
 }
 
 // ======================================================
@@ -476,77 +396,111 @@ export interface SendEmailRequest {
   attachment_ids?: string[];
 }
 
-export interface SendEmailResponse {
-  status: string;
-  message: string;
-  email_id: string;
-  scheduled_at?: string;
-  can_undo: boolean;
-  undo_until?: string;
-}
-
-export interface CancelEmailResponse {
-  status: string;
-  message: string;
-  email_id: string;
-  was_sent: boolean;
-}
-
-export interface OutboxEmail {
-  id: string;
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
-  subject: string;
-  snippet: string;
-  status: 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
-  created_at: string;
-  scheduled_at?: string;
-  sent_at?: string;
-  error?: string;
-  tracking_enabled?: boolean;
-}
-
-export interface OutboxResponse {
-  status: string;
-  emails: OutboxEmail[];
-  total: number;
-}
-
-export interface EmailStatus {
-  id: string;
-  status: 'queued' | 'sending' | 'sent' | 'failed' | 'cancelled';
-  created_at: string;
-  scheduled_at?: string;
-  sent_at?: string;
-  error?: string;
-  can_undo: boolean;
-  undo_until?: string;
-}
-
-export interface TrackingStats {
-  email_id: string;
-  tracking_enabled: boolean;
-  opens: number;
-  last_opened?: string;
-  clicks: number;
-  clicked_links?: { url: string; count: number; last_clicked: string }[];
-}
-
-export interface Label {
-  id: string;
-  name: string;
-  display_name: string;
-  color: string;
-  message_count?: number;
-  threads_count?: number;
-}
-
-export interface LabelListResponse {
-  status: string;
-  labels: Label[];
-  total: number;
-}
+const emailQueueStatusSchema = z.enum(['queued', 'sending', 'sent', 'failed', 'cancelled']);
+
+const sendEmailResponseSchema = z.object({
+  status: z.string(),
+  message: z.string(),
+  email_id: z.string(),
+  scheduled_at: z.string().optional(),
+  can_undo: z.boolean(),
+  undo_until: z.string().optional(),
+}).passthrough();
+
+export type SendEmailResponse = ApiResponse<typeof sendEmailResponseSchema>;
+
+const cancelEmailResponseSchema = z.object({
+  status: z.string(),
+  message: z.string(),
+  email_id: z.string(),
+  was_sent: z.boolean(),
+}).passthrough();
+
+export type CancelEmailResponse = ApiResponse<typeof cancelEmailResponseSchema>;
+
+const outboxEmailSchema = z.object({
+  id: z.string(),
+  to: z.array(z.string()),
+  cc: z.array(z.string()).optional(),
+  bcc: z.array(z.string()).optional(),
+  subject: z.string(),
+  snippet: z.string(),
+  status: emailQueueStatusSchema,
+  created_at: z.string(),
+  scheduled_at: z.string().optional(),
+  sent_at: z.string().optional(),
+  error: z.string().optional(),
+  tracking_enabled: z.boolean().optional(),
+}).passthrough();
+
+export type OutboxEmail = ApiResponse<typeof outboxEmailSchema>;
+
+const outboxResponseSchema = z.object({
+  status: z.string(),
+  emails: z.array(outboxEmailSchema),
+  total: z.number(),
+}).passthrough();
+
+export type OutboxResponse = ApiResponse<typeof outboxResponseSchema>;
+
+const emailStatusSchema = z.object({
+  id: z.string(),
+  status: emailQueueStatusSchema,
+  created_at: z.string(),
+  scheduled_at: z.string().optional(),
+  sent_at: z.string().optional(),
+  error: z.string().optional(),
+  can_undo: z.boolean(),
+  undo_until: z.string().optional(),
+}).passthrough();
+
+export type EmailStatus = ApiResponse<typeof emailStatusSchema>;
+
+const trackingStatsSchema = z.object({
+  email_id: z.string(),
+  tracking_enabled: z.boolean(),
+  opens: z.number(),
+  last_opened: z.string().optional(),
+  clicks: z.number(),
+  clicked_links: z.array(z.object({
+    url: z.string(),
+    count: z.number(),
+    last_clicked: z.string(),
+  })).optional(),
+}).passthrough();
+
+export type TrackingStats = ApiResponse<typeof trackingStatsSchema>;
+
+const labelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  display_name: z.string(),
+  color: z.string(),
+  message_count: z.number().optional(),
+  threads_count: z.number().optional(),
+}).passthrough();
+
+export type Label = ApiResponse<typeof labelSchema>;
+
+const labelListResponseSchema = z.object({
+  status: z.string(),
+  labels: z.array(labelSchema),
+  total: z.number(),
+}).passthrough();
+
+export type LabelListResponse = ApiResponse<typeof labelListResponseSchema>;
+
+const labelDetailsSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  display_name: z.string(),
+  gmail_label_id: z.string().optional(),
+  auto_label: z.boolean(),
+  auto_label_emails: z.array(z.string()),
+  color: z.string(),
+}).passthrough();
+
+export type LabelDetails = ApiResponse<typeof labelDetailsSchema>;
 
 // ======================================================
 // EMAIL SEND FUNCTIONS
@@ -564,9 +518,8 @@ export interface LabelListResponse {
  * - Composio: /api/composio/emails/send
  */
 export async function sendEmail(data: SendEmailRequest): Promise<SendEmailResponse> {
-  return apiCall('/api/emails/send', {
-    method: 'POST',
-    body: JSON.stringify({
+  return apiCall('/api/emails/send', 'POST', sendEmailResponseSchema, {
+    body: {
       to: data.to,
       cc: data.cc || [],
       bcc: data.bcc || [],
@@ -576,7 +529,7 @@ export async function sendEmail(data: SendEmailRequest): Promise<SendEmailRespon
       scheduled_at: data.scheduled_at || null,
       tracking_enabled: data.tracking_enabled ?? true,
       attachment_ids: data.attachment_ids || []
-    }),
+    },
   });
 }
 
@@ -589,9 +542,7 @@ export async function sendEmail(data: SendEmailRequest): Promise<SendEmailRespon
  * - Composio: /api/composio/emails/{emailId}/cancel
  */
 export async function cancelEmail(emailId: string): Promise<CancelEmailResponse> {
-  return apiCall(`/api/emails/${emailId}/cancel`, {
-    method: 'DELETE',
-  });
+  return apiCall(`/api/emails/${emailId}/cancel`, 'DELETE', cancelEmailResponseSchema);
 }
 
 /**
@@ -601,14 +552,8 @@ export async function cancelEmail(emailId: string): Promise<CancelEmailResponse>
  * - Direct Auth: /api/emails/{emailId}/retry
  * - Composio: /api/composio/emails/{emailId}/retry
  */
-export async function retryEmail(emailId: string): Promise<{
-  status: string;
-  message: string;
-  email_id: string;
-}> {
-  return apiCall(`/api/emails/${emailId}/retry`, {
-    method: 'POST',
-  });
+export async function retryEmail(emailId: string) {
+  return apiCall(`/api/emails/${emailId}/retry`, 'POST', emailActionSchema);
 }
 
 /**
@@ -618,14 +563,12 @@ export async function retryEmail(emailId: string): Promise<{
  * - Direct Auth: /api/emails/outbox
  * - Composio: /api/composio/emails/outbox
  */
-export async function getOutbox(status?: string, limit: number = 50): Promise<OutboxResponse> {
+export async function getOutbox(status?: string, limit: number = 50, signal?: AbortSignal): Promise<OutboxResponse> {
   const params = new URLSearchParams();
   if (status) params.append('status', status);
   params.append('limit', limit.toString());
   
-  return apiCall(`/api/emails/outbox?${params}`, {
-    method: 'GET',
-  });
+  return apiCall(`/api/emails/outbox?${params}`, 'GET', outboxResponseSchema, { signal });
 }
 
 /**
@@ -635,10 +578,8 @@ export async function getOutbox(status?: string, limit: number = 50): Promise<Ou
  * - Direct Auth: /api/emails/{emailId}/status
  * - Composio: /api/composio/emails/{emailId}/status
  */
-export async function getEmailStatus(emailId: string): Promise<EmailStatus> {
-  return apiCall(`/api/emails/${emailId}/status`, {
-    method: 'GET',
-  });
+export async function getEmailStatus(emailId: string, signal?: AbortSignal): Promise<EmailStatus> {
+  return apiCall(`/api/emails/${emailId}/status`, 'GET', emailStatusSchema, { signal });
 }
 
 /**
@@ -648,10 +589,8 @@ export async function getEmailStatus(emailId: string): Promise<EmailStatus> {
  * - Direct Auth: /api/emails/{emailId}/tracking
  * - Composio: /api/composio/emails/{emailId}/tracking
  */
-export async function getEmailTracking(emailId: string): Promise<TrackingStats> {
-  return apiCall(`/api/emails/${emailId}/tracking`, {
-    method: 'GET',
-  });
+export async function getEmailTracking(emailId: string, signal?: AbortSignal): Promise<TrackingStats> {
+  return apiCall(`/api/emails/${emailId}/tracking`, 'GET', trackingStatsSchema, { signal });
 }
 
 // ======================================================
@@ -666,10 +605,8 @@ export async function getEmailTracking(emailId: string): Promise<TrackingStats>
  * - Direct Auth: /api/labels
  * - Composio: /api/composio/labels
  */
-export async function getLabels(): Promise<LabelListResponse> {
-  return apiCall('/api/labels', {
-    method: 'GET',
-  });
+export async function getLabels(signal?: AbortSignal): Promise<LabelListResponse> {
+  return apiCall('/api/labels', 'GET', labelListResponseSchema, { signal });
 }
 
 /**
@@ -683,19 +620,16 @@ export async function createLabel(data: {
   name: string;
   auto_label?: boolean;
   auto_label_emails?: string[];
-}): Promise<{
-  status: string;
-  label_id: string;
-  label_name: string;
-  gmail_label_name?: string;
-  color: string;
-  auto_label?: boolean;
-  auto_label_emails?: string[];
-}> {
-  return apiCall('/api/labels/create', {
-    method: 'POST',
-    body: JSON.stringify(data),
-  });
+}) {
+  return apiCall('/api/labels/create', 'POST', z.object({
+    status: z.string(),
+    label_id: z.string(),
+    label_name: z.string(),
+    gmail_label_name: z.string().optional(),
+    color: z.string(),
+    auto_label: z.boolean().optional(),
+    auto_label_emails: z.array(z.string()).optional(),
+  }).passthrough(), { body: data });
 }
 
 /**
@@ -709,13 +643,10 @@ export async function applyLabelToThread(data: {
   thread_id: string;
   label_id: string;
   label_name: string;
-}): Promise<{
-  status: string;
-  message: string;
-}> {
-  return apiCall('/api/labels/apply-to-thread', {
-    method: 'POST',
-    body: JSON.stringify(data),
+}) {
+  return apiCall('/api/labels/apply-to-thread', 'POST', statusMessageSchema, {
+    body: data,
+    idempotent: true,
   });
 }
 
@@ -730,13 +661,10 @@ export async function removeLabelFromThread(data: {
   thread_id: string;
   label_id: string;
   label_name: string;
-}): Promise<{
-  status: string;
-  message: string;
-}> {
-  return apiCall('/api/labels/remove-from-thread', {
-    method: 'POST',
-    body: JSON.stringify(data),
+}) {
+  return apiCall('/api/labels/remove-from-thread', 'POST', statusMessageSchema, {
+    body: data,
+    idempotent: true,
   });
 }
 
@@ -751,15 +679,12 @@ export async function updateLabel(labelId: string, data: {
   name?: string;
   auto_label?: boolean;
   auto_label_emails?: string[];
-}): Promise<{
-  status: string;
-  label_id: string;
-  updated: Record<string, unknown>;
-}> {
-  return apiCall(`/api/labels/${labelId}`, {
-    method: 'PUT',
-    body: JSON.stringify(data),
-  });
+}) {
+  return apiCall(`/api/labels/${labelId}`, 'PUT', z.object({
+    status: z.string(),
+    label_id: z.string(),
+    updated: z.record(z.unknown()),
+  }).passthrough(), { body: data });
 }
 
 /**
@@ -769,14 +694,12 @@ export async function updateLabel(labelId: string, data: {
  * - Direct Auth: /api/labels/{labelId}
  * - Composio: /api/composio/labels/{labelId}
  */
-export async function deleteLabel(labelId: string): Promise<{
-  status: string;
-  label_id: string;
-  message: string;
-}> {
-  return apiCall(`/api/labels/${labelId}`, {
-    method: 'DELETE',
-  });
+export async function deleteLabel(labelId: string) {
+  return apiCall(`/api/labels/${labelId}`, 'DELETE', z.object({
+    status: z.string(),
+    label_id: z.string(),
+    message: z.string(),
+  }).passthrough());
 }
 
 /**
@@ -786,18 +709,8 @@ export async function deleteLabel(labelId: string): Promise<{
  * - Direct Auth: /api/labels/{labelId}/details
  * - Composio: /api/composio/labels/{labelId}/details
  */
-export async function getLabelDetails(labelId: string): Promise<{
-  id: string;
-  name: string;
-  display_name: string;
-  gmail_label_id?: string;
-  auto_label: boolean;
-  auto_label_emails: string[];
-  color: string;
-}> {
-  return apiCall(`/api/labels/${labelId}/details`, {
-    method: 'GET',
-  });
+export async function getLabelDetails(labelId: string, signal?: AbortSignal): Promise<LabelDetails> {
+  return apiCall(`/api/labels/${labelId}/details`, 'GET', labelDetailsSchema, { signal });
 }
 
 /**
@@ -808,19 +721,27 @@ export async function getLabelDetails(labelId: string): Promise<{
  * - Direct Auth: /api/labels/by-name/{labelName}
  * - Composio: /api/composio/labels/by-name/{labelName}
  */
-export async function getLabelByName(labelName: string): Promise<{
-  id: string;
-  name: string;
-  display_name: string;
-  gmail_label_id?: string;
-  auto_label: boolean;
-  auto_label_emails: string[];
-  color: string;
-}> {
-  return apiCall(`/api/labels/by-name/${encodeURIComponent(labelName)}`, {
-    method: 'GET',
-  });
-}
+export async function getLabelByName(labelName: string, signal?: AbortSignal): Promise<LabelDetails> {
+  return apiCall(`/api/labels/by-name/${encodeURIComponent(labelName)}`, 'GET', labelDetailsSchema, { signal });
+}
+
+const labelThreadSchema = z.object({
+  thread_id: z.string(),
+  gmail_subject: z.string(),
+  last_email_date: z.string(),
+  last_email_sender: z.string(),
+  last_email_sender_email: z.string(),
+  last_email_snippet: z.string(),
+  email_count: z.number(),
+  is_read: z.boolean(),
+  status: z.string(),
+  category: z.string(),
+  labels: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    color: z.string().optional(),
+  }).passthrough()),
+}).passthrough();
 
 /**
  * Get threads by label name
@@ -830,29 +751,15 @@ export async function getLabelByName(labelName: string): Promise<{
  * - Direct Auth: /api/labels/{labelName}/threads
  * - Composio: /api/composio/labels/{labelName}/threads
  */
-export async function getLabelThreads(labelName: string): Promise<{
-  status: string;
-  threads: Array<{
-    thread_id: string;
-    gmail_subject: string;
-    last_email_date: string;
-    last_email_sender: string;
-    last_email_sender_email: string;
-    last_email_snippet: string;
-    email_count: number;
-    is_read: boolean;
-    status: string;
-    category: string;
-    labels: Array<{ id: string; name: string; color?: string }>;
-  }>;
-  total: number;
-  label_name: string;
-  label_id: string;
-  label_color: string;
-}> {
-  return apiCall(`/api/labels/${encodeURIComponent(labelName)}/threads`, {
-    method: 'GET',
-  });
+export async function getLabelThreads(labelName: string, signal?: AbortSignal) {
+  return apiCall(`/api/labels/${encodeURIComponent(labelName)}/threads`, 'GET', z.object({
+    status: z.string(),
+    threads: z.array(labelThreadSchema),
+    total: z.number(),
+    label_name: z.string(),
+    label_id: z.string(),
+    label_color: z.string(),
+  }).passthrough(), { signal });
 }
 
 /**
@@ -862,30 +769,28 @@ export async function getLabelThreads(labelName: string): Promise<{
  * - Direct Auth: /api/labels/search
  * - Composio: /api/composio/labels/search
  */
-export async function searchEmails(query: string, maxResults: number = 20): Promise<{
-  status: string;
-  emails: Array<{
-    id: string;
-    thread_id: string;
-    subject: string;
-    sender_name: string;
-    sender_email: string;
-    snippet: string;
-    date: string;
-    is_read: boolean;
-    has_attachment: boolean;
-    category: string;
-  }>;
-  total: number;
-  query: string;
-}> {
+export async function searchEmails(query: string, maxResults: number = 20, signal?: AbortSignal) {
   const params = new URLSearchParams();
   params.append('q', query);
   params.append('max_results', maxResults.toString());
   
-  return apiCall(`/api/labels/search?${params}`, {
-    method: 'GET',
-  });
+  return apiCall(`/api/labels/search?${params}`, 'GET', z.object({
+    status: z.string(),
+    emails: z.array(z.object({
+      id: z.string(),
+      thread_id: z.string(),
+      subject: z.string(),
+      sender_name: z.string(),
+      sender_email: z.string(),
+      snippet: z.string(),
+      date: z.string(),
+      is_read: z.boolean(),
+      has_attachment: z.boolean(),
+      category: z.string(),
+    }).passthrough()),
+    total: z.number(),
+    query: z.string(),
+  }).passthrough(), { signal });
 }
 
 // ======================================================
@@ -896,125 +801,72 @@ export async function searchEmails(query: string, maxResults: number = 20): Prom
  * Update thread category (manual override)
  * Uses /api/category/ endpoint to update thread document
  */
-export async function updateThreadCategory(threadId: string, category: string): Promise<{
-  status: string;
-  thread_id: string;
-  original_category: string;
-  new_category: string;
-  category_source: string;
-  updated_at: string;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/category/${threadId}`, {
-    method: 'PATCH',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ category }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function updateThreadCategory(threadId: string, category: string) {
+  return apiCall(`/api/category/${threadId}`, 'PATCH', z.object({
+    status: z.string(),
+    thread_id: z.string(),
+    original_category: z.string(),
+    new_category: z.string(),
+    category_source: z.string(),
+    updated_at: z.string(),
+  }).passthrough(), { body: { category }, idempotent: true });
 }
 
 /**
  * Get thread category info
  */
-export async function getThreadCategory(threadId: string): Promise<{
-  status: string;
-  thread_id: string;
-  category: string;
-  user_category: string | null;
-  user_category_at: string | null;
-  category_source: string;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/category/${threadId}`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function getThreadCategory(threadId: string, signal?: AbortSignal) {
+  return apiCall(`/api/category/${threadId}`, 'GET', z.object({
+    status: z.string(),
+    thread_id: z.string(),
+    category: z.string(),
+    user_category: z.string().nullable(),
+    user_category_at: z.string().nullable(),
+    category_source: z.string(),
+  }).passthrough(), { signal });
 }
 
 // ======================================================
 // TRIAGE RULES API FUNCTIONS (Sender Rules)
 // ======================================================
 
-export interface TriageRule {
-  id: string;
-  sender_email: string;
-  sender_name: string;
-  category: string;
-  created_at: string;
-  updated_at?: string;
-}
+const triageRuleSchema = z.object({
+  id: z.string(),
+  sender_email: z.string(),
+  sender_name: z.string(),
+  category: z.string(),
+  created_at: z.string(),
+  updated_at: z.string().optional(),
+}).passthrough();
+
+export type TriageRule = ApiResponse<typeof triageRuleSchema>;
+
+const senderMatchSchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  match_score: z.number(),
+}).passthrough();
 
 /**
  * Get all triage rules for the user
  */
-export async function getTriageRules(): Promise<{
-  status: string;
-  rules: TriageRule[];
-  count: number;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function getTriageRules(signal?: AbortSignal) {
+  return apiCall('/api/triage-rules', 'GET', z.object({
+    status: z.string(),
+    rules: z.array(triageRuleSchema),
+    count: z.number(),
+  }).passthrough(), { signal });
 }
 
 /**
  * Check if a sender rule exists
  */
-export async function checkSenderRule(senderEmail: string): Promise<{
-  status: string;
-  exists: boolean;
-  rule: TriageRule | null;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules/check/${encodeURIComponent(senderEmail)}`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function checkSenderRule(senderEmail: string, signal?: AbortSignal) {
+  return apiCall(`/api/triage-rules/check/${encodeURIComponent(senderEmail)}`, 'GET', z.object({
+    status: z.string(),
+    exists: z.boolean(),
+    rule: triageRuleSchema.nullable(),
+  }).passthrough(), { signal });
 }
 
 /**
@@ -1024,178 +876,70 @@ export async function createTriageRule(data: {
   sender_email: string;
   sender_name?: string;
   category: string;
-}): Promise<{
-  status: string;
-  message: string;
-  rule: TriageRule;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+}) {
+  return apiCall('/api/triage-rules', 'POST', statusMessageSchema.extend({
+    rule: triageRuleSchema,
+  }), { body: data });
 }
 
 /**
  * Delete a sender triage rule by sender email
  */
-export async function deleteTriageRuleBySender(senderEmail: string): Promise<{
-  status: string;
-  message: string;
-  deleted_rule_id: string;
-  sender_email: string;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules/by-sender/${encodeURIComponent(senderEmail)}`, {
-    method: 'DELETE',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function deleteTriageRuleBySender(senderEmail: string) {
+  return apiCall(`/api/triage-rules/by-sender/${encodeURIComponent(senderEmail)}`, 'DELETE', statusMessageSchema.extend({
+    deleted_rule_id: z.string(),
+    sender_email: z.string(),
+  }));
 }
 
 /**
  * Update a sender triage rule's category by sender email
  */
-export async function updateTriageRuleBySender(senderEmail: string, category: string): Promise<{
-  status: string;
-  message: string;
-  sender_email: string;
-  old_category: string;
-  new_category: string;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules/by-sender/${encodeURIComponent(senderEmail)}`, {
-    method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ category }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function updateTriageRuleBySender(senderEmail: string, category: string) {
+  return apiCall(`/api/triage-rules/by-sender/${encodeURIComponent(senderEmail)}`, 'PUT', statusMessageSchema.extend({
+    sender_email: z.string(),
+    old_category: z.string(),
+    new_category: z.string(),
+  }), { body: { category } });
 }
 
 /**
  * Search past senders for autocomplete
  * Returns matched senders sorted by relevance
  */
-export async function searchSenders(query: string): Promise<{
-  status: string;
-  query: string;
-  matches: Array<{
-    name: string;
-    email: string;
-    match_score: number;
-    has_rule?: boolean;
-    rule_category?: string;
-  }>;
-  count: number;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/senders/search?q=${encodeURIComponent(query)}`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function searchSenders(query: string, signal?: AbortSignal) {
+  return apiCall(`/api/senders/search?q=${encodeURIComponent(query)}`, 'GET', z.object({
+    status: z.string(),
+    query: z.string(),
+    matches: z.array(senderMatchSchema.extend({
+      has_rule: z.boolean().optional(),
+      rule_category: z.string().optional(),
+    })),
+    count: z.number(),
+  }).passthrough(), { signal });
 }
 
 /**
  * Parse natural language input to extract sender and category
  * Uses GPT-4.1 to understand user intent
  */
-export async function parseTriageRule(text: string): Promise<{
-  status: string;
-  extracted_sender: string | null;
-  extracted_category: string | null;
-  is_email: boolean;
-  matches: Array<{
-    name: string;
-    email: string;
-    match_score: number;
-  }>;
-  raw_input: string;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules/parse`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ text }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
+export async function parseTriageRule(text: string, signal?: AbortSignal) {
+  return apiCall('/api/triage-rules/parse', 'POST', z.object({
+    status: z.string(),
+    extracted_sender: z.string().nullable(),
+    extracted_category: z.string().nullable(),
+    is_email: z.boolean(),
+    matches: z.array(senderMatchSchema),
+    raw_input: z.string(),
+  }).passthrough(), { body: { text }, signal });
 }
 
 /**
  * Delete a triage rule by rule ID
  */
-export async function deleteTriageRule(ruleId: string): Promise<{
-  status: string;
-  message: string;
-  deleted_rule_id: string;
-  sender_email: string;
-}> {
-  const token = await getAuthToken();
-  
-  const response = await fetch(`${API_BASE_URL}/api/triage-rules/${ruleId}`, {
-    method: 'DELETE',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
-}
\ No newline at end of file
+export async function deleteTriageRule(ruleId: string) {
+  return apiCall(`/api/triage-rules/${ruleId}`, 'DELETE', statusMessageSchema.extend({
+    deleted_rule_id: z.string(),
+    sender_email: z.string(),
+  }));
+}
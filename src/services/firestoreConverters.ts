@@ -0,0 +1,396 @@
+// services/firestoreConverters.ts - Firestore → canonical domain model (types/inbox.ts)
+// ✅ withConverter() converters for threads, emails, snoozes, drafts, mail merges, signatures and templates
+// ✅ Every document validated with zod; missing fields get defaults
+// ✅ Invalid fields are logged and replaced by defaults (the document is never dropped)
+// ✅ Dates normalized via utils/dateTime: Timestamp / seconds / number / string → one representation
+// ✅ Legacy statuses normalized ('done' → 'fulfilled' / 'resolved')
+
+import { z } from 'zod';
+import {
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  DocumentData,
+  Timestamp,
+} from 'firebase/firestore';
+import type { Thread, EmailMessage, ThreadSnooze } from '@/types/inbox';
+import type { DraftData } from '@/services/draftApi';
+import type { MailMerge } from '@/services/mailMergeApi';
+import type { EmailSignature, SignatureSettings } from '@/services/signatureApi';
+import type { EmailTemplate } from '@/services/templateApi';
+import { extractEmailAddress } from '@/utils/formatters';
+import { toMillis, toDateString } from '@/utils/dateTime';
+
+// ======================================================
+// SCHEMA BUILDING BLOCKS
+// null/undefined → default, wrong types → validation issue
+// ======================================================
+
+const text = (fallback = '') =>
+  z.preprocess((v) => (v === null || v === undefined ? fallback : v), z.string());
+
+const optionalText = () =>
+  z.preprocess((v) => (v === null ? undefined : v), z.string().optional());
+
+const nullableText = () =>
+  z.preprocess((v) => (v === undefined || v === '' ? null : v), z.string().nullable());
+
+const flag = (fallback: boolean) =>
+  z.preprocess((v) => (v === null || v === undefined ? fallback : v), z.boolean());
+
+const stringList = () =>
+  z.preprocess((v) => {
+    if (v === null || v === undefined) return [];
+    return typeof v === 'string' ? [v] : v;
+  }, z.array(z.string()));
+
+const dateString = () => z.preprocess(toDateString, z.string());
+
+const nullableDateString = () =>
+  z.preprocess((v) => (v === null || v === undefined || v === '' ? null : toDateString(v)), z.string().nullable());
+
+const millis = () => z.preprocess(toMillis, z.number());
+
+// Kept as a Timestamp; pending serverTimestamp() writes read as null → undefined
+const timestamp = () =>
+  z.preprocess((v) => v ?? undefined, z.union([z.instanceof(Timestamp), z.date()]).optional());
+
+// ======================================================
+// SCHEMAS
+// ======================================================
+
+const commitmentSchema = z.object({
+  id: text(),
+  type: z.enum(['PROMISE', 'AWAITING']),
+  who_owes: text(),
+  owed_to: text(),
+  what: text(),
+  deadline: nullableDateString(),
+  deadline_text: nullableText(),
+  status: z.preprocess(
+    (v) => (v === 'done' ? 'fulfilled' : v ?? 'pending'),
+    z.enum(['pending', 'fulfilled', 'cancelled'])
+  ),
+  confidence: z.preprocess((v) => v ?? 0, z.number()),
+  trigger: text(),
+  detected_from_email: text(),
+  created_at: dateString(),
+});
+
+// One malformed commitment shouldn't wipe the others
+const commitmentList = z
+  .preprocess((v) => (Array.isArray(v) ? v : []), z.array(z.unknown()))
+  .transform((items) => items.flatMap((item) => {
+    const result = commitmentSchema.safeParse(item);
+    if (result.success) return [result.data];
+    console.warn('⚠️ Skipping invalid commitment:', result.error.issues);
+    return [];
+  }));
+
+const labelSchema = z.object({
+  id: z.string(),
+  name: text(),
+  color: text(),
+});
+
+const threadSchema: z.ZodTypeAny = z.object({
+  gmail_subject: text('(No Subject)'),
+  ai_context_summary: text(),
+  ai_topic: text(),
+  ui_summary_promise: text(),
+  ui_summary_awaiting: text(),
+  has_promise: flag(false),
+  has_awaiting: flag(false),
+  commitments: commitmentList,
+  email_ids: stringList(),
+  participants: stringList(),
+  status: z.preprocess(
+    (v) => (v === 'done' ? 'resolved' : v ?? 'active'),
+    z.enum(['active', 'resolved'])
+  ),
+  last_email_date: dateString(),
+  created_at: dateString(),
+  updated_at: dateString(),
+  last_email_sender: text(),
+  last_email_sender_email: text(),
+  last_email_snippet: text(),
+  // Threads without the flag were synced before read tracking existed
+  is_read: flag(true),
+  category: z.string().optional(),
+  user_category: z.string().optional(),
+  email_count: z.number().optional(),
+  labels: z.preprocess((v) => v ?? [], z.array(labelSchema)),
+});
+
+const snoozeSchema: z.ZodTypeAny = z.object({
+  snoozed_until: nullableDateString(),
+  until_reply: flag(false),
+  category: text('OTHERS'),
+  status: z.preprocess((v) => v ?? 'snoozed', z.enum(['snoozed', 'returned'])),
+  snoozed_at: dateString(),
+  returned_at: nullableDateString(),
+  thread: z.preprocess((v) => v ?? {}, z.record(z.unknown())),
+});
+
+const attachmentSchema = z.object({
+  id: text(),
+  filename: text('attachment'),
+  content_type: text('application/octet-stream'),
+  size: z.preprocess((v) => v ?? 0, z.number()),
+  storage_path: z.string().optional(),
+  url: z.string().optional(),
+});
+
+const emailSchema: z.ZodTypeAny = z.object({
+  thread_id: text(),
+  message_id: nullableText(),
+  subject: text('(No Subject)'),
+  from: text(),
+  from_name: text(),
+  from_email: text(),
+  to: stringList(),
+  to_names: stringList(),
+  cc: stringList(),
+  bcc: stringList(),
+  reply_to: nullableText(),
+  snippet: text(),
+  body_html: text(),
+  body_plain: text(),
+  internal_date: millis(),
+  // Missing = read, same as threads
+  is_read: flag(true),
+  is_sent: flag(false),
+  has_attachment: flag(false),
+  attachments: z.preprocess((v) => v ?? [], z.array(attachmentSchema)),
+  gmail_labels: stringList(),
+  category: text(),
+  user_category: z.string().optional(),
+  user_category_at: z.string().optional(),
+  category_source: z.string().optional(),
+  user_marked_done: flag(false),
+  deleted: flag(false),
+  deleted_at: z.preprocess((v) => (v === null || v === undefined ? null : toMillis(v)), z.number().nullable()),
+  outpost_user_photo: nullableText(),
+  outpost_recipient_photo: nullableText(),
+  unsubscribe_url: nullableText(),
+  authentication_results: nullableText(),
+});
+
+const draftAttachmentSchema = z.object({
+  id: text(),
+  name: text('attachment'),
+  size: z.preprocess((v) => v ?? 0, z.number()),
+  type: text('application/octet-stream'),
+});
+
+const originalEmailSnapshotSchema = z.object({
+  sender: text(),
+  senderEmail: text(),
+  date: text(),
+  time: text(),
+  body: text(),
+  subject: text(),
+  to: z.preprocess((v) => (v === null ? undefined : v), z.array(z.string()).optional()),
+  message_id: optionalText(),
+});
+
+const draftSchema: z.ZodTypeAny = z.object({
+  to: stringList(),
+  cc: stringList(),
+  bcc: stringList(),
+  subject: text(),
+  body_html: text(),
+  body_plain: text(),
+  attachments: z.preprocess((v) => v ?? [], z.array(draftAttachmentSchema)),
+  draft_type: z.preprocess((v) => v ?? 'compose', z.enum(['compose', 'reply', 'forward'])),
+  reply_mode: z.preprocess((v) => (v === null ? undefined : v), z.enum(['reply', 'replyAll']).optional()),
+  thread_id: optionalText(),
+  message_id: optionalText(),
+  original_email: z.preprocess((v) => (v === null ? undefined : v), originalEmailSnapshotSchema.optional()),
+  version: z.preprocess((v) => (v === null ? undefined : v), z.number().optional()),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+const mailMergeRecipientSchema = z.object({
+  email: text(),
+  subject: text(),
+  status: z.preprocess((v) => v ?? 'queued', z.enum(['queued', 'sent', 'failed', 'cancelled'])),
+  email_id: z.string().optional(),
+  error: z.string().optional(),
+});
+
+const mailMergeSchema: z.ZodTypeAny = z.object({
+  subject: text(),
+  file_name: text(),
+  recipients: z.preprocess((v) => v ?? [], z.array(mailMergeRecipientSchema)),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+const signatureSchema: z.ZodTypeAny = z.object({
+  name: text(),
+  html: text(),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+const signatureDefaultsSchema = z.object({
+  new: nullableText(),
+  reply: nullableText(),
+});
+
+const signatureSettingsSchema: z.ZodTypeAny = z.object({
+  defaults: z.preprocess((v) => v ?? {}, z.record(signatureDefaultsSchema)),
+  placement: z.preprocess((v) => (v === 'below' ? 'below' : 'above'), z.enum(['above', 'below'])),
+});
+
+const templateSchema: z.ZodTypeAny = z.object({
+  name: text(),
+  shortcut: text(),
+  html: text(),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+});
+
+// ======================================================
+// PARSING
+// ======================================================
+
+/**
+ * Validate a raw document. Fields that fail validation are logged and
+ * replaced by their defaults, so one bad field never hides a thread/email.
+ */
+function parseDocument<T>(schema: z.ZodTypeAny, raw: DocumentData, kind: string, id: string): T {
+  const result = schema.safeParse(raw);
+  if (result.success) return result.data as T;
+
+  const invalidFields = Array.from(new Set(result.error.issues.map((issue) => String(issue.path[0]))));
+  console.warn(`⚠️ Invalid ${kind} ${id} - using defaults for: ${invalidFields.join(', ')}`, result.error.issues);
+
+  const cleaned = { ...raw };
+  invalidFields.forEach((field) => delete cleaned[field]);
+  return schema.parse(cleaned) as T;
+}
+
+// Older email docs use different field names for the same data
+function normalizeEmailAliases(raw: DocumentData): DocumentData {
+  const from = typeof raw.from === 'string' ? raw.from : '';
+  return {
+    ...raw,
+    internal_date: raw.internal_date ?? raw.internalDate ?? raw.date ?? raw.received_at,
+    from_name: raw.from_name || raw.sender_name || '',
+    from_email: raw.from_email || extractEmailAddress(from),
+    body_html: raw.body_html || raw.body || '',
+    has_attachment: raw.hasAttachment === true || raw.has_attachment === true,
+  };
+}
+
+// ======================================================
+// CONVERTERS
+// ======================================================
+
+/**
+ * users/{uid}/threads → Thread
+ * Usage: collection(db, 'users', uid, 'threads').withConverter(threadConverter)
+ */
+export const threadConverter: FirestoreDataConverter<Thread> = {
+  toFirestore: (thread) => thread as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): Thread => {
+    const thread = parseDocument<Thread>(threadSchema, snapshot.data(), 'thread', snapshot.id);
+    return {
+      ...thread,
+      thread_id: snapshot.id,
+      email_count: thread.email_count || thread.email_ids.length || 1,
+    };
+  },
+};
+
+/**
+ * users/{uid}/emails → EmailMessage
+ * Usage: collection(db, 'users', uid, 'emails').withConverter(emailConverter)
+ */
+export const emailConverter: FirestoreDataConverter<EmailMessage> = {
+  toFirestore: (email) => email as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): EmailMessage => {
+    const raw = normalizeEmailAliases(snapshot.data());
+    const email = parseDocument<EmailMessage>(emailSchema, raw, 'email', snapshot.id);
+    return { ...email, id: snapshot.id };
+  },
+};
+
+/**
+ * users/{uid}/snoozes → ThreadSnooze (thread snapshot validated like a thread doc)
+ * Usage: collection(db, 'users', uid, 'snoozes').withConverter(snoozeConverter)
+ */
+export const snoozeConverter: FirestoreDataConverter<ThreadSnooze> = {
+  toFirestore: (snooze) => snooze as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): ThreadSnooze => {
+    const snooze = parseDocument<Omit<ThreadSnooze, 'thread'> & { thread: DocumentData }>(
+      snoozeSchema, snapshot.data(), 'snooze', snapshot.id
+    );
+    const thread = parseDocument<Thread>(threadSchema, snooze.thread, 'snoozed thread', snapshot.id);
+    return {
+      ...snooze,
+      thread_id: snapshot.id,
+      thread: { ...thread, thread_id: snapshot.id },
+    };
+  },
+};
+
+/**
+ * users/{uid}/drafts → DraftData
+ * Usage: collection(db, 'users', uid, 'drafts').withConverter(draftConverter)
+ */
+export const draftConverter: FirestoreDataConverter<DraftData> = {
+  toFirestore: (draft) => draft as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): DraftData => {
+    const draft = parseDocument<DraftData>(draftSchema, snapshot.data(), 'draft', snapshot.id);
+    return { ...draft, id: snapshot.id };
+  },
+};
+
+/**
+ * users/{uid}/mail_merges → MailMerge
+ * Usage: collection(db, 'users', uid, 'mail_merges').withConverter(mailMergeConverter)
+ */
+export const mailMergeConverter: FirestoreDataConverter<MailMerge> = {
+  toFirestore: (merge) => merge as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): MailMerge => {
+    const merge = parseDocument<Omit<MailMerge, 'id'>>(mailMergeSchema, snapshot.data(), 'mail merge', snapshot.id);
+    return { ...merge, id: snapshot.id };
+  },
+};
+
+/**
+ * users/{uid}/signatures → EmailSignature
+ * Usage: collection(db, 'users', uid, 'signatures').withConverter(signatureConverter)
+ */
+export const signatureConverter: FirestoreDataConverter<EmailSignature> = {
+  toFirestore: (signature) => signature as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): EmailSignature => {
+    const signature = parseDocument<Omit<EmailSignature, 'id'>>(signatureSchema, snapshot.data(), 'signature', snapshot.id);
+    return { ...signature, id: snapshot.id };
+  },
+};
+
+/**
+ * users/{uid}/preferences/signatures → SignatureSettings
+ * Usage: collection(db, 'users', uid, 'preferences').withConverter(signatureSettingsConverter)
+ */
+export const signatureSettingsConverter: FirestoreDataConverter<SignatureSettings> = {
+  toFirestore: (settings) => settings as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): SignatureSettings =>
+    parseDocument<SignatureSettings>(signatureSettingsSchema, snapshot.data(), 'signature settings', snapshot.id),
+};
+
+/**
+ * users/{uid}/templates → EmailTemplate
+ * Usage: collection(db, 'users', uid, 'templates').withConverter(templateConverter)
+ */
+export const templateConverter: FirestoreDataConverter<EmailTemplate> = {
+  toFirestore: (template) => template as DocumentData,
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): EmailTemplate => {
+    const template = parseDocument<Omit<EmailTemplate, 'id'>>(templateSchema, snapshot.data(), 'template', snapshot.id);
+    return { ...template, id: snapshot.id };
+  },
+};
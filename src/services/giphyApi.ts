@@ -0,0 +1,56 @@
+// services/giphyApi.ts
+// GIF search through the backend Giphy proxy (/api/giphy/*)
+// Requests go through apiClient.ts (ApiError, schema validation, AbortSignal)
+
+import { z } from 'zod';
+import { apiRequest, ApiResponse } from './apiClient';
+
+// ======================================================
+// RESPONSE SCHEMAS
+// ======================================================
+
+const gifRenditionSchema = z.object({
+  url: z.string(),
+  width: z.string(),
+  height: z.string(),
+  webp: z.string().optional(),
+}).passthrough();
+
+const gifSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string(),
+  preview: gifRenditionSchema,
+  full: gifRenditionSchema,
+  original: gifRenditionSchema,
+}).passthrough();
+
+const gifListSchema = z.object({
+  data: z.array(gifSchema).nullish().transform((gifs) => gifs || []),
+}).passthrough();
+
+export type GifData = ApiResponse<typeof gifSchema>;
+
+// ======================================================
+// API: Trending
+// ======================================================
+export async function getTrendingGifs(limit: number = 20, signal?: AbortSignal): Promise<GifData[]> {
+  const response = await apiRequest(`/api/giphy/trending?limit=${limit}`, {
+    schema: gifListSchema,
+    authenticated: false,
+    signal
+  });
+  return response.data;
+}
+
+// ======================================================
+// API: Search
+// ======================================================
+export async function searchGifs(query: string, limit: number = 20, signal?: AbortSignal): Promise<GifData[]> {
+  const response = await apiRequest(`/api/giphy/search?q=${encodeURIComponent(query)}&limit=${limit}`, {
+    schema: gifListSchema,
+    authenticated: false,
+    signal
+  });
+  return response.data;
+}
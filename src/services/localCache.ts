@@ -0,0 +1,179 @@
+// services/localCache.ts - Persistent per-user cache for instant cold start
+// ✅ Last-known thread lists, labels, contacts and backend user data in IndexedDB
+// ✅ Hydrated into memory at sign-in, so the first render can read it synchronously
+// ✅ Live data always wins - the cache is only shown until it arrives
+// ✅ Scoped per uid and wiped on logOut
+
+// ======================================================
+// TYPES
+// ======================================================
+
+interface CacheEntry {
+  // `${uid}/${name}`
+  key: string;
+  uid: string;
+  name: string;
+  value: unknown;
+  savedAt: number;
+  version: number;
+}
+
+const DB_NAME = 'outpost-cache';
+const STORE_NAME = 'entries';
+
+// Bump when cached shapes change - older entries are ignored
+const CACHE_VERSION = 1;
+
+// Never hold up sign-in for a slow/broken IndexedDB
+const HYDRATE_TIMEOUT_MS = 500;
+
+// Snapshots arrive often - batch writes to IndexedDB
+const WRITE_DELAY_MS = 1000;
+
+// ======================================================
+// INDEXEDDB STORAGE
+// ======================================================
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('❌ Failed to open local cache:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// All keys belonging to one user
+function userRange(uid: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${uid}/`, `${uid}/\uffff`);
+}
+
+const cacheKey = (uid: string, name: string) => `${uid}/${name}`;
+
+// ======================================================
+// IN-MEMORY MIRROR
+// ======================================================
+
+const memory = new Map<string, unknown>();
+const hydrations = new Map<string, Promise<void>>();
+const pendingWrites = new Map<string, CacheEntry>();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Load a user's cache from IndexedDB into memory.
+ * Resolves after loading, or after HYDRATE_TIMEOUT_MS - whichever comes first.
+ * Safe to call many times.
+ */
+export function hydrateLocalCache(uid: string): Promise<void> {
+  let hydration = hydrations.get(uid);
+
+  if (!hydration) {
+    hydration = runTransaction<CacheEntry[]>('readonly', (store) => store.getAll(userRange(uid)))
+      .then((stored) => {
+        (stored || []).forEach((entry) => {
+          if (entry.version !== CACHE_VERSION) return;
+          // Don't overwrite anything written since sign-in
+          if (!memory.has(entry.key)) memory.set(entry.key, entry.value);
+        });
+        console.log(`💾 Local cache hydrated (${stored?.length ?? 0} entries)`);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to read local cache:', error);
+      });
+    hydrations.set(uid, hydration);
+  }
+
+  return Promise.race([
+    hydration,
+    new Promise<void>((resolve) => setTimeout(resolve, HYDRATE_TIMEOUT_MS)),
+  ]);
+}
+
+/**
+ * Last-known value for `name`, or undefined.
+ * Synchronous - only sees what hydrateLocalCache has loaded.
+ */
+export function readLocalCache<T>(uid: string, name: string): T | undefined {
+  return memory.get(cacheKey(uid, name)) as T | undefined;
+}
+
+/**
+ * Store the latest value for `name` (memory now, IndexedDB shortly after).
+ */
+export function writeLocalCache<T>(uid: string, name: string, value: T): void {
+  const key = cacheKey(uid, name);
+  memory.set(key, value);
+  pendingWrites.set(key, { key, uid, name, value, savedAt: Date.now(), version: CACHE_VERSION });
+
+  if (!writeTimer) {
+    writeTimer = setTimeout(flushWrites, WRITE_DELAY_MS);
+  }
+}
+
+async function flushWrites(): Promise<void> {
+  writeTimer = null;
+  const entries = Array.from(pendingWrites.values());
+  pendingWrites.clear();
+
+  for (const entry of entries) {
+    try {
+      await runTransaction('readwrite', (store) => store.put(entry));
+    } catch (error) {
+      // Usually a value that can't be structured-cloned - skip it
+      console.error(`❌ Failed to persist cache entry ${entry.name}:`, error);
+    }
+  }
+}
+
+/**
+ * Wipe everything cached for a user (memory + IndexedDB).
+ * Called from logOut so the next account never sees this one's data.
+ */
+export async function clearLocalCache(uid: string): Promise<void> {
+  const prefix = `${uid}/`;
+
+  Array.from(memory.keys()).forEach((key) => {
+    if (key.startsWith(prefix)) memory.delete(key);
+  });
+  Array.from(pendingWrites.keys()).forEach((key) => {
+    if (key.startsWith(prefix)) pendingWrites.delete(key);
+  });
+  hydrations.delete(uid);
+
+  try {
+    await runTransaction('readwrite', (store) => store.delete(userRange(uid)));
+    console.log('🧹 Local cache cleared');
+  } catch (error) {
+    console.error('❌ Failed to clear local cache:', error);
+  }
+}
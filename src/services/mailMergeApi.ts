@@ -0,0 +1,88 @@
+// services/mailMergeApi.ts - Mail merge records (Firestore only)
+// One doc per merge in users/{uid}/mail_merges/{id}, with every recipient's send status
+// and the email_id of their message. services/mailMergeQueue.ts keeps it current while
+// sending; TrackingPanel rolls the recipients' tracking up from it.
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  query,
+  orderBy,
+  limit,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, auth } from '@/firebase.config';
+import { mailMergeConverter } from '@/services/firestoreConverters';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
+
+export type MailMergeRecipientStatus = 'queued' | 'sent' | 'failed' | 'cancelled';
+
+export interface MailMergeRecipient {
+  email: string;
+  subject: string;      // As sent to this recipient (placeholders filled)
+  status: MailMergeRecipientStatus;
+  email_id?: string;    // From sendEmail - used for tracking
+  error?: string;
+}
+
+export interface MailMerge {
+  id: string;
+  subject: string;      // With placeholders
+  file_name: string;
+  recipients: MailMergeRecipient[];
+  created_at?: Timestamp | Date;
+  updated_at?: Timestamp | Date;
+}
+
+// Recent merges kept live for the Sent page
+const RECENT_LIMIT = 20;
+
+function mailMergesCollection() {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated');
+  return collection(db, 'users', user.uid, 'mail_merges');
+}
+
+/**
+ * Record a merge before its first message goes out
+ * @returns Mail merge ID
+ */
+export async function createMailMerge(
+  merge: Pick<MailMerge, 'subject' | 'file_name' | 'recipients'>
+): Promise<string> {
+  const mergeRef = await addDoc(mailMergesCollection(), {
+    ...merge,
+    created_at: serverTimestamp(),
+    updated_at: serverTimestamp(),
+  });
+  console.log(`📨 Mail merge created: ${mergeRef.id} (${merge.recipients.length} recipients)`);
+  return mergeRef.id;
+}
+
+export async function updateMailMergeRecipients(id: string, recipients: MailMergeRecipient[]): Promise<void> {
+  await updateDoc(doc(mailMergesCollection(), id), {
+    recipients,
+    updated_at: serverTimestamp(),
+  });
+}
+
+/**
+ * Live list of recent merges, newest first
+ * @returns Unsubscribe function
+ */
+export function subscribeToMailMerges(
+  userId: string,
+  onChange: (merges: MailMerge[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  const mergesCollection = collection(db, 'users', userId, 'mail_merges').withConverter(mailMergeConverter);
+  return subscribeToQuery(
+    'mail_merges',
+    query(mergesCollection, orderBy('created_at', 'desc'), limit(RECENT_LIMIT)),
+    (snapshot) => onChange(snapshot.docs.map((mergeDoc) => mergeDoc.data())),
+    onError
+  );
+}
@@ -0,0 +1,246 @@
+// services/mailMergeQueue.ts - Throttled sending for mail merges
+// ✅ One sendEmail per recipient (tracking on), spaced out so Gmail doesn't rate limit us
+// ✅ Per-recipient status written back to the merge record (services/mailMergeApi.ts)
+// ✅ Progress exposed for the floating indicator; cancel stops before the next message
+// ✅ Leaving the page while a merge is sending asks for confirmation
+// ✅ Recipients left 'queued' by an interrupted merge (tab closed) are marked failed
+
+import { sendEmail } from './emailApi';
+import { isApiError } from './apiClient';
+import {
+  createMailMerge,
+  updateMailMergeRecipients,
+  type MailMerge,
+  type MailMergeRecipient,
+} from './mailMergeApi';
+import { toMillis } from '@/utils/dateTime';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export interface MailMergeMessage {
+  to: string;
+  subject: string;
+  body_html: string;
+  body_text: string;
+}
+
+export type MailMergeJobStatus = 'sending' | 'done' | 'cancelled';
+
+export interface MailMergeJob {
+  id: string;           // Mail merge record ID
+  subject: string;      // With placeholders
+  total: number;
+  sent: number;
+  failed: number;
+  status: MailMergeJobStatus;
+}
+
+// Gap between two messages of a merge
+const SEND_INTERVAL_MS = 2500;
+
+// Extra wait when the backend still says 429 after its own retries
+const RATE_LIMIT_BACKOFF_MS = 30000;
+
+// A sending merge saves its record after every message - one quiet for this long was interrupted
+const INTERRUPTED_AFTER_MS = 10 * 60 * 1000;
+
+// Saved on recipients an interrupted merge never got to
+const INTERRUPTED_ERROR = 'Not sent - the merge was interrupted';
+
+// ======================================================
+// STORE
+// ======================================================
+
+let jobs: readonly MailMergeJob[] = [];
+const cancelled = new Set<string>();
+const listeners = new Set<() => void>();
+
+function updateJob(id: string, changes: Partial<MailMergeJob>): void {
+  jobs = jobs.map((job) => (job.id === id ? { ...job, ...changes } : job));
+  listeners.forEach((listener) => listener());
+}
+
+export function getMailMergeJobs(): readonly MailMergeJob[] {
+  return jobs;
+}
+
+export function subscribeToMailMergeJobs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ======================================================
+// SENDING
+// ======================================================
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function handleBeforeUnload(e: BeforeUnloadEvent) {
+  e.preventDefault();
+  e.returnValue = '';
+}
+
+function syncUnloadGuard(): void {
+  window.removeEventListener('beforeunload', handleBeforeUnload);
+  if (jobs.some((job) => job.status === 'sending')) {
+    window.addEventListener('beforeunload', handleBeforeUnload);
+  }
+}
+
+async function send(message: MailMergeMessage, attachmentIds: string[]): Promise<string> {
+  const request = {
+    to: [message.to],
+    subject: message.subject,
+    body_html: message.body_html,
+    body_text: message.body_text,
+    tracking_enabled: true,
+    attachment_ids: attachmentIds,
+  };
+
+  try {
+    return (await sendEmail(request)).email_id;
+  } catch (error) {
+    if (!isApiError(error) || error.status !== 429) throw error;
+    console.warn(`⏳ Mail merge rate limited, pausing ${RATE_LIMIT_BACKOFF_MS / 1000}s`);
+    await wait(RATE_LIMIT_BACKOFF_MS);
+    return (await sendEmail(request)).email_id;
+  }
+}
+
+async function run(id: string, messages: MailMergeMessage[], attachmentIds: string[]): Promise<void> {
+  const recipients: MailMergeRecipient[] = messages.map((message) => ({
+    email: message.to,
+    subject: message.subject,
+    status: 'queued',
+  }));
+  let sent = 0;
+  let failed = 0;
+  let stopped = false;
+
+  for (let index = 0; index < messages.length; index++) {
+    if (index > 0) await wait(SEND_INTERVAL_MS);
+    if (cancelled.has(id)) {
+      for (let rest = index; rest < recipients.length; rest++) {
+        recipients[rest] = { ...recipients[rest], status: 'cancelled' };
+      }
+      stopped = true;
+      break;
+    }
+
+    try {
+      const emailId = await send(messages[index], attachmentIds);
+      recipients[index] = { ...recipients[index], status: 'sent', email_id: emailId };
+      sent++;
+    } catch (error) {
+      console.error(`❌ Mail merge send failed for ${messages[index].to}:`, error);
+      recipients[index] = {
+        ...recipients[index],
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+      failed++;
+    }
+    updateJob(id, { sent, failed });
+
+    // Progress is also in the record - a failed write only costs the rollup detail
+    updateMailMergeRecipients(id, recipients).catch((error) => {
+      console.error('❌ Failed to save mail merge progress:', error);
+    });
+  }
+
+  const status: MailMergeJobStatus = stopped ? 'cancelled' : 'done';
+  cancelled.delete(id);
+  if (stopped) {
+    await updateMailMergeRecipients(id, recipients).catch((error) => {
+      console.error('❌ Failed to save mail merge progress:', error);
+    });
+  }
+
+  updateJob(id, { status });
+  syncUnloadGuard();
+  console.log(`📨 Mail merge ${status}: ${sent} sent, ${failed} failed of ${messages.length}`);
+}
+
+/**
+ * Record a merge and start sending it in the background
+ * Messages are already personalised - one per recipient.
+ * @returns Mail merge ID
+ */
+export async function queueMailMerge({
+  subject,
+  fileName,
+  messages,
+  attachmentIds = [],
+}: {
+  subject: string;
+  fileName: string;
+  messages: MailMergeMessage[];
+  attachmentIds?: string[];
+}): Promise<string> {
+  const id = await createMailMerge({
+    subject,
+    file_name: fileName,
+    recipients: messages.map((message) => ({ email: message.to, subject: message.subject, status: 'queued' })),
+  });
+
+  jobs = [...jobs, { id, subject, total: messages.length, sent: 0, failed: 0, status: 'sending' }];
+  listeners.forEach((listener) => listener());
+  syncUnloadGuard();
+
+  run(id, messages, attachmentIds);
+  return id;
+}
+
+// ======================================================
+// INTERRUPTED MERGES
+// ======================================================
+
+const recovering = new Set<string>();
+
+/**
+ * Mark recipients still 'queued' as failed when no tab is sending their merge anymore
+ * (closed mid-merge). Called with every mail merge snapshot (hooks/useMailMerges.ts).
+ */
+export function failInterruptedMailMerges(merges: MailMerge[]): void {
+  const now = Date.now();
+
+  merges.forEach((merge) => {
+    if (recovering.has(merge.id)) return;
+    if (jobs.some((job) => job.id === merge.id && job.status === 'sending')) return;
+    if (!merge.recipients.some((recipient) => recipient.status === 'queued')) return;
+
+    // Not yet written by the server, or another tab may still be sending it
+    const lastUpdate = toMillis(merge.updated_at);
+    if (!lastUpdate || now - lastUpdate < INTERRUPTED_AFTER_MS) return;
+
+    console.warn(`⚠️ Mail merge ${merge.id} was interrupted - marking unsent recipients as failed`);
+    recovering.add(merge.id);
+    const recipients = merge.recipients.map((recipient): MailMergeRecipient => (
+      recipient.status === 'queued' ? { ...recipient, status: 'failed', error: INTERRUPTED_ERROR } : recipient
+    ));
+    updateMailMergeRecipients(merge.id, recipients)
+      .catch((error) => console.error('❌ Failed to save interrupted mail merge:', error))
+      .finally(() => recovering.delete(merge.id));
+  });
+}
+
+/**
+ * Stop a merge before its next message. Messages already sent stay sent.
+ */
+export function cancelMailMerge(id: string): void {
+  if (!jobs.some((job) => job.id === id && job.status === 'sending')) return;
+  console.log('🛑 Cancelling mail merge:', id);
+  cancelled.add(id);
+}
+
+/**
+ * Remove a finished merge from the progress indicator
+ */
+export function dismissMailMergeJob(id: string): void {
+  jobs = jobs.filter((job) => job.id !== id || job.status === 'sending');
+  listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,370 @@
+// services/offlineQueue.ts - Offline outbox for email mutations
+// ✅ Read/unread/done/delete/spam/label mutations persisted to IndexedDB
+// ✅ Replayed in order when connectivity returns
+// ✅ Opposite mutations coalesce (read then unread cancels out)
+// ✅ Pending count exposed for the "N changes pending sync" indicator
+
+import { auth } from '../firebase.config';
+import { isApiError } from './apiClient';
+import {
+  batchMarkAsRead,
+  batchMarkAsUnread,
+  batchMarkAsDone,
+  batchDelete,
+  batchReportSpam,
+  applyLabelToThread,
+  removeLabelFromThread,
+} from './emailApi';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export type EmailMutationType = 'read' | 'unread' | 'done' | 'delete' | 'spam';
+export type LabelMutationType = 'applyLabel' | 'removeLabel';
+
+export type QueuedMutation =
+  | { type: EmailMutationType; emailIds: string[] }
+  | { type: LabelMutationType; threadId: string; labelId: string; labelName: string };
+
+// 'sent' = reached the backend, 'queued' = stored for replay
+export type MutationResult = 'sent' | 'queued';
+
+interface OutboxEntry {
+  id?: number;
+  uid: string;
+  mutation: QueuedMutation;
+  createdAt: number;
+}
+
+const OPPOSITES: Partial<Record<QueuedMutation['type'], QueuedMutation['type']>> = {
+  read: 'unread',
+  unread: 'read',
+  applyLabel: 'removeLabel',
+  removeLabel: 'applyLabel',
+};
+
+// ======================================================
+// INDEXEDDB STORAGE
+// Falls back to memory only if IndexedDB is unavailable
+// ======================================================
+
+const DB_NAME = 'outpost-offline';
+const STORE_NAME = 'outbox';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('❌ Failed to open offline outbox:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ======================================================
+// IN-MEMORY MIRROR + SUBSCRIBERS
+// ======================================================
+
+let entries: OutboxEntry[] = [];
+// The entry flushOutbox is sending right now - it may already have reached the backend
+let inFlight: OutboxEntry | null = null;
+let loadPromise: Promise<void> | null = null;
+let memoryId = 0;
+const listeners = new Set<(count: number) => void>();
+
+function currentUid(): string | null {
+  return auth.currentUser?.uid ?? null;
+}
+
+function userEntries(): OutboxEntry[] {
+  const uid = currentUid();
+  return uid ? entries.filter((entry) => entry.uid === uid) : [];
+}
+
+function notify() {
+  const count = getPendingCount();
+  listeners.forEach((listener) => listener(count));
+}
+
+function loadEntries(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = runTransaction<OutboxEntry[]>('readonly', (store) => store.getAll())
+      .then((stored) => {
+        // IndexedDB returns entries ordered by key = enqueue order
+        entries = stored || [];
+        notify();
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load offline outbox:', error);
+      });
+  }
+  return loadPromise;
+}
+
+async function saveEntry(entry: OutboxEntry): Promise<void> {
+  const id = await runTransaction<IDBValidKey>('readwrite', (store) => store.put(entry));
+  if (id !== null) {
+    entry.id = id as number;
+  } else if (entry.id === undefined) {
+    entry.id = ++memoryId;
+  }
+}
+
+async function removeEntry(entry: OutboxEntry): Promise<void> {
+  entries = entries.filter((e) => e !== entry);
+  if (entry.id !== undefined) {
+    await runTransaction('readwrite', (store) => store.delete(entry.id));
+  }
+}
+
+// ======================================================
+// COALESCING
+// ======================================================
+
+// Drop the parts of `mutation` already covered by pending entries and cancel
+// opposite pairs. Returns what is still left to enqueue (or null).
+// The in-flight entry is left alone: cancelling it can't stop what the backend already did.
+async function coalesce(uid: string, mutation: QueuedMutation): Promise<QueuedMutation | null> {
+  const opposite = OPPOSITES[mutation.type];
+  const pending = entries.filter((entry) => entry.uid === uid && entry !== inFlight);
+
+  if (!('emailIds' in mutation)) {
+    for (const entry of pending) {
+      const queued = entry.mutation;
+      if (!('threadId' in queued)) continue;
+      if (queued.threadId !== mutation.threadId || queued.labelId !== mutation.labelId) continue;
+
+      if (queued.type === opposite) {
+        await removeEntry(entry);
+        return null;
+      }
+      if (queued.type === mutation.type) return null;
+    }
+    return mutation;
+  }
+
+  let remaining = [...mutation.emailIds];
+  for (const entry of pending) {
+    const queued = entry.mutation;
+    if (!('emailIds' in queued)) continue;
+    if (queued.type !== mutation.type && queued.type !== opposite) continue;
+
+    const overlap = queued.emailIds.filter((id) => remaining.includes(id));
+    if (overlap.length === 0) continue;
+
+    remaining = remaining.filter((id) => !overlap.includes(id));
+
+    // Opposite mutation for the same emails: both sides cancel out
+    if (queued.type === opposite) {
+      const left = queued.emailIds.filter((id) => !overlap.includes(id));
+      if (left.length === 0) {
+        await removeEntry(entry);
+      } else {
+        entry.mutation = { type: queued.type, emailIds: left };
+        await saveEntry(entry);
+      }
+    }
+  }
+
+  return remaining.length > 0 ? { type: mutation.type, emailIds: remaining } : null;
+}
+
+// ======================================================
+// EXECUTION
+// ======================================================
+
+async function execute(mutation: QueuedMutation): Promise<void> {
+  switch (mutation.type) {
+    case 'read':
+      await batchMarkAsRead(mutation.emailIds);
+      break;
+    case 'unread':
+      await batchMarkAsUnread(mutation.emailIds);
+      break;
+    case 'done':
+      await batchMarkAsDone(mutation.emailIds);
+      break;
+    case 'delete':
+      await batchDelete(mutation.emailIds);
+      break;
+    case 'spam':
+      await batchReportSpam(mutation.emailIds);
+      break;
+    case 'applyLabel':
+      await applyLabelToThread({
+        thread_id: mutation.threadId,
+        label_id: mutation.labelId,
+        label_name: mutation.labelName,
+      });
+      break;
+    case 'removeLabel':
+      await removeLabelFromThread({
+        thread_id: mutation.threadId,
+        label_id: mutation.labelId,
+        label_name: mutation.labelName,
+      });
+      break;
+  }
+}
+
+// Errors that mean "try again later" rather than "the backend said no".
+// A 401 isn't one: apiClient already retried with a refreshed token, so it won't clear up
+// by itself and would block the head of the queue on every flush.
+function isOfflineError(error: unknown): boolean {
+  return isApiError(error) && error.isNetworkError;
+}
+
+async function enqueue(uid: string, mutation: QueuedMutation): Promise<void> {
+  const remaining = await coalesce(uid, mutation);
+  if (remaining) {
+    const entry: OutboxEntry = { uid, mutation: remaining, createdAt: Date.now() };
+    entries.push(entry);
+    await saveEntry(entry);
+    console.log('📥 Queued offline mutation:', remaining.type);
+  } else {
+    console.log('🔄 Offline mutation coalesced:', mutation.type);
+  }
+  notify();
+}
+
+let flushPromise: Promise<void> | null = null;
+
+/**
+ * Replay queued mutations for the current user, oldest first.
+ * Stops at the first network failure so ordering is preserved.
+ * Entries the backend rejects (4xx/5xx, including a 401 after the token refresh) are dropped.
+ */
+export function flushOutbox(): Promise<void> {
+  if (flushPromise) return flushPromise;
+
+  flushPromise = (async () => {
+    await loadEntries();
+
+    while (navigator.onLine) {
+      const [entry] = userEntries();
+      if (!entry) break;
+
+      inFlight = entry;
+      try {
+        await execute(entry.mutation);
+        console.log('✅ Replayed offline mutation:', entry.mutation.type);
+      } catch (error) {
+        if (isOfflineError(error)) {
+          console.warn('📴 Still offline, keeping queued mutations');
+          break;
+        }
+        console.error('❌ Dropping rejected offline mutation:', entry.mutation.type, error);
+      } finally {
+        inFlight = null;
+      }
+
+      await removeEntry(entry);
+      notify();
+    }
+  })().finally(() => {
+    flushPromise = null;
+  });
+
+  return flushPromise;
+}
+
+/**
+ * Run a mutation now, or persist it for replay if we're offline.
+ * - Offline, or older mutations still pending → queued (keeps order)
+ * - Network failure while sending → queued
+ * - Backend rejection → thrown, so callers can roll back optimistic state
+ */
+export async function runMutation(mutation: QueuedMutation): Promise<MutationResult> {
+  startOfflineSync();
+  await loadEntries();
+
+  const uid = currentUid();
+  if (!uid) throw new Error('User not authenticated');
+
+  if (!navigator.onLine || userEntries().length > 0) {
+    await enqueue(uid, mutation);
+    if (navigator.onLine) flushOutbox();
+    return 'queued';
+  }
+
+  try {
+    await execute(mutation);
+    return 'sent';
+  } catch (error) {
+    if (!isApiError(error) || !error.isNetworkError) throw error;
+    await enqueue(uid, mutation);
+    return 'queued';
+  }
+}
+
+// ======================================================
+// PENDING COUNT
+// ======================================================
+
+export function getPendingCount(): number {
+  return userEntries().length;
+}
+
+export function subscribePendingCount(listener: (count: number) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ======================================================
+// LIFECYCLE
+// ======================================================
+
+let started = false;
+
+/**
+ * Load the outbox and replay it whenever we come back online
+ * or a user signs in. Safe to call many times.
+ */
+export function startOfflineSync(): void {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  window.addEventListener('online', () => {
+    console.log('🌐 Back online, replaying queued mutations');
+    flushOutbox();
+  });
+
+  auth.onAuthStateChanged((user) => {
+    notify();
+    if (user) flushOutbox();
+  });
+
+  loadEntries();
+}
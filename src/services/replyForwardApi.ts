@@ -1,10 +1,9 @@
 // services/replyForwardApi.ts
 // API service for Reply and Forward email endpoints
-// ✅ Automatic endpoint routing based on auth_method (like emailApi.ts)
+// ✅ Automatic endpoint routing based on auth_method (via apiClient.ts)
 
-import { auth } from '../firebase.config';
-
-const API_BASE = import.meta.env.VITE_BACKEND_URL;
+import { z } from 'zod';
+import { apiRequest, ApiResponse } from './apiClient';
 
 // ======================================================
 // TYPES
@@ -37,88 +36,18 @@ export interface ForwardEmailRequest {
   attachment_ids?: string[];
 }
 
-export interface EmailSendResponse {
-  status: 'queued' | 'scheduled';
-  email_id: string;
-  can_undo: boolean;
-  undo_until: string | null;
-  thread_id?: string;
-}
-
-
-// ======================================================
-// HELPER: Get Auth Token
-// ======================================================
-async function getAuthToken(): Promise<string> {
-  const user = auth.currentUser;
-  if (!user) {
-    throw new Error('User not authenticated');
-  }
-  return user.getIdToken();
-}
-
-
 // ======================================================
-// HELPER: Get Auth Method from Firebase Custom Claims
+// RESPONSE SCHEMA
 // ======================================================
-async function getAuthMethod(): Promise<'direct' | 'composio'> {
-  const user = auth.currentUser;
-  if (!user) return 'direct';
-  
-  try {
-    const idTokenResult = await user.getIdTokenResult();
-    const authMethod = idTokenResult.claims.auth_method as string;
-    
-    console.log('🔍 DEBUG getAuthMethod: claims =', idTokenResult.claims);
-    console.log('🔍 DEBUG getAuthMethod: auth_method =', authMethod);
-    
-    // Default to 'direct' if not set
-    return authMethod === 'composio' ? 'composio' : 'direct';
-  } catch (error) {
-    console.error('Failed to get auth method from claims:', error);
-    return 'direct';
-  }
-}
-
+const emailSendResponseSchema = z.object({
+  status: z.enum(['queued', 'scheduled']),
+  email_id: z.string(),
+  can_undo: z.boolean(),
+  undo_until: z.string().nullable(),
+  thread_id: z.string().optional(),
+}).passthrough();
 
-// ======================================================
-// HELPER: API Call with Automatic Routing
-// ======================================================
-async function apiCall(endpoint: string, options: RequestInit = {}) {
-  console.log('🔍 DEBUG apiCall: endpoint =', endpoint);
-  
-  const token = await getAuthToken();
-  const authMethod = await getAuthMethod();
-  
-  console.log('🔍 DEBUG apiCall: authMethod =', authMethod);
-  
-  // Route: Replace /api/emails with correct prefix based on auth method
-  let routedEndpoint = endpoint;
-  if (authMethod === 'composio' && endpoint.startsWith('/api/emails')) {
-    routedEndpoint = endpoint.replace('/api/emails', '/api/composio/emails');
-    console.log(`🔀 Routing to Composio: ${endpoint} → ${routedEndpoint}`);
-  } else {
-    console.log('🔍 DEBUG apiCall: NOT routing - authMethod =', authMethod, ', endpoint starts with /api/emails =', endpoint.startsWith('/api/emails'));
-  }
-  
-  console.log('🔍 DEBUG apiCall: final URL =', `${API_BASE}${routedEndpoint}`);
-  
-  const response = await fetch(`${API_BASE}${routedEndpoint}`, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`,
-      ...options.headers,
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: 'Request failed' }));
-    throw new Error(error.detail || `API error: ${response.status}`);
-  }
-
-  return response.json();
-}
+export type EmailSendResponse = ApiResponse<typeof emailSendResponseSchema>;
 
 
 // ======================================================
@@ -151,9 +80,10 @@ export async function replyEmail(request: ReplyEmailRequest): Promise<EmailSendR
   console.log('🔍 DEBUG: replyEmail() called from replyForwardApi.ts');
   console.log('🔍 DEBUG: request.thread_id =', request.thread_id);
   
-  return apiCall('/api/emails/reply', {
+  return apiRequest('/api/emails/reply', {
     method: 'POST',
-    body: JSON.stringify({
+    schema: emailSendResponseSchema,
+    body: {
       to: request.to,
       cc: request.cc || [],
       bcc: request.bcc || [],
@@ -166,7 +96,7 @@ export async function replyEmail(request: ReplyEmailRequest): Promise<EmailSendR
       scheduled_at: request.scheduled_at,
       tracking_enabled: request.tracking_enabled ?? true,
       attachment_ids: request.attachment_ids || []
-    })
+    }
   });
 }
 
@@ -196,9 +126,10 @@ export async function replyEmail(request: ReplyEmailRequest): Promise<EmailSendR
 export async function forwardEmail(request: ForwardEmailRequest): Promise<EmailSendResponse> {
   console.log('🔍 DEBUG: forwardEmail() called from replyForwardApi.ts');
   
-  return apiCall('/api/emails/forward', {
+  return apiRequest('/api/emails/forward', {
     method: 'POST',
-    body: JSON.stringify({
+    schema: emailSendResponseSchema,
+    body: {
       to: request.to,
       cc: request.cc || [],
       bcc: request.bcc || [],
@@ -208,7 +139,7 @@ export async function forwardEmail(request: ForwardEmailRequest): Promise<EmailS
       scheduled_at: request.scheduled_at,
       tracking_enabled: request.tracking_enabled ?? true,
       attachment_ids: request.attachment_ids || []
-    })
+    }
   });
 }
 
@@ -224,10 +155,11 @@ export async function forwardEmail(request: ForwardEmailRequest): Promise<EmailS
  * - Direct Auth: /api/emails/{emailId}/cancel
  * - Composio: /api/composio/emails/{emailId}/cancel
  */
-export async function cancelEmail(emailId: string): Promise<{ status: string; message: string }> {
+export async function cancelEmail(emailId: string) {
   console.log('🔍 DEBUG: cancelEmail() called from replyForwardApi.ts');
   
-  return apiCall(`/api/emails/${emailId}/cancel`, {
+  return apiRequest(`/api/emails/${emailId}/cancel`, {
     method: 'DELETE',
+    schema: z.object({ status: z.string(), message: z.string() }).passthrough(),
   });
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+// services/scheduledApi.ts
+// API for editing, rescheduling and cancelling scheduled emails
+// Requests go through apiClient.ts (ApiError with HTTP status + backend detail)
+
+import { apiRequest } from './apiClient';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export interface ScheduledEmailUpdate {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body_html: string;
+  body_text: string;
+}
+
+// ======================================================
+// API: Update Scheduled Email
+// ======================================================
+export async function updateScheduledEmail(emailId: string, update: ScheduledEmailUpdate): Promise<void> {
+  await apiRequest(`/api/scheduled/${emailId}`, {
+    method: 'PUT',
+    body: update
+  });
+}
+
+// ======================================================
+// API: Reschedule
+// ======================================================
+export async function rescheduleEmail(emailId: string, scheduledAt: Date): Promise<void> {
+  await apiRequest(`/api/scheduled/${emailId}/reschedule`, {
+    method: 'POST',
+    body: { scheduled_at: scheduledAt.toISOString() }
+  });
+}
+
+// ======================================================
+// API: Cancel
+// ======================================================
+export async function cancelScheduledEmail(emailId: string): Promise<void> {
+  await apiRequest(`/api/scheduled/${emailId}/cancel`, {
+    method: 'POST'
+  });
+}
@@ -1,35 +1,27 @@
 // searchApi.ts - Frontend API service for AI-powered email search
 // Handles communication with the backend search endpoint
+// ✅ Requests go through apiClient.ts (ApiError, schema validation, AbortSignal)
 
-const API_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:8000";
-
-// Search result interface matching backend response
-export interface SearchResult {
-  id: string;
-  thread_id: string;
-  subject: string;
-  sender: string;
-  sender_email: string;
-  recipients: string[];
-  cc?: string[];
-  bcc?: string[];
-  date: string;
-  snippet: string;
-  body_preview?: string;
+import { z } from 'zod';
+import { apiRequest, ApiResponse } from './apiClient';
+import type { SearchableEmail } from '@/components/search/types';
+
+// Full content of one search result (getSearchEmailDetail), whichever field names the backend used
+export interface SearchEmailDetail {
   body_html?: string;
   body_text?: string;
-  category: 'URGENT' | 'IMPORTANT' | 'PROMISES' | 'AWAITING' | 'OTHERS';
-  source: 'inbox' | 'sent' | 'done' | 'trash' | 'drafts';
-  has_attachment: boolean;
-  is_read: boolean;
-  attachments?: Attachment[];
+  cc: string[];
+  bcc: string[];
+  message_id?: string;
+  attachments: SearchEmailAttachment[];
 }
 
-export interface Attachment {
-  id: string;
+export interface SearchEmailAttachment {
+  id?: string;
   filename: string;
-  mimeType: string;
-  size: number;
+  mimeType?: string;
+  content_type?: string;
+  size?: number;
   url?: string;
 }
 
@@ -37,50 +29,130 @@ export interface SearchRequest {
   query: string;
 }
 
-export interface SearchResponse {
-  results: SearchResult[];
-  total_results: number;
-  query: string;
-  search_time_ms: number;
-}
+// ======================================================
+// RESPONSE SCHEMAS
+// ======================================================
+
+const searchResultAttachmentSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  url: z.string().optional(),
+}).passthrough();
+
+const searchResultSchema = z.object({
+  id: z.string(),
+  thread_id: z.string(),
+  subject: z.string(),
+  sender: z.string(),
+  sender_email: z.string(),
+  recipients: z.array(z.string()),
+  cc: z.array(z.string()).optional(),
+  bcc: z.array(z.string()).optional(),
+  date: z.string(),
+  snippet: z.string(),
+  body_preview: z.string().optional(),
+  body_html: z.string().optional(),
+  body_text: z.string().optional(),
+  category: z.enum(['URGENT', 'IMPORTANT', 'PROMISES', 'AWAITING', 'OTHERS']),
+  source: z.enum(['inbox', 'sent', 'done', 'trash', 'drafts']),
+  has_attachment: z.boolean(),
+  is_read: z.boolean(),
+  attachments: z.array(searchResultAttachmentSchema).optional(),
+}).passthrough();
+
+// Search result matching backend response
+export type SearchResult = ApiResponse<typeof searchResultSchema>;
+
+const searchResponseSchema = z.object({
+  results: z.array(searchResultSchema),
+  total_results: z.number(),
+  query: z.string(),
+  search_time_ms: z.number(),
+}).passthrough();
+
+export type SearchResponse = ApiResponse<typeof searchResponseSchema>;
+
+// Entry of the instant-search index (SearchableEmail in components/search/types.ts)
+const searchableEmailSchema = z.object({
+  id: z.string(),
+  thread_id: z.string(),
+  subject: z.string(),
+  sender: z.string(),
+  sender_email: z.string(),
+  recipients: z.array(z.string()),
+  date: z.string(),
+  snippet: z.string(),
+  category: z.string(),
+  source: z.enum(['inbox', 'sent', 'done', 'trash']),
+  has_attachment: z.boolean(),
+  is_read: z.boolean(),
+}).passthrough();
+
+const searchableEmailsSchema = z.object({
+  emails: z.array(searchableEmailSchema).default([]),
+}).passthrough();
+
+const suggestionsSchema = z.object({
+  suggestions: z.array(z.string()).optional(),
+}).passthrough();
+
+const recentSearchesSchema = z.object({
+  searches: z.array(z.string()).optional(),
+}).passthrough();
+
+// Missing and null both mean "not there"
+const optionalText = z.string().nullish().transform((value) => value || undefined);
+const addressList = z.array(z.string()).nullish().transform((value) => value || []);
+
+const searchEmailAttachmentSchema = z.object({
+  id: optionalText,
+  filename: z.string(),
+  mimeType: optionalText,
+  content_type: optionalText,
+  size: z.number().nullish().transform((value) => value ?? undefined),
+  url: optionalText,
+});
+
+// Inbox and Sent answer with body_html/body_text, other sources with bodyHtml/bodyText or body_plain
+const searchEmailDetailSchema = z.object({
+  body_html: optionalText,
+  bodyHtml: optionalText,
+  body_text: optionalText,
+  bodyText: optionalText,
+  body_plain: optionalText,
+  cc: addressList,
+  bcc: addressList,
+  message_id: optionalText,
+  attachments: z.array(searchEmailAttachmentSchema).nullish().transform((value) => value || []),
+}).transform((detail): SearchEmailDetail => ({
+  body_html: detail.body_html || detail.bodyHtml,
+  body_text: detail.body_text || detail.bodyText || detail.body_plain,
+  cc: detail.cc,
+  bcc: detail.bcc,
+  message_id: detail.message_id,
+  attachments: detail.attachments as SearchEmailAttachment[],  // strict: false infers every zod key as optional
+}));
 
 /**
  * Search emails using AI-powered natural language search
  * 
  * @param query - Natural language query or Gmail-style operators
- * @param token - Firebase ID token for authentication
+ * @param signal - Optional AbortSignal to cancel a stale search
  * @returns Array of matching emails with full content
  */
 export async function searchEmails(
   query: string,
-  token: string
+  signal?: AbortSignal
 ): Promise<SearchResult[]> {
   try {
-    const response = await fetch(`${API_URL}/api/search`, {
+    const data = await apiRequest('/api/search', {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'ngrok-skip-browser-warning': 'true'
-      },
-      body: JSON.stringify({ query })
+      body: { query },
+      schema: searchResponseSchema,
+      signal,
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `Search failed (${response.status})`;
-      
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.detail || errorMessage;
-      } catch {
-        errorMessage = errorText || errorMessage;
-      }
-      
-      throw new Error(errorMessage);
-    }
-
-    const data: SearchResponse = await response.json();
     
     console.log(`✅ Search completed: ${data.total_results} results in ${data.search_time_ms}ms`);
     
@@ -91,31 +163,52 @@ export async function searchEmails(
   }
 }
 
+/**
+ * Get the lightweight email index used for instant client-side search
+ */
+export async function getSearchableEmails(
+  limit: number = 300,
+  signal?: AbortSignal
+): Promise<SearchableEmail[]> {
+  const data = await apiRequest(`/api/search/emails?limit=${limit}`, {
+    method: 'GET',
+    schema: searchableEmailsSchema,
+    signal,
+  });
+  return data.emails || [];
+}
+
+/**
+ * Get the full content of one search result (body, cc/bcc, attachments)
+ */
+export async function getSearchEmailDetail(
+  source: SearchableEmail['source'],
+  emailId: string,
+  signal?: AbortSignal
+): Promise<SearchEmailDetail> {
+  return apiRequest(`/api/search/email/${source}/${emailId}`, {
+    method: 'GET',
+    schema: searchEmailDetailSchema,
+    signal,
+  });
+}
+
 /**
  * Get search suggestions based on partial query
  * (Optional - for future autocomplete feature)
  */
 export async function getSearchSuggestions(
   partialQuery: string,
-  token: string
+  signal?: AbortSignal
 ): Promise<string[]> {
   try {
-    const response = await fetch(`${API_URL}/api/search/suggestions`, {
+    const data = await apiRequest('/api/search/suggestions', {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'ngrok-skip-browser-warning': 'true'
-      },
-      body: JSON.stringify({ query: partialQuery })
+      body: { query: partialQuery },
+      schema: suggestionsSchema,
+      signal,
     });
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
-    return data.suggestions || [];
+    return data?.suggestions || [];
   } catch (error) {
     console.error('Search suggestions error:', error);
     return [];
@@ -127,23 +220,15 @@ export async function getSearchSuggestions(
  * (Optional - for future search history feature)
  */
 export async function getRecentSearches(
-  token: string
+  signal?: AbortSignal
 ): Promise<string[]> {
   try {
-    const response = await fetch(`${API_URL}/api/search/recent`, {
+    const data = await apiRequest('/api/search/recent', {
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'ngrok-skip-browser-warning': 'true'
-      }
+      schema: recentSearchesSchema,
+      signal,
     });
-
-    if (!response.ok) {
-      return [];
-    }
-
-    const data = await response.json();
-    return data.searches || [];
+    return data?.searches || [];
   } catch (error) {
     console.error('Recent searches error:', error);
     return [];
@@ -152,6 +237,8 @@ export async function getRecentSearches(
 
 export default {
   searchEmails,
+  getSearchableEmails,
+  getSearchEmailDetail,
   getSearchSuggestions,
   getRecentSearches
-};
\ No newline at end of file
+};
@@ -0,0 +1,138 @@
+// services/signatureApi.ts - Email signatures (Firestore only, like drafts)
+// Signatures live in users/{uid}/signatures/{id}; which one is the default for new mail / replies
+// (per sending address) and where it goes in replies live in users/{uid}/preferences/signatures.
+// context/SignaturesContext keeps both live; the editor inserts them (components/inbox/extensions/Signature.ts)
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  setDoc,
+  query,
+  where,
+  documentId,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, auth } from '@/firebase.config';
+import { signatureConverter, signatureSettingsConverter } from '@/services/firestoreConverters';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
+import { toMillis } from '@/utils/dateTime';
+
+export interface EmailSignature {
+  id: string;
+  name: string;
+  html: string;       // Rich content from TiptapEditor (links, images)
+  created_at?: Timestamp | Date;
+  updated_at?: Timestamp | Date;
+}
+
+// New mail vs replies/forwards
+export type SignatureKind = 'new' | 'reply';
+
+// Replies/forwards: signature right under what you wrote, or after the quoted message
+export type SignaturePlacement = 'above' | 'below';
+
+// Default signature IDs for one sending address (null = none)
+export type SignatureDefaults = Record<SignatureKind, string | null>;
+
+export interface SignatureSettings {
+  defaults: Record<string, SignatureDefaults>;  // Keyed by lowercase sending address
+  placement: SignaturePlacement;
+}
+
+export const DEFAULT_SIGNATURE_SETTINGS: SignatureSettings = {
+  defaults: {},
+  placement: 'above',
+};
+
+function signaturesCollection() {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated');
+  return collection(db, 'users', user.uid, 'signatures');
+}
+
+function settingsDoc() {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated');
+  return doc(db, 'users', user.uid, 'preferences', 'signatures');
+}
+
+/**
+ * Create a signature
+ * @returns Signature ID
+ */
+export async function createSignature(name: string, html: string): Promise<string> {
+  const signatureRef = await addDoc(signaturesCollection(), {
+    name,
+    html,
+    created_at: serverTimestamp(),
+    updated_at: serverTimestamp(),
+  });
+  console.log(`✍️ Signature created: ${signatureRef.id}`);
+  return signatureRef.id;
+}
+
+export async function updateSignature(id: string, updates: Pick<EmailSignature, 'name' | 'html'>): Promise<void> {
+  await updateDoc(doc(signaturesCollection(), id), {
+    ...updates,
+    updated_at: serverTimestamp(),
+  });
+  console.log(`✍️ Signature updated: ${id}`);
+}
+
+/**
+ * Delete a signature. Defaults still pointing at it are ignored from then on.
+ */
+export async function deleteSignature(id: string): Promise<void> {
+  await deleteDoc(doc(signaturesCollection(), id));
+  console.log(`🗑️ Signature deleted: ${id}`);
+}
+
+export async function saveSignatureSettings(settings: SignatureSettings): Promise<void> {
+  await setDoc(settingsDoc(), settings);
+  console.log('✍️ Signature settings saved');
+}
+
+/**
+ * Live list of signatures, oldest first
+ * @returns Unsubscribe function
+ */
+export function subscribeToSignatures(
+  userId: string,
+  onChange: (signatures: EmailSignature[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return subscribeToQuery(
+    'signatures',
+    collection(db, 'users', userId, 'signatures').withConverter(signatureConverter),
+    (snapshot) => {
+      const signatures = snapshot.docs.map((signatureDoc) => signatureDoc.data());
+      // Just-created ones have no server timestamp yet - they go last
+      signatures.sort((a, b) => (toMillis(a.created_at) || Infinity) - (toMillis(b.created_at) || Infinity));
+      onChange(signatures);
+    },
+    onError
+  );
+}
+
+/**
+ * Live signature settings (defaults + placement)
+ * @returns Unsubscribe function
+ */
+export function subscribeToSignatureSettings(
+  userId: string,
+  onChange: (settings: SignatureSettings) => void,
+  onError: (error: Error) => void
+): () => void {
+  // The registry shares queries, so the settings doc is read as a one-doc query
+  const preferences = collection(db, 'users', userId, 'preferences').withConverter(signatureSettingsConverter);
+  return subscribeToQuery(
+    'signatures:settings',
+    query(preferences, where(documentId(), '==', 'signatures')),
+    (snapshot) => onChange(snapshot.docs[0]?.data() ?? DEFAULT_SIGNATURE_SETTINGS),
+    onError
+  );
+}
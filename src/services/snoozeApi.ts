@@ -0,0 +1,87 @@
+// services/snoozeApi.ts - Snooze threads until a time or a reply (Firestore only, like drafts)
+// Snoozes live in users/{uid}/snoozes/{threadId}; the thread itself is untouched.
+// context/SnoozeContext hides snoozed threads and wakes them up when they're due.
+
+import {
+  collection,
+  doc,
+  writeBatch,
+  deleteDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, auth } from '@/firebase.config';
+import { runMutation } from './offlineQueue';
+import type { Thread, ThreadSnooze } from '@/types/inbox';
+
+export interface SnoozeOptions {
+  until: Date | null;     // null = only wake up on a reply
+  untilReply: boolean;
+}
+
+function snoozesCollection() {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated');
+  return collection(db, 'users', user.uid, 'snoozes');
+}
+
+// Firestore rejects undefined fields - keep a plain JSON copy of the thread
+function threadSnapshot(thread: Thread): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(thread));
+}
+
+/**
+ * Snooze threads. Snoozing an already snoozed thread replaces its snooze.
+ */
+export async function snoozeThreads(threads: Thread[], options: SnoozeOptions): Promise<void> {
+  const snoozesRef = snoozesCollection();
+  const batch = writeBatch(db);
+
+  threads.forEach((thread) => {
+    batch.set(doc(snoozesRef, thread.thread_id), {
+      snoozed_until: options.until ? Timestamp.fromDate(options.until) : null,
+      until_reply: options.untilReply,
+      category: (thread.user_category || thread.category || 'OTHERS').toUpperCase(),
+      status: 'snoozed',
+      snoozed_at: serverTimestamp(),
+      returned_at: null,
+      thread: threadSnapshot(thread),
+    });
+  });
+
+  await batch.commit();
+  console.log(`😴 Snoozed ${threads.length} thread(s) until ${options.until?.toISOString() ?? 'reply'}${options.until && options.untilReply ? ' or reply' : ''}`);
+}
+
+/**
+ * Wake snoozed threads up: pinned to the top of their category and marked unread.
+ */
+export async function returnSnoozedThreads(snoozes: ThreadSnooze[]): Promise<void> {
+  if (snoozes.length === 0) return;
+  const snoozesRef = snoozesCollection();
+  const batch = writeBatch(db);
+
+  snoozes.forEach((snooze) => {
+    batch.update(doc(snoozesRef, snooze.thread_id), {
+      status: 'returned',
+      returned_at: serverTimestamp(),
+    });
+  });
+  await batch.commit();
+  console.log(`⏰ ${snoozes.length} snoozed thread(s) returned`);
+
+  const emailIds = snoozes.flatMap((snooze) => snooze.thread.email_ids);
+  if (emailIds.length > 0) {
+    await runMutation({ type: 'unread', emailIds }).catch((error) => {
+      console.error('❌ Failed to mark returned threads unread:', error);
+    });
+  }
+}
+
+/**
+ * Remove a snooze - unsnoozes a sleeping thread, or unpins a returned one.
+ */
+export async function deleteSnooze(threadId: string): Promise<void> {
+  await deleteDoc(doc(snoozesCollection(), threadId));
+  console.log(`🗑️ Snooze removed: ${threadId}`);
+}
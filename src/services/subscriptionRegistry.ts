@@ -0,0 +1,215 @@
+// services/subscriptionRegistry.ts - Shared Firestore onSnapshot listeners
+// ✅ Identical queries (queryEqual) share ONE Firestore listener
+// ✅ Late subscribers get the last snapshot immediately
+// ✅ Reference counted - listener is torn down after the last consumer leaves
+// ✅ Stats exposed for the Firestore debug panel
+// ✅ Works with converted queries (withConverter) - same converter = same listener
+
+import {
+  onSnapshot,
+  queryEqual,
+  Query,
+  QuerySnapshot,
+  FirestoreError,
+  DocumentData,
+  Unsubscribe,
+} from 'firebase/firestore';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+interface QueryObserver {
+  next: (snapshot: QuerySnapshot<DocumentData>) => void;
+  error?: (error: FirestoreError) => void;
+}
+
+interface RegistryEntry {
+  id: number;
+  label: string;
+  query: Query<DocumentData>;
+  observers: Set<QueryObserver>;
+  unsubscribe: Unsubscribe;
+  lastSnapshot: QuerySnapshot<DocumentData> | null;
+  snapshotCount: number;
+  teardownTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface SubscriptionInfo {
+  id: number;
+  label: string;
+  consumers: number;
+  snapshots: number;
+  docs: number;
+}
+
+export interface SubscriptionStats {
+  // Open Firestore listeners
+  listeners: number;
+  // Hooks/components consuming them
+  consumers: number;
+  subscriptions: SubscriptionInfo[];
+}
+
+// Keep a listener alive briefly after its last consumer unmounts,
+// so page/category switches re-use it instead of re-reading everything
+const TEARDOWN_DELAY_MS = 3000;
+
+// ======================================================
+// REGISTRY STATE
+// ======================================================
+
+const entries: RegistryEntry[] = [];
+const statsListeners = new Set<(stats: SubscriptionStats) => void>();
+let nextId = 1;
+
+function findEntry(q: Query<DocumentData>): RegistryEntry | undefined {
+  return entries.find((entry) => queryEqual(entry.query, q));
+}
+
+function removeEntry(entry: RegistryEntry) {
+  entry.unsubscribe();
+  const index = entries.indexOf(entry);
+  if (index === -1) return;
+  entries.splice(index, 1);
+  console.log(`🔌 Firestore listener closed: ${entry.label}`);
+  notifyStats();
+}
+
+// ======================================================
+// SUBSCRIBE
+// ======================================================
+
+/**
+ * Subscribe to a Firestore query through the shared registry.
+ * Same callbacks as onSnapshot(query, onNext, onError).
+ *
+ * @param label - Human readable name shown in the debug panel
+ * @param sharedQuery - Firestore query
+ * @param onNext - Called with every snapshot (and the latest one on subscribe)
+ * @param onError - Called if the listener fails
+ * @returns Unsubscribe function (releases this consumer only)
+ */
+export function subscribeToQuery<T = DocumentData>(
+  label: string,
+  typedQuery: Query<T>,
+  onNext: (snapshot: QuerySnapshot<T>) => void,
+  onError?: (error: FirestoreError) => void
+): Unsubscribe {
+  // Entries are stored untyped; the converter on the query keeps snapshots typed
+  const sharedQuery = typedQuery as unknown as Query<DocumentData>;
+
+  // Each call is its own consumer, even with identical callbacks
+  const sharedObserver: QueryObserver = {
+    next: onNext as unknown as QueryObserver['next'],
+    error: onError,
+  };
+
+  let entry = findEntry(sharedQuery);
+
+  if (entry) {
+    if (entry.teardownTimer) {
+      clearTimeout(entry.teardownTimer);
+      entry.teardownTimer = null;
+    }
+    entry.observers.add(sharedObserver);
+
+    // Replay the latest state asynchronously, like onSnapshot does
+    const replayEntry = entry;
+    Promise.resolve().then(() => {
+      if (!replayEntry.observers.has(sharedObserver)) return;
+      if (replayEntry.lastSnapshot) {
+        sharedObserver.next(replayEntry.lastSnapshot);
+      }
+    });
+  } else {
+    const newEntry: RegistryEntry = {
+      id: nextId++,
+      label,
+      query: sharedQuery,
+      observers: new Set([sharedObserver]),
+      unsubscribe: () => {},
+      lastSnapshot: null,
+      snapshotCount: 0,
+      teardownTimer: null,
+    };
+
+    newEntry.unsubscribe = onSnapshot(
+      sharedQuery,
+      (snapshot) => {
+        newEntry.lastSnapshot = snapshot;
+        newEntry.snapshotCount++;
+        newEntry.observers.forEach((o) => o.next(snapshot));
+        notifyStats();
+      },
+      (error) => {
+        // Firestore closes a listener after an error - forget it so the
+        // next subscriber opens a fresh one
+        const index = entries.indexOf(newEntry);
+        if (index !== -1) entries.splice(index, 1);
+        newEntry.observers.forEach((o) => o.error?.(error));
+        notifyStats();
+      }
+    );
+
+    entries.push(newEntry);
+    entry = newEntry;
+    console.log(`🔌 Firestore listener opened: ${label}`);
+  }
+
+  notifyStats();
+
+  const ownedEntry = entry;
+  let released = false;
+
+  return () => {
+    if (released) return;
+    released = true;
+
+    ownedEntry.observers.delete(sharedObserver);
+    notifyStats();
+
+    if (ownedEntry.observers.size === 0 && !ownedEntry.teardownTimer) {
+      ownedEntry.teardownTimer = setTimeout(() => {
+        ownedEntry.teardownTimer = null;
+        if (ownedEntry.observers.size === 0) {
+          removeEntry(ownedEntry);
+        }
+      }, TEARDOWN_DELAY_MS);
+    }
+  };
+}
+
+// ======================================================
+// STATS (debug panel)
+// ======================================================
+
+export function getSubscriptionStats(): SubscriptionStats {
+  const subscriptions = entries.map((entry) => ({
+    id: entry.id,
+    label: entry.label,
+    consumers: entry.observers.size,
+    snapshots: entry.snapshotCount,
+    docs: entry.lastSnapshot?.size ?? 0,
+  }));
+
+  return {
+    listeners: entries.length,
+    consumers: subscriptions.reduce((sum, s) => sum + s.consumers, 0),
+    subscriptions,
+  };
+}
+
+function notifyStats() {
+  if (statsListeners.size === 0) return;
+  const stats = getSubscriptionStats();
+  statsListeners.forEach((listener) => listener(stats));
+}
+
+export function subscribeToStats(listener: (stats: SubscriptionStats) => void): () => void {
+  statsListeners.add(listener);
+  listener(getSubscriptionStats());
+  return () => {
+    statsListeners.delete(listener);
+  };
+}
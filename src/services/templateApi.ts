@@ -0,0 +1,82 @@
+// services/templateApi.ts - Email templates (Firestore only, next to drafts)
+// Templates live in users/{uid}/templates/{id}. Bodies may contain {{variables}} that are
+// filled from the conversation when inserted (utils/templates.ts); a ;shortcut expands
+// them inline while typing (components/inbox/extensions/TemplateShortcuts.ts)
+
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db, auth } from '@/firebase.config';
+import { templateConverter } from '@/services/firestoreConverters';
+import { subscribeToQuery } from '@/services/subscriptionRegistry';
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  shortcut: string;   // Without the leading ';' (empty = menu only)
+  html: string;       // Rich content from TiptapEditor, with {{variables}}
+  created_at?: Timestamp | Date;
+  updated_at?: Timestamp | Date;
+}
+
+export type TemplateInput = Pick<EmailTemplate, 'name' | 'shortcut' | 'html'>;
+
+function templatesCollection() {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated');
+  return collection(db, 'users', user.uid, 'templates');
+}
+
+/**
+ * Create a template
+ * @returns Template ID
+ */
+export async function createTemplate(template: TemplateInput): Promise<string> {
+  const templateRef = await addDoc(templatesCollection(), {
+    ...template,
+    created_at: serverTimestamp(),
+    updated_at: serverTimestamp(),
+  });
+  console.log(`📋 Template created: ${templateRef.id}`);
+  return templateRef.id;
+}
+
+export async function updateTemplate(id: string, updates: TemplateInput): Promise<void> {
+  await updateDoc(doc(templatesCollection(), id), {
+    ...updates,
+    updated_at: serverTimestamp(),
+  });
+  console.log(`📋 Template updated: ${id}`);
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  await deleteDoc(doc(templatesCollection(), id));
+  console.log(`🗑️ Template deleted: ${id}`);
+}
+
+/**
+ * Live list of templates, by name
+ * @returns Unsubscribe function
+ */
+export function subscribeToTemplates(
+  userId: string,
+  onChange: (templates: EmailTemplate[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return subscribeToQuery(
+    'templates',
+    collection(db, 'users', userId, 'templates').withConverter(templateConverter),
+    (snapshot) => {
+      const templates = snapshot.docs.map((templateDoc) => templateDoc.data());
+      templates.sort((a, b) => a.name.localeCompare(b.name));
+      onChange(templates);
+    },
+    onError
+  );
+}
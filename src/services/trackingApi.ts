@@ -1,142 +1,129 @@
 // src/services/trackingApi.ts
 // API service for fetching email tracking statistics
 // UPDATED: Added recipient_open_count and other new fields
+// UPDATED: Requests go through apiClient.ts (ApiError, schema validation, AbortSignal)
 
-const API_BASE_URL = import.meta.env.VITE_BACKEND_URL;
+import { z } from 'zod';
+import { apiRequest, ApiResponse, isApiError } from './apiClient';
 
 // ======================================================
-// TYPES
+// RESPONSE SCHEMAS
 // ======================================================
 
-export interface OpenEvent {
-  timestamp: string;
-  country?: string;
-  device_type?: string;
-  device?: string;
-  os?: string;
-  email_client?: string;
-}
+const openEventSchema = z.object({
+  timestamp: z.string(),
+  country: z.string().optional(),
+  device_type: z.string().optional(),
+  device: z.string().optional(),
+  os: z.string().optional(),
+  email_client: z.string().optional(),
+}).passthrough();
 
-export interface ClickEvent {
-  timestamp: string;
-  url?: string;
-  country?: string;
-  device_type?: string;
-  email_client?: string;
-}
+const clickEventSchema = z.object({
+  timestamp: z.string(),
+  url: z.string().optional(),
+  country: z.string().optional(),
+  device_type: z.string().optional(),
+  email_client: z.string().optional(),
+}).passthrough();
+
+const trackingStatsSchema = z.object({
+  email_id: z.string(),
+  tracking_enabled: z.boolean(),
+
+  // Core tracking status - counts are filled in by the getters below when missing
+  opened: z.boolean(),
+  recipient_open_count: z.number().optional(),  // NEW: Only recipient opens (excludes sender self-views)
+  open_count: z.number().optional(),            // Alias for backwards compatibility
+  click_count: z.number().optional(),           // NEW: Number of link clicks
 
-export interface TrackingStats {
-  email_id: string;
-  tracking_enabled: boolean;
-  
-  // Core tracking status
-  opened: boolean;
-  recipient_open_count: number;  // NEW: Only recipient opens (excludes sender self-views)
-  open_count: number;            // Alias for backwards compatibility
-  click_count: number;           // NEW: Number of link clicks
-  
   // Timestamps
-  first_opened_at: string | null;
-  last_opened_at: string | null;  // NEW: Most recent open
-  sent_at: string | null;
-  
+  first_opened_at: z.string().nullable(),
+  last_opened_at: z.string().nullable(),  // NEW: Most recent open
+  sent_at: z.string().nullable(),
+
   // Email metadata
-  to: string[];
-  subject: string;
-  status: 'queued' | 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
-  
+  to: z.array(z.string()),
+  subject: z.string(),
+  status: z.enum(['queued', 'scheduled', 'sending', 'sent', 'failed', 'cancelled']),
+
   // Detailed events (when include_events=true)
-  recipient_opens?: OpenEvent[];
-  clicks?: ClickEvent[];
-  
+  recipient_opens: z.array(openEventSchema).optional(),
+  clicks: z.array(clickEventSchema).optional(),
+
   // Debug info
-  sender_view_count?: number;  // NEW: How many times sender viewed their own email
-  
+  sender_view_count: z.number().optional(),  // NEW: How many times sender viewed their own email
+
   // Accuracy disclaimer
-  accuracy_note?: string;
-}
+  accuracy_note: z.string().optional(),
+}).passthrough();
 
-export interface TrackingStatsSummary {
-  email_id: string;
-  opened: boolean;
-  recipient_open_count: number;
-  click_count: number;
-  first_opened_at: string | null;
-  last_opened_at: string | null;
-  subject: string;
-  to: string[];
-}
+const trackingStatsSummarySchema = z.object({
+  email_id: z.string(),
+  opened: z.boolean(),
+  recipient_open_count: z.number(),
+  click_count: z.number(),
+  first_opened_at: z.string().nullable(),
+  last_opened_at: z.string().nullable(),
+  subject: z.string(),
+  to: z.array(z.string()),
+}).passthrough();
 
-export interface ThreadTrackingStats {
-  thread_id: string;
-  total_emails: number;
-  opened_count: number;           // How many emails in thread were opened
-  total_recipient_opens: number;  // Sum of all recipient opens
-  total_clicks: number;
-  first_opened_at: string | null;
-  last_opened_at: string | null;
-  emails: TrackingStatsSummary[];
-}
+const threadTrackingStatsSchema = z.object({
+  thread_id: z.string(),
+  total_emails: z.number(),
+  opened_count: z.number(),           // How many emails in thread were opened
+  total_recipient_opens: z.number(),  // Sum of all recipient opens
+  total_clicks: z.number(),
+  first_opened_at: z.string().nullable(),
+  last_opened_at: z.string().nullable(),
+  emails: z.array(trackingStatsSummarySchema),
+}).passthrough();
 
-export interface TrackingSummary {
-  total_sent: number;
-  total_opened: number;
-  total_recipient_opens: number;
-  total_clicks: number;
-  open_rate: number;
-  click_rate: number;
-  accuracy_note: string;
-}
+const trackingSummarySchema = z.object({
+  total_sent: z.number(),
+  total_opened: z.number(),
+  total_recipient_opens: z.number(),
+  total_clicks: z.number(),
+  open_rate: z.number(),
+  click_rate: z.number(),
+  accuracy_note: z.string(),
+}).passthrough();
 
 // ======================================================
-// HELPER: Get Auth Headers
+// TYPES
 // ======================================================
-const getAuthHeaders = async (): Promise<Headers> => {
-  const { auth } = await import('../firebase.config');
-  const user = auth.currentUser;
-  
-  if (!user) {
-    throw new Error('User not authenticated');
-  }
-  
-  const token = await user.getIdToken();
-  
-  const headers = new Headers();
-  headers.append('Authorization', `Bearer ${token}`);
-  headers.append('Content-Type', 'application/json');
-  
-  return headers;
-};
+
+export type OpenEvent = ApiResponse<typeof openEventSchema>;
+export type ClickEvent = ApiResponse<typeof clickEventSchema>;
+export type TrackingStats = ApiResponse<typeof trackingStatsSchema>;
+export type TrackingStatsSummary = ApiResponse<typeof trackingStatsSummarySchema>;
+export type ThreadTrackingStats = ApiResponse<typeof threadTrackingStatsSchema>;
+export type TrackingSummary = ApiResponse<typeof trackingSummarySchema>;
+
+// ======================================================
+// HELPER: Treat "no tracking for this email" as null
+// ======================================================
+function isMissingTracking(error: unknown, statuses: number[] = [404]): boolean {
+  return isApiError(error) && statuses.includes(error.status);
+}
 
 // ======================================================
 // API: Get Tracking by Gmail Message ID
 // ======================================================
 export const getTrackingByMessageId = async (
   gmailMessageId: string,
-  includeEvents: boolean = false
+  includeEvents: boolean = false,
+  signal?: AbortSignal
 ): Promise<TrackingStats | null> => {
   try {
-    const headers = await getAuthHeaders();
     const params = includeEvents ? '?include_events=true' : '';
     
-    const response = await fetch(
-      `${API_BASE_URL}/api/emails/tracking/by-message/${gmailMessageId}${params}`,
-      {
-        method: 'GET',
-        headers
-      }
+    const data = await apiRequest(
+      `/api/emails/tracking/by-message/${gmailMessageId}${params}`,
+      { schema: trackingStatsSchema, signal }
     );
     
-    if (response.status === 404) {
-      return null; // No tracking found for this email
-    }
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
     // Normalize response - ensure recipient_open_count exists
     return {
       ...data,
@@ -146,6 +133,9 @@ export const getTrackingByMessageId = async (
       sender_view_count: data.sender_view_count ?? 0
     };
   } catch (error) {
+    if (isMissingTracking(error)) {
+      return null; // No tracking found for this email
+    }
     console.error('Failed to fetch tracking:', error);
     return null;
   }
@@ -154,28 +144,19 @@ export const getTrackingByMessageId = async (
 // ======================================================
 // API: Get Tracking by Thread ID
 // ======================================================
-export const getTrackingByThreadId = async (threadId: string): Promise<ThreadTrackingStats | null> => {
+export const getTrackingByThreadId = async (
+  threadId: string,
+  signal?: AbortSignal
+): Promise<ThreadTrackingStats | null> => {
   try {
-    const headers = await getAuthHeaders();
-    
-    const response = await fetch(
-      `${API_BASE_URL}/api/emails/tracking/by-thread/${threadId}`,
-      {
-        method: 'GET',
-        headers
-      }
+    return await apiRequest(
+      `/api/emails/tracking/by-thread/${threadId}`,
+      { schema: threadTrackingStatsSchema, signal }
     );
-    
-    if (response.status === 404) {
+  } catch (error) {
+    if (isMissingTracking(error)) {
       return null;
     }
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-    
-    return response.json();
-  } catch (error) {
     console.error('Failed to fetch thread tracking:', error);
     return null;
   }
@@ -186,36 +167,26 @@ export const getTrackingByThreadId = async (threadId: string): Promise<ThreadTra
 // ======================================================
 export const getTrackingByEmailId = async (
   emailId: string,
-  includeEvents: boolean = true
+  includeEvents: boolean = true,
+  signal?: AbortSignal
 ): Promise<TrackingStats | null> => {
   try {
-    const headers = await getAuthHeaders();
     const params = includeEvents ? '?include_events=true' : '';
     
-    const response = await fetch(
-      `${API_BASE_URL}/api/emails/tracking/${emailId}${params}`,
-      {
-        method: 'GET',
-        headers
-      }
+    const data = await apiRequest(
+      `/api/emails/tracking/${emailId}${params}`,
+      { schema: trackingStatsSchema, signal }
     );
     
-    if (response.status === 404) {
-      return null;
-    }
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
     return {
       ...data,
       recipient_open_count: data.recipient_open_count ?? data.open_count ?? 0,
       open_count: data.recipient_open_count ?? data.open_count ?? 0
     };
   } catch (error) {
+    if (isMissingTracking(error)) {
+      return null;
+    }
     console.error('Failed to fetch tracking:', error);
     return null;
   }
@@ -229,11 +200,11 @@ export const getAllTrackingStats = async (
     limit?: number;
     offset?: number;
     openedOnly?: boolean;
-  } = {}
+  } = {},
+  signal?: AbortSignal
 ): Promise<TrackingStatsSummary[]> => {
   try {
-    const headers = await getAuthHeaders();
-    
+
     const params = new URLSearchParams();
     if (options.limit) params.set('limit', options.limit.toString());
     if (options.offset) params.set('offset', options.offset.toString());
@@ -241,19 +212,10 @@ export const getAllTrackingStats = async (
     
     const query = params.toString() ? `?${params.toString()}` : '';
     
-    const response = await fetch(
-      `${API_BASE_URL}/api/emails/tracking/${query}`,
-      {
-        method: 'GET',
-        headers
-      }
+    return await apiRequest(
+      `/api/emails/tracking/${query}`,
+      { schema: z.array(trackingStatsSummarySchema), signal }
     );
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-    
-    return response.json();
   } catch (error) {
     console.error('Failed to fetch all tracking stats:', error);
     return [];
@@ -263,23 +225,12 @@ export const getAllTrackingStats = async (
 // ======================================================
 // API: Get Overall Tracking Summary
 // ======================================================
-export const getTrackingSummary = async (): Promise<TrackingSummary | null> => {
+export const getTrackingSummary = async (signal?: AbortSignal): Promise<TrackingSummary | null> => {
   try {
-    const headers = await getAuthHeaders();
-    
-    const response = await fetch(
-      `${API_BASE_URL}/api/emails/tracking/stats/summary`,
-      {
-        method: 'GET',
-        headers
-      }
+    return await apiRequest(
+      '/api/emails/tracking/stats/summary',
+      { schema: trackingSummarySchema, signal }
     );
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-    
-    return response.json();
   } catch (error) {
     console.error('Failed to fetch tracking summary:', error);
     return null;
@@ -289,28 +240,19 @@ export const getTrackingSummary = async (): Promise<TrackingSummary | null> => {
 // ======================================================
 // API: Lookup by Tracking ID (for debugging)
 // ======================================================
-export const lookupByTrackingId = async (trackingId: string): Promise<TrackingStats | null> => {
+export const lookupByTrackingId = async (
+  trackingId: string,
+  signal?: AbortSignal
+): Promise<TrackingStats | null> => {
   try {
-    const headers = await getAuthHeaders();
-    
-    const response = await fetch(
-      `${API_BASE_URL}/api/emails/tracking/lookup/${trackingId}`,
-      {
-        method: 'GET',
-        headers
-      }
+    return await apiRequest(
+      `/api/emails/tracking/lookup/${trackingId}`,
+      { schema: trackingStatsSchema, signal }
     );
-    
-    if (response.status === 404 || response.status === 403) {
+  } catch (error) {
+    if (isMissingTracking(error, [404, 403])) {
       return null;
     }
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}`);
-    }
-    
-    return response.json();
-  } catch (error) {
     console.error('Failed to lookup tracking:', error);
     return null;
   }
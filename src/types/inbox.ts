@@ -1,54 +1,149 @@
+// types/inbox.ts - Canonical inbox domain model
+// Single source of truth for Thread / Commitment / ThreadSnooze / EmailMessage / Attachment.
+// Firestore documents are mapped into these shapes by services/firestoreConverters.ts
+// (validated, defaults filled, dates normalized), so hooks never hand-map raw docs.
+//
+// components/inbox/promiseTypes.ts and components/inbox/types.ts re-export from here.
+
+// ======================================================
+// COMMITMENTS
+// ======================================================
+
+export type CommitmentType = 'PROMISE' | 'AWAITING';
+
+// Legacy 'done' is normalized to 'fulfilled' by the converter
+export type CommitmentStatus = 'pending' | 'fulfilled' | 'cancelled';
+
 export interface Commitment {
   id: string;
-  type: "PROMISE" | "AWAITING";
+  type: CommitmentType;
   who_owes: string;
   owed_to: string;
   what: string;
-  deadline: string | null;
-  deadline_text: string | null;
-  status: "pending" | "done";
-  created_at: string;
+  deadline: string | null;       // ISO date
+  deadline_text: string | null;  // "by Friday" - as written in the email
+  status: CommitmentStatus;
+  confidence: number;            // 0-1, AI detection confidence
+  trigger: string;
+  detected_from_email: string;
+  created_at: string;            // ISO date
 }
 
-export interface Thread {
+// ======================================================
+// THREADS
+// ======================================================
+
+// Legacy 'done' is normalized to 'resolved' by the converter
+export type ThreadStatus = 'active' | 'resolved';
+
+export interface ThreadLabel {
   id: string;
+  name: string;
+  color: string;
+}
+
+export interface Thread {
   thread_id: string;
-  subject: string;
-  participants: string[];
-  email_ids: string[];
+  gmail_subject: string;
   ai_context_summary: string;
+  ai_topic: string;
+  ui_summary_promise: string;
+  ui_summary_awaiting: string;
   has_promise: boolean;
   has_awaiting: boolean;
   commitments: Commitment[];
-  ui_summary_promise: string;
-  ui_summary_awaiting: string;
-  status: "active" | "done";
-  last_email_date: any;
+  email_ids: string[];
+  participants: string[];
+  status: ThreadStatus;
+  // Dates are strings: ISO when the source was a Timestamp/number, otherwise as stored
+  last_email_date: string;
+  created_at: string;
   updated_at: string;
+
+  // v2.0: Added fields for proper display in ThreadListItem
+  last_email_sender: string;        // "Arul Dhanasekar" - proper name for display
+  last_email_sender_email: string;  // "arul@domain.com" - email address
+  last_email_snippet: string;       // "Send me the Q4 update..." - email preview
+
+  // v2.1: Added is_read for unread indicator
+  is_read: boolean;                 // false = show orange dot
+
+  // Optional fields
+  category?: string;
+  user_category?: string;           // v2.2: User override category
+  email_count?: number;
+
+  // v2.2: Labels for thread
+  labels?: ThreadLabel[];
+}
+
+// ======================================================
+// SNOOZES
+// ======================================================
+
+// 'returned' = woke up and is pinned to the top of its category until opened
+export type SnoozeStatus = 'snoozed' | 'returned';
+
+// A snoozed thread (users/{uid}/snoozes/{threadId}) after conversion
+export interface ThreadSnooze {
+  thread_id: string;
+  snoozed_until: string | null;   // ISO date - null when only waiting for a reply
+  until_reply: boolean;           // Also wake up when someone else replies
+  category: string;               // URGENT / IMPORTANT / OTHERS - where it comes back to
+  status: SnoozeStatus;
+  snoozed_at: string;             // ISO date
+  returned_at: string | null;     // ISO date
+  thread: Thread;                 // Snapshot taken when snoozed (Snoozed page)
+}
+
+// ======================================================
+// EMAILS
+// ======================================================
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  storage_path?: string;
+  url?: string;
 }
 
-export interface Email {
+// An email document (users/{uid}/emails/{id}) after conversion.
+// UI rows use the `Email` view model in components/inbox/types.ts, built from this.
+export interface EmailMessage {
   id: string;
-  messageId: string;
+  thread_id: string;
+  message_id: string | null;      // Gmail Message-ID (tracking lookup)
   subject: string;
-  from: any;
-  from_email?: string;
-  from_name?: string;
+  from: string;                   // Raw "Name <address>"
+  from_name: string;
+  from_email: string;
   to: string[];
-  date: any;
-  body_plain: string;
-  body_html: string;
-  ai_summary: string;
+  to_names: string[];
+  cc: string[];
+  bcc: string[];                  // Only known for mail the user sent
+  reply_to: string | null;
   snippet: string;
-  category: string;
+  body_html: string;
+  body_plain: string;
+  internal_date: number;          // Epoch ms, 0 when unknown
+  is_read: boolean;
   is_sent: boolean;
-  attachments?: Attachment[];
-}
-
-export interface Attachment {
-  filename: string;
-  name: string;
-  mimeType: string;
+  has_attachment: boolean;
+  attachments: Attachment[];
+  gmail_labels: string[];
+  category: string;
+  user_category?: string;
+  user_category_at?: string;
+  category_source?: string;       // 'ai' | 'user' | 'sender_rule'
+  user_marked_done: boolean;
+  deleted: boolean;
+  deleted_at: number | null;      // Epoch ms
+  outpost_user_photo: string | null;
+  outpost_recipient_photo: string | null;
+  unsubscribe_url: string | null;
+  authentication_results: string | null; // Raw Authentication-Results header (SPF/DKIM/DMARC)
 }
 
-export type CategoryType = "Urgent" | "Important" | "Promises" | "Awaiting" | "Others";
\ No newline at end of file
+export type CategoryType = "Urgent" | "Important" | "Promises" | "Awaiting" | "Others";
@@ -5,6 +5,7 @@ export interface UserProfile {
   email: string;
   pictureUrl?: string;  // Google profile picture URL
   timezone?: string;  // NEW: User's timezone (e.g., "Asia/Kolkata")
+  language?: string;  // UI language code (e.g., "de") - see i18n/LANGUAGES
   createdAt: Date;
   lastActivity: Date;
 }
@@ -16,6 +17,7 @@ export interface UserProfileFirestore {
   email: string;
   pictureUrl?: string;  // Google profile picture URL
   timezone?: string;  // NEW: User's timezone
+  language?: string;  // UI language code
   createdAt: string; // ISO string for Firestore
   lastActivity: string; // ISO string for Firestore
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+// utils/attachments.ts - Attachment kinds, fetching and downloads for previews
+// Used by hooks/useAttachmentContent.ts, components/attachments/* and pages/Attachments.tsx
+//
+// - Direct Auth attachments have a plain URL (usable as <img>/<video> src)
+// - Composio attachments are served by our API and need the Firebase ID token,
+//   so they're fetched as a blob and previewed from an object URL
+
+import type { Attachment } from '@/types/inbox';
+import { apiRequestBlob } from '@/services/apiClient';
+
+// ======================================================
+// KINDS
+// ======================================================
+
+export type AttachmentKind = 'image' | 'pdf' | 'text' | 'audio' | 'video' | 'other';
+
+export const ATTACHMENT_KINDS: AttachmentKind[] = ['image', 'pdf', 'text', 'audio', 'video', 'other'];
+
+// Text previews stop here - the rest is only in the download
+export const MAX_TEXT_PREVIEW_BYTES = 256 * 1024;
+
+// Content types are often missing or "application/octet-stream" - the extension decides then
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', bmp: 'image', svg: 'image', avif: 'image',
+  pdf: 'pdf',
+  txt: 'text', csv: 'text', tsv: 'text', log: 'text', md: 'text', json: 'text', xml: 'text', ics: 'text', vcf: 'text',
+  mp3: 'audio', wav: 'audio', ogg: 'audio', m4a: 'audio', aac: 'audio', flac: 'audio',
+  mp4: 'video', webm: 'video', mov: 'video', m4v: 'video', ogv: 'video',
+};
+
+function extensionOf(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? filename.slice(dot + 1).toLowerCase() : '';
+}
+
+export function getAttachmentKind(attachment: Pick<Attachment, 'filename' | 'content_type'>): AttachmentKind {
+  const type = (attachment.content_type || '').toLowerCase();
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf') return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json' || type === 'application/xml') return 'text';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  return EXTENSION_KINDS[extensionOf(attachment.filename)] || 'other';
+}
+
+export function isCsvAttachment(attachment: Pick<Attachment, 'filename' | 'content_type'>): boolean {
+  const type = (attachment.content_type || '').toLowerCase();
+  const extension = extensionOf(attachment.filename);
+  return type === 'text/csv' || type === 'text/tab-separated-values' || extension === 'csv' || extension === 'tsv';
+}
+
+// Composio attachment URLs need an auth header - they can't be used as <img src>
+export const isComposioAttachmentUrl = (url: string | undefined): boolean => {
+  if (!url) return false;
+  return url.includes('/api/composio/attachments/');
+};
+
+// ======================================================
+// FETCHING
+// ======================================================
+
+/**
+ * Attachment contents as a blob
+ * Composio URLs go through apiClient (ID token, 401 refresh, retries); plain URLs need no auth
+ */
+export async function fetchAttachmentBlob(
+  attachment: Pick<Attachment, 'url' | 'filename' | 'content_type'>,
+  signal?: AbortSignal
+): Promise<Blob> {
+  if (!attachment.url) throw new Error('Attachment has no URL');
+
+  let blob: Blob;
+  if (isComposioAttachmentUrl(attachment.url)) {
+    blob = await apiRequestBlob(attachment.url, { signal });
+  } else {
+    const response = await fetch(attachment.url, { signal });
+    if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+    blob = await response.blob();
+  }
+
+  // Servers often answer with octet-stream - keep the attachment's type so previews render.
+  // A PDF is always typed as one: the sender's content_type could turn the blob: URL
+  // into an HTML page on our origin (invoice.pdf sent as text/html)
+  const type = getAttachmentKind(attachment) === 'pdf' ? 'application/pdf' : attachment.content_type;
+  return type && blob.type !== type ? new Blob([blob], { type }) : blob;
+}
+
+/**
+ * Save an attachment under its own file name
+ */
+export async function downloadAttachment(attachment: Pick<Attachment, 'url' | 'filename' | 'content_type'>): Promise<void> {
+  if (!attachment.url) return;
+
+  const link = document.createElement('a');
+  link.download = attachment.filename;
+
+  if (!isComposioAttachmentUrl(attachment.url)) {
+    link.href = attachment.url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    return;
+  }
+
+  const blobUrl = window.URL.createObjectURL(await fetchAttachmentBlob(attachment));
+  link.href = blobUrl;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(blobUrl);
+}
+
+// ======================================================
+// CSV
+// ======================================================
+
+/**
+ * Rows of a CSV/TSV file (quoted fields, escaped quotes and quoted line breaks supported)
+ */
+export function parseCsv(text: string, maxRows = 500): string[][] {
+  const firstLine = text.split('\n', 1)[0];
+  const delimiter = firstLine.split('\t').length > firstLine.split(',').length ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,153 @@
+// utils/commandPalette.ts - Command palette (Cmd+K) commands, fuzzy matching and recents
+// ✅ One command shape for everything the palette can run
+// ✅ Fuzzy matching ("mkdn" → "Mark as done"), word starts and runs score higher
+// ✅ Recently used commands float to the top, remembered on this device
+//
+// Commands are registered by whatever is on screen (see context/CommandPaletteContext):
+// GlobalCommands adds navigation and compose, Inbox adds the selected thread's actions.
+
+import type { ComponentType } from 'react';
+import type { ShortcutAction } from './shortcuts';
+
+// ======================================================
+// COMMANDS
+// ======================================================
+
+/**
+ * Palette sections, in display order:
+ * - thread:     acts on the open thread (or the checked threads)
+ * - labels:     apply / remove a label on the open thread
+ * - category:   move the open thread to another category
+ * - actions:    app-wide actions (compose, sender rules...)
+ * - navigation: pages and labels to go to
+ */
+export type CommandGroup = 'thread' | 'labels' | 'category' | 'actions' | 'navigation';
+
+export const COMMAND_GROUPS: CommandGroup[] = ['thread', 'labels', 'category', 'actions', 'navigation'];
+
+export interface PaletteCommand {
+  id: string;                  // Stable across renders - used for recents
+  group: CommandGroup;
+  label: string;
+  keywords?: string[];         // Extra words to match ("trash" for Delete)
+  icon?: ComponentType<{ className?: string }>;
+  shortcut?: ShortcutAction;   // Shows the bound keys next to the command
+  perform: () => void;
+}
+
+// ======================================================
+// FUZZY MATCHING
+// ======================================================
+
+/**
+ * How well `query` matches `text` - 0 when it doesn't.
+ * Every query character must appear in order; consecutive characters and
+ * characters at the start of a word score extra. Longer texts rank lower,
+ * but any match stays above 0.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.trim().toLowerCase();
+  const target = text.toLowerCase();
+  if (!q) return 1;
+
+  // Exact substring beats any scattered match
+  const index = target.indexOf(q);
+  if (index !== -1) {
+    return withLengthPenalty(100 + (index === 0 ? 50 : 0) + (isWordStart(target, index) ? 25 : 0), target);
+  }
+
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of q) {
+    if (char === ' ') continue;
+    const found = target.indexOf(char, position);
+    if (found === -1) return 0;
+
+    run = found === position ? run + 1 : 0;
+    score += 1 + run * 2 + (isWordStart(target, found) ? 5 : 0);
+    position = found + 1;
+  }
+  return withLengthPenalty(score, target);
+}
+
+// Divides rather than subtracts, so a long label with a scattered match isn't dropped as a non-match
+function withLengthPenalty(score: number, target: string): number {
+  return score / (1 + target.length * 0.01);
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s\-_/:]/.test(text[index - 1]);
+}
+
+// ======================================================
+// RECENTS
+// ======================================================
+
+const STORAGE_KEY = 'outpost_recent_commands';
+const MAX_RECENTS = 20;
+
+// Most recent first
+function loadRecents(): string[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+let recents: string[] = loadRecents();
+
+export function getRecentCommandIds(): string[] {
+  return recents;
+}
+
+export function recordCommandUse(id: string): void {
+  recents = [id, ...recents.filter(recent => recent !== id)].slice(0, MAX_RECENTS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recents));
+  } catch {
+    // Not persisted - still ranked for this session
+  }
+}
+
+// ======================================================
+// RANKING
+// ======================================================
+
+// Bonus for the most recent command, fading out over the list
+const RECENT_BONUS = 40;
+
+/**
+ * Commands matching `query`, best first. Recently used commands get a boost so
+ * the one you ran yesterday wins a tie with one you never use.
+ */
+export function rankCommands(commands: PaletteCommand[], query: string): PaletteCommand[] {
+  const scored = commands
+    .map(command => {
+      const match = Math.max(
+        fuzzyScore(query, command.label),
+        ...(command.keywords || []).map(keyword => fuzzyScore(query, keyword) * 0.8)
+      );
+      const recentIndex = recents.indexOf(command.id);
+      const recency = recentIndex === -1 ? 0 : RECENT_BONUS * (1 - recentIndex / MAX_RECENTS);
+      return { command, match, score: match + recency };
+    })
+    .filter(entry => entry.match > 0);
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored.map(entry => entry.command);
+}
+
+/**
+ * Recently used commands that are available right now, most recent first.
+ */
+export function getRecentCommands(commands: PaletteCommand[], limit: number = 5): PaletteCommand[] {
+  const byId = new Map(commands.map(command => [command.id, command]));
+  return recents
+    .map(id => byId.get(id))
+    .filter((command): command is PaletteCommand => !!command)
+    .slice(0, limit);
+}
@@ -0,0 +1,327 @@
+// utils/dateTime.ts - Single place to parse and format dates
+// ✅ Every timestamp shape → Date: Firestore Timestamp, { seconds }, Date, epoch ms, ms strings, ISO strings
+// ✅ Formatting in the user's timezone (Settings → Timezone) and language (Settings → Language)
+// ✅ Calendar math (today / yesterday / this week) done in that timezone, not the browser's
+//
+// Preferences are module state: AuthContext keeps them in sync with the user profile.
+// Components that format during render can subscribe with useDateTimePreferences().
+
+import { t } from '@/i18n';
+
+// ======================================================
+// PREFERENCES
+// ======================================================
+
+export interface DateTimePreferences {
+  timeZone: string;  // IANA name, e.g. "Asia/Kolkata"
+  locale: string;    // BCP 47 tag, e.g. "en-US"
+}
+
+const DEFAULT_LOCALE = 'en-US';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(DEFAULT_LOCALE, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let preferences: DateTimePreferences = {
+  timeZone: getBrowserTimeZone(),
+  locale: DEFAULT_LOCALE,
+};
+
+const listeners = new Set<() => void>();
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+export function getDateTimePreferences(): DateTimePreferences {
+  return preferences;
+}
+
+/**
+ * Update the timezone/locale used by every formatter.
+ * Invalid timezones fall back to the browser's.
+ */
+export function setDateTimePreferences(update: Partial<DateTimePreferences>): void {
+  let timeZone = update.timeZone ?? preferences.timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    console.warn(`⚠️ Unknown timezone "${timeZone}" - using the browser timezone`);
+    timeZone = getBrowserTimeZone();
+  }
+  const locale = update.locale ?? preferences.locale;
+
+  if (timeZone === preferences.timeZone && locale === preferences.locale) return;
+
+  preferences = { timeZone, locale };
+  formatterCache.clear();
+  console.log(`🕐 Date/time preferences: ${timeZone} (${locale})`);
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToDateTimePreferences(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Intl formatters are expensive to build - reuse them per option set
+function getFormatter(
+  options: Intl.DateTimeFormatOptions,
+  locale: string = preferences.locale
+): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, {
+      ...options,
+      timeZone: preferences.timeZone,
+    });
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+// ======================================================
+// PARSING
+// ======================================================
+
+/**
+ * Any stored date representation → Date (null when missing/invalid).
+ * Handles Timestamp, { seconds }, Date, epoch ms numbers, ms strings
+ * (Gmail internal_date) and ISO/date strings.
+ */
+export function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  let date: Date;
+
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'number') {
+    date = new Date(value);
+  } else if (typeof value === 'string') {
+    // Gmail internal_date is stored as a ms string
+    date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  } else if (typeof value === 'object') {
+    const timestamp = value as { toDate?: () => Date; seconds?: number };
+    if (typeof timestamp.toDate === 'function') {
+      date = timestamp.toDate();
+    } else if (typeof timestamp.seconds === 'number') {
+      date = new Date(timestamp.seconds * 1000);
+    } else {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Any stored date representation → epoch ms (0 when unknown).
+ */
+export function toMillis(value: unknown): number {
+  return toDate(value)?.getTime() ?? 0;
+}
+
+/**
+ * Date field → string. Strings are kept as stored; Timestamps/numbers become ISO.
+ */
+export function toDateString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  const date = toDate(value);
+  return date ? date.toISOString() : '';
+}
+
+/**
+ * Sort comparator: newest first. Unknown dates sort last.
+ */
+export function compareDatesDesc(a: unknown, b: unknown): number {
+  return toMillis(b) - toMillis(a);
+}
+
+// ======================================================
+// CALENDAR (in the user's timezone)
+// ======================================================
+
+interface CalendarDay {
+  year: number;
+  month: number;    // 1-12
+  day: number;
+  weekday: number;  // 0 = Sunday
+  index: number;    // Days since epoch - for day arithmetic
+}
+
+function getCalendarDay(date: Date): CalendarDay {
+  // Fixed locale: only the numbers matter here, and they must be Latin digits
+  const parts = getFormatter({ year: 'numeric', month: 'numeric', day: 'numeric' }, DEFAULT_LOCALE).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  const year = part('year');
+  const month = part('month');
+  const day = part('day');
+  const utcMidnight = Date.UTC(year, month - 1, day);
+
+  return {
+    year,
+    month,
+    day,
+    weekday: new Date(utcMidnight).getUTCDay(),
+    index: Math.round(utcMidnight / DAY_MS),
+  };
+}
+
+/**
+ * Calendar days between `value` and now: 0 = today, 1 = yesterday, -1 = tomorrow.
+ * Null when the date is unknown.
+ */
+export function getDaysAgo(value: unknown, now: Date = new Date()): number | null {
+  const date = toDate(value);
+  if (!date) return null;
+  return getCalendarDay(now).index - getCalendarDay(date).index;
+}
+
+export function isToday(value: unknown): boolean {
+  return getDaysAgo(value) === 0;
+}
+
+// ======================================================
+// FORMATTING
+// ======================================================
+
+/**
+ * "3:45 PM"
+ */
+export function formatTimeOfDay(value: unknown): string {
+  const date = toDate(value);
+  if (!date) return '';
+  return getFormatter({ hour: 'numeric', minute: '2-digit' }).format(date);
+}
+
+/**
+ * "Dec 8, 2025"
+ */
+export function formatFullDate(value: unknown): string {
+  const date = toDate(value);
+  if (!date) return '';
+  return getFormatter({ month: 'short', day: 'numeric', year: 'numeric' }).format(date);
+}
+
+/**
+ * "Dec 8, 2025, 3:45 PM" - or "Mon, Dec 8, 2025, 3:45 PM" with `weekday`
+ */
+export function formatDateTime(
+  value: unknown,
+  options: { weekday?: boolean; year?: boolean } = {}
+): string {
+  const { weekday = false, year = true } = options;
+  const date = toDate(value);
+  if (!date) return '';
+  return getFormatter({
+    ...(weekday && { weekday: 'short' as const }),
+    month: 'short',
+    day: 'numeric',
+    ...(year && { year: 'numeric' as const }),
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Compact time for list rows.
+ * "3:45 PM" today, "Yesterday", then "Dec 8" (or "Mon" within the last week with `weekdays`)
+ */
+export function formatListTime(value: unknown, options: { weekdays?: boolean } = {}): string {
+  const date = toDate(value);
+  if (!date) return '';
+
+  const daysAgo = getDaysAgo(date);
+  if (daysAgo <= 0) return formatTimeOfDay(date);
+  if (daysAgo === 1) return t('time.yesterday');
+  if (options.weekdays && daysAgo < 7) return getFormatter({ weekday: 'short' }).format(date);
+  return getFormatter({ month: 'short', day: 'numeric' }).format(date);
+}
+
+/**
+ * "just now", "5m ago", "2h ago", "3d ago", then "Dec 15" ("Dec 15, 3:45 PM" with `withTime`)
+ */
+export function formatRelativeTime(value: unknown, options: { withTime?: boolean } = {}): string {
+  const date = toDate(value);
+  if (!date) return '';
+
+  const diffMs = Date.now() - date.getTime();
+  const diffMinutes = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMinutes / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMinutes < 1) return t('time.justNow');
+  if (diffMinutes < 60) return t('time.minutesAgo', { count: diffMinutes });
+  if (diffHours < 24) return t('time.hoursAgo', { count: diffHours });
+  if (diffDays < 7) return t('time.daysAgo', { count: diffDays });
+
+  return options.withTime
+    ? formatDateTime(date, { year: false })
+    : getFormatter({ month: 'short', day: 'numeric' }).format(date);
+}
+
+/**
+ * Future times (scheduled sends): "Today at 3:45 PM", "Tomorrow at 9:00 AM", "Mon, Dec 8 at 9:00 AM"
+ */
+export function formatScheduledTime(value: unknown): string {
+  const date = toDate(value);
+  if (!date) return typeof value === 'string' ? value : '';
+
+  const timeStr = formatTimeOfDay(date);
+  const daysAgo = getDaysAgo(date);
+
+  if (daysAgo === 0) return t('time.todayAt', { time: timeStr });
+  if (daysAgo === -1) return t('time.tomorrowAt', { time: timeStr });
+
+  const dateStr = getFormatter({ weekday: 'short', month: 'short', day: 'numeric' }).format(date);
+  return t('time.dateAt', { date: dateStr, time: timeStr });
+}
+
+/**
+ * Section label for date-grouped lists:
+ * "Today", "Yesterday", "Mon 9" (this week / earlier this month), "Last Week", "Last Month", "December 2024"
+ */
+export function getDateGroupLabel(value: unknown): string {
+  const date = toDate(value);
+  if (!date) return t('time.other');
+
+  const today = getCalendarDay(new Date());
+  const item = getCalendarDay(date);
+  const daysAgo = today.index - item.index;
+
+  const startOfWeek = today.index - today.weekday; // Sunday of this week
+  const startOfLastWeek = startOfWeek - 7;
+  const sameMonth = item.year === today.year && item.month === today.month;
+  const lastMonth = today.month === 1
+    ? item.year === today.year - 1 && item.month === 12
+    : item.year === today.year && item.month === today.month - 1;
+
+  const dayLabel = () => `${getFormatter({ weekday: 'short' }).format(date)} ${item.day}`;
+
+  if (daysAgo <= 0) return t('time.today');
+  if (daysAgo === 1) return t('time.yesterday');
+  if (item.index >= startOfWeek) return dayLabel();
+  if (item.index >= startOfLastWeek) return t('time.lastWeek');
+  if (sameMonth) return dayLabel();
+  if (lastMonth) return t('time.lastMonth');
+  return getFormatter({ month: 'long', year: 'numeric' }).format(date);
+}
@@ -0,0 +1,145 @@
+// utils/drafts.ts - Draft content helpers for autosave (hooks/useDraftAutosave.ts)
+// Comparing two versions, merging a conflict between tabs, and the crash-recovery
+// copy kept in localStorage until the draft reaches Firestore
+
+import type { DraftData } from '@/services/draftApi';
+
+// The part of a draft the user edits - what autosave compares and merges
+export type DraftContent = Pick<DraftData, 'to' | 'cc' | 'bcc' | 'subject' | 'body_html' | 'body_plain' | 'attachments'>;
+
+export function getDraftContent(draft: DraftContent): DraftContent {
+  return {
+    to: draft.to || [],
+    cc: draft.cc || [],
+    bcc: draft.bcc || [],
+    subject: draft.subject || '',
+    body_html: draft.body_html || '',
+    body_plain: draft.body_plain || '',
+    attachments: draft.attachments || [],
+  };
+}
+
+// Stable string for "has anything changed" checks
+export function draftContentKey(draft: DraftContent): string {
+  const content = getDraftContent(draft);
+  return JSON.stringify([
+    content.to,
+    content.cc,
+    content.bcc,
+    content.subject,
+    content.body_html,
+    content.attachments.map(a => a.id),
+  ]);
+}
+
+// ======================================================
+// MERGE (same draft edited in two tabs)
+// ======================================================
+
+function mergeAddresses(mine: string[], theirs: string[]): string[] {
+  const seen = new Set(mine.map(address => address.toLowerCase()));
+  return [...mine, ...theirs.filter(address => !seen.has(address.toLowerCase()))];
+}
+
+function mergeText(mine: string, theirs: string, separator: string): string {
+  if (!mine.trim()) return theirs;
+  if (!theirs.trim() || mine.includes(theirs)) return mine;
+  if (theirs.includes(mine)) return theirs;
+  return `${mine}${separator}${theirs}`;
+}
+
+/**
+ * Combine both versions: every recipient and attachment from either side,
+ * our subject (theirs if ours is empty), and both bodies unless one already contains the other
+ */
+export function mergeDrafts(mine: DraftContent, theirs: DraftContent): DraftContent {
+  const a = getDraftContent(mine);
+  const b = getDraftContent(theirs);
+  const attachmentIds = new Set(a.attachments.map(attachment => attachment.id));
+
+  // Decide on the plain text so HTML and text stay in step
+  const plainMerged = mergeText(a.body_plain, b.body_plain, '\n\n---\n\n');
+  const body_html = plainMerged === a.body_plain ? a.body_html
+    : plainMerged === b.body_plain ? b.body_html
+    : `${a.body_html}<hr>${b.body_html}`;
+
+  return {
+    to: mergeAddresses(a.to, b.to),
+    cc: mergeAddresses(a.cc, b.cc),
+    bcc: mergeAddresses(a.bcc, b.bcc),
+    subject: a.subject.trim() ? a.subject : b.subject,
+    body_html,
+    body_plain: plainMerged,
+    attachments: [...a.attachments, ...b.attachments.filter(attachment => !attachmentIds.has(attachment.id))],
+  };
+}
+
+// ======================================================
+// LOCAL RECOVERY COPY
+// ======================================================
+
+// Stored per account: outpost_draft_recovery:<uid>/<key>
+const STORAGE_PREFIX = 'outpost_draft_recovery:';
+const RECOVERY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export interface DraftRecovery {
+  content: DraftContent;
+  draftId?: string;     // Firestore draft it belongs to, if it was saved at least once
+  savedAt: number;      // Epoch ms
+}
+
+function storageKey(uid: string, key: string): string {
+  return `${STORAGE_PREFIX}${uid}/${key}`;
+}
+
+export function loadDraftRecovery(uid: string | undefined, key: string): DraftRecovery | null {
+  if (!uid) return null;
+  try {
+    const saved = localStorage.getItem(storageKey(uid, key));
+    if (!saved) return null;
+    const parsed = JSON.parse(saved) as DraftRecovery;
+    if (!parsed?.content || typeof parsed.savedAt !== 'number') return null;
+    if (Date.now() - parsed.savedAt > RECOVERY_MAX_AGE_MS) {
+      localStorage.removeItem(storageKey(uid, key));
+      return null;
+    }
+    return { ...parsed, content: getDraftContent(parsed.content) };
+  } catch (error) {
+    console.warn('⚠️ Ignoring saved draft copy:', error);
+    return null;
+  }
+}
+
+export function saveDraftRecovery(uid: string | undefined, key: string, recovery: DraftRecovery): void {
+  if (!uid) return;
+  try {
+    localStorage.setItem(storageKey(uid, key), JSON.stringify(recovery));
+  } catch {
+    // Storage full or blocked - Firestore autosave still runs
+  }
+}
+
+export function clearDraftRecovery(uid: string | undefined, key: string): void {
+  if (!uid) return;
+  try {
+    localStorage.removeItem(storageKey(uid, key));
+  } catch {
+    // Nothing to clear
+  }
+}
+
+/**
+ * Drop every local draft copy of a user - called from logOut.
+ * Copies saved before they were stored per account (no uid in the key) go too.
+ */
+export function clearAllDraftRecoveries(uid: string): void {
+  try {
+    const userPrefix = `${STORAGE_PREFIX}${uid}/`;
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+      .filter((key): key is string => !!key?.startsWith(STORAGE_PREFIX))
+      .filter((key) => key.startsWith(userPrefix) || !key.slice(STORAGE_PREFIX.length).includes('/'));
+    keys.forEach((key) => localStorage.removeItem(key));
+  } catch {
+    // Storage blocked - nothing was saved
+  }
+}
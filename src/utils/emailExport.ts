@@ -0,0 +1,145 @@
+// utils/emailExport.ts - Export messages as .eml and .mbox
+// Used by hooks/useEmailExport.ts
+//
+// - .eml: the original source when the backend has it, otherwise an RFC 5322 message
+//   rebuilt from the stored fields (attachment contents are not stored - they're listed instead)
+// - .mbox: mboxrd - one "From " envelope line per message, body lines starting with "From " quoted
+
+import { parseRawHeaders, getHeaderValues } from './rawEmail';
+import { toDate } from './dateTime';
+import { extractEmailAddress } from './formatters';
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export interface ExportAttachment {
+  filename: string;
+  size: number;
+}
+
+// One message in export-ready shape (built from the API response)
+export interface ExportMessage {
+  from: string;              // "Name <address>"
+  to: string[];
+  cc: string[];
+  subject: string;
+  date: unknown;             // Anything utils/dateTime understands
+  messageId: string | null;
+  html: string;
+  text: string;
+  attachments: ExportAttachment[];
+}
+
+const CRLF = '\r\n';
+
+// ======================================================
+// .EML (RFC 5322)
+// ======================================================
+
+function toBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  // Chunked - String.fromCharCode(...bytes) overflows the stack on large bodies
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Base64 body lines are at most 76 characters
+function wrapBase64(value: string): string {
+  return (toBase64(value).match(/.{1,76}/g) || []).join(CRLF);
+}
+
+// Non-ASCII header text as an RFC 2047 encoded word
+function encodeHeaderText(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+// "Zoë <zoe@example.com>" → "=?UTF-8?B?...?= <zoe@example.com>"
+function encodeAddress(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match) return value.trim();
+  const [, name, address] = match;
+  if (!name) return `<${address}>`;
+  const encodedName = encodeHeaderText(name);
+  // Names with specials (",", ".", ...) are quoted
+  const displayName = encodedName === name && /[()<>@,;:\\".[\]]/.test(name) ? `"${name}"` : encodedName;
+  return `${displayName} <${address}>`;
+}
+
+function formatRfc5322Date(value: unknown): string {
+  const date = toDate(value) || new Date(0);
+  // "Tue, 14 Oct 2025 17:11:01 GMT" - GMT is a valid (obsolete) zone in RFC 5322
+  return date.toUTCString();
+}
+
+/**
+ * Rebuild an RFC 5322 message from stored fields (when the original source isn't available)
+ */
+export function buildEml(message: ExportMessage): string {
+  const boundary = `outpost-${Math.random().toString(36).slice(2)}`;
+  const headers = [
+    `Date: ${formatRfc5322Date(message.date)}`,
+    `From: ${encodeAddress(message.from)}`,
+    message.to.length > 0 && `To: ${message.to.map(encodeAddress).join(', ')}`,
+    message.cc.length > 0 && `Cc: ${message.cc.map(encodeAddress).join(', ')}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    message.messageId && `Message-ID: ${message.messageId.startsWith('<') ? message.messageId : `<${message.messageId}>`}`,
+    message.attachments.length > 0 &&
+      `X-Outpost-Attachments-Omitted: ${encodeHeaderText(message.attachments.map(a => a.filename).join(', '))}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ].filter(Boolean);
+
+  const part = (type: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset="UTF-8"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(content),
+  ].join(CRLF);
+
+  const parts = [part('text/plain', message.text || '')];
+  if (message.html) parts.push(part('text/html', message.html));
+
+  return [...headers, '', ...parts, `--${boundary}--`, ''].join(CRLF);
+}
+
+// ======================================================
+// .MBOX (mboxrd)
+// ======================================================
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// asctime() format used on the envelope line: "Tue Oct 14 17:11:01 2025"
+function formatAsctime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * One mbox entry for a raw message - envelope sender and date come from its headers
+ */
+export function toMboxEntry(raw: string): string {
+  const headers = parseRawHeaders(raw);
+  const sender = extractEmailAddress(getHeaderValues(headers, 'From')[0] || '') || 'MAILER-DAEMON';
+  const date = toDate(getHeaderValues(headers, 'Date')[0]) || new Date(0);
+
+  const body = raw
+    .replace(/\r\n/g, '\n')
+    // mboxrd: quote "From " lines (and already quoted ones) so they can be unquoted exactly
+    .replace(/^(>*From )/gm, '>$1');
+
+  return `From ${sender} ${formatAsctime(date)}\n${body}${body.endsWith('\n') ? '' : '\n'}\n`;
+}
+
+/**
+ * A single .mbox file for many raw messages
+ */
+export function buildMbox(rawMessages: string[]): string {
+  return rawMessages.map(toMboxEntry).join('');
+}
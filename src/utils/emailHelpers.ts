@@ -1,48 +1,70 @@
 // utils/emailHelpers.ts - Email content processing utilities
 
+export interface QuotedReplySplit {
+  main: string;   // The new content of the email
+  quoted: string; // Quoted history (empty if none was found)
+}
+
+// Each pattern matches from the start of the quote to the end of the body
+const HTML_QUOTE_PATTERNS = [
+  // Gmail quote class
+  /<div[^>]*class="[^"]*gmail_quote[^"]*"[^>]*>[\s\S]*$/i,
+  /<blockquote[^>]*class="[^"]*gmail_quote[^"]*"[^>]*>[\s\S]*$/i,
+  // Outlook quote patterns
+  /<div[^>]*id="appendonsend"[^>]*>[\s\S]*$/i,
+  /<hr[^>]*>[\s\S]*<div[^>]*id="divRplyFwdMsg"[^>]*>[\s\S]*$/i,
+  // ReplyModal border-left style quotes (double quotes in style)
+  /<br\s*\/?>\s*<br\s*\/?>\s*<div\s+style\s*=\s*"[^"]*border-left[^"]*"[^>]*>[\s\S]*$/i,
+  /<div\s+style\s*=\s*"[^"]*border-left:\s*2px\s+solid[^"]*"[^>]*>[\s\S]*$/i,
+  // ReplyModal border-left style quotes (single quotes in style)
+  /<br\s*\/?>\s*<br\s*\/?>\s*<div\s+style\s*=\s*'[^']*border-left[^']*'[^>]*>[\s\S]*$/i,
+  /<div\s+style\s*=\s*'[^']*border-left:\s*2px\s+solid[^']*'[^>]*>[\s\S]*$/i,
+];
+
+const TEXT_QUOTE_PATTERNS = [
+  /\n*On .{10,100} wrote:\s*\n[\s\S]*$/i,
+  /\n*On .{10,100} wrote:\s*>[\s\S]*$/i,
+  /\n*-{3,}\s*Original Message\s*-{3,}[\s\S]*$/i,
+  /\n*_{3,}\s*\nFrom:[\s\S]*$/i,
+];
+
 /**
- * Strip quoted reply content from email body
+ * Split an email body into its new content and the quoted reply history
  * Handles Gmail, Outlook, and ReplyModal formats
  * @param body - Email body (HTML or plain text)
  * @param isHtml - Whether body is HTML
- * @returns Cleaned body without quoted replies
+ * @returns The new content and the quoted history, both trimmed
  */
-export function stripQuotedReply(body: string, isHtml: boolean): string {
-  if (!body) return '';
-  
+export function splitQuotedReply(body: string, isHtml: boolean): QuotedReplySplit {
+  if (!body) return { main: '', quoted: '' };
+
+  let main = body;
+  let quoted = '';
+  for (const pattern of isHtml ? HTML_QUOTE_PATTERNS : TEXT_QUOTE_PATTERNS) {
+    const match = pattern.exec(main);
+    if (match) {
+      quoted = main.slice(match.index) + quoted;
+      main = main.slice(0, match.index);
+    }
+  }
+
   if (isHtml) {
-    let cleaned = body
-      // Gmail quote class
-      .replace(/<div[^>]*class="[^"]*gmail_quote[^"]*"[^>]*>[\s\S]*$/gi, '')
-      .replace(/<blockquote[^>]*class="[^"]*gmail_quote[^"]*"[^>]*>[\s\S]*$/gi, '')
-      .replace(/<div[^>]*class="[^"]*gmail_attr[^"]*"[^>]*>[\s\S]*?<\/div>/gi, '')
-      // Outlook quote patterns
-      .replace(/<div[^>]*id="appendonsend"[^>]*>[\s\S]*$/gi, '')
-      .replace(/<hr[^>]*>[\s\S]*<div[^>]*id="divRplyFwdMsg"[^>]*>[\s\S]*$/gi, '')
-      // ReplyModal border-left style quotes (double quotes in style)
-      .replace(/<br\s*\/?>\s*<br\s*\/?>\s*<div\s+style\s*=\s*"[^"]*border-left[^"]*"[^>]*>[\s\S]*$/gi, '')
-      .replace(/<div\s+style\s*=\s*"[^"]*border-left:\s*2px\s+solid[^"]*"[^>]*>[\s\S]*$/gi, '')
-      // ReplyModal border-left style quotes (single quotes in style)
-      .replace(/<br\s*\/?>\s*<br\s*\/?>\s*<div\s+style\s*=\s*'[^']*border-left[^']*'[^>]*>[\s\S]*$/gi, '')
-      .replace(/<div\s+style\s*=\s*'[^']*border-left:\s*2px\s+solid[^']*'[^>]*>[\s\S]*$/gi, '');
-    
+    // Gmail "On ... wrote:" attribution line left outside the quote
+    main = main.replace(/<div[^>]*class="[^"]*gmail_attr[^"]*"[^>]*>[\s\S]*?<\/div>/gi, '');
     // Clean up trailing <br> tags
-    cleaned = cleaned.replace(/(<br\s*\/?>\s*)+$/gi, '');
-    
-    return cleaned.trim();
-  } else {
-    const patterns = [
-      /\n*On .{10,100} wrote:\s*\n[\s\S]*$/i,
-      /\n*On .{10,100} wrote:\s*>[\s\S]*$/i,
-      /\n*-{3,}\s*Original Message\s*-{3,}[\s\S]*$/i,
-      /\n*_{3,}\s*\nFrom:[\s\S]*$/i,
-    ];
-    
-    let cleaned = body;
-    for (const pattern of patterns) {
-      cleaned = cleaned.replace(pattern, '');
-    }
-    
-    return cleaned.trim();
+    main = main.replace(/(<br\s*\/?>\s*)+$/gi, '');
   }
-}
\ No newline at end of file
+
+  return { main: main.trim(), quoted: quoted.trim() };
+}
+
+/**
+ * Strip quoted reply content from email body
+ * Handles Gmail, Outlook, and ReplyModal formats
+ * @param body - Email body (HTML or plain text)
+ * @param isHtml - Whether body is HTML
+ * @returns Cleaned body without quoted replies
+ */
+export function stripQuotedReply(body: string, isHtml: boolean): string {
+  return splitQuotedReply(body, isHtml).main;
+}
@@ -12,61 +12,6 @@ export function formatFileSize(bytes: number): string {
   return `${(bytes / Math.pow(1024, i)).toFixed(i > 0 ? 1 : 0)} ${units[i]}`;
 }
 
-/**
- * Format date to relative time string
- * @param dateString - ISO date string or null
- * @returns Formatted string like "just now", "5m ago", "2h ago", "3d ago", or "Dec 15"
- */
-export function formatRelativeTime(dateString: string | null): string {
-  if (!dateString) return '';
-  
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffSeconds = Math.floor(diffMs / 1000);
-  const diffMinutes = Math.floor(diffSeconds / 60);
-  const diffHours = Math.floor(diffMinutes / 60);
-  const diffDays = Math.floor(diffHours / 24);
-  
-  if (diffSeconds < 60) return 'just now';
-  if (diffMinutes < 60) return `${diffMinutes}m ago`;
-  if (diffHours < 24) return `${diffHours}h ago`;
-  if (diffDays < 7) return `${diffDays}d ago`;
-  
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-}
-
-/**
- * Format date for display in list items
- * @param dateStr - ISO date string
- * @returns "10:30 AM" for today, "Yesterday" for yesterday, "Dec 15" for older
- */
-export function formatDisplayTime(dateStr: string): string {
-  if (!dateStr) return '';
-  
-  const emailDate = new Date(dateStr);
-  if (isNaN(emailDate.getTime())) return '';
-
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
-
-  if (emailDate >= today) {
-    return emailDate.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
-  } else if (emailDate >= yesterday) {
-    return 'Yesterday';
-  } else {
-    return emailDate.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric' 
-    });
-  }
-}
-
 /**
  * Extract name from email string like "John Doe <john@email.com>"
  * @param emailStr - Email string in various formats
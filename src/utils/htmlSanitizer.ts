@@ -0,0 +1,187 @@
+// utils/htmlSanitizer.ts - Make received email HTML safe to render
+// Used by components/inbox/SafeEmailFrame.tsx and pages/PrintThread.tsx (which add the CSP and script-less sandbox below)
+//
+// - Removes scripts, frames, forms, embedded objects and event handler attributes
+// - Drops javascript:/vbscript:/data:text/html URLs
+// - Removes tracking pixels; holds back other remote images until the user allows them
+// - Links open in a new tab without a referrer and carry their real URL as a tooltip
+
+// ======================================================
+// TRACKING PIXELS
+// ======================================================
+
+// Known email tracking services and common pixel paths
+export const TRACKING_URL_PATTERNS = [
+  'mailtrack.io',
+  'getnotify.com',
+  'yesware.com',
+  'bananatag.com',
+  'streak.com',
+  'boomeranggmail.com',
+  'mixmax.com',
+  'mailchimp.com/track',
+  'list-manage.com/track',
+  'sendgrid.net/wf',
+  'mandrillapp.com/track',
+  't.co/i/', // Twitter/X tracking
+  'google-analytics.com',
+  'facebook.com/tr',
+  'px.ads',
+  'pixel.ad',
+  'tracking.', // Generic tracking subdomains
+  '/pixel', // Generic pixel paths
+  '/open/', // Common open tracking paths
+  '/beacon',
+  'wf/open',
+  'o.gif',
+  't.gif',
+  'blank.gif'
+];
+
+function isTinyDimension(value: string | null): boolean {
+  if (value === null) return false;
+  const size = parseInt(value, 10);
+  return !isNaN(size) && size <= 1;
+}
+
+/**
+ * Whether an <img> is a tracking pixel: a known tracker URL, 0/1px in size,
+ * or hidden with inline styles
+ */
+function isTrackingPixel(img: Element): boolean {
+  const src = (img.getAttribute('src') || '').toLowerCase();
+  if (TRACKING_URL_PATTERNS.some(pattern => src.includes(pattern))) return true;
+  if (/\/track\/[^/]+\/pixel\.gif/.test(src)) return true;
+
+  if (isTinyDimension(img.getAttribute('width')) && isTinyDimension(img.getAttribute('height'))) return true;
+  if (img.getAttribute('width') === '0' || img.getAttribute('height') === '0') return true;
+
+  const style = (img.getAttribute('style') || '').toLowerCase().replace(/\s+/g, '');
+  return /display:none|visibility:hidden|opacity:0(?![.\d])|(?:^|;)(?:width|height):[01]px/.test(style);
+}
+
+// ======================================================
+// SANITIZER
+// ======================================================
+
+// Removed with their content
+const FORBIDDEN_TAGS = [
+  'script', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'base', 'meta', 'link', 'template', 'portal', 'input', 'button', 'select', 'textarea',
+];
+
+// Removed but their content is kept
+const UNWRAPPED_TAGS = ['form'];
+
+const URL_ATTRIBUTES = ['href', 'src', 'xlink:href', 'action', 'formaction', 'background', 'poster', 'cite', 'longdesc', 'srcset'];
+
+const UNSAFE_URL = /^\s*(?:javascript|vbscript|data:(?!image\/(?:png|gif|jpe?g|webp);))/i;
+const REMOTE_URL = /^\s*(?:https?:)?\/\//i;
+const SAFE_LINK = /^\s*(?:https?:|mailto:|tel:|#)/i;
+
+export interface SanitizeOptions {
+  allowRemoteImages: boolean;
+}
+
+export interface SanitizedHtml {
+  html: string;
+  blockedImages: number;   // Remote images held back (0 when allowed)
+  trackersRemoved: number; // Tracking pixels removed (always, even when images are allowed)
+}
+
+/**
+ * Sanitize received email HTML for rendering in a sandboxed iframe
+ * @param html - Raw email body HTML
+ * @param options.allowRemoteImages - Load remote images (the user allowed them for this email or sender)
+ */
+export function sanitizeEmailHtml(html: string, { allowRemoteImages }: SanitizeOptions): SanitizedHtml {
+  if (!html) return { html: '', blockedImages: 0, trackersRemoved: 0 };
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let blockedImages = 0;
+  let trackersRemoved = 0;
+
+  doc.querySelectorAll(FORBIDDEN_TAGS.join(',')).forEach(el => el.remove());
+  doc.querySelectorAll(UNWRAPPED_TAGS.join(',')).forEach(el => el.replaceWith(...Array.from(el.childNodes)));
+
+  doc.querySelectorAll('*').forEach(el => {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith('on') || name === 'srcdoc') {
+        el.removeAttribute(attr.name);
+      } else if (URL_ATTRIBUTES.includes(name) && UNSAFE_URL.test(attr.value)) {
+        el.removeAttribute(attr.name);
+      }
+    }
+  });
+
+  doc.querySelectorAll('img').forEach(img => {
+    if (isTrackingPixel(img)) {
+      img.remove();
+      trackersRemoved++;
+      return;
+    }
+    if (!allowRemoteImages && REMOTE_URL.test(img.getAttribute('src') || '')) {
+      img.removeAttribute('src');
+      img.removeAttribute('srcset');
+      blockedImages++;
+    }
+  });
+
+  // Remote backgrounds on tables/cells (the CSP also blocks url() in styles)
+  if (!allowRemoteImages) {
+    doc.querySelectorAll('[background]').forEach(el => {
+      if (REMOTE_URL.test(el.getAttribute('background') || '')) {
+        el.removeAttribute('background');
+        blockedImages++;
+      }
+    });
+  }
+
+  doc.querySelectorAll('a').forEach(link => {
+    const href = link.getAttribute('href');
+    if (!href) return;
+    if (!SAFE_LINK.test(href)) {
+      link.removeAttribute('href');
+      return;
+    }
+    if (href.trim().startsWith('#')) return;
+    link.setAttribute('target', '_blank');
+    link.setAttribute('rel', 'noopener noreferrer');
+    link.setAttribute('title', href.trim());
+  });
+
+  // <style> in <head> is kept - many emails are laid out with it
+  const headStyles = Array.from(doc.head.querySelectorAll('style')).map(style => style.outerHTML).join('');
+
+  return {
+    html: headStyles + doc.body.innerHTML,
+    blockedImages,
+    trackersRemoved,
+  };
+}
+
+// ======================================================
+// FRAME
+// ======================================================
+
+// Scripts never run in an email frame; popups are allowed so links can open in a new tab.
+// allow-same-origin only lets the app measure the frame - without allow-scripts nothing inside can use it.
+export const EMAIL_FRAME_SANDBOX = 'allow-same-origin allow-popups allow-popups-to-escape-sandbox';
+
+/**
+ * CSP for the frame's <meta http-equiv> - blocks what the sanitizer might have missed
+ * @param imageOrigins - Extra origins images may load from while remote images are blocked (inline cid: attachments)
+ */
+export function buildEmailFrameCsp(allowRemoteImages: boolean, imageOrigins: string[] = []): string {
+  const remote = allowRemoteImages ? ' https: http:' : '';
+  const origins = !allowRemoteImages && imageOrigins.length > 0 ? ` ${imageOrigins.join(' ')}` : '';
+  return [
+    "default-src 'none'",
+    "script-src 'none'",
+    "style-src 'unsafe-inline'",
+    `img-src data: cid: blob:${remote}${origins}`,
+    `font-src data:${remote}`,
+    "form-action 'none'",
+  ].join('; ');
+}
@@ -1,38 +1,8 @@
 import type { Thread, Commitment } from "@/types/inbox";
+import { formatListTime } from "@/utils/dateTime";
 
-export const formatDate = (dateValue: any): string => {
-  if (!dateValue) return "";
-  
-  try {
-    let date: Date;
-    
-    if (typeof dateValue === 'string') {
-      date = new Date(dateValue);
-    } else if (dateValue.toDate && typeof dateValue.toDate === 'function') {
-      date = dateValue.toDate();
-    } else if (dateValue instanceof Date) {
-      date = dateValue;
-    } else {
-      return "";
-    }
-    
-    if (isNaN(date.getTime())) return "";
-    
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    
-    if (days === 0) {
-      return date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true });
-    } else if (days < 7) {
-      return date.toLocaleDateString("en-US", { weekday: "short" });
-    } else {
-      return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
-    }
-  } catch {
-    return "";
-  }
-};
+export const formatDate = (dateValue: unknown): string =>
+  formatListTime(dateValue, { weekdays: true });
 
 export const formatEmailAddress = (address: any): string => {
   if (!address) return "";
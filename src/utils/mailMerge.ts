@@ -0,0 +1,149 @@
+// utils/mailMerge.ts - Mail merge: recipient CSV, {{field}} placeholders, per-recipient rendering
+// A CSV header row names the fields; "First Name" is used as {{first_name}}.
+// Sending happens one message at a time in services/mailMergeQueue.ts
+
+import { parseCsv } from '@/utils/attachments';
+
+export const MAX_MERGE_RECIPIENTS = 500;
+
+const EMAIL_HEADERS = ['email', 'e_mail', 'email_address', 'mail'];
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface MailMergeRow {
+  email: string;
+  fields: Record<string, string>;  // By field key, plus "email"
+}
+
+export interface MailMergeList {
+  fileName: string;
+  fields: string[];        // Field keys, in column order
+  emailField: string;
+  rows: MailMergeRow[];
+  invalidLines: number[];  // CSV lines (1-based) without a usable address - left out
+  duplicates: number;      // Repeated addresses - only the first row is kept
+  truncated: boolean;      // More than MAX_MERGE_RECIPIENTS rows - the rest is left out
+}
+
+export type MailMergeParseError = 'empty' | 'noEmailColumn';
+
+export interface MailMergeProblem {
+  email: string;
+  missing: string[];       // Placeholders with no value for this recipient
+}
+
+/**
+ * Field key for a CSV header or placeholder ("First Name" → "first_name")
+ */
+export function mergeFieldKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function findEmailField(fields: string[], rows: string[][]): number {
+  const byName = fields.findIndex((field) => EMAIL_HEADERS.includes(field));
+  if (byName >= 0) return byName;
+  // No obvious header - the first column that is mostly addresses
+  return fields.findIndex((_, column) => {
+    const values = rows.map((row) => (row[column] || '').trim()).filter(Boolean);
+    return values.length > 0 && values.filter((value) => EMAIL_PATTERN.test(value)).length >= values.length / 2;
+  });
+}
+
+/**
+ * Read a recipient CSV (comma or tab separated, header row first)
+ * @returns The recipient list, or why it can't be used
+ */
+export function parseMailMergeCsv(text: string, fileName: string): { list: MailMergeList } | { error: MailMergeParseError } {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''), MAX_MERGE_RECIPIENTS + 2);
+  const dataLines = lines
+    .map((cells, index) => ({ cells, line: index + 2 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim()));
+  if (!header || dataLines.length === 0) return { error: 'empty' };
+
+  const fields = header.map(mergeFieldKey);
+  const emailColumn = findEmailField(fields, dataLines.map(({ cells }) => cells));
+  if (emailColumn < 0) return { error: 'noEmailColumn' };
+
+  const truncated = dataLines.length > MAX_MERGE_RECIPIENTS;
+  const seen = new Set<string>();
+  const rows: MailMergeRow[] = [];
+  const invalidLines: number[] = [];
+  let duplicates = 0;
+
+  for (const { cells, line } of dataLines.slice(0, MAX_MERGE_RECIPIENTS)) {
+    const email = (cells[emailColumn] || '').trim();
+    if (!EMAIL_PATTERN.test(email)) {
+      invalidLines.push(line);
+      continue;
+    }
+    if (seen.has(email.toLowerCase())) {
+      duplicates++;
+      continue;
+    }
+    seen.add(email.toLowerCase());
+
+    const values: Record<string, string> = {};
+    fields.forEach((field, column) => {
+      if (field) values[field] = (cells[column] || '').trim();
+    });
+    values.email = email;
+    rows.push({ email, fields: values });
+  }
+
+  return {
+    list: {
+      fileName,
+      fields: fields.filter(Boolean),
+      emailField: fields[emailColumn],
+      rows,
+      invalidLines,
+      duplicates,
+      truncated,
+    },
+  };
+}
+
+/**
+ * Field keys used as {{placeholders}} in any of the texts, in order of first use
+ */
+export function findPlaceholders(...texts: string[]): string[] {
+  const found = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      found.add(mergeFieldKey(match[1]));
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Recipients with an empty (or unknown) value for a placeholder the message uses
+ */
+export function findMissingFields(rows: MailMergeRow[], placeholders: string[]): MailMergeProblem[] {
+  return rows
+    .map((row) => ({
+      email: row.email,
+      missing: placeholders.filter((field) => !row.fields[field]),
+    }))
+    .filter((problem) => problem.missing.length > 0);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Fill {{placeholders}} for one recipient. HTML bodies get escaped values;
+ * subjects and plain text get them as-is.
+ */
+export function renderMerge(text: string, row: MailMergeRow, { html = false }: { html?: boolean } = {}): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = row.fields[mergeFieldKey(name)];
+    if (value === undefined) return placeholder;
+    return html ? escapeHtml(value) : value;
+  });
+}
@@ -0,0 +1,186 @@
+// utils/phishing.ts - Spoofing/phishing signals for a received email
+// Shown as a warning banner in the thread detail (components/inbox/PhishingBanner.tsx)
+//
+// - Display name claims another address, or matches a contact who uses a different address
+// - Sender domain is a lookalike of a domain the user already emails with
+// - Link text shows one domain while the link goes to another
+// - SPF/DKIM/DMARC failed (Authentication-Results header)
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export type PhishingReason =
+  | { type: 'nameMismatch'; claimed: string; address: string }
+  | { type: 'lookalikeDomain'; domain: string; resembles: string }
+  | { type: 'linkMismatch'; text: string; href: string }
+  | { type: 'authFailed'; checks: string[] };
+
+export interface PhishingCheckInput {
+  senderName: string;
+  senderEmail: string;
+  body: string;
+  authenticationResults?: string | null;
+}
+
+// Report at most this many mismatched links
+const MAX_LINK_REASONS = 2;
+
+// ======================================================
+// HELPERS
+// ======================================================
+
+function domainOf(address: string): string {
+  return address.split('@')[1]?.trim().toLowerCase() || '';
+}
+
+function hostOf(url: string): string {
+  try {
+    const withProtocol = /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+    return new URL(withProtocol).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+// Letters only - "John.Smith" and "John Smith" compare equal
+function lettersOnly(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// Collapse characters commonly swapped in lookalike domains (rn → m, 0 → o, ...)
+function skeleton(domain: string): string {
+  return domain
+    .toLowerCase()
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w')
+    .replace(/0/g, 'o')
+    .replace(/[1i|]/g, 'l')
+    .replace(/5/g, 's')
+    .replace(/-/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 2) return Infinity;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function looksLike(domain: string, known: string): boolean {
+  if (domain === known) return false;
+  if (skeleton(domain) === skeleton(known)) return true;
+  // Short domains differ legitimately by a letter (ab.com / ac.com)
+  const maxDistance = known.length >= 10 ? 2 : 1;
+  return known.length >= 6 && editDistance(domain, known) <= maxDistance;
+}
+
+// ======================================================
+// CHECKS
+// ======================================================
+
+function checkDisplayName(input: PhishingCheckInput, knownAddresses: string[]): PhishingReason | null {
+  const address = input.senderEmail.toLowerCase();
+
+  // "ceo@company.com <someone@gmail.com>"
+  const claimedAddress = input.senderName.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/)?.[0]?.toLowerCase();
+  if (claimedAddress && claimedAddress !== address) {
+    return { type: 'nameMismatch', claimed: claimedAddress, address };
+  }
+
+  // "Jane Doe <jane.doe.office@gmail.com>" when the user knows jane.doe@company.com
+  // Only person-like names - "Support" or "Billing" are shared by many senders
+  const name = lettersOnly(input.senderName);
+  if (!/\S\s+\S/.test(input.senderName.trim()) || name.length < 5 || knownAddresses.includes(address)) return null;
+  const impersonated = knownAddresses.find(known =>
+    lettersOnly(known.split('@')[0]) === name && domainOf(known) !== domainOf(address)
+  );
+  return impersonated ? { type: 'nameMismatch', claimed: impersonated, address } : null;
+}
+
+function checkLookalikeDomain(input: PhishingCheckInput, knownDomains: string[]): PhishingReason | null {
+  const domain = domainOf(input.senderEmail);
+  if (!domain || knownDomains.includes(domain)) return null;
+  const resembles = knownDomains.find(known => looksLike(domain, known));
+  return resembles ? { type: 'lookalikeDomain', domain, resembles } : null;
+}
+
+function checkLinks(body: string): PhishingReason[] {
+  if (!/<a\s/i.test(body)) return [];
+
+  const doc = new DOMParser().parseFromString(body, 'text/html');
+  const reasons: PhishingReason[] = [];
+
+  for (const link of Array.from(doc.querySelectorAll('a[href]'))) {
+    const href = link.getAttribute('href') || '';
+    const text = (link.textContent || '').trim();
+    // Only links whose text is itself a URL or domain
+    if (!/^(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}(?:[/?#]\S*)?$/i.test(text)) continue;
+    if (!/^https?:/i.test(href)) continue;
+
+    const textHost = hostOf(text);
+    const hrefHost = hostOf(href);
+    if (!textHost || !hrefHost) continue;
+    if (hrefHost === textHost || hrefHost.endsWith(`.${textHost}`)) continue;
+
+    reasons.push({ type: 'linkMismatch', text: textHost, href: hrefHost });
+    if (reasons.length >= MAX_LINK_REASONS) break;
+  }
+  return reasons;
+}
+
+/**
+ * Failed checks from an Authentication-Results header, e.g.
+ * "mx.google.com; spf=softfail ...; dkim=pass ...; dmarc=fail ..."
+ * A mechanism fails when none of its results passed.
+ */
+export function parseAuthenticationFailures(header: string | null | undefined): string[] {
+  if (!header) return [];
+  const results: Record<string, string[]> = {};
+  for (const match of header.matchAll(/\b(spf|dkim|dmarc)\s*=\s*([a-z]+)/gi)) {
+    const mechanism = match[1].toUpperCase();
+    (results[mechanism] ||= []).push(match[2].toLowerCase());
+  }
+  return Object.entries(results)
+    .filter(([, values]) => !values.includes('pass') && values.some(v => ['fail', 'softfail', 'permerror'].includes(v)))
+    .map(([mechanism]) => mechanism);
+}
+
+// ======================================================
+// PUBLIC API
+// ======================================================
+
+/**
+ * Phishing/spoofing signals for a received email (empty when nothing looks off)
+ * @param knownAddresses - Addresses the user corresponds with (useContacts), lowercased
+ * @param userEmail - The user's own address; its domain counts as known
+ */
+export function detectPhishing(input: PhishingCheckInput, knownAddresses: string[], userEmail?: string): PhishingReason[] {
+  const known = knownAddresses.map(address => address.toLowerCase());
+  const knownDomains = [...new Set([...known.map(domainOf), userEmail ? domainOf(userEmail) : ''])].filter(Boolean);
+
+  const reasons: PhishingReason[] = [];
+
+  const nameMismatch = checkDisplayName(input, known);
+  if (nameMismatch) reasons.push(nameMismatch);
+
+  const lookalike = checkLookalikeDomain(input, knownDomains);
+  if (lookalike) reasons.push(lookalike);
+
+  reasons.push(...checkLinks(input.body));
+
+  const failedChecks = parseAuthenticationFailures(input.authenticationResults);
+  if (failedChecks.length > 0) reasons.push({ type: 'authFailed', checks: failedChecks });
+
+  return reasons;
+}
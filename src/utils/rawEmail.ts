@@ -0,0 +1,173 @@
+// utils/rawEmail.ts - Parse the original message source (RFC 822) for "Show original"
+// Used by components/inbox/OriginalMessageModal.tsx
+//
+// - Header block split from the body and unfolded (continuation lines joined)
+// - Encoded words (=?utf-8?B?...?=) decoded for display
+// - Received chain turned into a delivery timeline with per-hop delays
+
+// ======================================================
+// TYPES
+// ======================================================
+
+export interface RawHeader {
+  name: string;
+  value: string;
+}
+
+export interface DeliveryHop {
+  from: string | null;      // Sending host
+  by: string | null;        // Receiving host
+  protocol: string | null;  // SMTP, ESMTPS, HTTP...
+  date: string | null;      // ISO date, null when missing or unparseable
+  delaySeconds: number | null; // Since the previous hop
+}
+
+// Shown first in the summary, in this order
+export const KEY_HEADERS = [
+  'Message-ID',
+  'Date',
+  'From',
+  'Reply-To',
+  'To',
+  'Cc',
+  'Bcc',
+  'Subject',
+  'Return-Path',
+  'Authentication-Results',
+  'List-Unsubscribe',
+  'List-Unsubscribe-Post',
+];
+
+// ======================================================
+// HEADERS
+// ======================================================
+
+function decodeWord(charset: string, encoding: string, text: string): string {
+  try {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Uint8Array.from(atob(text), c => c.charCodeAt(0))
+      : Uint8Array.from(
+          text.replace(/_/g, ' ').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+          c => c.charCodeAt(0)
+        );
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. "=?UTF-8?B?SGVsbG8=?=" → "Hello"
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    // Whitespace between two encoded words is not part of the text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset, encoding, text) => decodeWord(charset, encoding, text));
+}
+
+/**
+ * Headers of a raw message in source order (unfolded, encoded words decoded)
+ */
+export function parseRawHeaders(raw: string): RawHeader[] {
+  const headerBlock = raw.split(/\r?\n\r?\n/)[0] || '';
+  const headers: RawHeader[] = [];
+
+  for (const line of headerBlock.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+
+  return headers.map(header => ({ ...header, value: decodeHeaderValue(header.value) }));
+}
+
+/**
+ * All values of a header (names are case-insensitive)
+ */
+export function getHeaderValues(headers: RawHeader[], name: string): string[] {
+  const wanted = name.toLowerCase();
+  return headers.filter(header => header.name.toLowerCase() === wanted).map(header => header.value);
+}
+
+// ======================================================
+// DELIVERY TIMELINE
+// ======================================================
+
+function parseReceived(value: string): Omit<DeliveryHop, 'delaySeconds'> {
+  // The date follows the last ";"
+  const semicolon = value.lastIndexOf(';');
+  const dateText = semicolon >= 0 ? value.slice(semicolon + 1).trim() : '';
+  const timestamp = dateText ? Date.parse(dateText.replace(/\s*\([^)]*\)\s*$/, '')) : NaN;
+
+  return {
+    from: value.match(/\bfrom\s+([^\s;()]+)/i)?.[1] ?? null,
+    by: value.match(/\bby\s+([^\s;()]+)/i)?.[1] ?? null,
+    protocol: value.match(/\bwith\s+([^\s;()]+)/i)?.[1] ?? null,
+    date: isNaN(timestamp) ? null : new Date(timestamp).toISOString(),
+  };
+}
+
+/**
+ * Delivery hops from the Received chain, oldest first.
+ * Each server prepends its Received header, so the chain is read bottom-up.
+ */
+export function parseDeliveryTimeline(headers: RawHeader[]): DeliveryHop[] {
+  const hops = getHeaderValues(headers, 'Received').reverse().map(parseReceived);
+
+  let previousDate: number | null = null;
+  return hops.map(hop => {
+    const time = hop.date ? new Date(hop.date).getTime() : null;
+    const delaySeconds = time !== null && previousDate !== null
+      // Clocks on different servers drift - never show a negative delay
+      ? Math.max(0, Math.round((time - previousDate) / 1000))
+      : null;
+    if (time !== null) previousDate = time;
+    return { ...hop, delaySeconds };
+  });
+}
+
+// ======================================================
+// EXPORT
+// ======================================================
+
+/**
+ * File name safe for file systems: "Re: Q4 / plan?" → "Re Q4 plan.eml"
+ */
+export function exportFileName(name: string, extension: string, fallback = 'message'): string {
+  const safe = name.replace(/[\\/:*?"<>|\r\n]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100);
+  return `${safe || fallback}.${extension}`;
+}
+
+/**
+ * File name for a downloaded message: the subject
+ */
+export function emlFileName(subject: string): string {
+  return exportFileName(subject, 'eml');
+}
+
+/**
+ * Save text as a file (.eml, .mbox...)
+ */
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const blobUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(blobUrl);
+}
+
+/**
+ * Save the raw source as a .eml file
+ */
+export function downloadEml(raw: string, subject: string): void {
+  downloadFile(raw, emlFileName(subject), 'message/rfc822');
+}
@@ -0,0 +1,89 @@
+// utils/remoteImages.ts - Senders whose remote images always load
+// Remote images are blocked by default (utils/htmlSanitizer.ts); "Always show images
+// from this sender" adds the address here. Saved per browser and per account (uid) in localStorage.
+// "Show images" for a single message is kept in memory only - the print page gets those ids in its URL.
+
+const STORAGE_PREFIX = 'outpost_trusted_image_senders:';
+
+const NO_SENDERS: ReadonlySet<string> = new Set();
+
+function loadSenders(uid: string): ReadonlySet<string> {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + uid);
+    if (!saved) return NO_SENDERS;
+    const parsed = JSON.parse(saved) as unknown;
+    if (!Array.isArray(parsed)) return NO_SENDERS;
+    return new Set(parsed.filter((sender): sender is string => typeof sender === 'string'));
+  } catch (error) {
+    console.warn('⚠️ Ignoring saved image senders:', error);
+    return NO_SENDERS;
+  }
+}
+
+// Loaded lazily per account - the same Set is returned until it changes (useSyncExternalStore)
+const trustedSendersByUser = new Map<string, ReadonlySet<string>>();
+const listeners = new Set<() => void>();
+
+function saveSenders(uid: string, next: ReadonlySet<string>): void {
+  trustedSendersByUser.set(uid, next);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + uid, JSON.stringify([...next]));
+  } catch {
+    // Not persisted - still applied for this session
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function getTrustedImageSenders(uid: string | undefined): ReadonlySet<string> {
+  if (!uid) return NO_SENDERS;
+  let senders = trustedSendersByUser.get(uid);
+  if (!senders) {
+    senders = loadSenders(uid);
+    trustedSendersByUser.set(uid, senders);
+  }
+  return senders;
+}
+
+export function isImageSenderTrusted(uid: string | undefined, senderEmail: string | undefined): boolean {
+  return !!senderEmail && getTrustedImageSenders(uid).has(senderEmail.trim().toLowerCase());
+}
+
+export function trustImageSender(uid: string | undefined, senderEmail: string): void {
+  const normalized = senderEmail.trim().toLowerCase();
+  const trustedSenders = getTrustedImageSenders(uid);
+  if (!uid || !normalized || trustedSenders.has(normalized)) return;
+  console.log('🖼️ Always showing images from:', normalized);
+  saveSenders(uid, new Set([...trustedSenders, normalized]));
+}
+
+export function untrustImageSender(uid: string | undefined, senderEmail: string): void {
+  const normalized = senderEmail.trim().toLowerCase();
+  const trustedSenders = getTrustedImageSenders(uid);
+  if (!uid || !trustedSenders.has(normalized)) return;
+  const next = new Set(trustedSenders);
+  next.delete(normalized);
+  saveSenders(uid, next);
+}
+
+// ======================================================
+// SHOWN FOR ONE MESSAGE
+// ======================================================
+
+let messagesWithImagesShown: ReadonlySet<string> = new Set();
+
+export function areImagesShownForMessage(messageId: string | undefined): boolean {
+  return !!messageId && messagesWithImagesShown.has(messageId);
+}
+
+export function showImagesForMessage(messageId: string): void {
+  if (messagesWithImagesShown.has(messageId)) return;
+  messagesWithImagesShown = new Set([...messagesWithImagesShown, messageId]);
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToTrustedImageSenders(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,176 @@
+// utils/sendChecks.ts - Last look before a message goes out
+// ✅ "Attached" in the text but nothing attached
+// ✅ Someone outside the company among colleagues
+// ✅ Reply-all to a crowd
+// ✅ A recipient you've never had mail from (getContacts)
+// ✅ Empty subject
+//
+// Each check can be switched off in Settings → Send checks; saved per browser in localStorage.
+// Compose, Reply and Forward ask through hooks/useSendChecks.ts and SendCheckDialog.
+
+import { extractEmailAddress } from '@/utils/formatters';
+import { isPersonalDomain } from '@/utils/templates';
+
+// ======================================================
+// SETTINGS
+// ======================================================
+
+export const SEND_CHECKS = [
+  'missingAttachment',
+  'externalRecipients',
+  'largeReplyAll',
+  'newRecipients',
+  'emptySubject',
+] as const;
+
+export type SendCheck = typeof SEND_CHECKS[number];
+
+export interface SendCheckSettings {
+  enabled: Record<SendCheck, boolean>;
+  replyAllLimit: number;  // Reply-all to more recipients than this asks first
+}
+
+const STORAGE_KEY = 'outpost_send_checks';
+
+export const DEFAULT_REPLY_ALL_LIMIT = 10;
+
+const DEFAULT_SETTINGS: SendCheckSettings = {
+  enabled: Object.fromEntries(SEND_CHECKS.map((check) => [check, true])) as Record<SendCheck, boolean>,
+  replyAllLimit: DEFAULT_REPLY_ALL_LIMIT,
+};
+
+// Saved values over defaults - checks added later start switched on
+function loadSettings(): SendCheckSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(saved) as Partial<SendCheckSettings>;
+    const enabled = { ...DEFAULT_SETTINGS.enabled };
+    for (const check of SEND_CHECKS) {
+      if (typeof parsed.enabled?.[check] === 'boolean') enabled[check] = parsed.enabled[check];
+    }
+    const replyAllLimit = typeof parsed.replyAllLimit === 'number' && parsed.replyAllLimit >= 1
+      ? Math.floor(parsed.replyAllLimit)
+      : DEFAULT_REPLY_ALL_LIMIT;
+    return { enabled, replyAllLimit };
+  } catch (error) {
+    console.warn('⚠️ Ignoring saved send checks:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+let settings: SendCheckSettings = loadSettings();
+const listeners = new Set<() => void>();
+
+function saveSettings(next: SendCheckSettings): void {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Not persisted - still applied for this session
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function getSendCheckSettings(): SendCheckSettings {
+  return settings;
+}
+
+export function setSendCheckEnabled(check: SendCheck, enabled: boolean): void {
+  console.log(`🛡️ Send check "${check}" ${enabled ? 'on' : 'off'}`);
+  saveSettings({ ...settings, enabled: { ...settings.enabled, [check]: enabled } });
+}
+
+export function setReplyAllLimit(limit: number): void {
+  if (!Number.isFinite(limit) || limit < 1) return;
+  saveSettings({ ...settings, replyAllLimit: Math.floor(limit) });
+}
+
+export function subscribeToSendCheckSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ======================================================
+// CHECKS
+// ======================================================
+
+export interface OutgoingMessage {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  bodyText: string;         // What the user wrote - without the quoted message
+  attachmentCount: number;
+  replyAll?: boolean;
+}
+
+export interface SendCheckContext {
+  userEmail: string;
+  contacts: string[];       // Addresses seen in the mailbox; empty = not loaded, check skipped
+}
+
+export type SendWarning =
+  | { check: 'missingAttachment' }
+  | { check: 'externalRecipients'; recipients: string[]; domain: string }
+  | { check: 'largeReplyAll'; count: number }
+  | { check: 'newRecipients'; recipients: string[] }
+  | { check: 'emptySubject' }
+  // Raised by the mail merge itself (not a setting): recipients missing a field the message uses
+  | { check: 'mergeBlankFields'; count: number };
+
+// "attached", "see attachment", "enclosed"... and the German "anbei" / "im Anhang"
+const ATTACHMENT_MENTION = /\b(attach(ed|ing|ment|ments)?|enclosed|anbei|angehängt|anhang)\b/i;
+
+function domainOf(address: string): string {
+  return address.split('@')[1]?.toLowerCase() ?? '';
+}
+
+/**
+ * Everything about this message worth a second look, in SEND_CHECKS order.
+ * Checks switched off in settings are skipped.
+ */
+export function findSendWarnings(
+  message: OutgoingMessage,
+  { userEmail, contacts }: SendCheckContext,
+  { enabled, replyAllLimit }: SendCheckSettings = settings
+): SendWarning[] {
+  const warnings: SendWarning[] = [];
+  const self = userEmail.toLowerCase();
+  const recipients = [...new Set(
+    [...message.to, ...message.cc, ...message.bcc].map((recipient) => extractEmailAddress(recipient).trim().toLowerCase())
+  )].filter((recipient) => recipient && recipient !== self);
+
+  if (enabled.missingAttachment && message.attachmentCount === 0 && ATTACHMENT_MENTION.test(message.bodyText)) {
+    warnings.push({ check: 'missingAttachment' });
+  }
+
+  // Only meaningful with a company domain - everyone at gmail.com isn't a colleague
+  const ownDomain = domainOf(self);
+  if (enabled.externalRecipients && ownDomain && !isPersonalDomain(ownDomain)) {
+    const external = recipients.filter((recipient) => domainOf(recipient) !== ownDomain);
+    if (external.length > 0 && external.length < recipients.length) {
+      warnings.push({ check: 'externalRecipients', recipients: external, domain: ownDomain });
+    }
+  }
+
+  if (enabled.largeReplyAll && message.replyAll && recipients.length > replyAllLimit) {
+    warnings.push({ check: 'largeReplyAll', count: recipients.length });
+  }
+
+  if (enabled.newRecipients && contacts.length > 0) {
+    const known = new Set(contacts.map((contact) => extractEmailAddress(contact).trim().toLowerCase()));
+    const unknown = recipients.filter((recipient) => !known.has(recipient));
+    if (unknown.length > 0) {
+      warnings.push({ check: 'newRecipients', recipients: unknown });
+    }
+  }
+
+  if (enabled.emptySubject && !message.subject.trim()) {
+    warnings.push({ check: 'emptySubject' });
+  }
+
+  return warnings;
+}
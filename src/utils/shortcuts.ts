@@ -0,0 +1,315 @@
+// utils/shortcuts.ts - Keyboard shortcut definitions, user bindings and key matching
+// ✅ One list of every shortcut (action → default keys → scope)
+// ✅ User rebinding (Settings → Keyboard shortcuts), remembered on this device
+// ✅ Chords ("mod+enter", "shift+i") and sequences ("g i")
+//
+// Bindings are module state (like utils/dateTime): the ShortcutsProvider reads them
+// on every keypress, and components that show keys use useShortcutBindings().
+//
+// Binding syntax: chord parts joined by "+", sequence steps separated by a space.
+// "mod" is ⌘ on Mac and Ctrl elsewhere.
+
+import type { MessageKey } from '@/i18n';
+
+// ======================================================
+// DEFINITIONS
+// ======================================================
+
+/**
+ * Where a shortcut applies:
+ * - global: anywhere in the app (not while typing)
+ * - list:   a thread list is on screen
+ * - detail: a thread is open
+ * - editor: compose / reply / forward is open (fires while typing)
+ */
+export type ShortcutScope = 'global' | 'list' | 'detail' | 'editor';
+
+export type ShortcutAction =
+  | 'compose'
+  | 'search'
+  | 'showShortcuts'
+  | 'commandPalette'
+  | 'goInbox'
+  | 'goSent'
+  | 'goDrafts'
+  | 'nextThread'
+  | 'previousThread'
+  | 'selectAll'
+  | 'clearSelection'
+  | 'markRead'
+  | 'markUnread'
+  | 'markDone'
+  | 'delete'
+  | 'reply'
+  | 'replyAll'
+  | 'forward'
+  | 'label'
+  | 'snooze'
+  | 'send';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  scope: ShortcutScope;
+  keys: string[];          // Default bindings - any of them triggers the action
+  labelKey: MessageKey;    // Description shown in the cheat sheet / Settings
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  // Global
+  { action: 'compose', scope: 'global', keys: ['c'], labelKey: 'shortcuts.compose' },
+  { action: 'search', scope: 'global', keys: ['/'], labelKey: 'shortcuts.search' },
+  { action: 'showShortcuts', scope: 'global', keys: ['?'], labelKey: 'shortcuts.showShortcuts' },
+  { action: 'commandPalette', scope: 'global', keys: ['mod+k'], labelKey: 'shortcuts.commandPalette' },
+  { action: 'goInbox', scope: 'global', keys: ['g i'], labelKey: 'shortcuts.goInbox' },
+  { action: 'goSent', scope: 'global', keys: ['g s'], labelKey: 'shortcuts.goSent' },
+  { action: 'goDrafts', scope: 'global', keys: ['g d'], labelKey: 'shortcuts.goDrafts' },
+
+  // Thread list
+  { action: 'nextThread', scope: 'list', keys: ['j'], labelKey: 'shortcuts.nextThread' },
+  { action: 'previousThread', scope: 'list', keys: ['k'], labelKey: 'shortcuts.previousThread' },
+  { action: 'selectAll', scope: 'list', keys: ['mod+a'], labelKey: 'shortcuts.selectAll' },
+  { action: 'clearSelection', scope: 'list', keys: ['escape'], labelKey: 'shortcuts.clearSelection' },
+  { action: 'markRead', scope: 'list', keys: ['shift+i'], labelKey: 'shortcuts.markRead' },
+  { action: 'markUnread', scope: 'list', keys: ['shift+u'], labelKey: 'shortcuts.markUnread' },
+
+  // Open thread (done/delete/snooze also apply to checked threads)
+  { action: 'markDone', scope: 'detail', keys: ['e'], labelKey: 'shortcuts.markDone' },
+  { action: 'delete', scope: 'detail', keys: ['#', 'delete'], labelKey: 'shortcuts.delete' },
+  { action: 'reply', scope: 'detail', keys: ['r'], labelKey: 'shortcuts.reply' },
+  { action: 'replyAll', scope: 'detail', keys: ['a'], labelKey: 'shortcuts.replyAll' },
+  { action: 'forward', scope: 'detail', keys: ['f'], labelKey: 'shortcuts.forward' },
+  { action: 'label', scope: 'detail', keys: ['l'], labelKey: 'shortcuts.label' },
+  { action: 'snooze', scope: 'detail', keys: ['b'], labelKey: 'shortcuts.snooze' },
+
+  // Compose / reply / forward
+  { action: 'send', scope: 'editor', keys: ['mod+enter'], labelKey: 'shortcuts.send' },
+];
+
+export const SHORTCUT_SCOPES: ShortcutScope[] = ['global', 'list', 'detail', 'editor'];
+
+export function getShortcutDefinition(action: ShortcutAction): ShortcutDefinition | undefined {
+  return SHORTCUTS.find(shortcut => shortcut.action === action);
+}
+
+// ======================================================
+// KEYS
+// ======================================================
+
+export const isMac = typeof navigator !== 'undefined' && navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+
+const MODIFIERS = ['mod', 'alt', 'shift'] as const;
+
+const KEY_ALIASES: Record<string, string> = {
+  cmd: 'mod',
+  meta: 'mod',
+  ctrl: 'mod',
+  control: 'mod',
+  option: 'alt',
+  esc: 'escape',
+  del: 'delete',
+  return: 'enter',
+  ' ': 'space',
+};
+
+// Letters keep "shift" explicitly; symbols like "#" or "?" already imply it
+function impliesShift(key: string): boolean {
+  return key.length === 1 && key.toLowerCase() === key.toUpperCase() && key !== ' ';
+}
+
+function normalizeChord(chord: string): string {
+  const parts = chord.split('+').filter(Boolean).map(part => {
+    const lower = part.toLowerCase();
+    return KEY_ALIASES[lower] ?? lower;
+  });
+
+  const key = parts.find(part => !MODIFIERS.includes(part as typeof MODIFIERS[number])) ?? '';
+  const modifiers = MODIFIERS.filter(modifier =>
+    parts.includes(modifier) && !(modifier === 'shift' && impliesShift(key))
+  );
+  return [...modifiers, key].join('+');
+}
+
+/**
+ * "Mod+Enter", "g  I" → "mod+enter", "g i"
+ */
+export function normalizeBinding(binding: string): string {
+  return binding.trim().split(/\s+/).map(normalizeChord).join(' ');
+}
+
+/**
+ * Keyboard event → chord string, or null for bare modifier presses.
+ */
+export function eventToChord(e: KeyboardEvent): string | null {
+  if (!e.key || ['Meta', 'Control', 'Alt', 'Shift', 'CapsLock', 'Dead'].includes(e.key)) {
+    return null;
+  }
+
+  const raw = e.key.toLowerCase();
+  const key = KEY_ALIASES[raw] ?? raw;
+  const parts: string[] = [];
+  if (e.metaKey || e.ctrlKey) parts.push('mod');
+  if (e.altKey) parts.push('alt');
+  if (e.shiftKey && !impliesShift(e.key)) parts.push('shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+const KEY_LABELS: Record<string, string> = {
+  enter: 'Enter',
+  escape: 'Esc',
+  delete: 'Del',
+  backspace: '⌫',
+  space: 'Space',
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  tab: 'Tab',
+};
+
+/**
+ * "mod+enter" → "⌘+Enter" / "Ctrl+Enter"
+ */
+export function formatChord(chord: string): string {
+  return chord.split('+').filter(Boolean).map(part => {
+    if (part === 'mod') return isMac ? '⌘' : 'Ctrl';
+    if (part === 'alt') return isMac ? '⌥' : 'Alt';
+    if (part === 'shift') return 'Shift';
+    return KEY_LABELS[part] ?? part.toUpperCase();
+  }).join('+');
+}
+
+/**
+ * "g i" → ["G", "I"] - one entry per key press, for <kbd> rendering
+ */
+export function formatBinding(binding: string): string[] {
+  return binding.split(' ').filter(Boolean).map(formatChord);
+}
+
+// ======================================================
+// USER BINDINGS
+// ======================================================
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+const STORAGE_KEY = 'outpost_shortcuts';
+
+function getDefaultBindings(): ShortcutBindings {
+  return Object.fromEntries(
+    SHORTCUTS.map(shortcut => [shortcut.action, shortcut.keys.map(normalizeBinding)])
+  ) as ShortcutBindings;
+}
+
+// Saved overrides only - defaults fill the rest (new shortcuts appear for everyone)
+function loadOverrides(): Partial<ShortcutBindings> {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return {};
+    const parsed = JSON.parse(saved) as Record<string, unknown>;
+    const overrides: Partial<ShortcutBindings> = {};
+    for (const shortcut of SHORTCUTS) {
+      const keys = parsed[shortcut.action];
+      if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+        overrides[shortcut.action] = keys.map(normalizeBinding);
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.warn('⚠️ Ignoring saved keyboard shortcuts:', error);
+    return {};
+  }
+}
+
+let overrides: Partial<ShortcutBindings> = loadOverrides();
+let bindings: ShortcutBindings = { ...getDefaultBindings(), ...overrides };
+const listeners = new Set<() => void>();
+
+function saveOverrides(next: Partial<ShortcutBindings>): void {
+  overrides = next;
+  bindings = { ...getDefaultBindings(), ...overrides };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch {
+    // Not persisted - still applied for this session
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function getShortcutBindings(): ShortcutBindings {
+  return bindings;
+}
+
+export function isShortcutCustomized(action: ShortcutAction): boolean {
+  return overrides[action] !== undefined;
+}
+
+/**
+ * Rebind an action. An empty list disables it.
+ */
+export function setShortcutBinding(action: ShortcutAction, keys: string[]): void {
+  const normalized = keys.map(normalizeBinding).filter(Boolean);
+  console.log(`⌨️ Shortcut "${action}" → ${normalized.join(', ') || '(none)'}`);
+  saveOverrides({ ...overrides, [action]: normalized });
+}
+
+export function resetShortcutBinding(action: ShortcutAction): void {
+  const next = { ...overrides };
+  delete next[action];
+  saveOverrides(next);
+}
+
+export function resetAllShortcutBindings(): void {
+  console.log('⌨️ Keyboard shortcuts reset to defaults');
+  saveOverrides({});
+}
+
+export function subscribeToShortcutBindings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Editor shortcuts only fire while composing, when the others are paused
+function scopesOverlap(a: ShortcutScope, b: ShortcutScope): boolean {
+  return (a === 'editor') === (b === 'editor');
+}
+
+/**
+ * Another action already using `binding` where both could fire - null when free.
+ * A binding that is a prefix of a sequence ("g" vs "g i") also conflicts.
+ */
+export function findShortcutConflict(action: ShortcutAction, binding: string): ShortcutAction | null {
+  const scope = getShortcutDefinition(action)?.scope;
+  const normalized = normalizeBinding(binding);
+
+  for (const shortcut of SHORTCUTS) {
+    if (shortcut.action === action || !scopesOverlap(scope, shortcut.scope)) continue;
+
+    const clash = bindings[shortcut.action].some(other =>
+      other === normalized ||
+      other.startsWith(`${normalized} `) ||
+      normalized.startsWith(`${other} `)
+    );
+    if (clash) return shortcut.action;
+  }
+  return null;
+}
+
+// ======================================================
+// MATCHING
+// ======================================================
+
+export type SequenceMatch = 'full' | 'partial' | 'none';
+
+/**
+ * Compare the keys pressed so far (chords) with a binding.
+ */
+export function matchSequence(pressed: string[], binding: string): SequenceMatch {
+  const steps = binding.split(' ');
+  if (pressed.length > steps.length) return 'none';
+  for (let i = 0; i < pressed.length; i++) {
+    if (steps[i] !== pressed[i]) return 'none';
+  }
+  return pressed.length === steps.length ? 'full' : 'partial';
+}
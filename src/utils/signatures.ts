@@ -0,0 +1,50 @@
+// utils/signatures.ts - Signature HTML for the editor and where it ends up in a sent reply/forward
+// The editor keeps the signature as <div data-signature="id"> (components/inbox/extensions/Signature.ts);
+// the quoted message is only appended at send time, so "below the quote" is applied here
+
+import type { EmailSignature, SignaturePlacement } from '@/services/signatureApi';
+
+interface MessageBody {
+  html: string;
+  text: string;
+}
+
+/**
+ * The signature block as the editor stores it
+ */
+export function signatureHtml(signature: EmailSignature): string {
+  const id = signature.id.replace(/"/g, '&quot;');
+  return `<div data-signature="${id}">${signature.html || '<p></p>'}</div>`;
+}
+
+// Paragraph text joined the way Tiptap's getText() joins blocks
+function blockText(element: Element): string {
+  const blocks = Array.from(element.children);
+  if (blocks.length === 0) return element.textContent || '';
+  return blocks.map((block) => block.textContent || '').join('\n\n');
+}
+
+/**
+ * Join what the user wrote with the quoted message.
+ * 'above' keeps the signature where the editor has it (right under the message);
+ * 'below' moves it after the quote, in both the HTML and the plain text.
+ */
+export function joinWithQuote(message: MessageBody, quote: MessageBody, placement: SignaturePlacement): MessageBody {
+  const joined = { html: message.html + quote.html, text: message.text + quote.text };
+  if (placement === 'above' || !quote.html) return joined;
+
+  const doc = new DOMParser().parseFromString(message.html, 'text/html');
+  const signature = doc.body.querySelector(':scope > [data-signature]');
+  if (!signature) return joined;
+
+  signature.remove();
+  const signatureText = blockText(signature).trim();
+  const text = message.text.trimEnd();
+
+  return {
+    html: doc.body.innerHTML + quote.html + signature.outerHTML,
+    text: signatureText && text.endsWith(signatureText)
+      ? text.slice(0, -signatureText.length).trimEnd() + quote.text + '\n\n' + signatureText
+      : joined.text,
+  };
+}
@@ -0,0 +1,91 @@
+// utils/templates.ts - Filling template {{variables}} from the conversation
+// The "recipient" is who the message is for: the sender being replied to,
+// or the first To address in a new message / forward
+
+import { extractNameFromEmail, extractEmailAddress } from '@/utils/formatters';
+
+// Variables a template can use, in the order Settings lists them
+export const TEMPLATE_VARIABLES = ['first_name', 'last_name', 'full_name', 'email', 'sender_company'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+// Personal mailbox providers - their domain says nothing about a company
+const PERSONAL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+  'yahoo.com', 'ymail.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com',
+  'proton.me', 'protonmail.com', 'gmx.com', 'gmx.de', 'web.de', 'mail.com', 'zoho.com',
+]);
+
+// Second-level labels that sit in front of a country code (acme.co.uk)
+const GENERIC_SECOND_LEVEL = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu']);
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/gi;
+
+// Shortcuts are typed after ';' - letters, digits, '-' and '_'
+export const SHORTCUT_PATTERN = /^[a-z0-9_-]+$/i;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Personal mailbox provider (gmail.com...) rather than an organisation's domain
+ */
+export function isPersonalDomain(domain: string): boolean {
+  return PERSONAL_DOMAINS.has(domain.toLowerCase());
+}
+
+/**
+ * Best guess at a company name from an address ("jane@acme-labs.co.uk" → "Acme Labs")
+ * @returns Empty string for personal mailboxes
+ */
+export function companyFromEmail(email: string): string {
+  const domain = email.split('@')[1]?.toLowerCase().trim();
+  if (!domain || isPersonalDomain(domain)) return '';
+
+  const labels = domain.split('.').slice(0, -1);
+  if (labels.length > 1 && GENERIC_SECOND_LEVEL.has(labels[labels.length - 1])) labels.pop();
+  const name = labels[labels.length - 1] || '';
+
+  return name
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Variable values for a recipient like "Jane Doe <jane@acme.com>" or "jane@acme.com"
+ */
+export function templateValuesFor(recipient: string | null | undefined): TemplateValues {
+  if (!recipient) return {};
+
+  const email = extractEmailAddress(recipient).trim();
+  const fullName = extractNameFromEmail(recipient).trim();
+  const [firstName = '', ...rest] = fullName.split(/\s+/);
+
+  return {
+    first_name: firstName,
+    last_name: rest.join(' '),
+    full_name: fullName,
+    email,
+    sender_company: companyFromEmail(email),
+  };
+}
+
+/**
+ * Replace {{variables}} in template HTML. Unknown or empty ones stay as typed,
+ * so they're easy to spot and fill in by hand before sending.
+ */
+export function fillTemplate(html: string, values: TemplateValues): string {
+  return html.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name.toLowerCase() as TemplateVariable];
+    return value ? escapeHtml(value) : placeholder;
+  });
+}